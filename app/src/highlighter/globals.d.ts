@@ -218,6 +218,12 @@ declare namespace CodeMirror {
 
   function defineMIME(mime: string, spec: any): void
 
+  /**
+   * Define a mode from a state machine of regular expressions. Only available
+   * once the simple mode addon has been loaded.
+   */
+  function defineSimpleMode(id: string, states: any): void
+
   function startState(mode: Mode<{}>, a1: any, a2: any): any
 
   function resolveMode(spec: any): any
@@ -253,6 +259,7 @@ declare module 'codemirror/addon/runmode/runmode.node.js' {
 }
 
 declare module 'codemirror-mode-elixir'
+declare module 'codemirror/addon/mode/simple'
 
 // find app/node_modules/codemirror/mode -iname *.js | cut -d '/' -f 3- | cut -d '.' -f 1 | sed -e "s/^/declare module '/" | sed -e "s/$/'/"
 declare module 'codemirror/mode/scheme/scheme'
@@ -0,0 +1,233 @@
+import { IHighlighterGrammar } from '../lib/highlighter/types'
+
+const identifierRegex = '[A-Za-z_][\\w-]*'
+const numberRegex = '\\d+(?:\\.\\d+)?(?:[eE][+-]?\\d+)?'
+
+/** Match any of the given words as long as they're not part of a longer word */
+function words(...list: ReadonlyArray<string>) {
+  return `(?:${list.join('|')})\\b`
+}
+
+/**
+ * Grammars for languages which CodeMirror doesn't ship a mode for. These use
+ * the same format as the grammars supplied by users, see
+ * `IHighlighterGrammar`.
+ */
+export const builtInGrammars: ReadonlyArray<IHighlighterGrammar> = [
+  {
+    name: 'HCL',
+    aliases: ['Terraform'],
+    extensions: ['.tf', '.tfvars', '.hcl', '.nomad'],
+    states: {
+      start: [
+        { regex: '(?:#|//).*', token: 'comment' },
+        { regex: '/\\*', token: 'comment', next: 'comment' },
+        { regex: '"', token: 'string', next: 'string' },
+        { regex: '<<-?\\s*\\w+', token: 'string' },
+        {
+          regex: words(
+            'resource',
+            'data',
+            'variable',
+            'output',
+            'locals',
+            'module',
+            'provider',
+            'terraform',
+            'backend',
+            'provisioner',
+            'dynamic',
+            'for_each',
+            'count',
+            'depends_on',
+            'lifecycle',
+            'for',
+            'in',
+            'if'
+          ),
+          token: 'keyword',
+        },
+        { regex: words('true', 'false', 'null'), token: 'atom' },
+        { regex: numberRegex, token: 'number' },
+        { regex: `${identifierRegex}(?=\\s*=(?!=))`, token: 'attribute' },
+        { regex: `${identifierRegex}(?=\\()`, token: 'variable-2' },
+        { regex: identifierRegex, token: 'variable' },
+        { regex: '[-+*/%=!<>&|?:]+', token: 'operator' },
+      ],
+      string: [
+        { regex: '\\$\\{[^}]*\\}', token: 'variable-2' },
+        { regex: '(?:[^"\\\\$]|\\\\.|\\$(?!\\{))+', token: 'string' },
+        { regex: '"', token: 'string', next: 'start' },
+      ],
+      comment: [
+        { regex: '.*?\\*/', token: 'comment', next: 'start' },
+        { regex: '.*', token: 'comment' },
+      ],
+    },
+  },
+  {
+    name: 'Nix',
+    extensions: ['.nix'],
+    states: {
+      start: [
+        { regex: '#.*', token: 'comment' },
+        { regex: '/\\*', token: 'comment', next: 'comment' },
+        { regex: "''", token: 'string', next: 'indentedString' },
+        { regex: '"', token: 'string', next: 'string' },
+        {
+          regex: words(
+            'let',
+            'in',
+            'with',
+            'rec',
+            'inherit',
+            'if',
+            'then',
+            'else',
+            'assert',
+            'or'
+          ),
+          token: 'keyword',
+        },
+        {
+          regex: words(
+            'import',
+            'builtins',
+            'throw',
+            'abort',
+            'map',
+            'toString',
+            'derivation',
+            'baseNameOf',
+            'dirOf',
+            'isNull',
+            'removeAttrs'
+          ),
+          token: 'builtin',
+        },
+        { regex: words('true', 'false', 'null'), token: 'atom' },
+        { regex: '(?:\\.{0,2}|~)(?:/[\\w.+-]+)+', token: 'string-2' },
+        { regex: '<[\\w.+/-]+>', token: 'string-2' },
+        { regex: numberRegex, token: 'number' },
+        { regex: "[A-Za-z_][\\w'-]*(?=\\s*=(?!=))", token: 'attribute' },
+        { regex: "[A-Za-z_][\\w'-]*", token: 'variable' },
+        { regex: '[-+*/=!<>&|?:@]+', token: 'operator' },
+      ],
+      string: [
+        { regex: '\\$\\{[^}]*\\}', token: 'variable-2' },
+        { regex: '(?:[^"\\\\$]|\\\\.|\\$(?!\\{))+', token: 'string' },
+        { regex: '"', token: 'string', next: 'start' },
+      ],
+      indentedString: [
+        { regex: "''[$'\\\\]", token: 'string' },
+        { regex: '\\$\\{[^}]*\\}', token: 'variable-2' },
+        { regex: "''", token: 'string', next: 'start' },
+        { regex: "(?:[^'$]|'(?!')|\\$(?!\\{))+", token: 'string' },
+      ],
+      comment: [
+        { regex: '.*?\\*/', token: 'comment', next: 'start' },
+        { regex: '.*', token: 'comment' },
+      ],
+    },
+  },
+  {
+    name: 'Zig',
+    extensions: ['.zig'],
+    states: {
+      start: [
+        { regex: '//.*', token: 'comment' },
+        { regex: '\\\\\\\\.*', token: 'string' },
+        { regex: '"', token: 'string', next: 'string' },
+        { regex: "'(?:[^'\\\\]|\\\\.)*'", token: 'string' },
+        { regex: '@[A-Za-z_]\\w*', token: 'builtin' },
+        {
+          regex: words(
+            'align',
+            'allowzero',
+            'and',
+            'anyframe',
+            'anytype',
+            'asm',
+            'async',
+            'await',
+            'break',
+            'callconv',
+            'catch',
+            'comptime',
+            'const',
+            'continue',
+            'defer',
+            'else',
+            'enum',
+            'errdefer',
+            'error',
+            'export',
+            'extern',
+            'fn',
+            'for',
+            'if',
+            'inline',
+            'noalias',
+            'noinline',
+            'nosuspend',
+            'opaque',
+            'or',
+            'orelse',
+            'packed',
+            'pub',
+            'resume',
+            'return',
+            'linksection',
+            'struct',
+            'suspend',
+            'switch',
+            'test',
+            'threadlocal',
+            'try',
+            'union',
+            'unreachable',
+            'usingnamespace',
+            'var',
+            'volatile',
+            'while'
+          ),
+          token: 'keyword',
+        },
+        {
+          regex: words(
+            '[iu]\\d+',
+            'isize',
+            'usize',
+            'f16',
+            'f32',
+            'f64',
+            'f80',
+            'f128',
+            'bool',
+            'void',
+            'noreturn',
+            'type',
+            'anyerror',
+            'anyopaque',
+            'comptime_int',
+            'comptime_float'
+          ),
+          token: 'type',
+        },
+        { regex: words('true', 'false', 'null', 'undefined'), token: 'atom' },
+        {
+          regex:
+            '0x[\\da-fA-F_]+|0o[0-7_]+|0b[01_]+|\\d[\\d_]*(?:\\.[\\d_]+)?(?:[eE][+-]?\\d+)?',
+          token: 'number',
+        },
+        { regex: '[A-Za-z_]\\w*(?=\\s*\\()', token: 'variable-2' },
+        { regex: '[A-Za-z_]\\w*', token: 'variable' },
+        { regex: '[-+*/%=!<>&|^~?:.]+', token: 'operator' },
+      ],
+      string: [
+        { regex: '(?:[^"\\\\]|\\\\.)+', token: 'string' },
+        { regex: '"', token: 'string', next: 'start' },
+      ],
+    },
+  },
+]
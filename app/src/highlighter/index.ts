@@ -4,12 +4,20 @@
 // a small subset. This hack is brought to you by webpack and you
 // can read all about it in webpack.common.js.
 import {
+  defineMIME,
+  defineSimpleMode,
   getMode,
   innerMode,
   StringStream,
 } from 'codemirror/addon/runmode/runmode.node.js'
+import 'codemirror/addon/mode/simple'
 
-import { ITokens, IHighlightRequest } from '../lib/highlighter/types'
+import {
+  ITokens,
+  IHighlightRequest,
+  IHighlighterGrammar,
+} from '../lib/highlighter/types'
+import { builtInGrammars } from './grammars'
 
 /**
  * A mode definition object is used to map a certain file
@@ -36,6 +44,67 @@ interface IModeDefinition {
   }
 }
 
+/** Get the name of the CodeMirror mode defined for a grammar */
+function getGrammarModeName(grammar: IHighlighterGrammar) {
+  return `grammar-${grammar.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`
+}
+
+/** Get the mime type of the CodeMirror mode defined for a grammar */
+function getGrammarMIMEType(grammar: IHighlighterGrammar) {
+  return `text/x-${getGrammarModeName(grammar)}`
+}
+
+/** Get the lower case name and aliases of a grammar */
+function getGrammarNames(grammar: IHighlighterGrammar) {
+  return [grammar.name, ...(grammar.aliases ?? [])].map(n => n.toLowerCase())
+}
+
+/**
+ * A map between the mime types of the grammars which have been defined as
+ * CodeMirror modes and the serialized states they were defined with.
+ */
+const definedGrammars = new Map<string, string>()
+
+/**
+ * Define a CodeMirror mode for the grammar unless the same version of the
+ * grammar has already been defined, and return the mode's mime type.
+ */
+function defineGrammar(grammar: IHighlighterGrammar) {
+  const mimeType = getGrammarMIMEType(grammar)
+  const states = JSON.stringify(grammar.states)
+
+  if (definedGrammars.get(mimeType) !== states) {
+    // The simple mode addon needs mutable copies of the states
+    defineSimpleMode(getGrammarModeName(grammar), JSON.parse(states))
+    defineMIME(mimeType, getGrammarModeName(grammar))
+    definedGrammars.set(mimeType, states)
+  }
+
+  return mimeType
+}
+
+/**
+ * Get a mode definition for a built-in grammar. Built-in grammars are only
+ * matched by extension.
+ */
+function getGrammarModeDefinition(
+  grammar: IHighlighterGrammar
+): IModeDefinition {
+  const mimeType = getGrammarMIMEType(grammar)
+  const mappings: { [key: string]: string } = {}
+
+  for (const extension of grammar.extensions ?? []) {
+    mappings[extension.toLowerCase()] = mimeType
+  }
+
+  return {
+    install: async () => {
+      defineGrammar(grammar)
+    },
+    mappings,
+  }
+}
+
 /**
  * Array describing all currently supported extensionModes and the file extensions
  * that they cover.
@@ -150,6 +219,7 @@ const extensionModes: ReadonlyArray<IModeDefinition> = [
       '.hpp': 'text/x-c++src',
       '.ino': 'text/x-c++src',
       '.kt': 'text/x-kotlin',
+      '.kts': 'text/x-kotlin',
     },
   },
   {
@@ -424,6 +494,79 @@ const extensionModes: ReadonlyArray<IModeDefinition> = [
       '.dart': 'application/dart',
     },
   },
+  {
+    install: () => import('codemirror/mode/groovy/groovy'),
+    mappings: {
+      '.groovy': 'text/x-groovy',
+      '.gradle': 'text/x-groovy',
+    },
+  },
+  {
+    install: () => import('codemirror/mode/haskell/haskell'),
+    mappings: {
+      '.hs': 'text/x-haskell',
+    },
+  },
+  {
+    install: () => import('codemirror/mode/elm/elm'),
+    mappings: {
+      '.elm': 'text/x-elm',
+    },
+  },
+  {
+    install: () => import('codemirror/mode/erlang/erlang'),
+    mappings: {
+      '.erl': 'text/x-erlang',
+      '.hrl': 'text/x-erlang',
+    },
+  },
+  {
+    install: () => import('codemirror/mode/cmake/cmake'),
+    mappings: {
+      '.cmake': 'text/x-cmake',
+    },
+  },
+  {
+    install: () => import('codemirror/mode/d/d'),
+    mappings: {
+      '.d': 'text/x-d',
+    },
+  },
+  {
+    install: () => import('codemirror/mode/tcl/tcl'),
+    mappings: {
+      '.tcl': 'text/x-tcl',
+    },
+  },
+  {
+    install: () => import('codemirror/mode/verilog/verilog'),
+    mappings: {
+      '.v': 'text/x-verilog',
+      '.sv': 'text/x-systemverilog',
+      '.svh': 'text/x-systemverilog',
+    },
+  },
+  {
+    install: () => import('codemirror/mode/vhdl/vhdl'),
+    mappings: {
+      '.vhd': 'text/x-vhdl',
+      '.vhdl': 'text/x-vhdl',
+    },
+  },
+  {
+    install: () => import('codemirror/mode/sass/sass'),
+    mappings: {
+      '.sass': 'text/x-sass',
+    },
+  },
+  {
+    install: () => import('codemirror/mode/commonlisp/commonlisp'),
+    mappings: {
+      '.lisp': 'text/x-common-lisp',
+      '.el': 'text/x-common-lisp',
+    },
+  },
+  ...builtInGrammars.map(getGrammarModeDefinition),
 ]
 
 /**
@@ -444,6 +587,24 @@ const basenameModes: ReadonlyArray<IModeDefinition> = [
       dockerfile: 'text/x-dockerfile',
     },
   },
+  {
+    install: () => import('codemirror/mode/cmake/cmake'),
+    mappings: {
+      'cmakelists.txt': 'text/x-cmake',
+    },
+  },
+  {
+    install: () => import('codemirror/mode/nginx/nginx'),
+    mappings: {
+      'nginx.conf': 'text/x-nginx-conf',
+    },
+  },
+  {
+    install: () => import('codemirror/mode/groovy/groovy'),
+    mappings: {
+      jenkinsfile: 'text/x-groovy',
+    },
+  },
 ]
 
 /**
@@ -506,10 +667,108 @@ function guessMimeType(contents: ReadonlyArray<string>) {
   return null
 }
 
+/**
+ * A map between lower case language names, as used by Linguist (i.e. in
+ * `linguist-language` attributes), and mime types.
+ */
+const languageMIMEMap = new Map<string, string>([
+  ['javascript', 'text/javascript'],
+  ['typescript', 'text/typescript'],
+  ['tsx', 'text/typescript-jsx'],
+  ['jsx', 'text/jsx'],
+  ['json', 'application/json'],
+  ['coffeescript', 'text/x-coffeescript'],
+  ['html', 'text/html'],
+  ['css', 'text/css'],
+  ['scss', 'text/x-scss'],
+  ['less', 'text/x-less'],
+  ['sass', 'text/x-sass'],
+  ['vue', 'text/x-vue'],
+  ['markdown', 'text/x-markdown'],
+  ['yaml', 'text/yaml'],
+  ['xml', 'text/xml'],
+  ['diff', 'text/x-diff'],
+  ['c', 'text/x-c'],
+  ['c++', 'text/x-c++src'],
+  ['c#', 'text/x-csharp'],
+  ['csharp', 'text/x-csharp'],
+  ['java', 'text/x-java'],
+  ['kotlin', 'text/x-kotlin'],
+  ['scala', 'text/x-scala'],
+  ['objective-c', 'text/x-objectivec'],
+  ['ocaml', 'text/x-ocaml'],
+  ['f#', 'text/x-fsharp'],
+  ['swift', 'text/x-swift'],
+  ['shell', 'text/x-sh'],
+  ['bash', 'text/x-sh'],
+  ['sql', 'text/x-sql'],
+  ['go', 'text/x-go'],
+  ['golang', 'text/x-go'],
+  ['perl', 'text/x-perl'],
+  ['php', 'application/x-httpd-php'],
+  ['python', 'text/x-python'],
+  ['ruby', 'text/x-ruby'],
+  ['clojure', 'text/x-clojure'],
+  ['rust', 'text/x-rustsrc'],
+  ['elixir', 'text/x-elixir'],
+  ['r', 'text/x-rsrc'],
+  ['powershell', 'application/x-powershell'],
+  ['visual basic .net', 'text/x-vb'],
+  ['fortran', 'text/x-fortran'],
+  ['lua', 'text/x-lua'],
+  ['julia', 'text/x-julia'],
+  ['tex', 'text/x-stex'],
+  ['restructuredtext', 'text/x-rst'],
+  ['protocol buffer', 'text/x-protobuf'],
+  ['protobuf', 'text/x-protobuf'],
+  ['toml', 'text/x-toml'],
+  ['ini', 'text/x-ini'],
+  ['dart', 'application/dart'],
+  ['dockerfile', 'text/x-dockerfile'],
+  ['groovy', 'text/x-groovy'],
+  ['haskell', 'text/x-haskell'],
+  ['elm', 'text/x-elm'],
+  ['erlang', 'text/x-erlang'],
+  ['cmake', 'text/x-cmake'],
+  ['nginx', 'text/x-nginx-conf'],
+  ['d', 'text/x-d'],
+  ['tcl', 'text/x-tcl'],
+  ['verilog', 'text/x-verilog'],
+  ['systemverilog', 'text/x-systemverilog'],
+  ['vhdl', 'text/x-vhdl'],
+  ['common lisp', 'text/x-common-lisp'],
+  ...builtInGrammars.flatMap(g =>
+    getGrammarNames(g).map(name => [name, getGrammarMIMEType(g)] as const)
+  ),
+])
+
+/**
+ * Get the mime type for a language given either by name (i.e. 'Kotlin'),
+ * by file extension (i.e. '.kt' or 'kt') or by mime type.
+ */
+function getLanguageMIMEType(language: string): string | null {
+  const key = language.trim().toLowerCase()
+  const extension = key.startsWith('.') ? key : `.${key}`
+
+  return (
+    languageMIMEMap.get(key) ??
+    // Attribute values can't contain spaces so names like 'Common Lisp' are
+    // written with dashes instead.
+    languageMIMEMap.get(key.replace(/-/g, ' ')) ??
+    extensionMIMEMap.get(extension) ??
+    (mimeModeMap.has(key) ? key : null)
+  )
+}
+
 async function detectMode(
   request: IHighlightRequest
 ): Promise<CodeMirror.Mode<{}> | null> {
+  if (request.grammar) {
+    return getMode({}, defineGrammar(request.grammar)) || null
+  }
+
   const mimeType =
+    (request.language ? getLanguageMIMEType(request.language) : null) ||
     extensionMIMEMap.get(request.extension.toLowerCase()) ||
     basenameMIMEMap.get(request.basename.toLowerCase()) ||
     guessMimeType(request.contentLines)
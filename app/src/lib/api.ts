@@ -631,6 +631,17 @@ export interface IAPIComment {
   readonly created_at: string
 }
 
+/** Information about a release as returned by the GitHub API. */
+export interface IAPIRelease {
+  readonly id: number
+  readonly tag_name: string
+  readonly name: string | null
+  readonly body: string | null
+  readonly draft: boolean
+  readonly prerelease: boolean
+  readonly html_url: string
+}
+
 /** The metadata about a GitHub server. */
 export interface IServerMetadata {
   /**
@@ -1113,6 +1124,40 @@ export class API {
     }
   }
 
+  /**
+   * Create a draft release for an existing tag. Drafts are only visible to
+   * those with push access until they're published on GitHub.
+   */
+  public async createDraftRelease(
+    owner: string,
+    name: string,
+    tagName: string,
+    releaseName: string,
+    body: string,
+    prerelease: boolean
+  ): Promise<IAPIRelease> {
+    try {
+      const apiPath = `/repos/${owner}/${name}/releases`
+      const response = await this.request('POST', apiPath, {
+        body: {
+          tag_name: tagName,
+          name: releaseName,
+          body,
+          draft: true,
+          prerelease,
+        },
+      })
+
+      return await parsedResponse<IAPIRelease>(response)
+    } catch (e) {
+      log.error(
+        `createDraftRelease: failed to create a release for ${tagName} in ${owner}/${name} at endpoint: ${this.endpoint}`,
+        e
+      )
+      throw e
+    }
+  }
+
   /**
    * Fetch the issues with the given state that have been created or updated
    * since the given date.
@@ -1,6 +1,7 @@
 import { Account } from '../models/account'
 import { CommitIdentity } from '../models/commit-identity'
-import { IDiff, ImageDiffType } from '../models/diff'
+import { IDiff, IDiffSettings, ImageDiffType } from '../models/diff'
+import { IHistoryFilter } from '../models/history-filter'
 import { Repository, ILocalRepositoryState } from '../models/repository'
 import { Branch, IAheadBehind } from '../models/branch'
 import { Tip } from '../models/tip'
@@ -48,6 +49,9 @@ import { IChangesetData } from './git'
 import { Popup } from '../models/popup'
 import { RepoRulesInfo } from '../models/repo-rules'
 import { IAPIRepoRuleset } from './api'
+import { IWorktree } from '../models/worktree'
+import { IHookOutput } from '../models/hooks'
+import { IBisectState } from '../models/bisect'
 
 export enum SelectionType {
   Repository,
@@ -86,6 +90,9 @@ export interface IAppState {
    */
   readonly localRepositoryStateLookup: Map<number, ILocalRepositoryState>
 
+  /** The worktrees of each repository, keyed by the repository id */
+  readonly worktreesLookup: ReadonlyMap<number, ReadonlyArray<IWorktree>>
+
   readonly selectedState: PossibleSelections | null
 
   /**
@@ -254,9 +261,18 @@ export interface IAppState {
   /** Whether we should hide white space changes in the pull request diff */
   readonly hideWhitespaceInPullRequestDiff: boolean
 
+  /**
+   * Whether the history tab shows the commits of all branches, remote branches
+   * and tags instead of only those of the current branch
+   */
+  readonly showAllBranchesInHistory: boolean
+
   /** Whether we should show side by side diffs */
   readonly showSideBySideDiff: boolean
 
+  /** Whether we should show line-by-line blame annotations instead of diffs */
+  readonly showBlame: boolean
+
   /** The user's preferred shell. */
   readonly selectedShell: Shell
 
@@ -532,12 +548,33 @@ export interface IRepositoryState {
 
   readonly localTags: Map<string, string> | null
 
+  /**
+   * The tags of the current remote along with the commits they point to, or
+   * null if they haven't been loaded.
+   */
+  readonly remoteTags: ReadonlyMap<string, string> | null
+
   /** Undo state associated with a multi commit operation operation */
   readonly multiCommitOperationUndoState: IMultiCommitOperationUndoState | null
 
   /** State associated with a multi commit operation such as rebase,
    * cherry-pick, squash, reorder... */
   readonly multiCommitOperationState: IMultiCommitOperationState | null
+
+  /** The state of the bisect session or null if not bisecting */
+  readonly bisectState: IBisectState | null
+
+  /**
+   * The output of the hooks run by the most recent commit or push, or null
+   * if no hooks were run or the output has been dismissed
+   */
+  readonly hookOutput: IHookOutput | null
+
+  /**
+   * The context size, ignored changes and wrapping used for diffs in the
+   * repository.
+   */
+  readonly diffSettings: IDiffSettings
 }
 
 export interface IBranchesState {
@@ -686,6 +723,12 @@ export interface IChangesState {
   /** The commit message for a work-in-progress commit in the changes view. */
   readonly commitMessage: ICommitMessage
 
+  /**
+   * The commit message template configured through `commit.template` which
+   * is used to populate an empty commit message, or null if none is set.
+   */
+  readonly commitMessageTemplate: ICommitMessage | null
+
   /**
    * Whether or not to show a field for adding co-authors to
    * a commit (currently only supported for GH/GHE repositories)
@@ -714,6 +757,12 @@ export interface IChangesState {
    */
   readonly stashEntry: IStashEntry | null
 
+  /**
+   * All stash entries in the repository, regardless of the branch they
+   * belong to or whether they were created by GitHub Desktop.
+   */
+  readonly stashEntries: ReadonlyArray<IStashEntry>
+
   /**
    * The current selection state in the Changes view. Can be either
    * working directory or a stash. In the case of a working directory
@@ -795,6 +844,21 @@ export interface ICompareState {
   /** The SHAs of commits to render in the compare list */
   readonly commitSHAs: ReadonlyArray<string>
 
+  /**
+   * Whether the history in `commitSHAs` includes the commits of all branches,
+   * remote branches and tags rather than only those of the current branch
+   */
+  readonly historyIncludesAllBranches: boolean
+
+  /**
+   * The filters the history has been searched with, in which case
+   * `commitSHAs` contains the commits matching them
+   */
+  readonly historyFilters: ReadonlyArray<IHistoryFilter>
+
+  /** Whether more commits matching `historyFilters` are still being searched */
+  readonly isSearchingHistory: boolean
+
   /** The SHAs of commits to highlight in the compare list */
   readonly shasToHighlight: ReadonlyArray<string>
 
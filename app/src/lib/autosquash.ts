@@ -0,0 +1,140 @@
+import { Commit } from '../models/commit'
+import {
+  IAutosquashFixup,
+  IAutosquashPlan,
+  IInteractiveRebaseStep,
+  InteractiveRebaseAction,
+} from '../models/interactive-rebase'
+
+/**
+ * The `git log` arguments limiting the commits to those which haven't been
+ * pushed, such that autosquashing never rewrites commits others may have built
+ * upon. Fixups can only be committed for these commits for the same reason.
+ */
+export const UnpushedCommitsArgs: ReadonlyArray<string> = ['--not', '--remotes']
+
+/** Matches the prefix of the summary of a fixup or squash commit */
+const fixupPrefixRe = /^(fixup|squash)! /
+
+/** Matches what might be an abbreviated commit SHA */
+const shaPrefixRe = /^[0-9a-f]{4,40}$/i
+
+/** Get the summary of a commit to fold into the given commit when autosquashing */
+export function getFixupSummary(target: Commit) {
+  return `fixup! ${target.summary}`
+}
+
+/**
+ * Parse the summary of a fixup or squash commit, returning what the commit
+ * does with its message along with the subject identifying its target, or null
+ * if the summary isn't the one of a fixup or squash commit.
+ *
+ * Like Git, any further prefixes are skipped so that a fixup for a fixup
+ * commit targets the commit the latter is for.
+ */
+function parseFixupSummary(summary: string): {
+  readonly action: IAutosquashFixup['action']
+  readonly subject: string
+} | null {
+  const match = fixupPrefixRe.exec(summary)
+
+  if (match === null) {
+    return null
+  }
+
+  const action: IAutosquashFixup['action'] =
+    match[1] === 'squash'
+      ? InteractiveRebaseAction.Squash
+      : InteractiveRebaseAction.Fixup
+
+  let subject = summary.substring(match[0].length)
+  let prefix: RegExpExecArray | null
+
+  while ((prefix = fixupPrefixRe.exec(subject)) !== null) {
+    subject = subject.substring(prefix[0].length)
+  }
+
+  return { action, subject }
+}
+
+/**
+ * Find the commit a fixup commit is for among the commits before it, the same
+ * way as Git does: by its summary, then by its SHA and finally by the start of
+ * its summary.
+ */
+function findFixupTarget(
+  candidates: ReadonlyArray<Commit>,
+  subject: string
+): Commit | undefined {
+  return (
+    candidates.find(c => c.summary === subject) ??
+    (shaPrefixRe.test(subject)
+      ? candidates.find(c => c.sha.startsWith(subject.toLowerCase()))
+      : undefined) ??
+    candidates.find(c => c.summary.startsWith(subject))
+  )
+}
+
+/**
+ * Get the interactive rebase folding the `fixup!` and `squash!` commits among
+ * the given commits into the commits they're for, or null if there are none.
+ *
+ * @param commits - The commits of the branch, from the oldest to the newest
+ */
+export function getAutosquashPlan(
+  commits: ReadonlyArray<Commit>
+): IAutosquashPlan | null {
+  const fixups = new Array<IAutosquashFixup>()
+  const targets = new Map<string, Commit>()
+
+  commits.forEach((commit, index) => {
+    const parsed = parseFixupSummary(commit.summary)
+
+    if (parsed === null) {
+      return
+    }
+
+    const candidate = findFixupTarget(commits.slice(0, index), parsed.subject)
+
+    if (candidate === undefined) {
+      return
+    }
+
+    // A fixup for a commit which is itself folded is folded into the latter's
+    // target instead.
+    const target = targets.get(candidate.sha) ?? candidate
+    targets.set(commit.sha, target)
+    fixups.push({ commit, target, action: parsed.action })
+  })
+
+  if (fixups.length === 0) {
+    return null
+  }
+
+  const targetShas = new Set(fixups.map(f => f.target.sha))
+  const start = commits.findIndex(c => targetShas.has(c.sha))
+  const steps = new Array<IInteractiveRebaseStep>()
+
+  for (const commit of commits.slice(start)) {
+    if (targets.has(commit.sha)) {
+      continue
+    }
+
+    steps.push(toStep(commit, InteractiveRebaseAction.Pick))
+
+    for (const fixup of fixups) {
+      if (fixup.target.sha === commit.sha) {
+        steps.push(toStep(fixup.commit, fixup.action))
+      }
+    }
+  }
+
+  return { steps, fixups }
+}
+
+function toStep(
+  commit: Commit,
+  action: InteractiveRebaseAction
+): IInteractiveRebaseStep {
+  return { commit, action, message: null, exec: null }
+}
@@ -0,0 +1,103 @@
+import { getAllAppMenuItems } from '../main-process/menu/get-all-menu-items'
+import { ExecutableMenuItem, IMenu } from '../models/app-menu'
+import { getStringArray, setStringArray } from './local-storage'
+
+const RecentCommandsKey = 'command-palette-recent-commands'
+
+/** The maximum number of recently used commands to remember */
+const MaxRecentCommands = 10
+
+/** A menu item which can be run from the command palette */
+export interface IMenuCommand {
+  /** The menu item to execute when the command is run */
+  readonly item: ExecutableMenuItem
+
+  /** The label of the menu item, without access key markers */
+  readonly title: string
+
+  /** The labels of the menus leading up to the item, i.e. `['Branch']` */
+  readonly path: ReadonlyArray<string>
+}
+
+/**
+ * Remove the ampersands marking access keys from a menu item label, i.e.
+ * turn "Repository &settings…" into "Repository settings…".
+ */
+export function removeAccessKeyMarkers(label: string) {
+  return label.replace(/&(.)/g, '$1')
+}
+
+/**
+ * Get all menu items in the given menu which can currently be executed,
+ * i.e. all visible and enabled items which aren't submenus or separators.
+ *
+ * @param menu        - The root application menu
+ * @param excludedIds - The ids of menu items which shouldn't be included,
+ *                      i.e. the item opening the command palette itself.
+ */
+export function getMenuCommands(
+  menu: IMenu,
+  excludedIds: ReadonlyArray<string> = []
+): ReadonlyArray<IMenuCommand> {
+  const commands = new Array<IMenuCommand>()
+
+  for (const topLevelItem of menu.items) {
+    if (topLevelItem.type !== 'submenuItem' || !topLevelItem.visible) {
+      continue
+    }
+
+    const path = [removeAccessKeyMarkers(topLevelItem.label)]
+
+    for (const item of getAllAppMenuItems(topLevelItem.menu)) {
+      if (
+        item.type === 'separator' ||
+        item.type === 'submenuItem' ||
+        !item.visible ||
+        !item.enabled ||
+        excludedIds.includes(item.id)
+      ) {
+        continue
+      }
+
+      commands.push({ item, title: removeAccessKeyMarkers(item.label), path })
+    }
+  }
+
+  return commands
+}
+
+/** Get the ids of the most recently used commands, most recent first */
+export function getRecentCommandIds(): ReadonlyArray<string> {
+  return getStringArray(RecentCommandsKey)
+}
+
+/** Record that the command with the given id was run */
+export function addRecentCommandId(id: string) {
+  const recent = [id, ...getRecentCommandIds().filter(x => x !== id)]
+  setStringArray(RecentCommandsKey, recent.slice(0, MaxRecentCommands))
+}
+
+/**
+ * Split the given commands into those which have been used recently, ordered
+ * by how recently they were used, and the remaining ones in their original
+ * order.
+ */
+export function partitionRecentCommands<T extends { readonly id: string }>(
+  commands: ReadonlyArray<T>,
+  recentIds: ReadonlyArray<string>
+): { recent: ReadonlyArray<T>; other: ReadonlyArray<T> } {
+  const byId = new Map(commands.map(c => [c.id, c]))
+  const recent = new Array<T>()
+
+  for (const id of recentIds) {
+    const command = byId.get(id)
+    if (command !== undefined) {
+      recent.push(command)
+    }
+  }
+
+  return {
+    recent,
+    other: commands.filter(c => !recent.includes(c)),
+  }
+}
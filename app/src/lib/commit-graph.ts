@@ -0,0 +1,240 @@
+import { forceUnwrap } from './fatal-error'
+
+/** The part of a row in the commit graph a line is drawn across */
+export enum CommitGraphLineSpan {
+  /** From the top to the bottom of the row, passing by the row's commit */
+  Full = 'Full',
+  /** From the top of the row to the row's commit */
+  TopHalf = 'TopHalf',
+  /** From the row's commit to the bottom of the row */
+  BottomHalf = 'BottomHalf',
+}
+
+/** A line in a row of the commit graph, connecting a commit to its parents */
+export interface ICommitGraphLine {
+  /** The lane the line starts in */
+  readonly from: number
+  /** The lane the line ends in */
+  readonly to: number
+  /** The color index of the lane the line belongs to */
+  readonly color: number
+  readonly span: CommitGraphLineSpan
+}
+
+/** The part of the commit graph drawn next to a single commit */
+export interface ICommitGraphRow {
+  /** The lane the commit is drawn in */
+  readonly lane: number
+  /** The color index of the lane the commit is drawn in */
+  readonly color: number
+  /** The number of lanes used by the row, i.e. the width of the row */
+  readonly laneCount: number
+  readonly lines: ReadonlyArray<ICommitGraphLine>
+}
+
+/** A lane reserved for a commit that hasn't been reached yet */
+interface ICommitGraphLane {
+  readonly sha: string
+  readonly color: number
+}
+
+/**
+ * The state needed to extend a commit graph when more commits are added to the
+ * end of the list, which is updated in place as the graph is extended.
+ */
+interface ICommitGraphState {
+  /** The graph rows, one for each commit */
+  readonly rows: Array<ICommitGraphRow>
+  /** The lanes reserved for parents after the last row */
+  readonly lanes: Array<ICommitGraphLane | null>
+  /** The color index to use for the next lane that's created */
+  nextColor: number
+  /** The SHAs of all commits in the graph */
+  readonly seen: Set<string>
+}
+
+/** The commit graph of a list of commits */
+export interface ICommitGraph {
+  /** The SHAs of the commits the graph was computed for, in order */
+  readonly commitSHAs: ReadonlyArray<string>
+  /** The graph rows, one for each commit */
+  readonly rows: ReadonlyArray<ICommitGraphRow>
+  /** The lanes reserved for parents after the last row */
+  readonly lanes: ReadonlyArray<ICommitGraphLane | null>
+  readonly state: ICommitGraphState
+}
+
+function isPrefixOf(
+  prefix: ReadonlyArray<string>,
+  commitSHAs: ReadonlyArray<string>
+) {
+  if (prefix.length > commitSHAs.length) {
+    return false
+  }
+
+  for (let i = 0; i < prefix.length; i++) {
+    if (prefix[i] !== commitSHAs[i]) {
+      return false
+    }
+  }
+
+  return true
+}
+
+function findLane(lanes: ReadonlyArray<ICommitGraphLane | null>, sha: string) {
+  return lanes.findIndex(lane => lane !== null && lane.sha === sha)
+}
+
+function findFreeLane(lanes: ReadonlyArray<ICommitGraphLane | null>) {
+  const index = lanes.indexOf(null)
+  return index === -1 ? lanes.length : index
+}
+
+/**
+ * Compute the lanes and lines of a commit graph for the given commits, which
+ * must be ordered so that commits are listed before their parents, like in the
+ * output of `git log`.
+ *
+ * Each commit is drawn in a lane, which continues down to the commit's first
+ * parent. Lanes for additional parents of merge commits are branched off of the
+ * commit, and lanes of commits sharing a parent join at that parent. Lanes are
+ * never moved once created, but freed lanes are reused.
+ *
+ * Computing the graph is linear in the number of commits (times the number of
+ * lanes), and when given the graph computed for a shorter list whose commits
+ * are the first ones of the new list, only the commits added since are
+ * computed. This keeps loading further batches of a large history cheap. The
+ * extended graph takes over the state of the previous graph, which can't be
+ * extended again afterwards.
+ *
+ * @param commitSHAs    The SHAs of the commits to compute the graph for
+ * @param getParentSHAs A function returning the parent SHAs of a commit
+ * @param previous      A previously computed graph to extend, if possible
+ */
+export function computeCommitGraph(
+  commitSHAs: ReadonlyArray<string>,
+  getParentSHAs: (sha: string) => ReadonlyArray<string>,
+  previous?: ICommitGraph
+): ICommitGraph {
+  // A graph which has been extended since no longer matches its state
+  const canExtend =
+    previous !== undefined &&
+    previous.state.rows.length === previous.commitSHAs.length &&
+    isPrefixOf(previous.commitSHAs, commitSHAs)
+
+  if (canExtend && previous.commitSHAs.length === commitSHAs.length) {
+    return previous
+  }
+
+  const state: ICommitGraphState = canExtend
+    ? previous.state
+    : { rows: [], lanes: [], nextColor: 0, seen: new Set() }
+  const { rows, lanes, seen } = state
+
+  for (let i = rows.length; i < commitSHAs.length; i++) {
+    const sha = commitSHAs[i]
+    const lines = new Array<ICommitGraphLine>()
+    const topLaneCount = lanes.length
+
+    let lane = findLane(lanes, sha)
+    let color: number
+
+    if (lane === -1) {
+      // Nothing listed so far has this commit as a parent, so it's the tip of
+      // a branch and gets a new lane.
+      lane = findFreeLane(lanes)
+      color = state.nextColor++
+    } else {
+      color = getLane(lanes, lane).color
+    }
+
+    // The lanes of all commits which have this commit as a parent end here
+    const passingLanes = new Array<number>()
+    for (let j = 0; j < lanes.length; j++) {
+      const current = lanes[j]
+      if (current === null) {
+        continue
+      }
+
+      if (current.sha === sha) {
+        lines.push({
+          from: j,
+          to: lane,
+          color: current.color,
+          span: CommitGraphLineSpan.TopHalf,
+        })
+        lanes[j] = null
+      } else {
+        passingLanes.push(j)
+      }
+    }
+
+    seen.add(sha)
+
+    // Parents listed before their children can't be connected to, so we
+    // don't reserve lanes for them which would otherwise never end.
+    const parentSHAs = getParentSHAs(sha).filter(p => !seen.has(p))
+
+    parentSHAs.forEach((parentSHA, index) => {
+      // The first parent continues in the commit's lane, even if another
+      // lane already leads to it. Both lanes then join at the parent.
+      if (index === 0) {
+        lanes[lane] = { sha: parentSHA, color }
+        lines.push({
+          from: lane,
+          to: lane,
+          color,
+          span: CommitGraphLineSpan.BottomHalf,
+        })
+        return
+      }
+
+      const existing = findLane(lanes, parentSHA)
+
+      if (existing !== -1) {
+        lines.push({
+          from: lane,
+          to: existing,
+          color: getLane(lanes, existing).color,
+          span: CommitGraphLineSpan.BottomHalf,
+        })
+        return
+      }
+
+      const target = findFreeLane(lanes)
+      const laneColor = state.nextColor++
+      lanes[target] = { sha: parentSHA, color: laneColor }
+
+      lines.push({
+        from: lane,
+        to: target,
+        color: laneColor,
+        span: CommitGraphLineSpan.BottomHalf,
+      })
+    })
+
+    for (const j of passingLanes) {
+      lines.push({
+        from: j,
+        to: j,
+        color: getLane(lanes, j).color,
+        span: CommitGraphLineSpan.Full,
+      })
+    }
+
+    const laneCount = Math.max(topLaneCount, lanes.length, lane + 1)
+
+    while (lanes.length > 0 && lanes[lanes.length - 1] === null) {
+      lanes.pop()
+    }
+
+    rows.push({ lane, color, laneCount, lines })
+  }
+
+  return { commitSHAs, rows, lanes, state }
+}
+
+/** Get a lane which is known to be reserved */
+function getLane(lanes: ReadonlyArray<ICommitGraphLane | null>, index: number) {
+  return forceUnwrap('Expected the lane to be reserved', lanes[index])
+}
@@ -0,0 +1,110 @@
+import { ICommitMessageFormat } from '../models/commit-message-format'
+
+/** The parts making up a summary like `feat(parser)!: add support for arrays` */
+export interface ICommitSummaryParts {
+  /** The type of change, or an empty string if the summary has none */
+  readonly type: string
+
+  /** The scope of the change, or an empty string if the summary has none */
+  readonly scope: string
+
+  /** Whether the summary is marked as a breaking change (`!`) */
+  readonly breaking: boolean
+
+  /** The description of the change following the prefix */
+  readonly subject: string
+}
+
+const summaryPrefixRe = /^([\w-]+)(?:\(([^)]*)\))?(!)?:\s*/
+
+/**
+ * Split a commit summary into its type, scope, breaking change marker and
+ * subject. Summaries without a prefix are returned as only a subject.
+ */
+export function parseCommitSummary(summary: string): ICommitSummaryParts {
+  const match = summaryPrefixRe.exec(summary)
+
+  if (match === null) {
+    return { type: '', scope: '', breaking: false, subject: summary }
+  }
+
+  const [prefix, type, scope = '', breaking] = match
+
+  return {
+    type,
+    scope,
+    breaking: breaking !== undefined,
+    subject: summary.substring(prefix.length),
+  }
+}
+
+/**
+ * Build a commit summary from its parts. The prefix is left out altogether
+ * when no type is given since a scope or breaking change marker on its own
+ * isn't meaningful.
+ */
+export function formatCommitSummary(parts: ICommitSummaryParts): string {
+  const { type, scope, breaking, subject } = parts
+
+  if (type.length === 0) {
+    return subject
+  }
+
+  const scopeText = scope.length > 0 ? `(${scope})` : ''
+  return `${type}${scopeText}${breaking ? '!' : ''}: ${subject}`
+}
+
+/**
+ * Parse the validation pattern of a commit message format, returning null
+ * if the pattern is empty or isn't a valid regular expression.
+ */
+export function parseCommitMessagePattern(pattern: string): RegExp | null {
+  if (pattern.length === 0) {
+    return null
+  }
+
+  try {
+    return new RegExp(pattern)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Check the summary against the validation pattern of the format, returning
+ * a message describing the problem or null if the summary is valid.
+ *
+ * Summaries are always considered valid when the format helper is disabled
+ * or the pattern can't be parsed, as we don't want to prevent committing
+ * because of a broken setting.
+ */
+export function getCommitSummaryValidationError(
+  format: ICommitMessageFormat | undefined,
+  summary: string
+): string | null {
+  if (format === undefined || !format.enabled || summary.length === 0) {
+    return null
+  }
+
+  const pattern = parseCommitMessagePattern(format.pattern)
+
+  if (pattern === null || pattern.test(summary)) {
+    return null
+  }
+
+  const { type, subject } = parseCommitSummary(summary)
+
+  if (type.length === 0) {
+    return 'The summary must start with a type, e.g. "fix: "'
+  }
+
+  if (format.types.length > 0 && !format.types.includes(type)) {
+    return `"${type}" isn't one of the allowed types`
+  }
+
+  if (subject.trim().length === 0) {
+    return 'The summary must describe the change after the type'
+  }
+
+  return `The summary doesn't match the pattern ${format.pattern}`
+}
@@ -0,0 +1,268 @@
+/** A part of a conflicted file which merged cleanly */
+export interface IMergedSegment {
+  readonly kind: 'merged'
+  readonly lines: ReadonlyArray<string>
+}
+
+/**
+ * A part of a conflicted file which Git couldn't merge, delimited by conflict
+ * markers in the file.
+ */
+export interface IConflictSegment {
+  readonly kind: 'conflict'
+
+  /** The lines of our side, i.e. the checked out branch */
+  readonly ours: ReadonlyArray<string>
+
+  /** The label after the `<<<<<<<` marker, usually the name of our side */
+  readonly oursLabel: string
+
+  /**
+   * The lines of the common ancestor, or null unless the conflict was written
+   * in the diff3 or zdiff3 style.
+   */
+  readonly base: ReadonlyArray<string> | null
+
+  /** The label after the `|||||||` marker, or null without a base */
+  readonly baseLabel: string | null
+
+  /** The lines of their side, i.e. the branch or commit being applied */
+  readonly theirs: ReadonlyArray<string>
+
+  /** The label after the `>>>>>>>` marker, usually the name of their side */
+  readonly theirsLabel: string
+
+  /**
+   * The line ending of the conflict's closing marker, which the lines
+   * resolving the conflict and the markers are written back with.
+   */
+  readonly lineEnding: '\n' | '\r\n'
+}
+
+export type ConflictFileSegment = IMergedSegment | IConflictSegment
+
+/** The ways a conflict can be resolved by picking sides */
+export enum ConflictResolutionChoice {
+  Ours = 'ours',
+  Theirs = 'theirs',
+  OursThenTheirs = 'ours-then-theirs',
+  TheirsThenOurs = 'theirs-then-ours',
+  Base = 'base',
+}
+
+/**
+ * Match a conflict marker, which is exactly seven marker characters at the
+ * start of a line optionally followed by a space and a label. The line ending
+ * isn't part of the label.
+ */
+function matchMarker(line: string, character: string) {
+  const marker = character.repeat(7)
+
+  if (!line.startsWith(marker) || line[7] === character) {
+    return null
+  }
+
+  const rest = line.substring(7).replace(/\r$/, '')
+
+  if (rest.length === 0) {
+    return ''
+  }
+
+  return rest.startsWith(' ') ? rest.substring(1) : null
+}
+
+/**
+ * Split the contents of a conflicted file into the parts which merged cleanly
+ * and the conflicts between them, supporting both the default merge style and
+ * the diff3 and zdiff3 styles which include the common ancestor.
+ *
+ * Lines are split on `\n` and keep any `\r`, such that joining the lines of
+ * all segments with `\n` gives back the file without its conflict markers.
+ * Markers which don't make up a complete conflict are left as they are.
+ */
+export function parseConflictMarkers(
+  contents: string
+): ReadonlyArray<ConflictFileSegment> {
+  const lines = contents.split('\n')
+  const segments = new Array<ConflictFileSegment>()
+  let merged = new Array<string>()
+  let i = 0
+
+  while (i < lines.length) {
+    const oursLabel = matchMarker(lines[i], '<')
+    const conflict =
+      oursLabel === null ? null : parseConflict(lines, i + 1, oursLabel)
+
+    if (conflict === null) {
+      merged.push(lines[i])
+      i++
+      continue
+    }
+
+    if (merged.length > 0) {
+      segments.push({ kind: 'merged', lines: merged })
+      merged = []
+    }
+
+    segments.push(conflict.segment)
+    i = conflict.end
+  }
+
+  if (merged.length > 0) {
+    segments.push({ kind: 'merged', lines: merged })
+  }
+
+  return segments
+}
+
+/**
+ * Parse a single conflict starting on the line after its `<<<<<<<` marker,
+ * returning the conflict and the index of the line after its `>>>>>>>`
+ * marker, or null if the conflict isn't complete.
+ */
+function parseConflict(
+  lines: ReadonlyArray<string>,
+  start: number,
+  oursLabel: string
+): { segment: IConflictSegment; end: number } | null {
+  const ours = new Array<string>()
+  const theirs = new Array<string>()
+  let base: Array<string> | null = null
+  let baseLabel: string | null = null
+  let section: 'ours' | 'base' | 'theirs' = 'ours'
+
+  for (let i = start; i < lines.length; i++) {
+    const line = lines[i]
+
+    if (section === 'ours') {
+      const label = matchMarker(line, '|')
+
+      if (label !== null) {
+        base = []
+        baseLabel = label
+        section = 'base'
+        continue
+      }
+    }
+
+    if (section !== 'theirs' && matchMarker(line, '=') === '') {
+      section = 'theirs'
+      continue
+    }
+
+    if (section === 'theirs') {
+      const theirsLabel = matchMarker(line, '>')
+
+      if (theirsLabel !== null) {
+        const segment: IConflictSegment = {
+          kind: 'conflict',
+          ours,
+          oursLabel,
+          base,
+          baseLabel,
+          theirs,
+          theirsLabel,
+          lineEnding: line.endsWith('\r') ? '\r\n' : '\n',
+        }
+        return { segment, end: i + 1 }
+      }
+    }
+
+    if (section === 'ours' && matchMarker(line, '<') !== null) {
+      // A conflict can't start within another one
+      return null
+    }
+
+    const target =
+      section === 'ours' ? ours : section === 'base' ? base : theirs
+    target?.push(line)
+  }
+
+  return null
+}
+
+/** Get the lines resolving the conflict with the given choice. */
+export function getConflictResolutionLines(
+  conflict: IConflictSegment,
+  choice: ConflictResolutionChoice
+): ReadonlyArray<string> {
+  switch (choice) {
+    case ConflictResolutionChoice.Ours:
+      return conflict.ours
+    case ConflictResolutionChoice.Theirs:
+      return conflict.theirs
+    case ConflictResolutionChoice.OursThenTheirs:
+      return [...conflict.ours, ...conflict.theirs]
+    case ConflictResolutionChoice.TheirsThenOurs:
+      return [...conflict.theirs, ...conflict.ours]
+    case ConflictResolutionChoice.Base:
+      return conflict.base ?? []
+  }
+}
+
+/**
+ * Put a conflicted file back together with the conflicts replaced by their
+ * resolutions.
+ *
+ * @param segments    The segments of the file as parsed by
+ *                    `parseConflictMarkers`
+ * @param resolutions The lines resolving each conflict, in the order the
+ *                    conflicts appear in the file. Unresolved conflicts are
+ *                    null and are written back with their markers.
+ */
+export function applyConflictResolutions(
+  segments: ReadonlyArray<ConflictFileSegment>,
+  resolutions: ReadonlyArray<ReadonlyArray<string> | null>
+): string {
+  let lines = new Array<string>()
+  let conflictIndex = 0
+
+  for (const segment of segments) {
+    if (segment.kind === 'merged') {
+      lines = lines.concat(segment.lines)
+    } else {
+      const resolution = resolutions[conflictIndex++] ?? null
+
+      lines = lines.concat(
+        resolution === null
+          ? formatConflict(segment)
+          : withLineEnding(resolution, segment.lineEnding)
+      )
+    }
+  }
+
+  return lines.join('\n')
+}
+
+/**
+ * Add the carriage return of a CRLF line ending to the lines which don't
+ * have it, i.e. lines edited by the user. Lines are joined with `\n`.
+ */
+function withLineEnding(
+  lines: ReadonlyArray<string>,
+  lineEnding: '\n' | '\r\n'
+) {
+  return lineEnding === '\n'
+    ? lines
+    : lines.map(line => (line.endsWith('\r') ? line : `${line}\r`))
+}
+
+/** Format a conflict with its markers, as Git wrote it. */
+function formatConflict(conflict: IConflictSegment) {
+  const carriageReturn = conflict.lineEnding === '\r\n' ? '\r' : ''
+  const marker = (character: string, label: string | null) =>
+    label === null || label.length === 0
+      ? `${character.repeat(7)}${carriageReturn}`
+      : `${character.repeat(7)} ${label}${carriageReturn}`
+
+  return [
+    marker('<', conflict.oursLabel),
+    ...conflict.ours,
+    ...(conflict.base === null
+      ? []
+      : [marker('|', conflict.baseLabel), ...conflict.base]),
+    marker('=', null),
+    ...conflict.theirs,
+    marker('>', conflict.theirsLabel),
+  ]
+}
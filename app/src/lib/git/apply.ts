@@ -4,11 +4,20 @@ import {
   WorkingDirectoryFileChange,
   AppFileStatusKind,
 } from '../../models/status'
-import { DiffType, ITextDiff, DiffSelection } from '../../models/diff'
+import {
+  DiffType,
+  ITextDiff,
+  ILargeTextDiff,
+  DiffSelection,
+  DiffSelectionType,
+  IDiffSettings,
+  changesDiffLines,
+} from '../../models/diff'
 import { Repository, WorkingTree } from '../../models/repository'
 import { getWorkingDirectoryDiff } from './diff'
 import { formatPatch, formatPatchToDiscardChanges } from '../patch-formatter'
 import { assertNever } from '../fatal-error'
+import { mapDiffSelection } from '../map-diff-selection'
 
 export async function applyPatchToIndex(
   repository: Repository,
@@ -84,6 +93,55 @@ export async function applyPatchToIndex(
   return Promise.resolve()
 }
 
+/**
+ * Map the lines selected in a diff of the file which was generated with the
+ * given settings to the diff git generates by default, which is what partial
+ * changes are staged and discarded from.
+ *
+ * @param repository           The repository containing the file
+ * @param file                 The file to generate the diffs of
+ * @param selection            The lines selected in the diff generated with
+ *                             the given settings
+ * @param hideWhitespaceInDiff Whether whitespace changes were hidden from the
+ *                             diff the lines were selected in
+ * @param diffSettings         The settings the diff the lines were selected
+ *                             in was generated with
+ */
+export async function getDefaultDiffSelection(
+  repository: Repository,
+  file: WorkingDirectoryFileChange,
+  selection: DiffSelection,
+  hideWhitespaceInDiff: boolean,
+  diffSettings: IDiffSettings
+): Promise<DiffSelection> {
+  if (
+    selection.getSelectionType() !== DiffSelectionType.Partial ||
+    (!hideWhitespaceInDiff && !changesDiffLines(diffSettings))
+  ) {
+    return selection
+  }
+
+  const [diff, defaultDiff] = await Promise.all([
+    getWorkingDirectoryDiff(
+      repository,
+      file,
+      hideWhitespaceInDiff,
+      diffSettings
+    ),
+    getWorkingDirectoryDiff(repository, file),
+  ])
+
+  if (
+    (diff.kind !== DiffType.Text && diff.kind !== DiffType.LargeText) ||
+    (defaultDiff.kind !== DiffType.Text &&
+      defaultDiff.kind !== DiffType.LargeText)
+  ) {
+    return selection
+  }
+
+  return mapDiffSelection(selection, diff.hunks, defaultDiff.hunks)
+}
+
 /**
  * Test a patch to see if it will apply cleanly.
  *
@@ -135,7 +193,7 @@ export async function checkPatch(
 export async function discardChangesFromSelection(
   repository: Repository,
   filePath: string,
-  diff: ITextDiff,
+  diff: ITextDiff | ILargeTextDiff,
   selection: DiffSelection
 ) {
   const patch = formatPatchToDiscardChanges(filePath, diff, selection)
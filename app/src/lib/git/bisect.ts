@@ -0,0 +1,176 @@
+import * as Path from 'path'
+import { git } from './core'
+import { getCommit } from './log'
+import { Repository } from '../../models/repository'
+import { BisectMark, IBisectState } from '../../models/bisect'
+import { pathExists } from '../../ui/lib/path-exists'
+
+/**
+ * Start a new bisect session.
+ *
+ * When both a bad and a good commit are given Git will immediately check out
+ * the first commit to test. Otherwise the session waits for the remaining
+ * commit to be marked.
+ *
+ * @param repository - The repository in which to start bisecting
+ * @param badSha     - A commit which is known to contain the regression
+ * @param goodSha    - An optional commit which is known not to contain the
+ *                     regression
+ */
+export async function startBisect(
+  repository: Repository,
+  badSha: string,
+  goodSha: string | null
+): Promise<void> {
+  const args = ['bisect', 'start', badSha]
+
+  if (goodSha !== null) {
+    args.push(goodSha)
+  }
+
+  args.push('--')
+
+  await git(args, repository.path, 'startBisect')
+}
+
+/**
+ * Mark a commit as good, bad or skipped in the current bisect session,
+ * after which Git checks out the next commit to test (if any).
+ *
+ * @param repository - The repository which is being bisected
+ * @param mark       - Whether the commit is good, bad or couldn't be tested
+ * @param sha        - The commit to mark, defaults to the currently checked
+ *                     out commit.
+ */
+export async function markBisectCommit(
+  repository: Repository,
+  mark: BisectMark,
+  sha?: string
+): Promise<void> {
+  const args = ['bisect', mark]
+
+  if (sha !== undefined) {
+    args.push(sha)
+  }
+
+  await git(args, repository.path, 'markBisectCommit', {
+    // Git exits with 2 when only skipped commits are left to test
+    successExitCodes: new Set([0, 2]),
+  })
+}
+
+/**
+ * End the current bisect session and check out the branch (or commit) which
+ * was checked out before bisecting started.
+ */
+export async function resetBisect(repository: Repository): Promise<void> {
+  await git(['bisect', 'reset'], repository.path, 'resetBisect')
+}
+
+/**
+ * Determine whether the repository is being bisected.
+ *
+ * Git keeps track of the session using a `BISECT_START` file in the git
+ * directory (of the current worktree).
+ */
+export async function isBisecting(repository: Repository): Promise<boolean> {
+  const { stdout } = await git(
+    ['rev-parse', '--git-path', 'BISECT_START'],
+    repository.path,
+    'isBisecting'
+  )
+
+  return pathExists(Path.resolve(repository.path, stdout.trim()))
+}
+
+/**
+ * Get the state of the current bisect session, or null if the repository
+ * isn't being bisected.
+ */
+export async function getBisectState(
+  repository: Repository
+): Promise<IBisectState | null> {
+  if (!(await isBisecting(repository))) {
+    return null
+  }
+
+  const { stdout } = await git(
+    ['for-each-ref', '--format=%(refname) %(objectname)', 'refs/bisect/'],
+    repository.path,
+    'getBisectRefs'
+  )
+
+  let badSha: string | null = null
+  const goodShas = new Array<string>()
+  const skippedShas = new Array<string>()
+
+  for (const line of stdout.split('\n')) {
+    const [ref, sha] = line.split(' ')
+
+    if (ref === 'refs/bisect/bad') {
+      badSha = sha
+    } else if (ref?.startsWith('refs/bisect/good-')) {
+      goodShas.push(sha)
+    } else if (ref?.startsWith('refs/bisect/skip-')) {
+      skippedShas.push(sha)
+    }
+  }
+
+  const state: IBisectState = {
+    current: null,
+    badSha,
+    goodShas,
+    skippedShas,
+    remainingCount: 0,
+    remainingSteps: 0,
+    firstBadCommit: null,
+    possibleFirstBadShas: [],
+  }
+
+  if (badSha === null || goodShas.length === 0) {
+    return state
+  }
+
+  // All commits which could be the first bad commit, including the bad
+  // commit itself.
+  const candidates = await git(
+    ['rev-list', badSha, '--not', ...goodShas, '--'],
+    repository.path,
+    'getBisectCandidates'
+  )
+  const candidateShas = candidates.stdout.split('\n').filter(x => x.length > 0)
+  const skipped = new Set(skippedShas)
+  const untested = candidateShas.filter(x => x !== badSha && !skipped.has(x))
+
+  if (untested.length === 0) {
+    if (candidateShas.length <= 1) {
+      return { ...state, firstBadCommit: await getCommit(repository, badSha) }
+    }
+
+    return { ...state, possibleFirstBadShas: candidateShas }
+  }
+
+  return {
+    ...state,
+    current: await getCommit(repository, 'HEAD'),
+    remainingCount: untested.length,
+    remainingSteps: estimateBisectSteps(untested.length + 1),
+  }
+}
+
+/**
+ * Estimate the number of steps needed to find the first bad commit among
+ * the given number of commits. This mirrors the estimate Git prints when
+ * bisecting.
+ */
+function estimateBisectSteps(count: number) {
+  if (count < 3) {
+    return 0
+  }
+
+  const n = Math.floor(Math.log2(count))
+  const e = Math.pow(2, n)
+  const x = count - e
+
+  return e < 3 * x ? n : n - 1
+}
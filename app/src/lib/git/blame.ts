@@ -0,0 +1,153 @@
+import { git } from './core'
+import { Repository } from '../../models/repository'
+import { CommitIdentity } from '../../models/commit-identity'
+import { IBlame, IBlameCommit, IBlameLine } from '../../models/blame'
+
+/** The mutable shape of commit information while parsing blame output */
+interface IBlameCommitHeaders {
+  readonly values: Map<string, string>
+  previousSha: string | null
+  isBoundary: boolean
+}
+
+const headerLineRe = /^([0-9a-f]{40}) (\d+) (\d+)(?: \d+)?$/
+
+/**
+ * Get the line-by-line blame of a file.
+ *
+ * @param repository - The repository in which the file lives
+ * @param path       - The path of the file, relative to the repository root
+ * @param commitish  - The commit at which to blame the file or null to blame
+ *                     the file as it exists in the working directory
+ *                     (uncommitted lines will be attributed to the
+ *                     `UncommittedBlameSha` commit).
+ */
+export async function getBlame(
+  repository: Repository,
+  path: string,
+  commitish: string | null
+): Promise<IBlame> {
+  const args = ['blame', '--porcelain']
+
+  if (commitish !== null) {
+    args.push(commitish)
+  }
+
+  args.push('--', path)
+
+  const { stdout } = await git(args, repository.path, 'getBlame')
+
+  return parseBlamePorcelain(stdout)
+}
+
+/**
+ * Parse the output of `git blame --porcelain` into a typed model.
+ *
+ * The porcelain format consists of a header line for each line of the file
+ * (`<sha> <original line> <final line> [<lines in group>]`), followed by
+ * commit information the first time a particular commit is encountered and
+ * finally the line content prefixed with a tab character.
+ *
+ * See https://git-scm.com/docs/git-blame#_the_porcelain_format
+ */
+export function parseBlamePorcelain(output: string): IBlame {
+  const commitHeaders = new Map<string, IBlameCommitHeaders>()
+  const lines = new Array<IBlameLine>()
+
+  let current: {
+    sha: string
+    originalLineNumber: number
+    lineNumber: number
+  } | null = null
+
+  for (const line of output.split('\n')) {
+    if (current === null) {
+      const match = headerLineRe.exec(line)
+      if (match === null) {
+        continue
+      }
+
+      const [, sha, originalLineNumber, lineNumber] = match
+      current = {
+        sha,
+        originalLineNumber: parseInt(originalLineNumber, 10),
+        lineNumber: parseInt(lineNumber, 10),
+      }
+
+      if (!commitHeaders.has(sha)) {
+        commitHeaders.set(sha, {
+          values: new Map(),
+          previousSha: null,
+          isBoundary: false,
+        })
+      }
+      continue
+    }
+
+    if (line.startsWith('\t')) {
+      lines.push({ ...current, content: line.substring(1).replace(/\r$/, '') })
+      current = null
+      continue
+    }
+
+    const headers = commitHeaders.get(current.sha)
+    if (headers === undefined) {
+      continue
+    }
+
+    const separatorIndex = line.indexOf(' ')
+    const key = separatorIndex === -1 ? line : line.substring(0, separatorIndex)
+    const value =
+      separatorIndex === -1 ? '' : line.substring(separatorIndex + 1)
+
+    if (key === 'boundary') {
+      headers.isBoundary = true
+    } else if (key === 'previous') {
+      const [previousSha] = value.split(' ')
+      headers.previousSha = previousSha ?? null
+    } else {
+      headers.values.set(key, value)
+    }
+  }
+
+  const commits = new Map<string, IBlameCommit>()
+
+  for (const [sha, headers] of commitHeaders) {
+    commits.set(sha, toBlameCommit(sha, headers))
+  }
+
+  return { commits, lines }
+}
+
+function toBlameCommit(
+  sha: string,
+  headers: IBlameCommitHeaders
+): IBlameCommit {
+  const { values, previousSha, isBoundary } = headers
+
+  return {
+    sha,
+    summary: values.get('summary') ?? '',
+    author: parseBlameIdentity(values, 'author'),
+    committer: parseBlameIdentity(values, 'committer'),
+    filename: values.get('filename') ?? '',
+    previousSha,
+    isBoundary,
+  }
+}
+
+/**
+ * Build a commit identity from the `<kind>`, `<kind>-mail`, `<kind>-time`
+ * and `<kind>-tz` headers in the porcelain output.
+ */
+function parseBlameIdentity(
+  values: ReadonlyMap<string, string>,
+  kind: 'author' | 'committer'
+): CommitIdentity {
+  const name = values.get(kind) ?? ''
+  const email = (values.get(`${kind}-mail`) ?? '').replace(/^<|>$/g, '')
+  const time = values.get(`${kind}-time`) ?? '0'
+  const tz = values.get(`${kind}-tz`) ?? '+0000'
+
+  return CommitIdentity.parseIdentity(`${name} <${email}> ${time} ${tz}`)
+}
@@ -0,0 +1,33 @@
+import { git } from './core'
+import { Repository } from '../../models/repository'
+
+/**
+ * Get the language a file should be treated as according to a
+ * `linguist-language` attribute in the repository's `.gitattributes`, or
+ * null if no language has been set for the file.
+ *
+ * @param repository The repository containing the file
+ * @param path       The path to the file relative to the repository root
+ */
+export async function getLinguistLanguage(
+  repository: Repository,
+  path: string
+): Promise<string | null> {
+  const { stdout } = await git(
+    ['check-attr', '-z', 'linguist-language', '--', path],
+    repository.path,
+    'getLinguistLanguage'
+  )
+
+  // With -z the output is `<path> NUL <attribute> NUL <value> NUL`, where the
+  // value is 'unspecified', 'unset' or 'set' when the attribute doesn't have
+  // a value.
+  const value = stdout.split('\0')[2]
+
+  return value === undefined ||
+    value === 'unspecified' ||
+    value === 'unset' ||
+    value === 'set'
+    ? null
+    : value
+}
@@ -70,7 +70,34 @@ export async function clone(
     args.push('-b', options.branch)
   }
 
+  if (options.partialClone) {
+    args.push('--filter=blob:none')
+  }
+
+  if (options.depth !== undefined) {
+    // A shallow clone implies --single-branch but we still want to be able
+    // to switch to other branches without having to fetch them first.
+    args.push(`--depth=${options.depth}`, '--no-single-branch')
+  }
+
+  const { sparseCheckoutPaths } = options
+  if (sparseCheckoutPaths !== undefined) {
+    // Only checks out the files at the root of the repository, the rest is
+    // checked out once we've set up the sparse checkout below.
+    args.push('--sparse')
+  }
+
   args.push('--', url, path)
 
   await git(args, __dirname, 'clone', opts)
+
+  if (sparseCheckoutPaths !== undefined && sparseCheckoutPaths.length > 0) {
+    // This may need to fetch the contents of the files in a partial clone
+    await git(
+      [...gitNetworkArguments(), 'sparse-checkout', 'set', '--cone', '--stdin'],
+      path,
+      'cloneSparseCheckout',
+      { env, stdin: sparseCheckoutPaths.join('\n') }
+    )
+  }
 }
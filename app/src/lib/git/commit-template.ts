@@ -0,0 +1,66 @@
+import * as Path from 'path'
+import { readFile } from 'fs/promises'
+import { getConfigValue, getPathConfigValue } from './config'
+import { Repository } from '../../models/repository'
+import { ICommitMessage } from '../../models/commit-message'
+
+/**
+ * Get the commit message template configured through `commit.template`, or
+ * null if there's no template or it can't be read.
+ *
+ * Comment lines are removed from the template since Git would strip them
+ * from the message when committing from the editor, but not when we pass
+ * the message to `git commit`.
+ */
+export async function getCommitMessageTemplate(
+  repository: Repository
+): Promise<ICommitMessage | null> {
+  const templatePath = await getPathConfigValue(repository, 'commit.template')
+
+  if (templatePath === null || templatePath.length === 0) {
+    return null
+  }
+
+  let contents: string
+  try {
+    // Relative paths are relative to the working directory of Git
+    contents = await readFile(
+      Path.resolve(repository.path, templatePath),
+      'utf8'
+    )
+  } catch (e) {
+    log.warn(`Unable to read commit message template ${templatePath}`, e)
+    return null
+  }
+
+  const commentChar = await getCommentChar(repository)
+  const lines = contents
+    .split(/\r?\n/)
+    .filter(line => !line.startsWith(commentChar))
+    .map(line => line.trimEnd())
+
+  const summaryIndex = lines.findIndex(line => line.length > 0)
+
+  if (summaryIndex === -1) {
+    return null
+  }
+
+  const description = lines
+    .slice(summaryIndex + 1)
+    .join('\n')
+    .replace(/^\n+|\n+$/g, '')
+
+  return {
+    summary: lines[summaryIndex],
+    description: description.length > 0 ? description : null,
+  }
+}
+
+/** Get the character Git uses to mark lines in commit messages as comments */
+async function getCommentChar(repository: Repository) {
+  const commentChar = await getConfigValue(repository, 'core.commentChar')
+
+  // `auto` picks a character not used in the message, which in practice
+  // means `#` for templates written with Git's default in mind.
+  return commentChar !== null && commentChar.length === 1 ? commentChar : '#'
+}
@@ -1,22 +1,31 @@
-import { git, parseCommitSHA } from './core'
+import { git, GitError, IGitExecutionOptions, parseCommitSHA } from './core'
 import { stageFiles } from './update-index'
 import { Repository } from '../../models/repository'
 import { WorkingDirectoryFileChange } from '../../models/status'
 import { unstageAll } from './reset'
 import { ManualConflictResolution } from '../../models/manual-conflict-resolution'
 import { stageManualConflictResolution } from './stage'
+import { CommitHookNames, HookError } from './hooks'
+import { executionOptionsWithHookProgress, HookProgress } from '../progress'
 
 /**
  * @param repository repository to execute merge in
  * @param message commit message
  * @param files files to commit
+ * @param noVerify whether to skip the pre-commit and commit-msg hooks
+ * @param hookProgressCallback an optional function which will be invoked
+ *                             as hooks are started and write output. When
+ *                             provided, a failure caused by one of the hooks
+ *                             is reported as a HookError.
  * @returns the commit SHA
  */
 export async function createCommit(
   repository: Repository,
   message: string,
   files: ReadonlyArray<WorkingDirectoryFileChange>,
-  amend: boolean = false
+  amend: boolean = false,
+  noVerify: boolean = false,
+  hookProgressCallback?: (progress: HookProgress) => void
 ): Promise<string> {
   // Clear the staging area, our diffs reflect the difference between the
   // working directory and the last commit (if any) so our commits should
@@ -31,15 +40,43 @@ export async function createCommit(
     args.push('--amend')
   }
 
-  const result = await git(
-    ['commit', ...args],
-    repository.path,
-    'createCommit',
-    {
-      stdin: message,
+  if (noVerify) {
+    args.push('--no-verify')
+  }
+
+  let opts: IGitExecutionOptions = { stdin: message }
+  let failedHookName: string | null = null
+
+  if (hookProgressCallback) {
+    opts = await executionOptionsWithHookProgress(opts, progress => {
+      if (
+        progress.kind === 'hook-finished' &&
+        progress.exitCode !== 0 &&
+        CommitHookNames.includes(progress.hookName)
+      ) {
+        failedHookName = progress.hookName
+      }
+      hookProgressCallback(progress)
+    })
+  }
+
+  try {
+    const result = await git(
+      ['commit', ...args],
+      repository.path,
+      'createCommit',
+      opts
+    )
+    return parseCommitSHA(result)
+  } catch (e) {
+    // The commit can fail after a hook ran for other reasons, i.e. signing,
+    // so it's only blamed on a hook which exited with an error.
+    if (e instanceof GitError && failedHookName !== null) {
+      throw new HookError(failedHookName, e)
     }
-  )
-  return parseCommitSHA(result)
+
+    throw e
+  }
 }
 
 /**
@@ -18,6 +18,17 @@ export function getConfigValue(
   return getConfigValueInPath(name, repository.path, onlyLocal)
 }
 
+/**
+ * Look up a config value by name in the repository and interpret it as a
+ * path, expanding a leading `~` to the home directory of the user.
+ */
+export function getPathConfigValue(
+  repository: Repository,
+  name: string
+): Promise<string | null> {
+  return getConfigValueInPath(name, repository.path, false, 'path')
+}
+
 /** Look up a global config value by name. */
 export function getGlobalConfigValue(
   name: string,
@@ -45,6 +56,21 @@ export async function getGlobalBooleanConfigValue(
   return value === null ? null : value !== 'false'
 }
 
+/**
+ * Look up a config value by name in the repository.
+ *
+ * Treats the returned value as a boolean as per Git's
+ * own definition of a boolean configuration value (i.e.
+ * 0 -> false, "off" -> false, "yes" -> true etc)
+ */
+export async function getBooleanConfigValue(
+  repository: Repository,
+  name: string
+): Promise<boolean | null> {
+  const value = await getConfigValueInPath(name, repository.path, false, 'bool')
+  return value === null ? null : value !== 'false'
+}
+
 /**
  * Look up a config value by name
  *
@@ -8,6 +8,8 @@ import {
   FileChange,
   AppFileStatusKind,
   SubmoduleStatus,
+  CommittedFileChange,
+  AppFileStatus,
 } from '../../models/status'
 import {
   DiffType,
@@ -18,6 +20,9 @@ import {
   LineEndingsChange,
   parseLineEndingText,
   ILargeTextDiff,
+  IDiffSettings,
+  defaultDiffSettings,
+  DefaultDiffContextLines,
 } from '../../models/diff'
 
 import { spawnAndComplete } from './spawn'
@@ -83,6 +88,44 @@ function isDiffTooLarge(diff: IRawDiff) {
   return false
 }
 
+/**
+ * The number of context lines requested when showing the full file, large
+ * enough to include every line of any file we'd be able to diff.
+ */
+const FullFileContextLines = 2147483647
+
+/**
+ * Get the arguments which make git hide the changes, and show the context,
+ * which the user has chosen.
+ */
+function getDiffSettingsArgs(
+  hideWhitespaceInDiff: boolean,
+  diffSettings: IDiffSettings
+): ReadonlyArray<string> {
+  const { contextLines, ignoreBlankLines, ignoreLineEndings } = diffSettings
+  const args = new Array<string>()
+
+  if (hideWhitespaceInDiff) {
+    args.push('-w')
+  }
+
+  if (ignoreBlankLines) {
+    args.push('--ignore-blank-lines')
+  }
+
+  if (ignoreLineEndings) {
+    args.push('--ignore-cr-at-eol')
+  }
+
+  // We leave the default to git so that a context size configured through
+  // diff.context is still respected.
+  if (contextLines !== DefaultDiffContextLines) {
+    args.push(`-U${contextLines ?? FullFileContextLines}`)
+  }
+
+  return args
+}
+
 /**
  *  Defining the list of known extensions we can render inside the app
  */
@@ -107,12 +150,13 @@ export async function getCommitDiff(
   repository: Repository,
   file: FileChange,
   commitish: string,
-  hideWhitespaceInDiff: boolean = false
+  hideWhitespaceInDiff: boolean = false,
+  diffSettings: IDiffSettings = defaultDiffSettings
 ): Promise<IDiff> {
   const args = [
     'log',
     commitish,
-    ...(hideWhitespaceInDiff ? ['-w'] : []),
+    ...getDiffSettingsArgs(hideWhitespaceInDiff, diffSettings),
     '-m',
     '-1',
     '--first-parent',
@@ -149,14 +193,15 @@ export async function getBranchMergeBaseDiff(
   baseBranchName: string,
   comparisonBranchName: string,
   hideWhitespaceInDiff: boolean = false,
-  latestCommit: string
+  latestCommit: string,
+  diffSettings: IDiffSettings = defaultDiffSettings
 ): Promise<IDiff> {
   const args = [
     'diff',
     '--merge-base',
     baseBranchName,
     comparisonBranchName,
-    ...(hideWhitespaceInDiff ? ['-w'] : []),
+    ...getDiffSettingsArgs(hideWhitespaceInDiff, diffSettings),
     '--patch-with-raw',
     '-z',
     '--no-color',
@@ -187,6 +232,7 @@ export async function getCommitRangeDiff(
   file: FileChange,
   commits: ReadonlyArray<string>,
   hideWhitespaceInDiff: boolean = false,
+  diffSettings: IDiffSettings = defaultDiffSettings,
   useNullTreeSHA: boolean = false
 ): Promise<IDiff> {
   if (commits.length === 0) {
@@ -199,7 +245,7 @@ export async function getCommitRangeDiff(
     'diff',
     oldestCommitRef,
     latestCommit,
-    ...(hideWhitespaceInDiff ? ['-w'] : []),
+    ...getDiffSettingsArgs(hideWhitespaceInDiff, diffSettings),
     '--patch-with-raw',
     '-z',
     '--no-color',
@@ -228,6 +274,7 @@ export async function getCommitRangeDiff(
       file,
       commits,
       hideWhitespaceInDiff,
+      diffSettings,
       true
     )
   }
@@ -235,6 +282,82 @@ export async function getCommitRangeDiff(
   return buildDiff(Buffer.from(result.stdout), repository, file, latestCommit)
 }
 
+/**
+ * Render the difference between two revisions of a file, which may have been
+ * renamed in between.
+ *
+ * @param from The older revision of the file, i.e. as changed by a commit in
+ *             the history of the file
+ * @param to   The newer revision of the file
+ */
+export async function getFileRevisionsDiff(
+  repository: Repository,
+  from: CommittedFileChange,
+  to: CommittedFileChange,
+  hideWhitespaceInDiff: boolean = false,
+  diffSettings: IDiffSettings = defaultDiffSettings
+): Promise<IDiff> {
+  const args = [
+    'diff',
+    from.commitish,
+    to.commitish,
+    ...getDiffSettingsArgs(hideWhitespaceInDiff, diffSettings),
+    '-M',
+    '--patch-with-raw',
+    '-z',
+    '--no-color',
+    '--',
+    to.path,
+  ]
+
+  if (from.path !== to.path) {
+    args.push(from.path)
+  }
+
+  const file = getFileRevisionsChange(from, to)
+  const result = await git(args, repository.path, 'getFileRevisionsDiff', {
+    maxBuffer: Infinity,
+  })
+
+  return buildDiff(Buffer.from(result.stdout), repository, file, to.commitish)
+}
+
+/**
+ * Get the change made to a file between two of its revisions, as rendered by
+ * `getFileRevisionsDiff`.
+ */
+export function getFileRevisionsChange(
+  from: CommittedFileChange,
+  to: CommittedFileChange
+): CommittedFileChange {
+  return new CommittedFileChange(
+    to.path,
+    getFileRevisionsStatus(from, to),
+    to.commitish,
+    from.commitish
+  )
+}
+
+/** Get the status of a file between two of its revisions */
+function getFileRevisionsStatus(
+  from: CommittedFileChange,
+  to: CommittedFileChange
+): AppFileStatus {
+  const { submoduleStatus } = to.status
+
+  if (to.status.kind === AppFileStatusKind.Deleted) {
+    return { kind: AppFileStatusKind.Deleted, submoduleStatus }
+  }
+
+  if (from.status.kind === AppFileStatusKind.Deleted) {
+    return { kind: AppFileStatusKind.New, submoduleStatus }
+  }
+
+  return from.path === to.path
+    ? { kind: AppFileStatusKind.Modified, submoduleStatus }
+    : { kind: AppFileStatusKind.Renamed, oldPath: from.path, submoduleStatus }
+}
+
 /**
  * Get the files that were changed for the merge base comparison of two branches.
  * (What would be the result of a merge)
@@ -324,6 +447,60 @@ export async function getCommitRangeChangedFiles(
   return parseRawLogWithNumstat(stdout, latestCommitRef, oldestCommitRef)
 }
 
+/**
+ * Get the files that were changed between two commits, i.e. when comparing
+ * two refs.
+ *
+ * @param from The commit to compare from
+ * @param to   The commit to compare to
+ */
+export async function getChangedFilesBetween(
+  repository: Repository,
+  from: string,
+  to: string
+): Promise<IChangesetData> {
+  const args = ['diff', from, to, '-C', '-M', '-z', '--raw', '--numstat', '--']
+  const { stdout } = await git(args, repository.path, 'getChangedFilesBetween')
+
+  return parseRawLogWithNumstat(stdout, to, from)
+}
+
+/**
+ * Render the difference for a file between the two commits it was changed
+ * between, i.e. a file returned by `getChangedFilesBetween`.
+ */
+export async function getDiffBetween(
+  repository: Repository,
+  file: CommittedFileChange,
+  hideWhitespaceInDiff: boolean = false,
+  diffSettings: IDiffSettings = defaultDiffSettings
+): Promise<IDiff> {
+  const args = [
+    'diff',
+    file.parentCommitish,
+    file.commitish,
+    ...getDiffSettingsArgs(hideWhitespaceInDiff, diffSettings),
+    '--patch-with-raw',
+    '-z',
+    '--no-color',
+    '--',
+    file.path,
+  ]
+
+  if (
+    file.status.kind === AppFileStatusKind.Renamed ||
+    file.status.kind === AppFileStatusKind.Copied
+  ) {
+    args.push(file.status.oldPath)
+  }
+
+  const result = await git(args, repository.path, 'getDiffBetween', {
+    maxBuffer: Infinity,
+  })
+
+  return buildDiff(Buffer.from(result.stdout), repository, file, file.commitish)
+}
+
 /**
  * Render the diff for a file within the repository working directory. The file will be
  * compared against HEAD if it's tracked, if not it'll be compared to an empty file meaning
@@ -332,13 +509,14 @@ export async function getCommitRangeChangedFiles(
 export async function getWorkingDirectoryDiff(
   repository: Repository,
   file: WorkingDirectoryFileChange,
-  hideWhitespaceInDiff: boolean = false
+  hideWhitespaceInDiff: boolean = false,
+  diffSettings: IDiffSettings = defaultDiffSettings
 ): Promise<IDiff> {
   // `--no-ext-diff` should be provided wherever we invoke `git diff` so that any
   // diff.external program configured by the user is ignored
   const args = [
     'diff',
-    ...(hideWhitespaceInDiff ? ['-w'] : []),
+    ...getDiffSettingsArgs(hideWhitespaceInDiff, diffSettings),
     '--no-ext-diff',
     '--patch-with-raw',
     '-z',
@@ -145,3 +145,32 @@ export async function getBranchesDifferingFromUpstream(
 
   return eligibleBranches
 }
+
+/**
+ * Check whether a commit is reachable from any local branch, remote branch
+ * or tag.
+ *
+ * @param repository Repository to look for the commit in.
+ * @param sha        The commit to look for.
+ */
+export async function isReachableFromRefs(
+  repository: Repository,
+  sha: string
+): Promise<boolean> {
+  const result = await git(
+    [
+      'for-each-ref',
+      '--count=1',
+      '--format=%(refname)',
+      `--contains=${sha}`,
+      'refs/heads',
+      'refs/remotes',
+      'refs/tags',
+    ],
+    repository.path,
+    'isReachableFromRefs',
+    { successExitCodes: new Set([0, 129]) }
+  )
+
+  return result.exitCode === 0 && result.stdout.trim().length > 0
+}
@@ -1,5 +1,7 @@
+import { writeFile } from 'fs/promises'
 import { revRange } from './rev-list'
 import { Repository } from '../../models/repository'
+import { RefComparisonMode } from '../../models/ref-comparison'
 import { spawnAndComplete } from './spawn'
 
 /**
@@ -23,3 +25,34 @@ export async function formatPatch(
   )
   return output.toString('utf8')
 }
+
+/**
+ * Write the changes between two commits to a file.
+ *
+ * When comparing since the common ancestor, the commits reachable from `head`
+ * but not from `base` are written as a series of patches which can be applied
+ * with `git am`. When comparing directly, the difference between the two
+ * commits is written as a single patch which can be applied with `git apply`.
+ *
+ * @param path The path of the file to write the patches to
+ * @param mode How the commits are compared
+ */
+export async function exportPatch(
+  repository: Repository,
+  base: string,
+  head: string,
+  path: string,
+  mode: RefComparisonMode = RefComparisonMode.ThreeDot
+): Promise<void> {
+  const args =
+    mode === RefComparisonMode.ThreeDot
+      ? ['format-patch', '--stdout', revRange(base, head)]
+      : ['diff', '--binary', '--no-color', '--no-ext-diff', base, head]
+
+  const { output } = await spawnAndComplete(
+    args,
+    repository.path,
+    'exportPatch'
+  )
+  await writeFile(path, output)
+}
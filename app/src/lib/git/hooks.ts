@@ -0,0 +1,125 @@
+import * as Path from 'path'
+import { readdir, readFile, stat } from 'fs/promises'
+import { git, GitError } from './core'
+import { Repository } from '../../models/repository'
+import { HookManager, IRepositoryHooks } from '../../models/hooks'
+
+/**
+ * The client side hooks Git runs as part of the operations performed by the
+ * app. See https://git-scm.com/docs/githooks
+ */
+export const KnownHookNames: ReadonlyArray<string> = [
+  'applypatch-msg',
+  'pre-applypatch',
+  'post-applypatch',
+  'pre-commit',
+  'pre-merge-commit',
+  'prepare-commit-msg',
+  'commit-msg',
+  'post-commit',
+  'pre-rebase',
+  'post-checkout',
+  'post-merge',
+  'pre-push',
+  'reference-transaction',
+  'post-rewrite',
+  'pre-auto-gc',
+]
+
+/** The hooks which are able to prevent a commit from being created */
+export const CommitHookNames: ReadonlyArray<string> = [
+  'pre-commit',
+  'prepare-commit-msg',
+  'commit-msg',
+]
+
+/** An error thrown when a hook prevented a Git operation from completing */
+export class HookError extends Error {
+  public constructor(
+    /** The name of the hook which failed, i.e. `pre-commit` */
+    public readonly hookName: string,
+    /** The error from the Git operation running the hook */
+    public readonly gitError: GitError
+  ) {
+    super(gitError.message)
+    this.name = 'HookError'
+  }
+}
+
+/**
+ * Get the absolute path of the directory Git looks for hooks in, taking
+ * `core.hooksPath` into account.
+ */
+export async function getHooksPath(repository: Repository): Promise<string> {
+  const { stdout } = await git(
+    ['rev-parse', '--git-path', 'hooks'],
+    repository.path,
+    'getHooksPath'
+  )
+
+  return Path.resolve(repository.path, stdout.trim())
+}
+
+/**
+ * Get the hooks configured for the repository along with the tool managing
+ * them, if any.
+ *
+ * Sample hooks, which Git installs in new repositories, are ignored along
+ * with hooks that aren't executable as Git won't run those.
+ */
+export async function getRepositoryHooks(
+  repository: Repository
+): Promise<IRepositoryHooks> {
+  const path = await getHooksPath(repository)
+  const entries = await readdir(path).catch(() => new Array<string>())
+  const hooks = new Array<string>()
+
+  for (const name of entries) {
+    if (KnownHookNames.includes(name) && (await isExecutable(path, name))) {
+      hooks.push(name)
+    }
+  }
+
+  const manager = await detectHookManager(repository, path, hooks)
+  return { path, hooks, manager }
+}
+
+async function isExecutable(directory: string, name: string) {
+  try {
+    const stats = await stat(Path.join(directory, name))
+    // Git for Windows runs hooks regardless of the executable bit
+    return stats.isFile() && (__WIN32__ || (stats.mode & 0o111) !== 0)
+  } catch {
+    return false
+  }
+}
+
+async function detectHookManager(
+  repository: Repository,
+  hooksPath: string,
+  hooks: ReadonlyArray<string>
+): Promise<HookManager | null> {
+  // Husky points core.hooksPath to `.husky` (v4-v8) or `.husky/_` (v9+)
+  const relativePath = Path.relative(repository.path, hooksPath)
+  if (relativePath.split(/[\\/]/).includes('.husky')) {
+    return HookManager.Husky
+  }
+
+  // Other managers install scripts into the hooks directory which
+  // invoke the manager, so we look for its name in the scripts.
+  for (const hook of hooks) {
+    const contents = await readFile(Path.join(hooksPath, hook), 'utf8').catch(
+      () => ''
+    )
+
+    if (/\blefthook\b/.test(contents)) {
+      return HookManager.Lefthook
+    } else if (/pre-commit\.com|-m ?pre_commit\b/.test(contents)) {
+      return HookManager.PreCommit
+    } else if (/\bhusky\b/.test(contents)) {
+      return HookManager.Husky
+    }
+  }
+
+  return null
+}
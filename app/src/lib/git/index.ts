@@ -33,3 +33,13 @@ export * from './gitignore'
 export * from './rebase'
 export * from './format-patch'
 export * from './tag'
+export * from './blame'
+export * from './worktree'
+export * from './bisect'
+export * from './signing'
+export * from './sparse-checkout'
+export * from './commit-template'
+export * from './hooks'
+export * from './check-attr'
+export * from './rerere'
+export * from './interactive-rebase'
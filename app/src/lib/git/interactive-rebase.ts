@@ -0,0 +1,129 @@
+import { rm, writeFile } from 'fs/promises'
+import { Commit } from '../../models/commit'
+import {
+  IInteractiveRebaseStep,
+  InteractiveRebaseAction,
+} from '../../models/interactive-rebase'
+import { MultiCommitOperationKind } from '../../models/multi-commit-operation'
+import { IMultiCommitOperationProgress } from '../../models/progress'
+import { Repository } from '../../models/repository'
+import { getTempFilePath } from '../file-system'
+import { rebaseInteractive, RebaseResult } from './rebase'
+
+/** Quote a value so it's passed as a single argument by the shell */
+function shellQuote(value: string) {
+  return `'${value.replace(/'/g, `'\\''`)}'`
+}
+
+/** Collapse a command to a single line so it fits on one line of the todo */
+function toSingleLine(command: string) {
+  return command.replace(/\r?\n/g, ' ').trim()
+}
+
+/**
+ * Format the todo list of an interactive rebase replaying the given steps.
+ *
+ * Rewording a commit is done by picking it and amending its message with an
+ * `exec` line rather than with `reword`, as the latter would open an editor.
+ *
+ * @param steps - The steps of the rebase, from the oldest commit to the newest
+ */
+export function formatInteractiveRebaseTodo(
+  steps: ReadonlyArray<IInteractiveRebaseStep>
+): string {
+  const lines = new Array<string>()
+
+  for (const { commit, action, message, exec } of steps) {
+    if (action === InteractiveRebaseAction.Reword) {
+      lines.push(`pick ${commit.sha} ${commit.summary}`)
+
+      if (message !== null) {
+        const messageLines = message.split(/\r?\n/).map(shellQuote).join(' ')
+        lines.push(
+          `exec printf '%s\\n' ${messageLines} | git commit --amend --allow-empty --no-verify -F -`
+        )
+      }
+    } else {
+      lines.push(`${action} ${commit.sha} ${commit.summary}`)
+    }
+
+    if (
+      exec !== null &&
+      action !== InteractiveRebaseAction.Drop &&
+      toSingleLine(exec).length > 0
+    ) {
+      lines.push(`exec ${toSingleLine(exec)}`)
+    }
+  }
+
+  return lines.map(l => `${l}\n`).join('')
+}
+
+/**
+ * Get the commits to report progress for, one for each line of the todo list
+ * formatted for the given steps, as Git counts `exec` lines as steps too.
+ */
+function getProgressCommits(
+  steps: ReadonlyArray<IInteractiveRebaseStep>
+): ReadonlyArray<Commit> {
+  const commits = new Array<Commit>()
+
+  for (const { commit, action, message, exec } of steps) {
+    commits.push(commit)
+
+    if (action === InteractiveRebaseAction.Reword && message !== null) {
+      commits.push(commit)
+    }
+
+    if (
+      exec !== null &&
+      action !== InteractiveRebaseAction.Drop &&
+      toSingleLine(exec).length > 0
+    ) {
+      commits.push(commit)
+    }
+  }
+
+  return commits
+}
+
+/**
+ * Replays the given commits, picking, rewording, editing, squashing, fixing
+ * up or dropping each of them as described by its step.
+ *
+ * If a step runs a command which fails, the rebase is aborted and an error
+ * thrown.
+ *
+ * @param steps - The steps of the rebase, from the oldest commit to the newest
+ * @param lastRetainedCommitRef - sha of commit before the oldest commit of the
+ * steps or null if that commit is the root (first in history) of the branch
+ */
+export async function interactiveRebase(
+  repository: Repository,
+  steps: ReadonlyArray<IInteractiveRebaseStep>,
+  lastRetainedCommitRef: string | null,
+  progressCallback?: (progress: IMultiCommitOperationProgress) => void
+): Promise<RebaseResult> {
+  if (steps.length === 0) {
+    log.error('[interactiveRebase] No commits provided to rebase.')
+    return RebaseResult.Error
+  }
+
+  const todoPath = await getTempFilePath('interactiveRebaseTodo')
+
+  try {
+    await writeFile(todoPath, formatInteractiveRebaseTodo(steps))
+
+    return await rebaseInteractive(
+      repository,
+      todoPath,
+      lastRetainedCommitRef,
+      MultiCommitOperationKind.InteractiveRebase,
+      undefined,
+      progressCallback,
+      getProgressCommits(steps)
+    )
+  } finally {
+    await rm(todoPath, { recursive: true, force: true })
+  }
+}
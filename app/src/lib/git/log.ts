@@ -16,6 +16,10 @@ import { getCaptures } from '../helpers/regex'
 import { createLogParser } from './git-delimiter-parser'
 import { revRange } from '.'
 import { forceUnwrap } from '../fatal-error'
+import { HistoryFilterKind, IHistoryFilter } from '../../models/history-filter'
+import { spawnGit } from './spawn'
+import { ChildProcess } from 'child_process'
+import { isErrnoException } from '../errno-exception'
 
 // File mode 160000 is used by git specifically for submodules:
 // https://github.com/git/git/blob/v2.37.3/cache.h#L62-L69
@@ -95,30 +99,154 @@ const isCopyOrRename = (
   status.kind === AppFileStatusKind.Copied ||
   status.kind === AppFileStatusKind.Renamed
 
+/** The fields of the commits we load using `git log` */
+const commitLogFields = {
+  sha: '%H', // SHA
+  shortSha: '%h', // short SHA
+  summary: '%s', // summary
+  body: '%b', // body
+  // author identity string, matching format of GIT_AUTHOR_IDENT.
+  //   author name <author email> <author date>
+  // author date format dependent on --date arg, should be raw
+  author: '%an <%ae> %ad',
+  committer: '%cn <%ce> %cd',
+  parents: '%P', // parent SHAs,
+  trailers: '%(trailers:unfold,only)',
+  refs: '%D',
+}
+
+type CommitLogEntry = { [K in keyof typeof commitLogFields]: string }
+
+function parseCommit(commit: CommitLogEntry) {
+  const tags = getCaptures(commit.refs, /tag: ([^\s,]+)/g)
+    .filter(i => i[0] !== undefined)
+    .map(i => i[0])
+
+  return new Commit(
+    commit.sha,
+    commit.shortSha,
+    commit.summary,
+    commit.body,
+    CommitIdentity.parseIdentity(commit.author),
+    CommitIdentity.parseIdentity(commit.committer),
+    commit.parents.length > 0 ? commit.parents.split(' ') : [],
+    // We know for sure that the trailer separator will be ':' since we got
+    // them from %(trailers:unfold) above, see `git help log`:
+    //
+    //   "key_value_separator=<SEP>: specify a separator inserted between
+    //    trailer lines. When this option is not given each trailer key-value
+    //    pair is separated by ": ". Otherwise it shares the same semantics as
+    //    separator=<SEP> above."
+    parseRawUnfoldedTrailers(commit.trailers, ':'),
+    tags
+  )
+}
+
+/**
+ * Get the `git log` arguments limiting the commits to those matching the given
+ * filters, and the paths to pass after `--`.
+ *
+ * Message and author filters are matched as case insensitive fixed strings,
+ * and all of them have to match. Only the last date and content filters are
+ * used since git doesn't support more than one of each. Content filters are
+ * case sensitive.
+ */
+export function getHistoryFilterArgs(filters: ReadonlyArray<IHistoryFilter>) {
+  const args = new Array<string>()
+  const paths = new Array<string>()
+  const last = (kind: HistoryFilterKind) =>
+    filters.filter(f => f.kind === kind).at(-1)?.value
+
+  const messages = filters.filter(f => f.kind === HistoryFilterKind.Message)
+  const authors = filters.filter(f => f.kind === HistoryFilterKind.Author)
+
+  // Git's `--regexp-ignore-case` would make the content filters case
+  // insensitive too, so the patterns ignore case themselves
+  for (const { value } of messages) {
+    args.push(`--grep=${toCaseInsensitivePattern(value)}`)
+  }
+
+  for (const { value } of authors) {
+    args.push(`--author=${toCaseInsensitivePattern(value)}`)
+  }
+
+  if (messages.length > 1) {
+    args.push('--all-match')
+  }
+
+  const since = last(HistoryFilterKind.Since)
+  if (since !== undefined) {
+    args.push(`--since=${since}`)
+  }
+
+  const until = last(HistoryFilterKind.Until)
+  if (until !== undefined) {
+    args.push(`--until=${until}`)
+  }
+
+  const content = filters
+    .filter(
+      f =>
+        f.kind === HistoryFilterKind.Content ||
+        f.kind === HistoryFilterKind.ContentRegex
+    )
+    .at(-1)
+
+  if (content !== undefined) {
+    args.push(
+      content.kind === HistoryFilterKind.Content
+        ? `-S${content.value}`
+        : `-G${content.value}`
+    )
+  }
+
+  for (const { kind, value } of filters) {
+    if (kind === HistoryFilterKind.Path) {
+      paths.push(value)
+    }
+  }
+
+  return { args, paths }
+}
+
+/**
+ * Get a basic regular expression matching the given text literally, regardless
+ * of case.
+ */
+function toCaseInsensitivePattern(text: string) {
+  let pattern = ''
+
+  for (const char of text) {
+    const lower = char.toLowerCase()
+    const upper = char.toUpperCase()
+
+    if (lower !== upper) {
+      pattern += `[${lower}${upper}]`
+    } else if ('.[]*^$\\'.includes(char)) {
+      pattern += `\\${char}`
+    } else {
+      pattern += char
+    }
+  }
+
+  return pattern
+}
+
 /**
  * Get the repository's commits using `revisionRange` and limited to `limit`
+ *
+ * @param filters Filters the commits have to match, see `getHistoryFilterArgs`
  */
 export async function getCommits(
   repository: Repository,
   revisionRange?: string,
   limit?: number,
   skip?: number,
-  additionalArgs: ReadonlyArray<string> = []
+  additionalArgs: ReadonlyArray<string> = [],
+  filters: ReadonlyArray<IHistoryFilter> = []
 ): Promise<ReadonlyArray<Commit>> {
-  const { formatArgs, parse } = createLogParser({
-    sha: '%H', // SHA
-    shortSha: '%h', // short SHA
-    summary: '%s', // summary
-    body: '%b', // body
-    // author identity string, matching format of GIT_AUTHOR_IDENT.
-    //   author name <author email> <author date>
-    // author date format dependent on --date arg, should be raw
-    author: '%an <%ae> %ad',
-    committer: '%cn <%ce> %cd',
-    parents: '%P', // parent SHAs,
-    trailers: '%(trailers:unfold,only)',
-    refs: '%D',
-  })
+  const { formatArgs, parse } = createLogParser(commitLogFields)
+  const filterArgs = getHistoryFilterArgs(filters)
 
   const args = ['log']
 
@@ -141,7 +269,9 @@ export async function getCommits(
     '--no-show-signature',
     '--no-color',
     ...additionalArgs,
-    '--'
+    ...filterArgs.args,
+    '--',
+    ...filterArgs.paths
   )
   const result = await git(args, repository.path, 'getCommits', {
     successExitCodes: new Set([0, 128]),
@@ -152,32 +282,258 @@ export async function getCommits(
     return new Array<Commit>()
   }
 
-  const parsed = parse(result.stdout)
-
-  return parsed.map(commit => {
-    const tags = getCaptures(commit.refs, /tag: ([^\s,]+)/g)
-      .filter(i => i[0] !== undefined)
-      .map(i => i[0])
-
-    return new Commit(
-      commit.sha,
-      commit.shortSha,
-      commit.summary,
-      commit.body,
-      CommitIdentity.parseIdentity(commit.author),
-      CommitIdentity.parseIdentity(commit.committer),
-      commit.parents.length > 0 ? commit.parents.split(' ') : [],
-      // We know for sure that the trailer separator will be ':' since we got
-      // them from %(trailers:unfold) above, see `git help log`:
-      //
-      //   "key_value_separator=<SEP>: specify a separator inserted between
-      //    trailer lines. When this option is not given each trailer key-value
-      //    pair is separated by ": ". Otherwise it shares the same semantics as
-      //    separator=<SEP> above."
-      parseRawUnfoldedTrailers(commit.trailers, ':'),
-      tags
-    )
+  return parse(result.stdout).map(parseCommit)
+}
+
+/** A search of the history started with `searchCommits` */
+export interface ICommitSearch {
+  /**
+   * A promise which resolves once all matching commits have been found or the
+   * search has been cancelled
+   */
+  readonly done: Promise<void>
+
+  /** Stop searching for more commits */
+  readonly cancel: () => void
+}
+
+/**
+ * Search the repository's commits matching the given filters, reporting the
+ * commits as git finds them rather than once the whole history has been
+ * searched, which can take a while for large repositories.
+ *
+ * @param revisionRange  The commits to search
+ * @param filters        Filters the commits have to match
+ * @param limit          The maximum number of commits to find
+ * @param additionalArgs Additional arguments for `git log`
+ * @param onCommits      Called with every batch of commits found, in order
+ */
+export function searchCommits(
+  repository: Repository,
+  revisionRange: string,
+  filters: ReadonlyArray<IHistoryFilter>,
+  limit: number,
+  additionalArgs: ReadonlyArray<string>,
+  onCommits: (commits: ReadonlyArray<Commit>) => void
+): ICommitSearch {
+  const { formatArgs, parse } = createLogParser(commitLogFields)
+  const fieldCount = Object.keys(commitLogFields).length
+  const filterArgs = getHistoryFilterArgs(filters)
+
+  const args = [
+    'log',
+    revisionRange,
+    '--date=raw',
+    `--max-count=${limit}`,
+    ...formatArgs,
+    '--no-show-signature',
+    '--no-color',
+    ...additionalArgs,
+    ...filterArgs.args,
+    '--',
+    ...filterArgs.paths,
+  ]
+
+  let cancelled = false
+  let process: ChildProcess | null = null
+
+  const search = (spawned: ChildProcess) =>
+    new Promise<void>((resolve, reject) => {
+      process = spawned
+
+      if (cancelled) {
+        spawned.kill()
+        return resolve()
+      }
+
+      let buffer = ''
+      const stderr = new Array<string>()
+
+      spawned.on('error', e =>
+        reject(
+          isErrnoException(e)
+            ? new Error(`Failed to search commits: ${e.code}`)
+            : e
+        )
+      )
+
+      spawned.stderr?.setEncoding('utf8').on('data', (chunk: string) => {
+        stderr.push(chunk)
+      })
+
+      spawned.stdout?.setEncoding('utf8').on('data', (chunk: string) => {
+        buffer += chunk
+
+        // Every commit is a fixed number of NUL terminated fields, so only
+        // parse up to the end of the last complete commit we've received.
+        let end = -1
+        let fields = 0
+        for (
+          let i = buffer.indexOf('\0');
+          i !== -1;
+          i = buffer.indexOf('\0', i + 1)
+        ) {
+          fields++
+          if (fields % fieldCount === 0) {
+            end = i
+          }
+        }
+
+        if (end === -1 || cancelled) {
+          return
+        }
+
+        const commits = parse(buffer.substring(0, end + 1)).map(parseCommit)
+        buffer = buffer.substring(end + 1)
+        onCommits(commits)
+      })
+
+      spawned.on('close', code => {
+        if (cancelled || code === 0) {
+          resolve()
+        } else {
+          reject(
+            new Error(
+              `Searching commits failed: ${stderr.join('').trim() || code}`
+            )
+          )
+        }
+      })
+    })
+
+  const done = spawnGit(args, repository.path, 'searchCommits').then(search)
+
+  return {
+    done,
+    cancel: () => {
+      cancelled = true
+      process?.kill()
+    },
+  }
+}
+
+/** A commit in the history of a single file, see `getFileHistory` */
+export interface IFileHistoryEntry {
+  readonly commit: Commit
+
+  /**
+   * The change the commit made to the file, using the path the file had at
+   * that commit
+   */
+  readonly file: CommittedFileChange
+}
+
+/**
+ * Get the commits which changed the file at the given path, following the
+ * file across renames.
+ *
+ * Commits which didn't change the file themselves, like merge commits, are
+ * left out since there's nothing to show for them.
+ *
+ * @param path     The path of the file as of `revision`
+ * @param revision The commit to start walking the history of the file from
+ */
+export async function getFileHistory(
+  repository: Repository,
+  path: string,
+  revision: string = 'HEAD',
+  limit?: number
+): Promise<ReadonlyArray<IFileHistoryEntry>> {
+  const [commits, files] = await Promise.all([
+    getCommits(
+      repository,
+      revision,
+      limit,
+      undefined,
+      ['--follow'],
+      [{ kind: HistoryFilterKind.Path, value: path }]
+    ),
+    getFileHistoryChanges(repository, path, revision, limit),
+  ])
+
+  const entries = new Array<IFileHistoryEntry>()
+
+  for (const commit of commits) {
+    const file = files.get(commit.sha)
+    if (file !== undefined) {
+      entries.push({ commit, file })
+    }
+  }
+
+  return entries
+}
+
+/**
+ * Get the changes made to a file by each commit in its history, keyed by the
+ * SHA of the commit.
+ */
+async function getFileHistoryChanges(
+  repository: Repository,
+  path: string,
+  revision: string,
+  limit?: number
+): Promise<ReadonlyMap<string, CommittedFileChange>> {
+  const args = [
+    'log',
+    revision,
+    '--follow',
+    '--raw',
+    '-z',
+    '--format=%H',
+    '--no-show-signature',
+    '--no-color',
+  ]
+
+  if (limit !== undefined) {
+    args.push(`--max-count=${limit}`)
+  }
+
+  args.push('--', path)
+
+  const result = await git(args, repository.path, 'getFileHistoryChanges', {
+    successExitCodes: new Set([0, 128]),
   })
+
+  const files = new Map<string, CommittedFileChange>()
+
+  // if the repository has an unborn HEAD, there's no history
+  if (result.exitCode === 128) {
+    return files
+  }
+
+  // With -z every commit is its SHA followed by the raw diff of the file, i.e.
+  //    <sha>\0\n:100644 100644 5716ca5 db3c77d R100\0<old path>\0<path>\0
+  const fields = result.stdout.split('\0')
+  let sha: string | null = null
+
+  for (let i = 0; i < fields.length; i++) {
+    const field = fields[i]
+
+    if (!field.startsWith('\n:')) {
+      sha = field.length > 0 ? field : sha
+      continue
+    }
+
+    const [srcMode, dstMode, , , status] = field.substring(2).split(' ')
+    const oldPath = /^[RC]/.test(status)
+      ? forceUnwrap('Missing old path', fields.at(++i))
+      : undefined
+    const filePath = forceUnwrap('Missing path', fields.at(++i))
+
+    if (sha !== null) {
+      files.set(
+        sha,
+        new CommittedFileChange(
+          filePath,
+          mapStatus(status, oldPath, srcMode, dstMode),
+          sha,
+          `${sha}^`
+        )
+      )
+    }
+  }
+
+  return files
 }
 
 /** This interface contains information of a changeset. */
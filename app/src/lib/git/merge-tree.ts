@@ -1,10 +1,19 @@
 import byline from 'byline'
+import QuickLRU from 'quick-lru'
 import { Branch } from '../../models/branch'
 import { ComputedAction } from '../../models/computed-action'
-import { MergeTreeResult } from '../../models/merge'
+import { Commit, CommitOneLine } from '../../models/commit'
+import {
+  ICommitConflictPrediction,
+  IConflictPrediction,
+  MergeTreeResult,
+} from '../../models/merge'
 import { Repository } from '../../models/repository'
 import { isErrnoException } from '../errno-exception'
+import { git } from './core'
+import { getCommits } from './log'
 import { getMergeBase } from './merge'
+import { revRange } from './rev-list'
 import { spawnGit } from './spawn'
 
 // the merge-tree output is a collection of entries like this
@@ -115,3 +124,314 @@ export function parseMergeTreeResult(stream: NodeJS.ReadableStream) {
       })
   })
 }
+
+/**
+ * The most commits to predict conflicts for, as each commit takes a couple of
+ * Git processes to check.
+ */
+const MaxPredictedCommits = 50
+
+/** The result of applying a commit on top of a tree while predicting */
+type PredictedStep = { tree: string; conflictedFiles: ReadonlyArray<string> }
+
+/**
+ * The results of applying commits on top of trees, keyed on the repository,
+ * the tree and the commit. Both are immutable so the result never changes, and
+ * selecting another branch or dropping the same commits again only has to
+ * check the steps which differ. A null value means the commit has no parent
+ * to apply it relative to.
+ */
+const predictedSteps = new QuickLRU<string, PredictedStep | null>({
+  maxSize: 500,
+})
+
+/**
+ * The identity of the throwaway commits created while predicting conflicts,
+ * such that prediction doesn't depend on the user having configured one.
+ */
+const predictionCommitEnv = {
+  GIT_AUTHOR_NAME: 'GitHub Desktop',
+  GIT_AUTHOR_EMAIL: 'noreply@github.com',
+  GIT_COMMITTER_NAME: 'GitHub Desktop',
+  GIT_COMMITTER_EMAIL: 'noreply@github.com',
+}
+
+/**
+ * Merge two commits in memory without touching the index or the working
+ * directory, returning the tree of the result and the paths of the files
+ * which conflicted.
+ *
+ * The tree contains conflict markers in the conflicted files, as a merge in
+ * the working directory would.
+ */
+async function mergeTrees(
+  repository: Repository,
+  ours: string,
+  theirs: string
+): Promise<PredictedStep> {
+  const result = await git(
+    [
+      'merge-tree',
+      '--write-tree',
+      '--name-only',
+      '--no-messages',
+      '-z',
+      ours,
+      theirs,
+    ],
+    repository.path,
+    'mergeTrees',
+    { successExitCodes: new Set([0, 1]) }
+  )
+
+  const [tree, ...conflictedFiles] = result.stdout
+    .split('\0')
+    .filter(x => x.length > 0)
+
+  return { tree, conflictedFiles }
+}
+
+/**
+ * Predict the conflicts of merging a commit into another, along with the
+ * commits being merged which change the conflicted files.
+ *
+ * Returns null when the commits can't be merged as they have no history in
+ * common.
+ *
+ * @param ours   The commit being merged into, usually the current branch
+ * @param theirs The commit being merged
+ */
+export async function predictMergeConflicts(
+  repository: Repository,
+  ours: string,
+  theirs: string
+): Promise<IConflictPrediction | null> {
+  if ((await getMergeBase(repository, ours, theirs)) === null) {
+    return null
+  }
+
+  const { conflictedFiles } = await mergeTrees(repository, ours, theirs)
+
+  if (conflictedFiles.length === 0) {
+    return { conflictedFiles, commits: [] }
+  }
+
+  const result = await git(
+    [
+      '-c',
+      'core.quotePath=false',
+      'log',
+      '--reverse',
+      '--no-merges',
+      '--format=%x1e%H %s',
+      '--name-only',
+      revRange(ours, theirs),
+      '--',
+      ...conflictedFiles,
+    ],
+    repository.path,
+    'predictMergeConflicts'
+  )
+
+  const commits = new Array<ICommitConflictPrediction>()
+
+  for (const entry of result.stdout.split('\x1e')) {
+    const [header, ...files] = entry.split('\n').filter(x => x.length > 0)
+
+    if (header === undefined) {
+      continue
+    }
+
+    const [sha, summary] = splitOnce(header, ' ')
+    commits.push({
+      commit: { sha, summary },
+      conflictedFiles: files.filter(f => conflictedFiles.includes(f)),
+    })
+  }
+
+  return { conflictedFiles, commits }
+}
+
+function splitOnce(value: string, separator: string): [string, string] {
+  const index = value.indexOf(separator)
+  return index === -1
+    ? [value, '']
+    : [value.substring(0, index), value.substring(index + 1)]
+}
+
+/**
+ * Predict the conflicts of applying the given commits one after the other on
+ * top of a commit, as a rebase or a cherry-pick does.
+ *
+ * Each commit is applied by merging it with a throwaway commit holding the
+ * result so far, whose parent is the parent of the commit being applied. This
+ * makes Git use the same merge base a cherry-pick would. After a conflict the
+ * prediction carries on with the conflicted result, so the files of later
+ * commits may be reported as conflicting when they'd apply cleanly once the
+ * earlier conflict has been resolved.
+ *
+ * Returns null when the conflicts can't be predicted, such as when there are
+ * too many commits or a commit has no parent, or when the prediction is
+ * aborted.
+ *
+ * @param commits The commits to apply, in the order they're applied
+ * @param onto    The commit the commits are applied on top of
+ * @param signal  Aborts the prediction, such as when the user has moved on
+ *                to another branch
+ */
+export async function predictCherryPickConflicts(
+  repository: Repository,
+  commits: ReadonlyArray<CommitOneLine>,
+  onto: string,
+  signal?: AbortSignal
+): Promise<IConflictPrediction | null> {
+  if (commits.length > MaxPredictedCommits) {
+    return null
+  }
+
+  const conflictedFiles = new Set<string>()
+  const conflictedCommits = new Array<ICommitConflictPrediction>()
+
+  // Resolved up front such that the cached steps don't depend on where a
+  // branch pointed to at the time
+  const ontoTree = await git(
+    ['rev-parse', `${onto}^{tree}`],
+    repository.path,
+    'predictCherryPickConflicts'
+  )
+  let tree = ontoTree.stdout.trim()
+
+  for (const commit of commits) {
+    if (signal?.aborted) {
+      return null
+    }
+
+    const result = await applyCommit(repository, commit, tree)
+
+    // The commit has no parent to apply it relative to
+    if (result === null) {
+      return null
+    }
+
+    if (result.conflictedFiles.length > 0) {
+      result.conflictedFiles.forEach(f => conflictedFiles.add(f))
+      conflictedCommits.push({
+        commit,
+        conflictedFiles: result.conflictedFiles,
+      })
+    }
+
+    tree = result.tree
+  }
+
+  return {
+    conflictedFiles: [...conflictedFiles],
+    commits: conflictedCommits,
+  }
+}
+
+/**
+ * Apply a commit on top of a tree in memory, returning the resulting tree and
+ * the files which conflicted, or null if the commit has no parent to apply it
+ * relative to.
+ */
+async function applyCommit(
+  repository: Repository,
+  commit: CommitOneLine,
+  tree: string
+): Promise<PredictedStep | null> {
+  const key = `${repository.path}\0${tree}\0${commit.sha}`
+  const cached = predictedSteps.get(key)
+
+  if (cached !== undefined) {
+    return cached
+  }
+
+  const commitTree = await git(
+    [
+      'commit-tree',
+      '-p',
+      `${commit.sha}^`,
+      '-m',
+      'Predict conflicts',
+      '--no-gpg-sign',
+      tree,
+    ],
+    repository.path,
+    'predictCherryPickConflicts',
+    { successExitCodes: new Set([0, 128]), env: predictionCommitEnv }
+  )
+
+  const result =
+    commitTree.exitCode === 128
+      ? null
+      : await mergeTrees(repository, commitTree.stdout.trim(), commit.sha)
+
+  predictedSteps.set(key, result)
+  return result
+}
+
+/**
+ * Predict the conflicts of squashing commits onto another commit, which
+ * replays the commits after the last retained commit with the commits being
+ * squashed moved next to the commit they're squashed onto.
+ *
+ * Returns null when the conflicts can't be predicted, such as when the squash
+ * includes the first commit of the branch.
+ *
+ * @param toSquash              The commits to squash, not including the
+ *                              commit they're squashed onto
+ * @param squashOnto            The commit to squash the commits onto
+ * @param lastRetainedCommitRef The commit before the commits being replayed,
+ *                              or null if they start at the root commit
+ */
+export async function predictSquashConflicts(
+  repository: Repository,
+  toSquash: ReadonlyArray<Commit>,
+  squashOnto: Commit,
+  lastRetainedCommitRef: string | null,
+  signal?: AbortSignal
+): Promise<IConflictPrediction | null> {
+  if (lastRetainedCommitRef === null) {
+    return null
+  }
+
+  const commits = await getCommits(
+    repository,
+    revRange(lastRetainedCommitRef, 'HEAD'),
+    MaxPredictedCommits + 1
+  )
+
+  if (commits.length > MaxPredictedCommits) {
+    return null
+  }
+
+  // Mirrors the order in which `squash` replays the commits, oldest first
+  const toSquashShas = new Set(toSquash.map(c => c.sha))
+  const before = new Array<Commit>()
+  const atSquash = new Array<Commit>()
+  const after = new Array<Commit>()
+  let foundSquashOnto = false
+
+  for (let i = commits.length - 1; i >= 0; i--) {
+    const commit = commits[i]
+
+    if (commit.sha === squashOnto.sha || toSquashShas.has(commit.sha)) {
+      foundSquashOnto = foundSquashOnto || commit.sha === squashOnto.sha
+      atSquash.push(commit)
+    } else if (foundSquashOnto) {
+      after.push(commit)
+    } else {
+      before.push(commit)
+    }
+  }
+
+  return foundSquashOnto
+    ? predictCherryPickConflicts(
+        repository,
+        [...before, ...atSquash, ...after],
+        lastRetainedCommitRef,
+        signal
+      )
+    : null
+}
@@ -89,6 +89,28 @@ export async function getMergeBase(
   return process.stdout.trim()
 }
 
+/**
+ * Check whether a commit is reachable from (i.e. an ancestor of) another
+ * commit-ish
+ *
+ * @returns false if the commit isn't an ancestor or if either commit-ish
+ *          cannot be resolved
+ */
+export async function isAncestor(
+  repository: Repository,
+  ancestor: string,
+  descendant: string
+): Promise<boolean> {
+  const { exitCode } = await git(
+    ['merge-base', '--is-ancestor', ancestor, descendant],
+    repository.path,
+    'isAncestor',
+    { successExitCodes: new Set([0, 1, 128]) }
+  )
+
+  return exitCode === 0
+}
+
 /**
  * Abort a mid-flight (conflicted) merge
  *
@@ -9,7 +9,12 @@ import {
 import { Repository } from '../../models/repository'
 import { IPushProgress } from '../../models/progress'
 import { IGitAccount } from '../../models/git-account'
-import { PushProgressParser, executionOptionsWithProgress } from '../progress'
+import {
+  PushProgressParser,
+  executionOptionsWithProgress,
+  executionOptionsWithHookProgress,
+  HookProgress,
+} from '../progress'
 import { AuthenticationErrors } from './authentication'
 import { IRemote } from '../../models/remote'
 import { envForRemoteOperation } from './environment'
@@ -47,6 +52,10 @@ export type PushOptions = {
  *                           of the push operation. When provided this enables
  *                           the '--progress' command line flag for
  *                           'git push'.
+ *
+ * @param hookProgressCallback - An optional function which will be invoked
+ *                               as the pre-push hook is started and writes
+ *                               output.
  */
 export async function push(
   repository: Repository,
@@ -58,7 +67,8 @@ export async function push(
   options: PushOptions = {
     forceWithLease: false,
   },
-  progressCallback?: (progress: IPushProgress) => void
+  progressCallback?: (progress: IPushProgress) => void,
+  hookProgressCallback?: (progress: HookProgress) => void
 ): Promise<void> {
   const args = [
     ...gitNetworkArguments(),
@@ -118,6 +128,10 @@ export async function push(
     })
   }
 
+  if (hookProgressCallback) {
+    opts = await executionOptionsWithHookProgress(opts, hookProgressCallback)
+  }
+
   const result = await git(args, repository.path, 'push', opts)
 
   if (result.gitErrorDescription) {
@@ -18,6 +18,7 @@ import { formatRebaseValue } from '../rebase'
 
 import {
   git,
+  GitError as GitCommandError,
   IGitResult,
   IGitExecutionOptions,
   gitRebaseArguments,
@@ -416,6 +417,56 @@ function parseRebaseResult(result: IGitResult): RebaseResult {
   throw new Error(`Unhandled result found: '${JSON.stringify(result)}'`)
 }
 
+/**
+ * Matches the warning Git prints when an `exec` line of an interactive rebase
+ * fails, capturing the command.
+ */
+const execFailedRe = /^warning: execution failed: (.+)$/m
+
+/**
+ * Run a Git command which starts or continues an interactive rebase and report
+ * back on the result.
+ *
+ * Unlike conflicts, Git doesn't leave a `REBASE_HEAD` behind when it stops for
+ * a failed `exec` line, which would leave the rebase in progress without the
+ * app noticing, so the rebase is aborted and an error thrown instead. Git also
+ * stops for an `edit` line but exits successfully, which we treat like
+ * conflicts so the user can amend the commit and continue the rebase.
+ */
+async function runInteractiveRebase(
+  repository: Repository,
+  args: ReadonlyArray<string>,
+  name: string,
+  options: IGitExecutionOptions
+): Promise<RebaseResult> {
+  let result: IGitResult
+
+  try {
+    result = await git([...args], repository.path, name, options)
+  } catch (e) {
+    const match =
+      e instanceof GitCommandError ? execFailedRe.exec(e.result.stderr) : null
+
+    if (match !== null) {
+      await abortRebase(repository)
+      throw new Error(
+        `The command \`${match[1]}\` failed so the rebase was aborted.`
+      )
+    }
+
+    throw e
+  }
+
+  if (
+    result.exitCode === 0 &&
+    (await pathExists(Path.join(repository.path, '.git', 'rebase-merge')))
+  ) {
+    return RebaseResult.ConflictsEncountered
+  }
+
+  return parseRebaseResult(result)
+}
+
 /**
  * Proceed with the current rebase operation and report back on whether it completed
  *
@@ -501,24 +552,20 @@ export async function continueRebase(
       `[rebase] no tracked changes to commit for ${rebaseCurrentCommit}, continuing rebase but skipping this commit`
     )
 
-    const result = await git(
+    return runInteractiveRebase(
+      repository,
       ['rebase', '--skip'],
-      repository.path,
       'continueRebaseSkipCurrentCommit',
       options
     )
-
-    return parseRebaseResult(result)
   }
 
-  const result = await git(
+  return runInteractiveRebase(
+    repository,
     ['rebase', '--continue'],
-    repository.path,
     'continueRebase',
     options
   )
-
-  return parseRebaseResult(result)
 }
 
 /**
@@ -570,7 +617,8 @@ export async function rebaseInteractive(
   using the sha thus if lastRetainedCommitRef is null (we couldn't define it),
   we must use the --root flag */
   const ref = lastRetainedCommitRef == null ? '--root' : lastRetainedCommitRef
-  const result = await git(
+  return runInteractiveRebase(
+    repository,
     [
       '-c',
       // This replaces interactive todo with contents of file at pathOfGeneratedTodo
@@ -579,10 +627,7 @@ export async function rebaseInteractive(
       '-i',
       ref,
     ],
-    repository.path,
     action,
     options
   )
-
-  return parseRebaseResult(result)
 }
@@ -1,5 +1,7 @@
 import { git } from './core'
 import { Repository } from '../../models/repository'
+import { IReflogEntry } from '../../models/reflog'
+import { createLogParser } from './git-delimiter-parser'
 
 /**
  * Get the `limit` most recently checked out branches.
@@ -125,3 +127,61 @@ export async function getBranchCheckouts(
 
   return checkouts
 }
+
+/** RegEx for splitting a reflog subject into action and description */
+const reflogSubjectRe = /^([^:]+): (.*)$/
+
+/** RegEx for extracting the timestamp from a reflog selector (`--date=unix`) */
+const reflogDateRe = /^(.+)@\{(\d+)\}$/
+
+/**
+ * Get the most recent entries in the reflog of the given ref, which record
+ * the commits it pointed to over time, even ones which are no longer
+ * reachable from any branch.
+ *
+ * @param ref   The ref to get the reflog of, i.e. `HEAD` or `refs/heads/main`
+ * @param limit The maximum number of entries to return
+ */
+export async function getReflogEntries(
+  repository: Repository,
+  ref: string = 'HEAD',
+  limit: number = 500
+): Promise<ReadonlyArray<IReflogEntry>> {
+  const { formatArgs, parse } = createLogParser({
+    // With --date the selector contains the date of the entry rather than its
+    // index, i.e. `HEAD@{1700000000}`. We reconstruct the index ourselves.
+    dateSelector: '%gd',
+    sha: '%H',
+    subject: '%gs',
+    summary: '%s',
+  })
+
+  const result = await git(
+    ['log', '-g', '--date=unix', ...formatArgs, `-n${limit}`, ref, '--'],
+    repository.path,
+    'getReflogEntries',
+    // The ref doesn't have a reflog, i.e. in an unborn repository
+    { successExitCodes: new Set([0, 128]) }
+  )
+
+  if (result.exitCode === 128) {
+    return []
+  }
+
+  return parse(result.stdout).map(
+    ({ dateSelector, sha, subject, summary }, index) => {
+      const dateMatch = reflogDateRe.exec(dateSelector)
+      const subjectMatch = reflogSubjectRe.exec(subject)
+      const name = dateMatch?.[1] ?? ref
+
+      return {
+        selector: `${name}@{${index}}`,
+        sha,
+        action: subjectMatch?.[1] ?? '',
+        description: subjectMatch?.[2] ?? subject,
+        date: new Date(parseInt(dateMatch?.[2] ?? '0', 10) * 1000),
+        summary,
+      }
+    }
+  )
+}
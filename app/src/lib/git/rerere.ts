@@ -0,0 +1,186 @@
+import * as Path from 'path'
+import { git } from './core'
+import { getBooleanConfigValue, setConfigValue } from './config'
+import { Repository } from '../../models/repository'
+import { pathExists } from '../../ui/lib/path-exists'
+
+/** Whether the given path in the git directory exists */
+async function gitPathExists(
+  repository: Repository,
+  path: string
+): Promise<boolean> {
+  const { stdout } = await git(
+    ['rev-parse', '--git-path', path],
+    repository.path,
+    'gitPathExists'
+  )
+
+  return pathExists(Path.resolve(repository.path, stdout.trim()))
+}
+
+/**
+ * Whether Git records how conflicts are resolved in the repository and reuses
+ * those resolutions when the same conflicts come up again (`rerere`).
+ *
+ * Like Git, rerere is considered enabled when `rerere.enabled` isn't set but
+ * the repository has an `rr-cache` directory for the recorded resolutions.
+ */
+export async function isRerereEnabled(
+  repository: Repository
+): Promise<boolean> {
+  const enabled = await getBooleanConfigValue(repository, 'rerere.enabled')
+  return enabled ?? (await gitPathExists(repository, 'rr-cache'))
+}
+
+/** Turn reusing recorded conflict resolutions on or off in the repository. */
+export function setRerereEnabled(
+  repository: Repository,
+  enabled: boolean
+): Promise<void> {
+  return setConfigValue(
+    repository,
+    'rerere.enabled',
+    enabled ? 'true' : 'false'
+  )
+}
+
+/**
+ * Whether Git stages the files it resolves using a recorded resolution
+ * (`rerere.autoUpdate`) instead of leaving them conflicted in the index.
+ */
+export async function isRerereAutoUpdateEnabled(
+  repository: Repository
+): Promise<boolean> {
+  return (await getBooleanConfigValue(repository, 'rerere.autoUpdate')) === true
+}
+
+/**
+ * Get the conflicted paths which Git is recording a resolution for, or null
+ * if rerere isn't enabled in the repository.
+ */
+export async function getRerereStatus(
+  repository: Repository
+): Promise<ReadonlySet<string> | null> {
+  if (!(await isRerereEnabled(repository))) {
+    return null
+  }
+
+  const { stdout } = await git(
+    ['rerere', 'status'],
+    repository.path,
+    'getRerereStatus'
+  )
+
+  return new Set(stdout.split('\n').filter(x => x.length > 0))
+}
+
+/**
+ * Whether rerere has looked at the conflicts of the current merge, rebase or
+ * cherry-pick. It keeps track of the conflicts it hasn't resolved in a
+ * `MERGE_RR` file in the git directory, which is written even when it's
+ * resolved them all.
+ */
+function hasRerereRun(repository: Repository): Promise<boolean> {
+  return gitPathExists(repository, 'MERGE_RR')
+}
+
+/** Split the NUL separated output of a Git command into a set of paths */
+function parsePaths(stdout: string) {
+  return new Set(stdout.split('\0').filter(x => x.length > 0))
+}
+
+/**
+ * Get the paths of the conflicted files Git resolved using a previously
+ * recorded resolution, or null if rerere isn't enabled in the repository.
+ *
+ * Unless `rerere.autoUpdate` is set those files are left conflicted in the
+ * index and rerere leaves them out of the paths it reports as `remaining`.
+ * When it is set the files are staged instead, so they're the ones which had
+ * conflicts (as recorded in the index' resolve-undo information) that rerere
+ * isn't waiting to record a resolution for, as it is for the files staged by
+ * the user.
+ */
+export async function getRecordedResolutionPaths(
+  repository: Repository
+): Promise<ReadonlySet<string> | null> {
+  if (!(await isRerereEnabled(repository))) {
+    return null
+  }
+
+  if (!(await hasRerereRun(repository))) {
+    return new Set()
+  }
+
+  const [unmerged, remaining] = await Promise.all([
+    git(
+      ['diff', '--name-only', '--diff-filter=U', '-z'],
+      repository.path,
+      'getUnmergedPaths'
+    ),
+    git(['rerere', 'remaining'], repository.path, 'getRerereRemaining'),
+  ])
+
+  const remainingPaths = new Set(
+    remaining.stdout.split('\n').filter(x => x.length > 0)
+  )
+  const paths = [...parsePaths(unmerged.stdout)].filter(
+    p => !remainingPaths.has(p)
+  )
+
+  if (await isRerereAutoUpdateEnabled(repository)) {
+    const [resolveUndo, status] = await Promise.all([
+      git(
+        ['ls-files', '--resolve-undo', '-z'],
+        repository.path,
+        'getResolveUndoPaths'
+      ),
+      getRerereStatus(repository),
+    ])
+
+    // Entries are written as `<mode> <object> <stage>\t<path>`, one per
+    // stage. Only files which had both our and their version are ones rerere
+    // can have resolved.
+    const stagesByPath = new Map<string, Set<string>>()
+    for (const entry of resolveUndo.stdout.split('\0')) {
+      const match = /^\d+ [0-9a-f]+ (\d)\t(.+)$/.exec(entry)
+      if (match !== null) {
+        const stages = stagesByPath.get(match[2]) ?? new Set()
+        stagesByPath.set(match[2], stages.add(match[1]))
+      }
+    }
+
+    for (const [path, stages] of stagesByPath) {
+      if (stages.has('2') && stages.has('3') && !status?.has(path)) {
+        paths.push(path)
+      }
+    }
+  }
+
+  return new Set(paths)
+}
+
+/**
+ * Forget the recorded resolution used for a conflicted file and restore the
+ * conflict markers in it, so that the user can resolve it again. The new
+ * resolution is recorded in place of the forgotten one.
+ *
+ * @param repository - The repository in which the conflict is
+ * @param path       - The path of the conflicted file, relative to the root
+ *                     of the repository
+ */
+export async function forgetRecordedResolution(
+  repository: Repository,
+  path: string
+): Promise<void> {
+  await git(
+    ['rerere', 'forget', '--', path],
+    repository.path,
+    'forgetRecordedResolution'
+  )
+
+  await git(
+    ['checkout', '--merge', '--', path],
+    repository.path,
+    'forgetRecordedResolution'
+  )
+}
@@ -134,10 +134,14 @@ export async function getCommitsBetweenCommits(
  * Get a list of commits inside the provided range.
  *
  * Returns `null` when it is not possible to perform because of a bad range.
+ *
+ * @param additionalArgs Additional arguments for `git rev-list`, such as
+ *                       `--no-merges`
  */
 export async function getCommitsInRange(
   repository: Repository,
-  range: string
+  range: string,
+  additionalArgs: ReadonlyArray<string> = []
 ): Promise<ReadonlyArray<CommitOneLine> | null> {
   const args = [
     'rev-list',
@@ -147,6 +151,7 @@ export async function getCommitsInRange(
     // will contain the full commit sha and a commit summary
     `--oneline`,
     `--no-abbrev-commit`,
+    ...additionalArgs,
     '--',
   ]
 
@@ -182,3 +187,47 @@ export async function getCommitsInRange(
 
   return commits
 }
+
+/**
+ * Sort commits in the order they were made, oldest first, which is the order
+ * they're applied in when cherry-picking them. Commits which don't share any
+ * history with the others are left in the order they were given in.
+ */
+export async function sortCommitsByHistory<T extends CommitOneLine>(
+  repository: Repository,
+  commits: ReadonlyArray<T>
+): Promise<ReadonlyArray<T>> {
+  if (commits.length < 2) {
+    return commits
+  }
+
+  const shas = commits.map(c => c.sha)
+  const mergeBase = await git(
+    ['merge-base', '--octopus', ...shas],
+    repository.path,
+    'sortCommitsByHistory',
+    { successExitCodes: new Set([0, 1]) }
+  )
+
+  if (mergeBase.exitCode === 1) {
+    return commits
+  }
+
+  // Only walk the commits between the oldest common ancestor of the commits,
+  // which may be one of them, and the commits themselves.
+  const base = mergeBase.stdout.trim()
+  const result = await git(
+    ['rev-list', '--topo-order', '--reverse', ...shas, '--not', `${base}^@`],
+    repository.path,
+    'sortCommitsByHistory'
+  )
+
+  const indexBySha = new Map(
+    result.stdout.split('\n').map((sha, i) => [sha, i])
+  )
+
+  return [...commits].sort(
+    (a, b) =>
+      (indexBySha.get(a.sha) ?? Infinity) - (indexBySha.get(b.sha) ?? Infinity)
+  )
+}
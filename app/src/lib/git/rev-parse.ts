@@ -1,6 +1,7 @@
 import { git } from './core'
 import { directoryExists } from '../directory-exists'
 import { resolve } from 'path'
+import { Repository } from '../../models/repository'
 
 export type RepositoryType =
   | { kind: 'bare' }
@@ -56,3 +57,23 @@ export async function getRepositoryType(path: string): Promise<RepositoryType> {
     throw err
   }
 }
+
+/**
+ * Resolve a ref, i.e. a branch, a tag, a stash or an abbreviated SHA, to the
+ * SHA of the commit it points to.
+ *
+ * Returns null if the ref doesn't exist or doesn't point to a commit.
+ */
+export async function resolveCommitish(
+  repository: Repository,
+  ref: string
+): Promise<string | null> {
+  const result = await git(
+    ['rev-parse', '--verify', '--quiet', '--end-of-options', `${ref}^{commit}`],
+    repository.path,
+    'resolveCommitish',
+    { successExitCodes: new Set([0, 1, 128]) }
+  )
+
+  return result.exitCode === 0 ? result.stdout.trim() : null
+}
@@ -0,0 +1,301 @@
+import { git } from './core'
+import { Repository } from '../../models/repository'
+import { ISigningConfig, SigningFormat } from '../../models/signing'
+import { CommitSignatureStatus } from '../../models/commit'
+
+/** The Git config keys making up the signing configuration */
+const SigningConfigKeys = {
+  signCommits: 'commit.gpgsign',
+  signTags: 'tag.gpgsign',
+  format: 'gpg.format',
+  signingKey: 'user.signingkey',
+}
+
+/**
+ * Read the signing related config values
+ *
+ * @param path  The path to execute the `git` command in. If null we'll read
+ *              the global configuration (i.e. --global).
+ * @param scope Whether to read the effective configuration of the
+ *              repository or only the values in the repository's own config.
+ */
+async function readSigningConfigValues(
+  path: string | null,
+  scope: 'effective' | 'local' = 'effective'
+): Promise<Map<string, string>> {
+  const args = ['config', '-z']
+
+  if (path === null) {
+    args.push('--global')
+  } else if (scope === 'local') {
+    args.push('--local')
+  }
+
+  const pattern = Object.values(SigningConfigKeys)
+    .map(key => key.replace('.', '\\.'))
+    .join('|')
+
+  args.push('--get-regexp', `^(${pattern})$`)
+
+  const { stdout, exitCode } = await git(
+    args,
+    path ?? __dirname,
+    'readSigningConfigValues',
+    // Git exits with 1 when none of the values are set
+    { successExitCodes: new Set([0, 1]) }
+  )
+
+  const values = new Map<string, string>()
+
+  if (exitCode === 1) {
+    return values
+  }
+
+  // With -z each entry is the key and the value separated by a newline.
+  // Later entries take precedence, just like they do for Git itself.
+  for (const entry of stdout.split('\0')) {
+    const separatorIndex = entry.indexOf('\n')
+
+    if (separatorIndex === -1) {
+      // Keys without a value (i.e. `[commit] gpgsign`) are booleans set to
+      // true, everything else is the trailing empty entry
+      if (entry.length > 0) {
+        values.set(entry.toLowerCase(), 'true')
+      }
+    } else {
+      values.set(
+        entry.substring(0, separatorIndex).toLowerCase(),
+        entry.substring(separatorIndex + 1)
+      )
+    }
+  }
+
+  return values
+}
+
+/** Interpret a config value as a boolean as per Git's own definition */
+function parseBooleanConfigValue(value: string | undefined) {
+  return (
+    value !== undefined &&
+    ['true', 'yes', 'on', '1'].includes(value.trim().toLowerCase())
+  )
+}
+
+function parseSigningFormat(value: string | undefined) {
+  switch (value?.trim().toLowerCase()) {
+    case SigningFormat.SSH:
+      return SigningFormat.SSH
+    case SigningFormat.X509:
+      return SigningFormat.X509
+    default:
+      return SigningFormat.OpenPGP
+  }
+}
+
+function toSigningConfig(values: Map<string, string>): ISigningConfig {
+  return {
+    signCommits: parseBooleanConfigValue(
+      values.get(SigningConfigKeys.signCommits)
+    ),
+    signTags: parseBooleanConfigValue(values.get(SigningConfigKeys.signTags)),
+    format: parseSigningFormat(values.get(SigningConfigKeys.format)),
+    signingKey: values.get(SigningConfigKeys.signingKey) ?? '',
+  }
+}
+
+/**
+ * Get the signing configuration in effect for the given repository, taking
+ * both the global and the repository's own config into account.
+ */
+export async function getSigningConfig(
+  repository: Repository
+): Promise<ISigningConfig> {
+  return toSigningConfig(await readSigningConfigValues(repository.path))
+}
+
+/** Get the signing configuration from the global Git config. */
+export async function getGlobalSigningConfig(): Promise<ISigningConfig> {
+  return toSigningConfig(await readSigningConfigValues(null))
+}
+
+/**
+ * Get the signing configuration stored in the repository's own config, or
+ * null if the repository doesn't override any of the global settings.
+ */
+export async function getLocalSigningConfig(
+  repository: Repository
+): Promise<ISigningConfig | null> {
+  const values = await readSigningConfigValues(repository.path, 'local')
+  return values.size === 0 ? null : toSigningConfig(values)
+}
+
+async function writeSigningConfig(
+  path: string | null,
+  config: Partial<ISigningConfig>
+) {
+  const scope = path === null ? ['--global'] : []
+  const name = 'writeSigningConfig'
+  const cwd = path ?? __dirname
+
+  const values: ReadonlyArray<[string, string | undefined]> = [
+    [SigningConfigKeys.signCommits, config.signCommits?.toString()],
+    [SigningConfigKeys.signTags, config.signTags?.toString()],
+    [SigningConfigKeys.format, config.format],
+    [SigningConfigKeys.signingKey, config.signingKey],
+  ]
+
+  for (const [key, value] of values) {
+    if (value === undefined) {
+      continue
+    }
+
+    if (value.length > 0) {
+      await git(['config', ...scope, '--replace-all', key, value], cwd, name)
+    } else {
+      await git(
+        ['config', ...scope, '--unset-all', key],
+        cwd,
+        name,
+        // Git exits with 5 when the value isn't set to begin with
+        { successExitCodes: new Set([0, 5]) }
+      )
+    }
+  }
+}
+
+/**
+ * Store the given signing settings in the repository's own config, leaving
+ * the settings which aren't given alone.
+ */
+export function setSigningConfig(
+  repository: Repository,
+  config: Partial<ISigningConfig>
+): Promise<void> {
+  return writeSigningConfig(repository.path, config)
+}
+
+/**
+ * Get the signing settings which differ between the two configurations, i.e.
+ * the ones the user changed.
+ */
+export function getChangedSigningConfig(
+  from: ISigningConfig,
+  to: ISigningConfig
+): Partial<ISigningConfig> {
+  const changes: { -readonly [K in keyof ISigningConfig]?: ISigningConfig[K] } =
+    {}
+
+  if (from.signCommits !== to.signCommits) {
+    changes.signCommits = to.signCommits
+  }
+
+  if (from.signTags !== to.signTags) {
+    changes.signTags = to.signTags
+  }
+
+  if (from.format !== to.format) {
+    changes.format = to.format
+  }
+
+  if (from.signingKey !== to.signingKey) {
+    changes.signingKey = to.signingKey
+  }
+
+  return changes
+}
+
+/**
+ * Store the given signing settings in the global Git config, leaving the
+ * settings which aren't given alone.
+ */
+export function setGlobalSigningConfig(
+  config: Partial<ISigningConfig>
+): Promise<void> {
+  return writeSigningConfig(null, config)
+}
+
+/**
+ * Remove all signing settings from the repository's own config such that the
+ * global settings apply.
+ */
+export async function removeLocalSigningConfig(
+  repository: Repository
+): Promise<void> {
+  for (const key of Object.values(SigningConfigKeys)) {
+    await git(
+      ['config', '--local', '--unset-all', key],
+      repository.path,
+      'removeLocalSigningConfig',
+      // Git exits with 5 when the value isn't set to begin with
+      { successExitCodes: new Set([0, 5]) }
+    )
+  }
+}
+
+/**
+ * Verify the signatures of the given commits, returning their statuses keyed
+ * by commit SHA.
+ *
+ * This runs gpg or ssh-keygen for signed commits, so it should only be done
+ * for the commits the user is looking at rather than for the whole history.
+ */
+export async function getCommitSignatureStatuses(
+  repository: Repository,
+  commitishes: ReadonlyArray<string>
+): Promise<ReadonlyMap<string, CommitSignatureStatus>> {
+  const statuses = new Map<string, CommitSignatureStatus>()
+
+  if (commitishes.length === 0) {
+    return statuses
+  }
+
+  const { stdout } = await git(
+    ['log', '--no-walk=unsorted', '--format=%H %G?', ...commitishes, '--'],
+    repository.path,
+    'getCommitSignatureStatuses'
+  )
+
+  const knownStatuses: ReadonlyArray<string> = Object.values(
+    CommitSignatureStatus
+  )
+
+  for (const line of stdout.split('\n')) {
+    const [sha, status] = line.split(' ')
+
+    if (sha !== undefined && sha.length > 0) {
+      // Treat anything we don't recognize as unsigned
+      statuses.set(
+        sha,
+        knownStatuses.includes(status)
+          ? (status as CommitSignatureStatus)
+          : CommitSignatureStatus.None
+      )
+    }
+  }
+
+  return statuses
+}
+
+/**
+ * Get the arguments to pass to `tag` in order to sign annotated tags
+ * according to the repository's signing configuration.
+ *
+ * @param sign Whether to sign the tag regardless of the `tag.gpgsign`
+ *             setting. When undefined the setting decides.
+ */
+export async function getTagSigningArgs(
+  repository: Repository,
+  sign?: boolean
+): Promise<ReadonlyArray<string>> {
+  const { signTags, signingKey } = await getSigningConfig(repository)
+
+  if (sign === false) {
+    return signTags ? ['--no-sign'] : []
+  }
+
+  if (!signTags && sign !== true) {
+    return []
+  }
+
+  return signingKey.length > 0 ? ['--local-user', signingKey] : ['--sign']
+}
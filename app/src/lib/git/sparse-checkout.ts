@@ -0,0 +1,112 @@
+import { git, gitNetworkArguments } from './core'
+import { getConfigValue } from './config'
+import { Repository } from '../../models/repository'
+import { IGitAccount } from '../../models/git-account'
+import {
+  envForRemoteOperation,
+  getFallbackUrlForProxyResolve,
+} from './environment'
+
+/**
+ * Get the directories checked out in a sparse checkout, or null if the
+ * repository isn't using sparse checkout.
+ *
+ * Note that the top-level files of the repository are always checked out in
+ * cone mode so an empty list means only those are present.
+ */
+export async function getSparseCheckoutPaths(
+  repository: Repository
+): Promise<ReadonlyArray<string> | null> {
+  const sparseCheckout = await getConfigValue(repository, 'core.sparseCheckout')
+
+  if (sparseCheckout?.toLowerCase() !== 'true') {
+    return null
+  }
+
+  const { stdout } = await git(
+    ['sparse-checkout', 'list'],
+    repository.path,
+    'getSparseCheckoutPaths'
+  )
+
+  return stdout.split('\n').filter(x => x.length > 0)
+}
+
+/**
+ * Enable cone mode sparse checkout, if needed, and update the working
+ * directory such that only the given directories (and the top-level files)
+ * are checked out.
+ *
+ * @param repository - The repository to update
+ * @param account    - The account to use when the contents of newly checked
+ *                     out files have to be fetched, as is the case in a
+ *                     partial clone.
+ * @param paths      - The directories, relative to the root of the
+ *                     repository, to check out.
+ */
+export async function setSparseCheckoutPaths(
+  repository: Repository,
+  account: IGitAccount | null,
+  paths: ReadonlyArray<string>
+): Promise<void> {
+  // Paths are passed on stdin so that we don't have to worry about paths
+  // which could be mistaken for arguments.
+  await git(
+    [...gitNetworkArguments(), 'sparse-checkout', 'set', '--cone', '--stdin'],
+    repository.path,
+    'setSparseCheckoutPaths',
+    {
+      stdin: paths.join('\n'),
+      env: await envForRemoteOperation(
+        account,
+        getFallbackUrlForProxyResolve(account, repository)
+      ),
+    }
+  )
+}
+
+/**
+ * Turn off sparse checkout, checking out all files in the repository.
+ *
+ * @param account - The account to use when the contents of newly checked out
+ *                  files have to be fetched, as is the case in a partial
+ *                  clone.
+ */
+export async function disableSparseCheckout(
+  repository: Repository,
+  account: IGitAccount | null
+): Promise<void> {
+  await git(
+    [...gitNetworkArguments(), 'sparse-checkout', 'disable'],
+    repository.path,
+    'disableSparseCheckout',
+    {
+      env: await envForRemoteOperation(
+        account,
+        getFallbackUrlForProxyResolve(account, repository)
+      ),
+    }
+  )
+}
+
+/**
+ * Get the directories at the root of the repository as of the current
+ * commit, regardless of whether they're checked out or not.
+ */
+export async function getTopLevelDirectories(
+  repository: Repository
+): Promise<ReadonlyArray<string>> {
+  const { stdout, exitCode } = await git(
+    ['ls-tree', '-d', '--name-only', '-z', 'HEAD'],
+    repository.path,
+    'getTopLevelDirectories',
+    // An unborn HEAD doesn't have any directories
+    { successExitCodes: new Set([0, 128]) }
+  )
+
+  if (exitCode === 128) {
+    return []
+  }
+
+  return stdout.split('\0').filter(x => x.length > 0)
+}
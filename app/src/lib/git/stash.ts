@@ -12,6 +12,7 @@ import {
 } from '../../models/status'
 import { parseRawLogWithNumstat } from './log'
 import { stageFiles } from './update-index'
+import { unstageAll } from './reset'
 import { Branch } from '../../models/branch'
 import { createLogParser } from './git-delimiter-parser'
 
@@ -25,10 +26,22 @@ export const DesktopStashEntryMarker = '!!GitHub_Desktop'
  */
 const desktopStashEntryMessageRe = /!!GitHub_Desktop<(.+)>$/
 
+/**
+ * RegEx for extracting the branch name from the message of a stash entry,
+ * i.e. `On main: message` or `WIP on main: 1a2b3c4 Commit summary`
+ */
+const stashEntryBranchRe = /^(?:WIP on|On) ([^:]+): /
+
 type StashResult = {
   /** The stash entries created by Desktop */
   readonly desktopEntries: ReadonlyArray<IStashEntry>
 
+  /**
+   * All stash entries in the repository, regardless of whether they were
+   * created by Desktop or not.
+   */
+  readonly entries: ReadonlyArray<IStashEntry>
+
   /**
    * The total amount of stash entries,
    * i.e. stash entries created both by Desktop and outside of Desktop
@@ -37,9 +50,9 @@ type StashResult = {
 }
 
 /**
- * Get the list of stash entries created by Desktop in the current repository
- * using the default ordering of refs (which is LIFO ordering),
- * as well as the total amount of stash entries.
+ * Get the list of stash entries in the current repository using the default
+ * ordering of refs (which is LIFO ordering), both in total and limited to
+ * those created by Desktop.
  */
 export async function getStashes(repository: Repository): Promise<StashResult> {
   const { formatArgs, parse } = createLogParser({
@@ -48,6 +61,7 @@ export async function getStashes(repository: Repository): Promise<StashResult> {
     message: '%gs',
     tree: '%T',
     parents: '%P',
+    createdAt: '%ct',
   })
 
   const result = await git(
@@ -60,30 +74,42 @@ export async function getStashes(repository: Repository): Promise<StashResult> {
   // There's no refs/stashes reflog in the repository or it's not
   // even a repository. In either case we don't care
   if (result.exitCode === 128) {
-    return { desktopEntries: [], stashEntryCount: 0 }
+    return { desktopEntries: [], entries: [], stashEntryCount: 0 }
   }
 
   const desktopEntries: Array<IStashEntry> = []
+  const entries: Array<IStashEntry> = []
   const files: StashedFileChanges = { kind: StashedChangesLoadStates.NotLoaded }
 
-  const entries = parse(result.stdout)
+  const parsed = parse(result.stdout)
+
+  for (const { name, message, stashSha, tree, parents, createdAt } of parsed) {
+    const desktopBranchName = extractBranchFromMessage(message)
+    const entry: IStashEntry = {
+      name,
+      stashSha,
+      branchName:
+        desktopBranchName ?? stashEntryBranchRe.exec(message)?.[1] ?? '',
+      message,
+      createdAt: new Date(parseInt(createdAt, 10) * 1000),
+      tree,
+      parents: parents.length > 0 ? parents.split(' ') : [],
+      files,
+    }
 
-  for (const { name, message, stashSha, tree, parents } of entries) {
-    const branchName = extractBranchFromMessage(message)
+    entries.push(entry)
 
-    if (branchName !== null) {
-      desktopEntries.push({
-        name,
-        stashSha,
-        branchName,
-        tree,
-        parents: parents.length > 0 ? parents.split(' ') : [],
-        files,
-      })
+    if (desktopBranchName !== null) {
+      desktopEntries.push(entry)
     }
   }
 
-  return { desktopEntries, stashEntryCount: entries.length - 1 }
+  return { desktopEntries, entries, stashEntryCount: parsed.length - 1 }
+}
+
+/** Whether the given stash entry was created by Desktop */
+export function isDesktopStashEntry(entry: IStashEntry) {
+  return extractBranchFromMessage(entry.message) !== null
 }
 
 /**
@@ -188,13 +214,18 @@ export async function createDesktopStashEntry(
   return true
 }
 
-async function getStashEntryMatchingSha(repository: Repository, sha: string) {
+async function getStashEntryMatchingSha(
+  repository: Repository,
+  sha: string,
+  desktopEntriesOnly: boolean = true
+) {
   const stash = await getStashes(repository)
-  return stash.desktopEntries.find(e => e.stashSha === sha) || null
+  const entries = desktopEntriesOnly ? stash.desktopEntries : stash.entries
+  return entries.find(e => e.stashSha === sha) || null
 }
 
 /**
- * Removes the given stash entry if it exists
+ * Removes the given stash entry created by Desktop if it exists
  *
  * @param stashSha the SHA that identifies the stash entry
  */
@@ -210,6 +241,25 @@ export async function dropDesktopStashEntry(
   }
 }
 
+/**
+ * Removes the given stash entry if it exists, regardless of whether it was
+ * created by Desktop or not.
+ *
+ * @param stashSha the SHA that identifies the stash entry
+ */
+export async function dropStashEntry(repository: Repository, stashSha: string) {
+  const entryToDelete = await getStashEntryMatchingSha(
+    repository,
+    stashSha,
+    false
+  )
+
+  if (entryToDelete !== null) {
+    const args = ['stash', 'drop', entryToDelete.name]
+    await git(args, repository.path, 'dropStashEntry')
+  }
+}
+
 /**
  * Pops the stash entry identified by matching `stashSha` to its commit hash.
  *
@@ -225,7 +275,7 @@ export async function popStashEntry(
   // implementing the stash conflict flow
   const expectedErrors = new Set<DugiteError>([DugiteError.MergeConflicts])
   const successExitCodes = new Set<number>([0, 1])
-  const stashToPop = await getStashEntryMatchingSha(repository, stashSha)
+  const stashToPop = await getStashEntryMatchingSha(repository, stashSha, false)
 
   if (stashToPop !== null) {
     const args = ['stash', 'pop', '--quiet', `${stashToPop.name}`]
@@ -247,11 +297,103 @@ export async function popStashEntry(
         `[popStashEntry] a stash was popped successfully but exit code ${result.exitCode} reported.`
       )
       // bye bye
-      await dropDesktopStashEntry(repository, stashSha)
+      await dropStashEntry(repository, stashSha)
     }
   }
 }
 
+/**
+ * Applies the stash entry identified by matching `stashSha` to its commit
+ * hash to the working directory without removing it from the stash.
+ */
+export async function applyStashEntry(
+  repository: Repository,
+  stashSha: string
+): Promise<void> {
+  const stashToApply = await getStashEntryMatchingSha(
+    repository,
+    stashSha,
+    false
+  )
+
+  if (stashToApply === null) {
+    return
+  }
+
+  const args = ['stash', 'apply', '--quiet', stashToApply.name]
+  const result = await git(args, repository.path, 'applyStashEntry', {
+    expectedErrors: new Set<DugiteError>([DugiteError.MergeConflicts]),
+    successExitCodes: new Set<number>([0, 1]),
+  })
+
+  // Applying a stash which conflicts with the working directory reports
+  // an exit code of `1` while leaving the conflicts to be resolved, see
+  // popStashEntry.
+  if (result.exitCode === 1 && result.stderr.length > 0) {
+    throw new GitError(result, args)
+  }
+}
+
+/**
+ * Create a new branch starting at the commit the given stash entry was
+ * created on, check it out and pop the stash entry onto it.
+ *
+ * This is useful when the stashed changes no longer apply cleanly on the
+ * branch they were created on.
+ */
+export async function createBranchFromStashEntry(
+  repository: Repository,
+  branchName: string,
+  stashSha: string
+): Promise<void> {
+  const entry = await getStashEntryMatchingSha(repository, stashSha, false)
+
+  if (entry === null) {
+    throw new Error(`Could not find stash entry ${stashSha}`)
+  }
+
+  await git(
+    ['stash', 'branch', branchName, entry.name],
+    repository.path,
+    'createBranchFromStashEntry'
+  )
+}
+
+/**
+ * Stash the selected changes (including partially selected files) in the
+ * working directory, leaving all other changes in place.
+ *
+ * Unlike the entries created by `createDesktopStashEntry` there can be any
+ * number of these for a given branch and they aren't restored automatically
+ * when switching branches.
+ *
+ * @param message The message to identify the entry by. When empty Git
+ *                will describe the entry using the current commit.
+ * @param files   The files to stash, along with the lines selected in them.
+ * @returns       Whether a stash entry was created, false if there were no
+ *                changes to stash.
+ */
+export async function createStashEntry(
+  repository: Repository,
+  message: string,
+  files: ReadonlyArray<WorkingDirectoryFileChange>
+): Promise<boolean> {
+  // We stage the selected changes just like we do when committing and then
+  // have Git stash only what's in the index.
+  await unstageAll(repository)
+  await stageFiles(repository, files)
+
+  const args = ['stash', 'push', '--staged']
+
+  if (message.trim().length > 0) {
+    args.push('-m', message.trim())
+  }
+
+  const { stdout } = await git(args, repository.path, 'createStashEntry')
+
+  return stdout !== 'No local changes to save\n'
+}
+
 function extractBranchFromMessage(message: string): string | null {
   const match = desktopStashEntryMessageRe.exec(message)
   return match === null || match[1].length === 0 ? null : match[1]
@@ -10,6 +10,7 @@ import {
   UnmergedEntry,
   ConflictedFileStatus,
   UnmergedEntrySummary,
+  ConflictsWithMarkers,
 } from '../../models/status'
 import {
   parsePorcelainStatus,
@@ -28,6 +29,7 @@ import { getBinaryPaths } from './diff'
 import { getRebaseInternalState } from './rebase'
 import { RebaseInternalState } from '../../models/rebase'
 import { isCherryPickHeadFound } from './cherry-pick'
+import { getRecordedResolutionPaths } from './rerere'
 
 /**
  * V8 has a limit on the size of string it can create (~256MB), and unless we want to
@@ -86,6 +88,32 @@ interface IStatusHeadersData {
 type ConflictFilesDetails = {
   conflictCountsByPath: ReadonlyMap<string, number>
   binaryFilePaths: ReadonlyArray<string>
+  /**
+   * The conflicted paths Git resolved using a recorded resolution, or null if
+   * rerere isn't enabled or the conflicts aren't from a merge, rebase or
+   * cherry-pick.
+   */
+  recordedResolutionPaths?: ReadonlySet<string> | null
+}
+
+function parseConflictsWithMarkers(
+  entry: ConflictsWithMarkers['entry'],
+  path: string,
+  conflictDetails: ConflictFilesDetails
+): ConflictsWithMarkers {
+  const conflictMarkerCount =
+    conflictDetails.conflictCountsByPath.get(path) || 0
+
+  if (conflictDetails.recordedResolutionPaths?.has(path) === true) {
+    return {
+      kind: AppFileStatusKind.Conflicted,
+      entry,
+      conflictMarkerCount,
+      usedRecordedResolution: true,
+    }
+  }
+
+  return { kind: AppFileStatusKind.Conflicted, entry, conflictMarkerCount }
 }
 
 function parseConflictedState(
@@ -97,12 +125,7 @@ function parseConflictedState(
     case UnmergedEntrySummary.BothAdded: {
       const isBinary = conflictDetails.binaryFilePaths.includes(path)
       if (!isBinary) {
-        return {
-          kind: AppFileStatusKind.Conflicted,
-          entry,
-          conflictMarkerCount:
-            conflictDetails.conflictCountsByPath.get(path) || 0,
-        }
+        return parseConflictsWithMarkers(entry, path, conflictDetails)
       } else {
         return {
           kind: AppFileStatusKind.Conflicted,
@@ -113,12 +136,7 @@ function parseConflictedState(
     case UnmergedEntrySummary.BothModified: {
       const isBinary = conflictDetails.binaryFilePaths.includes(path)
       if (!isBinary) {
-        return {
-          kind: AppFileStatusKind.Conflicted,
-          entry,
-          conflictMarkerCount:
-            conflictDetails.conflictCountsByPath.get(path) || 0,
-        }
+        return parseConflictsWithMarkers(entry, path, conflictDetails)
       } else {
         return {
           kind: AppFileStatusKind.Conflicted,
@@ -140,6 +158,27 @@ function convertToAppStatus(
   conflictDetails: ConflictFilesDetails,
   oldPath?: string
 ): AppFileStatus {
+  if (
+    entry.kind === 'ordinary' &&
+    entry.index === GitStatusEntry.Modified &&
+    conflictDetails.recordedResolutionPaths?.has(path) === true
+  ) {
+    // With `rerere.autoUpdate` set Git stages the files it resolves using a
+    // recorded resolution, but they're still listed with the conflicted files
+    // so that the user can review the resolution or forget it.
+    return parseConflictsWithMarkers(
+      {
+        kind: 'conflicted',
+        action: UnmergedEntrySummary.BothModified,
+        us: GitStatusEntry.UpdatedButUnmerged,
+        them: GitStatusEntry.UpdatedButUnmerged,
+        submoduleStatus: entry.submoduleStatus,
+      },
+      path,
+      conflictDetails
+    )
+  }
+
   if (entry.kind === 'ordinary') {
     switch (entry.type) {
       case 'added':
@@ -233,12 +272,14 @@ export async function getStatus(
     e => conflictStatusCodes.indexOf(e.statusCode) > -1
   )
   const rebaseInternalState = await getRebaseInternalState(repository)
+  const isCherryPickingHeadFound = await isCherryPickHeadFound(repository)
 
   const conflictDetails = await getConflictDetails(
     repository,
     mergeHeadFound,
     conflictedFilesInIndex,
-    rebaseInternalState
+    rebaseInternalState,
+    isCherryPickingHeadFound
   )
 
   // Map of files keyed on their paths.
@@ -262,8 +303,6 @@ export async function getStatus(
 
   const workingDirectory = WorkingDirectoryStatus.fromFiles([...files.values()])
 
-  const isCherryPickingHeadFound = await isCherryPickHeadFound(repository)
-
   const squashMsgFound = await isSquashMsgSet(repository)
 
   return {
@@ -384,9 +423,11 @@ async function getMergeConflictDetails(repository: Repository) {
     repository.path
   )
   const binaryFilePaths = await getBinaryPaths(repository, 'MERGE_HEAD')
+  const recordedResolutionPaths = await getRecordedResolutionPaths(repository)
   return {
     conflictCountsByPath,
     binaryFilePaths,
+    recordedResolutionPaths,
   }
 }
 
@@ -395,17 +436,22 @@ async function getRebaseConflictDetails(repository: Repository) {
     repository.path
   )
   const binaryFilePaths = await getBinaryPaths(repository, 'REBASE_HEAD')
+  const recordedResolutionPaths = await getRecordedResolutionPaths(repository)
   return {
     conflictCountsByPath,
     binaryFilePaths,
+    recordedResolutionPaths,
   }
 }
 
 /**
  * We need to do these operations to detect conflicts that were the result
- * of popping a stash into the index
+ * of popping a stash into the index, or of a cherry-pick
  */
-async function getWorkingDirectoryConflictDetails(repository: Repository) {
+async function getWorkingDirectoryConflictDetails(
+  repository: Repository,
+  isCherryPickingHeadFound: boolean
+) {
   const conflictCountsByPath = await getFilesWithConflictMarkers(
     repository.path
   )
@@ -415,9 +461,15 @@ async function getWorkingDirectoryConflictDetails(repository: Repository) {
     binaryFilePaths = await getBinaryPaths(repository, 'HEAD')
   } catch (error) {}
 
+  // Git doesn't use recorded resolutions when popping a stash
+  const recordedResolutionPaths = isCherryPickingHeadFound
+    ? await getRecordedResolutionPaths(repository)
+    : null
+
   return {
     conflictCountsByPath,
     binaryFilePaths,
+    recordedResolutionPaths,
   }
 }
 
@@ -429,12 +481,14 @@ async function getWorkingDirectoryConflictDetails(repository: Repository) {
  * @param mergeHeadFound whether a merge conflict has been detected
  * @param lookForStashConflicts whether it looks like a stash has introduced conflicts
  * @param rebaseInternalState details about the current rebase operation (if found)
+ * @param isCherryPickingHeadFound whether a cherry-pick is in progress
  */
 async function getConflictDetails(
   repository: Repository,
   mergeHeadFound: boolean,
   lookForStashConflicts: boolean,
-  rebaseInternalState: RebaseInternalState | null
+  rebaseInternalState: RebaseInternalState | null,
+  isCherryPickingHeadFound: boolean
 ): Promise<ConflictFilesDetails> {
   try {
     if (mergeHeadFound) {
@@ -446,7 +500,10 @@ async function getConflictDetails(
     }
 
     if (lookForStashConflicts) {
-      return await getWorkingDirectoryConflictDetails(repository)
+      return await getWorkingDirectoryConflictDetails(
+        repository,
+        isCherryPickingHeadFound
+      )
     }
   } catch (error) {
     log.error(
@@ -3,20 +3,37 @@ import { Repository } from '../../models/repository'
 import { IGitAccount } from '../../models/git-account'
 import { IRemote } from '../../models/remote'
 import { envForRemoteOperation } from './environment'
+import { getTagSigningArgs } from './signing'
+import { createForEachRefParser } from './git-delimiter-parser'
+import { ITag } from '../../models/tag'
+import { CommitIdentity } from '../../models/commit-identity'
 
 /**
- * Create a new tag on the given target commit.
+ * Create a new annotated tag on the given target commit.
  *
  * @param repository        - The repository in which to create the new tag.
  * @param name              - The name of the new tag.
  * @param targetCommitSha   - The SHA of the commit where the new tag will live on.
+ * @param message           - The annotation message of the tag.
+ * @param sign              - Whether to sign the tag. When undefined the
+ *                            repository's `tag.gpgsign` setting decides.
  */
 export async function createTag(
   repository: Repository,
   name: string,
-  targetCommitSha: string
+  targetCommitSha: string,
+  message: string = '',
+  sign?: boolean
 ): Promise<void> {
-  const args = ['tag', '-a', '-m', '', name, targetCommitSha]
+  const args = [
+    'tag',
+    '-a',
+    ...(await getTagSigningArgs(repository, sign)),
+    '-m',
+    message,
+    name,
+    targetCommitSha,
+  ]
 
   await git(args, repository.path, 'createTag')
 }
@@ -76,6 +93,169 @@ export async function getAllTags(
   return new Map(tagsArray)
 }
 
+/**
+ * Gets all the local tags along with their annotations, most recent first.
+ *
+ * @param repository    The repository in which to get all the tags from.
+ */
+export async function getTags(
+  repository: Repository
+): Promise<ReadonlyArray<ITag>> {
+  const { formatArgs, parse } = createForEachRefParser({
+    fullName: '%(refname)',
+    sha: '%(objectname)',
+    peeledSha: '%(*objectname)',
+    tagger: '%(tagger)',
+    date: '%(creatordate:unix)',
+    subject: '%(contents:subject)',
+    body: '%(contents:body)',
+    signature: '%(contents:signature)',
+  })
+
+  const result = await git(
+    ['for-each-ref', '--sort=-creatordate', ...formatArgs, 'refs/tags'],
+    repository.path,
+    'getTags'
+  )
+
+  return parse(result.stdout).map(ref => {
+    // Only annotated tags point to a tag object which has to be peeled to
+    // get to the commit. For lightweight tags the contents are those of the
+    // commit.
+    const annotated = ref.peeledSha.length > 0
+
+    return {
+      name: ref.fullName.replace(/^refs\/tags\//, ''),
+      target: annotated ? ref.peeledSha : ref.sha,
+      annotated,
+      signed: annotated && ref.signature.length > 0,
+      message: annotated
+        ? [ref.subject, ref.body.trim()]
+            .filter(part => part.length > 0)
+            .join('\n\n')
+        : '',
+      tagger:
+        ref.tagger.length > 0 ? CommitIdentity.parseIdentity(ref.tagger) : null,
+      date: new Date(parseInt(ref.date, 10) * 1000),
+    }
+  })
+}
+
+/**
+ * Gets all the tags of the remote (it does a network request). Returns a Map
+ * with the tag name and the commit it points to.
+ *
+ * @param repository  - The repository whose remote to list the tags of
+ * @param account     - The account to use when authenticating with the remote
+ * @param remote      - The remote to list the tags of
+ */
+export async function getRemoteTags(
+  repository: Repository,
+  account: IGitAccount | null,
+  remote: IRemote
+): Promise<Map<string, string>> {
+  const args = [...gitNetworkArguments(), 'ls-remote', '--tags', remote.name]
+
+  const result = await git(args, repository.path, 'getRemoteTags', {
+    env: await envForRemoteOperation(account, remote.url),
+  })
+
+  const tags = new Map<string, string>()
+
+  for (const line of result.stdout.split('\n')) {
+    const [sha, ref] = line.split('\t')
+
+    if (sha === undefined || ref === undefined) {
+      continue
+    }
+
+    // Just like with show-ref annotated tags are listed twice, the peeled
+    // entry pointing to the commit always comes last.
+    const name = ref.replace(/^refs\/tags\//, '').replace(/\^\{\}$/, '')
+    tags.set(name, sha)
+  }
+
+  return tags
+}
+
+/**
+ * Push a single tag to the remote (it does a network request).
+ *
+ * @param repository  - The repository the tag is in
+ * @param account     - The account to use when authenticating with the remote
+ * @param remote      - The remote to push the tag to
+ * @param name        - The name of the tag to push
+ */
+export async function pushTag(
+  repository: Repository,
+  account: IGitAccount | null,
+  remote: IRemote,
+  name: string
+): Promise<void> {
+  const args = [
+    ...gitNetworkArguments(),
+    'push',
+    remote.name,
+    `refs/tags/${name}`,
+    '--no-verify',
+  ]
+
+  await git(args, repository.path, 'pushTag', {
+    env: await envForRemoteOperation(account, remote.url),
+  })
+}
+
+/**
+ * Delete a single tag from the remote (it does a network request). The local
+ * tag, if any, is left alone.
+ *
+ * @param repository  - The repository the tag is in
+ * @param account     - The account to use when authenticating with the remote
+ * @param remote      - The remote to delete the tag from
+ * @param name        - The name of the tag to delete
+ */
+export async function deleteRemoteTag(
+  repository: Repository,
+  account: IGitAccount | null,
+  remote: IRemote,
+  name: string
+): Promise<void> {
+  const args = [
+    ...gitNetworkArguments(),
+    'push',
+    remote.name,
+    `:refs/tags/${name}`,
+    '--no-verify',
+  ]
+
+  await git(args, repository.path, 'deleteRemoteTag', {
+    env: await envForRemoteOperation(account, remote.url),
+  })
+}
+
+/**
+ * Get the name of the tag preceding the given tag, that is the most recent
+ * tag reachable from the commit before the one the tag points to. Returns
+ * null when there is no such tag.
+ *
+ * @param repository    - The repository the tag is in
+ * @param name          - The name of the tag to find the predecessor of
+ */
+export async function getPreviousTag(
+  repository: Repository,
+  name: string
+): Promise<string | null> {
+  const args = ['describe', '--tags', '--abbrev=0', `refs/tags/${name}~`]
+
+  // Git exits with 128 when no tag can be found, or when the tag points to a
+  // commit without parents.
+  const result = await git(args, repository.path, 'getPreviousTag', {
+    successExitCodes: new Set([0, 128]),
+  })
+
+  return result.exitCode === 0 ? result.stdout.trim() : null
+}
+
 /**
  * Fetches the tags that will get pushed to the remote repository (it does a network request).
  *
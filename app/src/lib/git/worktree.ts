@@ -0,0 +1,187 @@
+import { git } from './core'
+import { Repository } from '../../models/repository'
+import { IWorktree } from '../../models/worktree'
+
+/**
+ * Get all worktrees attached to the repository, starting with the main
+ * worktree.
+ *
+ * Note that this returns the same list regardless of whether the repository
+ * is the main worktree or one of its linked worktrees.
+ *
+ * @param repository - The repository for which to list worktrees
+ */
+export async function listWorktrees(
+  repository: Repository
+): Promise<ReadonlyArray<IWorktree>> {
+  const { stdout } = await git(
+    ['worktree', 'list', '--porcelain'],
+    repository.path,
+    'listWorktrees'
+  )
+
+  return parseWorktreeListPorcelain(stdout)
+}
+
+/**
+ * Parse the output of `git worktree list --porcelain`.
+ *
+ * The porcelain format consists of one block of attributes per worktree,
+ * separated by an empty line. Each attribute is listed on its own line as
+ * a label optionally followed by a space and a value, e.g.
+ *
+ *   worktree /path/to/linked-worktree
+ *   HEAD abcd1234abcd1234abcd1234abcd1234abcd1234
+ *   branch refs/heads/feature
+ *   locked reason why is locked
+ *
+ * See https://git-scm.com/docs/git-worktree#_porcelain_format
+ */
+export function parseWorktreeListPorcelain(
+  output: string
+): ReadonlyArray<IWorktree> {
+  const worktrees = new Array<IWorktree>()
+
+  for (const block of output.split(/\r?\n\r?\n/)) {
+    const attributes = new Map<string, string>()
+
+    for (const line of block.split(/\r?\n/)) {
+      if (line.length === 0) {
+        continue
+      }
+
+      const separatorIndex = line.indexOf(' ')
+      const key =
+        separatorIndex === -1 ? line : line.substring(0, separatorIndex)
+      const value =
+        separatorIndex === -1 ? '' : line.substring(separatorIndex + 1)
+
+      attributes.set(key, value)
+    }
+
+    const path = attributes.get('worktree')
+    if (path === undefined) {
+      continue
+    }
+
+    const branch = attributes.get('branch')
+    const lockReason = attributes.get('locked')
+
+    worktrees.push({
+      path,
+      head: attributes.get('HEAD') ?? '',
+      branch:
+        branch === undefined ? null : branch.replace(/^refs\/heads\//, ''),
+      isMain: worktrees.length === 0,
+      isBare: attributes.has('bare'),
+      isDetached: attributes.has('detached'),
+      isLocked: lockReason !== undefined,
+      lockReason:
+        lockReason === undefined || lockReason.length === 0 ? null : lockReason,
+      isPrunable: attributes.has('prunable'),
+    })
+  }
+
+  return worktrees
+}
+
+/**
+ * Create a new linked worktree.
+ *
+ * @param repository    - The repository to which the worktree will be linked
+ * @param path          - The path at which to create the worktree. The
+ *                        directory must either not exist or be empty.
+ * @param commitish     - The branch or commit to check out in the new
+ *                        worktree. Note that Git refuses to check out a
+ *                        branch which is already checked out in another
+ *                        worktree.
+ * @param newBranchName - An optional name of a branch to create, starting at
+ *                        `commitish`, and check out in the new worktree.
+ */
+export async function addWorktree(
+  repository: Repository,
+  path: string,
+  commitish: string,
+  newBranchName?: string
+): Promise<void> {
+  const args = ['worktree', 'add']
+
+  if (newBranchName !== undefined) {
+    args.push('-b', newBranchName)
+  }
+
+  args.push(path, commitish)
+
+  await git(args, repository.path, 'addWorktree')
+}
+
+/**
+ * Remove a linked worktree, deleting its working directory.
+ *
+ * @param repository - The repository to which the worktree is linked
+ * @param path       - The path of the worktree to remove
+ * @param force      - Whether to remove the worktree even though it has
+ *                     uncommitted changes or is locked.
+ */
+export async function removeWorktree(
+  repository: Repository,
+  path: string,
+  force: boolean = false
+): Promise<void> {
+  const args = ['worktree', 'remove']
+
+  if (force) {
+    // Passing --force twice is required in order to remove locked worktrees
+    args.push('--force', '--force')
+  }
+
+  args.push(path)
+
+  await git(args, repository.path, 'removeWorktree')
+}
+
+/**
+ * Clean up administrative files for linked worktrees whose working
+ * directories have been deleted without using `git worktree remove`.
+ *
+ * @param repository - The repository to prune worktrees for
+ */
+export async function pruneWorktrees(repository: Repository): Promise<void> {
+  await git(['worktree', 'prune'], repository.path, 'pruneWorktrees')
+}
+
+/**
+ * Lock a linked worktree, preventing it from being pruned, moved or removed.
+ *
+ * @param repository - The repository to which the worktree is linked
+ * @param path       - The path of the worktree to lock
+ * @param reason     - An optional explanation for why the worktree is locked
+ */
+export async function lockWorktree(
+  repository: Repository,
+  path: string,
+  reason?: string
+): Promise<void> {
+  const args = ['worktree', 'lock']
+
+  if (reason !== undefined && reason.length > 0) {
+    args.push('--reason', reason)
+  }
+
+  args.push(path)
+
+  await git(args, repository.path, 'lockWorktree')
+}
+
+/**
+ * Unlock a previously locked linked worktree.
+ *
+ * @param repository - The repository to which the worktree is linked
+ * @param path       - The path of the worktree to unlock
+ */
+export async function unlockWorktree(
+  repository: Repository,
+  path: string
+): Promise<void> {
+  await git(['worktree', 'unlock', path], repository.path, 'unlockWorktree')
+}
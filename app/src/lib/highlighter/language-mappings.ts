@@ -0,0 +1,78 @@
+import { getObject, setObject } from '../local-storage'
+
+const languageMappingsKey = 'highlighter-language-mappings'
+
+/**
+ * Get the languages the user has chosen to highlight files as, keyed by lower
+ * case file extension (i.e. '.tf') or file name (i.e. 'jenkinsfile').
+ */
+export function getLanguageMappings(): ReadonlyMap<string, string> {
+  const mappings = getObject<Record<string, unknown>>(languageMappingsKey)
+  const result = new Map<string, string>()
+
+  for (const [key, language] of Object.entries(mappings ?? {})) {
+    if (typeof language === 'string') {
+      result.set(key, language)
+    }
+  }
+
+  return result
+}
+
+/** Store the languages the user has chosen to highlight files as */
+export function setLanguageMappings(mappings: ReadonlyMap<string, string>) {
+  setObject(languageMappingsKey, Object.fromEntries(mappings))
+}
+
+/**
+ * Get the language the user has chosen to highlight the file with the given
+ * basename and extension as, or null if they haven't. File names take
+ * precedence over extensions.
+ */
+export function getMappedLanguage(
+  basename: string,
+  extension: string
+): string | null {
+  const mappings = getLanguageMappings()
+
+  return (
+    mappings.get(basename.toLowerCase()) ??
+    (extension.length > 0 ? mappings.get(extension.toLowerCase()) : null) ??
+    null
+  )
+}
+
+/**
+ * Parse language mappings written one per line as `.ext = Language` or
+ * `filename = Language`. Lines which don't contain a mapping are ignored.
+ */
+export function parseLanguageMappings(
+  text: string
+): ReadonlyMap<string, string> {
+  const mappings = new Map<string, string>()
+
+  for (const line of text.split(/\r?\n/)) {
+    const separator = line.indexOf('=')
+    if (separator === -1) {
+      continue
+    }
+
+    const key = line.substring(0, separator).trim().toLowerCase()
+    const language = line.substring(separator + 1).trim()
+
+    if (key.length > 0 && language.length > 0) {
+      mappings.set(key.startsWith('*.') ? key.substring(1) : key, language)
+    }
+  }
+
+  return mappings
+}
+
+/** Format language mappings in the format read by `parseLanguageMappings` */
+export function formatLanguageMappings(
+  mappings: ReadonlyMap<string, string>
+): string {
+  return [...mappings]
+    .map(([key, language]) => `${key} = ${language}`)
+    .join('\n')
+}
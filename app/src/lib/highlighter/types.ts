@@ -31,6 +31,64 @@ export interface ITokens {
   [line: number]: ILineTokens
 }
 
+/**
+ * A single rule in a grammar state. See the documentation of
+ * CodeMirror's simple mode addon for more details.
+ */
+export interface IHighlighterGrammarRule {
+  /** The regular expression (as a string) matching the token */
+  readonly regex: string
+
+  /**
+   * The token style (i.e. 'keyword' or 'string') to assign to the match, or
+   * an array of styles when the regex has a group for each part of the match.
+   */
+  readonly token?: string | ReadonlyArray<string | null> | null
+
+  /** When set, the state the grammar should move to after a match */
+  readonly next?: string
+
+  /** When set, the state which should be pushed onto the state stack */
+  readonly push?: string
+
+  /** When true, the grammar returns to the state it pushed from */
+  readonly pop?: boolean
+
+  /** When true, the rule only matches at the start of a line */
+  readonly sol?: boolean
+}
+
+/**
+ * A grammar for a language which doesn't have a CodeMirror mode of its own,
+ * either bundled with the app or supplied by the user. Grammars are state
+ * machines of regular expressions in the format used by CodeMirror's simple
+ * mode addon.
+ */
+export interface IHighlighterGrammar {
+  /** The name of the language, i.e. 'Nix' */
+  readonly name: string
+
+  /**
+   * Other names of the language, i.e. the names used for it in
+   * `linguist-language` attributes.
+   */
+  readonly aliases?: ReadonlyArray<string>
+
+  /** File extensions (including the leading dot) using the language */
+  readonly extensions?: ReadonlyArray<string>
+
+  /** File basenames (i.e. 'Jenkinsfile') using the language */
+  readonly filenames?: ReadonlyArray<string>
+
+  /**
+   * The rules of the grammar keyed by state. A grammar must have a 'start'
+   * state.
+   */
+  readonly states: {
+    readonly [state: string]: ReadonlyArray<IHighlighterGrammarRule>
+  }
+}
+
 /**
  * Represents a request to detect the language and highlight
  * the contents provided.
@@ -55,6 +113,19 @@ export interface IHighlightRequest {
    */
   readonly extension: string
 
+  /**
+   * An optional language to highlight the contents as instead of
+   * detecting it from the path. Either the name of a language (i.e.
+   * 'Kotlin'), a file extension or a mime type.
+   */
+  readonly language?: string | null
+
+  /**
+   * The grammar supplied by the user to highlight the contents with,
+   * which takes precedence over the languages known to the highlighter.
+   */
+  readonly grammar?: IHighlighterGrammar | null
+
   /**
    * The actual content lines which is to be used for highlighting.
    */
@@ -0,0 +1,128 @@
+import * as Path from 'path'
+import { readdir, readFile } from 'fs/promises'
+
+import { getPath } from '../../ui/main-process-proxy'
+import { directoryExists } from '../directory-exists'
+import { IHighlighterGrammar } from './types'
+
+/**
+ * Get the path of the directory the user can add grammars for additional
+ * languages to, as one JSON file per grammar.
+ */
+export async function getUserGrammarsPath(): Promise<string> {
+  return Path.join(await getPath('userData'), 'grammars')
+}
+
+function isStringArray(value: unknown) {
+  return Array.isArray(value) && value.every(v => typeof v === 'string')
+}
+
+/** Check that a parsed grammar file has the shape of a grammar */
+export function isHighlighterGrammar(
+  value: unknown
+): value is IHighlighterGrammar {
+  if (typeof value !== 'object' || value === null) {
+    return false
+  }
+
+  const { name, aliases, extensions, filenames, states } = value as Record<
+    string,
+    unknown
+  >
+
+  return (
+    typeof name === 'string' &&
+    name.length > 0 &&
+    (aliases === undefined || isStringArray(aliases)) &&
+    (extensions === undefined || isStringArray(extensions)) &&
+    (filenames === undefined || isStringArray(filenames)) &&
+    typeof states === 'object' &&
+    states !== null &&
+    Object.values(states).every(
+      rules =>
+        Array.isArray(rules) &&
+        rules.every(r => typeof r === 'object' && typeof r.regex === 'string')
+    ) &&
+    Array.isArray((states as Record<string, unknown>).start)
+  )
+}
+
+async function readUserGrammars(): Promise<ReadonlyArray<IHighlighterGrammar>> {
+  const path = await getUserGrammarsPath()
+
+  if (!(await directoryExists(path))) {
+    return []
+  }
+
+  const grammars = new Array<IHighlighterGrammar>()
+  const files = (await readdir(path)).filter(f => f.endsWith('.json'))
+
+  for (const file of files) {
+    try {
+      const grammar = JSON.parse(await readFile(Path.join(path, file), 'utf8'))
+
+      if (isHighlighterGrammar(grammar)) {
+        grammars.push(grammar)
+      } else {
+        log.warn(`Ignoring grammar ${file} which is missing a name or states`)
+      }
+    } catch (e) {
+      log.warn(`Failed reading grammar ${file}`, e)
+    }
+  }
+
+  return grammars
+}
+
+let userGrammars: Promise<ReadonlyArray<IHighlighterGrammar>> | null = null
+
+/**
+ * Get the grammars the user has added to the grammars directory. The
+ * grammars are read once and then cached until `reloadUserGrammars` is
+ * called.
+ */
+export function getUserGrammars(): Promise<ReadonlyArray<IHighlighterGrammar>> {
+  if (userGrammars === null) {
+    userGrammars = readUserGrammars().catch(e => {
+      log.error('Failed reading grammars', e)
+      return []
+    })
+  }
+
+  return userGrammars
+}
+
+/** Read the grammars the user has added again the next time they're needed */
+export function reloadUserGrammars() {
+  userGrammars = null
+}
+
+/**
+ * Find the grammar supplied by the user which should be used to highlight a
+ * file, either the one named by the language the file should be highlighted
+ * as or, when no language has been set, one listing the file's extension or
+ * name.
+ */
+export function findUserGrammar(
+  grammars: ReadonlyArray<IHighlighterGrammar>,
+  language: string | null,
+  basename: string,
+  extension: string
+): IHighlighterGrammar | null {
+  const matches = (values: ReadonlyArray<string> | undefined, value: string) =>
+    (values ?? []).some(v => v.toLowerCase() === value.toLowerCase())
+
+  if (language) {
+    const name = language.trim()
+    return (
+      grammars.find(g => matches([g.name], name) || matches(g.aliases, name)) ??
+      null
+    )
+  }
+
+  return (
+    grammars.find(
+      g => matches(g.extensions, extension) || matches(g.filenames, basename)
+    ) ?? null
+  )
+}
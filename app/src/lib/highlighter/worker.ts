@@ -1,5 +1,7 @@
 import { ITokens, IHighlightRequest } from './types'
 import { encodePathAsUrl } from '../../lib/path'
+import { getMappedLanguage } from './language-mappings'
+import { findUserGrammar, getUserGrammars } from './user-grammars'
 
 const highlightWorkers = new Array<Worker>()
 const maxIdlingWorkers = 2
@@ -26,20 +28,37 @@ const workerUri = encodePathAsUrl(__dirname, 'highlighter.js')
  *                  both minimize the size of the response object (which needs
  *                  to be serialized over the IPC boundary) and, for stateless
  *                  modes we can significantly speed up the highlight process.
+ * @param language  An optional language to highlight the contents as, i.e.
+ *                  from a `linguist-language` attribute. The language the
+ *                  user has mapped the file to, if any, takes precedence
+ *                  and the language is detected from the path when neither
+ *                  is set.
  */
-export function highlight(
+export async function highlight(
   contentLines: ReadonlyArray<string>,
   basename: string,
   extension: string,
   tabSize: number,
-  lines: Array<number>
+  lines: Array<number>,
+  language: string | null = null
 ): Promise<ITokens> {
   // Bail early if there's no content to highlight or if we don't
   // need any lines from this file.
   if (!contentLines.length || !lines.length) {
-    return Promise.resolve({})
+    return {}
   }
 
+  const mappedLanguage = getMappedLanguage(basename, extension) ?? language
+
+  // Only the grammar the contents are highlighted with is sent to the
+  // worker rather than every grammar the user has added.
+  const grammar = findUserGrammar(
+    await getUserGrammars(),
+    mappedLanguage,
+    basename,
+    extension
+  )
+
   // Get an idle worker or create a new one if none exist.
   const worker = highlightWorkers.shift() || new Worker(workerUri)
 
@@ -76,6 +95,8 @@ export function highlight(
       tabSize,
       lines,
       addModeClass: true,
+      language: mappedLanguage,
+      grammar,
     }
 
     worker.postMessage(request)
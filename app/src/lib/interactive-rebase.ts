@@ -0,0 +1,91 @@
+import {
+  IInteractiveRebasePreviewCommit,
+  IInteractiveRebaseStep,
+  InteractiveRebaseAction,
+} from '../models/interactive-rebase'
+
+/** Whether the action melds the commit into the commit before it */
+export function isMeldAction(action: InteractiveRebaseAction) {
+  return (
+    action === InteractiveRebaseAction.Squash ||
+    action === InteractiveRebaseAction.Fixup
+  )
+}
+
+/**
+ * Get the history, from oldest to newest, that replaying the given steps of an
+ * interactive rebase would result in.
+ *
+ * @param steps - The steps of the rebase, from the oldest commit to the newest
+ */
+export function getInteractiveRebasePreview(
+  steps: ReadonlyArray<IInteractiveRebaseStep>
+): ReadonlyArray<IInteractiveRebasePreviewCommit> {
+  const preview = new Array<IInteractiveRebasePreviewCommit>()
+
+  for (const step of steps) {
+    const { action, commit } = step
+    const execs = step.exec !== null ? [step.exec] : []
+
+    if (action === InteractiveRebaseAction.Drop) {
+      continue
+    }
+
+    const previous = preview.at(-1)
+
+    if (isMeldAction(action) && previous !== undefined) {
+      preview[preview.length - 1] = {
+        ...previous,
+        commits: [...previous.commits, commit],
+        execs: [...previous.execs, ...execs],
+      }
+      continue
+    }
+
+    const summary =
+      action === InteractiveRebaseAction.Reword && step.message !== null
+        ? step.message.split('\n', 1)[0].trim()
+        : commit.summary
+
+    preview.push({
+      summary,
+      commits: [commit],
+      stopsToEdit: action === InteractiveRebaseAction.Edit,
+      execs,
+    })
+  }
+
+  return preview
+}
+
+/**
+ * Check whether the steps of an interactive rebase can be replayed, returning
+ * a message describing the problem if they can't or null if they can.
+ *
+ * @param steps - The steps of the rebase, from the oldest commit to the newest
+ */
+export function validateInteractiveRebase(
+  steps: ReadonlyArray<IInteractiveRebaseStep>
+): string | null {
+  const kept = steps.filter(s => s.action !== InteractiveRebaseAction.Drop)
+
+  if (kept.length === 0) {
+    return 'At least one commit must be kept.'
+  }
+
+  if (isMeldAction(kept[0].action)) {
+    return `The first commit can't be melded into a previous commit.`
+  }
+
+  const reworded = kept.find(
+    s =>
+      s.action === InteractiveRebaseAction.Reword &&
+      (s.message === null || s.message.trim().length === 0)
+  )
+
+  if (reworded !== undefined) {
+    return `Enter a new message for "${reworded.commit.summary}".`
+  }
+
+  return null
+}
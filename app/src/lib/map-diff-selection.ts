@@ -0,0 +1,91 @@
+import {
+  DiffHunk,
+  DiffLine,
+  DiffLineType,
+  DiffSelection,
+  DiffSelectionType,
+} from '../models/diff'
+
+/**
+ * Get a key which identifies an added or deleted line by the line it adds to
+ * the new version of the file or deletes from the old version.
+ */
+function getChangedLineKey(line: DiffLine) {
+  return line.type === DiffLineType.Add
+    ? `+${line.newLineNumber}`
+    : `-${line.oldLineNumber}`
+}
+
+/** Get the indexes of the added and deleted lines in the given hunks */
+function getSelectableLines(hunks: ReadonlyArray<DiffHunk>) {
+  const selectableLines = new Set<number>()
+
+  for (const hunk of hunks) {
+    hunk.lines.forEach((line, index) => {
+      if (line.isIncludeableLine()) {
+        selectableLines.add(hunk.unifiedDiffStart + index)
+      }
+    })
+  }
+
+  return selectableLines
+}
+
+/**
+ * Map a selection of lines in one diff of a file to the lines of another diff
+ * of the same changes generated with different settings, i.e. from a diff with
+ * whitespace changes hidden to the diff git generates by default.
+ *
+ * Added and deleted lines are matched by their line number in the new and old
+ * version of the file respectively. Changes which aren't part of the diff the
+ * selection was made in, like hidden whitespace changes, are only selected
+ * when the whole file is.
+ *
+ * @param selection The selection of lines in the `from` diff
+ * @param from      The hunks of the diff the selection was made in
+ * @param to        The hunks of the diff to map the selection to
+ */
+export function mapDiffSelection(
+  selection: DiffSelection,
+  from: ReadonlyArray<DiffHunk>,
+  to: ReadonlyArray<DiffHunk>
+): DiffSelection {
+  const selectableLines = getSelectableLines(to)
+  const selectionType = selection.getSelectionType()
+
+  if (selectionType !== DiffSelectionType.Partial) {
+    return DiffSelection.fromInitialSelection(
+      selectionType
+    ).withSelectableLines(selectableLines)
+  }
+
+  const selectedLines = new Set<string>()
+
+  for (const hunk of from) {
+    hunk.lines.forEach((line, index) => {
+      if (
+        line.isIncludeableLine() &&
+        selection.isSelected(hunk.unifiedDiffStart + index)
+      ) {
+        selectedLines.add(getChangedLineKey(line))
+      }
+    })
+  }
+
+  let mapped = DiffSelection.fromInitialSelection(
+    DiffSelectionType.None
+  ).withSelectableLines(selectableLines)
+
+  for (const hunk of to) {
+    hunk.lines.forEach((line, index) => {
+      if (
+        line.isIncludeableLine() &&
+        selectedLines.has(getChangedLineKey(line))
+      ) {
+        mapped = mapped.withLineSelection(hunk.unifiedDiffStart + index, true)
+      }
+    })
+  }
+
+  return mapped
+}
@@ -107,11 +107,14 @@ const allMenuIds: ReadonlyArray<MenuIDs> = [
   'delete-branch',
   'discard-all-changes',
   'stash-all-changes',
+  'show-stashes',
   'preferences',
   'update-branch-with-contribution-target-branch',
   'compare-to-branch',
+  'compare-refs',
   'merge-branch',
   'rebase-branch',
+  'autosquash-branch',
   'view-repository-on-github',
   'compare-on-github',
   'branch-on-github',
@@ -121,12 +124,14 @@ const allMenuIds: ReadonlyArray<MenuIDs> = [
   'branch',
   'repository',
   'go-to-commit-message',
+  'show-command-palette',
   'create-branch',
   'show-changes',
   'show-history',
   'show-repository-list',
   'show-branches-list',
   'open-working-directory',
+  'show-reflog',
   'show-repository-settings',
   'open-external-editor',
   'remove-repository',
@@ -241,6 +246,9 @@ function getRepositoryMenuBuilder(state: IAppState): MenuStateBuilder {
     'show-branches-list',
     'open-external-editor',
     'compare-to-branch',
+    'compare-refs',
+    'show-stashes',
+    'show-reflog',
   ]
 
   const menuStateBuilder = new MenuStateBuilder()
@@ -273,6 +281,7 @@ function getRepositoryMenuBuilder(state: IAppState): MenuStateBuilder {
     menuStateBuilder.setEnabled('merge-branch', onBranch)
     menuStateBuilder.setEnabled('squash-and-merge-branch', onBranch)
     menuStateBuilder.setEnabled('rebase-branch', onBranch)
+    menuStateBuilder.setEnabled('autosquash-branch', onBranch)
     menuStateBuilder.setEnabled(
       'compare-on-github',
       isHostedOnGitHub && hasPublishedBranch
@@ -356,6 +365,7 @@ function getRepositoryMenuBuilder(state: IAppState): MenuStateBuilder {
     menuStateBuilder.disable('merge-branch')
     menuStateBuilder.disable('squash-and-merge-branch')
     menuStateBuilder.disable('rebase-branch')
+    menuStateBuilder.disable('autosquash-branch')
 
     menuStateBuilder.disable('push')
     menuStateBuilder.disable('pull')
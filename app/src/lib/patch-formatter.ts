@@ -250,7 +250,7 @@ export function formatPatch(
  */
 export function formatPatchToDiscardChanges(
   filePath: string,
-  diff: ITextDiff,
+  diff: ITextDiff | ILargeTextDiff,
   selection: DiffSelection
 ): string | null {
   let patch = ''
@@ -0,0 +1,211 @@
+import * as Fs from 'fs'
+import * as Path from 'path'
+import byline from 'byline'
+import { open } from 'fs/promises'
+import { IGitExecutionOptions } from '../git/core'
+import { KnownHookNames } from '../git/hooks'
+import { merge } from '../merge'
+import { getTempFilePath, tailByLine } from '../file-system'
+import { parse } from './git'
+
+/** Progress events emitted while Git runs hooks */
+export type HookProgress =
+  | { readonly kind: 'hook-started'; readonly hookName: string }
+  | {
+      readonly kind: 'hook-finished'
+      readonly hookName: string
+      readonly exitCode: number
+    }
+  | { readonly kind: 'hook-output'; readonly text: string }
+
+/** A hook being started or exiting, as traced by Git */
+export type HookTraceEvent =
+  | {
+      readonly kind: 'start'
+      readonly childId: number
+      readonly hookName: string
+    }
+  | {
+      readonly kind: 'exit'
+      readonly childId: number
+      readonly exitCode: number
+    }
+
+/** Create the file Git writes its trace to and return the path. */
+async function createHookTraceFile(): Promise<string> {
+  const path = await getTempFilePath('GitHubDesktop-hook-trace')
+
+  // See createLFSProgressFile
+  await open(path, 'wx').then(f => f.close())
+
+  return path
+}
+
+/**
+ * Parse a line of the trace2 event stream written by Git, returning the
+ * start of a hook or the exit of a child process, or null for any other
+ * event. See https://git-scm.com/docs/api-trace2#_event_format
+ *
+ * Child processes are only identified by their id, so whether an exit is the
+ * one of a hook is up to the caller to keep track of. Events of nested Git
+ * processes, i.e. those run by the hooks themselves, are ignored.
+ */
+export function parseHookTraceEvent(line: string): HookTraceEvent | null {
+  let event
+  try {
+    event = JSON.parse(line)
+  } catch {
+    return null
+  }
+
+  // Nested processes have the session id of their parent as a prefix
+  if (typeof event.sid !== 'string' || event.sid.includes('/')) {
+    return null
+  }
+
+  const childId = event.child_id
+
+  if (typeof childId !== 'number') {
+    return null
+  }
+
+  if (event.event === 'child_start' && event.child_class === 'hook') {
+    const hookName = event.hook_name
+    return typeof hookName === 'string' && KnownHookNames.includes(hookName)
+      ? { kind: 'start', childId, hookName }
+      : null
+  }
+
+  if (event.event === 'child_exit' && typeof event.code === 'number') {
+    return { kind: 'exit', childId, exitCode: event.code }
+  }
+
+  return null
+}
+
+/**
+ * Merges an instance of IGitExecutionOptions with a process callback which
+ * reports the hooks started and finished by Git along with their output.
+ *
+ * Hooks have their stdout redirected to stderr by Git so all output ends up
+ * on stderr. Git doesn't announce the hooks it runs there though, so we have
+ * it write a trace of the processes it runs to a separate file which we tail
+ * in order to find out. Only the output written while a hook is running is
+ * reported, such that what Git itself writes after the hooks (i.e. the
+ * outcome of a push) isn't mistaken for hook output.
+ *
+ * Any process callback already present in the given options is preserved.
+ */
+export async function executionOptionsWithHookProgress(
+  options: IGitExecutionOptions,
+  progressCallback: (progress: HookProgress) => void
+): Promise<IGitExecutionOptions> {
+  let tracePath: string | null = null
+
+  try {
+    tracePath = await createHookTraceFile()
+  } catch (e) {
+    log.error('Error writing hook trace file', e)
+  }
+
+  const { processCallback } = options
+
+  // The hooks currently running, keyed by their child process id
+  const runningHooks = new Map<number, string>()
+
+  // Output received while no hook is known to be running. The trace is read
+  // asynchronously, so the first lines a hook writes may come in before we
+  // learn that it started. They're reported once a hook starts and dropped
+  // if none does.
+  let pendingOutput = new Array<string>()
+  let reportedEventCount = 0
+
+  const onTraceEvent = (event: HookTraceEvent) => {
+    reportedEventCount++
+
+    if (event.kind === 'start') {
+      runningHooks.set(event.childId, event.hookName)
+      progressCallback({ kind: 'hook-started', hookName: event.hookName })
+
+      for (const text of pendingOutput) {
+        progressCallback({ kind: 'hook-output', text })
+      }
+      pendingOutput = []
+      return
+    }
+
+    const hookName = runningHooks.get(event.childId)
+
+    if (hookName !== undefined) {
+      runningHooks.delete(event.childId)
+      const { exitCode } = event
+      progressCallback({ kind: 'hook-finished', hookName, exitCode })
+    }
+  }
+
+  return merge(options, {
+    processCallback: process => {
+      processCallback?.(process)
+
+      if (tracePath !== null) {
+        const path = tracePath
+
+        const disposable = tailByLine(path, line => {
+          const event = parseHookTraceEvent(line)
+          if (event !== null) {
+            onTraceEvent(event)
+          }
+        })
+
+        process.on('close', () => {
+          disposable.dispose()
+
+          // Hooks which fail right away might exit before we've had a chance
+          // to tail the trace so we read whatever is left synchronously, such
+          // that all hooks have been reported by the time the Git call returns.
+          try {
+            // eslint-disable-next-line no-sync
+            const events = Fs.readFileSync(path, 'utf8')
+              .split(/\r?\n/)
+              .map(parseHookTraceEvent)
+              .filter((event): event is HookTraceEvent => event !== null)
+
+            events.slice(reportedEventCount).forEach(onTraceEvent)
+          } catch (e) {
+            log.warn(`Unable to read hook trace file ${path}`, e)
+          }
+
+          pendingOutput = []
+
+          // See createProgressProcessCallback
+          Fs.unlink(path, err => {
+            if (err == null) {
+              Fs.rmdir(Path.dirname(path), () => {})
+            }
+          })
+        })
+      }
+
+      // If Node.js encounters a synchronous runtime error while spawning
+      // `stderr` will be undefined and the error will be emitted asynchronously
+      if (process.stderr) {
+        byline(process.stderr).on('data', (text: string) => {
+          if (parse(text) !== null) {
+            return
+          }
+
+          // Without a trace there's no telling hooks apart from Git itself
+          if (tracePath === null || runningHooks.size > 0) {
+            progressCallback({ kind: 'hook-output', text })
+          } else {
+            pendingOutput.push(text)
+          }
+        })
+      }
+    },
+    env: merge(
+      options.env,
+      tracePath === null ? {} : { GIT_TRACE2_EVENT: tracePath }
+    ),
+  })
+}
@@ -5,3 +5,4 @@ export * from './fetch'
 export * from './git'
 export * from './pull'
 export * from './from-process'
+export * from './hooks'
@@ -1671,6 +1671,9 @@ export class StatsStore implements IStatsStore {
         return this.recordSquashConflictsEncountered()
       case MultiCommitOperationKind.Reorder:
         return this.recordReorderConflictsEncountered()
+      case MultiCommitOperationKind.InteractiveRebase:
+        // not measured
+        return
       case MultiCommitOperationKind.Rebase:
         // ignored because rebase records different stats
         return
@@ -1693,6 +1696,9 @@ export class StatsStore implements IStatsStore {
         return this.recordSquashSuccessful()
       case MultiCommitOperationKind.Reorder:
         return this.recordReorderSuccessful()
+      case MultiCommitOperationKind.InteractiveRebase:
+        // not measured
+        return
       case MultiCommitOperationKind.CherryPick:
         return this.recordCherryPickSuccessful()
       case MultiCommitOperationKind.Rebase:
@@ -1716,6 +1722,9 @@ export class StatsStore implements IStatsStore {
         return this.recordSquashSuccessfulWithConflicts()
       case MultiCommitOperationKind.Reorder:
         return this.recordReorderSuccessfulWithConflicts()
+      case MultiCommitOperationKind.InteractiveRebase:
+        // not measured
+        return
       case MultiCommitOperationKind.Rebase:
         return this.recordRebaseSuccessAfterConflicts()
       case MultiCommitOperationKind.CherryPick:
@@ -1737,6 +1746,9 @@ export class StatsStore implements IStatsStore {
         return this.recordSquashUndone()
       case MultiCommitOperationKind.Reorder:
         return this.recordReorderUndone()
+      case MultiCommitOperationKind.InteractiveRebase:
+        // not measured
+        return
       case MultiCommitOperationKind.CherryPick:
         return this.recordCherryPickUndone()
       case MultiCommitOperationKind.Rebase:
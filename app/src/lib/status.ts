@@ -160,6 +160,21 @@ export function getResolvedFiles(
   )
 }
 
+/**
+ * Filter working directory changes for files Git resolved using a recorded
+ * resolution (see `git rerere`)
+ */
+export function getFilesResolvedFromRecordedResolutions(
+  status: WorkingDirectoryStatus
+) {
+  return status.files.filter(
+    f =>
+      isConflictedFileStatus(f.status) &&
+      isConflictWithMarkers(f.status) &&
+      f.status.usedRecordedResolution === true
+  )
+}
+
 /** Filter working directory changes for conflicted files  */
 export function getConflictedFiles(
   status: WorkingDirectoryStatus,
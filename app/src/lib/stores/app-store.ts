@@ -27,8 +27,11 @@ import {
   DiffSelection,
   DiffSelectionType,
   DiffType,
+  IDiffSettings,
   ImageDiffType,
   ITextDiff,
+  ILargeTextDiff,
+  changesDiffLines,
 } from '../../models/diff'
 import { FetchType } from '../../models/fetch'
 import {
@@ -101,6 +104,7 @@ import {
   IAPIFullRepository,
   IAPIComment,
   IAPIRepoRuleset,
+  IAPIRelease,
 } from '../api'
 import { shell } from '../app-shell'
 import {
@@ -144,7 +148,10 @@ import {
   getAuthorIdentity,
   getChangedFiles,
   getCommitDiff,
+  getDefaultDiffSelection,
   getMergeBase,
+  isAncestor,
+  isReachableFromRefs,
   getRemotes,
   getWorkingDirectoryDiff,
   isCoAuthoredByTrailer,
@@ -182,7 +189,25 @@ import {
   getBranchMergeBaseChangedFiles,
   getBranchMergeBaseDiff,
   checkoutCommit,
+  listWorktrees,
+  addWorktree,
+  removeWorktree,
+  pruneWorktrees,
+  lockWorktree,
+  unlockWorktree,
+  getBisectState,
+  getCommitMessageTemplate,
+  getRepositoryHooks,
+  CommitHookNames,
+  startBisect,
+  markBisectCommit,
+  resetBisect,
+  setSparseCheckoutPaths,
+  disableSparseCheckout,
+  ICommitSearch,
+  forgetRecordedResolution,
 } from '../git'
+import { IHistoryFilter } from '../../models/history-filter'
 import {
   installGlobalLFSFilters,
   installLFSHooks,
@@ -238,6 +263,11 @@ import {
 } from './updates/changes-state'
 import { ManualConflictResolution } from '../../models/manual-conflict-resolution'
 import { BranchPruner } from './helpers/branch-pruner'
+import { IWorktree } from '../../models/worktree'
+import { CloneOptions } from '../../models/clone-options'
+import { BisectMark, isBisectFinished } from '../../models/bisect'
+import { HookOperation } from '../../models/hooks'
+import { HookProgress } from '../progress'
 import { enableMoveStash } from '../feature-flag'
 import { Banner, BannerType } from '../../models/banner'
 import { ComputedAction } from '../../models/computed-action'
@@ -246,14 +276,19 @@ import {
   getLastDesktopStashEntryForBranch,
   popStashEntry,
   dropDesktopStashEntry,
+  dropStashEntry,
   moveStashEntry,
+  applyStashEntry,
+  createStashEntry,
+  createBranchFromStashEntry,
 } from '../git/stash'
 import {
   UncommittedChangesStrategy,
   defaultUncommittedChangesStrategy,
 } from '../../models/uncommitted-changes-strategy'
 import { IStashEntry, StashedChangesLoadStates } from '../../models/stash-entry'
-import { arrayEquals } from '../equality'
+import { IReflogEntry } from '../../models/reflog'
+import { arrayEquals, structuralEquals } from '../equality'
 import { MenuLabelsEvent } from '../../models/menu-labels'
 import { findRemoteBranchName } from './helpers/find-branch-name'
 import { updateRemoteUrl } from './updates/update-remote-url'
@@ -275,6 +310,8 @@ import { sendNonFatalException } from '../helpers/non-fatal-exception'
 import { getDefaultDir } from '../../ui/lib/default-dir'
 import { WorkflowPreferences } from '../../models/workflow-preferences'
 import { RepositoryIndicatorUpdater } from './helpers/repository-indicator-updater'
+import { storeDiffSettings } from './helpers/diff-settings-storage'
+import { mapDiffSelection } from '../map-diff-selection'
 import { isAttributableEmailFor } from '../email'
 import { TrashNameLabel } from '../../ui/lib/context-menu'
 import { GitError as DugiteError } from 'dugite'
@@ -287,6 +324,9 @@ import {
   ShowSideBySideDiffDefault,
   getShowSideBySideDiff,
   setShowSideBySideDiff,
+  ShowBlameDefault,
+  getShowBlame,
+  setShowBlame,
 } from '../../ui/lib/diff-mode'
 import {
   abortCherryPick,
@@ -307,6 +347,8 @@ import {
   MultiCommitOperationStepKind,
 } from '../../models/multi-commit-operation'
 import { reorder } from '../git/reorder'
+import { interactiveRebase } from '../git/interactive-rebase'
+import { IInteractiveRebaseStep } from '../../models/interactive-rebase'
 import { UseWindowsOpenSSHKey } from '../ssh/ssh'
 import { isConflictsFlow } from '../multi-commit-operation'
 import { clamp } from '../clamp'
@@ -382,6 +424,28 @@ const hideWhitespaceInPullRequestDiffDefault = false
 const hideWhitespaceInPullRequestDiffKey =
   'hide-whitespace-in-pull-request-diff'
 
+const showAllBranchesInHistoryDefault = false
+const showAllBranchesInHistoryKey = 'show-all-branches-in-history'
+
+/**
+ * The additional `git log` arguments for loading the history tab when showing
+ * all branches. The commit graph needs commits to be listed before their
+ * parents, which git only guarantees across branches in topological order.
+ * That order makes git walk the whole history before listing any commits
+ * though, so it's only used when the commits of other branches are listed.
+ */
+const allBranchesLogArgs: ReadonlyArray<string> = [
+  '--topo-order',
+  '--branches',
+  '--remotes',
+  '--tags',
+]
+
+/** Get the additional `git log` arguments for loading the history tab */
+function getHistoryLogArgs(allBranches: boolean): ReadonlyArray<string> {
+  return allBranches ? allBranchesLogArgs : []
+}
+
 const commitSpellcheckEnabledDefault = true
 const commitSpellcheckEnabledKey = 'commit-spellcheck-enabled'
 
@@ -401,6 +465,9 @@ const InitialRepositoryIndicatorTimeout = 2 * 60 * 1000
 
 const MaxInvalidFoldersToDisplay = 3
 
+/** The number of lines of hook output to keep around for display */
+const MaxHookOutputLines = 1000
+
 const lastThankYouKey = 'version-and-users-of-last-thank-you'
 const pullRequestSuggestedNextActionKey =
   'pull-request-suggested-next-action-key'
@@ -427,11 +494,21 @@ export class AppStore extends TypedBaseStore<IAppState> {
   private currentBanner: Banner | null = null
   private emitQueued = false
 
+  /** The history searches in progress, keyed by repository hash */
+  private readonly historySearches = new Map<string, ICommitSearch>()
+
   private readonly localRepositoryStateLookup = new Map<
     number,
     ILocalRepositoryState
   >()
 
+  /**
+   * The worktrees of each repository, keyed by the repository id. The map is
+   * replaced rather than mutated whenever it changes.
+   */
+  private worktreesLookup: ReadonlyMap<number, ReadonlyArray<IWorktree>> =
+    new Map()
+
   /** Map from shortcut (e.g., :+1:) to on disk URL. */
   private emoji = new Map<string, string>()
 
@@ -483,10 +560,13 @@ export class AppStore extends TypedBaseStore<IAppState> {
     hideWhitespaceInHistoryDiffDefault
   private hideWhitespaceInPullRequestDiff: boolean =
     hideWhitespaceInPullRequestDiffDefault
+  private showAllBranchesInHistory: boolean = showAllBranchesInHistoryDefault
   /** Whether or not the spellchecker is enabled for commit summary and description */
   private commitSpellcheckEnabled: boolean = commitSpellcheckEnabledDefault
   private showSideBySideDiff: boolean = ShowSideBySideDiffDefault
 
+  private showBlame: boolean = ShowBlameDefault
+
   private uncommittedChangesStrategy = defaultUncommittedChangesStrategy
 
   private selectedExternalEditor: string | null = null
@@ -827,6 +907,7 @@ export class AppStore extends TypedBaseStore<IAppState> {
     this.repositoriesStore.onDidUpdate(updateRepositories => {
       this.repositories = updateRepositories
       this.updateRepositorySelectionAfterRepositoriesChanged()
+      this.loadMissingWorktrees()
       this.emitUpdate()
     })
 
@@ -946,6 +1027,7 @@ export class AppStore extends TypedBaseStore<IAppState> {
       repositories,
       recentRepositories: this.recentRepositories,
       localRepositoryStateLookup: this.localRepositoryStateLookup,
+      worktreesLookup: this.worktreesLookup,
       windowState: this.windowState,
       windowZoomFactor: this.windowZoomFactor,
       appIsFocused: this.appIsFocused,
@@ -984,7 +1066,9 @@ export class AppStore extends TypedBaseStore<IAppState> {
       hideWhitespaceInChangesDiff: this.hideWhitespaceInChangesDiff,
       hideWhitespaceInHistoryDiff: this.hideWhitespaceInHistoryDiff,
       hideWhitespaceInPullRequestDiff: this.hideWhitespaceInPullRequestDiff,
+      showAllBranchesInHistory: this.showAllBranchesInHistory,
       showSideBySideDiff: this.showSideBySideDiff,
+      showBlame: this.showBlame,
       selectedShell: this.selectedShell,
       repositoryFilterText: this.repositoryFilterText,
       resolvedExternalEditor: this.resolvedExternalEditor,
@@ -1095,6 +1179,7 @@ export class AppStore extends TypedBaseStore<IAppState> {
         showCoAuthoredBy: gitStore.showCoAuthoredBy,
         coAuthors: gitStore.coAuthors,
         stashEntry,
+        stashEntries: gitStore.stashEntries,
       }
     })
 
@@ -1102,6 +1187,7 @@ export class AppStore extends TypedBaseStore<IAppState> {
       commitLookup: gitStore.commitLookup,
       localCommitSHAs: gitStore.localCommitSHAs,
       localTags: gitStore.localTags,
+      remoteTags: gitStore.remoteTags,
       aheadBehind: gitStore.aheadBehind,
       tagsToPush: gitStore.tagsToPush,
       remote: gitStore.currentRemote,
@@ -1430,7 +1516,12 @@ export class AppStore extends TypedBaseStore<IAppState> {
       }
 
       const { compareState } = this.repositoryStateCache.get(repository)
-      const { formState, commitSHAs } = compareState
+      const {
+        formState,
+        commitSHAs,
+        historyIncludesAllBranches,
+        historyFilters,
+      } = compareState
       const previousTip = compareState.tip
 
       const tipIsUnchanged =
@@ -1441,15 +1532,23 @@ export class AppStore extends TypedBaseStore<IAppState> {
       if (
         tipIsUnchanged &&
         formState.kind === HistoryTabMode.History &&
-        commitSHAs.length > 0
+        (commitSHAs.length > 0 || historyFilters.length > 0) &&
+        historyIncludesAllBranches === this.showAllBranchesInHistory
       ) {
         // don't refresh the history view here because we know nothing important
         // has changed and we don't want to rebuild this state
         return
       }
 
+      // Search results are replaced by the history of the new tip
+      this.cancelHistorySearch(repository)
+
       // load initial group of commits for current branch
-      const commits = await gitStore.loadCommitBatch('HEAD', 0)
+      const commits = await gitStore.loadCommitBatch(
+        'HEAD',
+        0,
+        getHistoryLogArgs(this.showAllBranchesInHistory)
+      )
 
       if (commits === null) {
         return
@@ -1463,6 +1562,9 @@ export class AppStore extends TypedBaseStore<IAppState> {
         tip: currentSha,
         formState: newState,
         commitSHAs: commits,
+        historyIncludesAllBranches: this.showAllBranchesInHistory,
+        historyFilters: [],
+        isSearchingHistory: false,
         filterText: '',
         showBranchList: false,
       }))
@@ -1483,6 +1585,7 @@ export class AppStore extends TypedBaseStore<IAppState> {
     action: ICompareToBranch
   ) {
     const gitStore = this.gitStoreCache.get(repository)
+    this.cancelHistorySearch(repository)
 
     const comparisonBranch = action.branch
     const compare = await gitStore.getCompareCommits(
@@ -1596,16 +1699,33 @@ export class AppStore extends TypedBaseStore<IAppState> {
     this.emitUpdate()
   }
 
+  /** This shouldn't be called directly. See `Dispatcher`. */
+  public _verifyCommitSignatures(
+    repository: Repository,
+    shas: ReadonlyArray<string>
+  ) {
+    this.gitStoreCache.get(repository).verifyCommitSignatures(shas)
+  }
+
   /** This shouldn't be called directly. See `Dispatcher`. */
   public async _loadNextCommitBatch(repository: Repository): Promise<void> {
     const gitStore = this.gitStoreCache.get(repository)
 
     const state = this.repositoryStateCache.get(repository)
-    const { formState } = state.compareState
+    const { formState, historyIncludesAllBranches } = state.compareState
+    if (state.compareState.historyFilters.length > 0) {
+      // Search results aren't loaded in batches, see `_searchHistory`
+      return
+    }
+
     if (formState.kind === HistoryTabMode.History) {
       const commits = state.compareState.commitSHAs
 
-      const newCommits = await gitStore.loadCommitBatch('HEAD', commits.length)
+      const newCommits = await gitStore.loadCommitBatch(
+        'HEAD',
+        commits.length,
+        getHistoryLogArgs(historyIncludesAllBranches)
+      )
       if (newCommits == null) {
         return
       }
@@ -1617,6 +1737,98 @@ export class AppStore extends TypedBaseStore<IAppState> {
     }
   }
 
+  /**
+   * Switch to the History tab and select the given commit, loading more of
+   * the current branch's history until the commit is found (or the history
+   * has been exhausted).
+   *
+   * This shouldn't be called directly. See `Dispatcher`.
+   */
+  public async _selectCommitInHistory(
+    repository: Repository,
+    sha: string
+  ): Promise<void> {
+    await this._changeRepositorySection(
+      repository,
+      RepositorySectionTab.History
+    )
+
+    const { compareState } = this.repositoryStateCache.get(repository)
+    if (compareState.historyFilters.length > 0) {
+      await this._searchHistory(repository, [])
+    } else if (compareState.formState.kind !== HistoryTabMode.History) {
+      await this._executeCompare(repository, {
+        kind: HistoryTabMode.History,
+      })
+    }
+
+    const historyState = this.repositoryStateCache.get(repository).compareState
+
+    // Only page through the history when the commit is going to show up in
+    // it, otherwise we'd end up loading every commit looking for it.
+    if (!historyState.commitSHAs.includes(sha)) {
+      const isReachable =
+        (await isAncestor(repository, sha, 'HEAD')) ||
+        (historyState.historyIncludesAllBranches &&
+          (await isReachableFromRefs(repository, sha)))
+
+      if (!isReachable) {
+        this.emitError(
+          new Error(
+            `Commit ${shortenSHA(sha)} is not part of the current history.`
+          )
+        )
+        return
+      }
+    }
+
+    const gitStore = this.gitStoreCache.get(repository)
+
+    while (
+      !this.repositoryStateCache
+        .get(repository)
+        .compareState.commitSHAs.includes(sha)
+    ) {
+      const { commitSHAs, historyIncludesAllBranches } =
+        this.repositoryStateCache.get(repository).compareState
+      const newCommits = await gitStore.loadCommitBatch(
+        'HEAD',
+        commitSHAs.length,
+        getHistoryLogArgs(historyIncludesAllBranches)
+      )
+
+      if (newCommits === null || newCommits.length === 0) {
+        break
+      }
+
+      this.repositoryStateCache.updateCompareState(repository, () => ({
+        commitSHAs: commitSHAs.concat(newCommits),
+      }))
+    }
+
+    // The history may have stopped loading before getting to the commit,
+    // i.e. when another batch was being loaded or loading it failed, and
+    // selecting a commit which isn't in the list would leave the history
+    // without a visible selection.
+    if (
+      !this.repositoryStateCache
+        .get(repository)
+        .compareState.commitSHAs.includes(sha)
+    ) {
+      this.emitError(
+        new Error(
+          `Commit ${shortenSHA(sha)} could not be found in the history.`
+        )
+      )
+      return
+    }
+
+    this._changeCommitSelection(repository, [sha], true)
+    this.emitUpdate()
+
+    return this._loadChangedFilesForCurrentSelection(repository)
+  }
+
   /** This shouldn't be called directly. See `Dispatcher`. */
   public async _loadChangedFilesForCurrentSelection(
     repository: Repository
@@ -1708,19 +1920,22 @@ export class AppStore extends TypedBaseStore<IAppState> {
       return
     }
 
+    const { diffSettings } = stateBeforeLoad
     const diff =
       shas.length > 1
         ? await getCommitRangeDiff(
             repository,
             file,
             this.orderShasByHistory(repository, shas),
-            this.hideWhitespaceInHistoryDiff
+            this.hideWhitespaceInHistoryDiff,
+            diffSettings
           )
         : await getCommitDiff(
             repository,
             file,
             shas[0],
-            this.hideWhitespaceInHistoryDiff
+            this.hideWhitespaceInHistoryDiff,
+            diffSettings
           )
 
     const stateAfterLoad = this.repositoryStateCache.get(repository)
@@ -2063,6 +2278,7 @@ export class AppStore extends TypedBaseStore<IAppState> {
     this.repositories = repositories
 
     this.updateRepositorySelectionAfterRepositoriesChanged()
+    this.loadMissingWorktrees()
 
     this.sidebarWidth = constrain(
       getNumber(sidebarWidthConfigKey, defaultSidebarWidth)
@@ -2152,11 +2368,16 @@ export class AppStore extends TypedBaseStore<IAppState> {
       hideWhitespaceInPullRequestDiffKey,
       false
     )
+    this.showAllBranchesInHistory = getBoolean(
+      showAllBranchesInHistoryKey,
+      showAllBranchesInHistoryDefault
+    )
     this.commitSpellcheckEnabled = getBoolean(
       commitSpellcheckEnabledKey,
       commitSpellcheckEnabledDefault
     )
     this.showSideBySideDiff = getShowSideBySideDiff()
+    this.showBlame = getShowBlame()
 
     this.selectedTheme = getPersistedThemeName()
     // Make sure the persisted theme is applied
@@ -2819,7 +3040,8 @@ export class AppStore extends TypedBaseStore<IAppState> {
     const diff = await getWorkingDirectoryDiff(
       repository,
       selectedFileBeforeLoad,
-      this.hideWhitespaceInChangesDiff
+      this.hideWhitespaceInChangesDiff,
+      stateBeforeLoad.diffSettings
     )
 
     const stateAfterLoad = this.repositoryStateCache.get(repository)
@@ -3028,7 +3250,13 @@ export class AppStore extends TypedBaseStore<IAppState> {
       return
     }
 
-    const diff = await getCommitDiff(repository, file, file.commitish)
+    const diff = await getCommitDiff(
+      repository,
+      file,
+      file.commitish,
+      false,
+      stateBeforeLoad.diffSettings
+    )
 
     const stateAfterLoad = this.repositoryStateCache.get(repository)
     const changesStateAfterLoad = stateAfterLoad.changesState
@@ -3066,10 +3294,35 @@ export class AppStore extends TypedBaseStore<IAppState> {
     const gitStore = this.gitStoreCache.get(repository)
 
     return this.withIsCommitting(repository, async () => {
-      const result = await gitStore.performFailableOperation(async () => {
-        const message = await formatCommitMessage(repository, context)
-        return createCommit(repository, message, selectedFiles, context.amend)
-      })
+      const hookProgressCallback = context.noVerify
+        ? undefined
+        : await this.startHookOutput(repository, 'commit', CommitHookNames)
+
+      const result = await gitStore.performFailableOperation(
+        async () => {
+          const message = await formatCommitMessage(repository, context)
+          return createCommit(
+            repository,
+            message,
+            await this.getFilesWithDefaultDiffSelection(
+              repository,
+              selectedFiles
+            ),
+            context.amend,
+            context.noVerify,
+            hookProgressCallback
+          )
+        },
+        {
+          retryAction: {
+            type: RetryActionType.Commit,
+            repository,
+            commitContext: { ...context, noVerify: true },
+          },
+        }
+      )
+
+      this.finishHookOutput(repository)
 
       if (result !== undefined) {
         await this._recordCommitStats(
@@ -3345,6 +3598,9 @@ export class AppStore extends TypedBaseStore<IAppState> {
       gitStore.updateLastFetched(),
       gitStore.loadStashEntries(),
       this._refreshAuthor(repository),
+      this.refreshWorktrees(repository),
+      this.refreshBisectState(repository),
+      this.refreshCommitMessageTemplate(repository),
       refreshSectionPromise,
     ])
 
@@ -3457,6 +3713,57 @@ export class AppStore extends TypedBaseStore<IAppState> {
     }
   }
 
+  /**
+   * Reload the list of worktrees attached to the given repository, used to
+   * group linked worktrees below their main repository in the repository list.
+   */
+  private async refreshWorktrees(repository: Repository) {
+    const worktrees = await listWorktrees(repository).catch(e => {
+      log.error(`Failed listing worktrees for ${repository.path}`, e)
+      return []
+    })
+
+    const lookup = new Map(this.worktreesLookup)
+    lookup.set(repository.id, worktrees)
+    this.worktreesLookup = lookup
+    this.emitUpdate()
+  }
+
+  /**
+   * Load the worktrees of the repositories which haven't had them loaded yet
+   * so that they can be grouped in the repository list. After that only the
+   * selected repository's worktrees are refreshed (when it's refreshed) along
+   * with the repositories affected by a worktree operation.
+   */
+  private async loadMissingWorktrees() {
+    for (const repository of this.repositories) {
+      if (
+        !repository.missing &&
+        !this.worktreesLookup.has(repository.id) &&
+        (await pathExists(repository.path))
+      ) {
+        await this.refreshWorktrees(repository)
+      }
+    }
+  }
+
+  /**
+   * Reload the worktrees of the given repository and of all repositories in
+   * the app which are worktrees of the same main repository.
+   */
+  private async refreshRelatedWorktrees(repository: Repository) {
+    const worktrees = this.worktreesLookup.get(repository.id) ?? []
+    const paths = new Set(
+      [repository.path, ...worktrees.map(w => w.path)].map(p => Path.resolve(p))
+    )
+
+    for (const r of this.repositories) {
+      if (paths.has(Path.resolve(r.path))) {
+        await this.refreshWorktrees(r)
+      }
+    }
+  }
+
   private getRepositoriesForIndicatorRefresh = () => {
     // The currently selected repository will get refreshed by both the
     // BackgroundFetcher and the refreshRepository call from the
@@ -3698,9 +4005,15 @@ export class AppStore extends TypedBaseStore<IAppState> {
   }
 
   /** This shouldn't be called directly. See `Dispatcher`. */
-  public async _createTag(repository: Repository, name: string, sha: string) {
+  public async _createTag(
+    repository: Repository,
+    name: string,
+    sha: string,
+    message?: string,
+    sign?: boolean
+  ) {
     const gitStore = this.gitStoreCache.get(repository)
-    await gitStore.createTag(name, sha)
+    await gitStore.createTag(name, sha, message, sign)
   }
 
   /** This shouldn't be called directly. See `Dispatcher`. */
@@ -3709,6 +4022,59 @@ export class AppStore extends TypedBaseStore<IAppState> {
     await gitStore.deleteTag(name)
   }
 
+  /** This shouldn't be called directly. See `Dispatcher`. */
+  public _refreshRemoteTags(repository: Repository): Promise<void> {
+    return this.withAuthenticatingUser(repository, (r, account) =>
+      this.gitStoreCache.get(r).refreshRemoteTags(account)
+    )
+  }
+
+  /** This shouldn't be called directly. See `Dispatcher`. */
+  public _pushTag(repository: Repository, name: string): Promise<void> {
+    return this.withAuthenticatingUser(repository, (r, account) =>
+      this.gitStoreCache.get(r).pushTag(account, name)
+    )
+  }
+
+  /** This shouldn't be called directly. See `Dispatcher`. */
+  public _deleteRemoteTag(repository: Repository, name: string): Promise<void> {
+    return this.withAuthenticatingUser(repository, (r, account) =>
+      this.gitStoreCache.get(r).deleteRemoteTag(account, name)
+    )
+  }
+
+  /**
+   * Create a draft release on GitHub for a tag which has been pushed.
+   *
+   * This shouldn't be called directly. See `Dispatcher`.
+   */
+  public async _draftTagRelease(
+    repository: RepositoryWithGitHubRepository,
+    tagName: string,
+    releaseName: string,
+    notes: string,
+    prerelease: boolean
+  ): Promise<IAPIRelease> {
+    const account = getAccountForRepository(this.accounts, repository)
+
+    if (account === null) {
+      throw new Error(
+        'You need to be signed in to the account the repository belongs to in order to draft a release.'
+      )
+    }
+
+    const { owner, name } = repository.gitHubRepository
+
+    return API.fromAccount(account).createDraftRelease(
+      owner.login,
+      name,
+      tagName,
+      releaseName,
+      notes,
+      prerelease
+    )
+  }
+
   private updateCheckoutProgress(
     repository: Repository,
     checkoutProgress: ICheckoutProgress | null
@@ -4143,93 +4509,319 @@ export class AppStore extends TypedBaseStore<IAppState> {
     return this._refreshRepository(repository)
   }
 
-  /** This shouldn't be called directly. See `Dispatcher`. */
-  public async _deleteBranch(
-    repository: Repository,
-    branch: Branch,
-    includeUpstream?: boolean,
-    toCheckout?: Branch | null
-  ): Promise<void> {
-    return this.withAuthenticatingUser(repository, async (r, account) => {
-      const gitStore = this.gitStoreCache.get(r)
-
-      // If solely a remote branch, there is no need to checkout a branch.
-      if (branch.type === BranchType.Remote) {
-        const { remoteName, tip, nameWithoutRemote } = branch
-        if (remoteName === null) {
-          // This is based on the branches ref. It should not be null for a
-          // remote branch
-          throw new Error(
-            `Could not determine remote name from: ${branch.ref}.`
-          )
-        }
+  private async refreshCommitMessageTemplate(repository: Repository) {
+    const commitMessageTemplate = await getCommitMessageTemplate(
+      repository
+    ).catch(e => {
+      log.error(
+        `Failed loading commit message template for ${repository.path}`,
+        e
+      )
+      return null
+    })
 
-        await gitStore.performFailableOperation(() =>
-          deleteRemoteBranch(r, account, remoteName, nameWithoutRemote)
-        )
+    const { changesState } = this.repositoryStateCache.get(repository)
+    const current = changesState.commitMessageTemplate
 
-        // We log the remote branch's sha so that the user can recover it.
-        log.info(
-          `Deleted branch ${branch.upstreamWithoutRemote} (was ${tip.sha})`
-        )
+    // Keep the existing instance so the commit message component can tell
+    // the template apart from one which actually changed.
+    if (
+      current === commitMessageTemplate ||
+      (current !== null &&
+        commitMessageTemplate !== null &&
+        structuralEquals(current, commitMessageTemplate))
+    ) {
+      return
+    }
 
-        return this._refreshRepository(r)
-      }
+    this.repositoryStateCache.updateChangesState(repository, () => ({
+      commitMessageTemplate,
+    }))
+    this.emitUpdate()
+  }
 
-      // If a local branch, user may have the branch to delete checked out and
-      // we need to switch to a different branch (default or recent).
-      const branchToCheckout =
-        toCheckout ?? this.getBranchToCheckoutAfterDelete(branch, r)
+  private async refreshBisectState(repository: Repository) {
+    const bisectState = await getBisectState(repository).catch(e => {
+      log.error(`Failed loading bisect state for ${repository.path}`, e)
+      return null
+    })
 
-      if (branchToCheckout !== null) {
-        await gitStore.performFailableOperation(() =>
-          checkoutBranch(r, account, branchToCheckout)
-        )
-      }
+    this.repositoryStateCache.update(repository, () => ({ bisectState }))
+    this.emitUpdate()
+  }
 
-      await gitStore.performFailableOperation(() => {
-        return this.deleteLocalBranchAndUpstreamBranch(
-          repository,
-          branch,
-          account,
-          includeUpstream
-        )
-      })
+  /**
+   * Start bisecting in order to find the commit which introduced a
+   * regression.
+   *
+   * This shouldn't be called directly. See `Dispatcher`.
+   *
+   * @param bad  - A commit known to contain the regression
+   * @param good - A commit known not to contain the regression or null to
+   *               have the user pick one later.
+   */
+  public async _startBisect(
+    repository: Repository,
+    bad: CommitOneLine,
+    good: CommitOneLine | null
+  ): Promise<void> {
+    const gitStore = this.gitStoreCache.get(repository)
+    await gitStore.performFailableOperation(() =>
+      startBisect(repository, bad.sha, good?.sha ?? null)
+    )
 
-      return this._refreshRepository(r)
-    })
+    return this.refreshAfterBisectStep(repository)
   }
 
   /**
-   * Deletes the local branch. If the parameter `includeUpstream` is true, the
-   * upstream branch will be deleted also.
+   * Mark a commit as good, bad or skipped in the current bisect session.
+   *
+   * This shouldn't be called directly. See `Dispatcher`.
+   *
+   * @param sha - The commit to mark or undefined to mark the commit which is
+   *              currently being tested.
    */
-  private async deleteLocalBranchAndUpstreamBranch(
+  public async _markBisectCommit(
     repository: Repository,
-    branch: Branch,
-    account: IGitAccount | null,
-    includeUpstream?: boolean
+    mark: BisectMark,
+    sha?: string
   ): Promise<void> {
-    await deleteLocalBranch(repository, branch.name)
+    const gitStore = this.gitStoreCache.get(repository)
+    await gitStore.performFailableOperation(() =>
+      markBisectCommit(repository, mark, sha)
+    )
 
-    if (
-      includeUpstream === true &&
-      branch.upstreamRemoteName !== null &&
-      branch.upstreamWithoutRemote !== null
-    ) {
-      await deleteRemoteBranch(
+    return this.refreshAfterBisectStep(repository)
+  }
+
+  /**
+   * Refresh the repository after Git has checked out the next commit to
+   * test and show the result once bisecting is done.
+   */
+  private async refreshAfterBisectStep(repository: Repository) {
+    await this._refreshRepository(repository)
+
+    const { bisectState } = this.repositoryStateCache.get(repository)
+    if (bisectState !== null && isBisectFinished(bisectState)) {
+      this._showPopup({
+        type: PopupType.BisectFinished,
         repository,
-        account,
-        branch.upstreamRemoteName,
-        branch.upstreamWithoutRemote
-      )
+        bisectState,
+      })
     }
-    return
   }
 
-  private getBranchToCheckoutAfterDelete(
-    branchToDelete: Branch,
-    repository: Repository
+  /**
+   * End the current bisect session, checking out whatever was checked out
+   * before bisecting started.
+   *
+   * This shouldn't be called directly. See `Dispatcher`.
+   */
+  public async _resetBisect(repository: Repository): Promise<void> {
+    const gitStore = this.gitStoreCache.get(repository)
+    await gitStore.performFailableOperation(() => resetBisect(repository))
+
+    return this._refreshRepository(repository)
+  }
+
+  /**
+   * Create a new worktree linked to the given repository.
+   *
+   * This shouldn't be called directly. See `Dispatcher`.
+   *
+   * @returns true if the worktree was created, false otherwise
+   */
+  public async _createWorktree(
+    repository: Repository,
+    branch: Branch,
+    path: string,
+    newBranchName: string | null
+  ): Promise<boolean> {
+    const gitStore = this.gitStoreCache.get(repository)
+    const result = await gitStore.performFailableOperation(async () => {
+      if (newBranchName !== null) {
+        await addWorktree(repository, path, branch.name, newBranchName)
+      } else {
+        await addWorktree(repository, path, branch.name)
+      }
+      return true
+    })
+
+    await this._refreshRepository(repository)
+
+    return result === true
+  }
+
+  /**
+   * Remove the given linked worktree from disk and from the app.
+   *
+   * This shouldn't be called directly. See `Dispatcher`.
+   *
+   * @param force - Whether to remove the worktree even if it has uncommitted
+   *                changes or is locked.
+   */
+  public async _removeWorktree(
+    repository: Repository,
+    force: boolean
+  ): Promise<void> {
+    const gitStore = this.gitStoreCache.get(repository)
+    const removed = await gitStore.performFailableOperation(async () => {
+      await removeWorktree(repository, repository.path, force)
+      return true
+    })
+
+    if (removed !== true) {
+      return
+    }
+
+    await this._removeRepository(repository, false)
+    await this.refreshRelatedWorktrees(repository)
+
+    const lookup = new Map(this.worktreesLookup)
+    lookup.delete(repository.id)
+    this.worktreesLookup = lookup
+    this.emitUpdate()
+  }
+
+  /** This shouldn't be called directly. See `Dispatcher`. */
+  public async _lockWorktree(repository: Repository): Promise<void> {
+    const gitStore = this.gitStoreCache.get(repository)
+    await gitStore.performFailableOperation(() =>
+      lockWorktree(repository, repository.path)
+    )
+
+    return this.refreshRelatedWorktrees(repository)
+  }
+
+  /** This shouldn't be called directly. See `Dispatcher`. */
+  public async _unlockWorktree(repository: Repository): Promise<void> {
+    const gitStore = this.gitStoreCache.get(repository)
+    await gitStore.performFailableOperation(() =>
+      unlockWorktree(repository, repository.path)
+    )
+
+    return this.refreshRelatedWorktrees(repository)
+  }
+
+  /** This shouldn't be called directly. See `Dispatcher`. */
+  public async _pruneWorktrees(repository: Repository): Promise<void> {
+    const gitStore = this.gitStoreCache.get(repository)
+    await gitStore.performFailableOperation(() => pruneWorktrees(repository))
+
+    return this.refreshRelatedWorktrees(repository)
+  }
+
+  /**
+   * Update which directories are checked out in a sparse checkout.
+   *
+   * This shouldn't be called directly. See `Dispatcher`.
+   *
+   * @param paths - The directories to check out or null to turn off sparse
+   *                checkout and check out all files.
+   */
+  public async _setSparseCheckoutPaths(
+    repository: Repository,
+    paths: ReadonlyArray<string> | null
+  ): Promise<void> {
+    await this.withAuthenticatingUser(repository, (r, account) => {
+      const gitStore = this.gitStoreCache.get(r)
+      return gitStore.performFailableOperation(() =>
+        paths === null
+          ? disableSparseCheckout(r, account)
+          : setSparseCheckoutPaths(r, account, paths)
+      )
+    })
+
+    return this._refreshRepository(repository)
+  }
+
+  /** This shouldn't be called directly. See `Dispatcher`. */
+  public async _deleteBranch(
+    repository: Repository,
+    branch: Branch,
+    includeUpstream?: boolean,
+    toCheckout?: Branch | null
+  ): Promise<void> {
+    return this.withAuthenticatingUser(repository, async (r, account) => {
+      const gitStore = this.gitStoreCache.get(r)
+
+      // If solely a remote branch, there is no need to checkout a branch.
+      if (branch.type === BranchType.Remote) {
+        const { remoteName, tip, nameWithoutRemote } = branch
+        if (remoteName === null) {
+          // This is based on the branches ref. It should not be null for a
+          // remote branch
+          throw new Error(
+            `Could not determine remote name from: ${branch.ref}.`
+          )
+        }
+
+        await gitStore.performFailableOperation(() =>
+          deleteRemoteBranch(r, account, remoteName, nameWithoutRemote)
+        )
+
+        // We log the remote branch's sha so that the user can recover it.
+        log.info(
+          `Deleted branch ${branch.upstreamWithoutRemote} (was ${tip.sha})`
+        )
+
+        return this._refreshRepository(r)
+      }
+
+      // If a local branch, user may have the branch to delete checked out and
+      // we need to switch to a different branch (default or recent).
+      const branchToCheckout =
+        toCheckout ?? this.getBranchToCheckoutAfterDelete(branch, r)
+
+      if (branchToCheckout !== null) {
+        await gitStore.performFailableOperation(() =>
+          checkoutBranch(r, account, branchToCheckout)
+        )
+      }
+
+      await gitStore.performFailableOperation(() => {
+        return this.deleteLocalBranchAndUpstreamBranch(
+          repository,
+          branch,
+          account,
+          includeUpstream
+        )
+      })
+
+      return this._refreshRepository(r)
+    })
+  }
+
+  /**
+   * Deletes the local branch. If the parameter `includeUpstream` is true, the
+   * upstream branch will be deleted also.
+   */
+  private async deleteLocalBranchAndUpstreamBranch(
+    repository: Repository,
+    branch: Branch,
+    account: IGitAccount | null,
+    includeUpstream?: boolean
+  ): Promise<void> {
+    await deleteLocalBranch(repository, branch.name)
+
+    if (
+      includeUpstream === true &&
+      branch.upstreamRemoteName !== null &&
+      branch.upstreamWithoutRemote !== null
+    ) {
+      await deleteRemoteBranch(
+        repository,
+        account,
+        branch.upstreamRemoteName,
+        branch.upstreamWithoutRemote
+      )
+    }
+    return
+  }
+
+  private getBranchToCheckoutAfterDelete(
+    branchToDelete: Branch,
+    repository: Repository
   ): Branch | null {
     const { branchesState } = this.repositoryStateCache.get(repository)
     const tip = branchesState.tip
@@ -4378,6 +4970,12 @@ export class AppStore extends TypedBaseStore<IAppState> {
         }
 
         const gitStore = this.gitStoreCache.get(repository)
+        const hookProgressCallback = await this.startHookOutput(
+          repository,
+          'push',
+          ['pre-push']
+        )
+
         await gitStore.performFailableOperation(
           async () => {
             await pushRepo(
@@ -4394,7 +4992,8 @@ export class AppStore extends TypedBaseStore<IAppState> {
                   title: pushTitle,
                   value: pushWeight * progress.value,
                 })
-              }
+              },
+              hookProgressCallback
             )
             gitStore.clearTagsToPush()
 
@@ -4439,6 +5038,7 @@ export class AppStore extends TypedBaseStore<IAppState> {
           { retryAction }
         )
 
+        this.finishHookOutput(repository)
         this.updatePushPullFetchProgress(repository, null)
 
         this.updateMenuLabelsForSelectedRepository()
@@ -4455,6 +5055,93 @@ export class AppStore extends TypedBaseStore<IAppState> {
     })
   }
 
+  /**
+   * Start collecting the output of the hooks run by Git as part of the given
+   * operation.
+   *
+   * @param hookNames The hooks run by the operation
+   * @returns The callback to pass along to Git, or undefined if none of the
+   *          hooks are configured for the repository.
+   */
+  private async startHookOutput(
+    repository: Repository,
+    operation: HookOperation,
+    hookNames: ReadonlyArray<string>
+  ): Promise<((progress: HookProgress) => void) | undefined> {
+    const hooks = await getRepositoryHooks(repository).catch(e => {
+      log.error(`Failed loading hooks for ${repository.path}`, e)
+      return null
+    })
+
+    if (hooks === null || !hooks.hooks.some(h => hookNames.includes(h))) {
+      return undefined
+    }
+
+    this.repositoryStateCache.update(repository, () => ({
+      hookOutput: {
+        operation,
+        hookName: null,
+        manager: hooks.manager,
+        lines: [],
+        isRunning: true,
+      },
+    }))
+    this.emitUpdate()
+
+    return progress => this.updateHookOutput(repository, progress)
+  }
+
+  private updateHookOutput(repository: Repository, progress: HookProgress) {
+    const { hookOutput } = this.repositoryStateCache.get(repository)
+
+    if (hookOutput === null || !hookOutput.isRunning) {
+      return
+    }
+
+    if (progress.kind === 'hook-started') {
+      this.repositoryStateCache.update(repository, () => ({
+        hookOutput: { ...hookOutput, hookName: progress.hookName },
+      }))
+    } else if (progress.kind === 'hook-output') {
+      const lines = [...hookOutput.lines, progress.text].slice(
+        -MaxHookOutputLines
+      )
+      this.repositoryStateCache.update(repository, () => ({
+        hookOutput: { ...hookOutput, lines },
+      }))
+    } else {
+      return
+    }
+
+    this.emitUpdate()
+  }
+
+  /**
+   * Mark the hooks of the current operation as done, keeping the output
+   * around until dismissed if there is any.
+   */
+  private finishHookOutput(repository: Repository) {
+    const { hookOutput } = this.repositoryStateCache.get(repository)
+
+    if (hookOutput === null || !hookOutput.isRunning) {
+      return
+    }
+
+    this.repositoryStateCache.update(repository, () => ({
+      hookOutput:
+        hookOutput.lines.length > 0
+          ? { ...hookOutput, isRunning: false }
+          : null,
+    }))
+    this.emitUpdate()
+  }
+
+  /** This shouldn't be called directly. See `Dispatcher`. */
+  public _dismissHookOutput(repository: Repository) {
+    this.repositoryStateCache.update(repository, () => ({ hookOutput: null }))
+    this.emitUpdate()
+  }
+
   private async withIsCommitting(
     repository: Repository,
     fn: () => Promise<boolean>
@@ -4717,7 +5404,7 @@ export class AppStore extends TypedBaseStore<IAppState> {
   public _clone(
     url: string,
     path: string,
-    options?: { branch?: string; defaultBranch?: string }
+    options?: Omit<CloneOptions, 'account'>
   ): {
     promise: Promise<boolean>
     repository: CloningRepository
@@ -4777,12 +5464,72 @@ export class AppStore extends TypedBaseStore<IAppState> {
     diff: ITextDiff,
     selection: DiffSelection
   ) {
+    const { changesState, diffSettings } =
+      this.repositoryStateCache.get(repository)
+    const file = changesState.workingDirectory.files.find(
+      f => f.path === filePath
+    )
+    let patchDiff: ITextDiff | ILargeTextDiff = diff
+    let patchSelection = selection
+
+    // The lines were selected in a diff generated with the repository's diff
+    // settings so we have to find the same lines in git's default diff before
+    // we can create a patch which applies.
+    if (
+      file !== undefined &&
+      (this.hideWhitespaceInChangesDiff || changesDiffLines(diffSettings))
+    ) {
+      const defaultDiff = await getWorkingDirectoryDiff(repository, file)
+
+      if (
+        defaultDiff.kind === DiffType.Text ||
+        defaultDiff.kind === DiffType.LargeText
+      ) {
+        patchDiff = defaultDiff
+        patchSelection = mapDiffSelection(
+          selection,
+          diff.hunks,
+          defaultDiff.hunks
+        )
+      }
+    }
+
     const gitStore = this.gitStoreCache.get(repository)
-    await gitStore.discardChangesFromSelection(filePath, diff, selection)
+    await gitStore.discardChangesFromSelection(
+      filePath,
+      patchDiff,
+      patchSelection
+    )
 
     return this._refreshRepository(repository)
   }
 
+  /**
+   * Get the given files with their partially selected lines, which were
+   * selected in diffs generated with the repository's diff settings, mapped
+   * to the lines of the diffs git generates by default.
+   */
+  private async getFilesWithDefaultDiffSelection(
+    repository: Repository,
+    files: ReadonlyArray<WorkingDirectoryFileChange>
+  ) {
+    const { diffSettings } = this.repositoryStateCache.get(repository)
+    const mappedFiles = new Array<WorkingDirectoryFileChange>()
+
+    for (const file of files) {
+      const selection = await getDefaultDiffSelection(
+        repository,
+        file,
+        file.selection,
+        this.hideWhitespaceInChangesDiff,
+        diffSettings
+      )
+      mappedFiles.push(file.withSelection(selection))
+    }
+
+    return mappedFiles
+  }
+
   public _setRepositoryCommitToAmend(
     repository: Repository,
     commit: Commit | null
@@ -4871,6 +5618,23 @@ export class AppStore extends TypedBaseStore<IAppState> {
     return this._refreshRepository(repository)
   }
 
+  /** This shouldn't be called directly. See `Dispatcher`. */
+  public async _resetToReflogEntry(
+    repository: Repository,
+    entry: IReflogEntry
+  ): Promise<void> {
+    const gitStore = this.gitStoreCache.get(repository)
+    const commit = await gitStore.performFailableOperation(() =>
+      getCommit(repository, entry.sha)
+    )
+
+    if (commit == null) {
+      return
+    }
+
+    return this._resetToCommit(repository, commit, true)
+  }
+
   /**
    * Fetch a specific refspec for the repository.
    *
@@ -5558,6 +6322,212 @@ export class AppStore extends TypedBaseStore<IAppState> {
     }
   }
 
+  private cancelHistorySearch(repository: Repository) {
+    this.historySearches.get(repository.hash)?.cancel()
+    this.historySearches.delete(repository.hash)
+  }
+
+  /**
+   * Search the history of the current branch (or all branches) for commits
+   * matching the given filters, replacing the commits in the history tab with
+   * the results as they're found. Searching without filters goes back to
+   * showing the full history.
+   *
+   * This shouldn't be called directly. See `Dispatcher`.
+   */
+  public async _searchHistory(
+    repository: Repository,
+    filters: ReadonlyArray<IHistoryFilter>
+  ): Promise<void> {
+    this.cancelHistorySearch(repository)
+
+    if (filters.length === 0) {
+      this.repositoryStateCache.updateCompareState(repository, () => ({
+        historyFilters: [],
+        isSearchingHistory: false,
+        commitSHAs: [],
+      }))
+      return this._executeCompare(repository, { kind: HistoryTabMode.History })
+    }
+
+    this.repositoryStateCache.updateCompareState(repository, () => ({
+      formState: { kind: HistoryTabMode.History },
+      historyFilters: filters,
+      historyIncludesAllBranches: this.showAllBranchesInHistory,
+      isSearchingHistory: true,
+      commitSHAs: [],
+    }))
+    this.emitUpdate()
+
+    const gitStore = this.gitStoreCache.get(repository)
+    const search = gitStore.searchCommits(
+      filters,
+      getHistoryLogArgs(this.showAllBranchesInHistory),
+      found => {
+        const { commitSHAs } =
+          this.repositoryStateCache.get(repository).compareState
+        const updated = commitSHAs.concat(found)
+
+        this.repositoryStateCache.updateCompareState(repository, () => ({
+          commitSHAs: updated,
+        }))
+
+        if (commitSHAs.length === 0) {
+          this.updateOrSelectFirstCommit(repository, updated)
+        }
+
+        this.emitUpdate()
+      }
+    )
+
+    this.historySearches.set(repository.hash, search)
+
+    try {
+      await search.done
+    } catch (e) {
+      this.emitError(e)
+    }
+
+    // Another search has been started, or the search has been cancelled
+    if (this.historySearches.get(repository.hash) !== search) {
+      return
+    }
+
+    this.historySearches.delete(repository.hash)
+    this.repositoryStateCache.updateCompareState(repository, () => ({
+      isSearchingHistory: false,
+    }))
+
+    const { commitSHAs } =
+      this.repositoryStateCache.get(repository).compareState
+    if (commitSHAs.length === 0) {
+      this.updateOrSelectFirstCommit(repository, commitSHAs)
+    }
+
+    this.emitUpdate()
+  }
+
+  /** This shouldn't be called directly. See `Dispatcher`. */
+  public async _setShowAllBranchesInHistory(
+    repository: Repository,
+    showAllBranchesInHistory: boolean
+  ): Promise<void> {
+    setBoolean(showAllBranchesInHistoryKey, showAllBranchesInHistory)
+    this.showAllBranchesInHistory = showAllBranchesInHistory
+    this.emitUpdate()
+
+    const { compareState } = this.repositoryStateCache.get(repository)
+    if (compareState.formState.kind !== HistoryTabMode.History) {
+      return
+    }
+
+    if (compareState.historyFilters.length > 0) {
+      return this._searchHistory(repository, compareState.historyFilters)
+    }
+
+    const gitStore = this.gitStoreCache.get(repository)
+    const commits = await gitStore.loadCommitBatch(
+      'HEAD',
+      0,
+      getHistoryLogArgs(this.showAllBranchesInHistory)
+    )
+
+    if (commits === null) {
+      return
+    }
+
+    this.repositoryStateCache.updateCompareState(repository, () => ({
+      commitSHAs: commits,
+      historyIncludesAllBranches: showAllBranchesInHistory,
+    }))
+    this.updateOrSelectFirstCommit(repository, commits)
+    this.emitUpdate()
+  }
+
+  /** This shouldn't be called directly. See `Dispatcher`. */
+  public async _updateDiffSettings(
+    repository: Repository,
+    diffSettings: IDiffSettings
+  ): Promise<void> {
+    const { diffSettings: previousSettings, commitSelection } =
+      this.repositoryStateCache.get(repository)
+
+    storeDiffSettings(repository, diffSettings)
+    this.repositoryStateCache.update(repository, () => ({ diffSettings }))
+    this.emitUpdate()
+
+    // Soft wrapping is only a matter of presentation, everything else changes
+    // the lines in the diffs.
+    if (
+      previousSettings.contextLines === diffSettings.contextLines &&
+      previousSettings.ignoreBlankLines === diffSettings.ignoreBlankLines &&
+      previousSettings.ignoreLineEndings === diffSettings.ignoreLineEndings
+    ) {
+      return
+    }
+
+    if (commitSelection.file !== null) {
+      this._changeFileSelection(repository, commitSelection.file)
+    }
+
+    const { pullRequestState } = this.repositoryStateCache.get(repository)
+    const pullRequestFile = pullRequestState?.commitSelection?.file ?? null
+    if (pullRequestFile !== null) {
+      this._changePullRequestFileSelection(repository, pullRequestFile)
+    }
+
+    await this.mapPartialSelectionsToDiffSettings(
+      repository,
+      previousSettings,
+      diffSettings
+    )
+
+    return this.refreshChangesSection(repository, {
+      includingStatus: true,
+      clearPartialState: false,
+    })
+  }
+
+  /**
+   * Map the lines selected in the partially selected files of the working
+   * directory from the diffs generated with the previous diff settings to the
+   * diffs generated with the new ones.
+   */
+  private async mapPartialSelectionsToDiffSettings(
+    repository: Repository,
+    previousSettings: IDiffSettings,
+    diffSettings: IDiffSettings
+  ) {
+    const { files } =
+      this.repositoryStateCache.get(repository).changesState.workingDirectory
+    const hideWhitespace = this.hideWhitespaceInChangesDiff
+
+    for (const file of files) {
+      if (file.selection.getSelectionType() !== DiffSelectionType.Partial) {
+        continue
+      }
+
+      const [previousDiff, diff] = await Promise.all([
+        getWorkingDirectoryDiff(
+          repository,
+          file,
+          hideWhitespace,
+          previousSettings
+        ),
+        getWorkingDirectoryDiff(repository, file, hideWhitespace, diffSettings),
+      ])
+
+      const selection =
+        (previousDiff.kind === DiffType.Text ||
+          previousDiff.kind === DiffType.LargeText) &&
+        (diff.kind === DiffType.Text || diff.kind === DiffType.LargeText)
+          ? mapDiffSelection(file.selection, previousDiff.hunks, diff.hunks)
+          : file.selection.withSelectNone()
+
+      this.updateWorkingDirectoryFileSelection(repository, file, selection)
+    }
+  }
+
   public _setShowSideBySideDiff(showSideBySideDiff: boolean) {
     if (showSideBySideDiff !== this.showSideBySideDiff) {
       setShowSideBySideDiff(showSideBySideDiff)
@@ -5567,6 +6537,14 @@ export class AppStore extends TypedBaseStore<IAppState> {
     }
   }
 
+  public _setShowBlame(showBlame: boolean) {
+    if (showBlame !== this.showBlame) {
+      setShowBlame(showBlame)
+      this.showBlame = showBlame
+      this.emitUpdate()
+    }
+  }
+
   public _setUpdateBannerVisibility(visibility: boolean) {
     this.isUpdateAvailableBannerVisible = visibility
 
@@ -6517,6 +7495,19 @@ export class AppStore extends TypedBaseStore<IAppState> {
     this.emitUpdate()
   }
 
+  /** This shouldn't be called directly. See `Dispatcher`. */
+  public async _forgetRecordedResolution(
+    repository: Repository,
+    path: string
+  ): Promise<void> {
+    const gitStore = this.gitStoreCache.get(repository)
+    await gitStore.performFailableOperation(() =>
+      forgetRecordedResolution(repository, path)
+    )
+
+    return this._refreshRepository(repository)
+  }
+
   /**
    * Updates the multi commit operation conflict step state as the manual
    * resolutions have been changed.
@@ -6596,7 +7587,7 @@ export class AppStore extends TypedBaseStore<IAppState> {
   ) {
     const gitStore = this.gitStoreCache.get(repository)
     await gitStore.performFailableOperation(() => {
-      return dropDesktopStashEntry(repository, stashEntry.stashSha)
+      return dropStashEntry(repository, stashEntry.stashSha)
     })
     log.info(
       `[AppStore. _dropStashEntry] dropped stash with commit id ${stashEntry.stashSha}`
@@ -6606,6 +7597,87 @@ export class AppStore extends TypedBaseStore<IAppState> {
     await gitStore.loadStashEntries()
   }
 
+  /** This shouldn't be called directly. See `Dispatcher`. */
+  public async _applyStashEntry(
+    repository: Repository,
+    stashEntry: IStashEntry
+  ) {
+    const gitStore = this.gitStoreCache.get(repository)
+    await gitStore.performFailableOperation(() =>
+      applyStashEntry(repository, stashEntry.stashSha)
+    )
+    log.info(
+      `[AppStore. _applyStashEntry] applied stash with commit id ${stashEntry.stashSha}`
+    )
+
+    await this._refreshRepository(repository)
+  }
+
+  /**
+   * Stash the changes currently included in the Changes list, i.e. the
+   * selected files and lines, leaving the rest of the changes in place.
+   *
+   * This shouldn't be called directly. See `Dispatcher`.
+   */
+  public async _createStashFromSelection(
+    repository: Repository,
+    message: string
+  ): Promise<boolean> {
+    const { workingDirectory } =
+      this.repositoryStateCache.get(repository).changesState
+    const selectedFiles = workingDirectory.files.filter(
+      file => file.selection.getSelectionType() !== DiffSelectionType.None
+    )
+
+    if (selectedFiles.length === 0) {
+      return false
+    }
+
+    const gitStore = this.gitStoreCache.get(repository)
+    const created = await gitStore.performFailableOperation(async () =>
+      createStashEntry(
+        repository,
+        message,
+        await this.getFilesWithDefaultDiffSelection(repository, selectedFiles)
+      )
+    )
+
+    await this._refreshRepository(repository)
+
+    return created === true
+  }
+
+  /** This shouldn't be called directly. See `Dispatcher`. */
+  public async _createBranchFromStashEntry(
+    repository: Repository,
+    stashEntry: IStashEntry,
+    branchName: string
+  ): Promise<boolean> {
+    const gitStore = this.gitStoreCache.get(repository)
+    const result = await gitStore.performFailableOperation(async () => {
+      await createBranchFromStashEntry(
+        repository,
+        branchName,
+        stashEntry.stashSha
+      )
+      return true
+    })
+
+    await this._refreshRepository(repository)
+
+    return result === true
+  }
+
+  /** This shouldn't be called directly. See `Dispatcher`. */
+  public _loadStashEntryFiles(
+    repository: Repository,
+    stashEntry: IStashEntry
+  ): Promise<void> {
+    return this.gitStoreCache
+      .get(repository)
+      .loadStashEntryFiles(stashEntry.stashSha)
+  }
+
   /** This shouldn't be called directly. See `Dispatcher`. */
   public _setStashedFilesWidth(width: number): Promise<void> {
     this.stashedFilesWidth = { ...this.stashedFilesWidth, value: width }
@@ -7063,6 +8135,27 @@ export class AppStore extends TypedBaseStore<IAppState> {
     return result || RebaseResult.Error
   }
 
+  /** This shouldn't be called directly. See `Dispatcher`. */
+  public async _interactiveRebase(
+    repository: Repository,
+    steps: ReadonlyArray<IInteractiveRebaseStep>,
+    lastRetainedCommitRef: string | null
+  ): Promise<RebaseResult> {
+    const progressCallback =
+      this.getMultiCommitOperationProgressCallBack(repository)
+    const gitStore = this.gitStoreCache.get(repository)
+    const result = await gitStore.performFailableOperation(() =>
+      interactiveRebase(
+        repository,
+        steps,
+        lastRetainedCommitRef,
+        progressCallback
+      )
+    )
+
+    return result || RebaseResult.Error
+  }
+
   /** This shouldn't be called directly. See `Dispatcher`. */
   public async _squash(
     repository: Repository,
@@ -7176,6 +8269,12 @@ export class AppStore extends TypedBaseStore<IAppState> {
           commitsCount,
         }
         break
+      case MultiCommitOperationKind.InteractiveRebase:
+        banner = {
+          type: BannerType.InteractiveRebaseUndone,
+          commitsCount,
+        }
+        break
       case MultiCommitOperationKind.CherryPick:
         const sourceBranch =
           operationDetail.kind === MultiCommitOperationKind.CherryPick
@@ -7703,7 +8802,8 @@ export class AppStore extends TypedBaseStore<IAppState> {
             baseBranch.name,
             currentBranch.name,
             this.hideWhitespaceInPullRequestDiff,
-            commitSHAs[0]
+            commitSHAs[0],
+            this.repositoryStateCache.get(repository).diffSettings
           )
         )) ?? null
 
@@ -15,8 +15,9 @@ import {
   ICompareResult,
 } from '../../models/branch'
 import { Tip, TipState } from '../../models/tip'
-import { Commit } from '../../models/commit'
+import { Commit, CommitSignatureStatus } from '../../models/commit'
 import { IRemote } from '../../models/remote'
+import QuickLRU from 'quick-lru'
 import { IFetchProgress, IRevertProgress } from '../../models/progress'
 import {
   ICommitMessage,
@@ -71,10 +72,16 @@ import {
   createTag,
   getAllTags,
   deleteTag,
+  getRemoteTags,
+  pushTag,
+  deleteRemoteTag,
   MergeResult,
   createBranch,
   updateRemoteHEAD,
   getRemoteHEAD,
+  searchCommits,
+  ICommitSearch,
+  getCommitSignatureStatuses,
 } from '../git'
 import { GitError as DugiteError } from '../../lib/git'
 import { GitError } from 'dugite'
@@ -92,21 +99,29 @@ import { GitAuthor } from '../../models/git-author'
 import { IGitAccount } from '../../models/git-account'
 import { BaseStore } from './base-store'
 import { getStashes, getStashedFiles } from '../git/stash'
-import { IStashEntry, StashedChangesLoadStates } from '../../models/stash-entry'
+import {
+  IStashEntry,
+  StashedChangesLoadStates,
+  StashedFileChanges,
+} from '../../models/stash-entry'
 import { PullRequest } from '../../models/pull-request'
 import { StatsStore } from '../stats'
 import { getTagsToPush, storeTagsToPush } from './helpers/tags-to-push-storage'
-import { DiffSelection, ITextDiff } from '../../models/diff'
+import { DiffSelection, ILargeTextDiff, ITextDiff } from '../../models/diff'
 import { getDefaultBranch } from '../helpers/default-branch'
 import { stat } from 'fs/promises'
 import { findForkedRemotesToPrune } from './helpers/find-forked-remotes-to-prune'
 import { findDefaultBranch } from '../find-default-branch'
+import { IHistoryFilter } from '../../models/history-filter'
 
 /** The number of commits to load from history per batch. */
 const CommitBatchSize = 100
 
 const LoadingHistoryRequestKey = 'history'
 
+/** The max number of commits to find when searching the history. */
+const HistorySearchLimit = 10000
+
 /** The max number of recent branches to find. */
 const RecentBranchesLimit = 5
 
@@ -121,6 +136,21 @@ export class GitStore extends BaseStore {
 
   private readonly requestsInFight = new Set<string>()
 
+  /**
+   * The results of verifying the signatures of commits keyed by their SHA,
+   * which are applied to the commits whenever they're loaded again.
+   */
+  private readonly signatureStatuses = new QuickLRU<
+    string,
+    CommitSignatureStatus
+  >({ maxSize: 2500 })
+
+  /** The SHAs of the commits waiting to have their signatures verified */
+  private readonly signaturesToVerify = new Set<string>()
+
+  /** The SHAs of the commits having their signatures verified */
+  private readonly signaturesBeingVerified = new Set<string>()
+
   private _tip: Tip = { kind: TipState.Unknown }
 
   private _defaultBranch: Branch | null = null
@@ -129,6 +159,8 @@ export class GitStore extends BaseStore {
 
   private _localTags: Map<string, string> | null = null
 
+  private _remoteTags: ReadonlyMap<string, string> | null = null
+
   private _allBranches: ReadonlyArray<Branch> = []
 
   private _recentBranches: ReadonlyArray<Branch> = []
@@ -157,6 +189,8 @@ export class GitStore extends BaseStore {
 
   private _stashEntryCount = 0
 
+  private _stashEntries: ReadonlyArray<IStashEntry> = []
+
   public constructor(
     private readonly repository: Repository,
     private readonly shell: IAppShell,
@@ -212,13 +246,25 @@ export class GitStore extends BaseStore {
     this.emitUpdate()
   }
 
-  /** Load a batch of commits from the repository, using a given commitish object as the starting point */
-  public async loadCommitBatch(commitish: string, skip: number) {
+  /**
+   * Load a batch of commits from the repository, using a given commitish object
+   * as the starting point
+   *
+   * @param additionalArgs Additional arguments for `git log`, i.e. to include
+   *                       the commits of other refs
+   */
+  public async loadCommitBatch(
+    commitish: string,
+    skip: number,
+    additionalArgs: ReadonlyArray<string> = []
+  ) {
     if (this.requestsInFight.has(LoadingHistoryRequestKey)) {
       return null
     }
 
-    const requestKey = `history/compare/${commitish}/skip/${skip}`
+    const requestKey = `history/compare/${commitish}/skip/${skip}/${additionalArgs.join(
+      ' '
+    )}`
     if (this.requestsInFight.has(requestKey)) {
       return null
     }
@@ -226,7 +272,13 @@ export class GitStore extends BaseStore {
     this.requestsInFight.add(requestKey)
 
     const commits = await this.performFailableOperation(() =>
-      getCommits(this.repository, commitish, CommitBatchSize, skip)
+      getCommits(
+        this.repository,
+        commitish,
+        CommitBatchSize,
+        skip,
+        additionalArgs
+      )
     )
 
     this.requestsInFight.delete(requestKey)
@@ -238,6 +290,32 @@ export class GitStore extends BaseStore {
     return commits.map(c => c.sha)
   }
 
+  /**
+   * Search the history for commits matching the given filters, storing the
+   * commits as they're found.
+   *
+   * @param additionalArgs Additional arguments for `git log`, i.e. to include
+   *                       the commits of other refs
+   * @param onCommits      Called with the SHAs of every batch of commits found
+   */
+  public searchCommits(
+    filters: ReadonlyArray<IHistoryFilter>,
+    additionalArgs: ReadonlyArray<string>,
+    onCommits: (commitSHAs: ReadonlyArray<string>) => void
+  ): ICommitSearch {
+    return searchCommits(
+      this.repository,
+      'HEAD',
+      filters,
+      HistorySearchLimit,
+      additionalArgs,
+      commits => {
+        this.storeCommits(commits)
+        onCommits(commits.map(c => c.sha))
+      }
+    )
+  }
+
   public async refreshTags() {
     const previousTags = this._localTags
     const newTags = await this.performFailableOperation(() =>
@@ -336,9 +414,14 @@ export class GitStore extends BaseStore {
     return undefined
   }
 
-  public async createTag(name: string, targetCommitSha: string) {
+  public async createTag(
+    name: string,
+    targetCommitSha: string,
+    message?: string,
+    sign?: boolean
+  ) {
     const result = await this.performFailableOperation(async () => {
-      await createTag(this.repository, name, targetCommitSha)
+      await createTag(this.repository, name, targetCommitSha, message, sign)
       return true
     })
 
@@ -368,6 +451,74 @@ export class GitStore extends BaseStore {
     this.statsStore.recordTagDeleted()
   }
 
+  /**
+   * Load the tags of the current remote. Nothing is loaded if there is no
+   * remote.
+   */
+  public async refreshRemoteTags(account: IGitAccount | null) {
+    const remote = this.currentRemote
+
+    if (remote === null) {
+      return
+    }
+
+    const tags = await this.performFailableOperation(() =>
+      getRemoteTags(this.repository, account, remote)
+    )
+
+    if (tags !== undefined) {
+      this._remoteTags = tags
+      this.emitUpdate()
+    }
+  }
+
+  /** Push a single tag to the current remote. */
+  public async pushTag(account: IGitAccount | null, name: string) {
+    const remote = this.currentRemote
+    const sha = this._localTags?.get(name)
+
+    if (remote === null || sha === undefined) {
+      return
+    }
+
+    const result = await this.performFailableOperation(async () => {
+      await pushTag(this.repository, account, remote, name)
+      return true
+    })
+
+    if (result === true) {
+      this.updateRemoteTags(tags => tags.set(name, sha))
+      this.removeTagToPush(name)
+    }
+  }
+
+  /** Delete a single tag from the current remote, keeping the local tag. */
+  public async deleteRemoteTag(account: IGitAccount | null, name: string) {
+    const remote = this.currentRemote
+
+    if (remote === null) {
+      return
+    }
+
+    const result = await this.performFailableOperation(async () => {
+      await deleteRemoteTag(this.repository, account, remote, name)
+      return true
+    })
+
+    if (result === true) {
+      this.updateRemoteTags(tags => tags.delete(name))
+      this.emitUpdate()
+    }
+  }
+
+  private updateRemoteTags(fn: (tags: Map<string, string>) => void) {
+    if (this._remoteTags !== null) {
+      const tags = new Map(this._remoteTags)
+      fn(tags)
+      this._remoteTags = tags
+    }
+  }
+
   /** The list of ordered SHAs. */
   public get history(): ReadonlyArray<string> {
     return this._history
@@ -381,6 +532,14 @@ export class GitStore extends BaseStore {
     return this._localTags
   }
 
+  /**
+   * The tags of the current remote along with the commits they point to, or
+   * null if they haven't been loaded.
+   */
+  public get remoteTags(): ReadonlyMap<string, string> | null {
+    return this._remoteTags
+  }
+
   /** Load all the branches. */
   public async loadBranches() {
     const [localAndRemoteBranches, recentBranchNames] = await Promise.all([
@@ -642,7 +801,64 @@ export class GitStore extends BaseStore {
   /** Store the given commits. */
   private storeCommits(commits: ReadonlyArray<Commit>) {
     for (const commit of commits) {
-      this.commitLookup.set(commit.sha, commit)
+      const signatureStatus = this.signatureStatuses.get(commit.sha)
+
+      this.commitLookup.set(
+        commit.sha,
+        signatureStatus === undefined
+          ? commit
+          : withSignatureStatus(commit, signatureStatus)
+      )
+    }
+  }
+
+  /**
+   * Verify the signatures of the given commits unless they've already been
+   * verified, updating the commits in `commitLookup` with the results.
+   *
+   * Verifying runs gpg or ssh-keygen so this should only be done for the
+   * commits the user is looking at. Requests made while rendering the same
+   * rows of the history are verified together.
+   */
+  public verifyCommitSignatures(shas: ReadonlyArray<string>) {
+    const queued = this.signaturesToVerify.size > 0
+
+    for (const sha of shas) {
+      if (
+        !this.signatureStatuses.has(sha) &&
+        !this.signaturesBeingVerified.has(sha)
+      ) {
+        this.signaturesToVerify.add(sha)
+      }
+    }
+
+    if (!queued && this.signaturesToVerify.size > 0) {
+      setImmediate(() => this.verifyQueuedCommitSignatures())
+    }
+  }
+
+  private async verifyQueuedCommitSignatures() {
+    const shas = [...this.signaturesToVerify]
+    this.signaturesToVerify.clear()
+    shas.forEach(sha => this.signaturesBeingVerified.add(sha))
+
+    try {
+      const statuses = await getCommitSignatureStatuses(this.repository, shas)
+
+      for (const [sha, status] of statuses) {
+        this.signatureStatuses.set(sha, status)
+
+        const commit = this.commitLookup.get(sha)
+        if (commit !== undefined) {
+          this.commitLookup.set(sha, withSignatureStatus(commit, status))
+        }
+      }
+
+      this.emitUpdate()
+    } catch (e) {
+      log.error('Failed verifying commit signatures', e)
+    } finally {
+      shas.forEach(sha => this.signaturesBeingVerified.delete(sha))
     }
   }
 
@@ -1130,7 +1346,8 @@ export class GitStore extends BaseStore {
   }
 
   /**
-   * Refreshes the list of GitHub Desktop created stash entries for the repository
+   * Refreshes the list of stash entries for the repository, both the ones
+   * created by GitHub Desktop and all entries
    */
   public async loadStashEntries(): Promise<void> {
     const map = new Map<string, IStashEntry>()
@@ -1155,6 +1372,16 @@ export class GitStore extends BaseStore {
 
     this._desktopStashEntries = map
     this._stashEntryCount = stash.stashEntryCount
+    this._stashEntries = stash.entries.map(entry => {
+      // See above, the files of an entry don't change as long as its SHA
+      // stays the same.
+      const existing = this._stashEntries.find(
+        e => e.stashSha === entry.stashSha
+      )
+      return existing !== undefined
+        ? { ...entry, files: existing.files }
+        : entry
+    })
     this.emitUpdate()
 
     this.loadFilesForCurrentStashEntry()
@@ -1179,6 +1406,11 @@ export class GitStore extends BaseStore {
     return this._stashEntryCount
   }
 
+  /** All stash entries in the repository, in LIFO order */
+  public get stashEntries(): ReadonlyArray<IStashEntry> {
+    return this._stashEntries
+  }
+
   /** The number of stash entries created by Desktop */
   public get desktopStashEntryCount(): number {
     return this._desktopStashEntries.size
@@ -1226,6 +1458,41 @@ export class GitStore extends BaseStore {
     this.emitUpdate()
   }
 
+  /**
+   * Updates the stash entry with the given SHA in the list of all stash
+   * entries with a list of files that it changes
+   */
+  public async loadStashEntryFiles(stashSha: string) {
+    const stashEntry = this._stashEntries.find(e => e.stashSha === stashSha)
+
+    if (
+      !stashEntry ||
+      stashEntry.files.kind !== StashedChangesLoadStates.NotLoaded
+    ) {
+      return
+    }
+
+    this.updateStashEntryFiles(stashSha, {
+      kind: StashedChangesLoadStates.Loading,
+    })
+
+    const files = await getStashedFiles(this.repository, stashSha)
+
+    this.updateStashEntryFiles(stashSha, {
+      kind: StashedChangesLoadStates.Loaded,
+      files,
+    })
+  }
+
+  private updateStashEntryFiles(stashSha: string, files: StashedFileChanges) {
+    // The list of entries might have been refreshed in the meantime in which
+    // case we only update the entry if it's still around.
+    this._stashEntries = this._stashEntries.map(e =>
+      e.stashSha === stashSha ? { ...e, files } : e
+    )
+    this.emitUpdate()
+  }
+
   public async loadRemotes(): Promise<void> {
     const remotes = await getRemotes(this.repository)
     this._defaultRemote = findDefaultRemote(remotes)
@@ -1559,7 +1826,7 @@ export class GitStore extends BaseStore {
 
   public async discardChangesFromSelection(
     filePath: string,
-    diff: ITextDiff,
+    diff: ITextDiff | ILargeTextDiff,
     selection: DiffSelection
   ) {
     await this.performFailableOperation(() =>
@@ -1685,3 +1952,22 @@ export class GitStore extends BaseStore {
     return commits
   }
 }
+
+/** Get a copy of the commit with the given signature status */
+function withSignatureStatus(
+  commit: Commit,
+  signatureStatus: CommitSignatureStatus
+) {
+  return new Commit(
+    commit.sha,
+    commit.shortSha,
+    commit.summary,
+    commit.body,
+    commit.author,
+    commit.committer,
+    commit.parentSHAs,
+    commit.trailers,
+    commit.tags,
+    signatureStatus
+  )
+}
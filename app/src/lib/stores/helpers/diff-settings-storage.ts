@@ -0,0 +1,58 @@
+import { getObject, setObject } from '../../local-storage'
+import { Repository } from '../../../models/repository'
+import { defaultDiffSettings, IDiffSettings } from '../../../models/diff'
+
+/**
+ * Get from local storage the diff settings for the given repository, falling
+ * back to the default for any setting which hasn't been stored.
+ *
+ * @param repository the repository object
+ */
+export function getDiffSettings(repository: Repository): IDiffSettings {
+  const stored = getObject<Partial<IDiffSettings>>(
+    getDiffSettingsKey(repository)
+  )
+
+  if (stored === undefined || typeof stored !== 'object' || stored === null) {
+    return defaultDiffSettings
+  }
+
+  const { contextLines, ignoreBlankLines, ignoreLineEndings, softWrap } = stored
+
+  return {
+    contextLines:
+      contextLines === null ||
+      (typeof contextLines === 'number' &&
+        Number.isInteger(contextLines) &&
+        contextLines >= 0)
+        ? contextLines
+        : defaultDiffSettings.contextLines,
+    ignoreBlankLines:
+      typeof ignoreBlankLines === 'boolean'
+        ? ignoreBlankLines
+        : defaultDiffSettings.ignoreBlankLines,
+    ignoreLineEndings:
+      typeof ignoreLineEndings === 'boolean'
+        ? ignoreLineEndings
+        : defaultDiffSettings.ignoreLineEndings,
+    softWrap:
+      typeof softWrap === 'boolean' ? softWrap : defaultDiffSettings.softWrap,
+  }
+}
+
+/**
+ * Store in local storage the diff settings for the given repository
+ *
+ * @param repository the repository object
+ * @param settings the settings to store
+ */
+export function storeDiffSettings(
+  repository: Repository,
+  settings: IDiffSettings
+) {
+  setObject(getDiffSettingsKey(repository), settings)
+}
+
+function getDiffSettingsKey(repository: Repository) {
+  return `diff-settings-${repository.id}`
+}
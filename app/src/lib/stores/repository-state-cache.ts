@@ -25,6 +25,7 @@ import { DefaultCommitMessage } from '../../models/commit-message'
 import { sendNonFatalException } from '../helpers/non-fatal-exception'
 import { StatsStore } from '../stats'
 import { RepoRulesInfo } from '../../models/repo-rules'
+import { getDiffSettings } from './helpers/diff-settings-storage'
 
 export class RepositoryStateCache {
   private readonly repositoryState = new Map<string, IRepositoryState>()
@@ -38,7 +39,7 @@ export class RepositoryStateCache {
       return existing
     }
 
-    const newItem = getInitialRepositoryState()
+    const newItem = getInitialRepositoryState(repository)
     this.repositoryState.set(repository.hash, newItem)
     return newItem
   }
@@ -292,7 +293,7 @@ export class RepositoryStateCache {
   }
 }
 
-function getInitialRepositoryState(): IRepositoryState {
+function getInitialRepositoryState(repository: Repository): IRepositoryState {
   return {
     commitSelection: {
       shas: [],
@@ -312,10 +313,12 @@ function getInitialRepositoryState(): IRepositoryState {
         diff: null,
       },
       commitMessage: DefaultCommitMessage,
+      commitMessageTemplate: null,
       coAuthors: [],
       showCoAuthoredBy: false,
       conflictState: null,
       stashEntry: null,
+      stashEntries: [],
       currentBranchProtected: false,
       currentRepoRulesInfo: new RepoRulesInfo(),
     },
@@ -340,6 +343,9 @@ function getInitialRepositoryState(): IRepositoryState {
       showBranchList: false,
       filterText: '',
       commitSHAs: [],
+      historyIncludesAllBranches: false,
+      historyFilters: [],
+      isSearchingHistory: false,
       shasToHighlight: [],
       branches: new Array<Branch>(),
       recentBranches: new Array<Branch>(),
@@ -350,6 +356,7 @@ function getInitialRepositoryState(): IRepositoryState {
     commitLookup: new Map<string, Commit>(),
     localCommitSHAs: [],
     localTags: null,
+    remoteTags: null,
     tagsToPush: null,
     aheadBehind: null,
     remote: null,
@@ -362,5 +369,8 @@ function getInitialRepositoryState(): IRepositoryState {
     revertProgress: null,
     multiCommitOperationUndoState: null,
     multiCommitOperationState: null,
+    bisectState: null,
+    hookOutput: null,
+    diffSettings: getDiffSettings(repository),
   }
 }
@@ -0,0 +1,102 @@
+import * as Path from 'path'
+import { StructuredDiff } from '../../models/structured-diff'
+import { getKeyPathDiff } from './key-paths'
+import {
+  getLockfileDiff,
+  LockfilePackages,
+  parseNpmLockfile,
+  parseYarnLockfile,
+} from './lockfiles'
+import { parseYaml } from './yaml'
+
+/** A way of computing a structured diff for a particular type of file */
+export interface IStructuredDiffProvider {
+  /** A description of the file type, i.e. 'JSON' or 'npm lockfile' */
+  readonly name: string
+
+  /** Whether the provider can compute structured diffs for the given file */
+  readonly canDiff: (path: string) => boolean
+
+  /**
+   * Compute the structured diff between two versions of a file. The contents
+   * are null when the file was added or deleted.
+   *
+   * Throws an error if either version of the file can't be parsed.
+   */
+  readonly getDiff: (
+    oldContents: string | null,
+    newContents: string | null
+  ) => StructuredDiff
+}
+
+function hasFileName(...fileNames: ReadonlyArray<string>) {
+  return (path: string) => fileNames.includes(Path.basename(path))
+}
+
+function hasExtension(...extensions: ReadonlyArray<string>) {
+  return (path: string) => extensions.includes(Path.extname(path).toLowerCase())
+}
+
+function parseDocument(
+  contents: string | null,
+  parse: (text: string) => unknown
+): unknown {
+  return contents === null ? undefined : parse(contents)
+}
+
+function lockfileProvider(
+  name: string,
+  fileNames: ReadonlyArray<string>,
+  parse: (text: string) => LockfilePackages
+): IStructuredDiffProvider {
+  return {
+    name,
+    canDiff: hasFileName(...fileNames),
+    getDiff: (oldContents, newContents) =>
+      getLockfileDiff(
+        oldContents === null ? new Map() : parse(oldContents),
+        newContents === null ? new Map() : parse(newContents)
+      ),
+  }
+}
+
+/**
+ * The structured diff providers in order of precedence, i.e. lockfiles come
+ * before the providers for the generic formats they're written in.
+ */
+const providers: ReadonlyArray<IStructuredDiffProvider> = [
+  lockfileProvider(
+    'npm lockfile',
+    ['package-lock.json', 'npm-shrinkwrap.json'],
+    parseNpmLockfile
+  ),
+  lockfileProvider('Yarn lockfile', ['yarn.lock'], parseYarnLockfile),
+  {
+    name: 'JSON',
+    canDiff: hasExtension('.json'),
+    getDiff: (oldContents, newContents) =>
+      getKeyPathDiff(
+        parseDocument(oldContents, JSON.parse),
+        parseDocument(newContents, JSON.parse)
+      ),
+  },
+  {
+    name: 'YAML',
+    canDiff: hasExtension('.yml', '.yaml'),
+    getDiff: (oldContents, newContents) =>
+      getKeyPathDiff(
+        parseDocument(oldContents, parseYaml),
+        parseDocument(newContents, parseYaml)
+      ),
+  },
+]
+
+/**
+ * Get the provider to use for showing a structured diff of the file at the
+ * given path, or null if the file can only be shown as a text diff.
+ */
+export function getStructuredDiffProvider(
+  path: string
+): IStructuredDiffProvider | null {
+  return providers.find(p => p.canDiff(path)) ?? null
+}
@@ -0,0 +1,98 @@
+import {
+  IKeyPathChange,
+  IKeyPathDiff,
+  KeyPathChangeType,
+  StructuredDiffKind,
+} from '../../models/structured-diff'
+
+/** Keys which can be written in dot notation, everything else is quoted */
+const IdentifierKey = /^[A-Za-z_$][\w$-]*$/
+
+function appendKey(path: string, key: string) {
+  if (IdentifierKey.test(key)) {
+    return path.length === 0 ? key : `${path}.${key}`
+  }
+
+  return `${path}[${JSON.stringify(key)}]`
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null
+}
+
+/**
+ * Get the scalar values of a document keyed by their path, formatted as
+ * JSON. Empty objects and arrays are included as values as well so that they
+ * don't disappear from the diff.
+ */
+export function getKeyPathValues(
+  value: unknown,
+  path: string = '',
+  values: Map<string, string> = new Map()
+): ReadonlyMap<string, string> {
+  if (Array.isArray(value) && value.length > 0) {
+    value.forEach((item, i) => getKeyPathValues(item, `${path}[${i}]`, values))
+  } else if (isObject(value) && Object.keys(value).length > 0) {
+    for (const [key, item] of Object.entries(value)) {
+      getKeyPathValues(item, appendKey(path, key), values)
+    }
+  } else {
+    values.set(path, JSON.stringify(value) ?? 'null')
+  }
+
+  return values
+}
+
+/**
+ * Compare two versions of a parsed document and list the values which were
+ * added or modified, in the order they appear in the new document, followed
+ * by the values which were removed.
+ *
+ * @param oldDocument The old version of the document, or undefined if the
+ *                    file was added.
+ * @param newDocument The new version of the document, or undefined if the
+ *                    file was deleted.
+ */
+export function getKeyPathDiff(
+  oldDocument: unknown,
+  newDocument: unknown
+): IKeyPathDiff {
+  const oldValues =
+    oldDocument === undefined ? new Map() : getKeyPathValues(oldDocument)
+  const newValues =
+    newDocument === undefined ? new Map() : getKeyPathValues(newDocument)
+  const changes = new Array<IKeyPathChange>()
+
+  for (const [path, newValue] of newValues) {
+    const oldValue = oldValues.get(path)
+
+    if (oldValue === undefined) {
+      changes.push({
+        type: KeyPathChangeType.Added,
+        path,
+        oldValue: null,
+        newValue,
+      })
+    } else if (oldValue !== newValue) {
+      changes.push({
+        type: KeyPathChangeType.Modified,
+        path,
+        oldValue,
+        newValue,
+      })
+    }
+  }
+
+  for (const [path, oldValue] of oldValues) {
+    if (!newValues.has(path)) {
+      changes.push({
+        type: KeyPathChangeType.Removed,
+        path,
+        oldValue,
+        newValue: null,
+      })
+    }
+  }
+
+  return { kind: StructuredDiffKind.KeyPaths, changes }
+}
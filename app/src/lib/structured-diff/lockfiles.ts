@@ -0,0 +1,194 @@
+import * as semver from 'semver'
+import {
+  ILockfileDiff,
+  IPackageChange,
+  PackageChangeType,
+  StructuredDiffKind,
+} from '../../models/structured-diff'
+
+const NodeModules = 'node_modules/'
+
+/** The versions of each package in a lockfile, keyed by package name */
+export type LockfilePackages = ReadonlyMap<string, ReadonlySet<string>>
+
+function addPackage(
+  packages: Map<string, Set<string>>,
+  name: string,
+  version: string
+) {
+  const versions = packages.get(name)
+  if (versions === undefined) {
+    packages.set(name, new Set([version]))
+  } else {
+    versions.add(version)
+  }
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null
+}
+
+/**
+ * Parse the packages out of an npm lockfile (`package-lock.json` or
+ * `npm-shrinkwrap.json`). Supports both the `packages` section of lockfile
+ * version 2 and above and the nested `dependencies` of version 1.
+ */
+export function parseNpmLockfile(text: string): LockfilePackages {
+  const lockfile = JSON.parse(text)
+  const packages = new Map<string, Set<string>>()
+
+  if (!isObject(lockfile)) {
+    throw new Error('The lockfile is not a JSON object')
+  }
+
+  if (isObject(lockfile.packages)) {
+    for (const [path, entry] of Object.entries(lockfile.packages)) {
+      // Entries outside of node_modules are the root project and its
+      // workspaces, and links point to workspaces, neither of which are
+      // dependencies.
+      const index = path.lastIndexOf(NodeModules)
+      if (index === -1 || !isObject(entry) || entry.link === true) {
+        continue
+      }
+
+      const name =
+        typeof entry.name === 'string'
+          ? entry.name
+          : path.substring(index + NodeModules.length)
+
+      if (typeof entry.version === 'string') {
+        addPackage(packages, name, entry.version)
+      }
+    }
+
+    return packages
+  }
+
+  const addDependencies = (dependencies: unknown) => {
+    if (!isObject(dependencies)) {
+      return
+    }
+
+    for (const [name, entry] of Object.entries(dependencies)) {
+      if (isObject(entry)) {
+        if (typeof entry.version === 'string') {
+          addPackage(packages, name, entry.version)
+        }
+        addDependencies(entry.dependencies)
+      }
+    }
+  }
+
+  addDependencies(lockfile.dependencies)
+
+  return packages
+}
+
+/**
+ * Get the name of the package from a yarn lockfile entry header, i.e. get
+ * `@babel/core` from `"@babel/core@^7.0.0", "@babel/core@^7.1.0":`.
+ */
+function getYarnPackageName(header: string): string | null {
+  const descriptor = header
+    .replace(/:$/, '')
+    .split(',')[0]
+    .trim()
+    .replace(/^"|"$/g, '')
+
+  const separator = descriptor.indexOf('@', 1)
+  return separator === -1 ? null : descriptor.substring(0, separator)
+}
+
+/**
+ * Parse the packages out of a `yarn.lock` file. Supports both the format
+ * used by Yarn 1 and the YAML based format used by later versions.
+ */
+export function parseYarnLockfile(text: string): LockfilePackages {
+  const packages = new Map<string, Set<string>>()
+  let name: string | null = null
+
+  for (const line of text.split(/\r?\n/)) {
+    if (line.length === 0 || line.startsWith('#')) {
+      continue
+    }
+
+    if (!/^\s/.test(line)) {
+      name = line.endsWith(':') ? getYarnPackageName(line) : null
+      continue
+    }
+
+    const match = /^\s+version:?\s+"?([^"\s]+)"?\s*$/.exec(line)
+    if (name !== null && match !== null) {
+      addPackage(packages, name, match[1])
+      name = null
+    }
+  }
+
+  return packages
+}
+
+function sortVersions(versions: ReadonlySet<string> | undefined) {
+  const sorted = [...(versions ?? [])]
+
+  return sorted.every(v => semver.valid(v) !== null)
+    ? sorted.sort(semver.compare)
+    : sorted.sort()
+}
+
+function getPackageChangeType(
+  oldVersions: ReadonlyArray<string>,
+  newVersions: ReadonlyArray<string>
+) {
+  if (oldVersions.length === 0) {
+    return PackageChangeType.Added
+  }
+
+  if (newVersions.length === 0) {
+    return PackageChangeType.Removed
+  }
+
+  if (oldVersions.length === 1 && newVersions.length === 1) {
+    const [oldVersion] = oldVersions
+    const [newVersion] = newVersions
+
+    if (
+      semver.valid(oldVersion) !== null &&
+      semver.valid(newVersion) !== null
+    ) {
+      return semver.gt(newVersion, oldVersion)
+        ? PackageChangeType.Upgraded
+        : PackageChangeType.Downgraded
+    }
+  }
+
+  return PackageChangeType.Changed
+}
+
+/**
+ * Compare the packages of two versions of a lockfile and list the packages
+ * which were added, removed or changed versions, sorted by name.
+ */
+export function getLockfileDiff(
+  oldPackages: LockfilePackages,
+  newPackages: LockfilePackages
+): ILockfileDiff {
+  const names = new Set([...oldPackages.keys(), ...newPackages.keys()])
+  const changes = new Array<IPackageChange>()
+
+  for (const name of [...names].sort()) {
+    const oldVersions = sortVersions(oldPackages.get(name))
+    const newVersions = sortVersions(newPackages.get(name))
+
+    if (
+      oldVersions.length === newVersions.length &&
+      oldVersions.every((v, i) => v === newVersions[i])
+    ) {
+      continue
+    }
+
+    const type = getPackageChangeType(oldVersions, newVersions)
+    changes.push({ type, name, oldVersions, newVersions })
+  }
+
+  return { kind: StructuredDiffKind.Lockfile, changes }
+}
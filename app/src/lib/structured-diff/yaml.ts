@@ -0,0 +1,774 @@
+/**
+ * A parser for the subset of YAML commonly found in configuration files:
+ * block mappings and sequences, plain, quoted and block scalars, flow
+ * collections, anchors, aliases and merge keys, and multiple documents.
+ *
+ * It's not a validating parser, its only purpose is to turn YAML documents
+ * into plain values which can be compared. Tags are ignored and documents
+ * using unsupported syntax throw an error.
+ */
+
+const DocumentStart = /^---(\s|$)/
+const DocumentEnd = /^\.\.\.\s*$/
+
+function isBlank(line: string) {
+  return stripComment(line).trim().length === 0
+}
+
+function indentOf(line: string) {
+  return line.length - line.trimStart().length
+}
+
+function isSequenceItem(text: string) {
+  return text === '-' || text.startsWith('- ')
+}
+
+/**
+ * Whether a quote at the given position starts a quoted scalar, as opposed to
+ * being part of a plain scalar such as `it's`.
+ */
+function isQuoteStart(line: string, index: number) {
+  const before = line.substring(0, index).trimEnd()
+  return (
+    before.length === 0 ||
+    /[\[{,]$/.test(before) ||
+    (/[:?-]$/.test(before) && index > before.length)
+  )
+}
+
+/** Remove any comment from the end of a line, respecting quoted strings. */
+function stripComment(line: string) {
+  let quote: string | null = null
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+
+    if (quote !== null) {
+      if (quote === '"' && char === '\\') {
+        i++
+      } else if (char === quote) {
+        quote = null
+      }
+    } else if ((char === '"' || char === "'") && isQuoteStart(line, i)) {
+      quote = char
+    } else if (char === '#' && (i === 0 || /\s/.test(line[i - 1]))) {
+      return line.substring(0, i)
+    }
+  }
+
+  return line
+}
+
+/**
+ * Find the index of the quote closing the quoted scalar starting at the given
+ * index, or -1 if it isn't closed.
+ */
+function findClosingQuote(text: string, start: number) {
+  const quote = text[start]
+
+  for (let i = start + 1; i < text.length; i++) {
+    if (quote === '"' && text[i] === '\\') {
+      i++
+    } else if (text[i] === quote) {
+      if (quote === "'" && text[i + 1] === "'") {
+        i++
+      } else {
+        return i
+      }
+    }
+  }
+
+  return -1
+}
+
+/**
+ * Find the colon separating the key from the value in a mapping entry, or -1
+ * if the text isn't a mapping entry.
+ */
+function findMappingColon(text: string) {
+  if (text.startsWith('"') || text.startsWith("'")) {
+    const end = findClosingQuote(text, 0)
+    if (end === -1) {
+      return -1
+    }
+
+    const rest = text.substring(end + 1).trimStart()
+    return rest === ':' || rest.startsWith(': ')
+      ? text.indexOf(':', end + 1)
+      : -1
+  }
+
+  if (text.startsWith('[') || text.startsWith('{')) {
+    return -1
+  }
+
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === ':' && (i === text.length - 1 || text[i + 1] === ' ')) {
+      return i
+    }
+  }
+
+  return -1
+}
+
+/** The escape sequences of double-quoted scalars, other than `\x`, `\u` etc */
+const escapes: { readonly [char: string]: string | undefined } = {
+  '0': '\0',
+  a: '\x07',
+  b: '\b',
+  t: '\t',
+  '\t': '\t',
+  n: '\n',
+  v: '\v',
+  f: '\f',
+  r: '\r',
+  e: '\x1b',
+  ' ': ' ',
+  '"': '"',
+  '/': '/',
+  '\\': '\\',
+  N: '\x85',
+  _: '\xa0',
+  L: '\u2028',
+  P: '\u2029',
+}
+
+/** The number of hex digits in the escape sequences for code points */
+const hexEscapeLengths: { readonly [char: string]: number | undefined } = {
+  x: 2,
+  u: 4,
+  U: 8,
+}
+
+function unescapeDoubleQuoted(text: string) {
+  return text.replace(
+    /\\(?:([xuU])([0-9a-fA-F]*)|([^xuU]))/g,
+    (match, hex: string | undefined, digits: string, char: string) => {
+      if (hex !== undefined) {
+        const length = hexEscapeLengths[hex] ?? 0
+        if (digits.length < length) {
+          throw new Error(`Invalid escape sequence '${match}'`)
+        }
+
+        const codePoint = parseInt(digits.substring(0, length), 16)
+        return String.fromCodePoint(codePoint) + digits.substring(length)
+      }
+
+      const escaped = escapes[char]
+      if (escaped === undefined) {
+        throw new Error(`Invalid escape sequence '${match}'`)
+      }
+      return escaped
+    }
+  )
+}
+
+function parseQuoted(text: string): string {
+  const content = text.substring(1, text.length - 1)
+
+  return text.startsWith("'")
+    ? content.replace(/''/g, "'")
+    : unescapeDoubleQuoted(content)
+}
+
+/** Resolve a plain scalar into a null, boolean, number or string value */
+function resolvePlainScalar(text: string): unknown {
+  if (/^(null|Null|NULL|~)?$/.test(text)) {
+    return null
+  }
+
+  if (/^(true|True|TRUE)$/.test(text)) {
+    return true
+  }
+
+  if (/^(false|False|FALSE)$/.test(text)) {
+    return false
+  }
+
+  if (/^[-+]?(\d+|\d*\.\d+|\d+\.\d*)([eE][-+]?\d+)?$/.test(text)) {
+    return Number(text)
+  }
+
+  if (/^0x[0-9a-fA-F]+$/.test(text)) {
+    return parseInt(text.substring(2), 16)
+  }
+
+  if (/^0o[0-7]+$/.test(text)) {
+    return parseInt(text.substring(2), 8)
+  }
+
+  if (/^[-+]?\.(inf|Inf|INF)$/.test(text)) {
+    return text.startsWith('-') ? -Infinity : Infinity
+  }
+
+  if (/^\.(nan|NaN|NAN)$/.test(text)) {
+    return NaN
+  }
+
+  return text
+}
+
+function parseKey(text: string): string {
+  const key = text.trim()
+  return key.startsWith('"') || key.startsWith("'")
+    ? parseQuoted(key)
+    : key.replace(/^\? /, '')
+}
+
+function isMapping(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Set a key of a parsed mapping. Keys like `__proto__` are defined as own
+ * properties, just like `JSON.parse` does, instead of changing the prototype.
+ */
+function setKey(mapping: Record<string, unknown>, key: string, value: unknown) {
+  Object.defineProperty(mapping, key, {
+    value,
+    enumerable: true,
+    writable: true,
+    configurable: true,
+  })
+}
+
+/**
+ * Whether the brackets of the flow collection starting the given text are
+ * closed, ignoring brackets in quoted scalars.
+ */
+function isFlowComplete(text: string) {
+  let depth = 0
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (char === '"' || char === "'") {
+      const end = findClosingQuote(text, i)
+      if (end === -1) {
+        return false
+      }
+      i = end
+    } else if (char === '[' || char === '{') {
+      depth++
+    } else if (char === ']' || char === '}') {
+      depth--
+    }
+  }
+
+  return depth <= 0
+}
+
+/**
+ * Join the lines of a multi-line quoted scalar, folding line breaks into
+ * spaces unless escaped in a double-quoted scalar.
+ */
+function joinQuotedLines(lines: ReadonlyArray<string>) {
+  return lines.reduce((joined, line) =>
+    /(^|[^\\])(\\\\)*\\$/.test(joined)
+      ? joined.substring(0, joined.length - 1) + line
+      : `${joined} ${line}`
+  )
+}
+
+/** A parser for flow collections, i.e. `[a, b]` or `{ a: 1 }` */
+class FlowParser {
+  private position = 0
+
+  public constructor(
+    private readonly text: string,
+    private readonly resolveAlias: (name: string) => unknown
+  ) {}
+
+  public parse(): unknown {
+    const value = this.parseValue()
+    this.skipWhitespace()
+
+    if (this.position < this.text.length) {
+      throw new Error(`Unexpected '${this.text[this.position]}' in flow value`)
+    }
+
+    return value
+  }
+
+  private skipWhitespace() {
+    while (/\s/.test(this.text[this.position] ?? '')) {
+      this.position++
+    }
+  }
+
+  private parseValue(): unknown {
+    this.skipWhitespace()
+    const char = this.text[this.position]
+
+    if (char === '[') {
+      return this.parseSequence()
+    } else if (char === '{') {
+      return this.parseMapping()
+    } else if (char === '"' || char === "'") {
+      return this.parseQuoted()
+    }
+
+    const start = this.position
+    while (
+      this.position < this.text.length &&
+      !/[,\]}]/.test(this.text[this.position]) &&
+      !(
+        this.text[this.position] === ':' &&
+        /[\s,\]}]/.test(this.text[this.position + 1] ?? ' ')
+      )
+    ) {
+      this.position++
+    }
+
+    const plain = this.text.substring(start, this.position).trim()
+    return plain.startsWith('*')
+      ? this.resolveAlias(plain.substring(1))
+      : resolvePlainScalar(plain)
+  }
+
+  private parseQuoted(): string {
+    const end = findClosingQuote(this.text, this.position)
+    if (end === -1) {
+      throw new Error('Unterminated quoted scalar in flow value')
+    }
+
+    const value = parseQuoted(this.text.substring(this.position, end + 1))
+    this.position = end + 1
+    return value
+  }
+
+  private expect(char: string) {
+    this.skipWhitespace()
+    if (this.text[this.position] !== char) {
+      throw new Error(`Expected '${char}' in flow value`)
+    }
+    this.position++
+  }
+
+  private parseSequence(): ReadonlyArray<unknown> {
+    const result = new Array<unknown>()
+    this.expect('[')
+    this.skipWhitespace()
+
+    while (this.text[this.position] !== ']') {
+      result.push(this.parseValue())
+      this.skipWhitespace()
+
+      if (this.text[this.position] === ',') {
+        this.position++
+        this.skipWhitespace()
+      } else if (this.text[this.position] !== ']') {
+        throw new Error(`Expected ',' or ']' in flow sequence`)
+      }
+    }
+
+    this.position++
+    return result
+  }
+
+  private parseMapping(): Record<string, unknown> {
+    const result: Record<string, unknown> = {}
+    this.expect('{')
+    this.skipWhitespace()
+
+    while (this.text[this.position] !== '}') {
+      const key = String(this.parseValue())
+      this.skipWhitespace()
+
+      if (this.text[this.position] === ':') {
+        this.position++
+        setKey(result, key, this.parseValue())
+      } else {
+        setKey(result, key, null)
+      }
+
+      this.skipWhitespace()
+      if (this.text[this.position] === ',') {
+        this.position++
+        this.skipWhitespace()
+      } else if (this.text[this.position] !== '}') {
+        throw new Error(`Expected ',' or '}' in flow mapping`)
+      }
+    }
+
+    this.position++
+    return result
+  }
+}
+
+class BlockParser {
+  private position = 0
+  private readonly anchors = new Map<string, unknown>()
+
+  public constructor(private readonly lines: Array<string>) {}
+
+  public parseDocument(): unknown {
+    const value = this.parseNode(-1)
+    this.skipBlankLines()
+
+    if (this.position < this.lines.length) {
+      throw new Error(`Unexpected content on line ${this.position + 1}`)
+    }
+
+    return value
+  }
+
+  private skipBlankLines() {
+    while (
+      this.position < this.lines.length &&
+      isBlank(this.lines[this.position])
+    ) {
+      this.position++
+    }
+  }
+
+  /** Parse a node indented further than its parent, or null if there is none */
+  private parseNode(parentIndent: number): unknown {
+    this.skipBlankLines()
+
+    if (this.position >= this.lines.length) {
+      return null
+    }
+
+    const indent = indentOf(this.lines[this.position])
+    return indent > parentIndent ? this.parseNodeAt(indent) : null
+  }
+
+  private parseNodeAt(indent: number): unknown {
+    const text = stripComment(this.lines[this.position]).trim()
+
+    if (isSequenceItem(text)) {
+      return this.parseSequence(indent)
+    }
+
+    if (findMappingColon(text) !== -1) {
+      return this.parseMapping(indent)
+    }
+
+    this.position++
+    return this.parseValue(text, indent - 1)
+  }
+
+  private parseSequence(indent: number): ReadonlyArray<unknown> {
+    const result = new Array<unknown>()
+
+    while (true) {
+      this.skipBlankLines()
+
+      if (this.position >= this.lines.length) {
+        break
+      }
+
+      const line = this.lines[this.position]
+      const text = stripComment(line).trim()
+
+      if (indentOf(line) !== indent || !isSequenceItem(text)) {
+        break
+      }
+
+      const item = line.substring(indent + 1)
+      const { value: rest, anchor } = this.parseProperties(item.trimStart())
+      const column = indent + 1 + item.length - rest.length
+      const restText = stripComment(rest).trim()
+
+      let value: unknown
+      if (restText.length === 0) {
+        this.position++
+        value = this.parseNode(indent)
+      } else if (
+        isSequenceItem(restText) ||
+        findMappingColon(restText) !== -1
+      ) {
+        // A collection starting on the same line as the sequence item, treat
+        // it as if it started on a line of its own at the same column.
+        this.lines[this.position] = ' '.repeat(column) + rest
+        value = this.parseNodeAt(column)
+      } else {
+        this.position++
+        value = this.parseValue(restText, indent)
+      }
+
+      if (anchor !== null) {
+        this.anchors.set(anchor, value)
+      }
+
+      result.push(value)
+    }
+
+    return result
+  }
+
+  private parseMapping(indent: number): Record<string, unknown> {
+    const result: Record<string, unknown> = {}
+    const merged = new Array<unknown>()
+
+    while (true) {
+      this.skipBlankLines()
+
+      if (this.position >= this.lines.length) {
+        break
+      }
+
+      const line = this.lines[this.position]
+      if (indentOf(line) !== indent) {
+        break
+      }
+
+      const text = stripComment(line).trim()
+      const colon = findMappingColon(text)
+
+      if (colon === -1) {
+        if (isSequenceItem(text)) {
+          break
+        }
+
+        throw new Error(`Expected a mapping entry on line ${this.position + 1}`)
+      }
+
+      const key = parseKey(text.substring(0, colon))
+      const { value: rest, anchor } = this.parseProperties(
+        text.substring(colon + 1).trim()
+      )
+      this.position++
+
+      let value: unknown
+      if (rest.length > 0) {
+        value = this.parseValue(rest, indent)
+      } else {
+        this.skipBlankLines()
+        const next = this.lines[this.position]
+
+        // Sequences are allowed to be at the same indentation as their key
+        value =
+          next !== undefined &&
+          indentOf(next) === indent &&
+          isSequenceItem(stripComment(next).trim())
+            ? this.parseSequence(indent)
+            : this.parseNode(indent)
+      }
+
+      if (anchor !== null) {
+        this.anchors.set(anchor, value)
+      }
+
+      if (key === '<<') {
+        merged.push(...(Array.isArray(value) ? value : [value]))
+      } else {
+        setKey(result, key, value)
+      }
+    }
+
+    // Keys given in the mapping itself take precedence over merged keys, and
+    // keys of earlier merged mappings over those of later ones.
+    for (const mapping of merged) {
+      if (!isMapping(mapping)) {
+        throw new Error('Only mappings can be merged into a mapping')
+      }
+
+      for (const [key, value] of Object.entries(mapping)) {
+        if (!Object.prototype.hasOwnProperty.call(result, key)) {
+          setKey(result, key, value)
+        }
+      }
+    }
+
+    return result
+  }
+
+  /** Split any anchor and tag off the start of a value */
+  private parseProperties(text: string) {
+    let value = text
+    let anchor: string | null = null
+    let match: RegExpMatchArray | null
+
+    while ((match = /^([&!])(\S*)\s*/.exec(value)) !== null) {
+      if (match[1] === '&') {
+        anchor = match[2]
+      }
+      value = value.substring(match[0].length)
+    }
+
+    return { value, anchor }
+  }
+
+  private resolveAlias = (name: string) => {
+    if (!this.anchors.has(name)) {
+      throw new Error(`Unknown alias '${name}'`)
+    }
+    return this.anchors.get(name)
+  }
+
+  /**
+   * Parse a value starting on a line which has already been consumed, and
+   * possibly continuing on the lines after it.
+   *
+   * @param text         The text of the value on the consumed line
+   * @param parentIndent The indentation of the entry the value belongs to
+   */
+  private parseValue(text: string, parentIndent: number): unknown {
+    const { value, anchor } = this.parseProperties(text)
+    const result = this.parseUnanchoredValue(value, parentIndent)
+
+    if (anchor !== null) {
+      this.anchors.set(anchor, result)
+    }
+
+    return result
+  }
+
+  private parseUnanchoredValue(text: string, parentIndent: number): unknown {
+    if (text.startsWith('|') || text.startsWith('>')) {
+      return this.parseBlockScalar(text, parentIndent)
+    }
+
+    if (text.startsWith('*')) {
+      return this.resolveAlias(text.substring(1).trim())
+    }
+
+    if (text.startsWith('[') || text.startsWith('{')) {
+      const flow = this.readFlowCollection(text)
+      return new FlowParser(flow, this.resolveAlias).parse()
+    }
+
+    const continuation = this.readContinuationLines(parentIndent)
+
+    if (text.startsWith('"')) {
+      return parseQuoted(joinQuotedLines([text, ...continuation]))
+    }
+
+    if (text.startsWith("'")) {
+      return parseQuoted([text, ...continuation].join(' '))
+    }
+
+    return continuation.length > 0
+      ? [text, ...continuation].join(' ')
+      : resolvePlainScalar(text)
+  }
+
+  /**
+   * Read the lines of a flow collection up to its closing bracket, which
+   * doesn't need to be indented, i.e. when the document is written as JSON.
+   */
+  private readFlowCollection(text: string) {
+    let flow = text
+
+    while (this.position < this.lines.length && !isFlowComplete(flow)) {
+      flow += ` ${stripComment(this.lines[this.position]).trim()}`
+      this.position++
+    }
+
+    return flow
+  }
+
+  /** Read the lines of a multi-line scalar */
+  private readContinuationLines(parentIndent: number) {
+    const lines = new Array<string>()
+
+    while (this.position < this.lines.length) {
+      const line = this.lines[this.position]
+
+      if (isBlank(line) || indentOf(line) <= parentIndent) {
+        break
+      }
+
+      lines.push(stripComment(line).trim())
+      this.position++
+    }
+
+    return lines
+  }
+
+  private parseBlockScalar(header: string, parentIndent: number): string {
+    const literal = header.startsWith('|')
+    const chomping = header.includes('-')
+      ? 'strip'
+      : header.includes('+')
+      ? 'keep'
+      : 'clip'
+
+    const lines = new Array<string>()
+    let blockIndent = -1
+
+    while (this.position < this.lines.length) {
+      const line = this.lines[this.position]
+
+      if (line.trim().length === 0) {
+        lines.push('')
+      } else if (indentOf(line) > parentIndent) {
+        if (blockIndent === -1) {
+          blockIndent = indentOf(line)
+        }
+        lines.push(line.substring(Math.min(blockIndent, indentOf(line))))
+      } else {
+        break
+      }
+
+      this.position++
+    }
+
+    let trailingNewlines = 0
+    while (lines.length > 0 && lines[lines.length - 1] === '') {
+      lines.pop()
+      trailingNewlines++
+    }
+
+    const content = literal
+      ? lines.join('\n')
+      : lines.reduce(
+          (folded, line, i) =>
+            i === 0
+              ? line
+              : line === '' || lines[i - 1] === ''
+              ? `${folded}\n${line}`
+              : `${folded} ${line}`,
+          ''
+        )
+
+    if (lines.length === 0 || chomping === 'strip') {
+      return content
+    }
+
+    return chomping === 'keep'
+      ? content + '\n'.repeat(trailingNewlines + 1)
+      : content + '\n'
+  }
+}
+
+/**
+ * Parse a YAML document into plain objects, arrays and scalars. Files
+ * containing multiple documents are returned as an array of documents.
+ *
+ * Throws an error if the text can't be parsed.
+ */
+export function parseYaml(text: string): unknown {
+  const documents = new Array<Array<string>>()
+  let current: Array<string> | null = null
+
+  for (const line of text.split(/\r?\n/)) {
+    if (DocumentStart.test(line)) {
+      current = []
+      documents.push(current)
+
+      const rest = stripComment(line.substring(3)).trim()
+      if (rest.length > 0 && !/^[!&]/.test(rest)) {
+        current.push(rest)
+      }
+    } else if (DocumentEnd.test(line)) {
+      current = null
+    } else if (current === null) {
+      // Directives are only allowed before the start of a document
+      if (line.startsWith('%') || isBlank(line)) {
+        continue
+      }
+
+      current = [line]
+      documents.push(current)
+    } else {
+      current.push(line)
+    }
+  }
+
+  const values = documents.map(lines => new BlockParser(lines).parseDocument())
+
+  return values.length === 0 ? null : values.length === 1 ? values[0] : values
+}
@@ -0,0 +1,36 @@
+import { Commit } from '../models/commit'
+
+/**
+ * Generate the notes of a release from the commits made since the previous
+ * release, as Markdown listing the summary of each commit.
+ *
+ * Merge commits are left out as the commits they merge are listed already.
+ *
+ * @param commits     The commits since the previous release, newest first
+ * @param previousTag The tag of the previous release, or null if this is the
+ *                    first release
+ * @param tag         The tag of the release
+ */
+export function generateTagReleaseNotes(
+  commits: ReadonlyArray<Commit>,
+  previousTag: string | null,
+  tag: string
+): string {
+  const changes = commits
+    .filter(c => !c.isMergeCommit)
+    .map(c => `- ${c.summary} (${c.shortSha})`)
+
+  const lines = [`## What's changed`, '']
+
+  if (changes.length === 0) {
+    lines.push('No changes.')
+  } else {
+    lines.push(...changes)
+  }
+
+  if (previousTag !== null) {
+    lines.push('', `**Full changelog**: ${previousTag}...${tag}`)
+  }
+
+  return lines.join('\n')
+}
@@ -193,6 +193,12 @@ export function buildDefaultMenu({
         accelerator: 'CmdOrCtrl+B',
         click: emit('show-branches'),
       },
+      {
+        label: __DARWIN__ ? 'Command Palette…' : 'Co&mmand palette…',
+        id: 'show-command-palette',
+        accelerator: 'CmdOrCtrl+K',
+        click: emit('show-command-palette'),
+      },
       separator,
       {
         label: __DARWIN__ ? 'Go to Summary' : 'Go to &Summary',
@@ -355,6 +361,11 @@ export function buildDefaultMenu({
         click: emit('create-issue-in-repository-on-github'),
       },
       separator,
+      {
+        label: __DARWIN__ ? 'Show Reflog…' : 'Show re&flog…',
+        id: 'show-reflog',
+        click: emit('show-reflog'),
+      },
       {
         label: __DARWIN__ ? 'Repository Settings…' : 'Repository &settings…',
         id: 'show-repository-settings',
@@ -397,6 +408,11 @@ export function buildDefaultMenu({
       accelerator: 'CmdOrCtrl+Shift+S',
       click: emit('stash-all-changes'),
     },
+    {
+      label: __DARWIN__ ? 'Show All Stashes…' : 'Show all stashes…',
+      id: 'show-stashes',
+      click: emit('show-stashes'),
+    },
     separator,
     {
       label: __DARWIN__
@@ -412,6 +428,11 @@ export function buildDefaultMenu({
       accelerator: 'CmdOrCtrl+Shift+B',
       click: emit('compare-to-branch'),
     },
+    {
+      label: __DARWIN__ ? 'Compare Refs…' : 'Compare re&fs…',
+      id: 'compare-refs',
+      click: emit('compare-refs'),
+    },
     {
       label: __DARWIN__
         ? 'Merge into Current Branch…'
@@ -434,6 +455,13 @@ export function buildDefaultMenu({
       accelerator: 'CmdOrCtrl+Shift+E',
       click: emit('rebase-branch'),
     },
+    {
+      label: __DARWIN__
+        ? 'Autosquash Fixup Commits…'
+        : 'Autos&quash fixup commits…',
+      id: 'autosquash-branch',
+      click: emit('autosquash-branch'),
+    },
     separator,
     {
       label: __DARWIN__ ? 'Compare on GitHub' : 'Compare on &GitHub',
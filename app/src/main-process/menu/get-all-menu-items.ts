@@ -1,4 +1,5 @@
 import { Menu, MenuItem } from 'electron'
+import { IMenu, MenuItem as AppMenuItem } from '../../models/app-menu'
 
 /**
  * Returns an iterator that traverses the menu and all
@@ -13,3 +14,19 @@ export function* getAllMenuItems(menu: Menu): IterableIterator<MenuItem> {
     }
   }
 }
+
+/**
+ * Returns an iterator that traverses the menu, as sent to the renderer,
+ * and all submenus and yields each menu item therein.
+ */
+export function* getAllAppMenuItems(
+  menu: IMenu
+): IterableIterator<AppMenuItem> {
+  for (const menuItem of menu.items) {
+    yield menuItem
+
+    if (menuItem.type === 'submenuItem') {
+      yield* getAllAppMenuItems(menuItem.menu)
+    }
+  }
+}
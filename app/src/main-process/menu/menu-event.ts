@@ -14,14 +14,18 @@ export type MenuEvent =
   | 'delete-branch'
   | 'discard-all-changes'
   | 'stash-all-changes'
+  | 'show-stashes'
   | 'show-preferences'
   | 'choose-repository'
   | 'open-working-directory'
   | 'update-branch-with-contribution-target-branch'
   | 'compare-to-branch'
+  | 'compare-refs'
   | 'merge-branch'
   | 'squash-and-merge-branch'
   | 'rebase-branch'
+  | 'autosquash-branch'
+  | 'show-reflog'
   | 'show-repository-settings'
   | 'open-in-shell'
   | 'compare-on-github'
@@ -30,6 +34,7 @@ export type MenuEvent =
   | 'clone-repository'
   | 'show-about'
   | 'go-to-commit-message'
+  | 'show-command-palette'
   | 'boomtown'
   | 'open-pull-request'
   | 'install-cli'
@@ -14,6 +14,8 @@ export enum BannerType {
   OpenThankYouCard = 'OpenThankYouCard',
   SuccessfulSquash = 'SuccessfulSquash',
   SuccessfulReorder = 'SuccessfulReorder',
+  SuccessfulInteractiveRebase = 'SuccessfulInteractiveRebase',
+  InteractiveRebaseUndone = 'InteractiveRebaseUndone',
   ConflictsFound = 'ConflictsFound',
   WindowsVersionNoLongerSupported = 'WindowsVersionNoLongerSupported',
 }
@@ -107,6 +109,18 @@ export type Banner =
       /** number of commits reordered */
       readonly commitsCount: number
     }
+  | {
+      readonly type: BannerType.SuccessfulInteractiveRebase
+      /** number of commits rebased */
+      readonly count: number
+      /** callback to run when user clicks undo link in banner */
+      readonly onUndo: () => void
+    }
+  | {
+      readonly type: BannerType.InteractiveRebaseUndone
+      /** number of commits rebased */
+      readonly commitsCount: number
+    }
   | {
       readonly type: BannerType.ConflictsFound
       /**
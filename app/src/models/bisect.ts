@@ -0,0 +1,52 @@
+import { CommitOneLine } from './commit'
+
+/** The ways in which a commit can be marked while bisecting */
+export type BisectMark = 'good' | 'bad' | 'skip'
+
+/** The state of an in-progress `git bisect` session */
+export interface IBisectState {
+  /**
+   * The commit currently checked out for testing, or null if the session
+   * hasn't been given both a good and a bad commit yet.
+   */
+  readonly current: CommitOneLine | null
+
+  /** The most recent commit known to be bad, if any */
+  readonly badSha: string | null
+
+  /** The commits known to be good */
+  readonly goodShas: ReadonlyArray<string>
+
+  /** The commits which have been skipped because they couldn't be tested */
+  readonly skippedShas: ReadonlyArray<string>
+
+  /**
+   * The number of commits which have yet to be tested before the first bad
+   * commit can be determined.
+   */
+  readonly remainingCount: number
+
+  /** An estimate of the number of steps left until bisecting is done */
+  readonly remainingSteps: number
+
+  /**
+   * The first bad commit, once it has been found. Null while still
+   * bisecting or when skipped commits prevent Git from narrowing it down.
+   */
+  readonly firstBadCommit: CommitOneLine | null
+
+  /**
+   * The commits which could be the first bad commit when only skipped
+   * commits remain to be tested. Empty in all other cases.
+   */
+  readonly possibleFirstBadShas: ReadonlyArray<string>
+}
+
+/**
+ * Whether the bisect session has narrowed the search down as far as it can,
+ * either by finding the first bad commit or by running out of commits that
+ * haven't been skipped.
+ */
+export function isBisectFinished(state: IBisectState) {
+  return state.firstBadCommit !== null || state.possibleFirstBadShas.length > 0
+}
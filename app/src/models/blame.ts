@@ -0,0 +1,70 @@
+import { CommitIdentity } from './commit-identity'
+
+/**
+ * The object id git uses in blame output for lines which haven't been
+ * committed yet, i.e. lines which only exist in the working directory.
+ */
+export const UncommittedBlameSha = '0000000000000000000000000000000000000000'
+
+/** Information about a commit which is responsible for one or more lines */
+export interface IBlameCommit {
+  /** The full commit id */
+  readonly sha: string
+
+  /** The first line of the commit message */
+  readonly summary: string
+
+  /** The author of the commit, including the author date */
+  readonly author: CommitIdentity
+
+  /** The committer of the commit, including the commit date */
+  readonly committer: CommitIdentity
+
+  /**
+   * The path of the file in this commit. This will differ from the path
+   * being blamed if the file has been renamed since.
+   */
+  readonly filename: string
+
+  /**
+   * The commit id of the parent commit where the blamed lines existed in
+   * their previous form, or null if the lines were introduced by this commit
+   */
+  readonly previousSha: string | null
+
+  /**
+   * Whether or not this commit is a boundary commit, i.e. blame was not
+   * able to look any further back in history (either because the commit is
+   * a root commit or because of a range limit).
+   */
+  readonly isBoundary: boolean
+}
+
+/** A single line of a blamed file */
+export interface IBlameLine {
+  /** The id of the commit which last changed this line */
+  readonly sha: string
+
+  /** The line number of the line in the commit which last changed it */
+  readonly originalLineNumber: number
+
+  /** The (1-based) line number of the line in the blamed file */
+  readonly lineNumber: number
+
+  /** The contents of the line, without any trailing line ending */
+  readonly content: string
+}
+
+/** The result of running `git blame` on a file */
+export interface IBlame {
+  /** All commits referenced by the blamed lines, keyed by their SHA */
+  readonly commits: ReadonlyMap<string, IBlameCommit>
+
+  /** The lines of the blamed file, in order */
+  readonly lines: ReadonlyArray<IBlameLine>
+}
+
+/** Whether the given blame SHA represents lines which haven't been committed */
+export function isUncommittedBlameSha(sha: string) {
+  return sha === UncommittedBlameSha
+}
@@ -2,4 +2,5 @@
 export enum BranchesTab {
   Branches = 0,
   PullRequests,
+  Tags,
 }
@@ -8,4 +8,16 @@ export type CloneOptions = {
   readonly branch?: string
   /** The default branch name in case we're cloning an empty repository. */
   readonly defaultBranch?: string
+  /**
+   * Whether to perform a partial clone which only downloads the contents of
+   * files as they're needed (i.e. `--filter=blob:none`).
+   */
+  readonly partialClone?: boolean
+  /** The number of commits to fetch in order to create a shallow clone. */
+  readonly depth?: number
+  /**
+   * The directories to check out in cone mode sparse checkout. Sparse
+   * checkout isn't used when undefined.
+   */
+  readonly sparseCheckoutPaths?: ReadonlyArray<string>
 }
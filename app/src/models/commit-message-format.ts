@@ -0,0 +1,47 @@
+/**
+ * Settings for the commit message format helper which assists in writing
+ * commit summaries following a convention such as Conventional Commits
+ * (https://www.conventionalcommits.org).
+ */
+export interface ICommitMessageFormat {
+  /** Whether to show the format helper above the commit summary */
+  readonly enabled: boolean
+
+  /** The commit types to offer, i.e. `feat` or `fix` */
+  readonly types: ReadonlyArray<string>
+
+  /** The scopes to offer. The scope is optional in any commit summary. */
+  readonly scopes: ReadonlyArray<string>
+
+  /**
+   * A regular expression the commit summary must match before the user is
+   * allowed to commit. An empty pattern disables validation.
+   */
+  readonly pattern: string
+}
+
+/** The types defined by the Conventional Commits specification and Angular */
+export const defaultConventionalCommitTypes: ReadonlyArray<string> = [
+  'feat',
+  'fix',
+  'docs',
+  'style',
+  'refactor',
+  'perf',
+  'test',
+  'build',
+  'ci',
+  'chore',
+  'revert',
+]
+
+/** Matches summaries like `feat(parser)!: add support for arrays` */
+export const defaultCommitMessagePattern =
+  '^[a-z]+(\\([\\w\\-./ ]+\\))?!?: \\S.*$'
+
+export const defaultCommitMessageFormat: ICommitMessageFormat = {
+  enabled: false,
+  types: defaultConventionalCommitTypes,
+  scopes: [],
+  pattern: defaultCommitMessagePattern,
+}
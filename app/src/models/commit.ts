@@ -25,6 +25,10 @@ export interface ICommitContext {
    * An optional array of commit trailers (for example Co-Authored-By trailers) which will be appended to the commit message in accordance with the Git trailer configuration.
    */
   readonly trailers?: ReadonlyArray<ITrailer>
+  /**
+   * Whether to skip the pre-commit and commit-msg hooks (optional, default: false)
+   */
+  readonly noVerify?: boolean
 }
 
 /**
@@ -73,6 +77,29 @@ export type CommitOneLine = {
   readonly summary: string
 }
 
+/**
+ * The result of verifying the signature of a commit, as reported by the
+ * `%G?` placeholder in `git log --format`.
+ */
+export enum CommitSignatureStatus {
+  /** A good (valid) signature */
+  Good = 'G',
+  /** A bad signature */
+  Bad = 'B',
+  /** A good signature with unknown validity */
+  UnknownValidity = 'U',
+  /** A good signature that has expired */
+  ExpiredSignature = 'X',
+  /** A good signature made by an expired key */
+  ExpiredKey = 'Y',
+  /** A good signature made by a revoked key */
+  RevokedKey = 'R',
+  /** The signature can't be checked, e.g. because the key is missing */
+  CannotBeChecked = 'E',
+  /** The commit isn't signed */
+  None = 'N',
+}
+
 /** A git commit. */
 export class Commit {
   /**
@@ -110,6 +137,10 @@ export class Commit {
    * @param trailers Parsed, unfolded trailers from the commit message body,
    *                 if any, as interpreted by `git interpret-trailers`
    * @param tags Tags associated with this commit.
+   * @param signatureStatus The result of verifying the commit's signature,
+   *                        or null if it hasn't been verified (yet). Verifying
+   *                        runs gpg or ssh-keygen so it's done lazily, see
+   *                        `GitStore.verifyCommitSignatures`.
    */
   public constructor(
     public readonly sha: string,
@@ -120,7 +151,8 @@ export class Commit {
     public readonly committer: CommitIdentity,
     public readonly parentSHAs: ReadonlyArray<string>,
     public readonly trailers: ReadonlyArray<ITrailer>,
-    public readonly tags: ReadonlyArray<string>
+    public readonly tags: ReadonlyArray<string>,
+    public readonly signatureStatus: CommitSignatureStatus | null = null
   ) {
     this.coAuthors = extractCoAuthors(trailers)
 
@@ -0,0 +1,50 @@
+/** The number of context lines git shows around each change by default */
+export const DefaultDiffContextLines = 3
+
+/** The context line options offered in the diff options */
+export const DiffContextLineOptions: ReadonlyArray<number> = [
+  0, 1, 3, 5, 10, 25,
+]
+
+/**
+ * How diffs in a repository should be generated and displayed, in addition to
+ * whether whitespace changes are hidden.
+ */
+export interface IDiffSettings {
+  /**
+   * The number of unchanged lines to show around each change, or null to show
+   * the full file.
+   */
+  readonly contextLines: number | null
+
+  /** Whether changes which only add or remove blank lines are hidden */
+  readonly ignoreBlankLines: boolean
+
+  /**
+   * Whether changes which only add or remove a carriage return at the end of
+   * a line are hidden.
+   */
+  readonly ignoreLineEndings: boolean
+
+  /** Whether long lines wrap instead of overflowing the diff */
+  readonly softWrap: boolean
+}
+
+export const defaultDiffSettings: IDiffSettings = {
+  contextLines: DefaultDiffContextLines,
+  ignoreBlankLines: false,
+  ignoreLineEndings: false,
+  softWrap: true,
+}
+
+/**
+ * Whether the given settings change which lines a diff contains, and thereby
+ * the indexes of the lines in the diff, compared to git's default diff.
+ */
+export function changesDiffLines(settings: IDiffSettings) {
+  return (
+    settings.contextLines !== DefaultDiffContextLines ||
+    settings.ignoreBlankLines ||
+    settings.ignoreLineEndings
+  )
+}
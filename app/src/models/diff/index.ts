@@ -4,3 +4,4 @@ export * from './diff-selection'
 export * from './image'
 export * from './raw-diff'
 export * from './image-diff'
+export * from './diff-settings'
@@ -0,0 +1,114 @@
+/** The kinds of filters which can be applied when searching the history */
+export enum HistoryFilterKind {
+  /** Commits whose message contains the text */
+  Message = 'message',
+  /** Commits whose author name or email contains the text */
+  Author = 'author',
+  /** Commits which changed the path */
+  Path = 'path',
+  /** Commits committed after the date */
+  Since = 'since',
+  /** Commits committed before the date */
+  Until = 'until',
+  /** Commits which changed the number of occurrences of the text */
+  Content = 'content',
+  /** Commits with added or removed lines matching the regular expression */
+  ContentRegex = 'content-regex',
+}
+
+/** A single filter applied when searching the history, shown as a chip */
+export interface IHistoryFilter {
+  readonly kind: HistoryFilterKind
+  readonly value: string
+}
+
+/** The qualifiers which can prefix a search term, i.e. `author:jane` */
+const qualifiers: ReadonlyMap<string, HistoryFilterKind> = new Map([
+  ['message', HistoryFilterKind.Message],
+  ['author', HistoryFilterKind.Author],
+  ['path', HistoryFilterKind.Path],
+  ['since', HistoryFilterKind.Since],
+  ['after', HistoryFilterKind.Since],
+  ['until', HistoryFilterKind.Until],
+  ['before', HistoryFilterKind.Until],
+  ['content', HistoryFilterKind.Content],
+  ['regex', HistoryFilterKind.ContentRegex],
+])
+
+/**
+ * Split a search query into terms, separated by whitespace unless quoted. The
+ * quotes themselves are removed.
+ */
+function tokenize(query: string) {
+  const terms = new Array<string>()
+  const re = /(?:[^\s"]+|"[^"]*"?)+/g
+  let match
+
+  while ((match = re.exec(query)) !== null) {
+    terms.push(match[0].replace(/"/g, ''))
+  }
+
+  return terms
+}
+
+/**
+ * Parse a history search query into filters.
+ *
+ * Terms may be prefixed with a qualifier to choose what they filter on, like
+ * `author:jane`, `path:app/src`, `since:2023-01-01`, `until:"2 weeks ago"`,
+ * `content:someFunction` or `regex:"some(Function|Method)"`. Consecutive
+ * unqualified terms are combined into a single message filter.
+ */
+export function parseHistoryFilters(
+  query: string
+): ReadonlyArray<IHistoryFilter> {
+  const filters = new Array<IHistoryFilter>()
+  const messageTerms = new Array<string>()
+
+  const addMessageFilter = () => {
+    if (messageTerms.length > 0) {
+      filters.push({
+        kind: HistoryFilterKind.Message,
+        value: messageTerms.join(' '),
+      })
+      messageTerms.length = 0
+    }
+  }
+
+  for (const term of tokenize(query)) {
+    const separator = term.indexOf(':')
+    const kind =
+      separator > 0
+        ? qualifiers.get(term.substring(0, separator).toLowerCase())
+        : undefined
+
+    if (kind === undefined) {
+      messageTerms.push(term)
+      continue
+    }
+
+    const value = term.substring(separator + 1)
+    if (value.length === 0) {
+      continue
+    }
+
+    addMessageFilter()
+    filters.push({ kind, value })
+  }
+
+  addMessageFilter()
+
+  return filters
+}
+
+/** Get a short description of a filter, for use as the label of its chip */
+export function getHistoryFilterLabel(filter: IHistoryFilter) {
+  switch (filter.kind) {
+    case HistoryFilterKind.Message:
+      return filter.value
+    case HistoryFilterKind.ContentRegex:
+      return `regex: ${filter.value}`
+    default:
+      return `${filter.kind}: ${filter.value}`
+  }
+}
@@ -0,0 +1,56 @@
+import { assertNever } from '../lib/fatal-error'
+
+/** Tools which install and manage Git hooks on behalf of a project */
+export enum HookManager {
+  Husky = 'husky',
+  Lefthook = 'lefthook',
+  PreCommit = 'pre-commit',
+}
+
+/** Get the user facing name of a hook manager */
+export function getHookManagerName(manager: HookManager) {
+  switch (manager) {
+    case HookManager.Husky:
+      return 'Husky'
+    case HookManager.Lefthook:
+      return 'Lefthook'
+    case HookManager.PreCommit:
+      return 'pre-commit'
+    default:
+      return assertNever(manager, `Unknown hook manager: ${manager}`)
+  }
+}
+
+/** The hooks Git will run in a repository */
+export interface IRepositoryHooks {
+  /**
+   * The absolute path of the directory Git looks for hooks in, taking
+   * `core.hooksPath` into account.
+   */
+  readonly path: string
+
+  /** The names of the hooks present in the hooks directory, i.e. `pre-commit` */
+  readonly hooks: ReadonlyArray<string>
+
+  /** The tool managing the hooks, if we recognize it */
+  readonly manager: HookManager | null
+}
+
+/** The operations during which we show the output of hooks */
+export type HookOperation = 'commit' | 'push'
+
+/** The output of the hooks run as part of a commit or push */
+export interface IHookOutput {
+  readonly operation: HookOperation
+
+  /** The name of the most recently started hook, if any */
+  readonly hookName: string | null
+
+  readonly manager: HookManager | null
+
+  /** The lines written by the hooks to stdout and stderr */
+  readonly lines: ReadonlyArray<string>
+
+  /** Whether the operation running the hooks is still in progress */
+  readonly isRunning: boolean
+}
@@ -0,0 +1,76 @@
+import { Commit } from './commit'
+
+/** What to do with a commit when replaying it in an interactive rebase */
+export enum InteractiveRebaseAction {
+  /** Keep the commit as it is */
+  Pick = 'pick',
+  /** Keep the changes of the commit but replace its message */
+  Reword = 'reword',
+  /** Stop after applying the commit so it can be amended */
+  Edit = 'edit',
+  /** Meld the commit into the previous one, combining their messages */
+  Squash = 'squash',
+  /** Meld the commit into the previous one, discarding its message */
+  Fixup = 'fixup',
+  /** Leave the commit and its changes out of the history */
+  Drop = 'drop',
+}
+
+/** A commit to replay in an interactive rebase and what to do with it */
+export interface IInteractiveRebaseStep {
+  readonly commit: Commit
+  readonly action: InteractiveRebaseAction
+
+  /**
+   * The new message of the commit when rewording it, where the first line is
+   * the summary and the rest the description. Ignored for other actions.
+   */
+  readonly message: string | null
+
+  /**
+   * A shell command to run once the commit has been replayed, or null. The
+   * rebase is aborted when the command fails.
+   */
+  readonly exec: string | null
+}
+
+/** A commit of the history an interactive rebase would result in */
+export interface IInteractiveRebasePreviewCommit {
+  /** The summary the commit will have */
+  readonly summary: string
+
+  /** The original commits which are melded into this one */
+  readonly commits: ReadonlyArray<Commit>
+
+  /** Whether the rebase stops after this commit so it can be amended */
+  readonly stopsToEdit: boolean
+
+  /** The commands run after this commit has been replayed */
+  readonly execs: ReadonlyArray<string>
+}
+
+/** A commit an autosquash rebase folds into an earlier commit */
+export interface IAutosquashFixup {
+  /** The `fixup!` or `squash!` commit */
+  readonly commit: Commit
+
+  /** The commit it's folded into */
+  readonly target: Commit
+
+  /** Whether its message is discarded or combined with the target's */
+  readonly action:
+    | InteractiveRebaseAction.Fixup
+    | InteractiveRebaseAction.Squash
+}
+
+/** The interactive rebase which folds fixup commits into their targets */
+export interface IAutosquashPlan {
+  /**
+   * The steps of the rebase, from the oldest target commit to the most recent
+   * commit, with every fixup commit moved right after its target
+   */
+  readonly steps: ReadonlyArray<IInteractiveRebaseStep>
+
+  /** The commits folded into earlier commits, from the oldest to the newest */
+  readonly fixups: ReadonlyArray<IAutosquashFixup>
+}
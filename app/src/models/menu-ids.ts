@@ -4,11 +4,13 @@ export type MenuIDs =
   | 'delete-branch'
   | 'discard-all-changes'
   | 'stash-all-changes'
+  | 'show-stashes'
   | 'preferences'
   | 'update-branch-with-contribution-target-branch'
   | 'merge-branch'
   | 'squash-and-merge-branch'
   | 'rebase-branch'
+  | 'autosquash-branch'
   | 'view-repository-on-github'
   | 'compare-on-github'
   | 'branch-on-github'
@@ -18,12 +20,14 @@ export type MenuIDs =
   | 'branch'
   | 'repository'
   | 'go-to-commit-message'
+  | 'show-command-palette'
   | 'create-branch'
   | 'show-changes'
   | 'show-history'
   | 'show-repository-list'
   | 'show-branches-list'
   | 'open-working-directory'
+  | 'show-reflog'
   | 'show-repository-settings'
   | 'open-external-editor'
   | 'remove-repository'
@@ -33,6 +37,7 @@ export type MenuIDs =
   | 'about'
   | 'create-pull-request'
   | 'compare-to-branch'
+  | 'compare-refs'
   | 'toggle-stashed-changes'
   | 'create-issue-in-repository-on-github'
   | 'preview-pull-request'
@@ -1,3 +1,4 @@
+import { CommitOneLine } from './commit'
 import { ComputedAction } from './computed-action'
 
 interface IBlobResult {
@@ -38,3 +39,25 @@ export type MergeTreeResult =
   | MergeTreeError
   | MergeTreeUnsupported
   | MergeTreeLoading
+
+/** A commit which is predicted to conflict and the files it conflicts in */
+export interface ICommitConflictPrediction {
+  readonly commit: CommitOneLine
+  readonly conflictedFiles: ReadonlyArray<string>
+}
+
+/**
+ * The conflicts an operation such as a merge, rebase or cherry-pick is
+ * predicted to run into, computed before the operation is started.
+ */
+export interface IConflictPrediction {
+  /** The paths of all files predicted to conflict, in order */
+  readonly conflictedFiles: ReadonlyArray<string>
+
+  /**
+   * The commits predicted to conflict, in the order the operation applies
+   * them. For merges these are the commits being merged which change the
+   * conflicted files.
+   */
+  readonly commits: ReadonlyArray<ICommitConflictPrediction>
+}
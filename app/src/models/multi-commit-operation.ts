@@ -2,6 +2,7 @@ import { MultiCommitOperationConflictState } from '../lib/app-state'
 import { Branch } from './branch'
 import { Commit, CommitOneLine, ICommitContext } from './commit'
 import { GitHubRepository } from './github-repository'
+import { IInteractiveRebaseStep } from './interactive-rebase'
 import { IDetachedHead, IUnbornRepository, IValidBranch } from './tip'
 
 /**
@@ -16,6 +17,7 @@ export const enum MultiCommitOperationKind {
   Squash = 'Squash',
   Merge = 'Merge',
   Reorder = 'Reorder',
+  InteractiveRebase = 'Interactive rebase',
 }
 
 /** Type guard which narrows a string to a MultiCommitOperationKind */
@@ -45,6 +47,7 @@ export type MultiCommitOperationStep =
   | WarnForcePushStep
   | ShowProgressStep
   | ShowConflictsStep
+  | EditConflictsStep
   | HideConflictsStep
   | ConfirmAbortStep
   | CreateBranchStep
@@ -83,6 +86,13 @@ export const enum MultiCommitOperationStepKind {
    */
   ShowConflicts = 'ShowConflicts',
 
+  /**
+   * The user has chosen to resolve the conflict markers of a file in the
+   * built-in conflict editor rather than in an external editor. Once the file
+   * is saved or the editor is closed, the conflicts list is shown again.
+   */
+  EditConflicts = 'EditConflicts',
+
   /**
    * The user may wish to leave the conflict dialog and view the files in
    * the Changes tab to get a better context. In this situation, the application
@@ -132,6 +142,14 @@ export type ShowConflictsStep = {
   readonly conflictState: MultiCommitOperationConflictState
 }
 
+export type EditConflictsStep = {
+  readonly kind: MultiCommitOperationStepKind.EditConflicts
+  readonly conflictState: MultiCommitOperationConflictState
+
+  /** The path of the file being resolved, relative to the repository */
+  readonly path: string
+}
+
 export type HideConflictsStep = {
   readonly kind: MultiCommitOperationStepKind.HideConflicts
   readonly conflictState: MultiCommitOperationConflictState
@@ -206,6 +224,13 @@ interface IReorderDetails extends IInteractiveRebaseDetails {
   readonly beforeCommit: Commit | null
 }
 
+interface IInteractiveRebaseOperationDetails extends IInteractiveRebaseDetails {
+  readonly kind: MultiCommitOperationKind.InteractiveRebase
+
+  /** What to do with each of the commits, from the oldest to the newest */
+  readonly steps: ReadonlyArray<IInteractiveRebaseStep>
+}
+
 interface ICherryPickDetails extends ISourceBranchDetails {
   readonly kind: MultiCommitOperationKind.CherryPick
   /**
@@ -239,6 +264,7 @@ interface IMergeDetails extends ISourceBranchDetails {
 export type MultiCommitOperationDetail =
   | ISquashDetails
   | IReorderDetails
+  | IInteractiveRebaseOperationDetails
   | ICherryPickDetails
   | IRebaseDetails
   | IMergeDetails
@@ -256,5 +282,6 @@ export function instanceOfIBaseRebaseDetails(
 
 export const conflictSteps = [
   MultiCommitOperationStepKind.ShowConflicts,
+  MultiCommitOperationStepKind.EditConflicts,
   MultiCommitOperationStepKind.ConfirmAbort,
 ]
@@ -12,6 +12,7 @@ import { WorkingDirectoryFileChange } from './status'
 import { PreferencesTab } from './preferences'
 import { Commit, CommitOneLine, ICommitContext } from './commit'
 import { IStashEntry } from './stash-entry'
+import { IMenu } from './app-menu'
 import { Account } from '../models/account'
 import { Progress } from './progress'
 import { ITextDiff, DiffSelection, ImageDiffType } from './diff'
@@ -23,6 +24,8 @@ import { GitHubRepository } from './github-repository'
 import { ValidNotificationPullRequestReview } from '../lib/valid-notification-pull-request-review'
 import { UnreachableCommitsTab } from '../ui/history/unreachable-commits-dialog'
 import { IAPIComment } from '../lib/api'
+import { IBisectState } from './bisect'
+import { IConflictPrediction } from './merge'
 
 export enum PopupType {
   RenameBranch = 'RenameBranch',
@@ -95,6 +98,21 @@ export enum PopupType {
   PullRequestComment = 'PullRequestComment',
   UnknownAuthors = 'UnknownAuthors',
   ConfirmRepoRulesBypass = 'ConfirmRepoRulesBypass',
+  CreateWorktree = 'CreateWorktree',
+  RemoveWorktree = 'RemoveWorktree',
+  BisectFinished = 'BisectFinished',
+  HookFailed = 'HookFailed',
+  CreateStash = 'CreateStash',
+  StashBrowser = 'StashBrowser',
+  CreateBranchFromStash = 'CreateBranchFromStash',
+  Reflog = 'Reflog',
+  FileHistory = 'FileHistory',
+  CompareRefs = 'CompareRefs',
+  DraftTagRelease = 'DraftTagRelease',
+  CommandPalette = 'CommandPalette',
+  InteractiveRebase = 'InteractiveRebase',
+  CommitAsFixup = 'CommitAsFixup',
+  Autosquash = 'Autosquash',
 }
 
 interface IBasePopup {
@@ -276,6 +294,8 @@ export type PopupDetail =
       type: PopupType.DeleteTag
       repository: Repository
       tagName: string
+      existsLocally: boolean
+      existsOnRemote: boolean
     }
   | {
       type: PopupType.ChooseForkSettings
@@ -305,6 +325,9 @@ export type PopupDetail =
       prepopulateCommitSummary: boolean
       repository: Repository
       onSubmitCommitMessage: (context: ICommitContext) => Promise<boolean>
+      predictConflicts?: (
+        signal: AbortSignal
+      ) => Promise<IConflictPrediction | null>
     }
   | {
       type: PopupType.MultiCommitOperation
@@ -422,5 +445,88 @@ export type PopupDetail =
       branch: string
       onConfirm: () => void
     }
+  | {
+      type: PopupType.CreateWorktree
+      repository: Repository
+      branch: Branch
+    }
+  | {
+      type: PopupType.RemoveWorktree
+      repository: Repository
+    }
+  | {
+      type: PopupType.BisectFinished
+      repository: Repository
+      bisectState: IBisectState
+    }
+  | {
+      type: PopupType.HookFailed
+      repository: Repository
+      hookName: string
+      output: string
+      retryAction: RetryAction
+    }
+  | {
+      type: PopupType.CreateStash
+      repository: Repository
+    }
+  | {
+      type: PopupType.StashBrowser
+      repository: Repository
+    }
+  | {
+      type: PopupType.CreateBranchFromStash
+      repository: Repository
+      stash: IStashEntry
+    }
+  | {
+      type: PopupType.Reflog
+      repository: Repository
+    }
+  | {
+      type: PopupType.FileHistory
+      repository: Repository
+      /** The path of the file, as of `revision` */
+      path: string
+      /** The commit to show the history of the file up to */
+      revision: string
+    }
+  | {
+      type: PopupType.CompareRefs
+      repository: Repository
+    }
+  | {
+      type: PopupType.DraftTagRelease
+      repository: RepositoryWithGitHubRepository
+      tagName: string
+    }
+  | {
+      type: PopupType.CommandPalette
+      menu: IMenu
+    }
+  | {
+      type: PopupType.InteractiveRebase
+      repository: Repository
+      /** The commits to rebase, from the oldest to the newest */
+      commits: ReadonlyArray<Commit>
+      /**
+       * The commit before the oldest commit to rebase, or null if the oldest
+       * commit is the root of the branch
+       */
+      lastRetainedCommitRef: string | null
+    }
+  | {
+      type: PopupType.CommitAsFixup
+      repository: Repository
+      /**
+       * Called with the commit picked by the user to commit the selected
+       * changes as a fixup for, returning whether the commit was created
+       */
+      onSubmit: (target: Commit) => Promise<boolean>
+    }
+  | {
+      type: PopupType.Autosquash
+      repository: Repository
+    }
 
 export type Popup = IBasePopup & PopupDetail
@@ -0,0 +1,17 @@
+/**
+ * How two refs are compared, following the semantics of the range notations
+ * of `git diff` and `git log`.
+ */
+export enum RefComparisonMode {
+  /**
+   * Compare the two refs directly, listing the commits reachable from the head
+   * but not from the base (`base..head`)
+   */
+  TwoDot = 'two-dot',
+
+  /**
+   * Compare the head to the commit it diverged from the base at (`base...head`),
+   * listing the commits reachable from the head but not from the base
+   */
+  ThreeDot = 'three-dot',
+}
@@ -0,0 +1,26 @@
+/**
+ * An entry in the reflog of a ref, recording a change to the commit the ref
+ * pointed to.
+ */
+export interface IReflogEntry {
+  /** The reflog selector of the entry, i.e. `HEAD@{2}` or `main@{0}` */
+  readonly selector: string
+
+  /** The SHA of the commit the ref pointed to after the change */
+  readonly sha: string
+
+  /**
+   * The operation which changed the ref, i.e. `commit`, `reset` or
+   * `checkout`, or an empty string if Git didn't record one.
+   */
+  readonly action: string
+
+  /** The description of the change, i.e. `moving to HEAD~1` */
+  readonly description: string
+
+  /** The date the ref was changed */
+  readonly date: Date
+
+  /** The summary of the commit the ref pointed to after the change */
+  readonly summary: string
+}
@@ -70,6 +70,7 @@ export class Repository {
       this.missing,
       this.alias,
       this.workflowPreferences.forkContributionTarget,
+      JSON.stringify(this.workflowPreferences.commitMessageFormat),
       this.isTutorialRepository
     )
   }
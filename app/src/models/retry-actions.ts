@@ -3,6 +3,7 @@ import { CloneOptions } from './clone-options'
 import { Branch } from './branch'
 import { Commit, CommitOneLine, ICommitContext } from './commit'
 import { WorkingDirectoryFileChange } from './status'
+import { IInteractiveRebaseStep } from './interactive-rebase'
 
 /** The types of actions that can be retried. */
 export enum RetryActionType {
@@ -18,6 +19,8 @@ export enum RetryActionType {
   Squash,
   Reorder,
   DiscardChanges,
+  Commit,
+  InteractiveRebase,
 }
 
 /** The retriable actions and their associated data. */
@@ -85,3 +88,14 @@ export type RetryAction =
       repository: Repository
       files: ReadonlyArray<WorkingDirectoryFileChange>
     }
+  | {
+      type: RetryActionType.Commit
+      repository: Repository
+      commitContext: ICommitContext
+    }
+  | {
+      type: RetryActionType.InteractiveRebase
+      repository: Repository
+      steps: ReadonlyArray<IInteractiveRebaseStep>
+      lastRetainedCommitRef: string | null
+    }
@@ -0,0 +1,47 @@
+/** The formats Git can sign commits and tags with, see `gpg.format` */
+export enum SigningFormat {
+  OpenPGP = 'openpgp',
+  SSH = 'ssh',
+  X509 = 'x509',
+}
+
+/** Commit and tag signing settings as stored in Git config */
+export interface ISigningConfig {
+  /** Whether commits should be signed (`commit.gpgSign`) */
+  readonly signCommits: boolean
+
+  /** Whether annotated tags should be signed (`tag.gpgSign`) */
+  readonly signTags: boolean
+
+  /** The format of the signatures (`gpg.format`) */
+  readonly format: SigningFormat
+
+  /**
+   * The key to sign with (`user.signingKey`). Empty to let Git pick a key
+   * based on the committer identity.
+   *
+   * For SSH signing this is either the path to a key or a public key
+   * prefixed with `key::`.
+   */
+  readonly signingKey: string
+}
+
+/** The settings Git uses when nothing has been configured */
+export const defaultSigningConfig: ISigningConfig = {
+  signCommits: false,
+  signTags: false,
+  format: SigningFormat.OpenPGP,
+  signingKey: '',
+}
+
+/** Get a human readable name of a signing format */
+export function getSigningFormatName(format: SigningFormat) {
+  switch (format) {
+    case SigningFormat.OpenPGP:
+      return 'GPG'
+    case SigningFormat.SSH:
+      return 'SSH'
+    case SigningFormat.X509:
+      return 'X.509 (S/MIME)'
+  }
+}
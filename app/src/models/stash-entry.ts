@@ -7,6 +7,15 @@ export interface IStashEntry {
   /** The name of the branch at the time the entry was created. */
   readonly branchName: string
 
+  /**
+   * The message of the entry as listed by `git stash list`, i.e.
+   * `On main: Work in progress` or `WIP on main: 1a2b3c4 Commit summary`
+   */
+  readonly message: string
+
+  /** The date the entry was created */
+  readonly createdAt: Date
+
   /** The SHA of the commit object created as a result of stashing. */
   readonly stashSha: string
 
@@ -59,6 +59,11 @@ export type ConflictsWithMarkers = {
   entry: TextConflictEntry
   conflictMarkerCount: number
   submoduleStatus?: SubmoduleStatus
+  /**
+   * Whether Git resolved the conflicts in the file using a resolution recorded
+   * the last time the same conflicts were resolved (see `git rerere`).
+   */
+  usedRecordedResolution?: boolean
 }
 
 /**
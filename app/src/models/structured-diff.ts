@@ -0,0 +1,67 @@
+/** The different ways of presenting a structured diff */
+export enum StructuredDiffKind {
+  /** Changes to the values of a document, identified by their key path */
+  KeyPaths = 'KeyPaths',
+  /** Changes to the packages listed in a lockfile */
+  Lockfile = 'Lockfile',
+}
+
+export enum KeyPathChangeType {
+  Added = 'Added',
+  Removed = 'Removed',
+  Modified = 'Modified',
+}
+
+/** A value which was added, removed or modified in a document */
+export interface IKeyPathChange {
+  readonly type: KeyPathChangeType
+
+  /**
+   * The path to the value in the document, i.e. `scripts.build` or
+   * `jobs.test.steps[2].run`. Empty when the document itself is a scalar.
+   */
+  readonly path: string
+
+  /** The old value formatted as JSON, or null if the value was added */
+  readonly oldValue: string | null
+
+  /** The new value formatted as JSON, or null if the value was removed */
+  readonly newValue: string | null
+}
+
+export enum PackageChangeType {
+  Added = 'Added',
+  Removed = 'Removed',
+  Upgraded = 'Upgraded',
+  Downgraded = 'Downgraded',
+  /**
+   * The set of versions changed but neither version is clearly newer, i.e.
+   * when a package is resolved to several versions or to a git commit.
+   */
+  Changed = 'Changed',
+}
+
+/** A package which was added, removed or changed version in a lockfile */
+export interface IPackageChange {
+  readonly type: PackageChangeType
+  readonly name: string
+
+  /** The versions of the package in the old lockfile, sorted */
+  readonly oldVersions: ReadonlyArray<string>
+
+  /** The versions of the package in the new lockfile, sorted */
+  readonly newVersions: ReadonlyArray<string>
+}
+
+export interface IKeyPathDiff {
+  readonly kind: StructuredDiffKind.KeyPaths
+  readonly changes: ReadonlyArray<IKeyPathChange>
+}
+
+export interface ILockfileDiff {
+  readonly kind: StructuredDiffKind.Lockfile
+  readonly changes: ReadonlyArray<IPackageChange>
+}
+
+/** A diff between two versions of a file based on the file's structure */
+export type StructuredDiff = IKeyPathDiff | ILockfileDiff
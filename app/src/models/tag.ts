@@ -0,0 +1,31 @@
+import { CommitIdentity } from './commit-identity'
+
+/** A local tag along with its annotation, if any. */
+export interface ITag {
+  /** The name of the tag, i.e. `v1.0.0` */
+  readonly name: string
+
+  /** The SHA of the commit the tag points to */
+  readonly target: string
+
+  /**
+   * Whether the tag is an annotated tag, as opposed to a lightweight tag which
+   * is only a name pointing to a commit.
+   */
+  readonly annotated: boolean
+
+  /** Whether the annotation of the tag carries a signature */
+  readonly signed: boolean
+
+  /** The annotation message, or an empty string for lightweight tags */
+  readonly message: string
+
+  /** The identity which created the tag, or null for lightweight tags */
+  readonly tagger: CommitIdentity | null
+
+  /**
+   * The date the tag was created, or the date of the commit it points to for
+   * lightweight tags.
+   */
+  readonly date: Date
+}
@@ -1,3 +1,5 @@
+import { ICommitMessageFormat } from './commit-message-format'
+
 export enum ForkContributionTarget {
   Parent = 'parent',
   Self = 'self',
@@ -11,4 +13,10 @@ export type WorkflowPreferences = {
    * What repo does the user want to contribute to with this fork?
    */
   readonly forkContributionTarget?: ForkContributionTarget
+
+  /**
+   * The format commit messages in the repository are expected to follow,
+   * i.e. Conventional Commits.
+   */
+  readonly commitMessageFormat?: ICommitMessageFormat
 }
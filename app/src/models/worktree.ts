@@ -0,0 +1,40 @@
+import { LinkedWorkTree } from './repository'
+
+/**
+ * A working tree attached to a repository, as reported by
+ * `git worktree list`.
+ */
+export interface IWorktree extends LinkedWorkTree {
+  /**
+   * The short name of the branch checked out in the worktree or null if the
+   * worktree has a detached HEAD (or is bare).
+   */
+  readonly branch: string | null
+
+  /**
+   * Whether this is the main worktree of the repository, i.e. the one which
+   * holds the `.git` directory. Git always lists the main worktree first.
+   */
+  readonly isMain: boolean
+
+  /** Whether the repository is bare, only ever true for the main worktree */
+  readonly isBare: boolean
+
+  /** Whether the worktree has a detached HEAD */
+  readonly isDetached: boolean
+
+  /**
+   * Whether the worktree is locked, preventing it from being pruned, moved
+   * or removed.
+   */
+  readonly isLocked: boolean
+
+  /** The reason given when locking the worktree, if any */
+  readonly lockReason: string | null
+
+  /**
+   * Whether the worktree directory is missing and the worktree can be
+   * pruned using `git worktree prune`.
+   */
+  readonly isPrunable: boolean
+}
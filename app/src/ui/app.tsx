@@ -28,7 +28,7 @@ import {
   getNonForkGitHubRepository,
   isRepositoryWithGitHubRepository,
 } from '../models/repository'
-import { Branch } from '../models/branch'
+import { Branch, BranchType } from '../models/branch'
 import { PreferencesTab } from '../models/preferences'
 import { findItemByAccessKey, itemIsSelectable } from '../models/app-menu'
 import { Account } from '../models/account'
@@ -41,6 +41,7 @@ import { TitleBar, ZoomInfo, FullScreenInfo } from './window'
 import { RepositoriesList } from './repositories-list'
 import { RepositoryView } from './repository'
 import { RenameBranch } from './rename-branch'
+import { CreateWorktree, ConfirmRemoveWorktree } from './worktrees'
 import { DeleteBranch, DeleteRemoteBranch } from './delete-branch'
 import { CloningRepositoryView } from './cloning-repository'
 import {
@@ -62,7 +63,7 @@ import {
 import { DiscardChanges } from './discard-changes'
 import { Welcome } from './welcome'
 import { AppMenuBar } from './app-menu'
-import { UpdateAvailable, renderBanner } from './banners'
+import { UpdateAvailable, renderBanner, BisectBanner } from './banners'
 import { Preferences } from './preferences'
 import { RepositorySettings } from './repository-settings'
 import { AppError } from './app-error'
@@ -100,6 +101,15 @@ import { Banner, BannerType } from '../models/banner'
 import { StashAndSwitchBranch } from './stash-changes/stash-and-switch-branch-dialog'
 import { OverwriteStash } from './stash-changes/overwrite-stashed-changes-dialog'
 import { ConfirmDiscardStashDialog } from './stashing/confirm-discard-stash'
+import { CreateStash, StashBrowser, CreateBranchFromStash } from './stashing'
+import { ReflogDialog } from './reflog'
+import { FileHistoryDialog } from './file-history'
+import { CompareRefsDialog } from './compare-refs'
+import { InteractiveRebaseDialog } from './interactive-rebase'
+import { AutosquashDialog, CommitAsFixupDialog } from './autosquash'
+import { DraftTagReleaseDialog } from './draft-tag-release'
+import { CommandPalette } from './command-palette'
+import { defaultDiffSettings, DiffSelectionType } from '../models/diff'
 import { ConfirmCheckoutCommitDialog } from './checkout/confirm-checkout-commit'
 import { CreateTutorialRepositoryDialog } from './no-repositories/create-tutorial-repository-dialog'
 import { ConfirmExitTutorial } from './tutorial'
@@ -150,6 +160,7 @@ import { CICheckRunRerunDialog } from './check-runs/ci-check-run-rerun-dialog'
 import { WarnForcePushDialog } from './multi-commit-operation/dialog/warn-force-push-dialog'
 import { clamp } from '../lib/clamp'
 import { generateRepositoryListContextMenu } from './repositories-list/repository-list-item-context-menu'
+import { getLinkedWorktree } from './repositories-list/group-repositories'
 import * as ipcRenderer from '../lib/ipc-renderer'
 import { DiscardChangesRetryDialog } from './discard-changes/discard-changes-retry-dialog'
 import { generateDevReleaseSummary } from '../lib/release-notes'
@@ -173,6 +184,9 @@ import { UnsupportedOSBannerDismissedAtKey } from './banners/windows-version-no-
 import { offsetFromNow } from '../lib/offset-from'
 import { getNumber } from '../lib/local-storage'
 import { RepoRulesBypassConfirmation } from './repository-rules/repo-rules-bypass-confirmation'
+import { BisectFinished } from './bisect'
+import { BisectMark } from '../models/bisect'
+import { HookFailed } from './hooks'
 
 const MinuteInMilliseconds = 1000 * 60
 const HourInMilliseconds = MinuteInMilliseconds * 60
@@ -408,6 +422,8 @@ export class App extends React.Component<IAppProps, IAppState> {
         return this.discardAllChanges()
       case 'stash-all-changes':
         return this.stashAllChanges()
+      case 'show-stashes':
+        return this.showStashBrowser()
       case 'show-preferences':
         return this.props.dispatcher.showPopup({ type: PopupType.Preferences })
       case 'open-working-directory':
@@ -417,6 +433,8 @@ export class App extends React.Component<IAppProps, IAppState> {
         return this.updateBranchWithContributionTargetBranch()
       case 'compare-to-branch':
         return this.showHistory(false, true)
+      case 'compare-refs':
+        return this.showCompareRefs()
       case 'merge-branch':
         this.props.dispatcher.recordMenuInitiatedMerge()
         return this.mergeBranch()
@@ -426,6 +444,10 @@ export class App extends React.Component<IAppProps, IAppState> {
       case 'rebase-branch':
         this.props.dispatcher.recordMenuInitiatedRebase()
         return this.showRebaseDialog()
+      case 'autosquash-branch':
+        return this.showAutosquash()
+      case 'show-reflog':
+        return this.showReflog()
       case 'show-repository-settings':
         return this.showRepositorySettings()
       case 'view-repository-on-github':
@@ -446,6 +468,8 @@ export class App extends React.Component<IAppProps, IAppState> {
         return this.boomtown()
       case 'go-to-commit-message':
         return this.goToCommitMessage()
+      case 'show-command-palette':
+        return this.showCommandPalette()
       case 'open-pull-request':
         return this.openPullRequest()
       case 'preview-pull-request':
@@ -866,6 +890,27 @@ export class App extends React.Component<IAppProps, IAppState> {
     }
   }
 
+  private showCommandPalette() {
+    const [menu] = this.state.appMenuState
+
+    // The menu items are disabled while a popup is open so we hand the
+    // palette the menu as it is before it's shown.
+    if (menu !== undefined) {
+      this.props.dispatcher.showPopup({ type: PopupType.CommandPalette, menu })
+    }
+  }
+
+  private showStashBrowser() {
+    const repository = this.getRepository()
+
+    if (repository !== null && repository instanceof Repository) {
+      this.props.dispatcher.showPopup({
+        type: PopupType.StashBrowser,
+        repository,
+      })
+    }
+  }
+
   private showAddLocalRepo = () => {
     return this.props.dispatcher.showPopup({ type: PopupType.AddRepository })
   }
@@ -1295,6 +1340,36 @@ export class App extends React.Component<IAppProps, IAppState> {
     this.props.dispatcher.showRebaseDialog(repository)
   }
 
+  private showAutosquash() {
+    const repository = this.getRepository()
+
+    if (!repository || repository instanceof CloningRepository) {
+      return
+    }
+
+    this.props.dispatcher.showPopup({ type: PopupType.Autosquash, repository })
+  }
+
+  private showReflog() {
+    const repository = this.getRepository()
+
+    if (!repository || repository instanceof CloningRepository) {
+      return
+    }
+
+    this.props.dispatcher.showPopup({ type: PopupType.Reflog, repository })
+  }
+
+  private showCompareRefs() {
+    const repository = this.getRepository()
+
+    if (!repository || repository instanceof CloningRepository) {
+      return
+    }
+
+    this.props.dispatcher.showPopup({ type: PopupType.CompareRefs, repository })
+  }
+
   private showRepositorySettings() {
     const repository = this.getRepository()
 
@@ -2077,6 +2152,8 @@ export class App extends React.Component<IAppProps, IAppState> {
             onDismissed={onPopupDismissedFn}
             dispatcher={this.props.dispatcher}
             tagName={popup.tagName}
+            existsLocally={popup.existsLocally}
+            existsOnRemote={popup.existsOnRemote}
           />
         )
       }
@@ -2186,6 +2263,7 @@ export class App extends React.Component<IAppProps, IAppState> {
             showNoWriteAccess={!hasWritePermissionForRepository}
             onDismissed={onPopupDismissedFn}
             onSubmitCommitMessage={popup.onSubmitCommitMessage}
+            predictConflicts={popup.predictConflicts}
             repositoryAccount={repositoryAccount}
           />
         )
@@ -2414,8 +2492,11 @@ export class App extends React.Component<IAppProps, IAppState> {
           return null
         }
 
-        const { pullRequestFilesListWidth, hideWhitespaceInPullRequestDiff } =
-          this.state
+        const {
+          pullRequestFilesListWidth,
+          hideWhitespaceInPullRequestDiff,
+          selectedState,
+        } = this.state
 
         const {
           prBaseBranches,
@@ -2439,8 +2520,14 @@ export class App extends React.Component<IAppProps, IAppState> {
             dispatcher={this.props.dispatcher}
             fileListWidth={pullRequestFilesListWidth}
             hideWhitespaceInDiff={hideWhitespaceInPullRequestDiff}
+            diffSettings={
+              selectedState?.type === SelectionType.Repository
+                ? selectedState.state.diffSettings
+                : defaultDiffSettings
+            }
             imageDiffType={imageDiffType}
             nonLocalCommitSHA={nonLocalCommitSHA}
+            emoji={this.state.emoji}
             pullRequestState={pullRequestState}
             prRecentBaseBranches={prRecentBaseBranches}
             repository={repository}
@@ -2520,6 +2607,245 @@ export class App extends React.Component<IAppProps, IAppState> {
           />
         )
       }
+      case PopupType.CreateWorktree: {
+        const worktrees =
+          this.state.worktreesLookup.get(popup.repository.id) ?? []
+        const checkedOutBranches = worktrees.flatMap(w =>
+          w.branch !== null ? [w.branch] : []
+        )
+
+        return (
+          <CreateWorktree
+            key="create-worktree"
+            dispatcher={this.props.dispatcher}
+            repository={popup.repository}
+            branch={popup.branch}
+            checkedOutBranches={checkedOutBranches}
+            onDismissed={onPopupDismissedFn}
+          />
+        )
+      }
+      case PopupType.RemoveWorktree:
+        return (
+          <ConfirmRemoveWorktree
+            key="confirm-remove-worktree"
+            dispatcher={this.props.dispatcher}
+            repository={popup.repository}
+            onDismissed={onPopupDismissedFn}
+          />
+        )
+      case PopupType.BisectFinished:
+        return (
+          <BisectFinished
+            key="bisect-finished"
+            dispatcher={this.props.dispatcher}
+            repository={popup.repository}
+            bisectState={popup.bisectState}
+            onDismissed={onPopupDismissedFn}
+          />
+        )
+      case PopupType.HookFailed:
+        return (
+          <HookFailed
+            key="hook-failed"
+            dispatcher={this.props.dispatcher}
+            repository={popup.repository}
+            hookName={popup.hookName}
+            output={popup.output}
+            retryAction={popup.retryAction}
+            onDismissed={onPopupDismissedFn}
+          />
+        )
+      case PopupType.CreateStash: {
+        const { changesState } = this.props.repositoryStateManager.get(
+          popup.repository
+        )
+        const selectedFiles = changesState.workingDirectory.files.filter(
+          f => f.selection.getSelectionType() !== DiffSelectionType.None
+        )
+
+        return (
+          <CreateStash
+            key="create-stash"
+            dispatcher={this.props.dispatcher}
+            repository={popup.repository}
+            selectedFileCount={selectedFiles.length}
+            onDismissed={onPopupDismissedFn}
+          />
+        )
+      }
+      case PopupType.StashBrowser: {
+        const { changesState } = this.props.repositoryStateManager.get(
+          popup.repository
+        )
+
+        return (
+          <StashBrowser
+            key="stash-browser"
+            dispatcher={this.props.dispatcher}
+            repository={popup.repository}
+            stashEntries={changesState.stashEntries}
+            askForConfirmationOnDiscardStash={
+              this.state.askForConfirmationOnDiscardStash
+            }
+            onDismissed={onPopupDismissedFn}
+          />
+        )
+      }
+      case PopupType.CreateBranchFromStash:
+        return (
+          <CreateBranchFromStash
+            key="create-branch-from-stash"
+            dispatcher={this.props.dispatcher}
+            repository={popup.repository}
+            stash={popup.stash}
+            onDismissed={onPopupDismissedFn}
+          />
+        )
+      case PopupType.Reflog: {
+        const { branchesState, changesState, diffSettings } =
+          this.props.repositoryStateManager.get(popup.repository)
+        const { tip } = branchesState
+
+        return (
+          <ReflogDialog
+            key="reflog"
+            dispatcher={this.props.dispatcher}
+            repository={popup.repository}
+            branchNames={branchesState.allBranches
+              .filter(b => b.type === BranchType.Local)
+              .map(b => b.name)}
+            canChangeCurrentBranch={
+              tip.kind === TipState.Valid && changesState.conflictState === null
+            }
+            imageDiffType={this.state.imageDiffType}
+            emoji={this.state.emoji}
+            hideWhitespaceInDiff={this.state.hideWhitespaceInHistoryDiff}
+            showSideBySideDiff={this.state.showSideBySideDiff}
+            diffSettings={diffSettings}
+            onCherryPick={this.startCherryPickWithoutBranch}
+            onDismissed={onPopupDismissedFn}
+          />
+        )
+      }
+      case PopupType.FileHistory: {
+        const { diffSettings } = this.props.repositoryStateManager.get(
+          popup.repository
+        )
+
+        return (
+          <FileHistoryDialog
+            key="file-history"
+            dispatcher={this.props.dispatcher}
+            repository={popup.repository}
+            path={popup.path}
+            revision={popup.revision}
+            imageDiffType={this.state.imageDiffType}
+            emoji={this.state.emoji}
+            hideWhitespaceInDiff={this.state.hideWhitespaceInHistoryDiff}
+            showSideBySideDiff={this.state.showSideBySideDiff}
+            diffSettings={diffSettings}
+            onDismissed={onPopupDismissedFn}
+          />
+        )
+      }
+      case PopupType.CompareRefs: {
+        const { branchesState, changesState, localTags, diffSettings } =
+          this.props.repositoryStateManager.get(popup.repository)
+        const { tip, defaultBranch } = branchesState
+        const currentBranch = tip.kind === TipState.Valid ? tip.branch : null
+
+        return (
+          <CompareRefsDialog
+            key="compare-refs"
+            dispatcher={this.props.dispatcher}
+            repository={popup.repository}
+            refNames={[
+              ...branchesState.allBranches.map(b => b.name),
+              ...(localTags?.keys() ?? []),
+              ...changesState.stashEntries.map(s => s.name),
+            ]}
+            initialBase={
+              defaultBranch !== null &&
+              defaultBranch.name !== currentBranch?.name
+                ? defaultBranch.name
+                : ''
+            }
+            initialHead={currentBranch?.name ?? 'HEAD'}
+            imageDiffType={this.state.imageDiffType}
+            emoji={this.state.emoji}
+            hideWhitespaceInDiff={this.state.hideWhitespaceInHistoryDiff}
+            showSideBySideDiff={this.state.showSideBySideDiff}
+            diffSettings={diffSettings}
+            onDismissed={onPopupDismissedFn}
+          />
+        )
+      }
+      case PopupType.DraftTagRelease:
+        return (
+          <DraftTagReleaseDialog
+            key="draft-tag-release"
+            dispatcher={this.props.dispatcher}
+            repository={popup.repository}
+            tagName={popup.tagName}
+            onDismissed={onPopupDismissedFn}
+          />
+        )
+      case PopupType.CommandPalette: {
+        const { selectedState } = this.state
+        const repository =
+          selectedState?.repository instanceof Repository
+            ? selectedState.repository
+            : null
+
+        return (
+          <CommandPalette
+            key="command-palette"
+            dispatcher={this.props.dispatcher}
+            menu={popup.menu}
+            repositories={this.state.repositories}
+            repository={repository}
+            repositoryState={
+              repository !== null
+                ? this.props.repositoryStateManager.get(repository)
+                : null
+            }
+            externalEditorLabel={this.state.selectedExternalEditor ?? undefined}
+            onCherryPick={this.startCherryPickWithoutBranch}
+            onOpenInExternalEditor={this.onOpenInExternalEditor}
+            onDismissed={onPopupDismissedFn}
+          />
+        )
+      }
+      case PopupType.InteractiveRebase:
+        return (
+          <InteractiveRebaseDialog
+            key="interactive-rebase"
+            dispatcher={this.props.dispatcher}
+            repository={popup.repository}
+            commits={popup.commits}
+            lastRetainedCommitRef={popup.lastRetainedCommitRef}
+            onDismissed={onPopupDismissedFn}
+          />
+        )
+      case PopupType.CommitAsFixup:
+        return (
+          <CommitAsFixupDialog
+            key="commit-as-fixup"
+            repository={popup.repository}
+            onSubmit={popup.onSubmit}
+            onDismissed={onPopupDismissedFn}
+          />
+        )
+      case PopupType.Autosquash:
+        return (
+          <AutosquashDialog
+            key="autosquash"
+            dispatcher={this.props.dispatcher}
+            repository={popup.repository}
+            onDismissed={onPopupDismissedFn}
+          />
+        )
       default:
         return assertNever(popup, `Unknown popup type: ${popup}`)
     }
@@ -2659,6 +2985,10 @@ export class App extends React.Component<IAppProps, IAppState> {
     }
 
     const { gitHubRepository, commit, selectedCommits } = currentDragElement
+    const { selectedState } = this.state
+    const repositoryState =
+      selectedState?.type === SelectionType.Repository ? selectedState : null
+
     switch (currentDragElement.type) {
       case DragType.Commit:
         return (
@@ -2667,6 +2997,8 @@ export class App extends React.Component<IAppProps, IAppState> {
             commit={commit}
             selectedCommits={selectedCommits}
             emoji={emoji}
+            repository={repositoryState?.repository ?? null}
+            branches={repositoryState?.state.branchesState.allBranches ?? []}
           />
         )
       default:
@@ -2746,6 +3078,7 @@ export class App extends React.Component<IAppProps, IAppState> {
         repositories={this.state.repositories}
         recentRepositories={this.state.recentRepositories}
         localRepositoryStateLookup={this.state.localRepositoryStateLookup}
+        worktreesLookup={this.state.worktreesLookup}
         askForConfirmationOnRemoveRepository={
           this.state.askForConfirmationOnRepositoryRemoval
         }
@@ -2917,6 +3250,25 @@ export class App extends React.Component<IAppProps, IAppState> {
       this.props.dispatcher.changeRepositoryAlias(repository, null)
     }
 
+    const { dispatcher } = this.props
+    const worktrees = this.state.worktreesLookup.get(repository.id) ?? []
+
+    const onLockWorktree = (repository: Repository) => {
+      dispatcher.lockWorktree(repository)
+    }
+
+    const onUnlockWorktree = (repository: Repository) => {
+      dispatcher.unlockWorktree(repository)
+    }
+
+    const onRemoveWorktree = (repository: Repository) => {
+      dispatcher.showPopup({ type: PopupType.RemoveWorktree, repository })
+    }
+
+    const onPruneWorktrees = (repository: Repository) => {
+      dispatcher.pruneWorktrees(repository)
+    }
+
     const items = generateRepositoryListContextMenu({
       onRemoveRepository: this.removeRepository,
       onShowRepository: this.showRepository,
@@ -2930,6 +3282,12 @@ export class App extends React.Component<IAppProps, IAppState> {
       onViewOnGitHub: this.viewOnGitHub,
       repository: repository,
       shellLabel: this.state.selectedShell,
+      linkedWorktree: getLinkedWorktree(repository, this.state.worktreesLookup),
+      hasPrunableWorktrees: worktrees.some(w => w.isPrunable),
+      onLockWorktree: onLockWorktree,
+      onUnlockWorktree: onUnlockWorktree,
+      onRemoveWorktree: onRemoveWorktree,
+      onPruneWorktrees: onPruneWorktrees,
     })
 
     showContextualMenu(items)
@@ -3134,16 +3492,22 @@ export class App extends React.Component<IAppProps, IAppState> {
 
     let banner = null
     if (this.state.currentBanner !== null) {
+      const { selectedState } = this.state
       banner = renderBanner(
         this.state.currentBanner,
         this.props.dispatcher,
-        this.onBannerDismissed
+        this.onBannerDismissed,
+        selectedState?.type === SelectionType.Repository
+          ? selectedState.state.changesState.workingDirectory
+          : null
       )
     } else if (
       this.state.isUpdateAvailableBannerVisible ||
       this.state.isUpdateShowcaseVisible
     ) {
       banner = this.renderUpdateBanner()
+    } else {
+      banner = this.renderBisectBanner()
     }
     return (
       <TransitionGroup>
@@ -3156,6 +3520,58 @@ export class App extends React.Component<IAppProps, IAppState> {
     )
   }
 
+  private renderBisectBanner() {
+    const { selectedState } = this.state
+    if (
+      selectedState === null ||
+      selectedState.type !== SelectionType.Repository ||
+      selectedState.state.bisectState === null
+    ) {
+      return null
+    }
+
+    return (
+      <BisectBanner
+        key="bisect-banner"
+        bisectState={selectedState.state.bisectState}
+        onMarkCurrentCommit={this.onMarkCurrentBisectCommit}
+        onShowResult={this.onShowBisectResult}
+        onReset={this.onResetBisect}
+      />
+    )
+  }
+
+  private onMarkCurrentBisectCommit = (mark: BisectMark) => {
+    const repository = this.getRepository()
+    if (repository instanceof Repository) {
+      this.props.dispatcher.markBisectCommit(repository, mark)
+    }
+  }
+
+  private onShowBisectResult = () => {
+    const { selectedState } = this.state
+    if (
+      selectedState === null ||
+      selectedState.type !== SelectionType.Repository ||
+      selectedState.state.bisectState === null
+    ) {
+      return
+    }
+
+    this.props.dispatcher.showPopup({
+      type: PopupType.BisectFinished,
+      repository: selectedState.repository,
+      bisectState: selectedState.state.bisectState,
+    })
+  }
+
+  private onResetBisect = () => {
+    const repository = this.getRepository()
+    if (repository instanceof Repository) {
+      this.props.dispatcher.resetBisect(repository)
+    }
+  }
+
   private renderUpdateBanner() {
     return (
       <UpdateAvailable
@@ -3245,7 +3661,9 @@ export class App extends React.Component<IAppProps, IAppState> {
           imageDiffType={state.imageDiffType}
           hideWhitespaceInChangesDiff={state.hideWhitespaceInChangesDiff}
           hideWhitespaceInHistoryDiff={state.hideWhitespaceInHistoryDiff}
+          showAllBranchesInHistory={state.showAllBranchesInHistory}
           showSideBySideDiff={state.showSideBySideDiff}
+          showBlame={state.showBlame}
           focusCommitMessage={state.focusCommitMessage}
           askForConfirmationOnDiscardChanges={
             state.askForConfirmationOnDiscardChanges
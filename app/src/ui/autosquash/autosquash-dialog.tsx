@@ -0,0 +1,190 @@
+import * as React from 'react'
+import { Dialog, DialogContent, DialogError, DialogFooter } from '../dialog'
+import { OkCancelButtonGroup } from '../dialog/ok-cancel-button-group'
+import { Dispatcher } from '../dispatcher'
+import { Repository } from '../../models/repository'
+import { Commit } from '../../models/commit'
+import {
+  IAutosquashFixup,
+  IAutosquashPlan,
+  InteractiveRebaseAction,
+} from '../../models/interactive-rebase'
+import { getCommits } from '../../lib/git'
+import { getAutosquashPlan, UnpushedCommitsArgs } from '../../lib/autosquash'
+import { Ref } from '../lib/ref'
+import { Loading } from '../lib/loading'
+
+/** The maximum number of commits of the current branch to look for fixups in */
+const CommitLimit = 250
+
+interface IAutosquashDialogProps {
+  readonly dispatcher: Dispatcher
+  readonly repository: Repository
+  readonly onDismissed: () => void
+}
+
+interface IAutosquashDialogState {
+  /**
+   * The rebase folding the fixup commits of the current branch, null if there
+   * are none or undefined while loading
+   */
+  readonly plan: IAutosquashPlan | null | undefined
+
+  /** The error loading the commits of the current branch, if any */
+  readonly error: string | null
+}
+
+/**
+ * A dialog previewing which `fixup!` and `squash!` commits of the current
+ * branch will be folded into which commits, before autosquashing them. Only
+ * the commits which haven't been pushed are autosquashed.
+ */
+export class AutosquashDialog extends React.Component<
+  IAutosquashDialogProps,
+  IAutosquashDialogState
+> {
+  public constructor(props: IAutosquashDialogProps) {
+    super(props)
+    this.state = { plan: undefined, error: null }
+  }
+
+  public async componentDidMount() {
+    try {
+      const commits = await getCommits(
+        this.props.repository,
+        'HEAD',
+        CommitLimit,
+        undefined,
+        UnpushedCommitsArgs
+      )
+      this.setState({ plan: getAutosquashPlan([...commits].reverse()) })
+    } catch (e) {
+      log.error('Failed loading the commits to autosquash', e)
+      this.setState({ plan: null, error: e.message })
+    }
+  }
+
+  private onSubmit = () => {
+    const { plan } = this.state
+
+    if (plan === undefined || plan === null || hasMergeCommits(plan)) {
+      return
+    }
+
+    const oldest = plan.steps[0].commit
+    const lastRetainedCommitRef =
+      oldest.parentSHAs.length > 0 ? `${oldest.sha}^` : null
+
+    this.props.onDismissed()
+    this.props.dispatcher.interactiveRebase(
+      this.props.repository,
+      plan.steps,
+      lastRetainedCommitRef
+    )
+  }
+
+  public render() {
+    const { plan, error } = this.state
+    const canAutosquash =
+      plan !== undefined && plan !== null && !hasMergeCommits(plan)
+
+    return (
+      <Dialog
+        className="autosquash"
+        title={
+          __DARWIN__ ? 'Autosquash Fixup Commits' : 'Autosquash fixup commits'
+        }
+        onSubmit={this.onSubmit}
+        onDismissed={this.props.onDismissed}
+      >
+        {error !== null && <DialogError>{error}</DialogError>}
+        {plan && hasMergeCommits(plan) && (
+          <DialogError>
+            Unable to autosquash. Autosquashing replays all commits from the
+            oldest commit a fixup is for, and a merge commit cannot exist among
+            those commits.
+          </DialogError>
+        )}
+        <DialogContent>{this.renderPlan()}</DialogContent>
+        <DialogFooter>
+          <OkCancelButtonGroup
+            okButtonText="Autosquash"
+            okButtonDisabled={!canAutosquash}
+          />
+        </DialogFooter>
+      </Dialog>
+    )
+  }
+
+  private renderPlan() {
+    const { plan, error } = this.state
+
+    if (plan === undefined) {
+      return <Loading />
+    }
+
+    if (error !== null) {
+      return null
+    }
+
+    if (plan === null) {
+      return (
+        <p>
+          There are no fixup commits for unpushed commits on the current branch.
+          Commit changes as a fixup for an earlier commit to fold them into it.
+        </p>
+      )
+    }
+
+    const targets = new Array<Commit>()
+
+    for (const { target } of plan.fixups) {
+      if (!targets.includes(target)) {
+        targets.push(target)
+      }
+    }
+
+    return (
+      <>
+        <p>
+          {pluralizeCommits(plan.fixups.length)} will be folded into{' '}
+          {pluralizeCommits(targets.length)}, replaying{' '}
+          {pluralizeCommits(plan.steps.length)} in total.
+        </p>
+        <ul className="autosquash-targets">
+          {targets.map(target => (
+            <li key={target.sha}>
+              <div className="commit">
+                <Ref>{target.shortSha}</Ref> {target.summary}
+              </div>
+              <ul className="autosquash-fixups">
+                {plan.fixups
+                  .filter(f => f.target === target)
+                  .map(f => this.renderFixup(f))}
+              </ul>
+            </li>
+          ))}
+        </ul>
+      </>
+    )
+  }
+
+  private renderFixup({ commit, action }: IAutosquashFixup) {
+    return (
+      <li key={commit.sha} className="commit">
+        <span className="action">
+          {action === InteractiveRebaseAction.Squash ? 'squash' : 'fixup'}
+        </span>
+        <Ref>{commit.shortSha}</Ref> {commit.summary}
+      </li>
+    )
+  }
+}
+
+function pluralizeCommits(count: number) {
+  return count === 1 ? '1 commit' : `${count} commits`
+}
+
+function hasMergeCommits(plan: IAutosquashPlan) {
+  return plan.steps.some(s => s.commit.isMergeCommit)
+}
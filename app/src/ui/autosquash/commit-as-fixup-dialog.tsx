@@ -0,0 +1,223 @@
+import * as React from 'react'
+import { Dialog, DialogContent, DialogError, DialogFooter } from '../dialog'
+import { OkCancelButtonGroup } from '../dialog/ok-cancel-button-group'
+import { Repository } from '../../models/repository'
+import { Commit } from '../../models/commit'
+import { getCommits } from '../../lib/git'
+import { getFixupSummary, UnpushedCommitsArgs } from '../../lib/autosquash'
+import { List } from '../lib/list'
+import { TextBox } from '../lib/text-box'
+import { Ref } from '../lib/ref'
+import { Loading } from '../lib/loading'
+import { RelativeTime } from '../relative-time'
+
+/** The maximum number of unpushed commits of the current branch to pick from */
+const CommitLimit = 250
+
+interface ICommitAsFixupDialogProps {
+  readonly repository: Repository
+
+  /**
+   * Called with the commit picked to commit the selected changes as a fixup
+   * for, returning whether the commit was created
+   */
+  readonly onSubmit: (target: Commit) => Promise<boolean>
+
+  readonly onDismissed: () => void
+}
+
+interface ICommitAsFixupDialogState {
+  /** The unpushed commits of the current branch or null while loading */
+  readonly commits: ReadonlyArray<Commit> | null
+
+  /** The error loading the commits of the current branch, if any */
+  readonly error: string | null
+  readonly filter: string
+  readonly selectedCommit: Commit | null
+  readonly isCommitting: boolean
+}
+
+/**
+ * A dialog for committing the selected changes as a fixup for an earlier
+ * commit of the current branch, to be folded into it by an autosquash rebase.
+ * Like autosquashing, only the commits which haven't been pushed are offered.
+ */
+export class CommitAsFixupDialog extends React.Component<
+  ICommitAsFixupDialogProps,
+  ICommitAsFixupDialogState
+> {
+  public constructor(props: ICommitAsFixupDialogProps) {
+    super(props)
+
+    this.state = {
+      commits: null,
+      error: null,
+      filter: '',
+      selectedCommit: null,
+      isCommitting: false,
+    }
+  }
+
+  public async componentDidMount() {
+    try {
+      const commits = await getCommits(
+        this.props.repository,
+        'HEAD',
+        CommitLimit,
+        undefined,
+        UnpushedCommitsArgs
+      )
+      this.setState({ commits })
+    } catch (e) {
+      log.error('Failed loading the commits to commit a fixup for', e)
+      this.setState({ commits: [], error: e.message })
+    }
+  }
+
+  private get filteredCommits(): ReadonlyArray<Commit> {
+    const { commits, filter } = this.state
+    const needle = filter.trim().toLowerCase()
+
+    if (commits === null || needle.length === 0) {
+      return commits ?? []
+    }
+
+    return commits.filter(
+      c => c.summary.toLowerCase().includes(needle) || c.sha.startsWith(needle)
+    )
+  }
+
+  private onFilterChanged = (filter: string) => {
+    this.setState({ filter })
+  }
+
+  private onSelectedRowChanged = (row: number) => {
+    const selectedCommit = this.filteredCommits.at(row)
+
+    if (selectedCommit !== undefined) {
+      this.setState({ selectedCommit })
+    }
+  }
+
+  private onSubmit = async () => {
+    const { selectedCommit } = this.state
+
+    if (selectedCommit === null) {
+      return
+    }
+
+    this.setState({ isCommitting: true })
+    const committed = await this.props.onSubmit(selectedCommit)
+    this.setState({ isCommitting: false })
+
+    if (committed) {
+      this.props.onDismissed()
+    }
+  }
+
+  public render() {
+    const { selectedCommit, isCommitting, error } = this.state
+
+    return (
+      <Dialog
+        className="commit-as-fixup"
+        title={__DARWIN__ ? 'Commit as Fixup' : 'Commit as fixup'}
+        onSubmit={this.onSubmit}
+        onDismissed={this.props.onDismissed}
+        loading={isCommitting}
+        disabled={isCommitting}
+      >
+        {error !== null && <DialogError>{error}</DialogError>}
+        <DialogContent>
+          <p>
+            Pick the unpushed commit of the current branch the selected changes
+            fix. Autosquash the branch later to fold them into that commit.
+          </p>
+          <TextBox
+            placeholder="Filter commits"
+            value={this.state.filter}
+            onValueChanged={this.onFilterChanged}
+            autoFocus={true}
+          />
+          <div className="commit-as-fixup-list">{this.renderCommits()}</div>
+          {selectedCommit !== null && (
+            <p className="fixup-summary">
+              The changes will be committed as{' '}
+              <Ref>{getFixupSummary(selectedCommit)}</Ref>.
+            </p>
+          )}
+        </DialogContent>
+        <DialogFooter>
+          <OkCancelButtonGroup
+            okButtonText={__DARWIN__ ? 'Commit Fixup' : 'Commit fixup'}
+            okButtonDisabled={selectedCommit === null}
+          />
+        </DialogFooter>
+      </Dialog>
+    )
+  }
+
+  private renderCommits() {
+    const { commits, selectedCommit, error } = this.state
+
+    if (commits === null) {
+      return <Loading />
+    }
+
+    const filteredCommits = this.filteredCommits
+
+    if (error !== null) {
+      return null
+    }
+
+    if (commits.length === 0) {
+      return (
+        <div className="empty">
+          There are no unpushed commits on the current branch.
+        </div>
+      )
+    }
+
+    if (filteredCommits.length === 0) {
+      return <div className="empty">No commits match the filter.</div>
+    }
+
+    const selectedRow =
+      selectedCommit === null ? -1 : filteredCommits.indexOf(selectedCommit)
+
+    return (
+      <List
+        rowCount={filteredCommits.length}
+        rowHeight={50}
+        rowRenderer={this.renderCommit}
+        selectedRows={selectedRow === -1 ? [] : [selectedRow]}
+        onSelectedRowChanged={this.onSelectedRowChanged}
+        getRowAriaLabel={this.getCommitAriaLabel}
+        invalidationProps={filteredCommits}
+      />
+    )
+  }
+
+  private renderCommit = (row: number) => {
+    const commit = this.filteredCommits.at(row)
+
+    if (commit === undefined) {
+      return null
+    }
+
+    return (
+      <div className="fixup-target">
+        <div className="summary">{commit.summary}</div>
+        <div className="description">
+          <Ref>{commit.shortSha}</Ref> {commit.author.name} •{' '}
+          <RelativeTime date={commit.author.date} />
+        </div>
+      </div>
+    )
+  }
+
+  private getCommitAriaLabel = (row: number) => {
+    const commit = this.filteredCommits.at(row)
+    return commit === undefined ? '' : `${commit.shortSha} ${commit.summary}`
+  }
+}
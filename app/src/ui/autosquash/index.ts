@@ -0,0 +1,2 @@
+export { AutosquashDialog } from './autosquash-dialog'
+export { CommitAsFixupDialog } from './commit-as-fixup-dialog'
@@ -0,0 +1,114 @@
+import * as React from 'react'
+import { Octicon } from '../octicons'
+import * as OcticonSymbol from '../octicons/octicons.generated'
+import { Banner } from './banner'
+import { LinkButton } from '../lib/link-button'
+import { BisectMark, IBisectState } from '../../models/bisect'
+import { shortenSHA } from '../../models/commit'
+
+interface IBisectBannerProps {
+  /** The state of the bisect session in the selected repository */
+  readonly bisectState: IBisectState
+
+  /** Called when the user marks the commit being tested */
+  readonly onMarkCurrentCommit: (mark: BisectMark) => void
+
+  /** Called when the user wants to see the result of the bisect session */
+  readonly onShowResult: () => void
+
+  /** Called when the user ends the bisect session */
+  readonly onReset: () => void
+}
+
+/**
+ * A banner which is shown for as long as the selected repository is being
+ * bisected, showing the commit currently being tested along with how much
+ * work is left.
+ */
+export class BisectBanner extends React.Component<IBisectBannerProps, {}> {
+  private onDismissed = () => {
+    log.warn(
+      `[BisectBanner] this is not dismissable, the bisect session has to be reset`
+    )
+  }
+
+  private onMarkGood = () => this.props.onMarkCurrentCommit('good')
+  private onMarkBad = () => this.props.onMarkCurrentCommit('bad')
+  private onSkip = () => this.props.onMarkCurrentCommit('skip')
+
+  public render() {
+    return (
+      <Banner
+        id="bisect-banner"
+        dismissable={false}
+        onDismissed={this.onDismissed}
+      >
+        <Octicon className="bisect-icon" symbol={OcticonSymbol.search} />
+        <div className="banner-message">
+          {this.renderMessage()}
+          <LinkButton onClick={this.props.onReset}>
+            {__DARWIN__ ? 'End Bisect' : 'End bisect'}
+          </LinkButton>
+        </div>
+      </Banner>
+    )
+  }
+
+  private renderMessage() {
+    const {
+      current,
+      badSha,
+      firstBadCommit,
+      possibleFirstBadShas,
+      remainingCount,
+      remainingSteps,
+    } = this.props.bisectState
+
+    if (firstBadCommit !== null) {
+      return (
+        <>
+          <span>
+            <strong>{shortenSHA(firstBadCommit.sha)}</strong> is the first bad
+            commit.
+          </span>
+          <LinkButton onClick={this.props.onShowResult}>View result</LinkButton>
+        </>
+      )
+    }
+
+    if (possibleFirstBadShas.length > 0) {
+      return (
+        <>
+          <span>
+            Only skipped commits are left, the first bad commit is one of{' '}
+            {possibleFirstBadShas.length} commits.
+          </span>
+          <LinkButton onClick={this.props.onShowResult}>View result</LinkButton>
+        </>
+      )
+    }
+
+    if (current === null) {
+      const missing = badSha === null ? 'bad' : 'good'
+      return (
+        <span>Bisecting: mark a {missing} commit in History to begin.</span>
+      )
+    }
+
+    const commits = remainingCount === 1 ? 'commit' : 'commits'
+    const steps = remainingSteps === 1 ? 'step' : 'steps'
+
+    return (
+      <>
+        <span title={current.summary}>
+          Bisecting: testing <strong>{shortenSHA(current.sha)}</strong>{' '}
+          {current.summary} ({remainingCount} {commits} left, roughly{' '}
+          {remainingSteps} {steps})
+        </span>
+        <LinkButton onClick={this.onMarkGood}>Good</LinkButton>
+        <LinkButton onClick={this.onMarkBad}>Bad</LinkButton>
+        <LinkButton onClick={this.onSkip}>Skip</LinkButton>
+      </>
+    )
+  }
+}
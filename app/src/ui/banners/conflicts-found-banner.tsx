@@ -3,6 +3,7 @@ import { Octicon } from '../octicons'
 import * as OcticonSymbol from '../octicons/octicons.generated'
 import { Banner } from './banner'
 import { LinkButton } from '../lib/link-button'
+import { TooltippedContent } from '../lib/tooltipped-content'
 
 interface IConflictsFoundBannerProps {
   /**
@@ -13,6 +14,11 @@ interface IConflictsFoundBannerProps {
    *  - squashing commits on <strong>target-branch-name</strong>
    */
   readonly operationDescription: string | JSX.Element
+  /**
+   * Paths of the conflicted files Git resolved using a recorded resolution,
+   * listed apart from the others so the user knows to review them
+   */
+  readonly recordedResolutionPaths: ReadonlyArray<string>
   /** Callback to fire when the dialog should be reopened */
   readonly onOpenConflictsDialog: () => void
   /** Callback to fire to dismiss the banner */
@@ -46,9 +52,33 @@ export class ConflictsFoundBanner extends React.Component<
           <span>
             Resolve conflicts to continue {this.props.operationDescription}.
           </span>
+          {this.renderRecordedResolutions()}
           <LinkButton onClick={this.openDialog}>View conflicts</LinkButton>
         </div>
       </Banner>
     )
   }
+
+  private renderRecordedResolutions() {
+    const paths = this.props.recordedResolutionPaths
+
+    if (paths.length === 0) {
+      return null
+    }
+
+    const message =
+      paths.length === 1
+        ? '1 file was resolved using a recorded resolution.'
+        : `${paths.length} files were resolved using recorded resolutions.`
+
+    return (
+      <TooltippedContent
+        className="recorded-resolutions"
+        tooltip={paths.join('\n')}
+        tooltipClassName="recorded-resolutions-tooltip"
+      >
+        {message}
+      </TooltippedContent>
+    )
+  }
 }
@@ -1,3 +1,4 @@
 export { Banner } from './banner'
 export { UpdateAvailable } from './update-available'
 export { renderBanner } from './render-banner'
+export { BisectBanner } from './bisect-banner'
@@ -19,11 +19,21 @@ import { SuccessfulSquash } from './successful-squash'
 import { SuccessBanner } from './success-banner'
 import { ConflictsFoundBanner } from './conflicts-found-banner'
 import { WindowsVersionNoLongerSupportedBanner } from './windows-version-no-longer-supported-banner'
+import { WorkingDirectoryStatus } from '../../models/status'
+import { getFilesResolvedFromRecordedResolutions } from '../../lib/status'
 
+/**
+ * Render a banner
+ *
+ * @param workingDirectory The current status of the selected repository, if
+ *                         any, which banners are cleared for when another
+ *                         repository is selected
+ */
 export function renderBanner(
   banner: Banner,
   dispatcher: Dispatcher,
-  onDismissed: () => void
+  onDismissed: () => void,
+  workingDirectory: WorkingDirectoryStatus | null
 ): JSX.Element {
   switch (banner.type) {
     case BannerType.SuccessfulMerge:
@@ -151,10 +161,40 @@ export function renderBanner(
         </SuccessBanner>
       )
     }
+    case BannerType.SuccessfulInteractiveRebase: {
+      const pluralized = banner.count === 1 ? 'commit' : 'commits'
+
+      return (
+        <SuccessBanner
+          timeout={15000}
+          onDismissed={onDismissed}
+          onUndo={banner.onUndo}
+        >
+          <span>
+            Successfully rebased {banner.count} {pluralized} interactively.
+          </span>
+        </SuccessBanner>
+      )
+    }
+    case BannerType.InteractiveRebaseUndone: {
+      const pluralized = banner.commitsCount === 1 ? 'commit' : 'commits'
+      return (
+        <SuccessBanner timeout={5000} onDismissed={onDismissed}>
+          Interactive rebase of {banner.commitsCount} {pluralized} undone.
+        </SuccessBanner>
+      )
+    }
     case BannerType.ConflictsFound:
       return (
         <ConflictsFoundBanner
           operationDescription={banner.operationDescription}
+          recordedResolutionPaths={
+            workingDirectory === null
+              ? []
+              : getFilesResolvedFromRecordedResolutions(workingDirectory).map(
+                  f => f.path
+                )
+          }
           onOpenConflictsDialog={banner.onOpenConflictsDialog}
           onDismissed={onDismissed}
           key={'conflicts-found'}
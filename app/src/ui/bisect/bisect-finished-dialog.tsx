@@ -0,0 +1,126 @@
+import * as React from 'react'
+import { Dialog, DialogContent, DialogFooter } from '../dialog'
+import { OkCancelButtonGroup } from '../dialog/ok-cancel-button-group'
+import { Ref } from '../lib/ref'
+import { Dispatcher } from '../dispatcher'
+import { Repository } from '../../models/repository'
+import { IBisectState } from '../../models/bisect'
+import { shortenSHA } from '../../models/commit'
+
+interface IBisectFinishedProps {
+  readonly dispatcher: Dispatcher
+  readonly repository: Repository
+
+  /** The state of the bisect session once it can't be narrowed down further */
+  readonly bisectState: IBisectState
+
+  readonly onDismissed: () => void
+}
+
+interface IBisectFinishedState {
+  readonly isResetting: boolean
+}
+
+/**
+ * A dialog shown at the end of a bisect session, presenting the first bad
+ * commit (or the commits which may be the first bad commit when some had to
+ * be skipped) and offering to end the session and jump to it in History.
+ */
+export class BisectFinished extends React.Component<
+  IBisectFinishedProps,
+  IBisectFinishedState
+> {
+  public constructor(props: IBisectFinishedProps) {
+    super(props)
+    this.state = { isResetting: false }
+  }
+
+  /**
+   * The commit to select in History. When Git couldn't narrow it down we
+   * pick the most recent of the possible commits, which is the one Git
+   * considers bad.
+   */
+  private get resultSha() {
+    const { firstBadCommit, badSha } = this.props.bisectState
+    return firstBadCommit?.sha ?? badSha
+  }
+
+  public render() {
+    const { isResetting } = this.state
+
+    return (
+      <Dialog
+        id="bisect-finished"
+        title={__DARWIN__ ? 'Bisect Finished' : 'Bisect finished'}
+        dismissable={!isResetting}
+        loading={isResetting}
+        disabled={isResetting}
+        onDismissed={this.props.onDismissed}
+        onSubmit={this.onSubmit}
+      >
+        <DialogContent>{this.renderResult()}</DialogContent>
+        <DialogFooter>
+          <OkCancelButtonGroup
+            okButtonText={__DARWIN__ ? 'View Commit' : 'View commit'}
+            okButtonDisabled={this.resultSha === null}
+            cancelButtonText="Close"
+          />
+        </DialogFooter>
+      </Dialog>
+    )
+  }
+
+  private renderResult() {
+    const { firstBadCommit, possibleFirstBadShas } = this.props.bisectState
+
+    if (firstBadCommit !== null) {
+      return (
+        <>
+          <p>The first bad commit is:</p>
+          <p>
+            <Ref>{shortenSHA(firstBadCommit.sha)}</Ref> {firstBadCommit.summary}
+          </p>
+          <p className="description">
+            Viewing the commit ends the bisect session and checks out the branch
+            you were on before bisecting started.
+          </p>
+        </>
+      )
+    }
+
+    return (
+      <>
+        <p>
+          Some commits were skipped so the first bad commit could only be
+          narrowed down to one of these commits:
+        </p>
+        <ul>
+          {possibleFirstBadShas.map(sha => (
+            <li key={sha}>
+              <Ref>{shortenSHA(sha)}</Ref>
+            </li>
+          ))}
+        </ul>
+        <p className="description">
+          Close this dialog to keep bisecting, for example by testing one of the
+          skipped commits anyway.
+        </p>
+      </>
+    )
+  }
+
+  private onSubmit = async () => {
+    const { dispatcher, repository } = this.props
+    const sha = this.resultSha
+
+    this.setState({ isResetting: true })
+
+    await dispatcher.resetBisect(repository)
+
+    if (sha !== null) {
+      await dispatcher.selectCommitInHistory(repository, sha)
+    }
+
+    this.props.onDismissed()
+  }
+}
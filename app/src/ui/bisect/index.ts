@@ -0,0 +1 @@
+export { BisectFinished } from './bisect-finished-dialog'
@@ -6,12 +6,14 @@ interface IBranchContextMenuConfig {
   isLocal: boolean
   onRenameBranch?: (branchName: string) => void
   onDeleteBranch?: (branchName: string) => void
+  onCreateWorktree?: (branchName: string) => void
 }
 
 export function generateBranchContextMenuItems(
   config: IBranchContextMenuConfig
 ): IMenuItem[] {
-  const { name, isLocal, onRenameBranch, onDeleteBranch } = config
+  const { name, isLocal, onRenameBranch, onDeleteBranch, onCreateWorktree } =
+    config
   const items = new Array<IMenuItem>()
 
   if (onRenameBranch !== undefined) {
@@ -27,6 +29,15 @@ export function generateBranchContextMenuItems(
     action: () => clipboard.writeText(name),
   })
 
+  if (onCreateWorktree !== undefined) {
+    items.push({
+      label: __DARWIN__
+        ? 'New Worktree from Branch…'
+        : 'New worktree from branch…',
+      action: () => onCreateWorktree(name),
+    })
+  }
+
   items.push({ type: 'separator' })
 
   if (onDeleteBranch !== undefined) {
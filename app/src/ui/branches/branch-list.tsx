@@ -123,6 +123,9 @@ interface IBranchListProps {
 
   /** Optional: Callback for if delete context menu should exist */
   readonly onDeleteBranch?: (branchName: string) => void
+
+  /** Optional: Callback for if new worktree context menu should exist */
+  readonly onCreateWorktree?: (branchName: string) => void
 }
 
 interface IBranchListState {
@@ -249,8 +252,12 @@ export class BranchList extends React.Component<
   ) => {
     event.preventDefault()
 
-    const { onRenameBranch, onDeleteBranch } = this.props
-    if (onRenameBranch === undefined && onDeleteBranch === undefined) {
+    const { onRenameBranch, onDeleteBranch, onCreateWorktree } = this.props
+    if (
+      onRenameBranch === undefined &&
+      onDeleteBranch === undefined &&
+      onCreateWorktree === undefined
+    ) {
       return
     }
 
@@ -261,6 +268,7 @@ export class BranchList extends React.Component<
       isLocal,
       onRenameBranch,
       onDeleteBranch,
+      onCreateWorktree,
     })
 
     showContextualMenu(items)
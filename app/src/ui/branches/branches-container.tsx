@@ -22,6 +22,7 @@ import { Button } from '../lib/button'
 
 import { BranchList } from './branch-list'
 import { PullRequestList } from './pull-request-list'
+import { TagList } from './tag-list'
 import { IBranchListItem } from './group-branches'
 import { renderDefaultBranch } from './branch-renderer'
 import { IMatches } from '../../lib/fuzzy-find'
@@ -42,6 +43,7 @@ interface IBranchesContainerProps {
   readonly pullRequests: ReadonlyArray<PullRequest>
   readonly onRenameBranch: (branchName: string) => void
   readonly onDeleteBranch: (branchName: string) => void
+  readonly onCreateWorktree: (branchName: string) => void
 
   /** The pull request associated with the current branch. */
   readonly currentPullRequest: PullRequest | null
@@ -51,6 +53,12 @@ interface IBranchesContainerProps {
 
   /** Map from the emoji shortcut (e.g., :+1:) to the image's local path. */
   readonly emoji: Map<string, string>
+
+  /** The local tags and the commits they point to. */
+  readonly localTags: Map<string, string> | null
+
+  /** The tags of the current remote or null if they haven't been loaded. */
+  readonly remoteTags: ReadonlyMap<string, string> | null
 }
 
 interface IBranchesContainerState {
@@ -181,26 +189,81 @@ export class BranchesContainer extends React.Component<
     return null
   }
 
+  /**
+   * Get the tabs shown in the foldout, in order. Pull requests are only
+   * available for repositories on GitHub.
+   */
+  private getTabs(): ReadonlyArray<BranchesTab> {
+    return this.props.repository.gitHubRepository
+      ? [BranchesTab.Branches, BranchesTab.PullRequests, BranchesTab.Tags]
+      : [BranchesTab.Branches, BranchesTab.Tags]
+  }
+
+  /** Get the tab to show, falling back to branches if it isn't available. */
+  private getSelectedTab() {
+    const { selectedTab } = this.props
+    return this.getTabs().includes(selectedTab)
+      ? selectedTab
+      : BranchesTab.Branches
+  }
+
   private renderTabBar() {
-    if (!this.props.repository.gitHubRepository) {
-      return null
-    }
+    const tabs = this.getTabs()
 
     return (
       <TabBar
         onTabClicked={this.onTabClicked}
-        selectedIndex={this.props.selectedTab}
+        selectedIndex={tabs.indexOf(this.getSelectedTab())}
         allowDragOverSwitching={true}
       >
-        <span id="branches-tab">Branches</span>
-        <span id="pull-requests-tab" className="pull-request-tab">
-          {__DARWIN__ ? 'Pull Requests' : 'Pull requests'}
-          {this.renderOpenPullRequestsBubble()}
-        </span>
+        {tabs.map(tab => this.renderTab(tab))}
       </TabBar>
     )
   }
 
+  private renderTab(tab: BranchesTab) {
+    switch (tab) {
+      case BranchesTab.Branches:
+        return (
+          <span key="branches" id="branches-tab">
+            Branches
+          </span>
+        )
+      case BranchesTab.PullRequests:
+        return (
+          <span
+            key="pull-requests"
+            id="pull-requests-tab"
+            className="pull-request-tab"
+          >
+            {__DARWIN__ ? 'Pull Requests' : 'Pull requests'}
+            {this.renderOpenPullRequestsBubble()}
+          </span>
+        )
+      case BranchesTab.Tags:
+        return (
+          <span key="tags" id="tags-tab">
+            Tags
+          </span>
+        )
+      default:
+        return assertNever(tab, `Unknown Branches tab: ${tab}`)
+    }
+  }
+
+  private getTabId(tab: BranchesTab) {
+    switch (tab) {
+      case BranchesTab.Branches:
+        return 'branches-tab'
+      case BranchesTab.PullRequests:
+        return 'pull-requests-tab'
+      case BranchesTab.Tags:
+        return 'tags-tab'
+      default:
+        return assertNever(tab, `Unknown Branches tab: ${tab}`)
+    }
+  }
+
   private renderBranch = (item: IBranchListItem, matches: IMatches) => {
     return renderDefaultBranch(
       item,
@@ -212,17 +275,10 @@ export class BranchesContainer extends React.Component<
   }
 
   private renderSelectedTab() {
-    const { selectedTab, repository } = this.props
-
-    const ariaLabelledBy =
-      selectedTab === BranchesTab.Branches || !repository.gitHubRepository
-        ? 'branches-tab'
-        : 'pull-requests-tab'
-
     return (
       <div
         role="tabpanel"
-        aria-labelledby={ariaLabelledBy}
+        aria-labelledby={this.getTabId(this.getSelectedTab())}
         className="branches-container-panel"
       >
         {this.renderSelectedTabContent()}
@@ -231,11 +287,7 @@ export class BranchesContainer extends React.Component<
   }
 
   private renderSelectedTabContent() {
-    let tab = this.props.selectedTab
-
-    if (!this.props.repository.gitHubRepository) {
-      tab = BranchesTab.Branches
-    }
+    const tab = this.getSelectedTab()
 
     switch (tab) {
       case BranchesTab.Branches:
@@ -259,11 +311,22 @@ export class BranchesContainer extends React.Component<
             renderPreList={this.renderPreList}
             onRenameBranch={this.props.onRenameBranch}
             onDeleteBranch={this.props.onDeleteBranch}
+            onCreateWorktree={this.props.onCreateWorktree}
           />
         )
       case BranchesTab.PullRequests: {
         return this.renderPullRequests()
       }
+      case BranchesTab.Tags:
+        return (
+          <TagList
+            dispatcher={this.props.dispatcher}
+            repository={this.props.repository}
+            localTags={this.props.localTags}
+            remoteTags={this.props.remoteTags}
+            currentTipSha={this.props.currentBranch?.tip.sha ?? null}
+          />
+        )
       default:
         return assertNever(tab, `Unknown Branches tab: ${tab}`)
     }
@@ -373,8 +436,12 @@ export class BranchesContainer extends React.Component<
     )
   }
 
-  private onTabClicked = (tab: BranchesTab) => {
-    this.props.dispatcher.changeBranchesTab(tab)
+  private onTabClicked = (index: number) => {
+    const tab = this.getTabs()[index]
+
+    if (tab !== undefined) {
+      this.props.dispatcher.changeBranchesTab(tab)
+    }
   }
 
   private onDismiss = () => {
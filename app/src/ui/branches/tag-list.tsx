@@ -0,0 +1,408 @@
+import * as React from 'react'
+import { clipboard } from 'electron'
+import {
+  FilterList,
+  IFilterListGroup,
+  IFilterListItem,
+} from '../lib/filter-list'
+import { Dispatcher } from '../dispatcher'
+import {
+  Repository,
+  isRepositoryWithGitHubRepository,
+} from '../../models/repository'
+import { ITag } from '../../models/tag'
+import { PopupType } from '../../models/popup'
+import { getTags } from '../../lib/git'
+import { FoldoutType } from '../../lib/app-state'
+import { IMatches } from '../../lib/fuzzy-find'
+import { IMenuItem, showContextualMenu } from '../../lib/menu-item'
+import { Button } from '../lib/button'
+import { HighlightText } from '../lib/highlight-text'
+import { Octicon, syncClockwise } from '../octicons'
+import * as OcticonSymbol from '../octicons/octicons.generated'
+import { RelativeTime } from '../relative-time'
+
+/** The height of a tag in the list, which fits its annotation and tagger */
+const RowHeight = 62
+
+type TagGroupIdentifier = 'local' | 'remote'
+
+interface ITagListItem extends IFilterListItem {
+  readonly id: string
+  readonly text: ReadonlyArray<string>
+
+  /** The name of the tag */
+  readonly name: string
+
+  /** The local tag or null if the tag only exists on the remote */
+  readonly tag: ITag | null
+
+  /**
+   * The commit the tag points to on the remote, or null if it doesn't exist
+   * there or the remote tags haven't been loaded.
+   */
+  readonly remoteSha: string | null
+}
+
+interface ITagListProps {
+  readonly dispatcher: Dispatcher
+  readonly repository: Repository
+
+  /** The local tags and the commits they point to, reloaded on change */
+  readonly localTags: Map<string, string> | null
+
+  /** The tags of the current remote or null if they haven't been loaded */
+  readonly remoteTags: ReadonlyMap<string, string> | null
+
+  /** The commit new tags are created on, or null if there is none */
+  readonly currentTipSha: string | null
+}
+
+interface ITagListState {
+  /** The local tags, most recent first, or null while loading */
+  readonly tags: ReadonlyArray<ITag> | null
+  readonly groups: ReadonlyArray<IFilterListGroup<ITagListItem>>
+  readonly filterText: string
+  readonly selectedItem: ITagListItem | null
+  readonly isLoadingRemoteTags: boolean
+}
+
+/** Get the first line of the annotation, or a description of the tag. */
+function getSubtitle(tag: ITag | null) {
+  if (tag === null) {
+    return 'Only on the remote'
+  }
+
+  if (!tag.annotated) {
+    return 'Lightweight tag'
+  }
+
+  return tag.message.split('\n')[0]
+}
+
+function createListItems(
+  tags: ReadonlyArray<ITag>,
+  remoteTags: ReadonlyMap<string, string> | null
+): ReadonlyArray<IFilterListGroup<ITagListItem>> {
+  const localNames = new Set(tags.map(t => t.name))
+
+  const localItems = tags.map(tag => ({
+    id: tag.name,
+    text: [tag.name, getSubtitle(tag)],
+    name: tag.name,
+    tag,
+    remoteSha: remoteTags?.get(tag.name) ?? null,
+  }))
+
+  const remoteItems = [...(remoteTags ?? [])]
+    .filter(([name]) => !localNames.has(name))
+    .sort(([x], [y]) => y.localeCompare(x))
+    .map(([name, sha]) => ({
+      id: name,
+      text: [name, getSubtitle(null)],
+      name,
+      tag: null,
+      remoteSha: sha,
+    }))
+
+  const groups: Array<IFilterListGroup<ITagListItem>> = [
+    { identifier: 'local', items: localItems },
+  ]
+
+  if (remoteItems.length > 0) {
+    groups.push({ identifier: 'remote', items: remoteItems })
+  }
+
+  return groups
+}
+
+/**
+ * The list of local tags and the tags of the current remote, with actions to
+ * push them, delete them locally or on the remote and to draft releases.
+ */
+export class TagList extends React.Component<ITagListProps, ITagListState> {
+  public constructor(props: ITagListProps) {
+    super(props)
+
+    this.state = {
+      tags: null,
+      groups: [],
+      filterText: '',
+      selectedItem: null,
+      isLoadingRemoteTags: false,
+    }
+  }
+
+  public componentDidMount() {
+    this.loadTags()
+    this.refreshRemoteTags()
+  }
+
+  public componentDidUpdate(prevProps: ITagListProps) {
+    if (prevProps.localTags !== this.props.localTags) {
+      this.loadTags()
+    } else if (
+      prevProps.remoteTags !== this.props.remoteTags &&
+      this.state.tags !== null
+    ) {
+      this.setState({
+        groups: createListItems(this.state.tags, this.props.remoteTags),
+      })
+    }
+  }
+
+  private async loadTags() {
+    const tags = await getTags(this.props.repository)
+    this.setState({
+      tags,
+      groups: createListItems(tags, this.props.remoteTags),
+    })
+  }
+
+  private refreshRemoteTags = async () => {
+    this.setState({ isLoadingRemoteTags: true })
+    await this.props.dispatcher.refreshRemoteTags(this.props.repository)
+    this.setState({ isLoadingRemoteTags: false })
+  }
+
+  public render() {
+    return (
+      <FilterList<ITagListItem>
+        className="tag-list"
+        rowHeight={RowHeight}
+        groups={this.state.groups}
+        selectedItem={this.state.selectedItem}
+        renderItem={this.renderTag}
+        renderGroupHeader={this.renderGroupHeader}
+        filterText={this.state.filterText}
+        onFilterTextChanged={this.onFilterTextChanged}
+        invalidationProps={this.state.groups}
+        onItemClick={this.onItemClick}
+        onSelectionChanged={this.onSelectionChanged}
+        onItemContextMenu={this.onTagContextMenu}
+        renderNoItems={this.renderNoItems}
+        renderPostFilter={this.renderPostFilter}
+        placeholderText="Filter tags"
+      />
+    )
+  }
+
+  private renderTag = (item: ITagListItem, matches: IMatches) => {
+    const { tag, remoteSha } = item
+    const subtitle = getSubtitle(tag)
+
+    return (
+      <div className="tag-list-item">
+        <Octicon className="icon" symbol={OcticonSymbol.tag} />
+        <div className="info">
+          <div className="title">
+            <span className="name" title={item.name}>
+              <HighlightText text={item.name} highlight={matches.title} />
+            </span>
+            {this.renderBadges(item)}
+          </div>
+          <div className="subtitle" title={subtitle}>
+            <HighlightText text={subtitle} highlight={matches.subtitle} />
+          </div>
+          {tag !== null && (
+            <div className="description">
+              {tag.tagger !== null && <>{tag.tagger.name} • </>}
+              <RelativeTime date={tag.date} />
+            </div>
+          )}
+          {tag === null && remoteSha !== null && (
+            <div className="description">{remoteSha.substring(0, 9)}</div>
+          )}
+        </div>
+      </div>
+    )
+  }
+
+  private renderBadges(item: ITagListItem) {
+    const { tag, remoteSha } = item
+    const badges = new Array<JSX.Element>()
+
+    if (tag?.signed) {
+      badges.push(
+        <span key="signed" className="tag-badge">
+          Signed
+        </span>
+      )
+    }
+
+    if (tag !== null && this.props.remoteTags !== null) {
+      if (remoteSha === null) {
+        badges.push(
+          <span key="unpushed" className="tag-badge unpushed">
+            Not pushed
+          </span>
+        )
+      } else if (remoteSha !== tag.target) {
+        badges.push(
+          <span
+            key="differs"
+            className="tag-badge differs"
+            title="The tag points to a different commit on the remote"
+          >
+            Differs
+          </span>
+        )
+      }
+    }
+
+    return badges
+  }
+
+  private renderGroupHeader = (identifier: string) => {
+    return (
+      <div className="filter-list-group-header">
+        {this.getGroupLabel(identifier as TagGroupIdentifier)}
+      </div>
+    )
+  }
+
+  private getGroupLabel(identifier: TagGroupIdentifier) {
+    return identifier === 'local'
+      ? 'Tags'
+      : __DARWIN__
+      ? 'Remote Only Tags'
+      : 'Remote only tags'
+  }
+
+  private renderNoItems = () => {
+    const { tags, filterText } = this.state
+
+    if (tags === null) {
+      return null
+    }
+
+    return (
+      <div className="no-tags">
+        {filterText.length > 0
+          ? `No tags match '${filterText}'`
+          : 'There are no tags in this repository yet.'}
+      </div>
+    )
+  }
+
+  private renderPostFilter = () => {
+    const { isLoadingRemoteTags } = this.state
+    const tooltip = 'Refresh the tags of the remote'
+
+    return (
+      <>
+        <Button
+          disabled={isLoadingRemoteTags}
+          onClick={this.refreshRemoteTags}
+          ariaLabel={tooltip}
+          tooltip={tooltip}
+        >
+          <Octicon
+            symbol={syncClockwise}
+            className={isLoadingRemoteTags ? 'spin' : undefined}
+          />
+        </Button>
+        <Button
+          className="new-tag-button"
+          onClick={this.onCreateTag}
+          disabled={this.props.currentTipSha === null}
+        >
+          {__DARWIN__ ? 'New Tag' : 'New tag'}
+        </Button>
+      </>
+    )
+  }
+
+  private onFilterTextChanged = (filterText: string) => {
+    this.setState({ filterText })
+  }
+
+  private onSelectionChanged = (selectedItem: ITagListItem | null) => {
+    this.setState({ selectedItem })
+  }
+
+  private onItemClick = (item: ITagListItem) => {
+    const { dispatcher, repository } = this.props
+
+    if (item.tag === null) {
+      return
+    }
+
+    dispatcher.closeFoldout(FoldoutType.Branch)
+    dispatcher.selectCommitInHistory(repository, item.tag.target)
+  }
+
+  private onCreateTag = () => {
+    const { dispatcher, repository, localTags, currentTipSha } = this.props
+
+    if (currentTipSha === null) {
+      return
+    }
+
+    dispatcher.closeFoldout(FoldoutType.Branch)
+    dispatcher.showCreateTagDialog(
+      repository,
+      currentTipSha,
+      localTags,
+      this.state.filterText
+    )
+  }
+
+  private onTagContextMenu = (
+    item: ITagListItem,
+    event: React.MouseEvent<HTMLDivElement>
+  ) => {
+    event.preventDefault()
+
+    const { dispatcher, repository, remoteTags } = this.props
+    const { name, tag, remoteSha } = item
+    const items = new Array<IMenuItem>()
+
+    if (tag !== null) {
+      items.push({
+        label: __DARWIN__ ? 'Push Tag' : 'Push tag',
+        action: () => dispatcher.pushTag(repository, name),
+        // Pushing a tag which points elsewhere on the remote would fail
+        enabled: remoteTags === null || remoteSha === null,
+      })
+    }
+
+    if (isRepositoryWithGitHubRepository(repository)) {
+      items.push({
+        label: __DARWIN__ ? 'Draft a Release…' : 'Draft a release…',
+        action: () => {
+          dispatcher.closeFoldout(FoldoutType.Branch)
+          dispatcher.showPopup({
+            type: PopupType.DraftTagRelease,
+            repository,
+            tagName: name,
+          })
+        },
+        // The release is created for the tag on GitHub
+        enabled: tag !== null && remoteSha !== null,
+      })
+    }
+
+    items.push(
+      {
+        label: __DARWIN__ ? 'Copy Tag Name' : 'Copy tag name',
+        action: () => clipboard.writeText(name),
+      },
+      { type: 'separator' },
+      {
+        label: 'Delete…',
+        action: () => {
+          dispatcher.closeFoldout(FoldoutType.Branch)
+          dispatcher.showDeleteTagDialog(
+            repository,
+            name,
+            tag !== null,
+            remoteSha !== null
+          )
+        },
+      }
+    )
+
+    showContextualMenu(items)
+  }
+}
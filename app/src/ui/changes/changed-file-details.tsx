@@ -1,7 +1,7 @@
 import * as React from 'react'
 import { PathLabel } from '../lib/path-label'
 import { AppFileStatus } from '../../models/status'
-import { IDiff, DiffType } from '../../models/diff'
+import { IDiff, DiffType, IDiffSettings } from '../../models/diff'
 import { Octicon, iconForStatus } from '../octicons'
 import * as OcticonSymbol from '../octicons/octicons.generated'
 import { mapStatus } from '../../lib/status'
@@ -18,12 +18,24 @@ interface IChangedFileDetailsProps {
   /** Called when the user changes the side by side diffs setting. */
   readonly onShowSideBySideDiffChanged: (checked: boolean) => void
 
+  /** Whether we should show blame annotations instead of the diff. */
+  readonly showBlame: boolean
+
+  /** Called when the user changes the show blame setting. */
+  readonly onShowBlameChanged: (showBlame: boolean) => void
+
   /** Whether we should hide whitespace in diffs. */
   readonly hideWhitespaceInDiff: boolean
 
   /** Called when the user changes the hide whitespace in diffs setting. */
   readonly onHideWhitespaceInDiffChanged: (checked: boolean) => Promise<void>
 
+  /** The context size, ignored changes and wrapping of diffs. */
+  readonly diffSettings: IDiffSettings
+
+  /** Called when the user changes the context size, ignored changes or wrapping. */
+  readonly onDiffSettingsChanged: (diffSettings: IDiffSettings) => void
+
   /** Called when the user opens the diff options popover */
   readonly onDiffOptionsOpened: () => void
 }
@@ -67,6 +79,10 @@ export class ChangedFileDetails extends React.Component<
         hideWhitespaceChanges={this.props.hideWhitespaceInDiff}
         onShowSideBySideDiffChanged={this.props.onShowSideBySideDiffChanged}
         showSideBySideDiff={this.props.showSideBySideDiff}
+        diffSettings={this.props.diffSettings}
+        onDiffSettingsChanged={this.props.onDiffSettingsChanged}
+        showBlame={this.props.showBlame}
+        onShowBlameChanged={this.props.onShowBlameChanged}
         onDiffOptionsOpened={this.props.onDiffOptionsOpened}
       />
     )
@@ -10,6 +10,7 @@ import {
   AppFileStatusKind,
 } from '../../models/status'
 import { DiffSelectionType } from '../../models/diff'
+import { PopupType } from '../../models/popup'
 import { CommitIdentity } from '../../models/commit-identity'
 import { ICommitMessage } from '../../models/commit-message'
 import {
@@ -29,6 +30,7 @@ import {
   CopyRelativeFilePathLabel,
   CopySelectedPathsLabel,
   CopySelectedRelativePathsLabel,
+  ShowFileHistoryLabel,
 } from '../lib/context-menu'
 import { CommitMessage } from './commit-message'
 import { ChangedFile } from './changed-file'
@@ -50,6 +52,7 @@ import { IStashEntry } from '../../models/stash-entry'
 import classNames from 'classnames'
 import { hasWritePermission } from '../../models/github-repository'
 import { hasConflictedFiles } from '../../lib/status'
+import { getOldPathOrDefault } from '../../lib/get-old-path'
 import { createObservableRef } from '../lib/observable-ref'
 import { TooltipDirection } from '../lib/tooltip'
 import { Popup } from '../../models/popup'
@@ -131,6 +134,9 @@ interface IChangesListProps {
   readonly onIncludeChanged: (path: string, include: boolean) => void
   readonly onSelectAll: (selectAll: boolean) => void
   readonly onCreateCommit: (context: ICommitContext) => Promise<boolean>
+
+  /** Called to commit the selected changes as a fixup for an earlier commit */
+  readonly onCommitAsFixup?: () => void
   readonly onDiscardChanges: (file: WorkingDirectoryFileChange) => void
   readonly askForConfirmationOnDiscardChanges: boolean
   readonly focusCommitMessage: boolean
@@ -180,6 +186,7 @@ interface IChangesListProps {
    */
   readonly onRowClick?: (row: number, source: ClickSource) => void
   readonly commitMessage: ICommitMessage
+  readonly commitMessageTemplate: ICommitMessage | null
 
   /** The autocompletion providers available to the repository. */
   readonly autocompletionProviders: ReadonlyArray<IAutocompletionProvider<any>>
@@ -347,6 +354,13 @@ export class ChangesList extends React.Component<
     this.props.dispatcher.createStashForCurrentBranch(this.props.repository)
   }
 
+  private onStashSelectedChanges = () => {
+    this.props.dispatcher.showPopup({
+      type: PopupType.CreateStash,
+      repository: this.props.repository,
+    })
+  }
+
   private onDiscardChanges = (files: ReadonlyArray<string>) => {
     const workingDirectory = this.props.workingDirectory
 
@@ -404,6 +418,9 @@ export class ChangesList extends React.Component<
 
     const hasLocalChanges = this.props.workingDirectory.files.length > 0
     const hasStash = this.props.stashEntry !== null
+    const hasIncludedChanges = this.props.workingDirectory.files.some(
+      f => f.selection.getSelectionType() !== DiffSelectionType.None
+    )
     const hasConflicts =
       this.props.conflictState !== null ||
       hasConflictedFiles(this.props.workingDirectory)
@@ -426,6 +443,13 @@ export class ChangesList extends React.Component<
         action: this.onStashChanges,
         enabled: hasLocalChanges && this.props.branch !== null && !hasConflicts,
       },
+      {
+        label: __DARWIN__
+          ? 'Stash Selected Changes…'
+          : 'Stash selected changes…',
+        action: this.onStashSelectedChanges,
+        enabled: hasIncludedChanges && !hasConflicts,
+      },
     ]
 
     showContextualMenu(items)
@@ -487,6 +511,24 @@ export class ChangesList extends React.Component<
     }
   }
 
+  private getShowFileHistoryMenuItem = (
+    file: WorkingDirectoryFileChange
+  ): IMenuItem => {
+    return {
+      label: ShowFileHistoryLabel,
+      action: () =>
+        this.props.dispatcher.showPopup({
+          type: PopupType.FileHistory,
+          repository: this.props.repository,
+          path: getOldPathOrDefault(file),
+          revision: 'HEAD',
+        }),
+      enabled:
+        file.status.kind !== AppFileStatusKind.New &&
+        file.status.kind !== AppFileStatusKind.Untracked,
+    }
+  }
+
   private getRevealInFileManagerMenuItem = (
     file: WorkingDirectoryFileChange
   ): IMenuItem => {
@@ -625,7 +667,9 @@ export class ChangesList extends React.Component<
       items.push(
         { type: 'separator' },
         this.getCopyPathMenuItem(file),
-        this.getCopyRelativePathMenuItem(file)
+        this.getCopyRelativePathMenuItem(file),
+        { type: 'separator' },
+        this.getShowFileHistoryMenuItem(file)
       )
     }
 
@@ -789,6 +833,7 @@ export class ChangesList extends React.Component<
     return (
       <CommitMessage
         onCreateCommit={this.props.onCreateCommit}
+        onCommitAsFixup={this.props.onCommitAsFixup}
         branch={this.props.branch}
         mostRecentLocalCommit={this.props.mostRecentLocalCommit}
         commitAuthor={this.props.commitAuthor}
@@ -800,6 +845,7 @@ export class ChangesList extends React.Component<
         repository={repository}
         repositoryAccount={repositoryAccount}
         commitMessage={this.props.commitMessage}
+        commitMessageTemplate={this.props.commitMessageTemplate}
         focusCommitMessage={this.props.focusCommitMessage}
         autocompletionProviders={this.props.autocompletionProviders}
         isCommitting={isCommitting}
@@ -3,6 +3,7 @@ import { ChangedFileDetails } from './changed-file-details'
 import {
   DiffSelection,
   IDiff,
+  IDiffSettings,
   ImageDiffType,
   ITextDiff,
 } from '../../models/diff'
@@ -56,18 +57,27 @@ interface IChangesProps {
    */
   readonly showSideBySideDiff: boolean
 
+  /** The context size, ignored changes and wrapping of diffs. */
+  readonly diffSettings: IDiffSettings
+
+  /** Whether we should show blame annotations instead of the diff */
+  readonly showBlame: boolean
+
   /** Called when the user opens the diff options popover */
   readonly onDiffOptionsOpened: () => void
+
+  /** Map from the emoji shortcut (e.g., :+1:) to the image's local path. */
+  readonly emoji: Map<string, string>
 }
 
 export class Changes extends React.Component<IChangesProps, {}> {
   /**
    * Whether or not it's currently possible to change the line selection
    * of a diff. Changing selection is not possible while a commit is in
-   * progress or if the user has opted to hide whitespace changes.
+   * progress.
    */
   private get lineSelectionDisabled() {
-    return this.props.isCommitting || this.props.hideWhitespaceInDiff
+    return this.props.isCommitting
   }
 
   private onDiffLineIncludeChanged = (selection: DiffSelection) => {
@@ -112,8 +122,12 @@ export class Changes extends React.Component<IChangesProps, {}> {
           diff={this.props.diff}
           showSideBySideDiff={this.props.showSideBySideDiff}
           onShowSideBySideDiffChanged={this.onShowSideBySideDiffChanged}
+          showBlame={this.props.showBlame}
+          onShowBlameChanged={this.onShowBlameChanged}
           hideWhitespaceInDiff={this.props.hideWhitespaceInDiff}
           onHideWhitespaceInDiffChanged={this.onHideWhitespaceInDiffChanged}
+          diffSettings={this.props.diffSettings}
+          onDiffSettingsChanged={this.onDiffSettingsChanged}
           onDiffOptionsOpened={this.props.onDiffOptionsOpened}
         />
 
@@ -127,13 +141,16 @@ export class Changes extends React.Component<IChangesProps, {}> {
           diff={this.props.diff}
           hideWhitespaceInDiff={this.props.hideWhitespaceInDiff}
           showSideBySideDiff={this.props.showSideBySideDiff}
+          softWrap={this.props.diffSettings.softWrap}
+          showBlame={this.props.showBlame}
+          onViewCommitInHistory={this.onViewCommitInHistory}
           askForConfirmationOnDiscardChanges={
             this.props.askForConfirmationOnDiscardChanges
           }
           onOpenBinaryFile={this.props.onOpenBinaryFile}
           onOpenSubmodule={this.props.onOpenSubmodule}
           onChangeImageDiffType={this.props.onChangeImageDiffType}
-          onHideWhitespaceInDiffChanged={this.onHideWhitespaceInDiffChanged}
+          emoji={this.props.emoji}
         />
       </div>
     )
@@ -143,6 +160,21 @@ export class Changes extends React.Component<IChangesProps, {}> {
     this.props.dispatcher.onShowSideBySideDiffChanged(showSideBySideDiff)
   }
 
+  private onDiffSettingsChanged = (diffSettings: IDiffSettings) => {
+    this.props.dispatcher.updateDiffSettings(
+      this.props.repository,
+      diffSettings
+    )
+  }
+
+  private onShowBlameChanged = (showBlame: boolean) => {
+    this.props.dispatcher.onShowBlameChanged(showBlame)
+  }
+
+  private onViewCommitInHistory = (sha: string) => {
+    this.props.dispatcher.selectCommitInHistory(this.props.repository, sha)
+  }
+
   private onHideWhitespaceInDiffChanged = (hideWhitespaceInDiff: boolean) => {
     return this.props.dispatcher.onHideWhitespaceInChangesDiffChanged(
       hideWhitespaceInDiff,
@@ -0,0 +1,100 @@
+import * as React from 'react'
+import { ICommitMessageFormat } from '../../models/commit-message-format'
+import {
+  formatCommitSummary,
+  ICommitSummaryParts,
+  parseCommitSummary,
+} from '../../lib/commit-message-format'
+import { Select } from '../lib/select'
+import { Checkbox, CheckboxValue } from '../lib/checkbox'
+
+interface ICommitMessageFormatHelperProps {
+  readonly format: ICommitMessageFormat
+
+  /** The commit summary the type, scope and breaking change marker are read from */
+  readonly summary: string
+
+  readonly disabled?: boolean
+
+  /** Called with the updated summary when the user changes any of the parts */
+  readonly onSummaryChanged: (summary: string) => void
+}
+
+/**
+ * Dropdowns for picking the type and scope of a commit along with a toggle
+ * for marking it as a breaking change. The choices are stored as a prefix of
+ * the summary, i.e. `feat(parser)!: `, so that the summary remains the single
+ * source of truth and can be edited by hand as well.
+ */
+export class CommitMessageFormatHelper extends React.Component<ICommitMessageFormatHelperProps> {
+  public render() {
+    const { format, disabled } = this.props
+    const { type, scope, breaking } = parseCommitSummary(this.props.summary)
+
+    return (
+      <div className="commit-message-format-helper">
+        <Select
+          label="Type"
+          value={type}
+          disabled={disabled}
+          onChange={this.onTypeChanged}
+        >
+          <option value="">None</option>
+          {withValue(format.types, type).map(t => (
+            <option key={t} value={t}>
+              {t}
+            </option>
+          ))}
+        </Select>
+        {(format.scopes.length > 0 || scope.length > 0) && (
+          <Select
+            label="Scope"
+            value={scope}
+            disabled={disabled || type.length === 0}
+            onChange={this.onScopeChanged}
+          >
+            <option value="">None</option>
+            {withValue(format.scopes, scope).map(s => (
+              <option key={s} value={s}>
+                {s}
+              </option>
+            ))}
+          </Select>
+        )}
+        <Checkbox
+          label={__DARWIN__ ? 'Breaking Change' : 'Breaking change'}
+          value={breaking ? CheckboxValue.On : CheckboxValue.Off}
+          disabled={disabled || type.length === 0}
+          onChange={this.onBreakingChanged}
+        />
+      </div>
+    )
+  }
+
+  private updateSummary(parts: Partial<ICommitSummaryParts>) {
+    const current = parseCommitSummary(this.props.summary)
+    this.props.onSummaryChanged(formatCommitSummary({ ...current, ...parts }))
+  }
+
+  private onTypeChanged = (event: React.FormEvent<HTMLSelectElement>) => {
+    this.updateSummary({ type: event.currentTarget.value })
+  }
+
+  private onScopeChanged = (event: React.FormEvent<HTMLSelectElement>) => {
+    this.updateSummary({ scope: event.currentTarget.value })
+  }
+
+  private onBreakingChanged = (event: React.FormEvent<HTMLInputElement>) => {
+    this.updateSummary({ breaking: event.currentTarget.checked })
+  }
+}
+
+/**
+ * Make sure a value typed by hand into the summary shows up in the dropdown
+ * even if it isn't one of the configured choices.
+ */
+function withValue(values: ReadonlyArray<string>, value: string) {
+  return value.length === 0 || values.includes(value)
+    ? values
+    : [...values, value]
+}
@@ -7,7 +7,10 @@ import {
   CoAuthorAutocompletionProvider,
 } from '../autocompletion'
 import { CommitIdentity } from '../../models/commit-identity'
-import { ICommitMessage } from '../../models/commit-message'
+import {
+  DefaultCommitMessage,
+  ICommitMessage,
+} from '../../models/commit-message'
 import { Repository } from '../../models/repository'
 import { Button } from '../lib/button'
 import { Loading } from '../lib/loading'
@@ -56,6 +59,9 @@ import { RepoRulesMetadataFailureList } from '../repository-rules/repo-rules-fai
 import { Dispatcher } from '../dispatcher'
 import { formatCommitMessage } from '../../lib/format-commit-message'
 import { useRepoRulesLogic } from '../../lib/helpers/repo-rules'
+import { getCommitSummaryValidationError } from '../../lib/commit-message-format'
+import { CommitMessageFormatHelper } from './commit-message-format-helper'
+import { InputError } from '../lib/input-description/input-error'
 
 const addAuthorIcon = {
   w: 18,
@@ -71,6 +77,13 @@ const addAuthorIcon = {
 
 interface ICommitMessageProps {
   readonly onCreateCommit: (context: ICommitContext) => Promise<boolean>
+
+  /**
+   * Called to commit the selected changes as a fixup for an earlier commit,
+   * or undefined if that isn't possible where the commit message is shown
+   */
+  readonly onCommitAsFixup?: () => void
+
   readonly branch: string | null
   readonly commitAuthor: CommitIdentity | null
   readonly dispatcher: Dispatcher
@@ -85,6 +98,14 @@ interface ICommitMessageProps {
   readonly anyFilesAvailable: boolean
   readonly focusCommitMessage: boolean
   readonly commitMessage: ICommitMessage | null
+
+  /**
+   * The message configured through `commit.template`, used in place of an
+   * empty commit message. A message identical to the template is considered
+   * empty, just like Git does when committing from the editor.
+   */
+  readonly commitMessageTemplate?: ICommitMessage | null
+
   readonly repository: Repository
   readonly repositoryAccount: Account | null
   readonly autocompletionProviders: ReadonlyArray<IAutocompletionProvider<any>>
@@ -184,6 +205,20 @@ interface ICommitMessageState {
   readonly repoRuleBranchNameFailures: RepoRulesMetadataFailures
 }
 
+function isEmptyCommitMessage(message: ICommitMessage) {
+  return message.summary === '' && !message.description
+}
+
+/** Use the template, if there is one, in place of an empty message */
+function orTemplate<T extends ICommitMessage | null>(
+  message: T,
+  template: ICommitMessage | null | undefined
+): T | ICommitMessage {
+  return template && (message === null || isEmptyCommitMessage(message))
+    ? template
+    : message
+}
+
 function findCommitMessageAutoCompleteProvider(
   providers: ReadonlyArray<IAutocompletionProvider<any>>
 ): ReadonlyArray<IAutocompletionProvider<any>> {
@@ -218,14 +253,20 @@ export class CommitMessage extends React.Component<
   private coAuthorInputRef = React.createRef<AuthorInput>()
 
   private readonly COMMIT_MSG_ERROR_BTN_ID = 'commit-message-failure-hint'
+  private readonly COMMIT_MSG_FORMAT_ERROR_ID = 'commit-message-format-error'
 
   public constructor(props: ICommitMessageProps) {
     super(props)
-    const { commitMessage } = this.props
+    const { commitMessage, commitMessageTemplate, commitToAmend } = this.props
+
+    const initialMessage =
+      commitToAmend === null
+        ? orTemplate(commitMessage, commitMessageTemplate)
+        : commitMessage
 
     this.state = {
-      summary: commitMessage ? commitMessage.summary : '',
-      description: commitMessage ? commitMessage.description : null,
+      summary: initialMessage ? initialMessage.summary : '',
+      description: initialMessage ? initialMessage.description : null,
       commitMessageAutocompletionProviders:
         findCommitMessageAutoCompleteProvider(props.autocompletionProviders),
       coAuthorAutocompletionProvider: findCoAuthorAutoCompleteProvider(
@@ -263,7 +304,18 @@ export class CommitMessage extends React.Component<
    * https://reactjs.org/docs/react-component.html#unsafe_componentwillreceiveprops
    */
   public componentWillReceiveProps(nextProps: ICommitMessageProps) {
-    const { commitMessage } = nextProps
+    const { commitMessage, commitMessageTemplate } = nextProps
+
+    // Swap in the template as long as the user hasn't started writing a
+    // message of their own
+    if (
+      commitMessageTemplate !== this.props.commitMessageTemplate &&
+      nextProps.commitToAmend === null &&
+      (isEmptyCommitMessage(this.state) ||
+        this.isTemplateMessage(this.props.commitMessageTemplate))
+    ) {
+      this.fillWithCommitMessage(commitMessageTemplate ?? DefaultCommitMessage)
+    }
 
     // If we switch from not amending to amending, we want to populate the
     // textfields with the commit message from the commit.
@@ -277,16 +329,46 @@ export class CommitMessage extends React.Component<
       nextProps.commitToAmend === null &&
       commitMessage !== null
     ) {
-      this.fillWithCommitMessage(commitMessage)
+      this.fillWithCommitMessage(
+        orTemplate(commitMessage, nextProps.commitMessageTemplate)
+      )
     }
 
     if (!commitMessage || commitMessage === this.props.commitMessage) {
       return
     }
 
-    if (this.state.summary === '' && !this.state.description) {
-      this.fillWithCommitMessage(commitMessage)
+    // The message was cleared after being used up by a commit created
+    // elsewhere, i.e. when retrying a commit without hooks after a hook failed
+    if (
+      isEmptyCommitMessage(commitMessage) &&
+      nextProps.commitToAmend === null
+    ) {
+      this.clearCommitMessage(nextProps.commitMessageTemplate)
+      return
     }
+
+    if (
+      isEmptyCommitMessage(this.state) ||
+      this.isTemplateMessage(nextProps.commitMessageTemplate)
+    ) {
+      this.fillWithCommitMessage(
+        orTemplate(commitMessage, nextProps.commitMessageTemplate)
+      )
+    }
+  }
+
+  /** Whether the current message is identical to the given template */
+  private isTemplateMessage(
+    template: ICommitMessage | null | undefined = this.props
+      .commitMessageTemplate
+  ) {
+    return (
+      template !== null &&
+      template !== undefined &&
+      template.summary === this.state.summary &&
+      (template.description ?? '') === (this.state.description ?? '')
+    )
   }
 
   private fillWithCommitMessage(commitMessage: ICommitMessage) {
@@ -466,8 +548,13 @@ export class CommitMessage extends React.Component<
     }
   }
 
-  private clearCommitMessage() {
-    this.setState({ summary: '', description: null })
+  private clearCommitMessage(
+    commitMessageTemplate = this.props.commitMessageTemplate
+  ) {
+    this.setState({
+      summary: commitMessageTemplate?.summary ?? '',
+      description: commitMessageTemplate?.description ?? null,
+    })
   }
 
   private focusSummary() {
@@ -565,7 +652,9 @@ export class CommitMessage extends React.Component<
       ((this.props.anyFilesSelected === true &&
         this.state.summary.length > 0) ||
         this.props.prepopulateCommitSummary) &&
-      !this.hasRepoRuleFailure()
+      !this.hasRepoRuleFailure() &&
+      !this.isTemplateMessage() &&
+      this.getFormatValidationError() === null
     )
   }
 
@@ -573,7 +662,19 @@ export class CommitMessage extends React.Component<
     return (
       this.props.commitToAmend !== null &&
       (this.state.summary.length > 0 || this.props.prepopulateCommitSummary) &&
-      !this.hasRepoRuleFailure()
+      !this.hasRepoRuleFailure() &&
+      this.getFormatValidationError() === null
+    )
+  }
+
+  /**
+   * Get the reason the summary doesn't follow the commit message format
+   * configured for the repository, or null if it does.
+   */
+  private getFormatValidationError(summary = this.summaryOrPlaceholder) {
+    return getCommitSummaryValidationError(
+      this.props.repository.workflowPreferences.commitMessageFormat,
+      summary
     )
   }
 
@@ -793,7 +894,23 @@ export class CommitMessage extends React.Component<
       return
     }
 
-    showContextualMenu([this.getAddRemoveCoAuthorsMenuItem()])
+    const items: IMenuItem[] = [this.getAddRemoveCoAuthorsMenuItem()]
+
+    if (this.props.onCommitAsFixup !== undefined) {
+      items.push(
+        { type: 'separator' },
+        {
+          label: __DARWIN__ ? 'Commit as Fixup for…' : 'Commit as fixup for…',
+          action: this.props.onCommitAsFixup,
+          enabled:
+            this.props.anyFilesSelected &&
+            this.props.commitToAmend === null &&
+            this.props.isCommitting !== true,
+        }
+      )
+    }
+
+    showContextualMenu(items)
   }
 
   private onAutocompletingInputContextMenu = () => {
@@ -1190,8 +1307,14 @@ export class CommitMessage extends React.Component<
     }
 
     const isSummaryBlank = isEmptyOrWhitespace(this.summaryOrPlaceholder)
+    const formatValidationError = this.getFormatValidationError()
+
     if (isSummaryBlank) {
       return `A commit summary is required to commit`
+    } else if (formatValidationError !== null) {
+      return formatValidationError
+    } else if (this.isTemplateMessage()) {
+      return `Edit the commit message template to commit`
     } else if (!this.props.anyFilesSelected && this.props.anyFilesAvailable) {
       return `Select one or more files to commit`
     } else if (this.props.isCommitting) {
@@ -1290,6 +1413,43 @@ export class CommitMessage extends React.Component<
     )
   }
 
+  private renderFormatHelper() {
+    const { commitMessageFormat } = this.props.repository.workflowPreferences
+
+    if (commitMessageFormat === undefined || !commitMessageFormat.enabled) {
+      return null
+    }
+
+    return (
+      <CommitMessageFormatHelper
+        format={commitMessageFormat}
+        summary={this.state.summary}
+        disabled={this.props.isCommitting === true}
+        onSummaryChanged={this.onSummaryChanged}
+      />
+    )
+  }
+
+  private renderFormatValidationError() {
+    const error = this.getFormatValidationError(this.state.summary)
+
+    if (error === null) {
+      return null
+    }
+
+    return (
+      <div className="commit-message-format-error">
+        <InputError
+          id={this.COMMIT_MSG_FORMAT_ERROR_ID}
+          trackedUserInput={this.state.summary}
+          ariaLiveMessage={error}
+        >
+          {error}
+        </InputError>
+      </div>
+    )
+  }
+
   public render() {
     const className = classNames('commit-message-component', {
       'with-action-bar': this.isActionBarEnabled,
@@ -1320,6 +1480,11 @@ export class CommitMessage extends React.Component<
       ? this.COMMIT_MSG_ERROR_BTN_ID
       : undefined
 
+    const summaryAriaDescribedBy =
+      this.getFormatValidationError(this.state.summary) !== null
+        ? this.COMMIT_MSG_FORMAT_ERROR_ID
+        : ariaDescribedBy
+
     const { placeholder, isCommitting, commitSpellcheckEnabled } = this.props
 
     return (
@@ -1331,6 +1496,8 @@ export class CommitMessage extends React.Component<
         onContextMenu={this.onContextMenu}
         onKeyDown={this.onKeyDown}
       >
+        {this.renderFormatHelper()}
+
         <div className={summaryClassName}>
           {this.renderAvatar()}
 
@@ -1345,7 +1512,7 @@ export class CommitMessage extends React.Component<
             autocompletionProviders={
               this.state.commitMessageAutocompletionProviders
             }
-            aria-describedby={ariaDescribedBy}
+            aria-describedby={summaryAriaDescribedBy}
             onContextMenu={this.onAutocompletingInputContextMenu}
             disabled={isCommitting === true}
             spellcheck={commitSpellcheckEnabled}
@@ -1355,6 +1522,8 @@ export class CommitMessage extends React.Component<
           {showSummaryLengthHint && this.renderSummaryLengthHint()}
         </div>
 
+        {this.renderFormatValidationError()}
+
         {this.state.isRuleFailurePopoverOpen && this.renderRuleFailurePopover()}
 
         <FocusContainer
@@ -27,6 +27,7 @@ import { Account } from '../../models/account'
 import { PopupType } from '../../models/popup'
 import { filesNotTrackedByLFS } from '../../lib/git/lfs'
 import { getLargeFilePaths } from '../../lib/large-files'
+import { getFixupSummary } from '../../lib/autosquash'
 import { isConflictedFile, hasUnresolvedConflicts } from '../../lib/status'
 import { getAccountForRepository } from '../../lib/get-account-for-repository'
 import { IAheadBehind } from '../../models/branch'
@@ -114,6 +115,18 @@ export class ChangesSidebar extends React.Component<IChangesSidebarProps, {}> {
     }
   }
 
+  private onCommitAsFixup = () => {
+    this.props.dispatcher.showPopup({
+      type: PopupType.CommitAsFixup,
+      repository: this.props.repository,
+      onSubmit: (target: Commit) =>
+        this.onCreateCommit({
+          summary: getFixupSummary(target),
+          description: null,
+        }),
+    })
+  }
+
   private onCreateCommit = async (
     context: ICommitContext
   ): Promise<boolean> => {
@@ -361,6 +374,7 @@ export class ChangesSidebar extends React.Component<IChangesSidebarProps, {}> {
     const {
       workingDirectory,
       commitMessage,
+      commitMessageTemplate,
       showCoAuthoredBy,
       coAuthors,
       conflictState,
@@ -400,6 +414,7 @@ export class ChangesSidebar extends React.Component<IChangesSidebarProps, {}> {
           selectedFileIDs={selectedFileIDs}
           onFileSelectionChanged={this.onFileSelectionChanged}
           onCreateCommit={this.onCreateCommit}
+          onCommitAsFixup={this.onCommitAsFixup}
           onIncludeChanged={this.onIncludeChanged}
           onSelectAll={this.onSelectAll}
           onDiscardChanges={this.onDiscardChanges}
@@ -412,6 +427,7 @@ export class ChangesSidebar extends React.Component<IChangesSidebarProps, {}> {
           commitAuthor={this.props.commitAuthor}
           branch={this.props.branch}
           commitMessage={commitMessage}
+          commitMessageTemplate={commitMessageTemplate}
           focusCommitMessage={this.props.focusCommitMessage}
           isShowingModal={this.props.isShowingModal}
           isShowingFoldout={this.props.isShowingFoldout}
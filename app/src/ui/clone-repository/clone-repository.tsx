@@ -25,6 +25,13 @@ import { OkCancelButtonGroup } from '../dialog/ok-cancel-button-group'
 import { showOpenDialog, showSaveDialog } from '../main-process-proxy'
 import { readdir } from 'fs/promises'
 import { isTopMostDialog } from '../dialog/is-top-most'
+import {
+  areCloneSizeOptionsValid,
+  CloneSizeOptions,
+  defaultCloneSizeOptions,
+  getCloneOptions,
+  ICloneSizeOptions,
+} from './clone-size-options'
 
 interface ICloneRepositoryProps {
   readonly dispatcher: Dispatcher
@@ -102,6 +109,9 @@ interface ICloneRepositoryState {
    * The persisted state of the CloneGenericRepository component.
    */
   readonly urlTabState: IUrlTabState
+
+  /** The partial, shallow and sparse clone options, shared by all tabs */
+  readonly sizeOptions: ICloneSizeOptions
 }
 
 /**
@@ -193,6 +203,7 @@ export class CloneRepository extends React.Component<
         kind: 'urlTabState',
         ...initialBaseTabState,
       },
+      sizeOptions: defaultCloneSizeOptions,
     }
 
     this.initializePath()
@@ -267,6 +278,8 @@ export class CloneRepository extends React.Component<
 
         {this.renderActiveTab()}
 
+        {this.renderSizeOptions()}
+
         {this.renderFooter()}
       </Dialog>
     )
@@ -282,11 +295,33 @@ export class CloneRepository extends React.Component<
       path == null ||
       path.length === 0 ||
       loading ||
-      error !== null
+      error !== null ||
+      !areCloneSizeOptionsValid(this.state.sizeOptions)
 
     return disabled
   }
 
+  private renderSizeOptions() {
+    const selectedTab = this.props.selectedTab
+    if (
+      selectedTab !== CloneRepositoryTab.Generic &&
+      !this.getAccountForTab(selectedTab)
+    ) {
+      return null
+    }
+
+    return (
+      <CloneSizeOptions
+        options={this.state.sizeOptions}
+        onOptionsChanged={this.onSizeOptionsChanged}
+      />
+    )
+  }
+
+  private onSizeOptionsChanged = (sizeOptions: ICloneSizeOptions) => {
+    this.setState({ sizeOptions })
+  }
+
   private renderFooter() {
     const selectedTab = this.props.selectedTab
     if (
@@ -756,7 +791,10 @@ export class CloneRepository extends React.Component<
   }
 
   private cloneImpl(url: string, path: string, defaultBranch?: string) {
-    this.props.dispatcher.clone(url, path, { defaultBranch })
+    this.props.dispatcher.clone(url, path, {
+      defaultBranch,
+      ...getCloneOptions(this.state.sizeOptions),
+    })
     this.props.onDismissed()
 
     setDefaultDir(Path.resolve(path, '..'))
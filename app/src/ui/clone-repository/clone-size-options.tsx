@@ -0,0 +1,149 @@
+import * as React from 'react'
+import { DialogContent } from '../dialog'
+import { Row } from '../lib/row'
+import { TextBox } from '../lib/text-box'
+import { Checkbox, CheckboxValue } from '../lib/checkbox'
+import { SparseCheckoutPathPicker } from '../lib/sparse-checkout-path-picker'
+import { CloneOptions } from '../../models/clone-options'
+
+/** The options for reducing the size of a clone picked in the clone dialog */
+export interface ICloneSizeOptions {
+  /** Whether to only download the contents of files as they're needed */
+  readonly partialClone: boolean
+
+  /** Whether to only fetch the most recent commits */
+  readonly shallowClone: boolean
+
+  /** The number of commits to fetch, as entered by the user */
+  readonly depth: string
+
+  /** Whether to only check out some of the directories */
+  readonly sparseCheckout: boolean
+
+  /** The directories to check out */
+  readonly sparseCheckoutPaths: ReadonlyArray<string>
+}
+
+export const defaultCloneSizeOptions: ICloneSizeOptions = {
+  partialClone: false,
+  shallowClone: false,
+  depth: '1',
+  sparseCheckout: false,
+  sparseCheckoutPaths: [],
+}
+
+/** Parse the entered depth, returning null if it isn't a positive number */
+function parseDepth(depth: string) {
+  const value = parseInt(depth, 10)
+  return isNaN(value) || value < 1 ? null : value
+}
+
+/** Whether the options can be used to clone a repository */
+export function areCloneSizeOptionsValid(options: ICloneSizeOptions) {
+  return !options.shallowClone || parseDepth(options.depth) !== null
+}
+
+/** Convert the options picked in the dialog to options for `clone` */
+export function getCloneOptions(
+  options: ICloneSizeOptions
+): Pick<CloneOptions, 'partialClone' | 'depth' | 'sparseCheckoutPaths'> {
+  return {
+    partialClone: options.partialClone,
+    depth: options.shallowClone
+      ? parseDepth(options.depth) ?? undefined
+      : undefined,
+    sparseCheckoutPaths: options.sparseCheckout
+      ? options.sparseCheckoutPaths
+      : undefined,
+  }
+}
+
+interface ICloneSizeOptionsProps {
+  readonly options: ICloneSizeOptions
+  readonly onOptionsChanged: (options: ICloneSizeOptions) => void
+}
+
+/**
+ * Options for cloning large repositories, allowing the user to opt in to a
+ * partial, shallow, and/or sparse clone.
+ */
+export class CloneSizeOptions extends React.Component<ICloneSizeOptionsProps> {
+  public render() {
+    const { options } = this.props
+
+    return (
+      <DialogContent className="clone-size-options">
+        <Row>
+          <Checkbox
+            label="Download file contents only when needed (partial clone)"
+            value={options.partialClone ? CheckboxValue.On : CheckboxValue.Off}
+            onChange={this.onPartialCloneChanged}
+          />
+        </Row>
+        <Row>
+          <Checkbox
+            label="Only download recent history (shallow clone)"
+            value={options.shallowClone ? CheckboxValue.On : CheckboxValue.Off}
+            onChange={this.onShallowCloneChanged}
+          />
+        </Row>
+        {options.shallowClone && (
+          <Row>
+            <TextBox
+              label={__DARWIN__ ? 'Number of Commits' : 'Number of commits'}
+              value={options.depth}
+              onValueChanged={this.onDepthChanged}
+            />
+          </Row>
+        )}
+        <Row>
+          <Checkbox
+            label="Only check out some directories (sparse checkout)"
+            value={
+              options.sparseCheckout ? CheckboxValue.On : CheckboxValue.Off
+            }
+            onChange={this.onSparseCheckoutChanged}
+          />
+        </Row>
+        {options.sparseCheckout && (
+          <SparseCheckoutPathPicker
+            paths={options.sparseCheckoutPaths}
+            onPathsChanged={this.onSparseCheckoutPathsChanged}
+          />
+        )}
+      </DialogContent>
+    )
+  }
+
+  private onOptionsChanged(changes: Partial<ICloneSizeOptions>) {
+    this.props.onOptionsChanged({ ...this.props.options, ...changes })
+  }
+
+  private onPartialCloneChanged = (
+    event: React.FormEvent<HTMLInputElement>
+  ) => {
+    this.onOptionsChanged({ partialClone: event.currentTarget.checked })
+  }
+
+  private onShallowCloneChanged = (
+    event: React.FormEvent<HTMLInputElement>
+  ) => {
+    this.onOptionsChanged({ shallowClone: event.currentTarget.checked })
+  }
+
+  private onDepthChanged = (depth: string) => {
+    this.onOptionsChanged({ depth })
+  }
+
+  private onSparseCheckoutChanged = (
+    event: React.FormEvent<HTMLInputElement>
+  ) => {
+    this.onOptionsChanged({ sparseCheckout: event.currentTarget.checked })
+  }
+
+  private onSparseCheckoutPathsChanged = (
+    sparseCheckoutPaths: ReadonlyArray<string>
+  ) => {
+    this.onOptionsChanged({ sparseCheckoutPaths })
+  }
+}
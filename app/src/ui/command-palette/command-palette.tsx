@@ -0,0 +1,452 @@
+import * as React from 'react'
+import * as Path from 'path'
+import { clipboard } from 'electron'
+import { Dialog, DialogContent } from '../dialog'
+import { Dispatcher } from '../dispatcher'
+import {
+  FilterList,
+  IFilterListGroup,
+  IFilterListItem,
+} from '../lib/filter-list'
+import { HighlightText } from '../lib/highlight-text'
+import { IMatches } from '../../lib/fuzzy-find'
+import { friendlyAcceleratorText } from '../app-menu/menu-list-item'
+import { IMenu } from '../../models/app-menu'
+import { Repository } from '../../models/repository'
+import { CloningRepository } from '../../models/cloning-repository'
+import { BranchType } from '../../models/branch'
+import { Commit, CommitOneLine } from '../../models/commit'
+import { TipState } from '../../models/tip'
+import { PopupType } from '../../models/popup'
+import {
+  ChangesSelectionKind,
+  IRepositoryState,
+  RepositorySectionTab,
+} from '../../lib/app-state'
+import {
+  addRecentCommandId,
+  getMenuCommands,
+  getRecentCommandIds,
+  partitionRecentCommands,
+} from '../../lib/command-palette'
+import { revealInFileManager } from '../../lib/app-shell'
+import {
+  CopyFilePathLabel,
+  DefaultEditorLabel,
+  RevealInFileManagerLabel,
+} from '../lib/context-menu'
+
+/** The id of the menu item opening the command palette */
+const CommandPaletteMenuItemId = 'show-command-palette'
+
+interface ICommandPaletteItem extends IFilterListItem {
+  /**
+   * A unique identifier for the command. Used to rank recently used
+   * commands, i.e. `menu:show-history` or `branch:main`.
+   */
+  readonly id: string
+
+  /** The title and the subtitle of the command, used for filtering */
+  readonly text: ReadonlyArray<string>
+
+  /** The keyboard shortcut of the command, in Electron accelerator format */
+  readonly accelerator: string | null
+
+  /** Run the command */
+  readonly run: () => void
+}
+
+enum CommandGroup {
+  Recent = 'recent',
+  Context = 'context',
+  Menu = 'menu',
+  Branches = 'branches',
+  Repositories = 'repositories',
+}
+
+const groupHeaders: Record<CommandGroup, string> = {
+  [CommandGroup.Recent]: __DARWIN__ ? 'Recently Used' : 'Recently used',
+  [CommandGroup.Context]: 'Selection',
+  [CommandGroup.Menu]: 'Commands',
+  [CommandGroup.Branches]: 'Branches',
+  [CommandGroup.Repositories]: 'Repositories',
+}
+
+interface ICommandPaletteProps {
+  readonly dispatcher: Dispatcher
+
+  /** The application menu, as it was when the palette was opened */
+  readonly menu: IMenu
+
+  readonly repositories: ReadonlyArray<Repository | CloningRepository>
+
+  /** The selected repository, if any */
+  readonly repository: Repository | null
+
+  /** The state of the selected repository, if any */
+  readonly repositoryState: IRepositoryState | null
+
+  /** The name of the selected external editor, if any */
+  readonly externalEditorLabel?: string
+
+  /** Called to start the cherry-pick flow for the given commits */
+  readonly onCherryPick: (
+    repository: Repository,
+    commits: ReadonlyArray<CommitOneLine>
+  ) => void
+
+  /** Called to open a file, relative to the repository, in the editor */
+  readonly onOpenInExternalEditor: (path: string) => void
+
+  readonly onDismissed: () => void
+}
+
+interface ICommandPaletteState {
+  readonly filterText: string
+  readonly selectedItem: ICommandPaletteItem | null
+}
+
+/**
+ * A keyboard driven palette for searching and running menu commands,
+ * switching branches and repositories and running actions for the selected
+ * commit or file.
+ */
+export class CommandPalette extends React.Component<
+  ICommandPaletteProps,
+  ICommandPaletteState
+> {
+  public constructor(props: ICommandPaletteProps) {
+    super(props)
+    this.state = { filterText: '', selectedItem: null }
+  }
+
+  private getGroups(): ReadonlyArray<IFilterListGroup<ICommandPaletteItem>> {
+    const groups = [
+      { identifier: CommandGroup.Context, items: this.getContextCommands() },
+      { identifier: CommandGroup.Menu, items: this.getMenuCommands() },
+      { identifier: CommandGroup.Branches, items: this.getBranchCommands() },
+      {
+        identifier: CommandGroup.Repositories,
+        items: this.getRepositoryCommands(),
+      },
+    ]
+
+    const { recent } = partitionRecentCommands(
+      groups.flatMap(g => g.items),
+      getRecentCommandIds()
+    )
+
+    return [
+      { identifier: CommandGroup.Recent, items: recent },
+      ...groups.map(g => ({
+        ...g,
+        items: g.items.filter(i => !recent.includes(i)),
+      })),
+    ]
+  }
+
+  private getMenuCommands(): ReadonlyArray<ICommandPaletteItem> {
+    const { dispatcher, menu } = this.props
+
+    return getMenuCommands(menu, [CommandPaletteMenuItemId]).map(
+      ({ item, title, path }) => ({
+        id: `menu:${item.id}`,
+        text: [title, path.join(' › ')],
+        accelerator: item.accelerator,
+        run: () => dispatcher.executeMenuItem(item),
+      })
+    )
+  }
+
+  private getBranchCommands(): ReadonlyArray<ICommandPaletteItem> {
+    const { dispatcher, repository, repositoryState } = this.props
+
+    if (repository === null || repositoryState === null) {
+      return []
+    }
+
+    const { allBranches, tip } = repositoryState.branchesState
+    const currentBranchName =
+      tip.kind === TipState.Valid ? tip.branch.name : null
+
+    return allBranches
+      .filter(b => b.type === BranchType.Local && b.name !== currentBranchName)
+      .map(branch => ({
+        id: `branch:${branch.name}`,
+        text: [
+          branch.name,
+          __DARWIN__ ? 'Switch to Branch' : 'Switch to branch',
+        ],
+        accelerator: null,
+        run: () => dispatcher.checkoutBranch(repository, branch),
+      }))
+  }
+
+  private getRepositoryCommands(): ReadonlyArray<ICommandPaletteItem> {
+    const { dispatcher, repository } = this.props
+
+    return this.props.repositories
+      .filter(
+        (r): r is Repository =>
+          r instanceof Repository && r.id !== repository?.id
+      )
+      .map(r => ({
+        id: `repository:${r.id}`,
+        text: [
+          r.alias ?? r.name,
+          __DARWIN__ ? 'Switch to Repository' : 'Switch to repository',
+        ],
+        accelerator: null,
+        run: () => dispatcher.selectRepository(r),
+      }))
+  }
+
+  private getContextCommands(): ReadonlyArray<ICommandPaletteItem> {
+    const { repository, repositoryState } = this.props
+
+    if (repository === null || repositoryState === null) {
+      return []
+    }
+
+    const { selectedSection, commitSelection, commitLookup, changesState } =
+      repositoryState
+
+    if (selectedSection === RepositorySectionTab.History) {
+      const { shas, file } = commitSelection
+      const commit = shas.length === 1 ? commitLookup.get(shas[0]) : undefined
+
+      return [
+        ...(commit === undefined
+          ? []
+          : this.getCommitCommands(repository, commit)),
+        ...(file === null ? [] : this.getFileCommands(repository, file.path)),
+      ]
+    }
+
+    const { selection, workingDirectory } = changesState
+
+    if (
+      selection.kind !== ChangesSelectionKind.WorkingDirectory ||
+      selection.selectedFileIDs.length !== 1
+    ) {
+      return []
+    }
+
+    const file = workingDirectory.findFileWithID(selection.selectedFileIDs[0])
+
+    if (file === null) {
+      return []
+    }
+
+    const { dispatcher } = this.props
+    const subtitle = file.path
+
+    return [
+      ...this.getFileCommands(repository, file.path),
+      {
+        id: 'file:discard',
+        text: [__DARWIN__ ? 'Discard Changes…' : 'Discard changes…', subtitle],
+        accelerator: null,
+        run: () =>
+          dispatcher.showPopup({
+            type: PopupType.ConfirmDiscardChanges,
+            repository,
+            files: [file],
+          }),
+      },
+      {
+        id: 'file:ignore',
+        text: [
+          __DARWIN__
+            ? 'Ignore File (Add to .gitignore)'
+            : 'Ignore file (add to .gitignore)',
+          subtitle,
+        ],
+        accelerator: null,
+        run: () => dispatcher.appendIgnoreFile(repository, file.path),
+      },
+    ]
+  }
+
+  private getCommitCommands(
+    repository: Repository,
+    commit: Commit
+  ): ReadonlyArray<ICommandPaletteItem> {
+    const { dispatcher, repositoryState } = this.props
+    const subtitle = `${commit.shortSha} ${commit.summary}`
+    const isTipValid =
+      repositoryState?.branchesState.tip.kind === TipState.Valid
+
+    const commands: Array<ICommandPaletteItem> = [
+      {
+        id: 'commit:create-branch',
+        text: [
+          __DARWIN__
+            ? 'Create Branch from Commit'
+            : 'Create branch from commit',
+          subtitle,
+        ],
+        accelerator: null,
+        run: () =>
+          dispatcher.showPopup({
+            type: PopupType.CreateBranch,
+            repository,
+            targetCommit: commit,
+          }),
+      },
+      {
+        id: 'commit:create-tag',
+        text: ['Create Tag…', subtitle],
+        accelerator: null,
+        run: () =>
+          dispatcher.showCreateTagDialog(
+            repository,
+            commit.sha,
+            repositoryState?.localTags ?? null
+          ),
+      },
+      {
+        id: 'commit:revert',
+        text: [
+          __DARWIN__ ? 'Revert Changes in Commit' : 'Revert changes in commit',
+          subtitle,
+        ],
+        accelerator: null,
+        run: () => dispatcher.revertCommit(repository, commit),
+      },
+      {
+        id: 'commit:copy-sha',
+        text: ['Copy SHA', subtitle],
+        accelerator: null,
+        run: () => clipboard.writeText(commit.sha),
+      },
+    ]
+
+    if (isTipValid) {
+      commands.push(
+        {
+          id: 'commit:cherry-pick',
+          text: [
+            __DARWIN__ ? 'Cherry-pick Commit…' : 'Cherry-pick commit…',
+            subtitle,
+          ],
+          accelerator: null,
+          run: () => this.props.onCherryPick(repository, [commit]),
+        },
+        {
+          id: 'commit:reset',
+          text: [
+            __DARWIN__ ? 'Reset to Commit…' : 'Reset to commit…',
+            subtitle,
+          ],
+          accelerator: null,
+          run: () => dispatcher.resetToCommit(repository, commit),
+        }
+      )
+    }
+
+    return commands
+  }
+
+  private getFileCommands(
+    repository: Repository,
+    path: string
+  ): ReadonlyArray<ICommandPaletteItem> {
+    const { externalEditorLabel } = this.props
+
+    return [
+      {
+        id: 'file:open-in-editor',
+        text: [
+          externalEditorLabel
+            ? `Open in ${externalEditorLabel}`
+            : DefaultEditorLabel,
+          path,
+        ],
+        accelerator: null,
+        run: () => this.props.onOpenInExternalEditor(path),
+      },
+      {
+        id: 'file:reveal',
+        text: [RevealInFileManagerLabel, path],
+        accelerator: null,
+        run: () => revealInFileManager(repository, path),
+      },
+      {
+        id: 'file:copy-path',
+        text: [CopyFilePathLabel, path],
+        accelerator: null,
+        run: () => clipboard.writeText(Path.join(repository.path, path)),
+      },
+    ]
+  }
+
+  private renderGroupHeader = (identifier: string) => {
+    const header = groupHeaders[identifier as CommandGroup]
+    return <div className="filter-list-group-header">{header}</div>
+  }
+
+  private renderItem = (item: ICommandPaletteItem, matches: IMatches) => {
+    const [title, subtitle] = item.text
+
+    return (
+      <div className="command-palette-item">
+        <div className="info">
+          <div className="title">
+            <HighlightText text={title} highlight={matches.title} />
+          </div>
+          <div className="subtitle">
+            <HighlightText text={subtitle} highlight={matches.subtitle} />
+          </div>
+        </div>
+        {item.accelerator !== null && (
+          <kbd className="accelerator">
+            {friendlyAcceleratorText(item.accelerator)}
+          </kbd>
+        )}
+      </div>
+    )
+  }
+
+  private onFilterTextChanged = (filterText: string) => {
+    this.setState({ filterText })
+  }
+
+  private onSelectionChanged = (selectedItem: ICommandPaletteItem | null) => {
+    this.setState({ selectedItem })
+  }
+
+  private onItemClick = (item: ICommandPaletteItem) => {
+    addRecentCommandId(item.id)
+    this.props.onDismissed()
+    item.run()
+  }
+
+  public render() {
+    return (
+      <Dialog
+        id="command-palette"
+        title={__DARWIN__ ? 'Command Palette' : 'Command palette'}
+        onSubmit={this.props.onDismissed}
+        onDismissed={this.props.onDismissed}
+      >
+        <DialogContent>
+          <FilterList<ICommandPaletteItem>
+            className="command-palette-list"
+            rowHeight={40}
+            groups={this.getGroups()}
+            selectedItem={this.state.selectedItem}
+            renderItem={this.renderItem}
+            renderGroupHeader={this.renderGroupHeader}
+            filterText={this.state.filterText}
+            onFilterTextChanged={this.onFilterTextChanged}
+            onSelectionChanged={this.onSelectionChanged}
+            onItemClick={this.onItemClick}
+            placeholderText="Search commands, branches and repositories"
+            invalidationProps={this.props}
+          />
+        </DialogContent>
+      </Dialog>
+    )
+  }
+}
@@ -0,0 +1 @@
+export { CommandPalette } from './command-palette'
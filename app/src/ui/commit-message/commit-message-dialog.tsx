@@ -18,6 +18,8 @@ import { Account } from '../../models/account'
 import { pick } from '../../lib/pick'
 import { RepoRulesInfo } from '../../models/repo-rules'
 import { IAheadBehind } from '../../models/branch'
+import { IConflictPrediction } from '../../models/merge'
+import { ConflictPrediction } from '../multi-commit-operation/choose-branch/conflict-prediction'
 
 interface ICommitMessageDialogProps {
   /**
@@ -92,21 +94,57 @@ interface ICommitMessageDialogProps {
   /** Method to run when dialog is submitted */
   readonly onSubmitCommitMessage: (context: ICommitContext) => Promise<boolean>
 
+  /**
+   * Predict the conflicts of the operation the commit message is for, such as
+   * a squash, to show them before the user commits to the operation.
+   */
+  readonly predictConflicts?: (
+    signal: AbortSignal
+  ) => Promise<IConflictPrediction | null>
+
   readonly repositoryAccount: Account | null
 }
 
 interface ICommitMessageDialogState {
   readonly showCoAuthoredBy: boolean
   readonly coAuthors: ReadonlyArray<Author>
+  readonly conflictPrediction: IConflictPrediction | null
 }
 
 export class CommitMessageDialog extends React.Component<
   ICommitMessageDialogProps,
   ICommitMessageDialogState
 > {
+  private readonly predictionAbortController = new AbortController()
+
   public constructor(props: ICommitMessageDialogProps) {
     super(props)
-    this.state = pick(props, 'showCoAuthoredBy', 'coAuthors')
+    this.state = {
+      ...pick(props, 'showCoAuthoredBy', 'coAuthors'),
+      conflictPrediction: null,
+    }
+  }
+
+  public async componentDidMount() {
+    const { predictConflicts } = this.props
+
+    if (predictConflicts === undefined) {
+      return
+    }
+
+    const { signal } = this.predictionAbortController
+    const conflictPrediction = await predictConflicts(signal).catch(e => {
+      log.error('Failed predicting conflicts', e)
+      return null
+    })
+
+    if (!signal.aborted) {
+      this.setState({ conflictPrediction })
+    }
+  }
+
+  public componentWillUnmount() {
+    this.predictionAbortController.abort()
   }
 
   public render() {
@@ -117,6 +155,7 @@ export class CommitMessageDialog extends React.Component<
         onDismissed={this.props.onDismissed}
       >
         <DialogContent>
+          <ConflictPrediction prediction={this.state.conflictPrediction} />
           <CommitMessage
             branch={this.props.branch}
             mostRecentLocalCommit={null}
@@ -0,0 +1,535 @@
+import * as React from 'react'
+import { Dialog, DialogContent, DialogError, DialogFooter } from '../dialog'
+import { OkCancelButtonGroup } from '../dialog/ok-cancel-button-group'
+import { Dispatcher } from '../dispatcher'
+import { Repository } from '../../models/repository'
+import { Commit } from '../../models/commit'
+import { CommittedFileChange } from '../../models/status'
+import { IDiff, IDiffSettings, ImageDiffType } from '../../models/diff'
+import { RefComparisonMode } from '../../models/ref-comparison'
+import {
+  exportPatch,
+  getChangedFilesBetween,
+  getCommits,
+  getDiffBetween,
+  getMergeBase,
+  resolveCommitish,
+  revRange,
+} from '../../lib/git'
+import { List } from '../lib/list'
+import { Row } from '../lib/row'
+import { TextBox } from '../lib/text-box'
+import { Select } from '../lib/select'
+import { Button } from '../lib/button'
+import { Loading } from '../lib/loading'
+import { Ref } from '../lib/ref'
+import { openFile } from '../lib/open-file'
+import { RelativeTime } from '../relative-time'
+import { FileList } from '../history/file-list'
+import { SeamlessDiffSwitcher } from '../diff/seamless-diff-switcher'
+import { showSaveDialog } from '../main-process-proxy'
+
+/** The maximum number of commits listed for a comparison */
+const CommitLimit = 500
+
+/** The width available to the file paths in the list of changed files */
+const FileListWidth = 280
+
+interface ICompareRefsDialogProps {
+  readonly dispatcher: Dispatcher
+  readonly repository: Repository
+
+  /** The branches, tags and stashes suggested when picking the refs */
+  readonly refNames: ReadonlyArray<string>
+
+  /** The ref to compare against when the dialog is opened */
+  readonly initialBase: string
+
+  /** The ref to compare when the dialog is opened */
+  readonly initialHead: string
+
+  readonly imageDiffType: ImageDiffType
+
+  /** Map from the emoji shortcut (e.g., :+1:) to the image's local path. */
+  readonly emoji: Map<string, string>
+  readonly hideWhitespaceInDiff: boolean
+  readonly showSideBySideDiff: boolean
+
+  /** The context size, ignored changes and wrapping of diffs. */
+  readonly diffSettings: IDiffSettings
+
+  readonly onDismissed: () => void
+}
+
+/** The refs a comparison was requested for */
+interface IComparisonRequest {
+  readonly base: string
+  readonly head: string
+  readonly mode: RefComparisonMode
+}
+
+/** Two refs resolved to the commits they point to */
+interface IResolvedComparison {
+  readonly base: string
+  readonly head: string
+  readonly baseSHA: string
+  readonly headSHA: string
+  readonly mode: RefComparisonMode
+}
+
+interface ICompareRefsDialogState {
+  readonly base: string
+  readonly head: string
+  readonly mode: RefComparisonMode
+
+  /** Whether the refs are being resolved and compared */
+  readonly loading: boolean
+  readonly error: string | null
+
+  /** The refs of the comparison being shown, if any */
+  readonly comparison: IResolvedComparison | null
+  readonly commits: ReadonlyArray<Commit>
+  readonly files: ReadonlyArray<CommittedFileChange>
+  readonly selectedFile: CommittedFileChange | null
+
+  /** The diff of the selected file or null while loading */
+  readonly diff: IDiff | null
+
+  readonly exporting: boolean
+}
+
+/**
+ * A dialog comparing any two refs, i.e. branches, tags, stashes or commits,
+ * listing the commits between them and the changes to each file, which can
+ * be exported as a patch.
+ */
+export class CompareRefsDialog extends React.Component<
+  ICompareRefsDialogProps,
+  ICompareRefsDialogState
+> {
+  /**
+   * The refs of the latest comparison requested, such that the results of
+   * earlier ones which finish later are dropped
+   */
+  private comparisonRequest: IComparisonRequest | null = null
+
+  public constructor(props: ICompareRefsDialogProps) {
+    super(props)
+
+    this.state = {
+      base: props.initialBase,
+      head: props.initialHead,
+      mode: RefComparisonMode.ThreeDot,
+      loading: false,
+      error: null,
+      comparison: null,
+      commits: [],
+      files: [],
+      selectedFile: null,
+      diff: null,
+      exporting: false,
+    }
+  }
+
+  public componentDidMount() {
+    if (this.state.base.length > 0 && this.state.head.length > 0) {
+      this.compare()
+    }
+  }
+
+  private async compare() {
+    const request: IComparisonRequest = {
+      base: this.state.base.trim(),
+      head: this.state.head.trim(),
+      mode: this.state.mode,
+    }
+
+    this.comparisonRequest = request
+    this.setState({ loading: true, error: null })
+
+    try {
+      await this.loadComparison(request)
+    } catch (e) {
+      if (this.comparisonRequest === request) {
+        this.setState({ loading: false, error: e.message })
+      }
+    }
+  }
+
+  private async loadComparison(request: IComparisonRequest) {
+    const { repository } = this.props
+    const { base, head, mode } = request
+
+    const [baseSHA, headSHA] = await Promise.all([
+      resolveCommitish(repository, base),
+      resolveCommitish(repository, head),
+    ])
+
+    if (this.comparisonRequest !== request) {
+      return
+    }
+
+    if (baseSHA === null || headSHA === null) {
+      const invalid = baseSHA === null ? base : head
+      return this.setState({
+        loading: false,
+        error: `'${invalid}' is not a branch, tag or commit in this repository.`,
+      })
+    }
+
+    const from =
+      mode === RefComparisonMode.TwoDot
+        ? baseSHA
+        : await getMergeBase(repository, baseSHA, headSHA)
+
+    if (this.comparisonRequest !== request) {
+      return
+    }
+
+    if (from === null) {
+      return this.setState({
+        loading: false,
+        error: `'${base}' and '${head}' have no common history. Compare them directly using two dots instead.`,
+      })
+    }
+
+    // Either way the commits listed are those in the head which aren't in
+    // the base, only the changes they're compared by differ.
+    const [commits, { files }] = await Promise.all([
+      getCommits(repository, revRange(baseSHA, headSHA), CommitLimit),
+      getChangedFilesBetween(repository, from, headSHA),
+    ])
+
+    if (this.comparisonRequest !== request) {
+      return
+    }
+
+    this.setState({
+      loading: false,
+      comparison: { base, head, baseSHA, headSHA, mode },
+      commits,
+      files,
+      selectedFile: null,
+      diff: null,
+    })
+
+    if (files.length > 0) {
+      this.selectFile(files[0])
+    }
+  }
+
+  private async selectFile(selectedFile: CommittedFileChange) {
+    this.setState({ selectedFile, diff: null, error: null })
+
+    const { repository, hideWhitespaceInDiff, diffSettings } = this.props
+
+    try {
+      const diff = await getDiffBetween(
+        repository,
+        selectedFile,
+        hideWhitespaceInDiff,
+        diffSettings
+      )
+
+      if (this.state.selectedFile === selectedFile) {
+        this.setState({ diff })
+      }
+    } catch (e) {
+      log.error('Failed loading the diff of the file', e)
+
+      if (this.state.selectedFile === selectedFile) {
+        this.setState({ error: e.message })
+      }
+    }
+  }
+
+  private onSubmit = () => {
+    this.compare()
+  }
+
+  private onBaseChanged = (base: string) => {
+    this.setState({ base })
+  }
+
+  private onHeadChanged = (head: string) => {
+    this.setState({ head })
+  }
+
+  private onModeChanged = (event: React.FormEvent<HTMLSelectElement>) => {
+    const mode = event.currentTarget.value as RefComparisonMode
+    this.setState({ mode })
+  }
+
+  private onSwap = () => {
+    this.setState({ base: this.state.head, head: this.state.base })
+  }
+
+  private onSelectedFileChanged = (file: CommittedFileChange) => {
+    if (file !== this.state.selectedFile) {
+      this.selectFile(file)
+    }
+  }
+
+  private onExportPatch = async () => {
+    const { comparison } = this.state
+
+    if (comparison === null) {
+      return
+    }
+
+    const path = await showSaveDialog({
+      buttonLabel: 'Export',
+      defaultPath: `${comparison.head.replace(/[^\w.-]+/g, '-')}.patch`,
+      filters: [{ name: 'Patch', extensions: ['patch'] }],
+    })
+
+    if (path === null) {
+      return
+    }
+
+    this.setState({ exporting: true })
+
+    try {
+      await exportPatch(
+        this.props.repository,
+        comparison.baseSHA,
+        comparison.headSHA,
+        path,
+        comparison.mode
+      )
+    } catch (e) {
+      this.props.dispatcher.postError(e)
+    } finally {
+      this.setState({ exporting: false })
+    }
+  }
+
+  private onOpenBinaryFile = (fullPath: string) => {
+    openFile(fullPath, this.props.dispatcher)
+  }
+
+  private onChangeImageDiffType = (type: ImageDiffType) => {
+    this.props.dispatcher.changeImageDiffType(type)
+  }
+
+  private renderRefPicker() {
+    const { base, head, mode, loading } = this.state
+
+    return (
+      <Row className="compare-refs-picker">
+        <TextBox
+          label="Base"
+          value={base}
+          list="compare-refs-names"
+          onValueChanged={this.onBaseChanged}
+          disabled={loading}
+        />
+        <Select
+          label="Comparison"
+          value={mode}
+          onChange={this.onModeChanged}
+          disabled={loading}
+        >
+          <option value={RefComparisonMode.ThreeDot}>
+            Since the common ancestor (...)
+          </option>
+          <option value={RefComparisonMode.TwoDot}>Directly (..)</option>
+        </Select>
+        <TextBox
+          label="Compare"
+          value={head}
+          list="compare-refs-names"
+          onValueChanged={this.onHeadChanged}
+          disabled={loading}
+        />
+        <Button onClick={this.onSwap} disabled={loading}>
+          Swap
+        </Button>
+        <datalist id="compare-refs-names">
+          {this.props.refNames.map(name => (
+            <option key={name} value={name} />
+          ))}
+        </datalist>
+      </Row>
+    )
+  }
+
+  private renderCommits() {
+    const { commits } = this.state
+
+    const header =
+      commits.length >= CommitLimit
+        ? `The first ${CommitLimit} commits`
+        : commits.length === 1
+        ? '1 commit'
+        : `${commits.length} commits`
+
+    return (
+      <div className="compare-refs-commits">
+        <div className="compare-refs-list-header">{header}</div>
+        <List
+          rowCount={commits.length}
+          rowHeight={50}
+          rowRenderer={this.renderCommit}
+          selectedRows={[]}
+          getRowAriaLabel={this.getCommitAriaLabel}
+          invalidationProps={commits}
+        />
+      </div>
+    )
+  }
+
+  private renderCommit = (row: number) => {
+    const commit = this.state.commits.at(row)
+
+    if (commit === undefined) {
+      return null
+    }
+
+    return (
+      <div className="compare-refs-commit">
+        <div className="summary">{commit.summary}</div>
+        <div className="description">
+          <Ref>{commit.shortSha}</Ref> {commit.author.name} •{' '}
+          <RelativeTime date={commit.author.date} />
+        </div>
+      </div>
+    )
+  }
+
+  private getCommitAriaLabel = (row: number) => {
+    const commit = this.state.commits.at(row)
+    return commit === undefined ? '' : `${commit.shortSha} ${commit.summary}`
+  }
+
+  private renderFiles() {
+    const { files, selectedFile } = this.state
+
+    return (
+      <div className="compare-refs-files">
+        <div className="compare-refs-list-header">
+          {files.length === 1
+            ? '1 changed file'
+            : `${files.length} changed files`}
+        </div>
+        <FileList
+          files={files}
+          selectedFile={selectedFile}
+          onSelectedFileChanged={this.onSelectedFileChanged}
+          availableWidth={FileListWidth}
+        />
+      </div>
+    )
+  }
+
+  private renderDiff() {
+    const { selectedFile, diff } = this.state
+
+    if (selectedFile === null) {
+      return <div className="compare-refs-diff" />
+    }
+
+    const { repository, imageDiffType, hideWhitespaceInDiff, diffSettings } =
+      this.props
+
+    return (
+      <div className="compare-refs-diff">
+        <SeamlessDiffSwitcher
+          repository={repository}
+          readOnly={true}
+          file={selectedFile}
+          diff={diff}
+          imageDiffType={imageDiffType}
+          emoji={this.props.emoji}
+          hideWhitespaceInDiff={hideWhitespaceInDiff}
+          showSideBySideDiff={this.props.showSideBySideDiff}
+          softWrap={diffSettings.softWrap}
+          onOpenBinaryFile={this.onOpenBinaryFile}
+          onChangeImageDiffType={this.onChangeImageDiffType}
+        />
+      </div>
+    )
+  }
+
+  private renderComparison() {
+    const { comparison, loading, files, commits, exporting } = this.state
+
+    if (loading) {
+      return (
+        <div className="compare-refs-message">
+          <Loading /> Comparing…
+        </div>
+      )
+    }
+
+    if (comparison === null) {
+      return null
+    }
+
+    if (files.length === 0 && commits.length === 0) {
+      return (
+        <div className="compare-refs-message">
+          <Ref>{comparison.base}</Ref> and <Ref>{comparison.head}</Ref> are
+          identical.
+        </div>
+      )
+    }
+
+    return (
+      <>
+        <div className="compare-refs-summary">
+          <span className="description">
+            Comparing <Ref>{comparison.base}</Ref> with{' '}
+            <Ref>{comparison.head}</Ref>
+          </span>
+          <Button
+            onClick={this.onExportPatch}
+            disabled={exporting || comparison.baseSHA === comparison.headSHA}
+            tooltip={
+              comparison.mode === RefComparisonMode.ThreeDot
+                ? `Export the commits in ${comparison.head} which aren't in ${comparison.base} as a patch`
+                : `Export the changes between ${comparison.base} and ${comparison.head} as a patch`
+            }
+          >
+            {__DARWIN__ ? 'Export Patch…' : 'Export patch…'}
+          </Button>
+        </div>
+        <div className="compare-refs-content">
+          <div className="compare-refs-lists">
+            {this.renderCommits()}
+            {this.renderFiles()}
+          </div>
+          {this.renderDiff()}
+        </div>
+      </>
+    )
+  }
+
+  public render() {
+    const { base, head, loading, error } = this.state
+
+    return (
+      <Dialog
+        className="compare-refs"
+        title={__DARWIN__ ? 'Compare Refs' : 'Compare refs'}
+        onSubmit={this.onSubmit}
+        onDismissed={this.props.onDismissed}
+      >
+        {error !== null && <DialogError>{error}</DialogError>}
+        <DialogContent>
+          {this.renderRefPicker()}
+          {this.renderComparison()}
+        </DialogContent>
+        <DialogFooter>
+          <OkCancelButtonGroup
+            okButtonText="Compare"
+            okButtonDisabled={
+              loading || base.trim().length === 0 || head.trim().length === 0
+            }
+            cancelButtonText="Close"
+          />
+        </DialogFooter>
+      </Dialog>
+    )
+  }
+}
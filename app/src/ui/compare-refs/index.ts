@@ -0,0 +1 @@
+export { CompareRefsDialog } from './compare-refs-dialog'
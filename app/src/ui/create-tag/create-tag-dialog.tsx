@@ -9,6 +9,9 @@ import { startTimer } from '../lib/timing'
 import { Ref } from '../lib/ref'
 import { RefNameTextBox } from '../lib/ref-name-text-box'
 import { enablePreviousTagSuggestions } from '../../lib/feature-flag'
+import { TextArea } from '../lib/text-area'
+import { Checkbox, CheckboxValue } from '../lib/checkbox'
+import { getSigningConfig } from '../../lib/git'
 
 interface ICreateTagProps {
   readonly repository: Repository
@@ -30,6 +33,15 @@ interface ICreateTagState {
    */
   readonly isCreatingTag: boolean
   readonly previousTags: Array<string> | null
+
+  /** The annotation message of the tag */
+  readonly message: string
+
+  /**
+   * Whether to sign the tag, or null until the repository's signing
+   * configuration has been loaded.
+   */
+  readonly sign: boolean | null
 }
 
 const MaxTagNameLength = 245
@@ -46,6 +58,16 @@ export class CreateTag extends React.Component<
       tagName: props.initialName || '',
       isCreatingTag: false,
       previousTags: this.getExistingTagsFiltered(),
+      message: '',
+      sign: null,
+    }
+  }
+
+  public async componentDidMount() {
+    const { signTags } = await getSigningConfig(this.props.repository)
+
+    if (this.state.sign === null) {
+      this.setState({ sign: signTags })
     }
   }
 
@@ -72,6 +94,21 @@ export class CreateTag extends React.Component<
           />
 
           {this.renderPreviousTags()}
+
+          <TextArea
+            label="Message"
+            placeholder="Describe the tag (optional)"
+            rows={4}
+            value={this.state.message}
+            onValueChanged={this.updateMessage}
+          />
+
+          <Checkbox
+            label={__DARWIN__ ? 'Sign Tag' : 'Sign tag'}
+            value={this.state.sign ? CheckboxValue.On : CheckboxValue.Off}
+            disabled={this.state.sign === null}
+            onChange={this.onSignChanged}
+          />
         </DialogContent>
 
         <DialogFooter>
@@ -148,6 +185,14 @@ export class CreateTag extends React.Component<
     })
   }
 
+  private updateMessage = (message: string) => {
+    this.setState({ message })
+  }
+
+  private onSignChanged = (event: React.FormEvent<HTMLInputElement>) => {
+    this.setState({ sign: event.currentTarget.checked })
+  }
+
   private createTag = async () => {
     const name = this.state.tagName
     const repository = this.props.repository
@@ -159,7 +204,9 @@ export class CreateTag extends React.Component<
       await this.props.dispatcher.createTag(
         repository,
         name,
-        this.props.targetCommitSha
+        this.props.targetCommitSha,
+        this.state.message,
+        this.state.sign ?? undefined
       )
       timer.done()
 
@@ -5,15 +5,24 @@ import { Repository } from '../../models/repository'
 import { Dialog, DialogContent, DialogFooter } from '../dialog'
 import { Ref } from '../lib/ref'
 import { OkCancelButtonGroup } from '../dialog/ok-cancel-button-group'
+import { Checkbox, CheckboxValue } from '../lib/checkbox'
 
 interface IDeleteTagProps {
   readonly dispatcher: Dispatcher
   readonly repository: Repository
   readonly tagName: string
+
+  /** Whether the tag exists locally, as opposed to only on the remote */
+  readonly existsLocally: boolean
+
+  /** Whether the tag is known to exist on the remote */
+  readonly existsOnRemote: boolean
+
   readonly onDismissed: () => void
 }
 
 interface IDeleteTagState {
+  readonly includeRemoteTag: boolean
   readonly isDeleting: boolean
 }
 
@@ -25,6 +34,7 @@ export class DeleteTag extends React.Component<
     super(props)
 
     this.state = {
+      includeRemoteTag: !props.existsLocally,
       isDeleting: false,
     }
   }
@@ -40,13 +50,16 @@ export class DeleteTag extends React.Component<
         disabled={this.state.isDeleting}
         loading={this.state.isDeleting}
         role="alertdialog"
-        ariaDescribedBy="delete-tag-confirmation"
+        ariaDescribedBy="delete-tag-confirmation delete-tag-confirmation-remote"
       >
         <DialogContent>
           <p id="delete-tag-confirmation">
             Are you sure you want to delete the tag{' '}
-            <Ref>{this.props.tagName}</Ref>?
+            <Ref>{this.props.tagName}</Ref>
+            {this.props.existsLocally ? '' : ' from the remote'}?
           </p>
+
+          {this.renderDeleteOnRemote()}
         </DialogContent>
         <DialogFooter>
           <OkCancelButtonGroup destructive={true} okButtonText="Delete" />
@@ -55,12 +68,49 @@ export class DeleteTag extends React.Component<
     )
   }
 
+  private renderDeleteOnRemote() {
+    if (!this.props.existsLocally || !this.props.existsOnRemote) {
+      return null
+    }
+
+    return (
+      <div>
+        <p id="delete-tag-confirmation-remote">
+          <strong>
+            The tag also exists on the remote, do you wish to delete it there as
+            well?
+          </strong>
+        </p>
+        <Checkbox
+          label="Yes, delete this tag on the remote"
+          value={
+            this.state.includeRemoteTag ? CheckboxValue.On : CheckboxValue.Off
+          }
+          onChange={this.onIncludeRemoteChanged}
+        />
+      </div>
+    )
+  }
+
+  private onIncludeRemoteChanged = (
+    event: React.FormEvent<HTMLInputElement>
+  ) => {
+    this.setState({ includeRemoteTag: event.currentTarget.checked })
+  }
+
   private DeleteTag = async () => {
-    const { dispatcher, repository, tagName } = this.props
+    const { dispatcher, repository, tagName, existsLocally } = this.props
 
     this.setState({ isDeleting: true })
 
-    await dispatcher.deleteTag(repository, tagName)
+    if (this.state.includeRemoteTag) {
+      await dispatcher.deleteRemoteTag(repository, tagName)
+    }
+
+    if (existsLocally) {
+      await dispatcher.deleteTag(repository, tagName)
+    }
+
     this.props.onDismissed()
   }
 }
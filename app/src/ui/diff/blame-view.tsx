@@ -0,0 +1,263 @@
+import * as React from 'react'
+import classNames from 'classnames'
+import { AutoSizer, List, ListRowProps } from 'react-virtualized'
+
+import { Repository } from '../../models/repository'
+import {
+  AppFileStatusKind,
+  CommittedFileChange,
+  WorkingDirectoryFileChange,
+} from '../../models/status'
+import { IBlame, IBlameCommit, isUncommittedBlameSha } from '../../models/blame'
+import { DiffType, IDiff } from '../../models/diff'
+import { shortenSHA } from '../../models/commit'
+import { getAvatarUserFromAuthor } from '../../models/avatar'
+import { getBlame } from '../../lib/git'
+import { Avatar } from '../lib/avatar'
+import { LinkButton } from '../lib/link-button'
+import { Loading } from '../lib/loading'
+import { RelativeTime } from '../relative-time'
+
+/** The height (in pixels) of each line in the blame view */
+const RowHeight = 20
+
+interface IBlameViewProps {
+  readonly repository: Repository
+
+  /**
+   * The file to blame. Working directory files are blamed as they exist on
+   * disk while committed files are blamed at the commit they belong to.
+   */
+  readonly file: WorkingDirectoryFileChange | CommittedFileChange
+
+  /**
+   * The current diff of the file. Working directory files keep their id
+   * while they're being edited so the blame is reloaded whenever the diff
+   * changes instead.
+   */
+  readonly diff: IDiff
+
+  /**
+   * Called when the user clicks on the commit responsible for a line in
+   * order to view it in the History tab.
+   */
+  readonly onViewCommitInHistory?: (sha: string) => void
+}
+
+interface IBlameViewState {
+  readonly blame: IBlame | null
+  readonly error: string | null
+}
+
+/**
+ * Returns a reason for why the given file can't be blamed or null if the
+ * file can be blamed.
+ */
+function getUnblameableReason(
+  file: WorkingDirectoryFileChange | CommittedFileChange
+) {
+  switch (file.status.kind) {
+    case AppFileStatusKind.Deleted:
+      return 'Blame is not available for deleted files.'
+    case AppFileStatusKind.New:
+    case AppFileStatusKind.Untracked:
+      return file instanceof WorkingDirectoryFileChange
+        ? 'Blame is not available for files which have never been committed.'
+        : null
+    default:
+      return null
+  }
+}
+
+/**
+ * Returns whether the two diffs are of different contents. Text diffs are
+ * compared by their text as they're reloaded whenever the repository is
+ * refreshed, whether the file has changed or not.
+ */
+function hasDiffChanged(previous: IDiff, current: IDiff) {
+  if (previous === current) {
+    return false
+  }
+
+  if (
+    (previous.kind === DiffType.Text || previous.kind === DiffType.LargeText) &&
+    (current.kind === DiffType.Text || current.kind === DiffType.LargeText)
+  ) {
+    return previous.text !== current.text
+  }
+
+  return true
+}
+
+/**
+ * A component which renders the contents of a file where each line is
+ * annotated with the commit which last changed it.
+ */
+export class BlameView extends React.Component<
+  IBlameViewProps,
+  IBlameViewState
+> {
+  public constructor(props: IBlameViewProps) {
+    super(props)
+    this.state = { blame: null, error: null }
+  }
+
+  public componentDidMount() {
+    this.loadBlame()
+  }
+
+  public componentDidUpdate(prevProps: IBlameViewProps) {
+    if (
+      prevProps.file.id !== this.props.file.id ||
+      hasDiffChanged(prevProps.diff, this.props.diff) ||
+      prevProps.repository.id !== this.props.repository.id
+    ) {
+      this.setState({ blame: null, error: null })
+      this.loadBlame()
+    }
+  }
+
+  private async loadBlame() {
+    const { repository, file, diff } = this.props
+
+    if (getUnblameableReason(file) !== null) {
+      return
+    }
+
+    const commitish =
+      file instanceof CommittedFileChange ? file.commitish : null
+
+    try {
+      const blame = await getBlame(repository, file.path, commitish)
+
+      if (this.isCurrent(file, diff)) {
+        this.setState({ blame })
+      }
+    } catch (e) {
+      log.error(`Failed loading blame for ${file.path}`, e)
+
+      if (this.isCurrent(file, diff)) {
+        this.setState({ error: e.message })
+      }
+    }
+  }
+
+  /** Whether the blame loaded for the file and diff is still wanted */
+  private isCurrent(
+    file: WorkingDirectoryFileChange | CommittedFileChange,
+    diff: IDiff
+  ) {
+    return (
+      this.props.file.id === file.id && !hasDiffChanged(diff, this.props.diff)
+    )
+  }
+
+  public render() {
+    const reason = getUnblameableReason(this.props.file)
+    if (reason !== null) {
+      return <div className="panel empty">{reason}</div>
+    }
+
+    const { blame, error } = this.state
+
+    if (error !== null) {
+      return <div className="panel empty">Could not load blame: {error}</div>
+    }
+
+    if (blame === null) {
+      return (
+        <div className="panel empty">
+          <Loading />
+        </div>
+      )
+    }
+
+    if (blame.lines.length === 0) {
+      return <div className="panel empty">The file is empty</div>
+    }
+
+    return (
+      <div className="blame-view">
+        <AutoSizer>
+          {({ height, width }) => (
+            <List
+              width={width}
+              height={height}
+              rowCount={blame.lines.length}
+              rowHeight={RowHeight}
+              rowRenderer={this.renderRow}
+              // Passed to make sure the list re-renders when the blame changes
+              blame={blame}
+            />
+          )}
+        </AutoSizer>
+      </div>
+    )
+  }
+
+  private renderRow = ({ index, key, style }: ListRowProps) => {
+    const { blame } = this.state
+    if (blame === null) {
+      return null
+    }
+
+    const line = blame.lines[index]
+    const previous = index > 0 ? blame.lines[index - 1] : undefined
+    const isGroupStart = previous === undefined || previous.sha !== line.sha
+    const commit = blame.commits.get(line.sha)
+
+    const className = classNames('blame-row', {
+      'group-start': isGroupStart,
+      uncommitted: isUncommittedBlameSha(line.sha),
+    })
+
+    return (
+      <div className={className} key={key} style={style}>
+        <div className="blame-annotation">
+          {isGroupStart && commit !== undefined
+            ? this.renderAnnotation(commit)
+            : null}
+        </div>
+        <div className="blame-line-number">{line.lineNumber}</div>
+        <div className="blame-line-content">{line.content}</div>
+      </div>
+    )
+  }
+
+  private renderAnnotation(commit: IBlameCommit) {
+    if (isUncommittedBlameSha(commit.sha)) {
+      return <span className="blame-summary">Not committed yet</span>
+    }
+
+    const avatarUser = getAvatarUserFromAuthor(
+      commit.author,
+      this.props.repository.gitHubRepository
+    )
+
+    return (
+      <>
+        <Avatar user={avatarUser} size={16} />
+        <LinkButton
+          className="blame-sha"
+          onClick={this.getViewCommitHandler(commit.sha)}
+          title={`View commit ${shortenSHA(commit.sha)} in History`}
+          disabled={this.props.onViewCommitInHistory === undefined}
+        >
+          {shortenSHA(commit.sha)}
+        </LinkButton>
+        <RelativeTime
+          className="blame-date"
+          date={commit.author.date}
+          abbreviate={true}
+        />
+        <span className="blame-summary" title={commit.summary}>
+          {commit.summary}
+        </span>
+      </>
+    )
+  }
+
+  private getViewCommitHandler(sha: string) {
+    return () => this.props.onViewCommitInHistory?.(sha)
+  }
+}
@@ -2,7 +2,7 @@ import * as React from 'react'
 
 import { ILineTokens } from '../../lib/highlighter/types'
 import classNames from 'classnames'
-import { relativeChanges } from './changed-range'
+import { getWordDiffRanges, IRange } from './word-diff'
 import { mapKeysEqual } from '../../lib/equality'
 import {
   WorkingDirectoryFileChange,
@@ -69,6 +69,12 @@ export interface IDiffRowData {
    * Array of tokens to do syntax highlighting on the diff line.
    */
   readonly tokens: ReadonlyArray<ILineTokens>
+
+  /**
+   * Whether the line is part of a block of lines which was moved, rather
+   * than added or deleted, see `getMovedLines`.
+   */
+  readonly isMoved: boolean
 }
 
 /**
@@ -209,7 +215,7 @@ export type ChangedFile = WorkingDirectoryFileChange | CommittedFileChange
 
 /**
  * Returns an object with two ILineTokens objects that can be used to highlight
- * the added and removed characters between two lines.
+ * the added and removed words between two lines.
  *
  * The `before` object contains the tokens to be used against the `lineBefore` string
  * while the `after` object contains the tokens to use with the `lineAfter` string.
@@ -229,22 +235,25 @@ export function getDiffTokens(
   lineBefore: string,
   lineAfter: string
 ): { before: ILineTokens; after: ILineTokens } {
-  const changeRanges = relativeChanges(lineBefore, lineAfter)
+  const { before, after } = getWordDiffRanges(lineBefore, lineAfter)
 
   return {
-    before: {
-      [changeRanges.stringARange.location]: {
-        token: 'diff-delete-inner',
-        length: changeRanges.stringARange.length,
-      },
-    },
-    after: {
-      [changeRanges.stringBRange.location]: {
-        token: 'diff-add-inner',
-        length: changeRanges.stringBRange.length,
-      },
-    },
+    before: getLineTokensFromRanges(before, 'diff-delete-inner'),
+    after: getLineTokensFromRanges(after, 'diff-add-inner'),
+  }
+}
+
+function getLineTokensFromRanges(
+  ranges: ReadonlyArray<IRange>,
+  token: string
+): ILineTokens {
+  const tokens: ILineTokens = {}
+
+  for (const { location, length } of ranges) {
+    tokens[location] = { token, length }
   }
+
+  return tokens
 }
 
 /**
@@ -10,6 +10,11 @@ import {
 } from '../lib/popover'
 import { Tooltip, TooltipDirection } from '../lib/tooltip'
 import { createObservableRef } from '../lib/observable-ref'
+import { Select } from '../lib/select'
+import { DiffContextLineOptions, IDiffSettings } from '../../models/diff'
+
+/** The value of the context lines option which shows the full file */
+const FullFileContextValue = 'full'
 
 interface IDiffOptionsProps {
   readonly isInteractiveDiff: boolean
@@ -21,6 +26,22 @@ interface IDiffOptionsProps {
   readonly showSideBySideDiff: boolean
   readonly onShowSideBySideDiffChanged: (showSideBySideDiff: boolean) => void
 
+  /**
+   * Whether blame annotations are shown instead of the diff. The blame
+   * option is only rendered when both this and `onShowBlameChanged` are
+   * provided.
+   */
+  readonly showBlame?: boolean
+  readonly onShowBlameChanged?: (showBlame: boolean) => void
+
+  /**
+   * The context size, ignored changes and wrapping of diffs in the
+   * repository. The options for these are only rendered when both this and
+   * `onDiffSettingsChanged` are provided.
+   */
+  readonly diffSettings?: IDiffSettings
+  readonly onDiffSettingsChanged?: (diffSettings: IDiffSettings) => void
+
   /** Called when the user opens the diff options popover */
   readonly onDiffOptionsOpened: () => void
 }
@@ -120,7 +141,10 @@ export class DiffOptions extends React.Component<
           Diff {__DARWIN__ ? 'Settings' : 'Options'}
         </h3>
         {this.renderHideWhitespaceChanges()}
+        {this.renderContextLines()}
         {this.renderShowSideBySide()}
+        {this.renderSoftWrap()}
+        {this.renderShowBlame()}
       </Popover>
     )
   }
@@ -156,7 +180,72 @@ export class DiffOptions extends React.Component<
     )
   }
 
+  private onShowBlameChanged = (event: React.FormEvent<HTMLInputElement>) => {
+    this.props.onShowBlameChanged?.(event.currentTarget.checked)
+  }
+
+  private renderShowBlame() {
+    const { showBlame, onShowBlameChanged } = this.props
+
+    if (showBlame === undefined || onShowBlameChanged === undefined) {
+      return null
+    }
+
+    return (
+      <fieldset>
+        <legend>Blame</legend>
+        <Checkbox
+          value={showBlame ? CheckboxValue.On : CheckboxValue.Off}
+          onChange={this.onShowBlameChanged}
+          label={
+            __DARWIN__ ? 'Show Line-by-Line Blame' : 'Show line-by-line blame'
+          }
+        />
+        <p className="secondary-text">
+          Annotates each line of the file with the commit that last changed it.
+        </p>
+      </fieldset>
+    )
+  }
+
+  private updateDiffSettings(settings: Partial<IDiffSettings>) {
+    const { diffSettings, onDiffSettingsChanged } = this.props
+
+    if (diffSettings !== undefined && onDiffSettingsChanged !== undefined) {
+      onDiffSettingsChanged({ ...diffSettings, ...settings })
+    }
+  }
+
+  private onIgnoreBlankLinesChanged = (
+    event: React.FormEvent<HTMLInputElement>
+  ) => {
+    this.updateDiffSettings({ ignoreBlankLines: event.currentTarget.checked })
+  }
+
+  private onIgnoreLineEndingsChanged = (
+    event: React.FormEvent<HTMLInputElement>
+  ) => {
+    this.updateDiffSettings({ ignoreLineEndings: event.currentTarget.checked })
+  }
+
+  private onContextLinesChanged = (
+    event: React.FormEvent<HTMLSelectElement>
+  ) => {
+    const { value } = event.currentTarget
+    this.updateDiffSettings({
+      contextLines: value === FullFileContextValue ? null : parseInt(value, 10),
+    })
+  }
+
+  private onSoftWrapChanged = (event: React.FormEvent<HTMLInputElement>) => {
+    this.updateDiffSettings({ softWrap: event.currentTarget.checked })
+  }
+
   private renderHideWhitespaceChanges() {
+    const { diffSettings, onDiffSettingsChanged } = this.props
+    const hasDiffSettings =
+      diffSettings !== undefined && onDiffSettingsChanged !== undefined
+
     return (
       <fieldset>
         <legend>Whitespace</legend>
@@ -171,13 +260,96 @@ export class DiffOptions extends React.Component<
             __DARWIN__ ? 'Hide Whitespace Changes' : 'Hide whitespace changes'
           }
         />
+        {hasDiffSettings && (
+          <Checkbox
+            value={
+              diffSettings.ignoreBlankLines
+                ? CheckboxValue.On
+                : CheckboxValue.Off
+            }
+            onChange={this.onIgnoreBlankLinesChanged}
+            label={
+              __DARWIN__ ? 'Hide Blank Line Changes' : 'Hide blank line changes'
+            }
+          />
+        )}
+        {hasDiffSettings && (
+          <Checkbox
+            value={
+              diffSettings.ignoreLineEndings
+                ? CheckboxValue.On
+                : CheckboxValue.Off
+            }
+            onChange={this.onIgnoreLineEndingsChanged}
+            label={
+              __DARWIN__
+                ? 'Hide Line Ending Changes'
+                : 'Hide line ending changes'
+            }
+          />
+        )}
         {this.props.isInteractiveDiff && (
           <p className="secondary-text">
-            Interacting with individual lines or hunks will be disabled while
-            hiding whitespace.
+            Only the changes shown are included when selecting individual lines
+            or hunks.
           </p>
         )}
       </fieldset>
     )
   }
+
+  private renderContextLines() {
+    const { diffSettings, onDiffSettingsChanged } = this.props
+
+    if (diffSettings === undefined || onDiffSettingsChanged === undefined) {
+      return null
+    }
+
+    const { contextLines } = diffSettings
+    const options =
+      contextLines === null || DiffContextLineOptions.includes(contextLines)
+        ? DiffContextLineOptions
+        : [...DiffContextLineOptions, contextLines].sort((x, y) => x - y)
+
+    return (
+      <fieldset>
+        <legend>Context</legend>
+        <Select
+          label={__DARWIN__ ? 'Lines Around Changes' : 'Lines around changes'}
+          value={
+            contextLines === null ? FullFileContextValue : `${contextLines}`
+          }
+          onChange={this.onContextLinesChanged}
+        >
+          {options.map(lines => (
+            <option key={lines} value={`${lines}`}>
+              {lines}
+            </option>
+          ))}
+          <option value={FullFileContextValue}>
+            {__DARWIN__ ? 'Full File' : 'Full file'}
+          </option>
+        </Select>
+      </fieldset>
+    )
+  }
+
+  private renderSoftWrap() {
+    const { diffSettings, onDiffSettingsChanged } = this.props
+
+    if (diffSettings === undefined || onDiffSettingsChanged === undefined) {
+      return null
+    }
+
+    return (
+      <fieldset>
+        <legend>Wrapping</legend>
+        <Checkbox
+          value={diffSettings.softWrap ? CheckboxValue.On : CheckboxValue.Off}
+          onChange={this.onSoftWrapChanged}
+          label={__DARWIN__ ? 'Wrap Long Lines' : 'Wrap long lines'}
+        />
+      </fieldset>
+    )
+  }
 }
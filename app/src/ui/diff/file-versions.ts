@@ -0,0 +1,74 @@
+import * as Path from 'path'
+import { readFile } from 'fs/promises'
+
+import { Repository } from '../../models/repository'
+import {
+  AppFileStatusKind,
+  CommittedFileChange,
+  WorkingDirectoryFileChange,
+} from '../../models/status'
+import { getBlobContents } from '../../lib/git/show'
+import { getOldPathOrDefault } from '../../lib/get-old-path'
+
+type ChangedFile = WorkingDirectoryFileChange | CommittedFileChange
+
+/** The complete contents of both versions of a changed file */
+export interface IFileVersions {
+  /** The contents before the change, or null if the file was added */
+  readonly oldContents: Buffer | null
+
+  /** The contents after the change, or null if the file was deleted */
+  readonly newContents: Buffer | null
+}
+
+async function getOldContents(repository: Repository, file: ChangedFile) {
+  if (
+    file.status.kind === AppFileStatusKind.New ||
+    file.status.kind === AppFileStatusKind.Untracked
+  ) {
+    return null
+  }
+
+  // Working directory changes are diffed against what's committed, see
+  // `getFileContents` in the syntax highlighting.
+  const commitish =
+    file instanceof CommittedFileChange ? file.parentCommitish : 'HEAD'
+
+  return getBlobContents(repository, commitish, getOldPathOrDefault(file))
+}
+
+async function getNewContents(repository: Repository, file: ChangedFile) {
+  if (file.status.kind === AppFileStatusKind.Deleted) {
+    return null
+  }
+
+  if (file instanceof CommittedFileChange) {
+    return getBlobContents(repository, file.commitish, file.path)
+  }
+
+  return readFile(Path.join(repository.path, file.path))
+}
+
+/**
+ * Load the complete contents of both versions of a changed file. Unlike the
+ * contents loaded for syntax highlighting these are never truncated, so they
+ * should only be loaded for views which need to parse the whole file.
+ */
+export async function getFileVersions(
+  repository: Repository,
+  file: ChangedFile
+): Promise<IFileVersions> {
+  const [oldContents, newContents] = await Promise.all([
+    getOldContents(repository, file),
+    getNewContents(repository, file),
+  ])
+
+  return { oldContents, newContents }
+}
+
+/** Decode the contents of a text file, removing any byte order mark */
+export function decodeText(contents: Buffer | null): string | null {
+  return contents === null
+    ? null
+    : contents.toString('utf8').replace(/^\uFEFF/, '')
+}
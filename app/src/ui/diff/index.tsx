@@ -33,12 +33,30 @@ import { SideBySideDiff } from './side-by-side-diff'
 import { enableExperimentalDiffViewer } from '../../lib/feature-flag'
 import { IFileContents } from './syntax-highlighting'
 import { SubmoduleDiff } from './submodule-diff'
+import { BlameView } from './blame-view'
+import { StructuredDiffView } from './structured-diff'
+import {
+  getStructuredDiffProvider,
+  IStructuredDiffProvider,
+} from '../../lib/structured-diff'
+import { LinkButton } from '../lib/link-button'
+import { getRichDiffFormat, RichDiff, RichDiffFormat } from './rich-diffs'
 
 // image used when no diff is displayed
 const NoDiffImage = encodePathAsUrl(__dirname, 'static/ufo-alert.svg')
 
 type ChangedFile = WorkingDirectoryFileChange | CommittedFileChange
 
+/**
+ * Get a key identifying a file across updates of the working directory, and
+ * distinguishing the changes to the same file in different commits.
+ */
+function getFileKey(file: ChangedFile) {
+  return file instanceof CommittedFileChange
+    ? `${file.commitish}:${file.id}`
+    : file.id
+}
+
 /** The props for the Diff component. */
 interface IDiffProps {
   readonly repository: Repository
@@ -73,6 +91,21 @@ interface IDiffProps {
   /** Whether we should display side by side diffs. */
   readonly showSideBySideDiff: boolean
 
+  /** Whether long lines wrap instead of overflowing the diff. Defaults to true. */
+  readonly softWrap?: boolean
+
+  /**
+   * Whether we should show the file with line-by-line blame annotations
+   * instead of the diff. Only applies to text diffs.
+   */
+  readonly showBlame?: boolean
+
+  /**
+   * Called when the user clicks on a commit in the blame annotations in
+   * order to view it in the History tab.
+   */
+  readonly onViewCommitInHistory?: (sha: string) => void
+
   /** Whether we should show a confirmation dialog when the user discards changes */
   readonly askForConfirmationOnDiscardChanges?: boolean
 
@@ -107,12 +140,22 @@ interface IDiffProps {
     diffSelection: DiffSelection
   ) => void
 
-  /** Called when the user changes the hide whitespace in diffs setting. */
-  readonly onHideWhitespaceInDiffChanged: (checked: boolean) => void
+  /**
+   * Map from the emoji shortcut (e.g., :+1:) to the image's local path, used
+   * when rendering Markdown files.
+   */
+  readonly emoji: Map<string, string>
 }
 
 interface IDiffState {
   readonly forceShowLargeDiff: boolean
+
+  /**
+   * The key of the file for which the user has switched away from the
+   * default view, either to its structured or rendered diff or back to its
+   * text diff, see `getStructuredDiffProvider` and `getRichDiffFormat`.
+   */
+  readonly alternativeDiffToggledFor: string | null
 }
 
 /** A component which renders a diff for a file. */
@@ -122,12 +165,88 @@ export class Diff extends React.Component<IDiffProps, IDiffState> {
 
     this.state = {
       forceShowLargeDiff: false,
+      alternativeDiffToggledFor: null,
     }
   }
 
   public render() {
     const diff = this.props.diff
 
+    if (
+      this.props.showBlame === true &&
+      (diff.kind === DiffType.Text || diff.kind === DiffType.LargeText)
+    ) {
+      return this.renderBlame()
+    }
+
+    const canShowAlternativeDiff =
+      diff.kind === DiffType.Text ||
+      diff.kind === DiffType.LargeText ||
+      diff.kind === DiffType.Unrenderable
+
+    // The structured and rendered diffs are opt-in wherever lines can be
+    // selected so that partially staging a file doesn't take an extra step.
+    const structuredDiffProvider = canShowAlternativeDiff
+      ? getStructuredDiffProvider(this.props.file.path)
+      : null
+
+    if (structuredDiffProvider !== null) {
+      return this.shouldShowAlternativeDiff(this.props.readOnly)
+        ? this.renderStructuredDiff(structuredDiffProvider)
+        : this.renderRawDiff(
+            `This file can be shown as a ${structuredDiffProvider.name} diff.`,
+            'Show structured diff'
+          )
+    }
+
+    const richDiffFormat = canShowAlternativeDiff
+      ? getRichDiffFormat(this.props.file.path)
+      : null
+
+    if (richDiffFormat !== null) {
+      return this.shouldShowAlternativeDiff(this.props.readOnly)
+        ? this.renderRichDiff(richDiffFormat)
+        : this.renderRawDiff(
+            `This ${richDiffFormat} file can be shown rendered.`,
+            'Show rendered diff'
+          )
+    }
+
+    return this.renderDiff()
+  }
+
+  /**
+   * Whether to show the structured or rendered diff of the file rather than
+   * its text diff, given which one is shown by default.
+   */
+  private shouldShowAlternativeDiff(byDefault: boolean) {
+    const toggled =
+      this.state.alternativeDiffToggledFor === getFileKey(this.props.file)
+
+    return byDefault !== toggled
+  }
+
+  /**
+   * Render the text diff of a file which can be shown as a structured or
+   * rendered diff, along with a way to switch to the latter.
+   */
+  private renderRawDiff(message: string, linkText: string) {
+    return (
+      <div className="raw-structured-diff">
+        <div className="structured-diff-banner">
+          {message}{' '}
+          <LinkButton onClick={this.toggleAlternativeDiff}>
+            {linkText}
+          </LinkButton>
+        </div>
+        {this.renderDiff()}
+      </div>
+    )
+  }
+
+  private renderDiff() {
+    const diff = this.props.diff
+
     switch (diff.kind) {
       case DiffType.Text:
         return this.renderText(diff)
@@ -149,6 +268,44 @@ export class Diff extends React.Component<IDiffProps, IDiffState> {
     }
   }
 
+  private renderBlame() {
+    return (
+      <BlameView
+        repository={this.props.repository}
+        file={this.props.file}
+        diff={this.props.diff}
+        onViewCommitInHistory={this.props.onViewCommitInHistory}
+      />
+    )
+  }
+
+  private renderStructuredDiff(provider: IStructuredDiffProvider) {
+    return (
+      <StructuredDiffView
+        repository={this.props.repository}
+        file={this.props.file}
+        diff={this.props.diff}
+        provider={provider}
+        onShowRawDiff={this.toggleAlternativeDiff}
+      />
+    )
+  }
+
+  private renderRichDiff(format: RichDiffFormat) {
+    return (
+      <RichDiff
+        repository={this.props.repository}
+        file={this.props.file}
+        diff={this.props.diff}
+        format={format}
+        imageDiffType={this.props.imageDiffType}
+        onChangeImageDiffType={this.props.onChangeImageDiffType}
+        emoji={this.props.emoji}
+        onShowRawDiff={this.toggleAlternativeDiff}
+      />
+    )
+  }
+
   private renderImage(imageDiff: IImageDiff) {
     if (imageDiff.current && imageDiff.previous) {
       return (
@@ -285,16 +442,13 @@ export class Diff extends React.Component<IDiffProps, IDiffState> {
           file={this.props.file}
           diff={diff}
           fileContents={this.props.fileContents}
-          hideWhitespaceInDiff={this.props.hideWhitespaceInDiff}
           showSideBySideDiff={this.props.showSideBySideDiff}
+          softWrap={this.props.softWrap ?? true}
           onIncludeChanged={this.props.onIncludeChanged}
           onDiscardChanges={this.props.onDiscardChanges}
           askForConfirmationOnDiscardChanges={
             this.props.askForConfirmationOnDiscardChanges
           }
-          onHideWhitespaceInDiffChanged={
-            this.props.onHideWhitespaceInDiffChanged
-          }
         />
       )
     }
@@ -304,7 +458,7 @@ export class Diff extends React.Component<IDiffProps, IDiffState> {
         repository={this.props.repository}
         file={this.props.file}
         readOnly={this.props.readOnly}
-        hideWhitespaceInDiff={this.props.hideWhitespaceInDiff}
+        softWrap={this.props.softWrap ?? true}
         onIncludeChanged={this.props.onIncludeChanged}
         onDiscardChanges={this.props.onDiscardChanges}
         diff={diff}
@@ -312,7 +466,6 @@ export class Diff extends React.Component<IDiffProps, IDiffState> {
         askForConfirmationOnDiscardChanges={
           this.props.askForConfirmationOnDiscardChanges
         }
-        onHideWhitespaceInDiffChanged={this.props.onHideWhitespaceInDiffChanged}
       />
     )
   }
@@ -320,4 +473,12 @@ export class Diff extends React.Component<IDiffProps, IDiffState> {
   private showLargeDiff = () => {
     this.setState({ forceShowLargeDiff: true })
   }
+
+  private toggleAlternativeDiff = () => {
+    const key = getFileKey(this.props.file)
+
+    this.setState(({ alternativeDiffToggledFor }) => ({
+      alternativeDiffToggledFor: alternativeDiffToggledFor === key ? null : key,
+    }))
+  }
 }
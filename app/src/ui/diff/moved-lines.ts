@@ -0,0 +1,141 @@
+import { DiffHunk, DiffLine, DiffLineType } from '../../models/diff'
+
+/**
+ * The minimum number of alphanumeric characters in a block of lines for it
+ * to be considered moved. This is the same threshold Git uses for
+ * `--color-moved` so that short and common lines, like closing braces, aren't
+ * reported as moved just because they happen to appear elsewhere.
+ */
+const MinMovedBlockAlphanumericCharacters = 20
+
+interface IChangedLine {
+  readonly line: DiffLine
+
+  /** The contents of the line, without the diff marker */
+  readonly content: string
+
+  /**
+   * An identifier of the group of consecutive added or deleted lines the
+   * line belongs to. Moved blocks can't span multiple groups.
+   */
+  readonly group: number
+}
+
+function countAlphanumericCharacters(lines: ReadonlyArray<IChangedLine>) {
+  return lines.reduce(
+    (count, line) => count + (line.content.match(/[a-z0-9]/gi)?.length ?? 0),
+    0
+  )
+}
+
+/**
+ * Get the length of the block of identical lines starting at the given
+ * addition and deletion.
+ */
+function matchingBlockLength(
+  added: ReadonlyArray<IChangedLine>,
+  addedIndex: number,
+  deleted: ReadonlyArray<IChangedLine>,
+  deletedIndex: number
+) {
+  const addedGroup = added[addedIndex].group
+  const deletedGroup = deleted[deletedIndex].group
+  let length = 0
+
+  while (
+    addedIndex + length < added.length &&
+    deletedIndex + length < deleted.length &&
+    added[addedIndex + length].group === addedGroup &&
+    deleted[deletedIndex + length].group === deletedGroup &&
+    added[addedIndex + length].content ===
+      deleted[deletedIndex + length].content
+  ) {
+    length++
+  }
+
+  return length
+}
+
+/**
+ * Find the added and deleted lines in the diff which are part of a block of
+ * code that was moved, rather than genuinely added or removed, similar to
+ * what `git diff --color-moved` does.
+ */
+export function getMovedLines(
+  hunks: ReadonlyArray<DiffHunk>
+): ReadonlySet<DiffLine> {
+  const added = new Array<IChangedLine>()
+  const deleted = new Array<IChangedLine>()
+  let group = 0
+
+  for (const hunk of hunks) {
+    group++
+
+    for (const line of hunk.lines) {
+      const changedLine = { line, content: line.content, group }
+
+      if (line.type === DiffLineType.Add) {
+        added.push(changedLine)
+      } else if (line.type === DiffLineType.Delete) {
+        deleted.push(changedLine)
+      } else {
+        group++
+      }
+    }
+  }
+
+  const deletedByContent = new Map<string, Array<number>>()
+
+  for (const [index, line] of deleted.entries()) {
+    const indices = deletedByContent.get(line.content)
+    if (indices === undefined) {
+      deletedByContent.set(line.content, [index])
+    } else {
+      indices.push(index)
+    }
+  }
+
+  const movedLines = new Set<DiffLine>()
+  let addedIndex = 0
+
+  while (addedIndex < added.length) {
+    const candidates = deletedByContent.get(added[addedIndex].content) ?? []
+    let bestStart = -1
+    let bestLength = 0
+
+    for (const deletedIndex of candidates) {
+      const length = matchingBlockLength(
+        added,
+        addedIndex,
+        deleted,
+        deletedIndex
+      )
+
+      if (length > bestLength) {
+        bestStart = deletedIndex
+        bestLength = length
+      }
+    }
+
+    const block = added.slice(addedIndex, addedIndex + bestLength)
+
+    if (
+      bestLength > 0 &&
+      countAlphanumericCharacters(block) >= MinMovedBlockAlphanumericCharacters
+    ) {
+      for (const { line } of block) {
+        movedLines.add(line)
+      }
+
+      for (const { line } of deleted.slice(bestStart, bestStart + bestLength)) {
+        movedLines.add(line)
+      }
+
+      addedIndex += bestLength
+    } else {
+      addedIndex++
+    }
+  }
+
+  return movedLines
+}
@@ -0,0 +1,69 @@
+import { longestCommonSubsequence } from '../word-diff'
+
+/**
+ * An item of the old version of a list aligned with the corresponding item
+ * of the new version. Items which were removed have no new version and items
+ * which were added have no old version.
+ */
+export interface IAlignedItem<T> {
+  readonly before: T | null
+  readonly after: T | null
+}
+
+/**
+ * Align the items of two versions of a list based on the longest common
+ * subsequence of their keys, i.e. lines or blocks of text.
+ */
+export function alignItems<T>(
+  before: ReadonlyArray<T>,
+  after: ReadonlyArray<T>,
+  getKey: (item: T) => string
+): ReadonlyArray<IAlignedItem<T>> {
+  const beforeKeys = before.map(getKey)
+  const afterKeys = after.map(getKey)
+
+  let prefix = 0
+  while (
+    prefix < beforeKeys.length &&
+    prefix < afterKeys.length &&
+    beforeKeys[prefix] === afterKeys[prefix]
+  ) {
+    prefix++
+  }
+
+  let suffix = 0
+  while (
+    suffix < beforeKeys.length - prefix &&
+    suffix < afterKeys.length - prefix &&
+    beforeKeys[beforeKeys.length - 1 - suffix] ===
+      afterKeys[afterKeys.length - 1 - suffix]
+  ) {
+    suffix++
+  }
+
+  const { inA, inB } = longestCommonSubsequence(
+    beforeKeys.slice(prefix, beforeKeys.length - suffix),
+    afterKeys.slice(prefix, afterKeys.length - suffix)
+  )
+
+  const isCommonBefore = (i: number) =>
+    i < prefix || i >= beforeKeys.length - suffix || inA[i - prefix]
+  const isCommonAfter = (j: number) =>
+    j < prefix || j >= afterKeys.length - suffix || inB[j - prefix]
+
+  const aligned = new Array<IAlignedItem<T>>()
+  let i = 0
+  let j = 0
+
+  while (i < before.length || j < after.length) {
+    if (i < before.length && !isCommonBefore(i)) {
+      aligned.push({ before: before[i++], after: null })
+    } else if (j < after.length && !isCommonAfter(j)) {
+      aligned.push({ before: null, after: after[j++] })
+    } else {
+      aligned.push({ before: before[i++], after: after[j++] })
+    }
+  }
+
+  return aligned
+}
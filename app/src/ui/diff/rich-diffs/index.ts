@@ -0,0 +1,2 @@
+export { RichDiff } from './rich-diff'
+export { RichDiffFormat, getRichDiffFormat } from './rich-diff-format'
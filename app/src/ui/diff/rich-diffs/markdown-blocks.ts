@@ -0,0 +1,96 @@
+import { alignItems } from './align'
+
+/** Matches the opening or closing line of a fenced code block */
+const CodeFence = /^ {0,3}(`{3,}|~{3,})/
+
+/**
+ * Split a Markdown document into its top level blocks, i.e. paragraphs,
+ * headings, lists and code blocks, which are separated by blank lines.
+ * Blank lines inside fenced code blocks don't end the block.
+ */
+export function getMarkdownBlocks(markdown: string): ReadonlyArray<string> {
+  const blocks = new Array<string>()
+  let current = new Array<string>()
+  let fence: string | null = null
+
+  for (const line of markdown.split(/\r?\n/)) {
+    const fenceMatch = CodeFence.exec(line)
+
+    if (fence === null && fenceMatch !== null) {
+      fence = fenceMatch[1]
+    } else if (
+      fence !== null &&
+      fenceMatch !== null &&
+      fenceMatch[1][0] === fence[0] &&
+      fenceMatch[1].length >= fence.length
+    ) {
+      fence = null
+    }
+
+    if (fence === null && line.trim().length === 0) {
+      if (current.length > 0) {
+        blocks.push(current.join('\n'))
+        current = []
+      }
+    } else {
+      current.push(line)
+    }
+  }
+
+  if (current.length > 0) {
+    blocks.push(current.join('\n'))
+  }
+
+  return blocks
+}
+
+/** A version of a Markdown document with its changed blocks marked */
+export interface IMarkedMarkdown {
+  readonly before: string | null
+  readonly after: string | null
+}
+
+/**
+ * Wrap a block in an element with the given class name. The blank lines
+ * around the block make sure it's still parsed as Markdown rather than as
+ * part of the HTML element.
+ */
+function markBlock(block: string, className: string) {
+  return `<div class="markdown-diff-block ${className}">\n\n${block}\n\n</div>`
+}
+
+/**
+ * Compare the blocks of two versions of a Markdown document and return both
+ * versions with the blocks which were removed from the old version and the
+ * blocks which were added to the new version wrapped in highlighted elements.
+ *
+ * @param before The old version of the document, or null if it was added
+ * @param after  The new version of the document, or null if it was deleted
+ */
+export function markChangedMarkdownBlocks(
+  before: string | null,
+  after: string | null
+): IMarkedMarkdown {
+  const beforeBlocks = before === null ? [] : getMarkdownBlocks(before)
+  const afterBlocks = after === null ? [] : getMarkdownBlocks(after)
+
+  const aligned = alignItems(beforeBlocks, afterBlocks, b => b)
+  const markedBefore = new Array<string>()
+  const markedAfter = new Array<string>()
+
+  for (const { before: oldBlock, after: newBlock } of aligned) {
+    if (oldBlock !== null && newBlock !== null) {
+      markedBefore.push(oldBlock)
+      markedAfter.push(newBlock)
+    } else if (oldBlock !== null) {
+      markedBefore.push(markBlock(oldBlock, 'removed'))
+    } else if (newBlock !== null) {
+      markedAfter.push(markBlock(newBlock, 'added'))
+    }
+  }
+
+  return {
+    before: before === null ? null : markedBefore.join('\n\n'),
+    after: after === null ? null : markedAfter.join('\n\n'),
+  }
+}
@@ -0,0 +1,58 @@
+import * as React from 'react'
+import memoizeOne from 'memoize-one'
+
+import { SandboxedMarkdown } from '../../lib/sandboxed-markdown'
+import { markChangedMarkdownBlocks } from './markdown-blocks'
+
+interface IMarkdownDiffProps {
+  /** The old version of the document, null if the file was added */
+  readonly before: string | null
+
+  /** The new version of the document, null if the file was deleted */
+  readonly after: string | null
+
+  /** Map from the emoji shortcut (e.g., :+1:) to the image's local path. */
+  readonly emoji: Map<string, string>
+
+  /** Called when the user clicks a link in the rendered documents */
+  readonly onMarkdownLinkClicked?: (url: string) => void
+}
+
+/**
+ * A component which renders both versions of a Markdown document side by
+ * side, with the blocks which were removed or added highlighted.
+ */
+export class MarkdownDiff extends React.Component<IMarkdownDiffProps> {
+  private getMarkedMarkdown = memoizeOne(markChangedMarkdownBlocks)
+
+  public render() {
+    const { before, after } = this.getMarkedMarkdown(
+      this.props.before,
+      this.props.after
+    )
+
+    return (
+      <div className="markdown-diff">
+        {this.renderVersion('Before', before)}
+        {this.renderVersion('After', after)}
+      </div>
+    )
+  }
+
+  private renderVersion(title: string, markdown: string | null) {
+    if (markdown === null) {
+      return null
+    }
+
+    return (
+      <div className="markdown-diff-version">
+        <div className="markdown-diff-header">{title}</div>
+        <SandboxedMarkdown
+          markdown={markdown}
+          emoji={this.props.emoji}
+          onMarkdownLinkClicked={this.props.onMarkdownLinkClicked}
+        />
+      </div>
+    )
+  }
+}
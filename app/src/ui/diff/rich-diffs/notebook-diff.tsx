@@ -0,0 +1,187 @@
+import * as React from 'react'
+import classNames from 'classnames'
+import memoizeOne from 'memoize-one'
+
+import { assertNever } from '../../../lib/fatal-error'
+import { alignItems } from './align'
+import {
+  getNotebookCellChanges,
+  INotebookCell,
+  INotebookCellChange,
+  INotebookImage,
+  NotebookCellChangeType,
+  parseNotebook,
+} from './notebook'
+
+interface INotebookDiffProps {
+  /** The old version of the notebook, null if the file was added */
+  readonly before: string | null
+
+  /** The new version of the notebook, null if the file was deleted */
+  readonly after: string | null
+}
+
+function getCellChanges(before: string | null, after: string | null) {
+  return getNotebookCellChanges(
+    before === null ? [] : parseNotebook(before),
+    after === null ? [] : parseNotebook(after)
+  )
+}
+
+function splitLines(text: string | undefined) {
+  return text === undefined || text.length === 0 ? [] : text.split('\n')
+}
+
+function getChangeDescription(type: NotebookCellChangeType) {
+  switch (type) {
+    case NotebookCellChangeType.Added:
+      return 'Added'
+    case NotebookCellChangeType.Removed:
+      return 'Removed'
+    case NotebookCellChangeType.Modified:
+      return 'Modified'
+    case NotebookCellChangeType.Unchanged:
+      return 'Unchanged'
+    default:
+      return assertNever(type, `Unknown notebook cell change type: ${type}`)
+  }
+}
+
+/**
+ * A component which renders the changes to a Jupyter notebook cell by cell,
+ * showing the changes to the source and the outputs of each cell.
+ */
+export class NotebookDiff extends React.Component<INotebookDiffProps> {
+  private getCellChanges = memoizeOne(getCellChanges)
+
+  public render() {
+    let changes: ReadonlyArray<INotebookCellChange>
+
+    try {
+      changes = this.getCellChanges(this.props.before, this.props.after)
+    } catch (e) {
+      return (
+        <div className="panel empty">
+          The notebook could not be parsed: {e.message}
+        </div>
+      )
+    }
+
+    return <div className="notebook-diff">{changes.map(this.renderCell)}</div>
+  }
+
+  private renderCell = (change: INotebookCellChange, index: number) => {
+    const { type, before, after } = change
+    const cell = after ?? before
+    if (cell === null) {
+      return null
+    }
+
+    const className = classNames('notebook-cell', type.toLowerCase())
+
+    if (type === NotebookCellChangeType.Unchanged) {
+      const [firstLine] = cell.source.split('\n')
+      return (
+        <div className={className} key={index}>
+          <div className="notebook-cell-header">
+            <span className="cell-type">{cell.cellType}</span>
+            <span className="cell-summary">{firstLine}</span>
+          </div>
+        </div>
+      )
+    }
+
+    return (
+      <div className={className} key={index}>
+        <div className="notebook-cell-header">
+          <span className="cell-type">{cell.cellType}</span>
+          <span className="cell-change">{getChangeDescription(type)}</span>
+        </div>
+        {this.renderTextDiff(before?.source, after?.source)}
+        {this.renderOutputs(before, after)}
+      </div>
+    )
+  }
+
+  private renderOutputs(
+    before: INotebookCell | null,
+    after: INotebookCell | null
+  ) {
+    const oldImages = before?.outputImages ?? []
+    const newImages = after?.outputImages ?? []
+    const imagesChanged =
+      oldImages.length !== newImages.length ||
+      oldImages.some((image, i) => image.data !== newImages[i].data)
+
+    if (
+      before?.outputText === after?.outputText &&
+      !imagesChanged &&
+      (before?.outputText ?? after?.outputText ?? '').length === 0
+    ) {
+      return null
+    }
+
+    return (
+      <div className="notebook-cell-outputs">
+        <div className="notebook-cell-outputs-header">Outputs</div>
+        {this.renderTextDiff(before?.outputText, after?.outputText)}
+        {imagesChanged ? (
+          <div className="notebook-cell-images">
+            {this.renderImages(oldImages, 'removed')}
+            {this.renderImages(newImages, 'added')}
+          </div>
+        ) : null}
+      </div>
+    )
+  }
+
+  private renderImages(
+    images: ReadonlyArray<INotebookImage>,
+    className: string
+  ) {
+    return images.map((image, i) => (
+      <img
+        key={`${className}-${i}`}
+        className={className}
+        src={`data:${image.mediaType};base64,${image.data}`}
+        alt=""
+      />
+    ))
+  }
+
+  private renderTextDiff(
+    before: string | undefined,
+    after: string | undefined
+  ) {
+    const lines = alignItems(splitLines(before), splitLines(after), l => l)
+
+    if (lines.length === 0) {
+      return null
+    }
+
+    return (
+      <pre className="notebook-text-diff">
+        {lines.map(({ before: oldLine, after: newLine }, i) => {
+          if (oldLine !== null && newLine !== null) {
+            return (
+              <div className="line context" key={i}>
+                {' '}
+                {newLine}
+              </div>
+            )
+          }
+
+          return oldLine !== null ? (
+            <div className="line removed" key={i}>
+              -{oldLine}
+            </div>
+          ) : (
+            <div className="line added" key={i}>
+              +{newLine}
+            </div>
+          )
+        })}
+      </pre>
+    )
+  }
+}
@@ -0,0 +1,214 @@
+import { alignItems } from './align'
+
+/** The media types of notebook outputs which are shown as images */
+const ImageMediaTypes = ['image/png', 'image/jpeg', 'image/gif']
+
+/** Matches ANSI escape sequences, which are common in error tracebacks */
+const AnsiEscapeSequence = /\u001b\[[0-9;]*[A-Za-z]/g
+
+/** An image output of a notebook cell */
+export interface INotebookImage {
+  readonly mediaType: string
+
+  /** The base64 encoded contents of the image */
+  readonly data: string
+}
+
+/** A cell of a Jupyter notebook */
+export interface INotebookCell {
+  /** The id of the cell, only present in notebook format 4.5 and above */
+  readonly id: string | null
+
+  /** The type of cell, i.e. `code` or `markdown` */
+  readonly cellType: string
+
+  readonly source: string
+
+  /** The text of the cell's outputs, i.e. printed text and results */
+  readonly outputText: string
+
+  /** The images among the cell's outputs, i.e. plots */
+  readonly outputImages: ReadonlyArray<INotebookImage>
+}
+
+export enum NotebookCellChangeType {
+  Added = 'Added',
+  Removed = 'Removed',
+  Modified = 'Modified',
+  Unchanged = 'Unchanged',
+}
+
+/** A cell of the old notebook aligned with the cell of the new notebook */
+export interface INotebookCellChange {
+  readonly type: NotebookCellChangeType
+  readonly before: INotebookCell | null
+  readonly after: INotebookCell | null
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null
+}
+
+/** Notebooks store multi-line strings as arrays of lines */
+function joinText(text: unknown): string {
+  if (Array.isArray(text)) {
+    return text.join('')
+  }
+  return typeof text === 'string' ? text : ''
+}
+
+function getOutputText(output: Record<string, any>): string {
+  switch (output.output_type) {
+    case 'stream':
+      return joinText(output.text)
+    case 'error':
+      return Array.isArray(output.traceback)
+        ? output.traceback.join('\n').replace(AnsiEscapeSequence, '')
+        : `${output.ename}: ${output.evalue}`
+    case 'execute_result':
+    case 'display_data': {
+      const data = isObject(output.data) ? output.data : {}
+      if (data['text/plain'] !== undefined) {
+        return joinText(data['text/plain'])
+      }
+
+      const mediaTypes = Object.keys(data).filter(
+        t => !ImageMediaTypes.includes(t)
+      )
+      return mediaTypes.length > 0 ? `[${mediaTypes.join(', ')}]` : ''
+    }
+    default:
+      return ''
+  }
+}
+
+function getOutputImages(output: Record<string, any>) {
+  const images = new Array<INotebookImage>()
+
+  if (isObject(output.data)) {
+    for (const mediaType of ImageMediaTypes) {
+      const data = output.data[mediaType]
+      if (data !== undefined) {
+        images.push({ mediaType, data: joinText(data).replace(/\s/g, '') })
+      }
+    }
+  }
+
+  return images
+}
+
+/**
+ * Parse the cells out of a Jupyter notebook (`.ipynb`) file.
+ *
+ * Throws an error if the file isn't a notebook.
+ */
+export function parseNotebook(text: string): ReadonlyArray<INotebookCell> {
+  const notebook = JSON.parse(text)
+
+  if (!isObject(notebook) || !Array.isArray(notebook.cells)) {
+    throw new Error('The file is not a Jupyter notebook')
+  }
+
+  return notebook.cells.filter(isObject).map(cell => {
+    const outputs: ReadonlyArray<Record<string, any>> = Array.isArray(
+      cell.outputs
+    )
+      ? cell.outputs.filter(isObject)
+      : []
+
+    return {
+      id: typeof cell.id === 'string' ? cell.id : null,
+      cellType: typeof cell.cell_type === 'string' ? cell.cell_type : 'code',
+      source: joinText(cell.source),
+      outputText: outputs
+        .map(getOutputText)
+        .filter(t => t.length > 0)
+        .join('\n'),
+      outputImages: outputs.flatMap(getOutputImages),
+    }
+  })
+}
+
+function cellsEqual(a: INotebookCell, b: INotebookCell) {
+  return (
+    a.cellType === b.cellType &&
+    a.source === b.source &&
+    a.outputText === b.outputText &&
+    a.outputImages.length === b.outputImages.length &&
+    a.outputImages.every((image, i) => image.data === b.outputImages[i].data)
+  )
+}
+
+/**
+ * Compare the cells of two versions of a notebook.
+ *
+ * Cells are matched by their id when all cells have one. Otherwise they're
+ * matched by their source, and removed cells directly followed by added
+ * cells are considered modified.
+ */
+export function getNotebookCellChanges(
+  before: ReadonlyArray<INotebookCell>,
+  after: ReadonlyArray<INotebookCell>
+): ReadonlyArray<INotebookCellChange> {
+  const hasIds = [...before, ...after].every(c => c.id !== null)
+  const aligned = alignItems(before, after, c =>
+    hasIds ? `${c.id}` : `${c.cellType}\n${c.source}`
+  )
+
+  const changes = new Array<INotebookCellChange>()
+  let pendingRemoved = new Array<INotebookCell>()
+
+  const flushRemoved = () => {
+    for (const cell of pendingRemoved) {
+      changes.push({
+        type: NotebookCellChangeType.Removed,
+        before: cell,
+        after: null,
+      })
+    }
+    pendingRemoved = []
+  }
+
+  for (const { before: oldCell, after: newCell } of aligned) {
+    if (oldCell !== null && newCell === null) {
+      pendingRemoved.push(oldCell)
+      continue
+    }
+
+    if (oldCell === null && newCell !== null) {
+      // Cells with different ids are different cells, even if they happen
+      // to be next to each other.
+      if (hasIds) {
+        flushRemoved()
+      }
+      const removedCell = pendingRemoved.shift()
+
+      changes.push(
+        removedCell === undefined
+          ? { type: NotebookCellChangeType.Added, before: null, after: newCell }
+          : {
+              type: NotebookCellChangeType.Modified,
+              before: removedCell,
+              after: newCell,
+            }
+      )
+      continue
+    }
+
+    flushRemoved()
+
+    if (oldCell !== null && newCell !== null) {
+      changes.push({
+        type: cellsEqual(oldCell, newCell)
+          ? NotebookCellChangeType.Unchanged
+          : NotebookCellChangeType.Modified,
+        before: oldCell,
+        after: newCell,
+      })
+    }
+  }
+
+  flushRemoved()
+
+  return changes
+}
@@ -0,0 +1,25 @@
+import * as Path from 'path'
+
+/** The file formats which can be shown as a rendered diff */
+export enum RichDiffFormat {
+  Markdown = 'Markdown',
+  SVG = 'SVG',
+  Notebook = 'Notebook',
+}
+
+const formatsByExtension = new Map<string, RichDiffFormat>([
+  ['.md', RichDiffFormat.Markdown],
+  ['.markdown', RichDiffFormat.Markdown],
+  ['.mdown', RichDiffFormat.Markdown],
+  ['.mkd', RichDiffFormat.Markdown],
+  ['.svg', RichDiffFormat.SVG],
+  ['.ipynb', RichDiffFormat.Notebook],
+])
+
+/**
+ * Get the format to use for showing a rendered diff of the file at the given
+ * path, or null if the file can only be shown as a text diff.
+ */
+export function getRichDiffFormat(path: string): RichDiffFormat | null {
+  return formatsByExtension.get(Path.extname(path).toLowerCase()) ?? null
+}
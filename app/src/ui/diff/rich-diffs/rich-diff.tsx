@@ -0,0 +1,165 @@
+import * as React from 'react'
+
+import { Repository } from '../../../models/repository'
+import {
+  CommittedFileChange,
+  WorkingDirectoryFileChange,
+} from '../../../models/status'
+import { IDiff, ImageDiffType } from '../../../models/diff'
+import { assertNever } from '../../../lib/fatal-error'
+import { shell } from '../../../lib/app-shell'
+import { Button } from '../../lib/button'
+import { Loading } from '../../lib/loading'
+import { decodeText, getFileVersions, IFileVersions } from '../file-versions'
+import { RichDiffFormat } from './rich-diff-format'
+import { MarkdownDiff } from './markdown-diff'
+import { SvgDiff } from './svg-diff'
+import { NotebookDiff } from './notebook-diff'
+
+type ChangedFile = WorkingDirectoryFileChange | CommittedFileChange
+
+interface IRichDiffProps {
+  readonly repository: Repository
+  readonly file: ChangedFile
+  readonly format: RichDiffFormat
+
+  /**
+   * The text diff of the file, used to know when the file has changed since
+   * its contents were loaded
+   */
+  readonly diff: IDiff
+
+  /** The type of image diff to display for SVG images */
+  readonly imageDiffType: ImageDiffType
+
+  /** Called when the user changes the image diff presentation mode */
+  readonly onChangeImageDiffType: (type: ImageDiffType) => void
+
+  /** Map from the emoji shortcut (e.g., :+1:) to the image's local path. */
+  readonly emoji: Map<string, string>
+
+  /** Called when the user wants to see the text diff of the file instead */
+  readonly onShowRawDiff: () => void
+}
+
+interface IRichDiffState {
+  readonly versions: IFileVersions | null
+  readonly error: string | null
+}
+
+/**
+ * A component which renders a preview of the changes to a file which is
+ * better reviewed rendered than as source, such as Markdown documents, SVG
+ * images and Jupyter notebooks.
+ */
+export class RichDiff extends React.Component<IRichDiffProps, IRichDiffState> {
+  public constructor(props: IRichDiffProps) {
+    super(props)
+    this.state = { versions: null, error: null }
+  }
+
+  public componentDidMount() {
+    this.loadFileVersions()
+  }
+
+  public componentDidUpdate(prevProps: IRichDiffProps) {
+    if (
+      prevProps.file.id !== this.props.file.id ||
+      prevProps.diff !== this.props.diff ||
+      prevProps.repository.id !== this.props.repository.id
+    ) {
+      this.setState({ versions: null, error: null })
+      this.loadFileVersions()
+    }
+  }
+
+  private async loadFileVersions() {
+    const { repository, file, diff } = this.props
+
+    try {
+      const versions = await getFileVersions(repository, file)
+
+      if (this.isCurrent(file, diff)) {
+        this.setState({ versions })
+      }
+    } catch (e) {
+      log.error(`Failed loading the contents of ${file.path}`, e)
+
+      if (this.isCurrent(file, diff)) {
+        this.setState({ error: e.message })
+      }
+    }
+  }
+
+  /** Whether the contents loaded for the given props are still current */
+  private isCurrent(file: ChangedFile, diff: IDiff) {
+    return this.props.file.id === file.id && this.props.diff === diff
+  }
+
+  public render() {
+    return (
+      <div className="rich-diff">
+        <div className="rich-diff-header">
+          <span className="title">Rendered {this.props.format}</span>
+          <Button onClick={this.props.onShowRawDiff}>
+            {__DARWIN__ ? 'Show Raw Diff' : 'Show raw diff'}
+          </Button>
+        </div>
+        <div className="rich-diff-content">{this.renderContent()}</div>
+      </div>
+    )
+  }
+
+  private renderContent() {
+    const { versions, error } = this.state
+
+    if (error !== null) {
+      return <div className="panel empty">Could not load the file: {error}</div>
+    }
+
+    if (versions === null) {
+      return (
+        <div className="panel empty">
+          <Loading />
+        </div>
+      )
+    }
+
+    const { oldContents, newContents } = versions
+    const { format } = this.props
+
+    switch (format) {
+      case RichDiffFormat.Markdown:
+        return (
+          <MarkdownDiff
+            before={decodeText(oldContents)}
+            after={decodeText(newContents)}
+            emoji={this.props.emoji}
+            onMarkdownLinkClicked={this.onMarkdownLinkClicked}
+          />
+        )
+      case RichDiffFormat.SVG:
+        return (
+          <SvgDiff
+            oldContents={oldContents}
+            newContents={newContents}
+            imageDiffType={this.props.imageDiffType}
+            onChangeImageDiffType={this.props.onChangeImageDiffType}
+          />
+        )
+      case RichDiffFormat.Notebook:
+        return (
+          <NotebookDiff
+            before={decodeText(oldContents)}
+            after={decodeText(newContents)}
+          />
+        )
+      default:
+        return assertNever(format, `Unknown rich diff format: ${format}`)
+    }
+  }
+
+  private onMarkdownLinkClicked = (url: string) => {
+    shell.openExternal(url)
+  }
+}
@@ -0,0 +1,158 @@
+import * as React from 'react'
+
+import { Image, ImageDiffType } from '../../../models/diff'
+import { Loading } from '../../lib/loading'
+import {
+  DeletedImageDiff,
+  ModifiedImageDiff,
+  NewImageDiff,
+} from '../image-diffs'
+
+/**
+ * The size (in pixels) to rasterize SVG images at when they don't specify
+ * their own size, i.e. when they only have a `viewBox`.
+ */
+const DefaultSvgSize = 512
+
+/**
+ * Rasterize an SVG image into a PNG image so that it can be shown in all of
+ * the image diff modes. The size of the returned image is the size of the SVG
+ * file rather than of the PNG image.
+ */
+async function rasterizeSvg(contents: Buffer): Promise<Image> {
+  const svg = new window.Image()
+  svg.src = `data:image/svg+xml;base64,${contents.toString('base64')}`
+  await svg.decode()
+
+  const canvas = document.createElement('canvas')
+  canvas.width = svg.naturalWidth || DefaultSvgSize
+  canvas.height = svg.naturalHeight || DefaultSvgSize
+
+  const context = canvas.getContext('2d')
+  if (context === null) {
+    throw new Error('Could not create a canvas to draw the SVG image on')
+  }
+
+  context.drawImage(svg, 0, 0, canvas.width, canvas.height)
+
+  const dataUrl = canvas.toDataURL('image/png')
+  const data = dataUrl.substring(dataUrl.indexOf(',') + 1)
+
+  return new Image(data, 'image/png', contents.length)
+}
+
+async function rasterizeSvgOrNull(contents: Buffer | null) {
+  return contents === null ? null : rasterizeSvg(contents)
+}
+
+interface ISvgDiffProps {
+  /** The contents of the old version of the SVG file, null if added */
+  readonly oldContents: Buffer | null
+
+  /** The contents of the new version of the SVG file, null if deleted */
+  readonly newContents: Buffer | null
+
+  /** The type of image diff to display. */
+  readonly imageDiffType: ImageDiffType
+
+  /** Called when the user changes the image diff presentation mode */
+  readonly onChangeImageDiffType: (type: ImageDiffType) => void
+}
+
+interface ISvgDiffState {
+  readonly previous: Image | null
+  readonly current: Image | null
+  readonly isLoading: boolean
+  readonly error: string | null
+}
+
+/** A component which renders the changes to an SVG image as an image diff */
+export class SvgDiff extends React.Component<ISvgDiffProps, ISvgDiffState> {
+  public constructor(props: ISvgDiffProps) {
+    super(props)
+    this.state = { previous: null, current: null, isLoading: true, error: null }
+  }
+
+  public componentDidMount() {
+    this.rasterize()
+  }
+
+  public componentDidUpdate(prevProps: ISvgDiffProps) {
+    if (
+      prevProps.oldContents !== this.props.oldContents ||
+      prevProps.newContents !== this.props.newContents
+    ) {
+      this.rasterize()
+    }
+  }
+
+  private async rasterize() {
+    const { oldContents, newContents } = this.props
+    this.setState({ isLoading: true, error: null })
+
+    try {
+      const [previous, current] = await Promise.all([
+        rasterizeSvgOrNull(oldContents),
+        rasterizeSvgOrNull(newContents),
+      ])
+
+      if (this.isCurrent(oldContents, newContents)) {
+        this.setState({ previous, current, isLoading: false })
+      }
+    } catch (e) {
+      log.error('Failed rasterizing SVG image', e)
+
+      if (this.isCurrent(oldContents, newContents)) {
+        this.setState({
+          isLoading: false,
+          error: 'The image could not be rendered.',
+        })
+      }
+    }
+  }
+
+  /** Whether the images rasterized from the given contents are still current */
+  private isCurrent(oldContents: Buffer | null, newContents: Buffer | null) {
+    return (
+      this.props.oldContents === oldContents &&
+      this.props.newContents === newContents
+    )
+  }
+
+  public render() {
+    const { previous, current, isLoading, error } = this.state
+
+    if (error !== null) {
+      return <div className="panel empty">{error}</div>
+    }
+
+    if (isLoading) {
+      return (
+        <div className="panel empty">
+          <Loading />
+        </div>
+      )
+    }
+
+    if (previous !== null && current !== null) {
+      return (
+        <ModifiedImageDiff
+          previous={previous}
+          current={current}
+          diffType={this.props.imageDiffType}
+          onChangeDiffType={this.props.onChangeImageDiffType}
+        />
+      )
+    }
+
+    if (current !== null) {
+      return <NewImageDiff current={current} />
+    }
+
+    if (previous !== null) {
+      return <DeletedImageDiff previous={previous} />
+    }
+
+    return null
+  }
+}
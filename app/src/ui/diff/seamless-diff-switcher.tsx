@@ -57,6 +57,18 @@ interface ISeamlessDiffSwitcherProps {
   /** Whether we should display side by side diffs. */
   readonly showSideBySideDiff: boolean
 
+  /** Whether long lines wrap instead of overflowing the diff. Defaults to true. */
+  readonly softWrap?: boolean
+
+  /** Whether we should show blame annotations instead of the diff. */
+  readonly showBlame?: boolean
+
+  /**
+   * Called when the user clicks on a commit in the blame annotations in
+   * order to view it in the History tab.
+   */
+  readonly onViewCommitInHistory?: (sha: string) => void
+
   /** Whether we should show a confirmation dialog when the user discards changes */
   readonly askForConfirmationOnDiscardChanges?: boolean
 
@@ -84,8 +96,11 @@ interface ISeamlessDiffSwitcherProps {
     diffSelection: DiffSelection
   ) => void
 
-  /** Called when the user changes the hide whitespace in diffs setting. */
-  readonly onHideWhitespaceInDiffChanged: (checked: boolean) => void
+  /**
+   * Map from the emoji shortcut (e.g., :+1:) to the image's local path, used
+   * when rendering Markdown files.
+   */
+  readonly emoji: Map<string, string>
 }
 
 interface ISeamlessDiffSwitcherState {
@@ -309,13 +324,16 @@ export class SeamlessDiffSwitcher extends React.Component<
       readOnly,
       hideWhitespaceInDiff,
       showSideBySideDiff,
+      softWrap,
+      showBlame,
+      onViewCommitInHistory,
       onIncludeChanged,
       onDiscardChanges,
       file,
       onOpenBinaryFile,
       onOpenSubmodule,
       onChangeImageDiffType,
-      onHideWhitespaceInDiffChanged,
+      emoji,
     } = this.state.propSnapshot
 
     const className = classNames('seamless-diff-switcher', {
@@ -342,6 +360,9 @@ export class SeamlessDiffSwitcher extends React.Component<
             readOnly={readOnly}
             hideWhitespaceInDiff={hideWhitespaceInDiff}
             showSideBySideDiff={showSideBySideDiff}
+            softWrap={softWrap}
+            showBlame={showBlame}
+            onViewCommitInHistory={isLoadingDiff ? noop : onViewCommitInHistory}
             askForConfirmationOnDiscardChanges={
               this.props.askForConfirmationOnDiscardChanges
             }
@@ -350,9 +371,7 @@ export class SeamlessDiffSwitcher extends React.Component<
             onOpenBinaryFile={isLoadingDiff ? noop : onOpenBinaryFile}
             onOpenSubmodule={isLoadingDiff ? noop : onOpenSubmodule}
             onChangeImageDiffType={isLoadingDiff ? noop : onChangeImageDiffType}
-            onHideWhitespaceInDiffChanged={
-              isLoadingDiff ? noop : onHideWhitespaceInDiffChanged
-            }
+            emoji={emoji}
           />
         ) : null}
         {loadingIndicator}
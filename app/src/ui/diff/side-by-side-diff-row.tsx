@@ -14,8 +14,6 @@ import * as OcticonSymbol from '../octicons/octicons.generated'
 import { narrowNoNewlineSymbol } from './text-diff'
 import { shallowEquals, structuralEquals } from '../../lib/equality'
 import { DiffHunkExpansionType } from '../../models/diff'
-import { PopoverAnchorPosition } from '../lib/popover'
-import { WhitespaceHintPopover } from './whitespace-hint-popover'
 import { TooltipDirection } from '../lib/tooltip'
 import { Button } from '../lib/button'
 
@@ -40,9 +38,6 @@ interface ISideBySideDiffRowProps {
    */
   readonly showSideBySideDiff: boolean
 
-  /** Whether or not whitespace changes are hidden. */
-  readonly hideWhitespaceInDiff: boolean
-
   /**
    * The width (in pixels) of the diff gutter.
    */
@@ -133,9 +128,6 @@ interface ISideBySideDiffRowProps {
    */
   readonly beforeClassNames: ReadonlyArray<string>
 
-  /** Called when the user changes the hide whitespace in diffs setting. */
-  readonly onHideWhitespaceInDiffChanged: (checked: boolean) => void
-
   /* This tracks the last expanded hunk index so that we can refocus the expander after rerender */
   readonly lastExpandedHunk: {
     index: number
@@ -143,18 +135,7 @@ interface ISideBySideDiffRowProps {
   } | null
 }
 
-interface ISideBySideDiffRowState {
-  readonly showWhitespaceHint: DiffColumn | undefined
-}
-
-export class SideBySideDiffRow extends React.Component<
-  ISideBySideDiffRowProps,
-  ISideBySideDiffRowState
-> {
-  public constructor(props: ISideBySideDiffRowProps) {
-    super(props)
-    this.state = { showWhitespaceHint: undefined }
-  }
+export class SideBySideDiffRow extends React.Component<ISideBySideDiffRowProps> {
   public render() {
     const { row, showSideBySideDiff, beforeClassNames, afterClassNames } =
       this.props
@@ -205,11 +186,12 @@ export class SideBySideDiffRow extends React.Component<
         )
 
       case DiffRowType.Added: {
-        const { lineNumber, isSelected } = row.data
+        const { lineNumber, isSelected, isMoved } = row.data
+        const rowClasses = classNames('row', 'added', { moved: isMoved })
         if (!showSideBySideDiff) {
           return (
             <div
-              className="row added"
+              className={rowClasses}
               onMouseEnter={this.onMouseEnterLineNumber}
             >
               <div className={afterClasses}>
@@ -220,34 +202,35 @@ export class SideBySideDiffRow extends React.Component<
                 )}
                 {this.renderHunkHandle()}
                 {this.renderContent(row.data)}
-                {this.renderWhitespaceHintPopover(DiffColumn.After)}
               </div>
             </div>
           )
         }
 
         return (
-          <div className="row added" onMouseEnter={this.onMouseEnterLineNumber}>
+          <div
+            className={rowClasses}
+            onMouseEnter={this.onMouseEnterLineNumber}
+          >
             <div className={beforeClasses}>
               {this.renderLineNumber(undefined, DiffColumn.Before)}
               {this.renderContentFromString('')}
-              {this.renderWhitespaceHintPopover(DiffColumn.Before)}
             </div>
             <div className={afterClasses}>
               {this.renderLineNumber(lineNumber, DiffColumn.After, isSelected)}
               {this.renderContent(row.data)}
-              {this.renderWhitespaceHintPopover(DiffColumn.After)}
             </div>
             {this.renderHunkHandle()}
           </div>
         )
       }
       case DiffRowType.Deleted: {
-        const { lineNumber, isSelected } = row.data
+        const { lineNumber, isSelected, isMoved } = row.data
+        const rowClasses = classNames('row', 'deleted', { moved: isMoved })
         if (!showSideBySideDiff) {
           return (
             <div
-              className="row deleted"
+              className={rowClasses}
               onMouseEnter={this.onMouseEnterLineNumber}
             >
               <div className={beforeClasses}>
@@ -258,7 +241,6 @@ export class SideBySideDiffRow extends React.Component<
                 )}
                 {this.renderHunkHandle()}
                 {this.renderContent(row.data)}
-                {this.renderWhitespaceHintPopover(DiffColumn.Before)}
               </div>
             </div>
           )
@@ -266,18 +248,16 @@ export class SideBySideDiffRow extends React.Component<
 
         return (
           <div
-            className="row deleted"
+            className={rowClasses}
             onMouseEnter={this.onMouseEnterLineNumber}
           >
             <div className={beforeClasses}>
               {this.renderLineNumber(lineNumber, DiffColumn.Before, isSelected)}
               {this.renderContent(row.data)}
-              {this.renderWhitespaceHintPopover(DiffColumn.Before)}
             </div>
             <div className={afterClasses}>
               {this.renderLineNumber(undefined, DiffColumn.After)}
               {this.renderContentFromString('')}
-              {this.renderWhitespaceHintPopover(DiffColumn.After)}
             </div>
             {this.renderHunkHandle()}
           </div>
@@ -297,7 +277,6 @@ export class SideBySideDiffRow extends React.Component<
                 before.isSelected
               )}
               {this.renderContent(before)}
-              {this.renderWhitespaceHintPopover(DiffColumn.Before)}
             </div>
             <div
               className={afterClasses}
@@ -309,7 +288,6 @@ export class SideBySideDiffRow extends React.Component<
                 after.isSelected
               )}
               {this.renderContent(after)}
-              {this.renderWhitespaceHintPopover(DiffColumn.After)}
             </div>
             {this.renderHunkHandle()}
           </div>
@@ -318,14 +296,7 @@ export class SideBySideDiffRow extends React.Component<
     }
   }
 
-  public shouldComponentUpdate(
-    nextProps: ISideBySideDiffRowProps,
-    nextState: ISideBySideDiffRowState
-  ) {
-    if (!shallowEquals(this.state, nextState)) {
-      return true
-    }
-
+  public shouldComponentUpdate(nextProps: ISideBySideDiffRowProps) {
     const { row: prevRow, ...restPrevProps } = this.props
     const { row: nextRow, ...restNextProps } = nextProps
 
@@ -556,35 +527,6 @@ export class SideBySideDiffRow extends React.Component<
     )
   }
 
-  private renderWhitespaceHintPopover(column: DiffColumn) {
-    if (this.state.showWhitespaceHint !== column) {
-      return
-    }
-    const elementID = `line-numbers-${this.props.numRow}-${column}`
-    const anchor = document.getElementById(elementID)
-    if (anchor === null) {
-      return
-    }
-
-    const anchorPosition =
-      column === DiffColumn.Before
-        ? PopoverAnchorPosition.LeftTop
-        : PopoverAnchorPosition.RightTop
-
-    return (
-      <WhitespaceHintPopover
-        anchor={anchor}
-        anchorPosition={anchorPosition}
-        onHideWhitespaceInDiffChanged={this.props.onHideWhitespaceInDiffChanged}
-        onDismissed={this.onWhitespaceHintClose}
-      />
-    )
-  }
-
-  private onWhitespaceHintClose = () => {
-    this.setState({ showWhitespaceHint: undefined })
-  }
-
   /**
    * Renders the line number box.
    *
@@ -654,20 +596,11 @@ export class SideBySideDiffRow extends React.Component<
     const data = this.getDiffData(evt.currentTarget)
 
     if (data !== null && column !== null) {
-      if (this.props.hideWhitespaceInDiff) {
-        this.setState({ showWhitespaceHint: column })
-        return
-      }
-
       this.props.onStartSelection(this.props.numRow, column, !data.isSelected)
     }
   }
 
   private onMouseEnterLineNumber = (evt: React.MouseEvent) => {
-    if (this.props.hideWhitespaceInDiff) {
-      return
-    }
-
     const data = this.getDiffData(evt.currentTarget)
     const column = this.getDiffColumn(evt.currentTarget)
 
@@ -694,17 +627,6 @@ export class SideBySideDiffRow extends React.Component<
     }
 
   private onClickHunk = () => {
-    if (this.props.hideWhitespaceInDiff) {
-      const { row } = this.props
-      // Prefer left hand side popovers when clicking hunk except for when
-      // the left hand side doesn't have a gutter
-      const column =
-        row.type === DiffRowType.Added ? DiffColumn.After : DiffColumn.Before
-
-      this.setState({ showWhitespaceHint: column })
-      return
-    }
-
     // Since the hunk handler lies between the previous and the next columns,
     // when clicking on it on modified lines we cannot know if we should
     // use the state of the previous or the next line to know whether we should
@@ -719,10 +641,6 @@ export class SideBySideDiffRow extends React.Component<
   }
 
   private onContextMenuLineNumber = (evt: React.MouseEvent) => {
-    if (this.props.hideWhitespaceInDiff) {
-      return
-    }
-
     const data = this.getDiffData(evt.currentTarget)
     if (data !== null && data.diffLineNumber !== null) {
       this.props.onContextMenuLine(data.diffLineNumber)
@@ -730,10 +648,6 @@ export class SideBySideDiffRow extends React.Component<
   }
 
   private onContextMenuHunk = () => {
-    if (this.props.hideWhitespaceInDiff) {
-      return
-    }
-
     if ('hunkStartLine' in this.props.row) {
       this.props.onContextMenuHunk(this.props.row.hunkStartLine)
     }
@@ -31,6 +31,7 @@ import {
   defaultOverscanIndicesGetter,
 } from 'react-virtualized'
 import { SideBySideDiffRow } from './side-by-side-diff-row'
+import { getMovedLines } from './moved-lines'
 import memoize from 'memoize-one'
 import {
   findInteractiveOriginalDiffRange,
@@ -123,8 +124,8 @@ interface ISideBySideDiffProps {
     diffSelection: DiffSelection
   ) => void
 
-  /** Whether or not whitespace changes are hidden. */
-  readonly hideWhitespaceInDiff: boolean
+  /** Whether long lines wrap instead of overflowing the diff */
+  readonly softWrap: boolean
 
   /**
    * Whether we'll show a confirmation dialog when the user
@@ -136,9 +137,6 @@ interface ISideBySideDiffProps {
    * Whether we'll show the diff in a side-by-side layout.
    */
   readonly showSideBySideDiff: boolean
-
-  /** Called when the user changes the hide whitespace in diffs setting. */
-  readonly onHideWhitespaceInDiffChanged: (checked: boolean) => void
 }
 
 interface ISideBySideDiffState {
@@ -389,6 +387,11 @@ export class SideBySideDiff extends React.Component<
       this.clearListRowsHeightCache()
     }
 
+    if (this.props.softWrap !== prevProps.softWrap) {
+      this.clearListRowsHeightCache()
+      this.virtualListRef.current?.recomputeRowHeights()
+    }
+
     if (!textDiffEquals(this.props.diff, prevProps.diff)) {
       this.diffToRestore = null
       this.setState({ diff: this.props.diff, lastExpandedHunk: null })
@@ -446,6 +449,7 @@ export class SideBySideDiff extends React.Component<
         this.props.showSideBySideDiff &&
         this.state.selectingTextInRow !== undefined,
       editable: canSelect(this.props.file),
+      'no-wrap': !this.props.softWrap,
     })
 
     return (
@@ -484,6 +488,7 @@ export class SideBySideDiff extends React.Component<
                 selectedSearchResult={this.state.selectedSearchResult}
                 searchQuery={this.state.searchQuery}
                 showSideBySideDiff={this.props.showSideBySideDiff}
+                softWrap={this.props.softWrap}
                 beforeTokens={this.state.beforeTokens}
                 afterTokens={this.state.afterTokens}
                 temporarySelection={this.state.temporarySelection}
@@ -571,7 +576,6 @@ export class SideBySideDiff extends React.Component<
             isDiffSelectable={canSelect(this.props.file)}
             isHunkHovered={isHunkHovered}
             showSideBySideDiff={this.props.showSideBySideDiff}
-            hideWhitespaceInDiff={this.props.hideWhitespaceInDiff}
             onStartSelection={this.onStartSelection}
             onUpdateSelection={this.onUpdateSelection}
             onMouseEnterHunk={this.onMouseEnterHunk}
@@ -582,9 +586,6 @@ export class SideBySideDiff extends React.Component<
             onContextMenuHunk={this.onContextMenuHunk}
             onContextMenuExpandHunk={this.onContextMenuExpandHunk}
             onContextMenuText={this.onContextMenuText}
-            onHideWhitespaceInDiffChanged={
-              this.props.onHideWhitespaceInDiffChanged
-            }
             beforeClassNames={beforeClassNames}
             afterClassNames={afterClassNames}
             lastExpandedHunk={this.state.lastExpandedHunk}
@@ -620,7 +621,12 @@ export class SideBySideDiff extends React.Component<
     const lineFilters = getLineFilters(currentDiff.hunks)
     const tabSize = 4
 
-    const tokens = await highlightContents(contents, tabSize, lineFilters)
+    const tokens = await highlightContents(
+      this.props.repository,
+      contents,
+      tabSize,
+      lineFilters
+    )
 
     if (
       !highlightParametersEqual(
@@ -987,17 +993,13 @@ export class SideBySideDiff extends React.Component<
    * @param diffLineNumber the line number the diff where the user clicked
    */
   private onContextMenuLine = (diffLineNumber: number) => {
-    const { file, hideWhitespaceInDiff } = this.props
+    const { file } = this.props
     const { diff } = this.state
 
     if (!canSelect(file)) {
       return
     }
 
-    if (hideWhitespaceInDiff) {
-      return
-    }
-
     if (this.props.onDiscardChanges === undefined) {
       return
     }
@@ -1279,13 +1281,15 @@ const getDiffRows = memoize(function (
   enableDiffExpansion: boolean
 ): ReadonlyArray<SimplifiedDiffRow> {
   const outputRows = new Array<SimplifiedDiffRow>()
+  const movedLines = getMovedLines(diff.hunks)
 
   diff.hunks.forEach((hunk, index) => {
     for (const row of getDiffRowsFromHunk(
       index,
       hunk,
       showSideBySideDiff,
-      enableDiffExpansion
+      enableDiffExpansion,
+      movedLines
     )) {
       outputRows.push(row)
     }
@@ -1304,12 +1308,15 @@ const getDiffRows = memoize(function (
  *
  * @param hunk                The hunk to use to extract the rows data
  * @param showSideBySideDiff  Whether or not show the diff in side by side mode.
+ * @param movedLines          The lines in the diff which are part of a moved
+ *                            block, see `getMovedLines`.
  */
 function getDiffRowsFromHunk(
   hunkIndex: number,
   hunk: DiffHunk,
   showSideBySideDiff: boolean,
-  enableDiffExpansion: boolean
+  enableDiffExpansion: boolean,
+  movedLines: ReadonlySet<DiffLine>
 ): ReadonlyArray<SimplifiedDiffRow> {
   const rows = new Array<SimplifiedDiffRow>()
 
@@ -1330,7 +1337,11 @@ function getDiffRowsFromHunk(
     if (modifiedLines.length > 0) {
       // If the current line is not added/deleted and we have any added/deleted
       // line stored, we need to process them.
-      for (const row of getModifiedRows(modifiedLines, showSideBySideDiff)) {
+      for (const row of getModifiedRows(
+        modifiedLines,
+        showSideBySideDiff,
+        movedLines
+      )) {
         rows.push(row)
       }
       modifiedLines = []
@@ -1374,7 +1385,11 @@ function getDiffRowsFromHunk(
 
   // Do one more pass to process the remaining list of modified lines.
   if (modifiedLines.length > 0) {
-    for (const row of getModifiedRows(modifiedLines, showSideBySideDiff)) {
+    for (const row of getModifiedRows(
+      modifiedLines,
+      showSideBySideDiff,
+      movedLines
+    )) {
       rows.push(row)
     }
   }
@@ -1384,7 +1399,8 @@ function getDiffRowsFromHunk(
 
 function getModifiedRows(
   addedOrDeletedLines: ReadonlyArray<ModifiedLine>,
-  showSideBySideDiff: boolean
+  showSideBySideDiff: boolean,
+  movedLines: ReadonlySet<DiffLine>
 ): ReadonlyArray<SimplifiedDiffRow> {
   if (addedOrDeletedLines.length === 0) {
     return []
@@ -1401,19 +1417,24 @@ function getModifiedRows(
     }
   }
 
-  const output = new Array<SimplifiedDiffRow>()
+  // Moved lines aren't modifications of the lines next to them so we neither
+  // pair them up in modified rows nor highlight the differences in them.
+  const isMoved = (line: ModifiedLine) => movedLines.has(line.line)
+  const pairableAddedLines = addedLines.filter(l => !isMoved(l))
+  const pairableDeletedLines = deletedLines.filter(l => !isMoved(l))
 
-  const diffTokensBefore = new Array<ILineTokens | undefined>()
-  const diffTokensAfter = new Array<ILineTokens | undefined>()
+  const output = new Array<SimplifiedDiffRow>()
+  const diffTokens = new Map<ModifiedLine, ILineTokens>()
 
   // To match the behavior of github.com, we only highlight differences between
   // lines on hunks that have the same number of added and deleted lines.
-  const shouldDisplayDiffInChunk = addedLines.length === deletedLines.length
+  const shouldDisplayDiffInChunk =
+    pairableAddedLines.length === pairableDeletedLines.length
 
   if (shouldDisplayDiffInChunk) {
-    for (let i = 0; i < deletedLines.length; i++) {
-      const addedLine = addedLines[i]
-      const deletedLine = deletedLines[i]
+    for (let i = 0; i < pairableDeletedLines.length; i++) {
+      const addedLine = pairableAddedLines[i]
+      const deletedLine = pairableDeletedLines[i]
 
       if (
         addedLine.line.content.length < MaxIntraLineDiffStringLength &&
@@ -1423,66 +1444,55 @@ function getModifiedRows(
           deletedLine.line.content,
           addedLine.line.content
         )
-        diffTokensBefore[i] = before
-        diffTokensAfter[i] = after
+        diffTokens.set(deletedLine, before)
+        diffTokens.set(addedLine, after)
       }
     }
   }
 
-  let indexModifiedRow = 0
+  const getData = (
+    line: ModifiedLine,
+    lineToUse: 'oldLineNumber' | 'newLineNumber'
+  ) => getDataFromLine(line, lineToUse, diffTokens.get(line), isMoved(line))
 
-  while (
-    showSideBySideDiff &&
-    indexModifiedRow < addedLines.length &&
-    indexModifiedRow < deletedLines.length
-  ) {
-    const addedLine = forceUnwrap(
-      'Unexpected null line',
-      addedLines[indexModifiedRow]
-    )
-    const deletedLine = forceUnwrap(
-      'Unexpected null line',
-      deletedLines[indexModifiedRow]
-    )
+  const modifiedRowCount = showSideBySideDiff
+    ? Math.min(pairableAddedLines.length, pairableDeletedLines.length)
+    : 0
 
+  for (let i = 0; i < modifiedRowCount; i++) {
     // Modified lines
     output.push({
       type: DiffRowType.Modified,
-      beforeData: getDataFromLine(
-        deletedLine,
-        'oldLineNumber',
-        diffTokensBefore.shift()
-      ),
-      afterData: getDataFromLine(
-        addedLine,
-        'newLineNumber',
-        diffTokensAfter.shift()
-      ),
+      beforeData: getData(pairableDeletedLines[i], 'oldLineNumber'),
+      afterData: getData(pairableAddedLines[i], 'newLineNumber'),
       hunkStartLine,
     })
-
-    indexModifiedRow++
   }
 
-  for (let i = indexModifiedRow; i < deletedLines.length; i++) {
-    const line = forceUnwrap('Unexpected null line', deletedLines[i])
+  const pairedLines = new Set([
+    ...pairableDeletedLines.slice(0, modifiedRowCount),
+    ...pairableAddedLines.slice(0, modifiedRowCount),
+  ])
 
-    output.push({
-      type: DiffRowType.Deleted,
-      data: getDataFromLine(line, 'oldLineNumber', diffTokensBefore.shift()),
-      hunkStartLine,
-    })
+  for (const line of deletedLines) {
+    if (!pairedLines.has(line)) {
+      output.push({
+        type: DiffRowType.Deleted,
+        data: getData(line, 'oldLineNumber'),
+        hunkStartLine,
+      })
+    }
   }
 
-  for (let i = indexModifiedRow; i < addedLines.length; i++) {
-    const line = forceUnwrap('Unexpected null line', addedLines[i])
-
-    // Added line
-    output.push({
-      type: DiffRowType.Added,
-      data: getDataFromLine(line, 'newLineNumber', diffTokensAfter.shift()),
-      hunkStartLine,
-    })
+  for (const line of addedLines) {
+    if (!pairedLines.has(line)) {
+      // Added line
+      output.push({
+        type: DiffRowType.Added,
+        data: getData(line, 'newLineNumber'),
+        hunkStartLine,
+      })
+    }
   }
 
   return output
@@ -1491,7 +1501,8 @@ function getModifiedRows(
 function getDataFromLine(
   { line, diffLineNumber }: { line: DiffLine; diffLineNumber: number },
   lineToUse: 'oldLineNumber' | 'newLineNumber',
-  diffTokens: ILineTokens | undefined
+  diffTokens: ILineTokens | undefined,
+  isMoved: boolean
 ): SimplifiedDiffRowData {
   const lineNumber = forceUnwrap(
     `Expecting ${lineToUse} value for ${line}`,
@@ -1510,6 +1521,7 @@ function getDataFromLine(
     diffLineNumber: line.originalLineNumber,
     noNewLineIndicator: line.noTrailingNewLine,
     tokens,
+    isMoved,
   }
 }
 
@@ -0,0 +1,301 @@
+import * as React from 'react'
+import { AutoSizer, List, ListRowProps } from 'react-virtualized'
+
+import { Repository } from '../../models/repository'
+import {
+  CommittedFileChange,
+  WorkingDirectoryFileChange,
+} from '../../models/status'
+import {
+  IKeyPathChange,
+  IPackageChange,
+  KeyPathChangeType,
+  PackageChangeType,
+  StructuredDiff,
+  StructuredDiffKind,
+} from '../../models/structured-diff'
+import { IDiff } from '../../models/diff'
+import { IStructuredDiffProvider } from '../../lib/structured-diff'
+import { assertNever } from '../../lib/fatal-error'
+import { Button } from '../lib/button'
+import { Loading } from '../lib/loading'
+import { Octicon } from '../octicons'
+import * as OcticonSymbol from '../octicons/octicons.generated'
+import { decodeText, getFileVersions } from './file-versions'
+
+/** The height (in pixels) of each change in the structured diff */
+const RowHeight = 24
+
+type ChangedFile = WorkingDirectoryFileChange | CommittedFileChange
+
+interface IStructuredDiffProps {
+  readonly repository: Repository
+  readonly file: ChangedFile
+
+  /**
+   * The text diff of the file, used to know when the file has changed since
+   * the structured diff was computed
+   */
+  readonly diff: IDiff
+
+  /** The provider used to compute the structured diff of the file */
+  readonly provider: IStructuredDiffProvider
+
+  /** Called when the user wants to see the text diff of the file instead */
+  readonly onShowRawDiff: () => void
+}
+
+interface IStructuredDiffState {
+  readonly diff: StructuredDiff | null
+  readonly error: string | null
+}
+
+function formatVersions(versions: ReadonlyArray<string>) {
+  return versions.length === 0 ? '—' : versions.join(', ')
+}
+
+function getKeyPathChangeIcon(type: KeyPathChangeType) {
+  switch (type) {
+    case KeyPathChangeType.Added:
+      return OcticonSymbol.diffAdded
+    case KeyPathChangeType.Removed:
+      return OcticonSymbol.diffRemoved
+    case KeyPathChangeType.Modified:
+      return OcticonSymbol.diffModified
+    default:
+      return assertNever(type, `Unknown key path change type: ${type}`)
+  }
+}
+
+function getPackageChangeIcon(type: PackageChangeType) {
+  switch (type) {
+    case PackageChangeType.Added:
+      return OcticonSymbol.diffAdded
+    case PackageChangeType.Removed:
+      return OcticonSymbol.diffRemoved
+    case PackageChangeType.Upgraded:
+      return OcticonSymbol.arrowUp
+    case PackageChangeType.Downgraded:
+      return OcticonSymbol.arrowDown
+    case PackageChangeType.Changed:
+      return OcticonSymbol.diffModified
+    default:
+      return assertNever(type, `Unknown package change type: ${type}`)
+  }
+}
+
+/** Get a summary of the changes, i.e. "3 added, 1 upgraded" */
+function getSummary(diff: StructuredDiff) {
+  const counts = new Map<string, number>()
+
+  for (const { type } of diff.changes) {
+    counts.set(type, (counts.get(type) ?? 0) + 1)
+  }
+
+  return [...counts]
+    .map(([type, count]) => `${count} ${type.toLowerCase()}`)
+    .join(', ')
+}
+
+/**
+ * A component which renders the changes to a structured file, such as the
+ * values changed in a JSON or YAML document or the packages changed in a
+ * lockfile, instead of the changed lines.
+ */
+export class StructuredDiffView extends React.Component<
+  IStructuredDiffProps,
+  IStructuredDiffState
+> {
+  public constructor(props: IStructuredDiffProps) {
+    super(props)
+    this.state = { diff: null, error: null }
+  }
+
+  public componentDidMount() {
+    this.loadDiff()
+  }
+
+  public componentDidUpdate(prevProps: IStructuredDiffProps) {
+    if (
+      prevProps.file.id !== this.props.file.id ||
+      prevProps.diff !== this.props.diff ||
+      prevProps.repository.id !== this.props.repository.id
+    ) {
+      this.setState({ diff: null, error: null })
+      this.loadDiff()
+    }
+  }
+
+  private async loadDiff() {
+    const { repository, file, diff: textDiff, provider } = this.props
+
+    try {
+      const { oldContents, newContents } = await getFileVersions(
+        repository,
+        file
+      )
+      const diff = provider.getDiff(
+        decodeText(oldContents),
+        decodeText(newContents)
+      )
+
+      if (this.isCurrent(file, textDiff)) {
+        this.setState({ diff })
+      }
+    } catch (e) {
+      log.error(`Failed computing structured diff for ${file.path}`, e)
+
+      if (this.isCurrent(file, textDiff)) {
+        this.setState({ error: e.message })
+      }
+    }
+  }
+
+  /** Whether the diff loaded for the given props is still the one to show */
+  private isCurrent(file: ChangedFile, diff: IDiff) {
+    return this.props.file.id === file.id && this.props.diff === diff
+  }
+
+  public render() {
+    const { diff, error } = this.state
+
+    if (error !== null) {
+      return (
+        <div className="panel empty structured-diff-message">
+          <p>
+            The file couldn't be shown as a {this.props.provider.name} diff:{' '}
+            {error}
+          </p>
+          {this.renderShowRawDiffButton()}
+        </div>
+      )
+    }
+
+    if (diff === null) {
+      return (
+        <div className="panel empty">
+          <Loading />
+        </div>
+      )
+    }
+
+    if (diff.changes.length === 0) {
+      return (
+        <div className="panel empty structured-diff-message">
+          <p>
+            No {diff.kind === StructuredDiffKind.Lockfile ? 'package' : 'value'}{' '}
+            changes found, only the formatting of the file changed.
+          </p>
+          {this.renderShowRawDiffButton()}
+        </div>
+      )
+    }
+
+    return (
+      <div className="structured-diff">
+        <div className="structured-diff-header">
+          <span className="summary">
+            {this.props.provider.name}: {getSummary(diff)}
+          </span>
+          {this.renderShowRawDiffButton()}
+        </div>
+        <div className="structured-diff-changes">
+          <AutoSizer>
+            {({ height, width }) => (
+              <List
+                width={width}
+                height={height}
+                rowCount={diff.changes.length}
+                rowHeight={RowHeight}
+                rowRenderer={this.renderRow}
+                // Passed to make sure the list re-renders when the diff changes
+                diff={diff}
+              />
+            )}
+          </AutoSizer>
+        </div>
+      </div>
+    )
+  }
+
+  private renderShowRawDiffButton() {
+    return (
+      <Button onClick={this.props.onShowRawDiff}>
+        {__DARWIN__ ? 'Show Raw Diff' : 'Show raw diff'}
+      </Button>
+    )
+  }
+
+  private renderRow = ({ index, key, style }: ListRowProps) => {
+    const { diff } = this.state
+    if (diff === null) {
+      return null
+    }
+
+    switch (diff.kind) {
+      case StructuredDiffKind.KeyPaths:
+        return this.renderKeyPathChange(diff.changes[index], key, style)
+      case StructuredDiffKind.Lockfile:
+        return this.renderPackageChange(diff.changes[index], key, style)
+      default:
+        return assertNever(diff, `Unknown structured diff kind: ${diff}`)
+    }
+  }
+
+  private renderKeyPathChange(
+    change: IKeyPathChange,
+    key: string,
+    style: React.CSSProperties
+  ) {
+    const { type, path, oldValue, newValue } = change
+
+    return (
+      <div
+        className={`structured-diff-row ${type.toLowerCase()}`}
+        key={key}
+        style={style}
+      >
+        <Octicon className="change-icon" symbol={getKeyPathChangeIcon(type)} />
+        <span className="key-path" title={path}>
+          {path.length > 0 ? path : '(root)'}
+        </span>
+        <span className="old-value" title={oldValue ?? undefined}>
+          {oldValue}
+        </span>
+        <span className="new-value" title={newValue ?? undefined}>
+          {newValue}
+        </span>
+      </div>
+    )
+  }
+
+  private renderPackageChange(
+    change: IPackageChange,
+    key: string,
+    style: React.CSSProperties
+  ) {
+    const { type, name, oldVersions, newVersions } = change
+    const oldText = formatVersions(oldVersions)
+    const newText = formatVersions(newVersions)
+
+    return (
+      <div
+        className={`structured-diff-row ${type.toLowerCase()}`}
+        key={key}
+        style={style}
+      >
+        <Octicon className="change-icon" symbol={getPackageChangeIcon(type)} />
+        <span className="package-name" title={name}>
+          {name}
+        </span>
+        <span className="change-type">{type}</span>
+        <span className="old-value" title={oldText}>
+          {oldText}
+        </span>
+        <span className="new-value" title={newText}>
+          {newText}
+        </span>
+      </div>
+    )
+  }
+}
@@ -1,8 +1,11 @@
 import * as Path from 'path'
+import { stat } from 'fs/promises'
+import QuickLRU from 'quick-lru'
 
 import { assertNever } from '../../../lib/fatal-error'
 
 import { getPartialBlobContents } from '../../../lib/git/show'
+import { getLinguistLanguage } from '../../../lib/git/check-attr'
 import { readPartialFile } from '../../../lib/file-system'
 import { highlight } from '../../../lib/highlighter/worker'
 import { ITokens } from '../../../lib/highlighter/types'
@@ -179,7 +182,65 @@ export function getLineFilters(hunks: ReadonlyArray<DiffHunk>): ILineFilters {
   return { oldLineFilter, newLineFilter }
 }
 
+/**
+ * The languages set for files with `linguist-language` attributes, keyed by
+ * repository, file path and the version of the `.gitattributes` files which
+ * apply to it, so that highlighting the same file again (i.e. after each
+ * change to it) doesn't have to run `git check-attr`.
+ */
+const languageOverrides = new QuickLRU<string, Promise<string | null>>({
+  maxSize: 500,
+})
+
+/**
+ * Get the language set for the file with a `linguist-language` attribute,
+ * ignoring any errors since highlighting can fall back to detecting the
+ * language from the path.
+ */
+async function getLanguageOverride(repository: Repository, path: string) {
+  const version = await getAttributesVersion(repository, path)
+  const key = `${repository.path}\0${path}\0${version}`
+  const cached = languageOverrides.get(key)
+
+  if (cached !== undefined) {
+    return cached
+  }
+
+  const language = getLinguistLanguage(repository, path).catch(e => {
+    log.error(`Failed reading linguist-language attribute for ${path}`, e)
+    return null
+  })
+
+  languageOverrides.set(key, language)
+  return language
+}
+
+/**
+ * Get a string identifying the versions of the `.gitattributes` files which
+ * apply to a file, i.e. the ones in the repository root and in the file's
+ * parent directories, by their modification times.
+ */
+async function getAttributesVersion(repository: Repository, path: string) {
+  const segments = path.split('/').slice(0, -1)
+  const directories = [
+    '',
+    ...segments.map((_, i) => segments.slice(0, i + 1).join('/')),
+  ]
+
+  const modifiedTimes = await Promise.all(
+    directories.map(directory =>
+      stat(Path.join(repository.path, directory, '.gitattributes')).then(
+        stats => stats.mtimeMs,
+        () => null
+      )
+    )
+  )
+
+  return modifiedTimes.join(':')
+}
+
 export async function highlightContents(
+  repository: Repository,
   contents: IFileContents,
   tabSize: number,
   lineFilters: ILineFilters
@@ -188,6 +249,12 @@ export async function highlightContents(
 
   const oldPath = getOldPathOrDefault(file)
 
+  const oldLanguage = await getLanguageOverride(repository, oldPath)
+  const newLanguage =
+    oldPath === file.path
+      ? oldLanguage
+      : await getLanguageOverride(repository, file.path)
+
   const [oldTokens, newTokens] = await Promise.all([
     oldContents === null
       ? {}
@@ -196,7 +263,8 @@ export async function highlightContents(
           Path.basename(oldPath),
           Path.extname(oldPath),
           tabSize,
-          lineFilters.oldLineFilter
+          lineFilters.oldLineFilter,
+          oldLanguage
         ).catch(e => {
           log.error('Highlighter worked failed for old contents', e)
           return {}
@@ -208,7 +276,8 @@ export async function highlightContents(
           Path.basename(file.path),
           Path.extname(file.path),
           tabSize,
-          lineFilters.newLineFilter
+          lineFilters.newLineFilter,
+          newLanguage
         ).catch(e => {
           log.error('Highlighter worked failed for new contents', e)
           return {}
@@ -1,5 +1,4 @@
 import * as React from 'react'
-import ReactDOM from 'react-dom'
 import { clipboard } from 'electron'
 import { Editor, Doc, EditorConfiguration } from 'codemirror'
 
@@ -32,7 +31,8 @@ import {
   highlightContents,
   IFileContents,
 } from './syntax-highlighting'
-import { relativeChanges } from './changed-range'
+import { getWordDiffRanges, IRange } from './word-diff'
+import { getMovedLines } from './moved-lines'
 import { Repository } from '../../models/repository'
 import memoizeOne from 'memoize-one'
 import { structuralEquals } from '../../lib/equality'
@@ -55,8 +55,6 @@ import {
 } from './text-diff-expansion'
 import { createOcticonElement } from '../octicons/octicon'
 import * as OcticonSymbol from '../octicons/octicons.generated'
-import { WhitespaceHintPopover } from './whitespace-hint-popover'
-import { PopoverAnchorPosition } from '../lib/popover'
 import { HiddenBidiCharsWarning } from './hidden-bidi-chars-warning'
 
 // This is a custom version of the no-newline octicon that's exactly as
@@ -162,7 +160,8 @@ interface ITextDiffProps {
    */
   readonly onIncludeChanged?: (diffSelection: DiffSelection) => void
 
-  readonly hideWhitespaceInDiff: boolean
+  /** Whether long lines wrap instead of overflowing the diff */
+  readonly softWrap: boolean
 
   /**
    * Called when the user wants to discard a selection of the diff.
@@ -177,9 +176,6 @@ interface ITextDiffProps {
    * discards changes.
    */
   readonly askForConfirmationOnDiscardChanges?: boolean
-
-  /** Called when the user changes the hide whitespace in diffs setting. */
-  readonly onHideWhitespaceInDiffChanged: (checked: boolean) => void
 }
 
 interface ITextDiffState {
@@ -288,8 +284,13 @@ const defaultEditorOptions: EditorConfiguration = {
 
 export class TextDiff extends React.Component<ITextDiffProps, ITextDiffState> {
   private codeMirror: Editor | null = null
-  private whitespaceHintMountId: number | null = null
-  private whitespaceHintContainer: Element | null = null
+
+  private getEditorOptions = memoizeOne(
+    (softWrap: boolean): EditorConfiguration => ({
+      ...defaultEditorOptions,
+      lineWrapping: softWrap,
+    })
+  )
 
   private getCodeMirrorDocument = memoizeOne(
     (text: string, noNewlineIndicatorLines: ReadonlyArray<number>) => {
@@ -333,6 +334,15 @@ export class TextDiff extends React.Component<ITextDiffProps, ITextDiffState> {
     structuralEquals
   )
 
+  /**
+   * Returns the lines in the diff which are part of a moved block of code.
+   * Memoized since it's used both when marking up the document and when
+   * rendering gutter markers.
+   */
+  private getMovedLines = memoizeOne((hunks: ReadonlyArray<DiffHunk>) =>
+    getMovedLines(hunks)
+  )
+
   /**
    * Returns an array of line numbers that should be marked as lacking a
    * new line. Memoized such that even if `hunks` changes we don't have
@@ -409,7 +419,12 @@ export class TextDiff extends React.Component<ITextDiffProps, ITextDiffState> {
     const tsOpt = this.codeMirror.getOption('tabSize')
     const tabSize = typeof tsOpt === 'number' ? tsOpt : 4
 
-    const tokens = await highlightContents(contents, tabSize, lineFilters)
+    const tokens = await highlightContents(
+      this.props.repository,
+      contents,
+      tabSize,
+      lineFilters
+    )
 
     if (
       !highlightParametersEqual(
@@ -454,13 +469,6 @@ export class TextDiff extends React.Component<ITextDiffProps, ITextDiffState> {
 
     const isSelected = !file.selection.isSelected(indexInOriginalDiff)
 
-    if (this.props.hideWhitespaceInDiff) {
-      if (file.selection.isSelectable(indexInOriginalDiff)) {
-        this.mountWhitespaceHint(index)
-      }
-      return
-    }
-
     if (kind === 'hunk') {
       const range = findInteractiveOriginalDiffRange(hunks, index)
       if (!range) {
@@ -748,7 +756,6 @@ export class TextDiff extends React.Component<ITextDiffProps, ITextDiffState> {
         {
           label: this.getDiscardLabel(range.type, range.to - range.from + 1),
           action: () => this.onDiscardChanges(file, range.from, range.to),
-          enabled: !this.props.hideWhitespaceInDiff,
         },
       ]
     }
@@ -764,9 +771,7 @@ export class TextDiff extends React.Component<ITextDiffProps, ITextDiffState> {
         {
           label: this.getDiscardLabel(range.type, 1),
           action: () => this.onDiscardChanges(file, lineNumber),
-          enabled:
-            range.type !== DiffRangeType.Mixed &&
-            !this.props.hideWhitespaceInDiff,
+          enabled: range.type !== DiffRangeType.Mixed,
         },
       ]
     }
@@ -875,9 +880,14 @@ export class TextDiff extends React.Component<ITextDiffProps, ITextDiffState> {
   }
 
   private markIntraLineChanges(doc: Doc, hunks: ReadonlyArray<DiffHunk>) {
+    const movedLines = this.getMovedLines(hunks)
+
     for (const hunk of hunks) {
-      const additions = hunk.lines.filter(l => l.type === DiffLineType.Add)
-      const deletions = hunk.lines.filter(l => l.type === DiffLineType.Delete)
+      // Moved lines aren't modifications of the lines next to them so we
+      // don't pair them up with anything.
+      const changedLines = hunk.lines.filter(l => !movedLines.has(l))
+      const additions = changedLines.filter(l => l.type === DiffLineType.Add)
+      const deletions = changedLines.filter(l => l.type === DiffLineType.Delete)
       if (additions.length !== deletions.length) {
         continue
       }
@@ -892,43 +902,43 @@ export class TextDiff extends React.Component<ITextDiffProps, ITextDiffState> {
           continue
         }
 
-        const changeRanges = relativeChanges(
-          addLine.content,
-          deleteLine.content
+        const changeRanges = getWordDiffRanges(
+          deleteLine.content,
+          addLine.content
         )
-        const addRange = changeRanges.stringARange
-        if (addRange.length > 0) {
-          const addLineNumber = lineNumberForDiffLine(addLine, hunks)
-          if (addLineNumber > -1) {
-            const addFrom = {
-              line: addLineNumber,
-              ch: addRange.location + 1,
-            }
-            const addTo = {
-              line: addLineNumber,
-              ch: addRange.location + addRange.length + 1,
-            }
-            doc.markText(addFrom, addTo, { className: 'cm-diff-add-inner' })
-          }
-        }
 
-        const deleteRange = changeRanges.stringBRange
-        if (deleteRange.length > 0) {
-          const deleteLineNumber = lineNumberForDiffLine(deleteLine, hunks)
-          if (deleteLineNumber > -1) {
-            const deleteFrom = {
-              line: deleteLineNumber,
-              ch: deleteRange.location + 1,
-            }
-            const deleteTo = {
-              line: deleteLineNumber,
-              ch: deleteRange.location + deleteRange.length + 1,
-            }
-            doc.markText(deleteFrom, deleteTo, {
-              className: 'cm-diff-delete-inner',
-            })
-          }
-        }
+        this.markRanges(doc, hunks, addLine, changeRanges.after, 'add')
+        this.markRanges(doc, hunks, deleteLine, changeRanges.before, 'delete')
+      }
+    }
+  }
+
+  private markRanges(
+    doc: Doc,
+    hunks: ReadonlyArray<DiffHunk>,
+    line: DiffLine,
+    ranges: ReadonlyArray<IRange>,
+    kind: 'add' | 'delete'
+  ) {
+    const lineNumber = lineNumberForDiffLine(line, hunks)
+    if (lineNumber === -1) {
+      return
+    }
+
+    for (const range of ranges) {
+      // The ranges are relative to the content of the line, skip past the
+      // diff marker.
+      const from = { line: lineNumber, ch: range.location + 1 }
+      const to = { line: lineNumber, ch: range.location + range.length + 1 }
+      doc.markText(from, to, { className: `cm-diff-${kind}-inner` })
+    }
+  }
+
+  private markMovedLines(cm: Editor, hunks: ReadonlyArray<DiffHunk>) {
+    for (const line of this.getMovedLines(hunks)) {
+      const lineNumber = lineNumberForDiffLine(line, hunks)
+      if (lineNumber > -1) {
+        cm.addLineClass(lineNumber, 'background', 'diff-moved')
       }
     }
   }
@@ -937,6 +947,7 @@ export class TextDiff extends React.Component<ITextDiffProps, ITextDiffState> {
     this.swappedDocumentHasUpdatedViewport = false
     this.initDiffSyntaxMode()
     this.markIntraLineChanges(cm.getDoc(), this.state.diff.hunks)
+    this.markMovedLines(cm, this.state.diff.hunks)
   }
 
   /**
@@ -1063,6 +1074,7 @@ export class TextDiff extends React.Component<ITextDiffProps, ITextDiffState> {
       'diff-delete': diffLine.type === DiffLineType.Delete,
       'diff-context': diffLine.type === DiffLineType.Context,
       'diff-hunk': diffLine.type === DiffLineType.Hunk,
+      'diff-moved': this.getMovedLines(this.state.diff.hunks).has(diffLine),
       'read-only': this.props.readOnly,
       'diff-line-selected': isIncluded,
       'diff-line-hover': hover,
@@ -1405,74 +1417,10 @@ export class TextDiff extends React.Component<ITextDiffProps, ITextDiffState> {
 
   public componentWillUnmount() {
     this.cancelSelection()
-    this.unmountWhitespaceHint()
     this.codeMirror = null
     document.removeEventListener('find-text', this.onFindText)
   }
 
-  private mountWhitespaceHint(index: number) {
-    this.unmountWhitespaceHint()
-
-    // Since we're in a bit of a weird state here where CodeMirror is mounted
-    // through React and we're in turn mounting a React component from a
-    // DOM event we want to make sure we're not mounting the Popover
-    // synchronously. Doing so will cause the popover to receiving the bubbling
-    // mousedown event (on document) which caused it to be mounted in the first
-    // place and it will then close itself thinking that it's seen a mousedown
-    // event outside of its container.
-    this.whitespaceHintMountId = requestAnimationFrame(() => {
-      this.whitespaceHintMountId = null
-      const cm = this.codeMirror
-
-      if (cm === null) {
-        return
-      }
-
-      const container = document.createElement('div')
-      container.style.position = 'absolute'
-      const scroller = cm.getScrollerElement()
-
-      const lineY = cm.heightAtLine(index, 'local')
-
-      // Offset down by 10px to align the popover arrow.
-      container.style.top = `${lineY - 10}px`
-
-      scroller.appendChild(container)
-      this.whitespaceHintContainer = container
-
-      ReactDOM.render(
-        <WhitespaceHintPopover
-          anchor={document.getElementById(this.getGutterLineID(index))}
-          anchorPosition={PopoverAnchorPosition.RightTop}
-          onDismissed={this.unmountWhitespaceHint}
-          onHideWhitespaceInDiffChanged={
-            this.props.onHideWhitespaceInDiffChanged
-          }
-        />,
-        container
-      )
-    })
-  }
-
-  private unmountWhitespaceHint = () => {
-    if (this.whitespaceHintMountId !== null) {
-      cancelAnimationFrame(this.whitespaceHintMountId)
-      this.whitespaceHintMountId = null
-    }
-
-    // Note that unmountComponentAtNode may cause a reentrant call to this
-    // method by means of the Popover onDismissed callback. This is why we can't
-    // trust that whitespaceHintContainer remains non-null after this.
-    if (this.whitespaceHintContainer !== null) {
-      ReactDOM.unmountComponentAtNode(this.whitespaceHintContainer)
-    }
-
-    if (this.whitespaceHintContainer !== null) {
-      this.whitespaceHintContainer.remove()
-      this.whitespaceHintContainer = null
-    }
-  }
-
   // eslint-disable-next-line react-proper-lifecycle-methods
   public componentDidUpdate(
     prevProps: ITextDiffProps,
@@ -1487,6 +1435,11 @@ export class TextDiff extends React.Component<ITextDiffProps, ITextDiffState> {
       this.initDiffSyntaxMode()
     }
 
+    // The editor is only configured with the options when it's created
+    if (this.props.softWrap !== prevProps.softWrap) {
+      this.codeMirror.setOption('lineWrapping', this.props.softWrap)
+    }
+
     const isSameDiff = textDiffEquals(this.props.diff, prevProps.diff)
 
     if (canSelect(this.props.file)) {
@@ -1562,7 +1515,7 @@ export class TextDiff extends React.Component<ITextDiffProps, ITextDiffState> {
         <CodeMirrorHost
           className="diff-code-mirror"
           value={doc}
-          options={defaultEditorOptions}
+          options={this.getEditorOptions(this.props.softWrap)}
           isSelectionEnabled={this.isSelectionEnabled}
           onSwapDoc={this.onSwapDoc}
           onAfterSwapDoc={this.onAfterSwapDoc}
@@ -0,0 +1,181 @@
+export interface IRange {
+  /** The starting location for the range. */
+  readonly location: number
+
+  /** The length of the range. */
+  readonly length: number
+}
+
+/**
+ * The maximum number of cells in the table used to find the longest common
+ * subsequence of tokens. Lines with more tokens than that, after removing the
+ * common prefix and suffix, are considered to be changed as a whole.
+ */
+const MaxTableSize = 1000000
+
+/**
+ * Split a line into the tokens which are compared in a word diff, i.e. runs
+ * of word characters, runs of whitespace and individual punctuation
+ * characters.
+ */
+export function tokenizeForWordDiff(line: string): ReadonlyArray<string> {
+  return line.match(/\w+|\s+|[^\w\s]/g) ?? []
+}
+
+/** Get the number of leading tokens the two token lists have in common. */
+function commonPrefixLength(
+  a: ReadonlyArray<string>,
+  b: ReadonlyArray<string>
+) {
+  const max = Math.min(a.length, b.length)
+  let length = 0
+
+  while (length < max && a[length] === b[length]) {
+    length++
+  }
+
+  return length
+}
+
+/** Get the number of trailing tokens the two token lists have in common. */
+function commonSuffixLength(
+  a: ReadonlyArray<string>,
+  b: ReadonlyArray<string>,
+  prefixLength: number
+) {
+  const max = Math.min(a.length, b.length) - prefixLength
+  let length = 0
+
+  while (
+    length < max &&
+    a[a.length - 1 - length] === b[b.length - 1 - length]
+  ) {
+    length++
+  }
+
+  return length
+}
+
+/**
+ * Find the longest common subsequence of the two token lists and return,
+ * for each list, whether the token at a given index is part of it.
+ *
+ * Lists too long to compare are considered to have nothing in common.
+ */
+export function longestCommonSubsequence(
+  a: ReadonlyArray<string>,
+  b: ReadonlyArray<string>
+): { inA: ReadonlyArray<boolean>; inB: ReadonlyArray<boolean> } {
+  const inA = new Array<boolean>(a.length).fill(false)
+  const inB = new Array<boolean>(b.length).fill(false)
+
+  if (a.length === 0 || b.length === 0 || a.length * b.length > MaxTableSize) {
+    return { inA, inB }
+  }
+
+  // lengths[i * width + j] is the length of the longest common subsequence of
+  // a[i..] and b[j..]
+  const width = b.length + 1
+  const lengths = new Uint32Array((a.length + 1) * width)
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] =
+        a[i] === b[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1])
+    }
+  }
+
+  let i = 0
+  let j = 0
+
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      inA[i++] = true
+      inB[j++] = true
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      i++
+    } else {
+      j++
+    }
+  }
+
+  return { inA, inB }
+}
+
+/**
+ * Turn the tokens which aren't common to both versions of a line into ranges
+ * of characters. Changed tokens separated only by whitespace are merged into a
+ * single range to keep the highlighting calm.
+ */
+function getChangedRanges(
+  line: string,
+  tokens: ReadonlyArray<string>,
+  isCommon: ReadonlyArray<boolean>
+): ReadonlyArray<IRange> {
+  const ranges = new Array<IRange>()
+  let location = 0
+
+  for (const [i, token] of tokens.entries()) {
+    if (!isCommon[i]) {
+      const last = ranges[ranges.length - 1]
+      const lastEnd = last === undefined ? -1 : last.location + last.length
+
+      if (
+        last !== undefined &&
+        /^\s*$/.test(line.substring(lastEnd, location))
+      ) {
+        ranges[ranges.length - 1] = {
+          location: last.location,
+          length: location + token.length - last.location,
+        }
+      } else {
+        ranges.push({ location, length: token.length })
+      }
+    }
+
+    location += token.length
+  }
+
+  return ranges
+}
+
+/**
+ * Get the ranges of characters which differ between two versions of a line,
+ * based on a diff of the words, whitespace and punctuation in them rather
+ * than just their common prefix and suffix.
+ *
+ * @param before The old version of the line
+ * @param after  The new version of the line
+ */
+export function getWordDiffRanges(
+  before: string,
+  after: string
+): { before: ReadonlyArray<IRange>; after: ReadonlyArray<IRange> } {
+  const beforeTokens = tokenizeForWordDiff(before)
+  const afterTokens = tokenizeForWordDiff(after)
+
+  const prefixLength = commonPrefixLength(beforeTokens, afterTokens)
+  const suffixLength = commonSuffixLength(
+    beforeTokens,
+    afterTokens,
+    prefixLength
+  )
+
+  const { inA, inB } = longestCommonSubsequence(
+    beforeTokens.slice(prefixLength, beforeTokens.length - suffixLength),
+    afterTokens.slice(prefixLength, afterTokens.length - suffixLength)
+  )
+
+  const withCommonEnds = (middle: ReadonlyArray<boolean>) => [
+    ...new Array<boolean>(prefixLength).fill(true),
+    ...middle,
+    ...new Array<boolean>(suffixLength).fill(true),
+  ]
+
+  return {
+    before: getChangedRanges(before, beforeTokens, withCommonEnds(inA)),
+    after: getChangedRanges(after, afterTokens, withCommonEnds(inB)),
+  }
+}
@@ -6,6 +6,7 @@ import {
   IAPIFullRepository,
   IAPICheckSuite,
   IAPIRepoRuleset,
+  IAPIRelease,
 } from '../../lib/api'
 import { shell } from '../../lib/app-shell'
 import {
@@ -63,8 +64,17 @@ import { BranchesTab } from '../../models/branches-tab'
 import { CloneRepositoryTab } from '../../models/clone-repository-tab'
 import { CloningRepository } from '../../models/cloning-repository'
 import { Commit, ICommitContext, CommitOneLine } from '../../models/commit'
-import { ICommitMessage } from '../../models/commit-message'
-import { DiffSelection, ImageDiffType, ITextDiff } from '../../models/diff'
+import { IInteractiveRebaseStep } from '../../models/interactive-rebase'
+import {
+  DefaultCommitMessage,
+  ICommitMessage,
+} from '../../models/commit-message'
+import {
+  DiffSelection,
+  IDiffSettings,
+  ImageDiffType,
+  ITextDiff,
+} from '../../models/diff'
 import { FetchType } from '../../models/fetch'
 import { GitHubRepository } from '../../models/github-repository'
 import { ManualConflictResolution } from '../../models/manual-conflict-resolution'
@@ -105,6 +115,7 @@ import {
 import { MergeTreeResult } from '../../models/merge'
 import { UncommittedChangesStrategy } from '../../models/uncommitted-changes-strategy'
 import { IStashEntry } from '../../models/stash-entry'
+import { IReflogEntry } from '../../models/reflog'
 import { WorkflowPreferences } from '../../models/workflow-preferences'
 import { resolveWithin } from '../../lib/path'
 import { CherryPickResult } from '../../lib/git/cherry-pick'
@@ -123,6 +134,9 @@ import { getMultiCommitOperationChooseBranchStep } from '../../lib/multi-commit-
 import { ICombinedRefCheck, IRefCheck } from '../../lib/ci-checks/ci-checks'
 import { ValidNotificationPullRequestReviewState } from '../../lib/valid-notification-pull-request-review'
 import { UnreachableCommitsTab } from '../history/unreachable-commits-dialog'
+import { BisectMark } from '../../models/bisect'
+import { IHistoryFilter } from '../../models/history-filter'
+import { CloneOptions } from '../../models/clone-options'
 
 /**
  * An error handler function.
@@ -215,11 +229,33 @@ export class Dispatcher {
     return this.appStore._updateRepositoryMissing(repository, missing)
   }
 
+  /**
+   * Verify the signatures of the given commits, i.e. the ones shown in the
+   * history, unless they've already been verified.
+   */
+  public verifyCommitSignatures(
+    repository: Repository,
+    shas: ReadonlyArray<string>
+  ) {
+    return this.appStore._verifyCommitSignatures(repository, shas)
+  }
+
   /** Load the next batch of history for the repository. */
   public loadNextCommitBatch(repository: Repository): Promise<void> {
     return this.appStore._loadNextCommitBatch(repository)
   }
 
+  /**
+   * Search the history for commits matching the given filters, or go back to
+   * showing the full history when there are no filters.
+   */
+  public searchHistory(
+    repository: Repository,
+    filters: ReadonlyArray<IHistoryFilter>
+  ): Promise<void> {
+    return this.appStore._searchHistory(repository, filters)
+  }
+
   /** Load the changed files for the current history selection. */
   public loadChangedFilesForCurrentSelection(
     repository: Repository
@@ -244,6 +280,17 @@ export class Dispatcher {
     return this.appStore._changeCommitSelection(repository, shas, isContiguous)
   }
 
+  /**
+   * Switch to the History tab and select the given commit, loading more
+   * history if the commit isn't part of the commits loaded so far.
+   */
+  public selectCommitInHistory(
+    repository: Repository,
+    sha: string
+  ): Promise<void> {
+    return this.appStore._selectCommitInHistory(repository, sha)
+  }
+
   /** Update the shas that should be highlighted */
   public updateShasToHighlight(
     repository: Repository,
@@ -637,14 +684,25 @@ export class Dispatcher {
   }
 
   /**
-   * Create a new tag on the given target commit.
+   * Create a new annotated tag on the given target commit.
+   *
+   * @param sign Whether to sign the tag. When undefined the repository's
+   *             `tag.gpgsign` setting decides.
    */
   public createTag(
     repository: Repository,
     name: string,
-    targetCommitSha: string
+    targetCommitSha: string,
+    message?: string,
+    sign?: boolean
   ): Promise<void> {
-    return this.appStore._createTag(repository, name, targetCommitSha)
+    return this.appStore._createTag(
+      repository,
+      name,
+      targetCommitSha,
+      message,
+      sign
+    )
   }
 
   /**
@@ -654,6 +712,38 @@ export class Dispatcher {
     return this.appStore._deleteTag(repository, name)
   }
 
+  /** Load the tags of the repository's current remote. */
+  public refreshRemoteTags(repository: Repository): Promise<void> {
+    return this.appStore._refreshRemoteTags(repository)
+  }
+
+  /** Push a single tag to the repository's current remote. */
+  public pushTag(repository: Repository, name: string): Promise<void> {
+    return this.appStore._pushTag(repository, name)
+  }
+
+  /** Delete a single tag from the repository's current remote. */
+  public deleteRemoteTag(repository: Repository, name: string): Promise<void> {
+    return this.appStore._deleteRemoteTag(repository, name)
+  }
+
+  /** Create a draft release on GitHub for a pushed tag. */
+  public draftTagRelease(
+    repository: RepositoryWithGitHubRepository,
+    tagName: string,
+    releaseName: string,
+    notes: string,
+    prerelease: boolean
+  ): Promise<IAPIRelease> {
+    return this.appStore._draftTagRelease(
+      repository,
+      tagName,
+      releaseName,
+      notes,
+      prerelease
+    )
+  }
+
   /**
    * Show the tag creation dialog.
    */
@@ -674,15 +764,24 @@ export class Dispatcher {
 
   /**
    * Show the confirmation dialog to delete a tag.
+   *
+   * @param existsLocally   Whether the tag exists locally, as opposed to only
+   *                        on the remote
+   * @param existsOnRemote  Whether the tag is known to exist on the remote, in
+   *                        which case the user can choose to delete it there
    */
   public showDeleteTagDialog(
     repository: Repository,
-    tagName: string
+    tagName: string,
+    existsLocally: boolean = true,
+    existsOnRemote: boolean = false
   ): Promise<void> {
     return this.showPopup({
       type: PopupType.DeleteTag,
       repository,
       tagName,
+      existsLocally,
+      existsOnRemote,
     })
   }
 
@@ -796,7 +895,7 @@ export class Dispatcher {
   public async clone(
     url: string,
     path: string,
-    options?: { branch?: string; defaultBranch?: string }
+    options?: Omit<CloneOptions, 'account'>
   ): Promise<Repository | null> {
     return this.appStore._completeOpenInDesktop(async () => {
       const { promise, repository } = this.appStore._clone(url, path, options)
@@ -844,6 +943,114 @@ export class Dispatcher {
     return this.appStore._renameBranch(repository, branch, newName)
   }
 
+  /**
+   * Start bisecting to find the commit which introduced a regression.
+   *
+   * @param bad  - A commit known to contain the regression
+   * @param good - A commit known not to contain the regression or null to
+   *               pick one later.
+   */
+  public startBisect(
+    repository: Repository,
+    bad: CommitOneLine,
+    good: CommitOneLine | null
+  ): Promise<void> {
+    return this.appStore._startBisect(repository, bad, good)
+  }
+
+  /**
+   * Mark a commit as good, bad or skipped in the current bisect session.
+   *
+   * @param sha - The commit to mark or undefined to mark the commit which is
+   *              currently being tested.
+   */
+  public markBisectCommit(
+    repository: Repository,
+    mark: BisectMark,
+    sha?: string
+  ): Promise<void> {
+    return this.appStore._markBisectCommit(repository, mark, sha)
+  }
+
+  /** End the current bisect session */
+  public resetBisect(repository: Repository): Promise<void> {
+    return this.appStore._resetBisect(repository)
+  }
+
+  /**
+   * Create a new worktree for the given branch at the given path, add it to
+   * the app and select it.
+   *
+   * @param newBranchName - The name of a new branch to create from `branch`
+   *                        and check out in the worktree, or null to check
+   *                        out `branch` itself.
+   */
+  public async createWorktree(
+    repository: Repository,
+    branch: Branch,
+    path: string,
+    newBranchName: string | null
+  ): Promise<void> {
+    const created = await this.appStore._createWorktree(
+      repository,
+      branch,
+      path,
+      newBranchName
+    )
+
+    if (!created) {
+      return
+    }
+
+    const [worktree] = await this.addRepositories([path])
+    if (worktree !== undefined) {
+      await this.selectRepository(worktree)
+    }
+  }
+
+  /**
+   * Remove the given linked worktree from disk and from the app.
+   *
+   * @param force - Whether to remove the worktree even if it has uncommitted
+   *                changes or is locked.
+   */
+  public removeWorktree(repository: Repository, force: boolean) {
+    return this.appStore._removeWorktree(repository, force)
+  }
+
+  /** Lock the given linked worktree to prevent it from being pruned */
+  public lockWorktree(repository: Repository) {
+    return this.appStore._lockWorktree(repository)
+  }
+
+  /** Unlock the given linked worktree */
+  public unlockWorktree(repository: Repository) {
+    return this.appStore._unlockWorktree(repository)
+  }
+
+  /** Prune worktrees of the repository whose directories have been deleted */
+  public pruneWorktrees(repository: Repository) {
+    return this.appStore._pruneWorktrees(repository)
+  }
+
+  /**
+   * Update which directories are checked out in a sparse checkout.
+   *
+   * @param paths - The directories to check out or null to turn off sparse
+   *                checkout and check out all files.
+   */
+  public setSparseCheckoutPaths(
+    repository: Repository,
+    paths: ReadonlyArray<string> | null
+  ): Promise<void> {
+    return this.appStore._setSparseCheckoutPaths(repository, paths)
+  }
+
+  /** Hide the output of the hooks run by the last commit or push. */
+  public dismissHookOutput(repository: Repository) {
+    return this.appStore._dismissHookOutput(repository)
+  }
+
   /**
    * Delete the branch. This will delete both the local branch and the remote
    * branch if includeUpstream is true, and then check out the default branch.
@@ -951,6 +1158,18 @@ export class Dispatcher {
     )
   }
 
+  /**
+   * Reset the current branch to the commit of the given reflog entry, i.e. to
+   * recover commits lost in a reset or a rebase.
+   */
+  public resetToReflogEntry(
+    repository: Repository,
+    entry: IReflogEntry
+  ): Promise<void> {
+    this.statsStore.recordResetToCommitCount()
+    return this.appStore._resetToReflogEntry(repository, entry)
+  }
+
   /** Revert the commit with the given SHA */
   public revertCommit(repository: Repository, commit: Commit): Promise<void> {
     return this.appStore._revertCommit(repository, commit)
@@ -2120,12 +2339,34 @@ export class Dispatcher {
           retryAction.beforeCommit,
           retryAction.lastRetainedCommitRef
         )
+      case RetryActionType.InteractiveRebase:
+        return this.interactiveRebase(
+          retryAction.repository,
+          retryAction.steps,
+          retryAction.lastRetainedCommitRef
+        )
       case RetryActionType.DiscardChanges:
         return this.discardChanges(
           retryAction.repository,
           retryAction.files,
           false
         )
+      case RetryActionType.Commit: {
+        const committed = await this.commitIncludedChanges(
+          retryAction.repository,
+          retryAction.commitContext
+        )
+
+        // The message being retried has been used up. A copy of the default
+        // message is set such that the change is noticed by the commit
+        // message component even when the stored message already was empty.
+        if (committed) {
+          await this.setCommitMessage(retryAction.repository, {
+            ...DefaultCommitMessage,
+          })
+        }
+        break
+      }
       default:
         return assertNever(retryAction, `Unknown retry action: ${retryAction}`)
     }
@@ -2173,11 +2414,41 @@ export class Dispatcher {
     )
   }
 
+  /**
+   * Change whether the history tab shows the commits of all branches instead
+   * of only those of the current branch
+   */
+  public setShowAllBranchesInHistory(
+    repository: Repository,
+    showAllBranchesInHistory: boolean
+  ): Promise<void> {
+    return this.appStore._setShowAllBranchesInHistory(
+      repository,
+      showAllBranchesInHistory
+    )
+  }
+
+  /**
+   * Change the context size, ignored changes and wrapping of diffs in the
+   * given repository
+   */
+  public updateDiffSettings(
+    repository: Repository,
+    diffSettings: IDiffSettings
+  ): Promise<void> {
+    return this.appStore._updateDiffSettings(repository, diffSettings)
+  }
+
   /** Change the side by side diff setting */
   public onShowSideBySideDiffChanged(showSideBySideDiff: boolean) {
     return this.appStore._setShowSideBySideDiff(showSideBySideDiff)
   }
 
+  /** Change the setting for showing blame annotations instead of diffs */
+  public onShowBlameChanged(showBlame: boolean) {
+    return this.appStore._setShowBlame(showBlame)
+  }
+
   /** Install the global Git LFS filters. */
   public installGlobalLFSFilters(force: boolean): Promise<void> {
     return this.appStore._installGlobalLFSFilters(force)
@@ -2355,6 +2626,14 @@ export class Dispatcher {
     )
   }
 
+  /**
+   * Forget the recorded resolution Git used to resolve the conflicts in the
+   * file at the given path and restore its conflict markers.
+   */
+  public forgetRecordedResolution(repository: Repository, path: string) {
+    return this.appStore._forgetRecordedResolution(repository, path)
+  }
+
   public async confirmOrForcePush(repository: Repository) {
     const { askForConfirmationOnForcePush } = this.appStore.getState()
 
@@ -2707,6 +2986,49 @@ export class Dispatcher {
     return this.appStore._popStashEntry(repository, stashEntry)
   }
 
+  /**
+   * Apply the given stash in the given repository without removing it from
+   * the stash
+   */
+  public applyStash(repository: Repository, stashEntry: IStashEntry) {
+    return this.appStore._applyStashEntry(repository, stashEntry)
+  }
+
+  /**
+   * Stash the changes currently included in the Changes list, i.e. the
+   * selected files and lines, leaving the rest of the changes in place.
+   *
+   * @param message The message to identify the stash entry by
+   * @returns       Whether a stash entry was created
+   */
+  public createStashFromSelection(
+    repository: Repository,
+    message: string
+  ): Promise<boolean> {
+    return this.appStore._createStashFromSelection(repository, message)
+  }
+
+  /**
+   * Create and check out a branch starting at the commit the given stash
+   * was created on and pop the stash onto it
+   */
+  public createBranchFromStash(
+    repository: Repository,
+    stashEntry: IStashEntry,
+    branchName: string
+  ): Promise<boolean> {
+    return this.appStore._createBranchFromStashEntry(
+      repository,
+      stashEntry,
+      branchName
+    )
+  }
+
+  /** Load the files changed by the given stash for display */
+  public loadStashEntryFiles(repository: Repository, stashEntry: IStashEntry) {
+    return this.appStore._loadStashEntryFiles(repository, stashEntry)
+  }
+
   /**
    * Set the width of the commit summary column in the
    * history view to the given value.
@@ -3463,6 +3785,106 @@ export class Dispatcher {
     )
   }
 
+  /**
+   * Starts an interactive rebase
+   *
+   * @param steps - what to do with each of the commits to rebase, from the
+   * oldest to the newest
+   * @param lastRetainedCommitRef - commit ref of commit before the oldest
+   * commit to rebase or null if that commit is the root (first in history) of
+   * the branch
+   */
+  public async interactiveRebase(
+    repository: Repository,
+    steps: ReadonlyArray<IInteractiveRebaseStep>,
+    lastRetainedCommitRef: string | null,
+    continueWithForcePush: boolean = false
+  ) {
+    const retry: RetryAction = {
+      type: RetryActionType.InteractiveRebase,
+      repository,
+      steps,
+      lastRetainedCommitRef,
+    }
+
+    if (this.appStore._checkForUncommittedChanges(repository, retry)) {
+      return
+    }
+
+    const stateBefore = this.repositoryStateManager.get(repository)
+    const { tip } = stateBefore.branchesState
+
+    if (tip.kind !== TipState.Valid) {
+      log.info(
+        `[interactiveRebase] - invalid tip state - could not perform interactive rebase.`
+      )
+      return
+    }
+
+    const commits = steps.map(s => s.commit)
+
+    this.appStore._initializeMultiCommitOperation(
+      repository,
+      {
+        kind: MultiCommitOperationKind.InteractiveRebase,
+        lastRetainedCommitRef,
+        steps,
+        commits,
+        currentTip: tip.branch.tip.sha,
+      },
+      tip.branch,
+      commits,
+      tip.branch.tip.sha
+    )
+
+    this.showPopup({
+      type: PopupType.MultiCommitOperation,
+      repository,
+    })
+
+    this.appStore._setMultiCommitOperationUndoState(repository, tip)
+
+    const { askForConfirmationOnForcePush } = this.appStore.getState()
+
+    if (askForConfirmationOnForcePush && !continueWithForcePush) {
+      const showWarning = await this.warnAboutRemoteCommits(
+        repository,
+        tip.branch,
+        lastRetainedCommitRef
+      )
+
+      if (showWarning) {
+        this.setMultiCommitOperationStep(repository, {
+          kind: MultiCommitOperationStepKind.WarnForcePush,
+          targetBranch: tip.branch,
+          baseBranch: tip.branch,
+          commits,
+        })
+        return
+      }
+    }
+
+    const result = await this.appStore._interactiveRebase(
+      repository,
+      steps,
+      lastRetainedCommitRef
+    )
+
+    this.logHowToRevertMultiCommitOperation(
+      MultiCommitOperationKind.InteractiveRebase,
+      tip
+    )
+
+    return this.processMultiCommitOperationRebaseResult(
+      MultiCommitOperationKind.InteractiveRebase,
+      repository,
+      result,
+      commits.length,
+      tip.branch.name,
+      `${MultiCommitOperationKind.InteractiveRebase.toLowerCase()} commit`
+    )
+  }
+
   /**
    * Starts a squash
    *
@@ -3773,6 +4195,12 @@ export class Dispatcher {
       case MultiCommitOperationKind.Reorder:
         banner = { ...bannerBase, type: BannerType.SuccessfulReorder }
         break
+      case MultiCommitOperationKind.InteractiveRebase:
+        banner = {
+          ...bannerBase,
+          type: BannerType.SuccessfulInteractiveRebase,
+        }
+        break
       case MultiCommitOperationKind.CherryPick:
         banner = {
           ...bannerBase,
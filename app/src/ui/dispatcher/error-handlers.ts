@@ -11,6 +11,7 @@ import {
 } from '../../lib/error-with-metadata'
 import { AuthenticationErrors } from '../../lib/git/authentication'
 import { GitError, isAuthFailureError } from '../../lib/git/core'
+import { HookError } from '../../lib/git/hooks'
 import { ShellError } from '../../lib/shells'
 import { UpstreamAlreadyExistsError } from '../../lib/stores/upstream-already-exists-error'
 
@@ -646,6 +647,41 @@ export async function discardChangesHandler(
   return null
 }
 
+/**
+ * Handler for when a hook prevented a commit from being created, offering
+ * to create the commit without running the hooks.
+ */
+export async function hookFailedHandler(
+  error: Error,
+  dispatcher: Dispatcher
+): Promise<Error | null> {
+  if (!(error instanceof ErrorWithMetadata)) {
+    return error
+  }
+
+  const { underlyingError } = error
+  const { retryAction, repository } = error.metadata
+
+  if (
+    !(underlyingError instanceof HookError) ||
+    retryAction === undefined ||
+    retryAction.type !== RetryActionType.Commit ||
+    !(repository instanceof Repository)
+  ) {
+    return error
+  }
+
+  dispatcher.showPopup({
+    type: PopupType.HookFailed,
+    repository,
+    hookName: underlyingError.hookName,
+    output: underlyingError.message,
+    retryAction,
+  })
+
+  return null
+}
+
 /**
  * Extract lines from Git's stderr output starting with the
  * prefix `remote: `. Useful to extract server-specific
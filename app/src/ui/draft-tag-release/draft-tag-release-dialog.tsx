@@ -0,0 +1,209 @@
+import * as React from 'react'
+import { Dialog, DialogContent, DialogError, DialogFooter } from '../dialog'
+import { OkCancelButtonGroup } from '../dialog/ok-cancel-button-group'
+import { Dispatcher } from '../dispatcher'
+import { RepositoryWithGitHubRepository } from '../../models/repository'
+import { getCommits, getPreviousTag, revRange } from '../../lib/git'
+import { generateTagReleaseNotes } from '../../lib/tag-release-notes'
+import { TextBox } from '../lib/text-box'
+import { TextArea } from '../lib/text-area'
+import { Checkbox, CheckboxValue } from '../lib/checkbox'
+import { Loading } from '../lib/loading'
+import { Ref } from '../lib/ref'
+
+/** The maximum number of commits to list in the generated notes */
+const MaxReleaseNotesCommits = 250
+
+interface IDraftTagReleaseDialogProps {
+  readonly dispatcher: Dispatcher
+  readonly repository: RepositoryWithGitHubRepository
+
+  /** The name of the tag to draft a release for */
+  readonly tagName: string
+
+  readonly onDismissed: () => void
+}
+
+interface IDraftTagReleaseDialogState {
+  /**
+   * The tag preceding the tag of the release, null if there is none and
+   * undefined while looking for it.
+   */
+  readonly previousTag: string | null | undefined
+
+  readonly releaseName: string
+
+  /** The notes of the release or null while they're being generated */
+  readonly notes: string | null
+
+  readonly prerelease: boolean
+  readonly isCreating: boolean
+  readonly error: string | null
+}
+
+/**
+ * A dialog for drafting a GitHub release for a tag, with notes generated from
+ * the commits since the previous tag.
+ */
+export class DraftTagReleaseDialog extends React.Component<
+  IDraftTagReleaseDialogProps,
+  IDraftTagReleaseDialogState
+> {
+  public constructor(props: IDraftTagReleaseDialogProps) {
+    super(props)
+
+    this.state = {
+      previousTag: undefined,
+      releaseName: props.tagName,
+      notes: null,
+      // Versions like 1.0.0-beta.1 are pre-releases by semver's definition
+      prerelease: /^v?\d+(\.\d+)*-/.test(props.tagName),
+      isCreating: false,
+      error: null,
+    }
+  }
+
+  public async componentDidMount() {
+    const { repository, tagName } = this.props
+    const tagRef = `refs/tags/${tagName}`
+
+    try {
+      const previousTag = await getPreviousTag(repository, tagName)
+      const range =
+        previousTag === null
+          ? tagRef
+          : revRange(`refs/tags/${previousTag}`, tagRef)
+      const commits = await getCommits(
+        repository,
+        range,
+        MaxReleaseNotesCommits
+      )
+
+      this.setState({
+        previousTag,
+        notes: generateTagReleaseNotes(commits, previousTag, tagName),
+      })
+    } catch (e) {
+      this.setState({ previousTag: null, notes: '', error: e.message })
+    }
+  }
+
+  private onReleaseNameChanged = (releaseName: string) => {
+    this.setState({ releaseName })
+  }
+
+  private onNotesChanged = (notes: string) => {
+    this.setState({ notes })
+  }
+
+  private onPrereleaseChanged = (event: React.FormEvent<HTMLInputElement>) => {
+    this.setState({ prerelease: event.currentTarget.checked })
+  }
+
+  private onSubmit = async () => {
+    const { dispatcher, repository, tagName } = this.props
+    const { releaseName, notes, prerelease } = this.state
+
+    this.setState({ isCreating: true, error: null })
+
+    try {
+      const release = await dispatcher.draftTagRelease(
+        repository,
+        tagName,
+        releaseName.trim().length > 0 ? releaseName : tagName,
+        notes ?? '',
+        prerelease
+      )
+
+      dispatcher.openInBrowser(release.html_url)
+      this.props.onDismissed()
+    } catch (e) {
+      this.setState({ isCreating: false, error: e.message })
+    }
+  }
+
+  private renderPreviousTag() {
+    const { previousTag } = this.state
+
+    if (previousTag === undefined) {
+      return null
+    }
+
+    return (
+      <p className="previous-tag">
+        {previousTag === null ? (
+          'The notes list all commits as there is no previous tag.'
+        ) : (
+          <>
+            The notes list the commits since <Ref>{previousTag}</Ref>.
+          </>
+        )}
+      </p>
+    )
+  }
+
+  private renderNotes() {
+    const { notes } = this.state
+
+    if (notes === null) {
+      return (
+        <div className="generating-notes">
+          <Loading /> Generating release notes…
+        </div>
+      )
+    }
+
+    return (
+      <TextArea
+        label={__DARWIN__ ? 'Release Notes' : 'Release notes'}
+        rows={12}
+        value={notes}
+        onValueChanged={this.onNotesChanged}
+      />
+    )
+  }
+
+  public render() {
+    const { tagName } = this.props
+    const { releaseName, notes, prerelease, isCreating, error } = this.state
+
+    return (
+      <Dialog
+        className="draft-tag-release"
+        title={__DARWIN__ ? 'Draft a Release' : 'Draft a release'}
+        onSubmit={this.onSubmit}
+        onDismissed={this.props.onDismissed}
+        loading={isCreating}
+        disabled={isCreating}
+      >
+        {error !== null && <DialogError>{error}</DialogError>}
+        <DialogContent>
+          <p>
+            Draft a release on GitHub for the tag <Ref>{tagName}</Ref>. The
+            draft is only visible to collaborators until it is published.
+          </p>
+          <TextBox
+            label="Title"
+            value={releaseName}
+            onValueChanged={this.onReleaseNameChanged}
+          />
+          {this.renderNotes()}
+          {this.renderPreviousTag()}
+          <Checkbox
+            label={
+              __DARWIN__ ? 'Mark as a Pre-release' : 'Mark as a pre-release'
+            }
+            value={prerelease ? CheckboxValue.On : CheckboxValue.Off}
+            onChange={this.onPrereleaseChanged}
+          />
+        </DialogContent>
+        <DialogFooter>
+          <OkCancelButtonGroup
+            okButtonText={__DARWIN__ ? 'Create Draft' : 'Create draft'}
+            okButtonDisabled={notes === null}
+          />
+        </DialogFooter>
+      </Dialog>
+    )
+  }
+}
@@ -0,0 +1 @@
+export { DraftTagReleaseDialog } from './draft-tag-release-dialog'
@@ -3,9 +3,14 @@ import { Disposable } from 'event-kit'
 import * as React from 'react'
 import { dragAndDropManager } from '../../lib/drag-and-drop-manager'
 import { assertNever } from '../../lib/fatal-error'
+import { predictCherryPickConflicts } from '../../lib/git/merge-tree'
+import { sortCommitsByHistory } from '../../lib/git/rev-list'
+import { Branch } from '../../models/branch'
 import { Commit } from '../../models/commit'
 import { DragType, DropTarget, DropTargetType } from '../../models/drag-drop'
 import { GitHubRepository } from '../../models/github-repository'
+import { IConflictPrediction } from '../../models/merge'
+import { Repository } from '../../models/repository'
 import { CommitListItem } from '../history/commit-list-item'
 import { Octicon } from '../octicons'
 import * as OcticonSymbol from '../octicons/octicons.generated'
@@ -15,11 +20,26 @@ interface ICommitDragElementProps {
   readonly selectedCommits: ReadonlyArray<Commit>
   readonly gitHubRepository: GitHubRepository | null
   readonly emoji: Map<string, string>
+
+  /**
+   * The repository the commits are dragged in, used to predict the conflicts
+   * of copying them to the branch they're dragged over
+   */
+  readonly repository: Repository | null
+
+  /** All the branches of the repository */
+  readonly branches: ReadonlyArray<Branch>
 }
 
 interface ICommitDragElementState {
   readonly showTooltip: boolean
   readonly currentDropTarget: DropTarget | null
+
+  /**
+   * The conflicts predicted for copying the commits to the branch they're
+   * dragged over, or null if they haven't been predicted.
+   */
+  readonly conflictPrediction: IConflictPrediction | null
 }
 
 export class CommitDragElement extends React.Component<
@@ -30,11 +50,15 @@ export class CommitDragElement extends React.Component<
   private onEnterDropTarget: Disposable | null = null
   private onLeaveDropTargetDisposable: Disposable | null = null
 
+  /** Aborts predicting the conflicts with the previous drop target */
+  private predictionAbortController: AbortController | null = null
+
   public constructor(props: ICommitDragElementProps) {
     super(props)
     this.state = {
       showTooltip: false,
       currentDropTarget: null,
+      conflictPrediction: null,
     }
   }
 
@@ -82,6 +106,7 @@ export class CommitDragElement extends React.Component<
               <span className="branch-name">
                 {currentDropTarget.branchName}
               </span>
+              {this.renderConflictPrediction()}
             </span>
           </>
         )
@@ -127,12 +152,76 @@ export class CommitDragElement extends React.Component<
     )
   }
 
+  private renderConflictPrediction() {
+    const { conflictPrediction } = this.state
+    if (
+      conflictPrediction === null ||
+      conflictPrediction.conflictedFiles.length === 0
+    ) {
+      return null
+    }
+
+    const count = conflictPrediction.conflictedFiles.length
+    return (
+      <span className="predicted-conflicts">
+        {count === 1
+          ? 'Expect conflicts in 1 file'
+          : `Expect conflicts in ${count} files`}
+      </span>
+    )
+  }
+
+  private async updateConflictPrediction(branchName: string) {
+    const { repository, branches, selectedCommits } = this.props
+    const branch = branches.find(b => b.name === branchName)
+
+    if (repository === null || branch === undefined) {
+      return
+    }
+
+    const controller = new AbortController()
+    this.predictionAbortController = controller
+
+    // The commits are cherry-picked oldest first, whichever order they were
+    // selected in
+    const conflictPrediction = await sortCommitsByHistory(
+      repository,
+      selectedCommits
+    )
+      .then(sorted =>
+        predictCherryPickConflicts(
+          repository,
+          sorted,
+          branch.tip.sha,
+          controller.signal
+        )
+      )
+      .catch(e => {
+        log.error('Failed predicting cherry-pick conflicts', e)
+        return null
+      })
+
+    if (!controller.signal.aborted) {
+      this.setState({ conflictPrediction })
+    }
+  }
+
+  private clearConflictPrediction() {
+    this.predictionAbortController?.abort()
+    this.predictionAbortController = null
+    this.setState({ conflictPrediction: null })
+  }
+
   public componentDidMount() {
     this.onEnterDropTarget = dragAndDropManager.onEnterDropTarget(
       dropTarget => {
         this.setState({ currentDropTarget: dropTarget })
+        this.clearConflictPrediction()
         switch (dropTarget.type) {
           case DropTargetType.Branch:
+            this.updateConflictPrediction(dropTarget.branchName)
+            this.setToolTipTimer(1500)
+            break
           case DropTargetType.Commit:
           case DropTargetType.ListInsertionPoint:
             this.setToolTipTimer(1500)
@@ -146,12 +235,14 @@ export class CommitDragElement extends React.Component<
     this.onLeaveDropTargetDisposable = dragAndDropManager.onLeaveDropTarget(
       () => {
         this.setState({ currentDropTarget: null, showTooltip: false })
+        this.clearConflictPrediction()
       }
     )
   }
 
   public componentWillUnmount() {
     this.clearTimeout()
+    this.predictionAbortController?.abort()
 
     if (this.onEnterDropTarget !== null) {
       this.onEnterDropTarget.dispose()
@@ -0,0 +1,357 @@
+import * as React from 'react'
+import * as Path from 'path'
+import { Dialog, DialogContent, DialogError, DialogFooter } from '../dialog'
+import { OkCancelButtonGroup } from '../dialog/ok-cancel-button-group'
+import { Dispatcher } from '../dispatcher'
+import { Repository } from '../../models/repository'
+import { IDiff, IDiffSettings, ImageDiffType } from '../../models/diff'
+import {
+  getCommitDiff,
+  getFileHistory,
+  getFileRevisionsChange,
+  getFileRevisionsDiff,
+  IFileHistoryEntry,
+} from '../../lib/git'
+import { CommittedFileChange } from '../../models/status'
+import { List } from '../lib/list'
+import { Button } from '../lib/button'
+import { Loading } from '../lib/loading'
+import { Ref } from '../lib/ref'
+import { openFile } from '../lib/open-file'
+import { RelativeTime } from '../relative-time'
+import { SeamlessDiffSwitcher } from '../diff/seamless-diff-switcher'
+
+/** The height of a commit in the list, which fits the path it changed */
+const RowHeight = 62
+
+interface IFileHistoryDialogProps {
+  readonly dispatcher: Dispatcher
+  readonly repository: Repository
+
+  /** The path of the file, as of `revision` */
+  readonly path: string
+
+  /** The commit to show the history of the file up to */
+  readonly revision: string
+
+  readonly imageDiffType: ImageDiffType
+
+  /** Map from the emoji shortcut (e.g., :+1:) to the image's local path. */
+  readonly emoji: Map<string, string>
+  readonly hideWhitespaceInDiff: boolean
+  readonly showSideBySideDiff: boolean
+
+  /** The context size, ignored changes and wrapping of diffs. */
+  readonly diffSettings: IDiffSettings
+
+  readonly onDismissed: () => void
+}
+
+interface IFileHistoryDialogState {
+  /** The commits which changed the file or null while loading */
+  readonly entries: ReadonlyArray<IFileHistoryEntry> | null
+
+  /**
+   * The rows of the selected commits. With a single commit selected the
+   * changes it made to the file are shown, with more the file is compared
+   * between the oldest and the newest of them.
+   */
+  readonly selectedRows: ReadonlyArray<number>
+
+  /** The change to the file between the selected commits */
+  readonly file: CommittedFileChange | null
+
+  /** The diff of the selected commits or null while loading */
+  readonly diff: IDiff | null
+
+  /** The error loading the history or the diff, if any */
+  readonly error: Error | null
+}
+
+/**
+ * A dialog listing the commits which changed a single file, following the file
+ * across renames, along with the diff of the file at each commit.
+ */
+export class FileHistoryDialog extends React.Component<
+  IFileHistoryDialogProps,
+  IFileHistoryDialogState
+> {
+  public constructor(props: IFileHistoryDialogProps) {
+    super(props)
+
+    this.state = {
+      entries: null,
+      selectedRows: [],
+      file: null,
+      diff: null,
+      error: null,
+    }
+  }
+
+  public async componentDidMount() {
+    const { repository, path, revision } = this.props
+
+    let entries: ReadonlyArray<IFileHistoryEntry>
+    try {
+      entries = await getFileHistory(repository, path, revision)
+    } catch (error) {
+      log.error('Failed loading the history of the file', error)
+      this.setState({ error })
+      return
+    }
+
+    this.setState({ entries })
+
+    if (entries.length > 0) {
+      this.selectRows([0])
+    }
+  }
+
+  /**
+   * Get the oldest and the newest of the selected revisions of the file, which
+   * are the same when a single commit is selected.
+   */
+  private getSelectedRevisions(
+    entries: ReadonlyArray<IFileHistoryEntry>,
+    selectedRows: ReadonlyArray<number>
+  ) {
+    if (selectedRows.length === 0) {
+      return null
+    }
+
+    const to = entries[Math.min(...selectedRows)]
+    const from = entries[Math.max(...selectedRows)]
+
+    return to === undefined || from === undefined ? null : { from, to }
+  }
+
+  private async selectRows(selectedRows: ReadonlyArray<number>) {
+    const { entries } = this.state
+    const revisions =
+      entries === null ? null : this.getSelectedRevisions(entries, selectedRows)
+
+    if (revisions === null) {
+      this.setState({ selectedRows, file: null, diff: null })
+      return
+    }
+
+    const { repository, hideWhitespaceInDiff, diffSettings } = this.props
+    const { from, to } = revisions
+    const file =
+      from === to ? to.file : getFileRevisionsChange(from.file, to.file)
+
+    this.setState({ selectedRows, file, diff: null, error: null })
+
+    try {
+      const diff =
+        from === to
+          ? await getCommitDiff(
+              repository,
+              to.file,
+              to.commit.sha,
+              hideWhitespaceInDiff,
+              diffSettings
+            )
+          : await getFileRevisionsDiff(
+              repository,
+              from.file,
+              to.file,
+              hideWhitespaceInDiff,
+              diffSettings
+            )
+
+      // Bail if the user selected other commits in the meantime
+      if (this.state.selectedRows === selectedRows) {
+        this.setState({ diff })
+      }
+    } catch (error) {
+      log.error('Failed loading the diff of the file', error)
+
+      if (this.state.selectedRows === selectedRows) {
+        this.setState({ error })
+      }
+    }
+  }
+
+  private onSelectionChanged = (rows: ReadonlyArray<number>) => {
+    this.selectRows(rows)
+  }
+
+  private renderEntries() {
+    const { entries, selectedRows, error } = this.state
+
+    if (entries === null) {
+      return error === null ? <Loading /> : null
+    }
+
+    if (entries.length === 0) {
+      return <div className="empty">There are no commits for this file.</div>
+    }
+
+    return (
+      <List
+        rowCount={entries.length}
+        rowHeight={RowHeight}
+        rowRenderer={this.renderEntry}
+        selectedRows={selectedRows}
+        selectionMode="multi"
+        onSelectionChanged={this.onSelectionChanged}
+        getRowAriaLabel={this.getEntryAriaLabel}
+        invalidationProps={entries}
+      />
+    )
+  }
+
+  private renderEntry = (row: number) => {
+    const entry = this.state.entries?.[row]
+
+    if (entry === undefined) {
+      return null
+    }
+
+    const { commit, file } = entry
+
+    return (
+      <div className="file-history-entry">
+        <div className="summary">{commit.summary}</div>
+        <div className="description">
+          {commit.author.name} • <RelativeTime date={commit.author.date} />
+        </div>
+        {file.path !== this.props.path && (
+          <div className="path" title={file.path}>
+            {file.path}
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  private getEntryAriaLabel = (row: number) => {
+    const entry = this.state.entries?.[row]
+    return entry === undefined
+      ? ''
+      : `${entry.commit.shortSha} ${entry.commit.summary}`
+  }
+
+  private renderDiffHeader(from: IFileHistoryEntry, to: IFileHistoryEntry) {
+    if (from === to) {
+      return (
+        <div className="file-history-diff-header">
+          <span className="description">
+            Changes in <Ref>{to.commit.shortSha}</Ref> {to.commit.summary}
+          </span>
+          <Button onClick={this.onShowInHistory}>
+            {__DARWIN__ ? 'Show in History' : 'Show in history'}
+          </Button>
+        </div>
+      )
+    }
+
+    return (
+      <div className="file-history-diff-header">
+        <span className="description">
+          Comparing <Ref>{from.commit.shortSha}</Ref> with{' '}
+          <Ref>{to.commit.shortSha}</Ref>
+        </span>
+      </div>
+    )
+  }
+
+  private renderDiff() {
+    const { entries, selectedRows, file, diff, error } = this.state
+    const revisions =
+      entries === null ? null : this.getSelectedRevisions(entries, selectedRows)
+
+    if (revisions === null || file === null || error !== null) {
+      return (
+        <div className="file-history-diff">
+          {entries !== null && entries.length > 0 && error === null && (
+            <div className="empty">
+              Select a commit to see its changes, or select two commits to
+              compare the file between them.
+            </div>
+          )}
+        </div>
+      )
+    }
+
+    const { repository, imageDiffType, hideWhitespaceInDiff, diffSettings } =
+      this.props
+    const { from, to } = revisions
+
+    return (
+      <div className="file-history-diff">
+        {this.renderDiffHeader(from, to)}
+        <SeamlessDiffSwitcher
+          repository={repository}
+          readOnly={true}
+          file={file}
+          diff={diff}
+          imageDiffType={imageDiffType}
+          emoji={this.props.emoji}
+          hideWhitespaceInDiff={hideWhitespaceInDiff}
+          showSideBySideDiff={this.props.showSideBySideDiff}
+          softWrap={diffSettings.softWrap}
+          onOpenBinaryFile={this.onOpenBinaryFile}
+          onChangeImageDiffType={this.onChangeImageDiffType}
+        />
+      </div>
+    )
+  }
+
+  private onOpenBinaryFile = (fullPath: string) => {
+    openFile(fullPath, this.props.dispatcher)
+  }
+
+  private onChangeImageDiffType = (type: ImageDiffType) => {
+    this.props.dispatcher.changeImageDiffType(type)
+  }
+
+  private onShowInHistory = () => {
+    const { entries, selectedRows } = this.state
+    const entry = selectedRows.length === 1 ? entries?.[selectedRows[0]] : null
+
+    if (entry) {
+      this.props.onDismissed()
+      this.props.dispatcher.selectCommitInHistory(
+        this.props.repository,
+        entry.commit.sha
+      )
+    }
+  }
+
+  public render() {
+    const { path } = this.props
+    const { error } = this.state
+    const directory = Path.dirname(path)
+
+    return (
+      <Dialog
+        className="file-history"
+        title={__DARWIN__ ? 'File History' : 'File history'}
+        onSubmit={this.props.onDismissed}
+        onDismissed={this.props.onDismissed}
+      >
+        {error !== null && <DialogError>{error.message}</DialogError>}
+        <DialogContent>
+          <div className="file-history-path" title={path}>
+            <span className="file-name">{Path.basename(path)}</span>
+            {directory !== '.' && (
+              <span className="directory">{directory}</span>
+            )}
+          </div>
+          <div className="file-history-content">
+            <div className="file-history-list">{this.renderEntries()}</div>
+            {this.renderDiff()}
+          </div>
+        </DialogContent>
+        <DialogFooter>
+          <OkCancelButtonGroup
+            okButtonText="Close"
+            cancelButtonVisible={false}
+          />
+        </DialogFooter>
+      </Dialog>
+    )
+  }
+}
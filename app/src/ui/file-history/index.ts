@@ -0,0 +1 @@
+export { FileHistoryDialog } from './file-history-dialog'
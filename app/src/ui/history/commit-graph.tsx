@@ -0,0 +1,92 @@
+import * as React from 'react'
+import {
+  CommitGraphLineSpan,
+  ICommitGraphLine,
+  ICommitGraphRow,
+} from '../../lib/commit-graph'
+
+/** The width of a single lane of the graph, in pixels */
+const LaneWidth = 14
+
+/**
+ * The maximum number of lanes drawn for a commit. Lanes beyond this are cut
+ * off to leave room for the commit summary.
+ */
+const MaxVisibleLanes = 10
+
+/** The number of colors lanes cycle through, see `_commit-list.scss` */
+const LaneColorCount = 8
+
+const NodeRadius = 4
+
+interface ICommitGraphProps {
+  /** The part of the graph to draw */
+  readonly row: ICommitGraphRow
+
+  /** The height of the row, in pixels */
+  readonly height: number
+
+  /** Whether the commit of the row is a merge commit */
+  readonly isMergeCommit: boolean
+}
+
+function getLaneX(lane: number) {
+  return lane * LaneWidth + LaneWidth / 2
+}
+
+function getColorClassName(color: number) {
+  return `lane-color-${color % LaneColorCount}`
+}
+
+/**
+ * Get the SVG path of a line, curving between lanes so that it always leaves
+ * and enters a lane vertically.
+ */
+function getLinePath(line: ICommitGraphLine, height: number) {
+  const fromX = getLaneX(line.from)
+  const toX = getLaneX(line.to)
+  const middle = height / 2
+
+  switch (line.span) {
+    case CommitGraphLineSpan.Full:
+      return `M ${fromX} 0 L ${toX} ${height}`
+    case CommitGraphLineSpan.TopHalf:
+      return `M ${fromX} 0 C ${fromX} ${middle} ${toX} 0 ${toX} ${middle}`
+    case CommitGraphLineSpan.BottomHalf:
+      return `M ${fromX} ${middle} C ${fromX} ${height} ${toX} ${middle} ${toX} ${height}`
+  }
+}
+
+/** The part of the commit graph drawn next to a commit in the commit list */
+export class CommitGraph extends React.PureComponent<ICommitGraphProps> {
+  public render() {
+    const { row, height, isMergeCommit } = this.props
+    const width = Math.min(row.laneCount, MaxVisibleLanes) * LaneWidth
+
+    return (
+      <svg
+        className="commit-graph"
+        width={width}
+        height={height}
+        viewBox={`0 0 ${width} ${height}`}
+        aria-hidden={true}
+      >
+        {row.lines.map((line, i) => (
+          <path
+            key={i}
+            className={getColorClassName(line.color)}
+            d={getLinePath(line, height)}
+          />
+        ))}
+        <circle
+          className={`${getColorClassName(row.color)}${
+            isMergeCommit ? ' merge' : ''
+          }`}
+          cx={getLaneX(row.lane)}
+          cy={height / 2}
+          r={NodeRadius}
+        />
+      </svg>
+    )
+  }
+}
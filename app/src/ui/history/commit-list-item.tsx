@@ -1,6 +1,6 @@
 /* eslint-disable jsx-a11y/no-static-element-interactions */
 import * as React from 'react'
-import { Commit } from '../../models/commit'
+import { Commit, CommitSignatureStatus } from '../../models/commit'
 import { GitHubRepository } from '../../models/github-repository'
 import { IAvatarUser, getAvatarUsersForCommit } from '../../models/avatar'
 import { RichText } from '../lib/rich-text'
@@ -17,6 +17,9 @@ import {
   DropTargetType,
 } from '../../models/drag-drop'
 import classNames from 'classnames'
+import { ICommitGraphRow } from '../../lib/commit-graph'
+import { CommitGraph } from './commit-graph'
+import { CommitSignatureIndicator } from './commit-signature-indicator'
 
 interface ICommitProps {
   readonly gitHubRepository: GitHubRepository | null
@@ -39,6 +42,18 @@ interface ICommitProps {
   readonly unpushedIndicatorTitle?: string
   readonly disableSquashing?: boolean
   readonly isMultiCommitOperationInProgress?: boolean
+
+  /** The part of the commit graph to draw next to the commit, if any */
+  readonly graphRow?: ICommitGraphRow
+
+  /** The height of the commit graph, in pixels */
+  readonly graphHeight?: number
+
+  /**
+   * Called when a commit whose signature hasn't been verified is shown, so
+   * that only the signatures of the commits in view are verified.
+   */
+  readonly onVerifySignature?: (commit: Commit) => void
 }
 
 interface ICommitListItemState {
@@ -61,6 +76,24 @@ export class CommitListItem extends React.PureComponent<
     }
   }
 
+  public componentDidMount() {
+    this.verifySignature()
+  }
+
+  public componentDidUpdate(prevProps: ICommitProps) {
+    if (prevProps.commit.sha !== this.props.commit.sha) {
+      this.verifySignature()
+    }
+  }
+
+  private verifySignature() {
+    const { commit, onVerifySignature } = this.props
+
+    if (commit.signatureStatus === null) {
+      onVerifySignature?.(commit)
+    }
+  }
+
   public componentWillReceiveProps(nextProps: ICommitProps) {
     if (nextProps.commit !== this.props.commit) {
       this.setState({
@@ -141,6 +174,7 @@ export class CommitListItem extends React.PureComponent<
           onMouseLeave={this.onMouseLeave}
           onMouseUp={this.onMouseUp}
         >
+          {this.renderCommitGraph()}
           <div className="info">
             <RichText
               className={summaryClassNames}
@@ -165,14 +199,34 @@ export class CommitListItem extends React.PureComponent<
     )
   }
 
+  private renderCommitGraph() {
+    const { graphRow, graphHeight, commit } = this.props
+
+    if (graphRow === undefined || graphHeight === undefined) {
+      return null
+    }
+
+    return (
+      <CommitGraph
+        row={graphRow}
+        height={graphHeight}
+        isMergeCommit={commit.isMergeCommit}
+      />
+    )
+  }
+
   private renderCommitIndicators() {
-    const tagIndicator = renderCommitListItemTags(this.props.commit.tags)
+    const { tags, signatureStatus } = this.props.commit
+    const tagIndicator = renderCommitListItemTags(tags)
     const unpushedIndicator = this.renderUnpushedIndicator()
+    const isSigned =
+      signatureStatus !== null && signatureStatus !== CommitSignatureStatus.None
 
-    if (tagIndicator || unpushedIndicator) {
+    if (tagIndicator || isSigned || unpushedIndicator) {
       return (
         <div className="commit-indicators">
           {tagIndicator}
+          <CommitSignatureIndicator status={signatureStatus} />
           {unpushedIndicator}
         </div>
       )
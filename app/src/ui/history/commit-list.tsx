@@ -15,6 +15,8 @@ import {
 } from '../../lib/feature-flag'
 import { getDotComAPIEndpoint } from '../../lib/api'
 import { clipboard } from 'electron'
+import { BisectMark } from '../../models/bisect'
+import { computeCommitGraph, ICommitGraph } from '../../lib/commit-graph'
 
 const RowHeight = 50
 
@@ -115,6 +117,17 @@ interface ICommitListProps {
     isInvokedByContextMenu: boolean
   ) => void
 
+  /**
+   * Callback to fire to rebase the commits from the given ones up to the most
+   * recent one interactively
+   *
+   * @param commits - The commits to rebase, from the oldest to the newest
+   */
+  readonly onInteractiveRebase?: (
+    commits: ReadonlyArray<Commit>,
+    lastRetainedCommitRef: string | null
+  ) => void
+
   /**
    * Optional callback that fires on page scroll in order to allow passing
    * a new scrollTop value up to the parent component for storing.
@@ -149,8 +162,38 @@ interface ICommitListProps {
   /** Whether squashing should be enabled on the commit list */
   readonly disableSquashing?: boolean
 
+  /** Whether the repository is being bisected */
+  readonly isBisecting?: boolean
+
+  /**
+   * Callback to fire to start bisecting from a commit known to be bad and,
+   * optionally, a commit known to be good.
+   */
+  readonly onStartBisect?: (
+    bad: CommitOneLine,
+    good: CommitOneLine | null
+  ) => void
+
+  /** Callback to fire to mark a commit while bisecting */
+  readonly onMarkBisectCommit?: (
+    commit: CommitOneLine,
+    mark: BisectMark
+  ) => void
+
   /** Shas that should be highlighted */
   readonly shasToHighlight?: ReadonlyArray<string>
+
+  /**
+   * Whether to draw the graph of the commits next to them, connecting each
+   * commit to its parents. Defaults to false.
+   */
+  readonly showCommitGraph?: boolean
+
+  /**
+   * Called with the commits shown in the list whose signatures haven't been
+   * verified yet, in order to verify them lazily.
+   */
+  readonly onVerifyCommitSignatures?: (shas: ReadonlyArray<string>) => void
 }
 
 /** A component which displays the list of commits. */
@@ -163,6 +206,24 @@ export class CommitList extends React.Component<ICommitListProps, {}> {
 
   private listRef = React.createRef<List>()
 
+  /**
+   * The most recently computed commit graph, which is extended rather than
+   * recomputed when more commits are loaded
+   */
+  private commitGraph: ICommitGraph | undefined = undefined
+
+  private getCommitGraph() {
+    this.commitGraph = computeCommitGraph(
+      this.props.commitSHAs,
+      this.getParentSHAs,
+      this.commitGraph
+    )
+    return this.commitGraph
+  }
+
+  private getParentSHAs = (sha: string) =>
+    this.props.commitLookup.get(sha)?.parentSHAs ?? []
+
   private getVisibleCommits(): ReadonlyArray<Commit> {
     const commits = new Array<Commit>()
     for (const sha of this.props.commitSHAs) {
@@ -198,6 +259,11 @@ export class CommitList extends React.Component<ICommitListProps, {}> {
       (isLocal || unpushedTags.length > 0) &&
       this.props.isLocalRepository === false
 
+    const graphRow =
+      this.props.showCommitGraph === true
+        ? this.getCommitGraph().rows[row]
+        : undefined
+
     return (
       <CommitListItem
         key={commit.sha}
@@ -208,6 +274,8 @@ export class CommitList extends React.Component<ICommitListProps, {}> {
           unpushedTags.length
         )}
         commit={commit}
+        graphRow={graphRow}
+        graphHeight={RowHeight}
         emoji={this.props.emoji}
         isDraggable={this.props.isMultiCommitOperationInProgress === false}
         onSquash={this.onSquash}
@@ -218,10 +286,19 @@ export class CommitList extends React.Component<ICommitListProps, {}> {
         isMultiCommitOperationInProgress={
           this.props.isMultiCommitOperationInProgress
         }
+        onVerifySignature={
+          this.props.onVerifyCommitSignatures === undefined
+            ? undefined
+            : this.onVerifyCommitSignature
+        }
       />
     )
   }
 
+  private onVerifyCommitSignature = (commit: Commit) => {
+    this.props.onVerifyCommitSignatures?.([commit.sha])
+  }
+
   private getLastRetainedCommitRef(indexes: ReadonlyArray<number>) {
     const maxIndex = Math.max(...indexes)
     const lastIndex = this.props.commitSHAs.length - 1
@@ -248,6 +325,22 @@ export class CommitList extends React.Component<ICommitListProps, {}> {
     )
   }
 
+  /**
+   * Rebase interactively the commits from the oldest of the given ones up to
+   * the most recent one.
+   */
+  private onInteractiveRebase = (commits: ReadonlyArray<Commit>) => {
+    const indexes = commits.map(c => this.props.commitSHAs.indexOf(c.sha))
+    const maxIndex = Math.max(...indexes)
+
+    const shas = this.props.commitSHAs.slice(0, maxIndex + 1).reverse()
+
+    this.props.onInteractiveRebase?.(
+      this.lookupCommits(shas),
+      this.getLastRetainedCommitRef(indexes)
+    )
+  }
+
   private onRenderCommitDragElement = (commit: Commit) => {
     this.props.onRenderCommitDragElement?.(commit, this.selectedCommits)
   }
@@ -427,6 +520,7 @@ export class CommitList extends React.Component<ICommitListProps, {}> {
             commitLookupHash: this.commitsHash(this.getVisibleCommits()),
             tagsToPush: this.props.tagsToPush,
             shasToHighlight: this.props.shasToHighlight,
+            showCommitGraph: this.props.showCommitGraph,
           }}
           setScrollTop={this.props.compareListScrollTop}
           rowCustomClassNameMap={this.getRowCustomClassMap()}
@@ -563,6 +657,8 @@ export class CommitList extends React.Component<ICommitListProps, {}> {
       }
     )
 
+    items.push({ type: 'separator' }, ...this.getBisectMenuItems(commit))
+
     const deleteTagsMenuItem = this.getDeleteTagsMenuItem(commit)
 
     if (deleteTagsMenuItem !== null) {
@@ -581,6 +677,11 @@ export class CommitList extends React.Component<ICommitListProps, {}> {
         action: () => this.props.onCherryPick?.(this.selectedCommits),
         enabled: this.canCherryPick(),
       },
+      {
+        label: __DARWIN__ ? 'Interactive Rebase…' : 'Interactive rebase…',
+        action: () => this.onInteractiveRebase([commit]),
+        enabled: this.canRebaseInteractively(),
+      },
       { type: 'separator' },
       {
         label: 'Copy SHA',
@@ -601,6 +702,59 @@ export class CommitList extends React.Component<ICommitListProps, {}> {
     return items
   }
 
+  private getBisectMenuItems(commit: Commit): IMenuItem[] {
+    const { isBisecting, onStartBisect, onMarkBisectCommit } = this.props
+
+    if (isBisecting !== true) {
+      return [
+        {
+          label: __DARWIN__
+            ? 'Start Bisect (Mark as Bad)'
+            : 'Start bisect (mark as bad)',
+          action: () => onStartBisect?.(commit, null),
+          enabled: onStartBisect !== undefined,
+        },
+      ]
+    }
+
+    const enabled = onMarkBisectCommit !== undefined
+
+    return [
+      {
+        label: __DARWIN__ ? 'Mark as Good' : 'Mark as good',
+        action: () => onMarkBisectCommit?.(commit, 'good'),
+        enabled,
+      },
+      {
+        label: __DARWIN__ ? 'Mark as Bad' : 'Mark as bad',
+        action: () => onMarkBisectCommit?.(commit, 'bad'),
+        enabled,
+      },
+      {
+        label: __DARWIN__ ? 'Skip Commit' : 'Skip commit',
+        action: () => onMarkBisectCommit?.(commit, 'skip'),
+        enabled,
+      },
+    ]
+  }
+
+  /**
+   * Start bisecting between the two selected commits, treating the most
+   * recent one as bad and the other one as good.
+   */
+  private onStartBisectFromSelection = () => {
+    const { commitSHAs, selectedSHAs, onStartBisect } = this.props
+    const [bad, good] = this.lookupCommits(
+      [...selectedSHAs].sort(
+        (x, y) => commitSHAs.indexOf(x) - commitSHAs.indexOf(y)
+      )
+    )
+
+    if (bad !== undefined && good !== undefined) {
+      onStartBisect?.(bad, good)
+    }
+  }
+
   private canCherryPick(): boolean {
     const { onCherryPick, isMultiCommitOperationInProgress } = this.props
     return (
@@ -618,6 +772,19 @@ export class CommitList extends React.Component<ICommitListProps, {}> {
     )
   }
 
+  private canRebaseInteractively(): boolean {
+    const {
+      onInteractiveRebase,
+      disableSquashing,
+      isMultiCommitOperationInProgress,
+    } = this.props
+    return (
+      onInteractiveRebase !== undefined &&
+      disableSquashing === false &&
+      isMultiCommitOperationInProgress === false
+    )
+  }
+
   private getDeleteTagsMenuItem(commit: Commit): IMenuItem | null {
     const { onDeleteTag } = this.props
     const unpushedTags = this.getUnpushedTags(commit)
@@ -673,6 +840,20 @@ export class CommitList extends React.Component<ICommitListProps, {}> {
         action: () => this.onSquash(this.selectedCommits, commit, true),
         enabled: this.canSquash(),
       },
+      {
+        label: __DARWIN__ ? 'Interactive Rebase…' : 'Interactive rebase…',
+        action: () => this.onInteractiveRebase(this.selectedCommits),
+        enabled: this.canRebaseInteractively(),
+      },
+      { type: 'separator' },
+      {
+        label: __DARWIN__ ? 'Start Bisect' : 'Start bisect',
+        action: this.onStartBisectFromSelection,
+        enabled:
+          count === 2 &&
+          this.props.isBisecting !== true &&
+          this.props.onStartBisect !== undefined,
+      },
     ]
   }
 
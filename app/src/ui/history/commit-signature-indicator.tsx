@@ -0,0 +1,59 @@
+import * as React from 'react'
+import classNames from 'classnames'
+import { CommitSignatureStatus } from '../../models/commit'
+import { assertNever } from '../../lib/fatal-error'
+
+interface ICommitSignatureIndicatorProps {
+  /**
+   * The result of verifying the signature of the commit, or null if it
+   * hasn't been verified yet
+   */
+  readonly status: CommitSignatureStatus | null
+}
+
+function getSignatureStatusDescription(status: CommitSignatureStatus) {
+  switch (status) {
+    case CommitSignatureStatus.Good:
+      return 'This commit has a valid signature'
+    case CommitSignatureStatus.Bad:
+      return 'The signature of this commit is invalid'
+    case CommitSignatureStatus.UnknownValidity:
+      return 'This commit is signed with a key which is not trusted'
+    case CommitSignatureStatus.ExpiredSignature:
+      return 'The signature of this commit has expired'
+    case CommitSignatureStatus.ExpiredKey:
+      return 'This commit is signed with an expired key'
+    case CommitSignatureStatus.RevokedKey:
+      return 'This commit is signed with a revoked key'
+    case CommitSignatureStatus.CannotBeChecked:
+      return 'The signature of this commit could not be checked, the key may be missing'
+    case CommitSignatureStatus.None:
+      return 'This commit is not signed'
+    default:
+      return assertNever(status, `Unknown signature status ${status}`)
+  }
+}
+
+/**
+ * A badge telling whether the signature of a commit is valid. Nothing is
+ * rendered for commits which aren't signed or haven't been verified yet.
+ */
+export const CommitSignatureIndicator: React.FunctionComponent<
+  ICommitSignatureIndicatorProps
+> = ({ status }) => {
+  if (status === null || status === CommitSignatureStatus.None) {
+    return null
+  }
+
+  const isVerified = status === CommitSignatureStatus.Good
+  const className = classNames('signature-indicator', {
+    verified: isVerified,
+    unverified: !isVerified,
+  })
+
+  return (
+    <span className={className} title={getSignatureStatusDescription(status)}>
+      {isVerified ? 'Verified' : 'Unverified'}
+    </span>
+  )
+}
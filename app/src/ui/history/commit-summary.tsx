@@ -5,13 +5,14 @@ import { Octicon } from '../octicons'
 import * as OcticonSymbol from '../octicons/octicons.generated'
 import { RichText } from '../lib/rich-text'
 import { Repository } from '../../models/repository'
-import { Commit } from '../../models/commit'
+import { Commit, CommitSignatureStatus } from '../../models/commit'
 import { getAvatarUsersForCommit, IAvatarUser } from '../../models/avatar'
 import { AvatarStack } from '../lib/avatar-stack'
 import { CommitAttribution } from '../lib/commit-attribution'
 import { Tokenizer, TokenResult } from '../../lib/text-token-parser'
 import { wrapRichTextCommitMessage } from '../../lib/wrap-rich-text-commit-message'
 import { DiffOptions } from '../diff/diff-options'
+import { IDiffSettings } from '../../models/diff'
 import { IChangesetData } from '../../lib/git'
 import { TooltippedContent } from '../lib/tooltipped-content'
 import { AppFileStatusKind } from '../../models/status'
@@ -20,6 +21,7 @@ import { LinkButton } from '../lib/link-button'
 import { UnreachableCommitsTab } from './unreachable-commits-dialog'
 import { TooltippedCommitSHA } from '../lib/tooltipped-commit-sha'
 import memoizeOne from 'memoize-one'
+import { CommitSignatureIndicator } from './commit-signature-indicator'
 
 interface ICommitSummaryProps {
   readonly repository: Repository
@@ -52,6 +54,18 @@ interface ICommitSummaryProps {
   /** Called when the user changes the side by side diffs setting. */
   readonly onShowSideBySideDiffChanged: (checked: boolean) => void
 
+  /** The context size, ignored changes and wrapping of diffs. */
+  readonly diffSettings: IDiffSettings
+
+  /** Called when the user changes the context size, ignored changes or wrapping. */
+  readonly onDiffSettingsChanged: (diffSettings: IDiffSettings) => void
+
+  /** Whether we should show blame annotations instead of the diff. */
+  readonly showBlame: boolean
+
+  /** Called when the user changes the show blame setting. */
+  readonly onShowBlameChanged: (showBlame: boolean) => void
+
   /** Called when the user opens the diff options popover */
   readonly onDiffOptionsOpened: () => void
 
@@ -60,6 +74,9 @@ interface ICommitSummaryProps {
 
   /** Called to show unreachable commits dialog */
   readonly showUnreachableCommits: (tab: UnreachableCommitsTab) => void
+
+  /** Called to verify the signature of a commit which hasn't been verified */
+  readonly onVerifyCommitSignature: (sha: string) => void
 }
 
 interface ICommitSummaryState {
@@ -284,6 +301,25 @@ export class CommitSummary extends React.Component<
     if (!this.props.isExpanded) {
       this.updateOverflow()
     }
+
+    this.verifySignature()
+  }
+
+  /**
+   * Verify the signature of the selected commit unless it's been verified
+   * already, i.e. when it was shown in the history.
+   */
+  private verifySignature() {
+    const commit = this.getSelectedCommit()
+
+    if (commit !== null && commit.signatureStatus === null) {
+      this.props.onVerifyCommitSignature(commit.sha)
+    }
+  }
+
+  private getSelectedCommit() {
+    const { selectedCommits } = this.props
+    return selectedCommits.length === 1 ? selectedCommits[0] : null
   }
 
   public componentWillUpdate(nextProps: ICommitSummaryProps) {
@@ -301,6 +337,15 @@ export class CommitSummary extends React.Component<
     prevProps: ICommitSummaryProps,
     prevState: ICommitSummaryState
   ) {
+    const prevSha =
+      prevProps.selectedCommits.length === 1
+        ? prevProps.selectedCommits[0].sha
+        : null
+
+    if (prevSha !== this.getSelectedCommit()?.sha) {
+      this.verifySignature()
+    }
+
     // No need to check if it overflows if we're expanded
     if (!this.props.isExpanded) {
       // If the body has changed or we've just toggled the expanded
@@ -503,6 +548,7 @@ export class CommitSummary extends React.Component<
             {this.renderChangedFilesDescription()}
             {this.renderLinesChanged()}
             {this.renderTags()}
+            {this.renderSignature()}
 
             <li className="commit-summary-meta-item without-truncation">
               <DiffOptions
@@ -515,6 +561,10 @@ export class CommitSummary extends React.Component<
                 onShowSideBySideDiffChanged={
                   this.props.onShowSideBySideDiffChanged
                 }
+                diffSettings={this.props.diffSettings}
+                onDiffSettingsChanged={this.props.onDiffSettingsChanged}
+                showBlame={this.props.showBlame}
+                onShowBlameChanged={this.props.onShowBlameChanged}
                 onDiffOptionsOpened={this.props.onDiffOptionsOpened}
               />
             </li>
@@ -664,4 +714,22 @@ export class CommitSummary extends React.Component<
       </li>
     )
   }
+
+  private renderSignature() {
+    const commit = this.getSelectedCommit()
+
+    if (
+      commit === null ||
+      commit.signatureStatus === null ||
+      commit.signatureStatus === CommitSignatureStatus.None
+    ) {
+      return
+    }
+
+    return (
+      <li className="commit-summary-meta-item without-truncation">
+        <CommitSignatureIndicator status={commit.signatureStatus} />
+      </li>
+    )
+  }
 }
@@ -30,6 +30,12 @@ import { PopupType } from '../../models/popup'
 import { getUniqueCoauthorsAsAuthors } from '../../lib/unique-coauthors-as-authors'
 import { getSquashedCommitDescription } from '../../lib/squash/squashed-commit-description'
 import { doMergeCommitsExistAfterCommit } from '../../lib/git'
+import { predictSquashConflicts } from '../../lib/git/merge-tree'
+import { BisectMark } from '../../models/bisect'
+import { Button } from '../lib/button'
+import { Octicon } from '../octicons'
+import { HistorySearch } from './history-search'
+import { IHistoryFilter } from '../../models/history-filter'
 
 interface ICompareSidebarProps {
   readonly repository: Repository
@@ -56,6 +62,15 @@ interface ICompareSidebarProps {
   readonly aheadBehindStore: AheadBehindStore
   readonly isMultiCommitOperationInProgress?: boolean
   readonly shasToHighlight: ReadonlyArray<string>
+
+  /** Whether the repository is being bisected */
+  readonly isBisecting: boolean
+
+  /**
+   * Whether the history shows the commits of all branches, remote branches and
+   * tags instead of only those of the current branch
+   */
+  readonly showAllBranches: boolean
 }
 
 interface ICompareSidebarState {
@@ -65,6 +80,9 @@ interface ICompareSidebarState {
    * For all other cases, use the prop
    */
   readonly focusedBranch: Branch | null
+
+  /** Whether the history search bar is shown */
+  readonly showHistorySearch: boolean
 }
 
 /** If we're within this many rows from the bottom, load the next history batch. */
@@ -78,13 +96,14 @@ export class CompareSidebar extends React.Component<
   private readonly loadChangedFilesScheduler = new ThrottledScheduler(200)
   private branchList: BranchList | null = null
   private commitListRef = React.createRef<CommitList>()
+  private historySearchRef = React.createRef<HistorySearch>()
   private loadingMoreCommitsPromise: Promise<void> | null = null
   private resultCount = 0
 
   public constructor(props: ICompareSidebarProps) {
     super(props)
 
-    this.state = { focusedBranch: null }
+    this.state = { focusedBranch: null, showHistorySearch: false }
   }
 
   public componentWillReceiveProps(nextProps: ICompareSidebarProps) {
@@ -170,8 +189,36 @@ export class CompareSidebar extends React.Component<
             onKeyDown={this.onBranchFilterKeyDown}
             onSearchCleared={this.handleEscape}
           />
+          <Button
+            className="show-all-branches-button"
+            ariaLabel="Show all branches"
+            tooltip="Show the commits of all branches, remote branches and tags"
+            ariaPressed={this.props.showAllBranches}
+            onClick={this.onShowAllBranchesClicked}
+          >
+            <Octicon symbol={OcticonSymbol.gitMerge} />
+          </Button>
+          <Button
+            className="history-search-button"
+            ariaLabel="Search history"
+            tooltip="Search commits by message, author, path, date or content"
+            ariaPressed={this.isHistorySearchShown()}
+            onClick={this.onHistorySearchClicked}
+          >
+            <Octicon symbol={OcticonSymbol.search} />
+          </Button>
         </div>
 
+        {this.isHistorySearchShown() && (
+          <HistorySearch
+            ref={this.historySearchRef}
+            filters={this.props.compareState.historyFilters}
+            isSearching={this.props.compareState.isSearchingHistory}
+            resultCount={this.props.compareState.commitSHAs.length}
+            onFiltersChanged={this.onHistoryFiltersChanged}
+          />
+        )}
+
         {showBranchList ? this.renderFilterList() : this.renderCommits()}
       </div>
     )
@@ -206,12 +253,66 @@ export class CompareSidebar extends React.Component<
     })
   }
 
+  private isHistorySearchShown() {
+    return (
+      this.state.showHistorySearch ||
+      this.props.compareState.historyFilters.length > 0
+    )
+  }
+
+  private onHistorySearchClicked = () => {
+    if (this.isHistorySearchShown()) {
+      this.setState({ showHistorySearch: false })
+
+      if (this.props.compareState.historyFilters.length > 0) {
+        this.onHistoryFiltersChanged([])
+      }
+    } else {
+      this.setState({ showHistorySearch: true }, () =>
+        this.historySearchRef.current?.focus()
+      )
+    }
+  }
+
+  private onHistoryFiltersChanged = (
+    filters: ReadonlyArray<IHistoryFilter>
+  ) => {
+    this.props.dispatcher.searchHistory(this.props.repository, filters)
+  }
+
+  private onShowAllBranchesClicked = () => {
+    this.props.dispatcher.setShowAllBranchesInHistory(
+      this.props.repository,
+      !this.props.showAllBranches
+    )
+  }
+
   private renderCommitList() {
-    const { formState, commitSHAs } = this.props.compareState
+    const {
+      formState,
+      commitSHAs,
+      historyIncludesAllBranches,
+      historyFilters,
+    } = this.props.compareState
+    const isHistory = formState.kind === HistoryTabMode.History
+    const isSearch = historyFilters.length > 0
+
+    // Commits of other branches can't be undone, amended, reset to or
+    // reordered, and the position of a commit in the list no longer tells
+    // whether it's on the current branch. The same goes for search results,
+    // which also leave out the parents needed to draw the commit graph.
+    const canRewriteHistory =
+      isHistory && !historyIncludesAllBranches && !isSearch
 
     let emptyListMessage: string | JSX.Element
     if (formState.kind === HistoryTabMode.History) {
-      emptyListMessage = 'No history'
+      const { historyFilters, isSearchingHistory } = this.props.compareState
+      emptyListMessage =
+        historyFilters.length === 0
+          ? 'No history'
+          : isSearchingHistory
+          ? 'Searching…'
+          : 'No commits match the search'
     } else {
       const currentlyComparedBranchName = formState.comparisonBranch.name
 
@@ -239,11 +340,13 @@ export class CompareSidebar extends React.Component<
         selectedSHAs={this.props.selectedCommitShas}
         shasToHighlight={this.props.shasToHighlight}
         localCommitSHAs={this.props.localCommitSHAs}
-        canResetToCommits={formState.kind === HistoryTabMode.History}
-        canUndoCommits={formState.kind === HistoryTabMode.History}
-        canAmendCommits={formState.kind === HistoryTabMode.History}
+        canResetToCommits={canRewriteHistory}
+        canUndoCommits={canRewriteHistory}
+        canAmendCommits={canRewriteHistory}
+        showCommitGraph={isHistory && !isSearch}
+        onVerifyCommitSignatures={this.onVerifyCommitSignatures}
         emoji={this.props.emoji}
-        reorderingEnabled={formState.kind === HistoryTabMode.History}
+        reorderingEnabled={canRewriteHistory}
         onViewCommitOnGitHub={this.props.onViewCommitOnGitHub}
         onUndoCommit={this.onUndoCommit}
         onResetToCommit={this.onResetToCommit}
@@ -262,16 +365,20 @@ export class CompareSidebar extends React.Component<
         onCherryPick={this.onCherryPick}
         onDropCommitInsertion={this.onDropCommitInsertion}
         onSquash={this.onSquash}
+        onInteractiveRebase={this.onInteractiveRebase}
         emptyListMessage={emptyListMessage}
         onCompareListScrolled={this.props.onCompareListScrolled}
         compareListScrollTop={this.props.compareListScrollTop}
         tagsToPush={this.props.tagsToPush ?? []}
         onRenderCommitDragElement={this.onRenderCommitDragElement}
         onRemoveCommitDragElement={this.onRemoveCommitDragElement}
-        disableSquashing={formState.kind === HistoryTabMode.Compare}
+        disableSquashing={!canRewriteHistory}
         isMultiCommitOperationInProgress={
           this.props.isMultiCommitOperationInProgress
         }
+        isBisecting={this.props.isBisecting}
+        onStartBisect={this.onStartBisect}
+        onMarkBisectCommit={this.onMarkBisectCommit}
       />
     )
   }
@@ -486,6 +593,10 @@ export class CompareSidebar extends React.Component<
     })
   }
 
+  private onVerifyCommitSignatures = (shas: ReadonlyArray<string>) => {
+    this.props.dispatcher.verifyCommitSignatures(this.props.repository, shas)
+  }
+
   private onScroll = (start: number, end: number) => {
     const compareState = this.props.compareState
     const formState = compareState.formState
@@ -623,6 +734,45 @@ export class CompareSidebar extends React.Component<
     this.props.onCherryPick(this.props.repository, commits)
   }
 
+  private onStartBisect = (bad: CommitOneLine, good: CommitOneLine | null) => {
+    this.props.dispatcher.startBisect(this.props.repository, bad, good)
+  }
+
+  private onMarkBisectCommit = (commit: CommitOneLine, mark: BisectMark) => {
+    this.props.dispatcher.markBisectCommit(
+      this.props.repository,
+      mark,
+      commit.sha
+    )
+  }
+
+  private onInteractiveRebase = async (
+    commits: ReadonlyArray<Commit>,
+    lastRetainedCommitRef: string | null
+  ) => {
+    if (
+      await doMergeCommitsExistAfterCommit(
+        this.props.repository,
+        lastRetainedCommitRef
+      )
+    ) {
+      defaultErrorHandler(
+        new Error(
+          `Unable to rebase interactively. An interactive rebase replays all commits up to the most recent one. A merge commit cannot exist among those commits.`
+        ),
+        this.props.dispatcher
+      )
+      return
+    }
+
+    this.props.dispatcher.showPopup({
+      type: PopupType.InteractiveRebase,
+      repository: this.props.repository,
+      commits,
+      lastRetainedCommitRef,
+    })
+  }
+
   private onSquash = async (
     toSquash: ReadonlyArray<Commit>,
     squashOnto: Commit,
@@ -680,6 +830,14 @@ export class CompareSidebar extends React.Component<
         )
         return true
       },
+      predictConflicts: (signal: AbortSignal) =>
+        predictSquashConflicts(
+          this.props.repository,
+          toSquashSansSquashOnto,
+          squashOnto,
+          lastRetainedCommitRef,
+          signal
+        ),
     })
   }
 }
@@ -9,7 +9,7 @@ interface IFileListProps {
   readonly files: ReadonlyArray<CommittedFileChange>
   readonly selectedFile: CommittedFileChange | null
   readonly onSelectedFileChanged: (file: CommittedFileChange) => void
-  readonly onRowDoubleClick: (row: number, source: ClickSource) => void
+  readonly onRowDoubleClick?: (row: number, source: ClickSource) => void
   readonly availableWidth: number
   readonly onContextMenu?: (
     file: CommittedFileChange,
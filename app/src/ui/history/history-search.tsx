@@ -0,0 +1,168 @@
+import * as React from 'react'
+import {
+  getHistoryFilterLabel,
+  IHistoryFilter,
+  parseHistoryFilters,
+} from '../../models/history-filter'
+import { TextBox } from '../lib/text-box'
+import { Button } from '../lib/button'
+import { LinkButton } from '../lib/link-button'
+import { Loading } from '../lib/loading'
+import { Octicon } from '../octicons'
+import * as OcticonSymbol from '../octicons/octicons.generated'
+
+interface IHistoryFilterChipProps {
+  readonly filter: IHistoryFilter
+  readonly index: number
+  readonly onRemove: (index: number) => void
+}
+
+class HistoryFilterChip extends React.Component<IHistoryFilterChipProps> {
+  private onRemove = () => {
+    this.props.onRemove(this.props.index)
+  }
+
+  public render() {
+    const label = getHistoryFilterLabel(this.props.filter)
+
+    return (
+      <li className="history-filter-chip">
+        <span className="label" title={label}>
+          {label}
+        </span>
+        <Button
+          className="remove-filter"
+          ariaLabel={`Remove filter ${label}`}
+          onClick={this.onRemove}
+        >
+          <Octicon symbol={OcticonSymbol.x} />
+        </Button>
+      </li>
+    )
+  }
+}
+
+interface IHistorySearchProps {
+  /** The filters the history is currently searched with */
+  readonly filters: ReadonlyArray<IHistoryFilter>
+
+  /** Whether more commits matching the filters are still being searched */
+  readonly isSearching: boolean
+
+  /** The number of commits found so far */
+  readonly resultCount: number
+
+  /** Called with the new filters when filters are added or removed */
+  readonly onFiltersChanged: (filters: ReadonlyArray<IHistoryFilter>) => void
+}
+
+interface IHistorySearchState {
+  /** The query typed but not yet turned into filters */
+  readonly query: string
+}
+
+/**
+ * A search bar for the history. Queries are turned into filter chips when
+ * submitted, which can then be removed individually.
+ */
+export class HistorySearch extends React.Component<
+  IHistorySearchProps,
+  IHistorySearchState
+> {
+  private textBoxRef = React.createRef<TextBox>()
+
+  public constructor(props: IHistorySearchProps) {
+    super(props)
+    this.state = { query: '' }
+  }
+
+  public focus() {
+    this.textBoxRef.current?.focus()
+  }
+
+  private onQueryChanged = (query: string) => {
+    this.setState({ query })
+  }
+
+  private onKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    const { filters } = this.props
+
+    if (event.key === 'Enter') {
+      event.preventDefault()
+      const added = parseHistoryFilters(this.state.query)
+      this.setState({ query: '' })
+
+      if (added.length > 0) {
+        this.props.onFiltersChanged([...filters, ...added])
+      }
+    } else if (
+      event.key === 'Backspace' &&
+      this.state.query.length === 0 &&
+      filters.length > 0
+    ) {
+      event.preventDefault()
+      this.props.onFiltersChanged(filters.slice(0, -1))
+    }
+  }
+
+  private onRemoveFilter = (index: number) => {
+    this.props.onFiltersChanged(
+      this.props.filters.filter((_, i) => i !== index)
+    )
+  }
+
+  private onClearFilters = () => {
+    this.props.onFiltersChanged([])
+  }
+
+  public render() {
+    return (
+      <div className="history-search">
+        <TextBox
+          ref={this.textBoxRef}
+          type="search"
+          placeholder="Search commits"
+          ariaLabel="Search commits. Use author:, path:, since:, until:, content: or regex: to filter by other fields."
+          value={this.state.query}
+          onValueChanged={this.onQueryChanged}
+          onKeyDown={this.onKeyDown}
+        />
+        {this.renderFilters()}
+      </div>
+    )
+  }
+
+  private renderFilters() {
+    const { filters, isSearching, resultCount } = this.props
+
+    if (filters.length === 0) {
+      return (
+        <div className="history-search-hint">
+          Filter with <code>author:</code>, <code>path:</code>,{' '}
+          <code>since:</code>, <code>until:</code>, <code>content:</code> or{' '}
+          <code>regex:</code>
+        </div>
+      )
+    }
+
+    return (
+      <div className="history-filter-chips">
+        <ul aria-label="Search filters">
+          {filters.map((filter, index) => (
+            <HistoryFilterChip
+              key={index}
+              filter={filter}
+              index={index}
+              onRemove={this.onRemoveFilter}
+            />
+          ))}
+        </ul>
+        <div className="history-search-status" aria-live="polite">
+          {isSearching && <Loading />}
+          {resultCount === 1 ? '1 commit' : `${resultCount} commits`}
+        </div>
+        <LinkButton onClick={this.onClearFilters}>Clear</LinkButton>
+      </div>
+    )
+  }
+}
@@ -5,7 +5,8 @@ import * as Path from 'path'
 import { Repository } from '../../models/repository'
 import { CommittedFileChange } from '../../models/status'
 import { Commit } from '../../models/commit'
-import { IDiff, ImageDiffType } from '../../models/diff'
+import { PopupType } from '../../models/popup'
+import { IDiff, IDiffSettings, ImageDiffType } from '../../models/diff'
 
 import { encodePathAsUrl } from '../../lib/path'
 import { revealInFileManager } from '../../lib/app-shell'
@@ -18,6 +19,7 @@ import {
   RevealInFileManagerLabel,
   OpenWithDefaultProgramLabel,
   CopyRelativeFilePathLabel,
+  ShowFileHistoryLabel,
 } from '../lib/context-menu'
 import { ThrottledScheduler } from '../lib/throttled-scheduler'
 
@@ -64,6 +66,12 @@ interface ISelectedCommitsProps {
   /** Whether we should display side by side diffs. */
   readonly showSideBySideDiff: boolean
 
+  /** The context size, ignored changes and wrapping of diffs. */
+  readonly diffSettings: IDiffSettings
+
+  /** Whether we should show blame annotations instead of the diff. */
+  readonly showBlame: boolean
+
   /**
    * Called when the user requests to open a binary file in an the
    * system-assigned application for said file type.
@@ -167,10 +175,13 @@ export class SelectedCommits extends React.Component<
         readOnly={true}
         hideWhitespaceInDiff={this.props.hideWhitespaceInDiff}
         showSideBySideDiff={this.props.showSideBySideDiff}
+        softWrap={this.props.diffSettings.softWrap}
+        showBlame={this.props.showBlame}
+        onViewCommitInHistory={this.onViewCommitInHistory}
         onOpenBinaryFile={this.props.onOpenBinaryFile}
         onChangeImageDiffType={this.props.onChangeImageDiffType}
-        onHideWhitespaceInDiffChanged={this.onHideWhitespaceInDiffChanged}
         onOpenSubmodule={this.props.onOpenSubmodule}
+        emoji={this.props.emoji}
       />
     )
   }
@@ -191,13 +202,22 @@ export class SelectedCommits extends React.Component<
         showSideBySideDiff={this.props.showSideBySideDiff}
         onHideWhitespaceInDiffChanged={this.onHideWhitespaceInDiffChanged}
         onShowSideBySideDiffChanged={this.onShowSideBySideDiffChanged}
+        diffSettings={this.props.diffSettings}
+        onDiffSettingsChanged={this.onDiffSettingsChanged}
+        showBlame={this.props.showBlame}
+        onShowBlameChanged={this.onShowBlameChanged}
         onDiffOptionsOpened={this.props.onDiffOptionsOpened}
         onHighlightShas={this.onHighlightShas}
         showUnreachableCommits={this.showUnreachableCommits}
+        onVerifyCommitSignature={this.onVerifyCommitSignature}
       />
     )
   }
 
+  private onVerifyCommitSignature = (sha: string) => {
+    this.props.dispatcher.verifyCommitSignatures(this.props.repository, [sha])
+  }
+
   private showUnreachableCommits = (selectedTab: UnreachableCommitsTab) => {
     this.props.dispatcher.showUnreachableCommits(selectedTab)
   }
@@ -230,10 +250,25 @@ export class SelectedCommits extends React.Component<
     )
   }
 
+  private onDiffSettingsChanged = (diffSettings: IDiffSettings) => {
+    this.props.dispatcher.updateDiffSettings(
+      this.props.repository,
+      diffSettings
+    )
+  }
+
   private onShowSideBySideDiffChanged = (showSideBySideDiff: boolean) => {
     this.props.dispatcher.onShowSideBySideDiffChanged(showSideBySideDiff)
   }
 
+  private onShowBlameChanged = (showBlame: boolean) => {
+    this.props.dispatcher.onShowBlameChanged(showBlame)
+  }
+
+  private onViewCommitInHistory = (sha: string) => {
+    this.props.dispatcher.selectCommitInHistory(this.props.repository, sha)
+  }
+
   private onCommitSummaryReset = () => {
     this.props.dispatcher.resetCommitSummaryWidth()
   }
@@ -359,6 +394,11 @@ export class SelectedCommits extends React.Component<
       externalEditorLabel,
     } = this.props
 
+    const showFileHistoryItem: IMenuItem = {
+      label: ShowFileHistoryLabel,
+      action: () => this.onShowFileHistory(file),
+    }
+
     const fullPath = Path.join(repository.path, file.path)
     const fileExistsOnDisk = await pathExists(fullPath)
     if (!fileExistsOnDisk) {
@@ -369,6 +409,8 @@ export class SelectedCommits extends React.Component<
             : 'File does not exist on disk',
           enabled: false,
         },
+        { type: 'separator' },
+        showFileHistoryItem,
       ])
       return
     }
@@ -406,6 +448,8 @@ export class SelectedCommits extends React.Component<
         action: () => clipboard.writeText(Path.normalize(file.path)),
       },
       { type: 'separator' },
+      showFileHistoryItem,
+      { type: 'separator' },
     ]
 
     let viewOnGitHubLabel = 'View on GitHub'
@@ -431,6 +475,15 @@ export class SelectedCommits extends React.Component<
     showContextualMenu(items)
   }
 
+  private onShowFileHistory = (file: CommittedFileChange) => {
+    this.props.dispatcher.showPopup({
+      type: PopupType.FileHistory,
+      repository: this.props.repository,
+      path: file.path,
+      revision: file.commitish,
+    })
+  }
+
   private onViewOnGitHub = (sha: string, file: CommittedFileChange) => {
     this.props.onViewCommitOnGitHub(sha, file.path)
   }
@@ -0,0 +1,90 @@
+import * as React from 'react'
+import { Dialog, DialogContent, DialogFooter } from '../dialog'
+import { OkCancelButtonGroup } from '../dialog/ok-cancel-button-group'
+import { Dispatcher } from '../dispatcher'
+import { Repository } from '../../models/repository'
+import { RetryAction } from '../../models/retry-actions'
+import { Ref } from '../lib/ref'
+
+interface IHookFailedProps {
+  readonly dispatcher: Dispatcher
+  readonly repository: Repository
+
+  /** The name of the hook which failed, i.e. `pre-commit` */
+  readonly hookName: string
+
+  /** The output of the failed operation, including that of the hook */
+  readonly output: string
+
+  /** The commit to retry without running the hooks */
+  readonly retryAction: RetryAction
+
+  readonly onDismissed: () => void
+}
+
+interface IHookFailedState {
+  readonly retrying: boolean
+}
+
+/**
+ * A dialog shown when a hook prevented a commit from being created which
+ * offers to create the commit without running the hooks (`--no-verify`).
+ */
+export class HookFailed extends React.Component<
+  IHookFailedProps,
+  IHookFailedState
+> {
+  public constructor(props: IHookFailedProps) {
+    super(props)
+    this.state = { retrying: false }
+  }
+
+  public render() {
+    const { hookName, output } = this.props
+    const { retrying } = this.state
+
+    return (
+      <Dialog
+        id="hook-failed"
+        type="error"
+        title={__DARWIN__ ? 'Hook Failed' : 'Hook failed'}
+        loading={retrying}
+        disabled={retrying}
+        onSubmit={this.onCommitWithoutHooks}
+        onDismissed={this.props.onDismissed}
+      >
+        <DialogContent>
+          <p>
+            The <Ref>{hookName}</Ref> hook prevented the commit from being
+            created.
+          </p>
+          {output.trim().length > 0 && (
+            <pre className="hook-failed-output">{output}</pre>
+          )}
+          <p>
+            You can commit without running the <Ref>pre-commit</Ref> and{' '}
+            <Ref>commit-msg</Ref> hooks, but the checks they perform will be
+            skipped.
+          </p>
+        </DialogContent>
+        <DialogFooter>
+          <OkCancelButtonGroup
+            okButtonText={
+              __DARWIN__ ? 'Commit Without Hooks' : 'Commit without hooks'
+            }
+            cancelButtonText="Close"
+            destructive={true}
+          />
+        </DialogFooter>
+      </Dialog>
+    )
+  }
+
+  private onCommitWithoutHooks = async () => {
+    const { dispatcher, retryAction } = this.props
+
+    this.setState({ retrying: true })
+    await dispatcher.performRetry(retryAction)
+    this.props.onDismissed()
+  }
+}
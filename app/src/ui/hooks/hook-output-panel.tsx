@@ -0,0 +1,74 @@
+import * as React from 'react'
+import { getHookManagerName, IHookOutput } from '../../models/hooks'
+import { Button } from '../lib/button'
+import { Octicon } from '../octicons'
+import * as OcticonSymbol from '../octicons/octicons.generated'
+
+interface IHookOutputPanelProps {
+  readonly hookOutput: IHookOutput
+  readonly onDismissed: () => void
+}
+
+/**
+ * A panel streaming the output of the hooks Git runs while committing or
+ * pushing, which remains visible after the operation until dismissed.
+ */
+export class HookOutputPanel extends React.Component<IHookOutputPanelProps> {
+  private outputRef = React.createRef<HTMLPreElement>()
+
+  public componentDidMount() {
+    this.scrollToBottom()
+  }
+
+  public componentDidUpdate(prevProps: IHookOutputPanelProps) {
+    if (prevProps.hookOutput.lines !== this.props.hookOutput.lines) {
+      this.scrollToBottom()
+    }
+  }
+
+  private scrollToBottom() {
+    const output = this.outputRef.current
+    if (output !== null) {
+      output.scrollTop = output.scrollHeight
+    }
+  }
+
+  public render() {
+    const { lines, isRunning } = this.props.hookOutput
+
+    return (
+      <div className="hook-output-panel" role="region" aria-label="Hook output">
+        <div className="header">
+          {isRunning && (
+            <Octicon className="spin" symbol={OcticonSymbol.sync} />
+          )}
+          <span className="title">{this.getTitle()}</span>
+          {!isRunning && (
+            <Button
+              className="close"
+              onClick={this.props.onDismissed}
+              ariaLabel="Dismiss hook output"
+              tooltip="Dismiss"
+            >
+              <Octicon symbol={OcticonSymbol.x} />
+            </Button>
+          )}
+        </div>
+        <pre className="output" ref={this.outputRef} aria-live="polite">
+          {lines.join('\n')}
+        </pre>
+      </div>
+    )
+  }
+
+  private getTitle() {
+    const { hookName, manager, isRunning } = this.props.hookOutput
+    const hook = hookName === null ? 'hooks' : `${hookName} hook`
+    const managedBy =
+      manager === null ? '' : ` (${getHookManagerName(manager)})`
+
+    return isRunning
+      ? `Running ${hook}${managedBy}…`
+      : `Output of ${hook}${managedBy}`
+  }
+}
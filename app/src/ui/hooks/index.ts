@@ -0,0 +1,2 @@
+export { HookFailed } from './hook-failed-dialog'
+export { HookOutputPanel } from './hook-output-panel'
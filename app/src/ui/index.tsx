@@ -22,6 +22,7 @@ import {
   samlReauthRequired,
   insufficientGitHubRepoPermissions,
   discardChangesHandler,
+  hookFailedHandler,
 } from './dispatcher'
 import {
   AppStore,
@@ -315,6 +316,7 @@ dispatcher.registerErrorHandler(localChangesOverwrittenHandler)
 dispatcher.registerErrorHandler(rebaseConflictsHandler)
 dispatcher.registerErrorHandler(refusedWorkflowUpdate)
 dispatcher.registerErrorHandler(discardChangesHandler)
+dispatcher.registerErrorHandler(hookFailedHandler)
 
 document.body.classList.add(`platform-${process.platform}`)
 
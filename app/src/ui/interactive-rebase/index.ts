@@ -0,0 +1 @@
+export { InteractiveRebaseDialog } from './interactive-rebase-dialog'
@@ -0,0 +1,159 @@
+import * as React from 'react'
+import { Dialog, DialogContent, DialogError, DialogFooter } from '../dialog'
+import { OkCancelButtonGroup } from '../dialog/ok-cancel-button-group'
+import { Dispatcher } from '../dispatcher'
+import { Repository } from '../../models/repository'
+import { Commit } from '../../models/commit'
+import {
+  IInteractiveRebasePreviewCommit,
+  IInteractiveRebaseStep,
+  InteractiveRebaseAction,
+} from '../../models/interactive-rebase'
+import {
+  getInteractiveRebasePreview,
+  validateInteractiveRebase,
+} from '../../lib/interactive-rebase'
+import { InteractiveRebaseStep } from './interactive-rebase-step'
+
+interface IInteractiveRebaseDialogProps {
+  readonly dispatcher: Dispatcher
+  readonly repository: Repository
+
+  /** The commits to rebase, from the oldest to the newest */
+  readonly commits: ReadonlyArray<Commit>
+
+  /**
+   * The commit before the oldest commit to rebase, or null if the oldest
+   * commit is the root of the branch
+   */
+  readonly lastRetainedCommitRef: string | null
+
+  readonly onDismissed: () => void
+}
+
+interface IInteractiveRebaseDialogState {
+  /** What to do with each of the commits, from the oldest to the newest */
+  readonly steps: ReadonlyArray<IInteractiveRebaseStep>
+}
+
+/**
+ * A dialog for rebasing a range of commits interactively, picking what to do
+ * with each of them and previewing the history which would result.
+ */
+export class InteractiveRebaseDialog extends React.Component<
+  IInteractiveRebaseDialogProps,
+  IInteractiveRebaseDialogState
+> {
+  public constructor(props: IInteractiveRebaseDialogProps) {
+    super(props)
+
+    this.state = {
+      steps: props.commits.map(commit => ({
+        commit,
+        action: InteractiveRebaseAction.Pick,
+        message: null,
+        exec: null,
+      })),
+    }
+  }
+
+  private onStepChanged = (index: number, step: IInteractiveRebaseStep) => {
+    const steps = [...this.state.steps]
+    steps[index] = step
+    this.setState({ steps })
+  }
+
+  private onSubmit = () => {
+    const { dispatcher, repository, lastRetainedCommitRef } = this.props
+    const { steps } = this.state
+
+    if (validateInteractiveRebase(steps) !== null) {
+      return
+    }
+
+    this.props.onDismissed()
+    dispatcher.interactiveRebase(repository, steps, lastRetainedCommitRef)
+  }
+
+  public render() {
+    const { steps } = this.state
+    const error = validateInteractiveRebase(steps)
+
+    return (
+      <Dialog
+        className="interactive-rebase"
+        title={__DARWIN__ ? 'Interactive Rebase' : 'Interactive rebase'}
+        onSubmit={this.onSubmit}
+        onDismissed={this.props.onDismissed}
+      >
+        {error !== null && <DialogError>{error}</DialogError>}
+        <DialogContent>
+          <div className="interactive-rebase-columns">
+            <div className="interactive-rebase-steps">
+              <h3>Commits, oldest first</h3>
+              <ul>
+                {steps.map((step, index) => (
+                  <InteractiveRebaseStep
+                    key={step.commit.sha}
+                    step={step}
+                    index={index}
+                    onStepChanged={this.onStepChanged}
+                  />
+                ))}
+              </ul>
+            </div>
+            {this.renderPreview()}
+          </div>
+        </DialogContent>
+        <DialogFooter>
+          <OkCancelButtonGroup
+            okButtonText={__DARWIN__ ? 'Start Rebase' : 'Start rebase'}
+            okButtonDisabled={error !== null}
+          />
+        </DialogFooter>
+      </Dialog>
+    )
+  }
+
+  private renderPreview() {
+    const preview = getInteractiveRebasePreview(this.state.steps)
+    const count =
+      preview.length === 1 ? '1 commit' : `${preview.length} commits`
+
+    return (
+      <div className="interactive-rebase-preview">
+        <h3>Resulting history, {count}</h3>
+        <ul>
+          {preview.map(c => (
+            <li key={c.commits[0].sha}>{this.renderPreviewCommit(c)}</li>
+          ))}
+        </ul>
+      </div>
+    )
+  }
+
+  private renderPreviewCommit(commit: IInteractiveRebasePreviewCommit) {
+    const { summary, commits, stopsToEdit, execs } = commit
+
+    return (
+      <>
+        <div className="summary" title={summary}>
+          {summary}
+        </div>
+        {commits.length > 1 && (
+          <div className="note">Combines {commits.length} commits</div>
+        )}
+        {stopsToEdit && (
+          <div className="note">Stops so the commit can be amended</div>
+        )}
+        {execs
+          .filter(e => e.trim().length > 0)
+          .map((e, i) => (
+            <div className="note" key={i}>
+              Then runs <code>{e}</code>
+            </div>
+          ))}
+      </>
+    )
+  }
+}
@@ -0,0 +1,148 @@
+import * as React from 'react'
+import {
+  IInteractiveRebaseStep,
+  InteractiveRebaseAction,
+} from '../../models/interactive-rebase'
+import { Select } from '../lib/select'
+import { TextArea } from '../lib/text-area'
+import { TextBox } from '../lib/text-box'
+import { LinkButton } from '../lib/link-button'
+
+/** The actions a commit can be replayed with, in the order they're listed */
+const Actions: ReadonlyArray<{
+  readonly action: InteractiveRebaseAction
+  readonly label: string
+}> = [
+  { action: InteractiveRebaseAction.Pick, label: 'Pick' },
+  { action: InteractiveRebaseAction.Reword, label: 'Reword' },
+  { action: InteractiveRebaseAction.Edit, label: 'Edit' },
+  { action: InteractiveRebaseAction.Squash, label: 'Squash' },
+  { action: InteractiveRebaseAction.Fixup, label: 'Fixup' },
+  { action: InteractiveRebaseAction.Drop, label: 'Drop' },
+]
+
+interface IInteractiveRebaseStepProps {
+  readonly step: IInteractiveRebaseStep
+
+  /** The index of the step, from the oldest commit to the newest */
+  readonly index: number
+
+  /** Called with the index of the step and the step replacing it */
+  readonly onStepChanged: (index: number, step: IInteractiveRebaseStep) => void
+}
+
+/** Get the full message of a commit to start rewording it from */
+function getInitialMessage(step: IInteractiveRebaseStep) {
+  const { summary, body } = step.commit
+  return body.trim().length > 0 ? `${summary}\n\n${body.trim()}` : summary
+}
+
+/**
+ * A commit of the interactive rebase dialog along with the action to replay it
+ * with, the new message when rewording it and the command to run after it.
+ */
+export class InteractiveRebaseStep extends React.Component<IInteractiveRebaseStepProps> {
+  private update(changes: Partial<IInteractiveRebaseStep>) {
+    const { step, index } = this.props
+    this.props.onStepChanged(index, { ...step, ...changes })
+  }
+
+  private onActionChanged = (event: React.FormEvent<HTMLSelectElement>) => {
+    const action = event.currentTarget.value as InteractiveRebaseAction
+    const { step } = this.props
+
+    this.update({
+      action,
+      message:
+        action === InteractiveRebaseAction.Reword && step.message === null
+          ? getInitialMessage(step)
+          : step.message,
+    })
+  }
+
+  private onMessageChanged = (message: string) => {
+    this.update({ message })
+  }
+
+  private onExecChanged = (exec: string) => {
+    this.update({ exec })
+  }
+
+  private onAddExec = () => {
+    this.update({ exec: '' })
+  }
+
+  private onRemoveExec = () => {
+    this.update({ exec: null })
+  }
+
+  public render() {
+    const { step } = this.props
+    const { commit, action } = step
+
+    return (
+      <li className={`interactive-rebase-step ${action}`}>
+        <div className="step-header">
+          <Select value={action} onChange={this.onActionChanged}>
+            {Actions.map(a => (
+              <option key={a.action} value={a.action}>
+                {a.label}
+              </option>
+            ))}
+          </Select>
+          <span className="sha">{commit.shortSha}</span>
+          <span className="summary" title={commit.summary}>
+            {commit.summary}
+          </span>
+        </div>
+        {this.renderMessage()}
+        {this.renderExec()}
+      </li>
+    )
+  }
+
+  private renderMessage() {
+    const { action, message } = this.props.step
+
+    if (action !== InteractiveRebaseAction.Reword) {
+      return null
+    }
+
+    return (
+      <TextArea
+        label={__DARWIN__ ? 'New Message' : 'New message'}
+        textareaClassName="step-message"
+        rows={3}
+        value={message ?? ''}
+        onValueChanged={this.onMessageChanged}
+      />
+    )
+  }
+
+  private renderExec() {
+    const { action, exec } = this.props.step
+
+    if (action === InteractiveRebaseAction.Drop) {
+      return null
+    }
+
+    if (exec === null) {
+      return (
+        <LinkButton className="step-add-exec" onClick={this.onAddExec}>
+          Run a command after this commit
+        </LinkButton>
+      )
+    }
+
+    return (
+      <div className="step-exec">
+        <TextBox
+          placeholder="Command to run, e.g. npm test"
+          value={exec}
+          onValueChanged={this.onExecChanged}
+        />
+        <LinkButton onClick={this.onRemoveExec}>Remove</LinkButton>
+      </div>
+    )
+  }
+}
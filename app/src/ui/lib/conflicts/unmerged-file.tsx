@@ -72,6 +72,12 @@ export const renderUnmergedFile: React.FunctionComponent<{
   /** name of the resolved external editor */
   readonly resolvedExternalEditor: string | null
   readonly openFileInExternalEditor: (path: string) => void
+  /**
+   * Callback to resolve the conflict markers of the file at the given path,
+   * relative to the repository, in the built-in conflict editor. The option
+   * isn't offered when this isn't given.
+   */
+  readonly onOpenConflictEditor?: (path: string) => void
   readonly dispatcher: Dispatcher
 }> = props => {
   if (
@@ -84,6 +90,10 @@ export const renderUnmergedFile: React.FunctionComponent<{
       resolvedExternalEditor: props.resolvedExternalEditor,
       onOpenEditorClick: () =>
         props.openFileInExternalEditor(join(props.repository.path, props.path)),
+      onOpenConflictEditorClick:
+        props.onOpenConflictEditor !== undefined
+          ? () => props.onOpenConflictEditor?.(props.path)
+          : undefined,
       repository: props.repository,
       dispatcher: props.dispatcher,
       ourBranch: props.ourBranch,
@@ -108,6 +118,12 @@ export const renderUnmergedFile: React.FunctionComponent<{
     status: props.status,
     repository: props.repository,
     dispatcher: props.dispatcher,
+    onReviewClick: () =>
+      props.resolvedExternalEditor !== null
+        ? props.openFileInExternalEditor(
+            join(props.repository.path, props.path)
+          )
+        : openFile(join(props.repository.path, props.path), props.dispatcher),
     manualResolution: props.manualResolution,
     branch: getBranchForResolution(
       props.manualResolution,
@@ -125,6 +141,8 @@ const renderResolvedFile: React.FunctionComponent<{
   readonly manualResolution?: ManualConflictResolution
   readonly branch?: string
   readonly dispatcher: Dispatcher
+  /** Opens the file so the user can review how it was resolved */
+  readonly onReviewClick: () => void
 }> = props => {
   return (
     <li key={props.path} className="unmerged-file-status-resolved">
@@ -138,6 +156,7 @@ const renderResolvedFile: React.FunctionComponent<{
           manualResolution: props.manualResolution,
           repository: props.repository,
           dispatcher: props.dispatcher,
+          onReviewClick: props.onReviewClick,
         })}
       </div>
       <div className="green-circle">
@@ -219,6 +238,7 @@ const renderConflictedFileWithConflictMarkers: React.FunctionComponent<{
   readonly status: ConflictsWithMarkers
   readonly resolvedExternalEditor: string | null
   readonly onOpenEditorClick: () => void
+  readonly onOpenConflictEditorClick?: () => void
   readonly repository: Repository
   readonly dispatcher: Dispatcher
   readonly ourBranch?: string
@@ -240,9 +260,31 @@ const renderConflictedFileWithConflictMarkers: React.FunctionComponent<{
     props.dispatcher,
     props.status,
     props.ourBranch,
-    props.theirBranch
+    props.theirBranch,
+    props.onOpenConflictEditorClick
   )
 
+  // Without an external editor the built-in conflict editor takes its place
+  // rather than leaving the user with a disabled button.
+  const primaryButton =
+    disabled && props.onOpenConflictEditorClick !== undefined ? (
+      <Button
+        onClick={props.onOpenConflictEditorClick}
+        className="small-button button-group-item"
+      >
+        {conflictEditorButtonString}
+      </Button>
+    ) : (
+      <Button
+        onClick={props.onOpenEditorClick}
+        disabled={disabled}
+        tooltip={tooltip}
+        className="small-button button-group-item"
+      >
+        {editorButtonString(props.resolvedExternalEditor)}
+      </Button>
+    )
+
   const content = (
     <>
       <div className="column-left">
@@ -250,14 +292,7 @@ const renderConflictedFileWithConflictMarkers: React.FunctionComponent<{
         <div className="file-conflicts-status">{message}</div>
       </div>
       <div className="action-buttons">
-        <Button
-          onClick={props.onOpenEditorClick}
-          disabled={disabled}
-          tooltip={tooltip}
-          className="small-button button-group-item"
-        >
-          {editorButtonString(props.resolvedExternalEditor)}
-        </Button>
+        {primaryButton}
         <Button
           onClick={onDropdownClick}
           className="small-button button-group-item arrow-menu"
@@ -307,6 +342,15 @@ const makeUndoManualResolutionClickHandler = (
     )
 }
 
+/** makes a click handling function for forgetting a recorded resolution */
+const makeForgetRecordedResolutionClickHandler = (
+  relativeFilePath: string,
+  repository: Repository,
+  dispatcher: Dispatcher
+) => {
+  return () => dispatcher.forgetRecordedResolution(repository, relativeFilePath)
+}
+
 /** makes a click handling function for marker conflict actions */
 const makeMarkerConflictDropdownClickHandler = (
   relativeFilePath: string,
@@ -314,11 +358,26 @@ const makeMarkerConflictDropdownClickHandler = (
   dispatcher: Dispatcher,
   status: ConflictsWithMarkers,
   ourBranch?: string,
-  theirBranch?: string
+  theirBranch?: string,
+  onOpenConflictEditorClick?: () => void
 ) => {
   return () => {
     const absoluteFilePath = join(repository.path, relativeFilePath)
-    const items: IMenuItem[] = [
+    const items: IMenuItem[] = []
+
+    if (onOpenConflictEditorClick !== undefined) {
+      items.push(
+        {
+          label: __DARWIN__
+            ? 'Resolve in Conflict Editor'
+            : 'Resolve in conflict editor',
+          action: onOpenConflictEditorClick,
+        },
+        { type: 'separator' }
+      )
+    }
+
+    items.push(
       {
         label: OpenWithDefaultProgramLabel,
         action: () => openFile(absoluteFilePath, dispatcher),
@@ -337,8 +396,8 @@ const makeMarkerConflictDropdownClickHandler = (
         status,
         ourBranch,
         theirBranch
-      ),
-    ]
+      )
+    )
     showContextualMenu(items)
   }
 }
@@ -395,7 +454,32 @@ const renderResolvedFileStatusSummary: React.FunctionComponent<{
   dispatcher: Dispatcher
   manualResolution?: ManualConflictResolution
   branch?: string
+  onReviewClick: () => void
 }> = props => {
+  if (
+    isConflictWithMarkers(props.status) &&
+    props.status.usedRecordedResolution === true
+  ) {
+    return (
+      <div className="file-conflicts-status recorded-resolution">
+        {recordedResolutionString}
+        &nbsp;
+        <LinkButton onClick={props.onReviewClick}>Review</LinkButton>
+        &nbsp;
+        <LinkButton
+          onClick={makeForgetRecordedResolutionClickHandler(
+            props.path,
+            props.repository,
+            props.dispatcher
+          )}
+          title="Forget the recorded resolution and resolve the conflicts again"
+        >
+          Forget
+        </LinkButton>
+      </div>
+    )
+  }
+
   if (
     isConflictWithMarkers(props.status) &&
     props.status.conflictMarkerCount === 0
@@ -471,3 +555,7 @@ function editorButtonTooltip(editorName: string | null): string | undefined {
 }
 
 const manualConflictString = 'Manual conflict'
+const recordedResolutionString = 'Resolved using a recorded resolution'
+const conflictEditorButtonString = __DARWIN__
+  ? 'Resolve Conflicts'
+  : 'Resolve conflicts'
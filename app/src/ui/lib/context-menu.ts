@@ -23,6 +23,10 @@ export const RevealInFileManagerLabel = __DARWIN__
   ? 'Show in Explorer'
   : 'Show in your File Manager'
 
+export const ShowFileHistoryLabel = __DARWIN__
+  ? 'Show File History'
+  : 'Show file history'
+
 export const TrashNameLabel = __WIN32__ ? 'Recycle Bin' : 'Trash'
 
 export const OpenWithDefaultProgramLabel = __DARWIN__
@@ -18,3 +18,22 @@ export function getShowSideBySideDiff(): boolean {
 export function setShowSideBySideDiff(showSideBySideDiff: boolean) {
   setBoolean(showSideBySideDiffKey, showSideBySideDiff)
 }
+
+export const ShowBlameDefault = false
+const showBlameKey = 'show-blame'
+
+/**
+ * Gets a value indicating whether or not to present files with line-by-line
+ * blame annotations instead of their diff.
+ */
+export function getShowBlame(): boolean {
+  return getBoolean(showBlameKey, ShowBlameDefault)
+}
+
+/**
+ * Sets a local storage key indicating whether or not to present files with
+ * line-by-line blame annotations instead of their diff.
+ */
+export function setShowBlame(showBlame: boolean) {
+  setBoolean(showBlameKey, showBlame)
+}
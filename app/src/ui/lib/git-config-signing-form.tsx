@@ -0,0 +1,116 @@
+import * as React from 'react'
+import { Row } from './row'
+import { Select } from './select'
+import { TextBox } from './text-box'
+import { Checkbox, CheckboxValue } from './checkbox'
+import {
+  getSigningFormatName,
+  ISigningConfig,
+  SigningFormat,
+} from '../../models/signing'
+
+interface IGitConfigSigningFormProps {
+  readonly signingConfig: ISigningConfig
+
+  readonly disabled?: boolean
+
+  readonly onSigningConfigChanged: (signingConfig: ISigningConfig) => void
+}
+
+const signingFormats = [
+  SigningFormat.OpenPGP,
+  SigningFormat.SSH,
+  SigningFormat.X509,
+]
+
+function getSigningKeyPlaceholder(format: SigningFormat) {
+  switch (format) {
+    case SigningFormat.OpenPGP:
+    case SigningFormat.X509:
+      return 'Key ID (optional)'
+    case SigningFormat.SSH:
+      return 'Path to SSH key, e.g. ~/.ssh/id_ed25519.pub'
+  }
+}
+
+/**
+ * Form used to present and change whether, and how, commits and tags are
+ * signed via git config.
+ */
+export class GitConfigSigningForm extends React.Component<IGitConfigSigningFormProps> {
+  public render() {
+    const { signingConfig, disabled } = this.props
+
+    return (
+      <div className="git-config-signing-form">
+        <Row>
+          <Checkbox
+            label="Sign commits"
+            value={
+              signingConfig.signCommits ? CheckboxValue.On : CheckboxValue.Off
+            }
+            disabled={disabled}
+            onChange={this.onSignCommitsChanged}
+          />
+        </Row>
+        <Row>
+          <Checkbox
+            label="Sign tags"
+            value={
+              signingConfig.signTags ? CheckboxValue.On : CheckboxValue.Off
+            }
+            disabled={disabled}
+            onChange={this.onSignTagsChanged}
+          />
+        </Row>
+        <Row>
+          <Select
+            label={__DARWIN__ ? 'Signature Format' : 'Signature format'}
+            value={signingConfig.format}
+            disabled={disabled}
+            onChange={this.onFormatChanged}
+          >
+            {signingFormats.map(format => (
+              <option key={format} value={format}>
+                {getSigningFormatName(format)}
+              </option>
+            ))}
+          </Select>
+        </Row>
+        <Row>
+          <TextBox
+            label={__DARWIN__ ? 'Signing Key' : 'Signing key'}
+            value={signingConfig.signingKey}
+            placeholder={getSigningKeyPlaceholder(signingConfig.format)}
+            disabled={disabled}
+            onValueChanged={this.onSigningKeyChanged}
+          />
+        </Row>
+      </div>
+    )
+  }
+
+  private onSigningConfigChanged(changes: Partial<ISigningConfig>) {
+    this.props.onSigningConfigChanged({
+      ...this.props.signingConfig,
+      ...changes,
+    })
+  }
+
+  private onSignCommitsChanged = (event: React.FormEvent<HTMLInputElement>) => {
+    this.onSigningConfigChanged({ signCommits: event.currentTarget.checked })
+  }
+
+  private onSignTagsChanged = (event: React.FormEvent<HTMLInputElement>) => {
+    this.onSigningConfigChanged({ signTags: event.currentTarget.checked })
+  }
+
+  private onFormatChanged = (event: React.FormEvent<HTMLSelectElement>) => {
+    const format = event.currentTarget.value as SigningFormat
+    this.onSigningConfigChanged({ format })
+  }
+
+  private onSigningKeyChanged = (signingKey: string) => {
+    this.onSigningConfigChanged({ signingKey })
+  }
+}
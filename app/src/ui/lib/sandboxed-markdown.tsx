@@ -197,6 +197,11 @@ export class SandboxedMarkdown extends React.PureComponent<
         ${scrapeVariable('--md-accent-emphasis-color')}
         ${scrapeVariable('--md-accent-fg-color')}
 
+        ${scrapeVariable('--diff-add-background-color')}
+        ${scrapeVariable('--diff-add-border-color')}
+        ${scrapeVariable('--diff-delete-background-color')}
+        ${scrapeVariable('--diff-delete-border-color')}
+
         ${scrapeVariable('--font-size')}
         ${scrapeVariable('--font-size-sm')}
         ${scrapeVariable('--text-color')}
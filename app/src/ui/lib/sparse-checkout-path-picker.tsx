@@ -0,0 +1,145 @@
+import * as React from 'react'
+import { Row } from './row'
+import { TextBox } from './text-box'
+import { Button } from './button'
+import { Checkbox, CheckboxValue } from './checkbox'
+
+interface ISparseCheckoutPathPickerProps {
+  /** The directories currently selected for checkout */
+  readonly paths: ReadonlyArray<string>
+
+  /**
+   * Directories to offer for selection in addition to the selected ones,
+   * i.e. the top-level directories of an existing repository.
+   */
+  readonly availableDirectories?: ReadonlyArray<string>
+
+  readonly disabled?: boolean
+
+  readonly onPathsChanged: (paths: ReadonlyArray<string>) => void
+}
+
+interface ISparseCheckoutPathPickerState {
+  /** The directory being entered in the text box */
+  readonly newPath: string
+}
+
+/**
+ * Normalize a user entered directory to the format Git expects in cone mode
+ * sparse checkout, i.e. relative to the root of the repository using forward
+ * slashes and without leading or trailing slashes.
+ */
+function normalizeSparseCheckoutPath(path: string) {
+  return path
+    .trim()
+    .replace(/\\/g, '/')
+    .replace(/^\/+|\/+$/g, '')
+}
+
+/**
+ * A list of directories to check out in a cone mode sparse checkout along
+ * with a text box for adding directories which aren't in the list.
+ */
+export class SparseCheckoutPathPicker extends React.Component<
+  ISparseCheckoutPathPickerProps,
+  ISparseCheckoutPathPickerState
+> {
+  public constructor(props: ISparseCheckoutPathPickerProps) {
+    super(props)
+    this.state = { newPath: '' }
+  }
+
+  public render() {
+    const { disabled } = this.props
+    const { newPath } = this.state
+    const directories = this.getDirectories()
+
+    return (
+      <div className="sparse-checkout-path-picker">
+        <div className="directory-list">
+          {directories.length === 0 ? (
+            <p className="description">
+              Only the files at the root of the repository will be checked out.
+            </p>
+          ) : (
+            directories.map(directory => (
+              <Checkbox
+                key={directory}
+                label={directory}
+                value={
+                  this.props.paths.includes(directory)
+                    ? CheckboxValue.On
+                    : CheckboxValue.Off
+                }
+                disabled={disabled}
+                onChange={this.getOnDirectoryToggled(directory)}
+              />
+            ))
+          )}
+        </div>
+        <Row>
+          <TextBox
+            placeholder="path/to/directory"
+            ariaLabel="Directory to check out"
+            value={newPath}
+            disabled={disabled}
+            onValueChanged={this.onNewPathChanged}
+            onKeyDown={this.onNewPathKeyDown}
+          />
+          <Button
+            onClick={this.onAddPath}
+            disabled={
+              disabled || normalizeSparseCheckoutPath(newPath).length === 0
+            }
+          >
+            Add
+          </Button>
+        </Row>
+      </div>
+    )
+  }
+
+  private getDirectories() {
+    const { paths, availableDirectories = [] } = this.props
+    return [...new Set([...availableDirectories, ...paths])].sort((x, y) =>
+      x.localeCompare(y)
+    )
+  }
+
+  private getOnDirectoryToggled(directory: string) {
+    return (event: React.FormEvent<HTMLInputElement>) => {
+      const { paths } = this.props
+      const otherPaths = paths.filter(p => p !== directory)
+
+      this.props.onPathsChanged(
+        event.currentTarget.checked ? [...otherPaths, directory] : otherPaths
+      )
+    }
+  }
+
+  private onNewPathChanged = (newPath: string) => {
+    this.setState({ newPath })
+  }
+
+  private onNewPathKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    // Don't submit the dialog the picker is part of
+    if (event.key === 'Enter') {
+      event.preventDefault()
+      this.onAddPath()
+    }
+  }
+
+  private onAddPath = () => {
+    const path = normalizeSparseCheckoutPath(this.state.newPath)
+
+    if (path.length === 0) {
+      return
+    }
+
+    if (!this.props.paths.includes(path)) {
+      this.props.onPathsChanged([...this.props.paths, path])
+    }
+
+    this.setState({ newPath: '' })
+  }
+}
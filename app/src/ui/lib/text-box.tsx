@@ -61,6 +61,9 @@ export interface ITextBoxProps {
   /** The tab index of the input element. */
   readonly tabIndex?: number
 
+  /** The id of a `datalist` element suggesting values for the input. */
+  readonly list?: string
+
   /**
    * Callback used when the component is focused.
    */
@@ -277,6 +280,7 @@ export class TextBox extends React.Component<ITextBoxProps, ITextBoxState> {
           onChange={this.onChange}
           onKeyDown={this.onKeyDown}
           tabIndex={this.props.tabIndex}
+          list={this.props.list}
           onContextMenu={this.onContextMenu}
           spellCheck={this.props.spellcheck === true}
           aria-label={this.props.ariaLabel}
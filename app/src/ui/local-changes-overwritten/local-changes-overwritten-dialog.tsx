@@ -179,6 +179,10 @@ export class LocalChangesOverwrittenDialog extends React.Component<
         return 'reorder'
       case RetryActionType.DiscardChanges:
         return 'discard changes'
+      case RetryActionType.Commit:
+        return 'commit'
+      case RetryActionType.InteractiveRebase:
+        return 'interactive rebase'
       default:
         assertNever(
           this.props.retryAction,
@@ -8,6 +8,7 @@ import { ConflictState, IMultiCommitOperationState } from '../../lib/app-state'
 import { Branch } from '../../models/branch'
 import { MultiCommitOperationStepKind } from '../../models/multi-commit-operation'
 import { ConflictsDialog } from './dialog/conflicts-dialog'
+import { ConflictEditorDialog } from './dialog/conflict-editor-dialog'
 import { ConfirmAbortDialog } from './dialog/confirm-abort-dialog'
 import { ProgressDialog } from './dialog/progress-dialog'
 import { WarnForcePushDialog } from './dialog/warn-force-push-dialog'
@@ -148,6 +149,40 @@ export abstract class BaseMultiCommitOperation extends React.Component<IMultiCom
     })
   }
 
+  private onOpenConflictEditor = (path: string) => {
+    const { dispatcher, repository, state } = this.props
+    const { step } = state
+
+    if (step.kind !== MultiCommitOperationStepKind.ShowConflicts) {
+      this.endFlowInvalidState()
+      return
+    }
+
+    return dispatcher.setMultiCommitOperationStep(repository, {
+      kind: MultiCommitOperationStepKind.EditConflicts,
+      conflictState: step.conflictState,
+      path,
+    })
+  }
+
+  private returnFromConflictEditor = async () => {
+    const { dispatcher, repository, state } = this.props
+    const { step } = state
+
+    if (step.kind !== MultiCommitOperationStepKind.EditConflicts) {
+      this.endFlowInvalidState()
+      return
+    }
+
+    // Pick up the resolved file so the conflicts list reflects it
+    await dispatcher.refreshRepository(repository)
+
+    return dispatcher.setMultiCommitOperationStep(repository, {
+      kind: MultiCommitOperationStepKind.ShowConflicts,
+      conflictState: step.conflictState,
+    })
+  }
+
   private setConflictsHaveBeenResolved = () => {
     this.props.dispatcher.setConflictsResolved(this.props.repository)
   }
@@ -206,11 +241,27 @@ export abstract class BaseMultiCommitOperation extends React.Component<IMultiCom
             onAbort={this.onConfirmingAbort}
             onDismissed={this.onConflictsDialogDismissed}
             openFileInExternalEditor={openFileInExternalEditor}
+            onOpenConflictEditor={this.onOpenConflictEditor}
             openRepositoryInShell={openRepositoryInShell}
             someConflictsHaveBeenResolved={this.setConflictsHaveBeenResolved}
           />
         )
       }
+      case MultiCommitOperationStepKind.EditConflicts: {
+        const { ourBranch, theirBranch } = step.conflictState
+
+        return (
+          <ConflictEditorDialog
+            key={step.path}
+            repositoryPath={this.props.repository.path}
+            path={step.path}
+            ourBranch={ourBranch}
+            theirBranch={theirBranch}
+            onResolved={this.returnFromConflictEditor}
+            onDismissed={this.returnFromConflictEditor}
+          />
+        )
+      }
       case MultiCommitOperationStepKind.ConfirmAbort:
         return (
           <ConfirmAbortDialog
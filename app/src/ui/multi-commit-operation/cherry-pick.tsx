@@ -79,13 +79,14 @@ export abstract class CherryPick extends BaseMultiCommitOperation {
     return (
       <ChooseTargetBranchDialog
         key="choose-target-branch"
+        repository={this.props.repository}
         allBranches={allBranches}
         defaultBranch={defaultBranch}
         recentBranches={recentBranches}
         currentBranch={currentBranch}
         onCherryPick={this.onChooseBranch}
         onDismissed={this.onFlowEnded}
-        commitCount={commits.length}
+        commits={commits}
         onCreateNewBranch={this.onCreateNewBranch}
       />
     )
@@ -21,6 +21,8 @@ import {
 } from '../../../models/multi-commit-operation'
 import { assertNever } from '../../../lib/fatal-error'
 import { getMergeOptions } from '../../lib/update-branch'
+import { IConflictPrediction } from '../../../models/merge'
+import { ConflictPrediction } from './conflict-prediction'
 
 interface IBaseChooseBranchDialogProps {
   readonly dispatcher: Dispatcher
@@ -76,6 +78,12 @@ export interface IBaseChooseBranchDialogState {
    * current branch will be cleanly applied.
    */
   readonly statusPreview: JSX.Element | null
+
+  /**
+   * The conflicts the operation is predicted to run into with the selected
+   * branch, or null if they haven't been predicted.
+   */
+  readonly conflictPrediction: IConflictPrediction | null
 }
 
 export abstract class BaseChooseBranchDialog extends React.Component<
@@ -94,6 +102,18 @@ export abstract class BaseChooseBranchDialog extends React.Component<
 
   protected abstract renderActionStatusIcon: () => JSX.Element | null
 
+  /**
+   * Predict the conflicts of the operation with the given branch, or return
+   * null if they can't be predicted.
+   */
+  protected abstract predictConflicts: (
+    branch: Branch,
+    signal: AbortSignal
+  ) => Promise<IConflictPrediction | null>
+
+  /** Aborts predicting the conflicts with the previously selected branch */
+  private predictionAbortController: AbortController | null = null
+
   public constructor(props: IBaseChooseBranchDialogProps) {
     super(props)
 
@@ -103,6 +123,7 @@ export abstract class BaseChooseBranchDialog extends React.Component<
       selectedBranch,
       filterText: '',
       statusPreview: null,
+      conflictPrediction: null,
     }
   }
 
@@ -110,6 +131,49 @@ export abstract class BaseChooseBranchDialog extends React.Component<
     const { selectedBranch } = this.state
     if (selectedBranch !== null) {
       this.updateStatus(selectedBranch)
+      this.updateConflictPrediction(selectedBranch)
+    }
+  }
+
+  public componentDidUpdate(
+    prevProps: IBaseChooseBranchDialogProps,
+    prevState: IBaseChooseBranchDialogState
+  ) {
+    const { selectedBranch } = this.state
+
+    if (prevState.selectedBranch !== selectedBranch) {
+      this.predictionAbortController?.abort()
+      this.setState({ conflictPrediction: null })
+
+      if (selectedBranch !== null) {
+        this.updateConflictPrediction(selectedBranch)
+      }
+    }
+  }
+
+  public componentWillUnmount() {
+    this.predictionAbortController?.abort()
+  }
+
+  private async updateConflictPrediction(branch: Branch) {
+    if (branch.name === this.props.currentBranch.name) {
+      return
+    }
+
+    const controller = new AbortController()
+    this.predictionAbortController = controller
+
+    const conflictPrediction = await this.predictConflicts(
+      branch,
+      controller.signal
+    ).catch(e => {
+      log.error('Failed predicting conflicts', e)
+      return null
+    })
+
+    // The user may have moved on to another branch in the meantime
+    if (this.state.selectedBranch === branch) {
+      this.setState({ conflictPrediction })
     }
   }
 
@@ -244,6 +308,7 @@ export abstract class BaseChooseBranchDialog extends React.Component<
         </DialogContent>
         <DialogFooter>
           {this.renderStatusPreview()}
+          <ConflictPrediction prediction={this.state.conflictPrediction} />
           <DropdownSelectButton
             checkedOption={operation}
             options={getMergeOptions()}
@@ -13,8 +13,16 @@ import {
   renderDefaultBranch,
 } from '../../branches'
 import { ClickSource } from '../../lib/list'
+import { Repository } from '../../../models/repository'
+import { CommitOneLine } from '../../../models/commit'
+import { IConflictPrediction } from '../../../models/merge'
+import { predictCherryPickConflicts } from '../../../lib/git/merge-tree'
+import { sortCommitsByHistory } from '../../../lib/git/rev-list'
+import { ConflictPrediction } from './conflict-prediction'
 
 interface IChooseTargetBranchDialogProps {
+  readonly repository: Repository
+
   /**
    * See IBranchesState.defaultBranch
    */
@@ -36,9 +44,9 @@ interface IChooseTargetBranchDialogProps {
   readonly recentBranches: ReadonlyArray<Branch>
 
   /**
-   * Number of commits to cherry pick
+   * The commits to cherry pick, in the order they're applied
    */
-  readonly commitCount: number
+  readonly commits: ReadonlyArray<CommitOneLine>
 
   /**
    * A function that's called when the user selects a branch and hits start
@@ -67,6 +75,12 @@ interface IChooseTargetBranchDialogState {
 
   /** When there are no branches to show, prompt for create branch */
   readonly isCreateBranchState: boolean
+
+  /**
+   * The conflicts the cherry-pick is predicted to run into on the selected
+   * branch, or null if they haven't been predicted.
+   */
+  readonly conflictPrediction: IConflictPrediction | null
 }
 
 /** A component for initiating a rebase of the current branch. */
@@ -74,6 +88,9 @@ export class ChooseTargetBranchDialog extends React.Component<
   IChooseTargetBranchDialogProps,
   IChooseTargetBranchDialogState
 > {
+  /** Aborts predicting the conflicts with the previously selected branch */
+  private predictionAbortController: AbortController | null = null
+
   public constructor(props: IChooseTargetBranchDialogProps) {
     super(props)
 
@@ -81,6 +98,54 @@ export class ChooseTargetBranchDialog extends React.Component<
       selectedBranch: null,
       filterText: '',
       isCreateBranchState: props.allBranches.length === 0,
+      conflictPrediction: null,
+    }
+  }
+
+  public componentDidUpdate(
+    prevProps: IChooseTargetBranchDialogProps,
+    prevState: IChooseTargetBranchDialogState
+  ) {
+    const { selectedBranch } = this.state
+
+    if (prevState.selectedBranch !== selectedBranch) {
+      this.predictionAbortController?.abort()
+      this.setState({ conflictPrediction: null })
+
+      if (selectedBranch !== null && !this.selectedBranchIsCurrentBranch()) {
+        this.updateConflictPrediction(selectedBranch)
+      }
+    }
+  }
+
+  public componentWillUnmount() {
+    this.predictionAbortController?.abort()
+  }
+
+  private async updateConflictPrediction(branch: Branch) {
+    const { repository, commits } = this.props
+    const controller = new AbortController()
+    this.predictionAbortController = controller
+
+    // The commits are cherry-picked oldest first, whichever order they were
+    // selected in
+    const conflictPrediction = await sortCommitsByHistory(repository, commits)
+      .then(sorted =>
+        predictCherryPickConflicts(
+          repository,
+          sorted,
+          branch.tip.sha,
+          controller.signal
+        )
+      )
+      .catch(e => {
+        log.error('Failed predicting cherry-pick conflicts', e)
+        return null
+      })
+
+    // The user may have moved on to another branch in the meantime
+    if (this.state.selectedBranch === branch) {
+      this.setState({ conflictPrediction })
     }
   }
 
@@ -136,8 +201,8 @@ export class ChooseTargetBranchDialog extends React.Component<
         : 'Cherry-pick to new branch'
     }
 
-    const pluralize = this.props.commitCount > 1 ? 'commits' : 'commit'
-    const okButtonText = `Cherry-pick ${this.props.commitCount} ${pluralize}`
+    const pluralize = this.props.commits.length > 1 ? 'commits' : 'commit'
+    const okButtonText = `Cherry-pick ${this.props.commits.length} ${pluralize}`
 
     if (selectedBranch !== null) {
       return (
@@ -164,7 +229,7 @@ export class ChooseTargetBranchDialog extends React.Component<
       ? 'You are not able to cherry-pick from and to the same branch'
       : undefined
 
-    const pluralize = this.props.commitCount > 1 ? 'commits' : 'commit'
+    const pluralize = this.props.commits.length > 1 ? 'commits' : 'commit'
     return (
       <Dialog
         id="cherry-pick"
@@ -173,7 +238,7 @@ export class ChooseTargetBranchDialog extends React.Component<
         dismissable={true}
         title={
           <strong>
-            Cherry-pick {this.props.commitCount} {pluralize} to a branch
+            Cherry-pick {this.props.commits.length} {pluralize} to a branch
           </strong>
         }
       >
@@ -195,6 +260,7 @@ export class ChooseTargetBranchDialog extends React.Component<
           />
         </DialogContent>
         <DialogFooter>
+          <ConflictPrediction prediction={this.state.conflictPrediction} />
           <OkCancelButtonGroup
             okButtonText={this.renderOkButtonText()}
             okButtonDisabled={!this.canCherryPickOntoSelectedBranch()}
@@ -0,0 +1,70 @@
+import * as React from 'react'
+import { IConflictPrediction } from '../../../models/merge'
+import { Octicon } from '../../octicons'
+import * as OcticonSymbol from '../../octicons/octicons.generated'
+import { PathText } from '../../lib/path-text'
+
+interface IConflictPredictionProps {
+  /**
+   * The conflicts predicted for the operation, or null if they haven't been
+   * predicted (yet). Nothing is rendered unless conflicts are predicted.
+   */
+  readonly prediction: IConflictPrediction | null
+}
+
+/**
+ * Lists the files and commits an operation is predicted to conflict in,
+ * before the user starts it.
+ */
+export class ConflictPrediction extends React.Component<IConflictPredictionProps> {
+  public render() {
+    const { prediction } = this.props
+
+    if (prediction === null || prediction.conflictedFiles.length === 0) {
+      return null
+    }
+
+    const fileCount = prediction.conflictedFiles.length
+    const commitCount = prediction.commits.length
+    const files = fileCount === 1 ? '1 file' : `${fileCount} files`
+    const commits = commitCount === 1 ? '1 commit' : `${commitCount} commits`
+
+    return (
+      <div className="conflict-prediction">
+        <div className="conflict-prediction-summary">
+          <Octicon symbol={OcticonSymbol.alert} />
+          {commitCount > 0
+            ? `Expect conflicts in ${files} from ${commits}`
+            : `Expect conflicts in ${files}`}
+        </div>
+        {commitCount > 0 ? (
+          <ul className="conflict-prediction-list">
+            {prediction.commits.map(({ commit, conflictedFiles }) => (
+              <li key={commit.sha}>
+                <div className="commit" title={commit.summary}>
+                  <span className="sha">{commit.sha.substring(0, 7)}</span>
+                  {commit.summary}
+                </div>
+                {this.renderFiles(conflictedFiles)}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          this.renderFiles(prediction.conflictedFiles)
+        )}
+      </div>
+    )
+  }
+
+  private renderFiles(files: ReadonlyArray<string>) {
+    return (
+      <ul className="files">
+        {files.map(path => (
+          <li key={path}>
+            <PathText path={path} />
+          </li>
+        ))}
+      </ul>
+    )
+  }
+}
@@ -1,10 +1,10 @@
 import React from 'react'
 import { getAheadBehind, revSymmetricDifference } from '../../../lib/git'
-import { determineMergeability } from '../../../lib/git/merge-tree'
+import { predictMergeConflicts } from '../../../lib/git/merge-tree'
 import { promiseWithMinimumTimeout } from '../../../lib/promise'
 import { Branch } from '../../../models/branch'
 import { ComputedAction } from '../../../models/computed-action'
-import { MergeTreeResult } from '../../../models/merge'
+import { IConflictPrediction, MergeTreeResult } from '../../../models/merge'
 import { MultiCommitOperationKind } from '../../../models/multi-commit-operation'
 import { PopupType } from '../../../models/popup'
 import { ActionStatusIcon } from '../../lib/action-status-icon'
@@ -14,6 +14,16 @@ export class MergeChooseBranchDialog extends BaseChooseBranchDialog {
   private commitCount: number = 0
   private mergeStatus: MergeTreeResult | null = null
 
+  /**
+   * The conflicts predicted for the most recently checked branch, shared by
+   * the merge status and the conflict prediction such that the branches are
+   * only merged in memory once.
+   */
+  private mergePrediction: {
+    readonly branch: Branch
+    readonly prediction: Promise<IConflictPrediction | null>
+  } | null = null
+
   protected start = () => {
     if (!this.canStart()) {
       return
@@ -90,14 +100,32 @@ export class MergeChooseBranchDialog extends BaseChooseBranchDialog {
     )
   }
 
+  protected predictConflicts = (branch: Branch) => {
+    return this.predictMergeConflicts(branch)
+  }
+
+  private predictMergeConflicts(branch: Branch) {
+    if (this.mergePrediction?.branch !== branch) {
+      const { currentBranch, repository } = this.props
+      const prediction = predictMergeConflicts(
+        repository,
+        currentBranch.tip.sha,
+        branch.tip.sha
+      )
+      this.mergePrediction = { branch, prediction }
+    }
+
+    return this.mergePrediction.prediction
+  }
+
   protected updateStatus = async (branch: Branch) => {
-    const { currentBranch, repository } = this.props
+    const { currentBranch } = this.props
     this.mergeStatus = { kind: ComputedAction.Loading }
     this.updateMergeStatusPreview(branch)
 
     if (currentBranch != null) {
       this.mergeStatus = await promiseWithMinimumTimeout(
-        () => determineMergeability(repository, currentBranch, branch),
+        async () => getMergeStatus(await this.predictMergeConflicts(branch)),
         500
       ).catch<MergeTreeResult>(e => {
         log.error('Failed determining mergeability', e)
@@ -213,3 +241,16 @@ export class MergeChooseBranchDialog extends BaseChooseBranchDialog {
     )
   }
 }
+
+function getMergeStatus(
+  prediction: IConflictPrediction | null
+): MergeTreeResult {
+  if (prediction === null) {
+    return { kind: ComputedAction.Invalid }
+  }
+
+  const conflictedFiles = prediction.conflictedFiles.length
+  return conflictedFiles > 0
+    ? { kind: ComputedAction.Conflicts, conflictedFiles }
+    : { kind: ComputedAction.Clean }
+}
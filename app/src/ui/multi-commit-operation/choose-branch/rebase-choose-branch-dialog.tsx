@@ -1,4 +1,6 @@
 import React from 'react'
+import { getCommitsInRange, revRange } from '../../../lib/git'
+import { predictCherryPickConflicts } from '../../../lib/git/merge-tree'
 import { Branch } from '../../../models/branch'
 import { ComputedAction } from '../../../models/computed-action'
 import { RebasePreview } from '../../../models/rebase'
@@ -85,6 +87,28 @@ export abstract class RebaseChooseBranchDialog extends BaseChooseBranchDialog {
     )
   }
 
+  protected predictConflicts = async (
+    baseBranch: Branch,
+    signal: AbortSignal
+  ) => {
+    const { currentBranch: targetBranch, repository } = this.props
+    // Merge commits are dropped when rebasing, so they aren't replayed
+    const commits = await getCommitsInRange(
+      repository,
+      revRange(baseBranch.tip.sha, targetBranch.tip.sha),
+      ['--no-merges']
+    )
+
+    return commits === null
+      ? null
+      : predictCherryPickConflicts(
+          repository,
+          commits,
+          baseBranch.tip.sha,
+          signal
+        )
+  }
+
   protected updateStatus = async (baseBranch: Branch) => {
     const { currentBranch: targetBranch, repository } = this.props
     updateRebasePreview(baseBranch, targetBranch, repository, rebasePreview => {
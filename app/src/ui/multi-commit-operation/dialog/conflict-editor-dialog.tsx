@@ -0,0 +1,237 @@
+import * as React from 'react'
+import { join } from 'path'
+import { readFile, writeFile } from 'fs/promises'
+import { Dialog, DialogContent, DialogError, DialogFooter } from '../../dialog'
+import { OkCancelButtonGroup } from '../../dialog/ok-cancel-button-group'
+import { Loading } from '../../lib/loading'
+import { PathText } from '../../lib/path-text'
+import {
+  ConflictFileSegment,
+  IConflictSegment,
+  applyConflictResolutions,
+  parseConflictMarkers,
+} from '../../../lib/conflict-markers'
+import { ConflictHunk } from './conflict-hunk'
+
+/** The number of merged lines to show around each conflict */
+const ContextLines = 3
+
+interface IConflictEditorDialogProps {
+  /** The path of the repository the conflicted file is in */
+  readonly repositoryPath: string
+
+  /** The path of the conflicted file, relative to the repository */
+  readonly path: string
+
+  /* Depending on the operation, we may only know one our or their branch */
+  readonly ourBranch?: string
+  readonly theirBranch?: string
+
+  /** Called once the resolved file has been written to disk */
+  readonly onResolved: () => void
+
+  /** Called when the dialog is closed without saving the file */
+  readonly onDismissed: () => void
+}
+
+interface IConflictEditorDialogState {
+  /** The segments of the conflicted file, or null while it's being read */
+  readonly segments: ReadonlyArray<ConflictFileSegment> | null
+
+  /**
+   * The lines resolving each conflict in the file, or null for conflicts
+   * which are yet to be resolved.
+   */
+  readonly resolutions: ReadonlyArray<ReadonlyArray<string> | null>
+
+  readonly isSaving: boolean
+  readonly error: string | null
+}
+
+/**
+ * A dialog for resolving the conflict markers of a file without leaving the
+ * app, by picking our side, their side or both for each conflict and editing
+ * the result.
+ */
+export class ConflictEditorDialog extends React.Component<
+  IConflictEditorDialogProps,
+  IConflictEditorDialogState
+> {
+  public constructor(props: IConflictEditorDialogProps) {
+    super(props)
+
+    this.state = {
+      segments: null,
+      resolutions: [],
+      isSaving: false,
+      error: null,
+    }
+  }
+
+  public async componentDidMount() {
+    const { repositoryPath, path } = this.props
+
+    try {
+      const contents = await readFile(join(repositoryPath, path), 'utf8')
+      const segments = parseConflictMarkers(contents)
+      const conflictCount = segments.filter(s => s.kind === 'conflict').length
+
+      this.setState({
+        segments,
+        resolutions: new Array(conflictCount).fill(null),
+      })
+    } catch (e) {
+      this.setState({ error: e.message })
+    }
+  }
+
+  private onResolutionChanged = (
+    index: number,
+    lines: ReadonlyArray<string> | null
+  ) => {
+    const resolutions = [...this.state.resolutions]
+    resolutions[index] = lines
+    this.setState({ resolutions })
+  }
+
+  private onSubmit = async () => {
+    const { repositoryPath, path } = this.props
+    const { segments, resolutions } = this.state
+
+    if (segments === null) {
+      return
+    }
+
+    this.setState({ isSaving: true, error: null })
+
+    try {
+      const contents = applyConflictResolutions(segments, resolutions)
+      await writeFile(join(repositoryPath, path), contents)
+      this.props.onResolved()
+    } catch (e) {
+      this.setState({ isSaving: false, error: e.message })
+    }
+  }
+
+  public render() {
+    const { segments, resolutions, isSaving, error } = this.state
+    const unresolvedCount = resolutions.filter(r => r === null).length
+
+    return (
+      <Dialog
+        id="conflict-editor"
+        title={
+          <>
+            {__DARWIN__ ? 'Resolve Conflicts in ' : 'Resolve conflicts in '}
+            <PathText path={this.props.path} />
+          </>
+        }
+        onSubmit={this.onSubmit}
+        onDismissed={this.props.onDismissed}
+        loading={isSaving}
+        disabled={isSaving}
+      >
+        {error !== null && <DialogError>{error}</DialogError>}
+        <DialogContent>{this.renderContent(segments)}</DialogContent>
+        <DialogFooter>
+          <OkCancelButtonGroup
+            okButtonText={__DARWIN__ ? 'Mark as Resolved' : 'Mark as resolved'}
+            okButtonDisabled={segments === null || unresolvedCount > 0}
+            okButtonTitle={
+              unresolvedCount > 0
+                ? 'Resolve all conflicts before marking the file as resolved'
+                : undefined
+            }
+            cancelButtonText={
+              __DARWIN__ ? 'Back to Conflicts' : 'Back to conflicts'
+            }
+          />
+        </DialogFooter>
+      </Dialog>
+    )
+  }
+
+  private renderContent(segments: ReadonlyArray<ConflictFileSegment> | null) {
+    if (segments === null) {
+      return this.state.error !== null ? null : (
+        <div className="conflict-editor-message">
+          <Loading /> Reading file…
+        </div>
+      )
+    }
+
+    if (this.state.resolutions.length === 0) {
+      return (
+        <div className="conflict-editor-message">
+          There are no conflict markers left in this file.
+        </div>
+      )
+    }
+
+    let conflictIndex = 0
+
+    return (
+      <div className="conflict-editor-segments">
+        {segments.map((segment, i) =>
+          segment.kind === 'merged'
+            ? this.renderMergedSegment(
+                segment.lines,
+                i,
+                i > 0,
+                i < segments.length - 1
+              )
+            : this.renderConflict(segment, conflictIndex++)
+        )}
+      </div>
+    )
+  }
+
+  /**
+   * Render the lines which merged cleanly around the conflicts, collapsed
+   * down to the lines right before and after them.
+   */
+  private renderMergedSegment(
+    lines: ReadonlyArray<string>,
+    key: number,
+    followsConflict: boolean,
+    precedesConflict: boolean
+  ) {
+    const head = followsConflict ? lines.slice(0, ContextLines) : []
+    const tail = precedesConflict
+      ? lines.slice(Math.max(head.length, lines.length - ContextLines))
+      : []
+    const hiddenCount = lines.length - head.length - tail.length
+
+    return (
+      <div className="merged-segment" key={key}>
+        {head.length > 0 && <pre>{head.join('\n')}</pre>}
+        {hiddenCount > 0 && (
+          <div className="hidden-lines">
+            {hiddenCount === 1
+              ? '1 unchanged line'
+              : `${hiddenCount} unchanged lines`}
+          </div>
+        )}
+        {tail.length > 0 && <pre>{tail.join('\n')}</pre>}
+      </div>
+    )
+  }
+
+  private renderConflict(conflict: IConflictSegment, index: number) {
+    const { ourBranch, theirBranch } = this.props
+    const { resolutions } = this.state
+
+    return (
+      <ConflictHunk
+        key={`conflict-${index}`}
+        conflict={conflict}
+        index={index}
+        conflictCount={resolutions.length}
+        resolution={resolutions[index]}
+        ourBranch={ourBranch}
+        theirBranch={theirBranch}
+        onResolutionChanged={this.onResolutionChanged}
+      />
+    )
+  }
+}
@@ -0,0 +1,177 @@
+import * as React from 'react'
+import { Button } from '../../lib/button'
+import { TextArea } from '../../lib/text-area'
+import { Octicon } from '../../octicons'
+import * as OcticonSymbol from '../../octicons/octicons.generated'
+import { showContextualMenu } from '../../../lib/menu-item'
+import {
+  ConflictResolutionChoice,
+  IConflictSegment,
+  getConflictResolutionLines,
+} from '../../../lib/conflict-markers'
+
+/** The most rows the result of a conflict takes up before scrolling */
+const MaxResultRows = 12
+
+interface IConflictHunkProps {
+  readonly conflict: IConflictSegment
+
+  /** The index of the conflict within the file */
+  readonly index: number
+
+  /** The number of conflicts in the file */
+  readonly conflictCount: number
+
+  /** The lines resolving the conflict, or null if it's unresolved */
+  readonly resolution: ReadonlyArray<string> | null
+
+  readonly ourBranch?: string
+  readonly theirBranch?: string
+
+  /** Called with the index of the conflict and its new resolution */
+  readonly onResolutionChanged: (
+    index: number,
+    lines: ReadonlyArray<string> | null
+  ) => void
+}
+
+/**
+ * A single conflict of the conflict editor, showing the sides of the conflict
+ * next to each other along with the editable result once a side is picked.
+ */
+export class ConflictHunk extends React.Component<IConflictHunkProps> {
+  private choose(choice: ConflictResolutionChoice) {
+    const { conflict, index } = this.props
+    this.props.onResolutionChanged(
+      index,
+      getConflictResolutionLines(conflict, choice)
+    )
+  }
+
+  private onUseOurs = () => this.choose(ConflictResolutionChoice.Ours)
+  private onUseTheirs = () => this.choose(ConflictResolutionChoice.Theirs)
+  private onUseBase = () => this.choose(ConflictResolutionChoice.Base)
+
+  private onUseBoth = () => {
+    showContextualMenu([
+      {
+        label: __DARWIN__ ? 'Ours, Then Theirs' : 'Ours, then theirs',
+        action: () => this.choose(ConflictResolutionChoice.OursThenTheirs),
+      },
+      {
+        label: __DARWIN__ ? 'Theirs, Then Ours' : 'Theirs, then ours',
+        action: () => this.choose(ConflictResolutionChoice.TheirsThenOurs),
+      },
+    ])
+  }
+
+  private onResultChanged = (value: string) => {
+    this.props.onResolutionChanged(
+      this.props.index,
+      value.length === 0 ? [] : value.split('\n')
+    )
+  }
+
+  private onReset = () => {
+    this.props.onResolutionChanged(this.props.index, null)
+  }
+
+  public render() {
+    const { conflict, index, conflictCount, ourBranch, theirBranch } =
+      this.props
+
+    return (
+      <div className="conflict">
+        <div className="conflict-header">
+          <span className="conflict-title">
+            Conflict {index + 1} of {conflictCount}
+          </span>
+          <div className="conflict-actions">
+            <Button className="small-button" onClick={this.onUseOurs}>
+              {__DARWIN__ ? 'Use Ours' : 'Use ours'}
+            </Button>
+            <Button className="small-button" onClick={this.onUseTheirs}>
+              {__DARWIN__ ? 'Use Theirs' : 'Use theirs'}
+            </Button>
+            <Button className="small-button" onClick={this.onUseBoth}>
+              {__DARWIN__ ? 'Use Both' : 'Use both'}
+              <Octicon symbol={OcticonSymbol.triangleDown} />
+            </Button>
+            {conflict.base !== null && (
+              <Button className="small-button" onClick={this.onUseBase}>
+                {__DARWIN__ ? 'Use Base' : 'Use base'}
+              </Button>
+            )}
+          </div>
+        </div>
+        <div className="conflict-sides">
+          {this.renderSide(
+            'ours',
+            'Ours',
+            ourBranch ?? conflict.oursLabel,
+            conflict.ours
+          )}
+          {conflict.base !== null &&
+            this.renderSide('base', 'Base', conflict.baseLabel, conflict.base)}
+          {this.renderSide(
+            'theirs',
+            'Theirs',
+            theirBranch ?? conflict.theirsLabel,
+            conflict.theirs
+          )}
+        </div>
+        {this.renderResult()}
+      </div>
+    )
+  }
+
+  private renderSide(
+    className: string,
+    title: string,
+    label: string | null,
+    lines: ReadonlyArray<string>
+  ) {
+    return (
+      <div className={`conflict-side ${className}`}>
+        <div className="conflict-side-header" title={label ?? undefined}>
+          {title}
+          {label !== null && label.length > 0 && (
+            <span className="conflict-side-label">{label}</span>
+          )}
+        </div>
+        {lines.length > 0 ? (
+          <pre>{lines.join('\n')}</pre>
+        ) : (
+          <div className="conflict-side-empty">No lines</div>
+        )}
+      </div>
+    )
+  }
+
+  private renderResult() {
+    const { resolution } = this.props
+
+    if (resolution === null) {
+      return (
+        <div className="conflict-unresolved">
+          Pick a side to resolve this conflict, then edit the result if needed.
+        </div>
+      )
+    }
+
+    return (
+      <div className="conflict-result">
+        <TextArea
+          label="Result"
+          textareaClassName="conflict-result-text"
+          rows={Math.min(Math.max(resolution.length, 2), MaxResultRows)}
+          value={resolution.join('\n')}
+          onValueChanged={this.onResultChanged}
+        />
+        <Button className="small-button" onClick={this.onReset}>
+          Reset
+        </Button>
+      </div>
+    )
+  }
+}
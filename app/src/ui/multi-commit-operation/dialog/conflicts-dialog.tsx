@@ -38,6 +38,8 @@ interface IConflictsDialogProps {
   readonly onAbort: () => Promise<void>
   readonly onDismissed: () => void
   readonly openFileInExternalEditor: (path: string) => void
+  /** Resolve the file at the given path in the built-in conflict editor */
+  readonly onOpenConflictEditor?: (path: string) => void
   readonly openRepositoryInShell: (repository: Repository) => void
   readonly someConflictsHaveBeenResolved?: () => void
 }
@@ -131,6 +133,7 @@ export class ConflictsDialog extends React.Component<
                 status: f.status,
                 resolvedExternalEditor: this.props.resolvedExternalEditor,
                 openFileInExternalEditor: this.props.openFileInExternalEditor,
+                onOpenConflictEditor: this.props.onOpenConflictEditor,
                 repository: this.props.repository,
                 dispatcher: this.props.dispatcher,
                 manualResolution: this.props.manualResolutions.get(f.path),
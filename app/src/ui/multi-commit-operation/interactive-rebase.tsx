@@ -0,0 +1,26 @@
+import { MultiCommitOperationKind } from '../../models/multi-commit-operation'
+import { BaseRebase } from './base-rebase'
+
+export abstract class InteractiveRebase extends BaseRebase {
+  protected conflictDialogOperationPrefix = 'rebasing commits interactively on'
+  protected rebaseKind = MultiCommitOperationKind.InteractiveRebase
+
+  protected onBeginOperation = () => {
+    const { repository, dispatcher, state } = this.props
+    const { operationDetail } = state
+
+    if (operationDetail.kind !== MultiCommitOperationKind.InteractiveRebase) {
+      this.endFlowInvalidState()
+      return
+    }
+
+    const { steps, lastRetainedCommitRef } = operationDetail
+
+    return dispatcher.interactiveRebase(
+      repository,
+      steps,
+      lastRetainedCommitRef,
+      true
+    )
+  }
+}
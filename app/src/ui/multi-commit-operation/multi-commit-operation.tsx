@@ -5,6 +5,7 @@ import { Squash } from './squash'
 import { IMultiCommitOperationProps } from './base-multi-commit-operation'
 import { Merge } from './merge'
 import { Reorder } from './reorder'
+import { InteractiveRebase } from './interactive-rebase'
 import { CherryPick } from './cherry-pick'
 import { Rebase } from './rebase'
 
@@ -74,6 +75,25 @@ export class MultiCommitOperation extends React.Component<IMultiCommitOperationP
             openRepositoryInShell={this.props.openRepositoryInShell}
           />
         )
+      case MultiCommitOperationKind.InteractiveRebase:
+        return (
+          <InteractiveRebase
+            repository={this.props.repository}
+            dispatcher={this.props.dispatcher}
+            state={this.props.state}
+            conflictState={this.props.conflictState}
+            emoji={this.props.emoji}
+            workingDirectory={this.props.workingDirectory}
+            askForConfirmationOnForcePush={
+              this.props.askForConfirmationOnForcePush
+            }
+            accounts={this.props.accounts}
+            cachedRepoRulesets={this.props.cachedRepoRulesets}
+            openFileInExternalEditor={this.props.openFileInExternalEditor}
+            resolvedExternalEditor={this.props.resolvedExternalEditor}
+            openRepositoryInShell={this.props.openRepositoryInShell}
+          />
+        )
       default:
         return assertNever(
           kind,
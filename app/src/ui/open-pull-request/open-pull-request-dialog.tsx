@@ -2,7 +2,7 @@ import * as React from 'react'
 import { IConstrainedValue, IPullRequestState } from '../../lib/app-state'
 import { getDotComAPIEndpoint } from '../../lib/api'
 import { Branch } from '../../models/branch'
-import { ImageDiffType } from '../../models/diff'
+import { IDiffSettings, ImageDiffType } from '../../models/diff'
 import { Repository } from '../../models/repository'
 import { DialogFooter, OkCancelButtonGroup, Dialog } from '../dialog'
 import { Dispatcher } from '../dispatcher'
@@ -55,9 +55,15 @@ interface IOpenPullRequestDialogProps {
   /** Whether we should hide whitespace in diff. */
   readonly hideWhitespaceInDiff: boolean
 
+  /** The context size, ignored changes and wrapping of diffs. */
+  readonly diffSettings: IDiffSettings
+
   /** The type of image diff to display. */
   readonly imageDiffType: ImageDiffType
 
+  /** Map from the emoji shortcut (e.g., :+1:) to the image's local path. */
+  readonly emoji: Map<string, string>
+
   /** Label for selected external editor */
   readonly externalEditorLabel?: string
 
@@ -143,6 +149,7 @@ export class OpenPullRequestDialog extends React.Component<IOpenPullRequestDialo
       dispatcher,
       externalEditorLabel,
       hideWhitespaceInDiff,
+      diffSettings,
       imageDiffType,
       pullRequestState,
       repository,
@@ -170,7 +177,9 @@ export class OpenPullRequestDialog extends React.Component<IOpenPullRequestDialo
         fileListWidth={fileListWidth}
         files={files}
         hideWhitespaceInDiff={hideWhitespaceInDiff}
+        diffSettings={diffSettings}
         imageDiffType={imageDiffType}
+        emoji={this.props.emoji}
         nonLocalCommitSHA={nonLocalCommitSHA}
         selectedFile={file}
         showSideBySideDiff={this.props.showSideBySideDiff}
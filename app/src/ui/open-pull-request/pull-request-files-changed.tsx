@@ -1,6 +1,6 @@
 import * as React from 'react'
 import * as Path from 'path'
-import { IDiff, ImageDiffType } from '../../models/diff'
+import { IDiff, IDiffSettings, ImageDiffType } from '../../models/diff'
 import { Repository } from '../../models/repository'
 import { CommittedFileChange } from '../../models/status'
 import { SeamlessDiffSwitcher } from '../diff/seamless-diff-switcher'
@@ -42,12 +42,18 @@ interface IPullRequestFilesChangedProps {
   /** The type of image diff to display. */
   readonly imageDiffType: ImageDiffType
 
+  /** Map from the emoji shortcut (e.g., :+1:) to the image's local path. */
+  readonly emoji: Map<string, string>
+
   /** Whether we should display side by side diffs. */
   readonly showSideBySideDiff: boolean
 
   /** Whether we should hide whitespace in diff. */
   readonly hideWhitespaceInDiff: boolean
 
+  /** The context size, ignored changes and wrapping of diffs. */
+  readonly diffSettings: IDiffSettings
+
   /** Label for selected external editor */
   readonly externalEditorLabel?: string
 
@@ -106,6 +112,13 @@ export class PullRequestFilesChanged extends React.Component<
     )
   }
 
+  private onDiffSettingsChanged = (diffSettings: IDiffSettings) => {
+    this.props.dispatcher.updateDiffSettings(
+      this.props.repository,
+      diffSettings
+    )
+  }
+
   private onShowSideBySideDiffChanged = (showSideBySideDiff: boolean) => {
     this.setState({ showSideBySideDiff })
   }
@@ -239,7 +252,7 @@ export class PullRequestFilesChanged extends React.Component<
   }
 
   private renderHeader() {
-    const { hideWhitespaceInDiff } = this.props
+    const { hideWhitespaceInDiff, diffSettings } = this.props
     const { showSideBySideDiff } = this.state
     return (
       <div className="files-changed-header">
@@ -252,6 +265,8 @@ export class PullRequestFilesChanged extends React.Component<
           onHideWhitespaceChangesChanged={this.onHideWhitespaceInDiffChanged}
           showSideBySideDiff={showSideBySideDiff}
           onShowSideBySideDiffChanged={this.onShowSideBySideDiffChanged}
+          diffSettings={diffSettings}
+          onDiffSettingsChanged={this.onDiffSettingsChanged}
           onDiffOptionsOpened={this.onDiffOptionsOpened}
         />
       </div>
@@ -288,7 +303,13 @@ export class PullRequestFilesChanged extends React.Component<
       return
     }
 
-    const { diff, repository, imageDiffType, hideWhitespaceInDiff } = this.props
+    const {
+      diff,
+      repository,
+      imageDiffType,
+      hideWhitespaceInDiff,
+      diffSettings,
+    } = this.props
 
     const { showSideBySideDiff } = this.state
 
@@ -296,14 +317,15 @@ export class PullRequestFilesChanged extends React.Component<
       <SeamlessDiffSwitcher
         repository={repository}
         imageDiffType={imageDiffType}
+        emoji={this.props.emoji}
         file={selectedFile}
         diff={diff}
         readOnly={true}
         hideWhitespaceInDiff={hideWhitespaceInDiff}
         showSideBySideDiff={showSideBySideDiff}
+        softWrap={diffSettings.softWrap}
         onOpenBinaryFile={this.onOpenBinaryFile}
         onChangeImageDiffType={this.onChangeImageDiffType}
-        onHideWhitespaceInDiffChanged={this.onHideWhitespaceInDiffChanged}
       />
     )
   }
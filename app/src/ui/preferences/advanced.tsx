@@ -1,17 +1,28 @@
 import * as React from 'react'
+import { mkdir } from 'fs/promises'
 import { DialogContent } from '../dialog'
 import { Checkbox, CheckboxValue } from '../lib/checkbox'
 import { LinkButton } from '../lib/link-button'
+import { TextArea } from '../lib/text-area'
 import { SamplesURL } from '../../lib/stats'
 import { isWindowsOpenSSHAvailable } from '../../lib/ssh/ssh'
+import { getUserGrammarsPath } from '../../lib/highlighter/user-grammars'
+import { shell } from '../../lib/app-shell'
 
 interface IAdvancedPreferencesProps {
   readonly useWindowsOpenSSH: boolean
   readonly optOutOfUsageTracking: boolean
   readonly repositoryIndicatorsEnabled: boolean
+
+  /**
+   * The languages to highlight files as, one `.ext = Language` mapping per
+   * line. See `parseLanguageMappings`.
+   */
+  readonly languageMappings: string
   readonly onUseWindowsOpenSSHChanged: (checked: boolean) => void
   readonly onOptOutofReportingChanged: (checked: boolean) => void
   readonly onRepositoryIndicatorsEnabledChanged: (enabled: boolean) => void
+  readonly onLanguageMappingsChanged: (languageMappings: string) => void
 }
 
 interface IAdvancedPreferencesState {
@@ -61,6 +72,12 @@ export class Advanced extends React.Component<
     this.props.onUseWindowsOpenSSHChanged(event.currentTarget.checked)
   }
 
+  private onShowGrammarsFolder = async () => {
+    const path = await getUserGrammarsPath()
+    await mkdir(path, { recursive: true })
+    shell.showFolderContents(path)
+  }
+
   private reportDesktopUsageLabel() {
     return (
       <span>
@@ -90,6 +107,25 @@ export class Advanced extends React.Component<
           </p>
         </div>
         {this.renderSSHSettings()}
+        <div className="advanced-section">
+          <h2>Syntax highlighting</h2>
+          <TextArea
+            label="Highlight files as"
+            placeholder={'.tf = Terraform\nJenkinsfile = Groovy'}
+            rows={3}
+            value={this.props.languageMappings}
+            onValueChanged={this.props.onLanguageMappingsChanged}
+          />
+          <p className="git-settings-description">
+            One file extension or name per line followed by the language to
+            highlight it as. Grammars for additional languages can be added to
+            the{' '}
+            <LinkButton onClick={this.onShowGrammarsFolder}>
+              grammars folder
+            </LinkButton>
+            .
+          </p>
+        </div>
         <div className="advanced-section">
           <h2>Usage</h2>
           <Checkbox
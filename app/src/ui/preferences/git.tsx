@@ -6,11 +6,14 @@ import { Ref } from '../lib/ref'
 import { RadioButton } from '../lib/radio-button'
 import { Account } from '../../models/account'
 import { GitConfigUserForm } from '../lib/git-config-user-form'
+import { GitConfigSigningForm } from '../lib/git-config-signing-form'
+import { ISigningConfig } from '../../models/signing'
 
 interface IGitProps {
   readonly name: string
   readonly email: string
   readonly defaultBranch: string
+  readonly signingConfig: ISigningConfig
   readonly isLoadingGitConfig: boolean
 
   readonly dotComAccount: Account | null
@@ -19,6 +22,7 @@ interface IGitProps {
   readonly onNameChanged: (name: string) => void
   readonly onEmailChanged: (email: string) => void
   readonly onDefaultBranchChanged: (defaultBranch: string) => void
+  readonly onSigningConfigChanged: (signingConfig: ISigningConfig) => void
 }
 
 interface IGitState {
@@ -76,6 +80,7 @@ export class Git extends React.Component<IGitProps, IGitState> {
       <DialogContent>
         {this.renderGitConfigAuthorInfo()}
         {this.renderDefaultBranchSetting()}
+        {this.renderSigningSettings()}
       </DialogContent>
     )
   }
@@ -157,6 +162,25 @@ export class Git extends React.Component<IGitProps, IGitState> {
     )
   }
 
+  private renderSigningSettings() {
+    return (
+      <div className="signing-component">
+        <h2>Commit and tag signing</h2>
+
+        <GitConfigSigningForm
+          signingConfig={this.props.signingConfig}
+          disabled={this.props.isLoadingGitConfig}
+          onSigningConfigChanged={this.props.onSigningConfigChanged}
+        />
+
+        <p className="git-settings-description">
+          These preferences will edit your global Git config and can be
+          overridden for a single repository in its settings.
+        </p>
+      </div>
+    )
+  }
+
   /**
    * Handler to make sure that we show/hide the text box to enter a custom
    * branch name when the user clicks on one of the radio buttons.
@@ -41,6 +41,19 @@ import {
 import { Prompts } from './prompts'
 import { Repository } from '../../models/repository'
 import { Notifications } from './notifications'
+import { defaultSigningConfig, ISigningConfig } from '../../models/signing'
+import {
+  getChangedSigningConfig,
+  getGlobalSigningConfig,
+  setGlobalSigningConfig,
+} from '../../lib/git/signing'
+import {
+  formatLanguageMappings,
+  getLanguageMappings,
+  parseLanguageMappings,
+  setLanguageMappings,
+} from '../../lib/highlighter/language-mappings'
+import { reloadUserGrammars } from '../../lib/highlighter/user-grammars'
 
 interface IPreferencesProps {
   readonly dispatcher: Dispatcher
@@ -74,6 +87,8 @@ interface IPreferencesState {
   readonly initialCommitterName: string | null
   readonly initialCommitterEmail: string | null
   readonly initialDefaultBranch: string | null
+  readonly signingConfig: ISigningConfig
+  readonly initialSigningConfig: ISigningConfig
   readonly disallowedCharactersMessage: string | null
   readonly useWindowsOpenSSH: boolean
   readonly notificationsEnabled: boolean
@@ -99,6 +114,7 @@ interface IPreferencesState {
    */
   readonly existingLockFilePath?: string
   readonly repositoryIndicatorsEnabled: boolean
+  readonly languageMappings: string
 
   readonly initiallySelectedTheme: ApplicationTheme
 
@@ -121,6 +137,8 @@ export class Preferences extends React.Component<
       initialCommitterName: null,
       initialCommitterEmail: null,
       initialDefaultBranch: null,
+      signingConfig: defaultSigningConfig,
+      initialSigningConfig: defaultSigningConfig,
       disallowedCharactersMessage: null,
       availableEditors: [],
       useWindowsOpenSSH: false,
@@ -138,6 +156,7 @@ export class Preferences extends React.Component<
       availableShells: [],
       selectedShell: this.props.selectedShell,
       repositoryIndicatorsEnabled: this.props.repositoryIndicatorsEnabled,
+      languageMappings: formatLanguageMappings(getLanguageMappings()),
       initiallySelectedTheme: this.props.selectedTheme,
       isLoadingGitConfig: true,
     }
@@ -147,6 +166,7 @@ export class Preferences extends React.Component<
     const initialCommitterName = await getGlobalConfigValue('user.name')
     const initialCommitterEmail = await getGlobalConfigValue('user.email')
     const initialDefaultBranch = await getDefaultBranch()
+    const initialSigningConfig = await getGlobalSigningConfig()
 
     let committerName = initialCommitterName
     let committerEmail = initialCommitterEmail
@@ -183,6 +203,8 @@ export class Preferences extends React.Component<
       initialCommitterName,
       initialCommitterEmail,
       initialDefaultBranch,
+      signingConfig: initialSigningConfig,
+      initialSigningConfig,
       useWindowsOpenSSH: this.props.useWindowsOpenSSH,
       notificationsEnabled: this.props.notificationsEnabled,
       optOutOfUsageTracking: this.props.optOutOfUsageTracking,
@@ -337,6 +359,8 @@ export class Preferences extends React.Component<
               onNameChanged={this.onCommitterNameChanged}
               onEmailChanged={this.onCommitterEmailChanged}
               onDefaultBranchChanged={this.onDefaultBranchChanged}
+              signingConfig={this.state.signingConfig}
+              onSigningConfigChanged={this.onSigningConfigChanged}
               isLoadingGitConfig={this.state.isLoadingGitConfig}
             />
           </>
@@ -396,11 +420,13 @@ export class Preferences extends React.Component<
             useWindowsOpenSSH={this.state.useWindowsOpenSSH}
             optOutOfUsageTracking={this.state.optOutOfUsageTracking}
             repositoryIndicatorsEnabled={this.state.repositoryIndicatorsEnabled}
+            languageMappings={this.state.languageMappings}
             onUseWindowsOpenSSHChanged={this.onUseWindowsOpenSSHChanged}
             onOptOutofReportingChanged={this.onOptOutofReportingChanged}
             onRepositoryIndicatorsEnabledChanged={
               this.onRepositoryIndicatorsEnabledChanged
             }
+            onLanguageMappingsChanged={this.onLanguageMappingsChanged}
           />
         )
         break
@@ -418,6 +444,10 @@ export class Preferences extends React.Component<
     this.setState({ repositoryIndicatorsEnabled })
   }
 
+  private onLanguageMappingsChanged = (languageMappings: string) => {
+    this.setState({ languageMappings })
+  }
+
   private onLockFileDeleted = () => {
     this.setState({ existingLockFilePath: undefined })
   }
@@ -489,6 +519,10 @@ export class Preferences extends React.Component<
     this.setState({ defaultBranch })
   }
 
+  private onSigningConfigChanged = (signingConfig: ISigningConfig) => {
+    this.setState({ signingConfig })
+  }
+
   private onSelectedEditorChanged = (editor: string) => {
     this.setState({ selectedExternalEditor: editor })
   }
@@ -546,6 +580,13 @@ export class Preferences extends React.Component<
         await setDefaultBranch(this.state.defaultBranch)
       }
 
+      await setGlobalSigningConfig(
+        getChangedSigningConfig(
+          this.state.initialSigningConfig,
+          this.state.signingConfig
+        )
+      )
+
       if (
         this.props.repositoryIndicatorsEnabled !==
         this.state.repositoryIndicatorsEnabled
@@ -572,6 +613,9 @@ export class Preferences extends React.Component<
       return
     }
 
+    setLanguageMappings(parseLanguageMappings(this.state.languageMappings))
+    reloadUserGrammars()
+
     this.props.dispatcher.setUseWindowsOpenSSH(this.state.useWindowsOpenSSH)
     this.props.dispatcher.setNotificationsEnabled(
       this.state.notificationsEnabled
@@ -0,0 +1 @@
+export { ReflogDialog } from './reflog-dialog'
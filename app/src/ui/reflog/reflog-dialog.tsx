@@ -0,0 +1,501 @@
+import * as React from 'react'
+import { Dialog, DialogError, DialogFooter } from '../dialog'
+import { OkCancelButtonGroup } from '../dialog/ok-cancel-button-group'
+import { TabBar } from '../tab-bar'
+import { Dispatcher } from '../dispatcher'
+import { Repository } from '../../models/repository'
+import { IReflogEntry } from '../../models/reflog'
+import { CommitOneLine } from '../../models/commit'
+import { CommittedFileChange } from '../../models/status'
+import { IDiff, IDiffSettings, ImageDiffType } from '../../models/diff'
+import { PopupType } from '../../models/popup'
+import { getChangedFiles, getCommitDiff, getReflogEntries } from '../../lib/git'
+import { List } from '../lib/list'
+import { Button } from '../lib/button'
+import { Select } from '../lib/select'
+import { Row } from '../lib/row'
+import { Ref } from '../lib/ref'
+import { Loading } from '../lib/loading'
+import { RelativeTime } from '../relative-time'
+import { FileList } from '../history/file-list'
+import { openFile } from '../lib/open-file'
+import { SeamlessDiffSwitcher } from '../diff/seamless-diff-switcher'
+
+/** The width available to the file paths in the list of changed files */
+const FileListWidth = 420
+
+export enum ReflogTab {
+  Head,
+  Branches,
+}
+
+interface IReflogDialogProps {
+  readonly dispatcher: Dispatcher
+  readonly repository: Repository
+
+  /** The names of the local branches, whose reflogs can be viewed */
+  readonly branchNames: ReadonlyArray<string>
+
+  /** Whether the current branch can be reset or cherry-picked onto */
+  readonly canChangeCurrentBranch: boolean
+
+  readonly imageDiffType: ImageDiffType
+
+  /** Map from the emoji shortcut (e.g., :+1:) to the image's local path. */
+  readonly emoji: Map<string, string>
+  readonly hideWhitespaceInDiff: boolean
+  readonly showSideBySideDiff: boolean
+
+  /** The context size, ignored changes and wrapping of diffs. */
+  readonly diffSettings: IDiffSettings
+
+  /** Called to start the cherry-pick flow for the given commits */
+  readonly onCherryPick: (
+    repository: Repository,
+    commits: ReadonlyArray<CommitOneLine>
+  ) => void
+
+  readonly onDismissed: () => void
+}
+
+interface IReflogDialogState {
+  readonly selectedTab: ReflogTab
+
+  /** The branch whose reflog is shown in the Branches tab */
+  readonly selectedBranchName: string | null
+
+  /** The entries of the reflog being shown or null while loading */
+  readonly entries: ReadonlyArray<IReflogEntry> | null
+  readonly selectedEntry: IReflogEntry | null
+
+  /** The files changed in the selected entry or null while loading */
+  readonly files: ReadonlyArray<CommittedFileChange> | null
+  readonly selectedFile: CommittedFileChange | null
+
+  /** The diff of the selected file or null while loading */
+  readonly diff: IDiff | null
+
+  /** The error loading the reflog, the changed files or the diff, if any */
+  readonly error: string | null
+}
+
+/**
+ * A dialog listing the entries in the reflog of HEAD and of the local
+ * branches, which allows recovering commits that are no longer reachable,
+ * i.e. after an accidental reset or after a branch was force pushed.
+ */
+export class ReflogDialog extends React.Component<
+  IReflogDialogProps,
+  IReflogDialogState
+> {
+  public constructor(props: IReflogDialogProps) {
+    super(props)
+
+    this.state = {
+      selectedTab: ReflogTab.Head,
+      selectedBranchName:
+        props.branchNames.length > 0 ? props.branchNames[0] : null,
+      entries: null,
+      selectedEntry: null,
+      files: null,
+      selectedFile: null,
+      diff: null,
+      error: null,
+    }
+  }
+
+  public componentDidMount() {
+    this.loadEntries()
+  }
+
+  private get ref() {
+    const { selectedTab, selectedBranchName } = this.state
+
+    if (selectedTab === ReflogTab.Branches) {
+      return selectedBranchName === null
+        ? null
+        : `refs/heads/${selectedBranchName}`
+    }
+
+    return 'HEAD'
+  }
+
+  private async loadEntries() {
+    const ref = this.ref
+    this.setState({ entries: null, selectedEntry: null, error: null })
+
+    let entries: ReadonlyArray<IReflogEntry>
+    try {
+      entries =
+        ref === null ? [] : await getReflogEntries(this.props.repository, ref)
+    } catch (e) {
+      log.error('Failed loading the reflog', e)
+
+      if (ref === this.ref) {
+        this.setState({ entries: [], error: e.message })
+      }
+      return
+    }
+
+    // Bail if the user switched to another reflog in the meantime
+    if (ref !== this.ref) {
+      return
+    }
+
+    this.setState({ entries })
+
+    if (entries.length > 0) {
+      this.selectEntry(entries[0])
+    }
+  }
+
+  private async selectEntry(selectedEntry: IReflogEntry) {
+    this.setState({
+      selectedEntry,
+      files: null,
+      selectedFile: null,
+      error: null,
+    })
+
+    let files: ReadonlyArray<CommittedFileChange>
+    try {
+      files = (await getChangedFiles(this.props.repository, selectedEntry.sha))
+        .files
+    } catch (e) {
+      log.error('Failed loading the files changed in the reflog entry', e)
+
+      if (this.state.selectedEntry === selectedEntry) {
+        this.setState({ files: [], error: e.message })
+      }
+      return
+    }
+
+    if (this.state.selectedEntry !== selectedEntry) {
+      return
+    }
+
+    this.setState({ files })
+
+    if (files.length > 0) {
+      this.selectFile(files[0])
+    }
+  }
+
+  private async selectFile(selectedFile: CommittedFileChange) {
+    this.setState({ selectedFile, diff: null, error: null })
+
+    const { repository, hideWhitespaceInDiff, diffSettings } = this.props
+
+    try {
+      const diff = await getCommitDiff(
+        repository,
+        selectedFile,
+        selectedFile.commitish,
+        hideWhitespaceInDiff,
+        diffSettings
+      )
+
+      if (this.state.selectedFile === selectedFile) {
+        this.setState({ diff })
+      }
+    } catch (e) {
+      log.error('Failed loading the diff of the file', e)
+
+      if (this.state.selectedFile === selectedFile) {
+        this.setState({ error: e.message })
+      }
+    }
+  }
+
+  private onTabClicked = (selectedTab: ReflogTab) => {
+    this.setState({ selectedTab }, () => this.loadEntries())
+  }
+
+  private onBranchChanged = (event: React.FormEvent<HTMLSelectElement>) => {
+    const selectedBranchName = event.currentTarget.value
+    this.setState({ selectedBranchName }, () => this.loadEntries())
+  }
+
+  private renderTabs() {
+    return (
+      <TabBar
+        onTabClicked={this.onTabClicked}
+        selectedIndex={this.state.selectedTab}
+      >
+        <span>HEAD</span>
+        <span>Branches</span>
+      </TabBar>
+    )
+  }
+
+  private renderMessage() {
+    const subject =
+      this.state.selectedTab === ReflogTab.Head ? (
+        <>
+          the commits <Ref>HEAD</Ref> has pointed to
+        </>
+      ) : (
+        'the commits the branch has pointed to'
+      )
+
+    return (
+      <div className="message">
+        The reflog records {subject}, including commits which are no longer part
+        of any branch after a reset, a rebase or a force push. Create a branch
+        from a commit, or cherry-pick or reset to it, to recover it.
+      </div>
+    )
+  }
+
+  private renderBranchSelect() {
+    const { branchNames } = this.props
+
+    if (this.state.selectedTab !== ReflogTab.Branches) {
+      return null
+    }
+
+    return (
+      <Row className="branch-select">
+        <Select
+          label="Branch"
+          value={this.state.selectedBranchName ?? undefined}
+          onChange={this.onBranchChanged}
+          disabled={branchNames.length === 0}
+        >
+          {branchNames.map(name => (
+            <option key={name} value={name}>
+              {name}
+            </option>
+          ))}
+        </Select>
+      </Row>
+    )
+  }
+
+  private renderEntries() {
+    const { entries, selectedEntry, error } = this.state
+
+    if (entries === null) {
+      return <Loading />
+    }
+
+    if (entries.length === 0) {
+      return error === null ? (
+        <div className="empty">There are no entries in this reflog.</div>
+      ) : null
+    }
+
+    return (
+      <List
+        rowCount={entries.length}
+        rowHeight={50}
+        rowRenderer={this.renderEntry}
+        selectedRows={
+          selectedEntry === null ? [] : [entries.indexOf(selectedEntry)]
+        }
+        onSelectedRowChanged={this.onSelectedRowChanged}
+        getRowAriaLabel={this.getEntryAriaLabel}
+        invalidationProps={entries}
+      />
+    )
+  }
+
+  private renderEntry = (row: number) => {
+    const entry = this.state.entries?.[row]
+
+    if (entry === undefined) {
+      return null
+    }
+
+    return (
+      <div className="reflog-entry">
+        <div className="summary">{entry.summary}</div>
+        <div className="description">
+          <span className="action">{entry.action}</span> {entry.description} •{' '}
+          <RelativeTime date={entry.date} />
+        </div>
+      </div>
+    )
+  }
+
+  private getEntryAriaLabel = (row: number) => {
+    const entry = this.state.entries?.[row]
+    return entry === undefined
+      ? ''
+      : `${entry.selector}: ${entry.action} ${entry.description}`
+  }
+
+  private onSelectedRowChanged = (row: number) => {
+    const entry = this.state.entries?.[row]
+
+    if (entry !== undefined && entry !== this.state.selectedEntry) {
+      this.selectEntry(entry)
+    }
+  }
+
+  private renderPreview() {
+    const { selectedEntry, files, selectedFile } = this.state
+
+    if (selectedEntry === null) {
+      return null
+    }
+
+    return (
+      <div className="reflog-preview">
+        <div className="reflog-entry-header">
+          <Ref>{selectedEntry.selector}</Ref>{' '}
+          <Ref>{selectedEntry.sha.substring(0, 7)}</Ref> {selectedEntry.summary}
+        </div>
+        <div className="reflog-files">
+          {files === null ? (
+            <Loading />
+          ) : (
+            <FileList
+              files={files}
+              selectedFile={selectedFile}
+              onSelectedFileChanged={this.onSelectedFileChanged}
+              availableWidth={FileListWidth}
+            />
+          )}
+        </div>
+        <div className="reflog-diff">{this.renderDiff()}</div>
+        {this.renderActions(selectedEntry)}
+      </div>
+    )
+  }
+
+  private onSelectedFileChanged = (file: CommittedFileChange) => {
+    if (file !== this.state.selectedFile) {
+      this.selectFile(file)
+    }
+  }
+
+  private renderDiff() {
+    const { diff, selectedFile, error } = this.state
+
+    if (selectedFile === null || error !== null) {
+      return null
+    }
+
+    const { repository, imageDiffType, hideWhitespaceInDiff, diffSettings } =
+      this.props
+
+    return (
+      <SeamlessDiffSwitcher
+        repository={repository}
+        readOnly={true}
+        file={selectedFile}
+        diff={diff}
+        imageDiffType={imageDiffType}
+        emoji={this.props.emoji}
+        hideWhitespaceInDiff={hideWhitespaceInDiff}
+        showSideBySideDiff={this.props.showSideBySideDiff}
+        softWrap={diffSettings.softWrap}
+        onOpenBinaryFile={this.onOpenBinaryFile}
+        onChangeImageDiffType={this.onChangeImageDiffType}
+      />
+    )
+  }
+
+  private onOpenBinaryFile = (fullPath: string) => {
+    openFile(fullPath, this.props.dispatcher)
+  }
+
+  private onChangeImageDiffType = (type: ImageDiffType) => {
+    this.props.dispatcher.changeImageDiffType(type)
+  }
+
+  private renderActions(entry: IReflogEntry) {
+    const { canChangeCurrentBranch } = this.props
+    const isCurrentCommit =
+      this.state.selectedTab === ReflogTab.Head &&
+      this.state.entries?.[0] === entry
+
+    return (
+      <div className="reflog-actions">
+        <Button onClick={this.onCreateBranch}>
+          {__DARWIN__ ? 'Create Branch…' : 'Create branch…'}
+        </Button>
+        <Button
+          onClick={this.onCherryPick}
+          disabled={!canChangeCurrentBranch || isCurrentCommit}
+        >
+          Cherry-pick…
+        </Button>
+        <Button
+          onClick={this.onReset}
+          disabled={!canChangeCurrentBranch || isCurrentCommit}
+        >
+          {__DARWIN__ ? 'Reset to Commit' : 'Reset to commit'}
+        </Button>
+      </div>
+    )
+  }
+
+  private onCreateBranch = () => {
+    const { selectedEntry } = this.state
+
+    if (selectedEntry !== null) {
+      this.props.dispatcher.showPopup({
+        type: PopupType.CreateBranch,
+        repository: this.props.repository,
+        targetCommit: toCommitOneLine(selectedEntry),
+      })
+    }
+  }
+
+  private onCherryPick = () => {
+    const { selectedEntry } = this.state
+
+    if (selectedEntry !== null) {
+      this.props.onDismissed()
+      this.props.onCherryPick(this.props.repository, [
+        toCommitOneLine(selectedEntry),
+      ])
+    }
+  }
+
+  private onReset = () => {
+    const { selectedEntry } = this.state
+
+    if (selectedEntry !== null) {
+      this.props.onDismissed()
+      this.props.dispatcher.resetToReflogEntry(
+        this.props.repository,
+        selectedEntry
+      )
+    }
+  }
+
+  public render() {
+    const { error } = this.state
+
+    return (
+      <Dialog
+        className="reflog"
+        title="Reflog"
+        onSubmit={this.props.onDismissed}
+        onDismissed={this.props.onDismissed}
+      >
+        {this.renderTabs()}
+        {error !== null && <DialogError>{error}</DialogError>}
+        {this.renderMessage()}
+        {this.renderBranchSelect()}
+        <div className="reflog-content">
+          <div className="reflog-list">{this.renderEntries()}</div>
+          {this.renderPreview()}
+        </div>
+        <DialogFooter>
+          <OkCancelButtonGroup
+            okButtonText="Close"
+            cancelButtonVisible={false}
+          />
+        </DialogFooter>
+      </Dialog>
+    )
+  }
+}
+
+function toCommitOneLine(entry: IReflogEntry): CommitOneLine {
+  return { sha: entry.sha, summary: entry.summary }
+}
@@ -1,3 +1,4 @@
+import * as Path from 'path'
 import {
   Repository,
   ILocalRepositoryState,
@@ -8,6 +9,7 @@ import { getDotComAPIEndpoint } from '../../lib/api'
 import { caseInsensitiveCompare } from '../../lib/compare'
 import { IFilterListGroup, IFilterListItem } from '../lib/filter-list'
 import { IAheadBehind } from '../../models/branch'
+import { IWorktree } from '../../models/worktree'
 
 /**
  * Special, reserved repository group names
@@ -32,6 +34,18 @@ export interface IRepositoryListItem extends IFilterListItem {
   readonly needsDisambiguation: boolean
   readonly aheadBehind: IAheadBehind | null
   readonly changedFilesCount: number
+
+  /**
+   * The worktree entry of the repository if the repository is a linked
+   * worktree (i.e. not the main worktree) of another repository.
+   */
+  readonly linkedWorktree: IWorktree | null
+
+  /**
+   * Whether the item is a linked worktree listed below its main repository
+   * in the repository list.
+   */
+  readonly isNestedWorktree: boolean
 }
 
 const fallbackValue = {
@@ -39,13 +53,112 @@ const fallbackValue = {
   aheadBehind: null,
 }
 
+const noWorktrees = new Map<number, ReadonlyArray<IWorktree>>()
+
+const isSamePath = (x: string, y: string) => Path.resolve(x) === Path.resolve(y)
+
+/**
+ * Returns the worktree entry of the given repository if it is a linked
+ * worktree of another repository, or null if it's a main worktree.
+ */
+export function getLinkedWorktree(
+  repository: Repositoryish,
+  worktreesLookup: ReadonlyMap<number, ReadonlyArray<IWorktree>>
+): IWorktree | null {
+  if (!(repository instanceof Repository)) {
+    return null
+  }
+
+  const worktrees = worktreesLookup.get(repository.id) ?? []
+  const worktree = worktrees.find(w => isSamePath(w.path, repository.path))
+
+  return worktree !== undefined && !worktree.isMain ? worktree : null
+}
+
+/**
+ * Returns the text used to display and filter the given repository in the
+ * repository list. Linked worktrees usually share their name (and GitHub
+ * repository) with their main repository so they're shown using the name
+ * of their directory instead.
+ */
+function getRepositoryText(
+  repository: Repositoryish,
+  linkedWorktree: IWorktree | null
+): ReadonlyArray<string> {
+  if (!(repository instanceof Repository)) {
+    return [repository.name]
+  }
+
+  const name =
+    linkedWorktree !== null ? Path.basename(repository.path) : repository.name
+
+  return [repository.alias ?? name, nameOf(repository)]
+}
+
+/**
+ * Find all repositories which are linked worktrees of another repository in
+ * the list, grouped by the id of their main repository.
+ */
+function findNestedWorktrees(
+  repositories: ReadonlyArray<Repositoryish>,
+  worktreesLookup: ReadonlyMap<number, ReadonlyArray<IWorktree>>
+) {
+  const nested = new Map<number, Array<Repository>>()
+
+  for (const repository of repositories) {
+    if (getLinkedWorktree(repository, worktreesLookup) === null) {
+      continue
+    }
+
+    const worktrees = worktreesLookup.get(repository.id) ?? []
+    const main = worktrees.find(w => w.isMain)
+    const mainRepository =
+      main === undefined
+        ? undefined
+        : repositories.find(
+            r => r instanceof Repository && isSamePath(r.path, main.path)
+          )
+
+    if (mainRepository === undefined || mainRepository === repository) {
+      continue
+    }
+
+    const linked = nested.get(mainRepository.id) ?? []
+    linked.push(repository as Repository)
+    nested.set(mainRepository.id, linked)
+  }
+
+  return nested
+}
+
+/**
+ * Group repositories for display in the repository list.
+ *
+ * Repositories which are linked worktrees of another repository in the list
+ * are listed directly below their main repository rather than on their own.
+ *
+ * @param repositories               full list of repositories
+ * @param localRepositoryStateLookup cache of local state about the repositories
+ * @param worktreesLookup            the worktrees of each repository, keyed by
+ *                                   the repository id
+ */
 export function groupRepositories(
   repositories: ReadonlyArray<Repositoryish>,
-  localRepositoryStateLookup: ReadonlyMap<number, ILocalRepositoryState>
+  localRepositoryStateLookup: ReadonlyMap<number, ILocalRepositoryState>,
+  worktreesLookup: ReadonlyMap<number, ReadonlyArray<IWorktree>> = noWorktrees
 ): ReadonlyArray<IFilterListGroup<IRepositoryListItem>> {
   const grouped = new Map<RepositoryGroupIdentifier, Repositoryish[]>()
   const gitHubOwners = new Set<string>()
+  const nestedWorktrees = findNestedWorktrees(repositories, worktreesLookup)
+  const nestedIds = new Set(
+    [...nestedWorktrees.values()].flatMap(linked => linked.map(r => r.id))
+  )
+
   for (const repository of repositories) {
+    if (nestedIds.has(repository.id)) {
+      continue
+    }
+
     const gitHubRepository =
       repository instanceof Repository ? repository.gitHubRepository : null
     let group: RepositoryGroupIdentifier = KnownRepositoryGroup.NonGitHub
@@ -86,23 +199,41 @@ export function groupRepositories(
     repositories.sort((x, y) =>
       caseInsensitiveCompare(repositorySortingKey(x), repositorySortingKey(y))
     )
-    const items: ReadonlyArray<IRepositoryListItem> = repositories.map(r => {
+    const toListItem = (
+      r: Repositoryish,
+      isNestedWorktree: boolean
+    ): IRepositoryListItem => {
       const nameCount = names.get(r.name) || 0
       const { aheadBehind, changedFilesCount } =
         localRepositoryStateLookup.get(r.id) || fallbackValue
-      const repositoryText =
-        r instanceof Repository ? [r.alias ?? r.name, nameOf(r)] : [r.name]
+      const linkedWorktree = getLinkedWorktree(r, worktreesLookup)
 
       return {
-        text: repositoryText,
+        text: getRepositoryText(r, linkedWorktree),
         id: r.id.toString(),
         repository: r,
         needsDisambiguation:
-          nameCount > 1 && identifier === KnownRepositoryGroup.Enterprise,
+          !isNestedWorktree &&
+          nameCount > 1 &&
+          identifier === KnownRepositoryGroup.Enterprise,
         aheadBehind,
         changedFilesCount,
+        linkedWorktree,
+        isNestedWorktree,
       }
-    })
+    }
+
+    const items = new Array<IRepositoryListItem>()
+    for (const repository of repositories) {
+      items.push(toListItem(repository, false))
+
+      const linked = nestedWorktrees.get(repository.id) ?? []
+      linked.sort((x, y) => caseInsensitiveCompare(x.path, y.path))
+
+      for (const worktree of linked) {
+        items.push(toListItem(worktree, true))
+      }
+    }
 
     groups.push({ identifier, items })
   }
@@ -124,11 +255,13 @@ export function groupRepositories(
  * @param recentRepositories list of recent repositories' ids
  * @param repositories full list of repositories (we use this to get data about the `recentRepositories`)
  * @param localRepositoryStateLookup cache of local state about full list of repositories (we use this to get data about the `recentRepositories`)
+ * @param worktreesLookup the worktrees of each repository, keyed by the repository id
  */
 export function makeRecentRepositoriesGroup(
   recentRepositories: ReadonlyArray<number>,
   repositories: ReadonlyArray<Repositoryish>,
-  localRepositoryStateLookup: ReadonlyMap<number, ILocalRepositoryState>
+  localRepositoryStateLookup: ReadonlyMap<number, ILocalRepositoryState>,
+  worktreesLookup: ReadonlyMap<number, ReadonlyArray<IWorktree>> = noWorktrees
 ): IFilterListGroup<IRepositoryListItem> {
   const names = new Map<string, number>()
   for (const id of recentRepositories) {
@@ -153,18 +286,17 @@ export function makeRecentRepositoriesGroup(
       localRepositoryStateLookup.get(id) || fallbackValue
     const repositoryAlias =
       repository instanceof Repository ? repository.alias : null
-    const repositoryText =
-      repository instanceof Repository
-        ? [repositoryAlias ?? repository.name, nameOf(repository)]
-        : [repository.name]
+    const linkedWorktree = getLinkedWorktree(repository, worktreesLookup)
     const nameCount = names.get(repositoryAlias ?? repository.name) || 0
     items.push({
-      text: repositoryText,
+      text: getRepositoryText(repository, linkedWorktree),
       id: id.toString(),
       repository,
-      needsDisambiguation: nameCount > 1,
+      needsDisambiguation: nameCount > 1 && linkedWorktree === null,
       aheadBehind,
       changedFilesCount,
+      linkedWorktree,
+      isNestedWorktree: false,
     })
   }
 
@@ -26,6 +26,7 @@ import { KeyboardShortcut } from '../keyboard-shortcut/keyboard-shortcut'
 import { generateRepositoryListContextMenu } from '../repositories-list/repository-list-item-context-menu'
 import { SectionFilterList } from '../lib/section-filter-list'
 import { enableSectionList } from '../../lib/feature-flag'
+import { IWorktree } from '../../models/worktree'
 
 const BlankSlateImage = encodePathAsUrl(__dirname, 'static/empty-no-repo.svg')
 
@@ -42,6 +43,9 @@ interface IRepositoriesListProps {
     ILocalRepositoryState
   >
 
+  /** The worktrees of each repository, keyed by the repository id */
+  readonly worktreesLookup: ReadonlyMap<number, ReadonlyArray<IWorktree>>
+
   /** Called when a repository has been selected. */
   readonly onSelectionChanged: (repository: Repositoryish) => void
 
@@ -119,11 +123,16 @@ export class RepositoriesList extends React.Component<
   private getRepositoryGroups = memoizeOne(
     (
       repositories: ReadonlyArray<Repositoryish> | null,
-      localRepositoryStateLookup: ReadonlyMap<number, ILocalRepositoryState>
+      localRepositoryStateLookup: ReadonlyMap<number, ILocalRepositoryState>,
+      worktreesLookup: ReadonlyMap<number, ReadonlyArray<IWorktree>>
     ) =>
       repositories === null
         ? []
-        : groupRepositories(repositories, localRepositoryStateLookup)
+        : groupRepositories(
+            repositories,
+            localRepositoryStateLookup,
+            worktreesLookup
+          )
   )
 
   /**
@@ -155,6 +164,8 @@ export class RepositoriesList extends React.Component<
         matches={matches}
         aheadBehind={item.aheadBehind}
         changedFilesCount={item.changedFilesCount}
+        linkedWorktree={item.linkedWorktree}
+        isNestedWorktree={item.isNestedWorktree}
       />
     )
   }
@@ -215,15 +226,27 @@ export class RepositoriesList extends React.Component<
       onViewOnGitHub: this.props.onViewOnGitHub,
       repository: item.repository,
       shellLabel: this.props.shellLabel,
+      linkedWorktree: item.linkedWorktree,
+      hasPrunableWorktrees: this.hasPrunableWorktrees(item.repository),
+      onLockWorktree: this.onLockWorktree,
+      onUnlockWorktree: this.onUnlockWorktree,
+      onRemoveWorktree: this.onRemoveWorktree,
+      onPruneWorktrees: this.onPruneWorktrees,
     })
 
     showContextualMenu(items)
   }
 
+  private hasPrunableWorktrees(repository: Repositoryish) {
+    const worktrees = this.props.worktreesLookup.get(repository.id) ?? []
+    return worktrees.some(w => w.isPrunable)
+  }
+
   public render() {
     const baseGroups = this.getRepositoryGroups(
       this.props.repositories,
-      this.props.localRepositoryStateLookup
+      this.props.localRepositoryStateLookup,
+      this.props.worktreesLookup
     )
 
     const selectedItem = this.getSelectedListItem(
@@ -237,7 +260,8 @@ export class RepositoriesList extends React.Component<
             makeRecentRepositoriesGroup(
               this.props.recentRepositories,
               this.props.repositories,
-              this.props.localRepositoryStateLookup
+              this.props.localRepositoryStateLookup,
+              this.props.worktreesLookup
             ),
             ...baseGroups,
           ]
@@ -260,6 +284,7 @@ export class RepositoriesList extends React.Component<
       invalidationProps: {
         repositories: this.props.repositories,
         filterText: this.props.filterText,
+        worktreesLookup: this.props.worktreesLookup,
       },
       onItemContextMenu: this.onItemContextMenu,
       getGroupAriaLabel,
@@ -358,4 +383,23 @@ export class RepositoriesList extends React.Component<
   private onRemoveRepositoryAlias = (repository: Repository) => {
     this.props.dispatcher.changeRepositoryAlias(repository, null)
   }
+
+  private onLockWorktree = (repository: Repository) => {
+    this.props.dispatcher.lockWorktree(repository)
+  }
+
+  private onUnlockWorktree = (repository: Repository) => {
+    this.props.dispatcher.unlockWorktree(repository)
+  }
+
+  private onRemoveWorktree = (repository: Repository) => {
+    this.props.dispatcher.showPopup({
+      type: PopupType.RemoveWorktree,
+      repository,
+    })
+  }
+
+  private onPruneWorktrees = (repository: Repository) => {
+    this.props.dispatcher.pruneWorktrees(repository)
+  }
 }
@@ -6,6 +6,7 @@ import {
   RevealInFileManagerLabel,
   DefaultEditorLabel,
 } from '../lib/context-menu'
+import { IWorktree } from '../../models/worktree'
 
 interface IRepositoryListItemContextMenuConfig {
   repository: Repositoryish
@@ -19,6 +20,19 @@ interface IRepositoryListItemContextMenuConfig {
   onRemoveRepository: (repository: Repositoryish) => void
   onChangeRepositoryAlias: (repository: Repository) => void
   onRemoveRepositoryAlias: (repository: Repository) => void
+
+  /**
+   * The worktree entry of the repository if it's a linked worktree of
+   * another repository.
+   */
+  linkedWorktree: IWorktree | null
+
+  /** Whether any of the worktrees of the repository can be pruned */
+  hasPrunableWorktrees: boolean
+  onLockWorktree: (repository: Repository) => void
+  onUnlockWorktree: (repository: Repository) => void
+  onRemoveWorktree: (repository: Repository) => void
+  onPruneWorktrees: (repository: Repository) => void
 }
 
 export const generateRepositoryListContextMenu = (
@@ -63,6 +77,7 @@ export const generateRepositoryListContextMenu = (
       action: () => config.onOpenInExternalEditor(repository),
       enabled: !missing,
     },
+    ...buildWorktreeMenuItems(config),
     { type: 'separator' },
     {
       label: config.askForConfirmationOnRemoveRepository ? 'Remove…' : 'Remove',
@@ -99,3 +114,42 @@ const buildAliasMenuItems = (
 
   return items
 }
+
+const buildWorktreeMenuItems = (
+  config: IRepositoryListItemContextMenuConfig
+): ReadonlyArray<IMenuItem> => {
+  const { repository, linkedWorktree } = config
+
+  if (!(repository instanceof Repository) || repository.missing) {
+    return []
+  }
+
+  if (linkedWorktree === null) {
+    return config.hasPrunableWorktrees
+      ? [
+          { type: 'separator' },
+          {
+            label: __DARWIN__ ? 'Prune Worktrees' : 'Prune worktrees',
+            action: () => config.onPruneWorktrees(repository),
+          },
+        ]
+      : []
+  }
+
+  return [
+    { type: 'separator' },
+    linkedWorktree.isLocked
+      ? {
+          label: __DARWIN__ ? 'Unlock Worktree' : 'Unlock worktree',
+          action: () => config.onUnlockWorktree(repository),
+        }
+      : {
+          label: __DARWIN__ ? 'Lock Worktree' : 'Lock worktree',
+          action: () => config.onLockWorktree(repository),
+        },
+    {
+      label: __DARWIN__ ? 'Remove Worktree…' : 'Remove worktree…',
+      action: () => config.onRemoveWorktree(repository),
+    },
+  ]
+}
@@ -1,4 +1,5 @@
 import * as React from 'react'
+import * as Path from 'path'
 
 import { Repository } from '../../models/repository'
 import { Octicon, iconForRepository } from '../octicons'
@@ -11,6 +12,7 @@ import classNames from 'classnames'
 import { createObservableRef } from '../lib/observable-ref'
 import { Tooltip } from '../lib/tooltip'
 import { TooltippedContent } from '../lib/tooltipped-content'
+import { IWorktree } from '../../models/worktree'
 
 interface IRepositoryListItemProps {
   readonly repository: Repositoryish
@@ -26,6 +28,18 @@ interface IRepositoryListItemProps {
 
   /** Number of uncommitted changes */
   readonly changedFilesCount: number
+
+  /**
+   * The worktree entry of the repository if it's a linked worktree of
+   * another repository.
+   */
+  readonly linkedWorktree: IWorktree | null
+
+  /**
+   * Whether the repository is a linked worktree listed below its main
+   * repository.
+   */
+  readonly isNestedWorktree: boolean
 }
 
 /** A repository item. */
@@ -49,23 +63,40 @@ export class RepositoryListItem extends React.Component<
       prefix = `${gitHubRepo.owner.login}/`
     }
 
+    const { linkedWorktree, isNestedWorktree } = this.props
+
     const classNameList = classNames('name', {
       alias: alias !== null,
     })
 
+    // Linked worktrees share their name with their main repository so we
+    // use the name of the worktree directory instead.
+    const name =
+      linkedWorktree !== null ? Path.basename(repository.path) : repository.name
+
+    const className = classNames('repository-list-item', {
+      'nested-worktree': isNestedWorktree,
+    })
+
     return (
-      <div className="repository-list-item" ref={this.listItemRef}>
+      <div className={className} ref={this.listItemRef}>
         <Tooltip target={this.listItemRef}>{this.renderTooltip()}</Tooltip>
 
         <Octicon
           className="icon-for-repository"
-          symbol={iconForRepository(repository)}
+          symbol={
+            linkedWorktree !== null &&
+            repository instanceof Repository &&
+            !repository.missing
+              ? OcticonSymbol.fileDirectory
+              : iconForRepository(repository)
+          }
         />
 
         <div className={classNames(classNameList)}>
           {prefix ? <span className="prefix">{prefix}</span> : null}
           <HighlightText
-            text={alias ?? repository.name}
+            text={alias ?? name}
             highlight={this.props.matches.title}
           />
         </div>
@@ -74,6 +105,7 @@ export class RepositoryListItem extends React.Component<
           renderRepoIndicators({
             aheadBehind: this.props.aheadBehind,
             hasChanges: hasChanges,
+            linkedWorktree,
           })}
       </div>
     )
@@ -91,10 +123,26 @@ export class RepositoryListItem extends React.Component<
           {alias && <> ({alias})</>}
         </div>
         <div>{repo.path}</div>
+        {this.renderWorktreeTooltip()}
       </>
     )
   }
 
+  private renderWorktreeTooltip() {
+    const { linkedWorktree } = this.props
+
+    if (linkedWorktree === null) {
+      return null
+    }
+
+    const checkedOut =
+      linkedWorktree.branch !== null
+        ? `branch ${linkedWorktree.branch}`
+        : 'a detached HEAD'
+
+    return <div>Linked worktree with {checkedOut}</div>
+  }
+
   public shouldComponentUpdate(nextProps: IRepositoryListItemProps): boolean {
     if (
       nextProps.repository instanceof Repository &&
@@ -102,7 +150,9 @@ export class RepositoryListItem extends React.Component<
     ) {
       return (
         nextProps.repository.id !== this.props.repository.id ||
-        nextProps.matches !== this.props.matches
+        nextProps.matches !== this.props.matches ||
+        nextProps.linkedWorktree !== this.props.linkedWorktree ||
+        nextProps.isNestedWorktree !== this.props.isNestedWorktree
       )
     } else {
       return true
@@ -113,9 +163,12 @@ export class RepositoryListItem extends React.Component<
 const renderRepoIndicators: React.FunctionComponent<{
   aheadBehind: IAheadBehind | null
   hasChanges: boolean
+  linkedWorktree: IWorktree | null
 }> = props => {
   return (
     <div className="repo-indicators">
+      {props.linkedWorktree?.isLocked &&
+        renderLockedWorktreeIndicator(props.linkedWorktree)}
       {props.aheadBehind && renderAheadBehindIndicator(props.aheadBehind)}
       {props.hasChanges && renderChangesIndicator()}
     </div>
@@ -147,6 +200,23 @@ const renderAheadBehindIndicator = (aheadBehind: IAheadBehind) => {
   )
 }
 
+const renderLockedWorktreeIndicator = (worktree: IWorktree) => {
+  const tooltip =
+    worktree.lockReason !== null
+      ? `This worktree is locked: ${worktree.lockReason}`
+      : 'This worktree is locked'
+
+  return (
+    <TooltippedContent
+      className="locked-worktree"
+      tagName="div"
+      tooltip={tooltip}
+    >
+      <Octicon symbol={OcticonSymbol.lock} />
+    </TooltippedContent>
+  )
+}
+
 const renderChangesIndicator = () => {
   return (
     <TooltippedContent
@@ -0,0 +1,143 @@
+import * as React from 'react'
+import { DialogContent } from '../dialog'
+import { Row } from '../lib/row'
+import { TextBox } from '../lib/text-box'
+import { Checkbox, CheckboxValue } from '../lib/checkbox'
+import { LinkButton } from '../lib/link-button'
+import { InputWarning } from '../lib/input-description/input-warning'
+import { ICommitMessageFormat } from '../../models/commit-message-format'
+import { parseCommitMessagePattern } from '../../lib/commit-message-format'
+
+interface ICommitMessageFormatSettingsProps {
+  readonly format: ICommitMessageFormat
+  readonly onFormatChanged: (format: ICommitMessageFormat) => void
+}
+
+interface ICommitMessageFormatSettingsState {
+  /**
+   * The comma separated lists of types and scopes as entered by the user.
+   * These are kept separate from the format so that the user is able to
+   * type the separators.
+   */
+  readonly typesText: string
+  readonly scopesText: string
+}
+
+function parseList(text: string): ReadonlyArray<string> {
+  return [
+    ...new Set(
+      text
+        .split(',')
+        .map(x => x.trim())
+        .filter(x => x.length > 0)
+    ),
+  ]
+}
+
+/** A view for configuring the commit message format helper */
+export class CommitMessageFormatSettings extends React.Component<
+  ICommitMessageFormatSettingsProps,
+  ICommitMessageFormatSettingsState
+> {
+  public constructor(props: ICommitMessageFormatSettingsProps) {
+    super(props)
+
+    this.state = {
+      typesText: props.format.types.join(', '),
+      scopesText: props.format.scopes.join(', '),
+    }
+  }
+
+  public render() {
+    const { enabled, pattern } = this.props.format
+    const isPatternInvalid =
+      pattern.length > 0 && parseCommitMessagePattern(pattern) === null
+
+    return (
+      <DialogContent className="commit-message-format-settings">
+        <p>
+          The commit message helper assists in writing commit summaries which
+          follow a convention such as{' '}
+          <LinkButton uri="https://www.conventionalcommits.org">
+            Conventional Commits
+          </LinkButton>
+          . Commits can only be created once the summary matches the validation
+          pattern.
+        </p>
+        <Row>
+          <Checkbox
+            label={
+              __DARWIN__
+                ? 'Enable Commit Message Helper'
+                : 'Enable commit message helper'
+            }
+            value={enabled ? CheckboxValue.On : CheckboxValue.Off}
+            onChange={this.onEnabledChanged}
+          />
+        </Row>
+        <Row>
+          <TextBox
+            label="Types"
+            placeholder="feat, fix, docs"
+            value={this.state.typesText}
+            disabled={!enabled}
+            onValueChanged={this.onTypesChanged}
+          />
+        </Row>
+        <Row>
+          <TextBox
+            label="Scopes"
+            placeholder="api, ui"
+            value={this.state.scopesText}
+            disabled={!enabled}
+            onValueChanged={this.onScopesChanged}
+          />
+        </Row>
+        <Row>
+          <TextBox
+            label={__DARWIN__ ? 'Validation Pattern' : 'Validation pattern'}
+            value={pattern}
+            disabled={!enabled}
+            onValueChanged={this.onPatternChanged}
+            ariaDescribedBy="commit-message-pattern-warning"
+          />
+        </Row>
+        {isPatternInvalid && (
+          <Row>
+            <InputWarning
+              id="commit-message-pattern-warning"
+              trackedUserInput={pattern}
+            >
+              This isn't a valid regular expression and will be ignored.
+            </InputWarning>
+          </Row>
+        )}
+      </DialogContent>
+    )
+  }
+
+  private onEnabledChanged = (event: React.FormEvent<HTMLInputElement>) => {
+    const enabled = event.currentTarget.checked
+    this.props.onFormatChanged({ ...this.props.format, enabled })
+  }
+
+  private onTypesChanged = (typesText: string) => {
+    this.setState({ typesText })
+    this.props.onFormatChanged({
+      ...this.props.format,
+      types: parseList(typesText),
+    })
+  }
+
+  private onScopesChanged = (scopesText: string) => {
+    this.setState({ scopesText })
+    this.props.onFormatChanged({
+      ...this.props.format,
+      scopes: parseList(scopesText),
+    })
+  }
+
+  private onPatternChanged = (pattern: string) => {
+    this.props.onFormatChanged({ ...this.props.format, pattern })
+  }
+}
@@ -5,6 +5,9 @@ import { GitConfigUserForm } from '../lib/git-config-user-form'
 import { getDotComAPIEndpoint } from '../../lib/api'
 import { Row } from '../lib/row'
 import { RadioButton } from '../lib/radio-button'
+import { GitConfigSigningForm } from '../lib/git-config-signing-form'
+import { ISigningConfig } from '../../models/signing'
+import { Checkbox, CheckboxValue } from '../lib/checkbox'
 
 interface IGitConfigProps {
   readonly account: Account | null
@@ -14,11 +17,18 @@ interface IGitConfigProps {
   readonly email: string
   readonly globalName: string
   readonly globalEmail: string
+  readonly signingConfig: ISigningConfig
+  readonly globalSigningConfig: ISigningConfig
   readonly isLoadingGitConfig: boolean
 
+  /** Whether Git reuses recorded conflict resolutions in the repository */
+  readonly rerereEnabled: boolean
+
   readonly onGitConfigLocationChanged: (value: GitConfigLocation) => void
   readonly onNameChanged: (name: string) => void
   readonly onEmailChanged: (email: string) => void
+  readonly onSigningConfigChanged: (signingConfig: ISigningConfig) => void
+  readonly onRerereEnabledChanged: (enabled: boolean) => void
 }
 
 export enum GitConfigLocation {
@@ -32,6 +42,12 @@ export class GitConfig extends React.Component<IGitConfigProps> {
     this.props.onGitConfigLocationChanged(value)
   }
 
+  private onRerereEnabledChanged = (
+    event: React.FormEvent<HTMLInputElement>
+  ) => {
+    this.props.onRerereEnabledChanged(event.currentTarget.checked)
+  }
+
   public render() {
     const isDotComAccount =
       this.props.account !== null &&
@@ -82,6 +98,39 @@ export class GitConfig extends React.Component<IGitConfigProps> {
             isLoadingGitConfig={this.props.isLoadingGitConfig}
           />
         </div>
+        <div className="advanced-section">
+          <h2>Commit and tag signing</h2>
+          <GitConfigSigningForm
+            signingConfig={
+              this.props.gitConfigLocation === GitConfigLocation.Global
+                ? this.props.globalSigningConfig
+                : this.props.signingConfig
+            }
+            disabled={
+              this.props.gitConfigLocation === GitConfigLocation.Global ||
+              this.props.isLoadingGitConfig
+            }
+            onSigningConfigChanged={this.props.onSigningConfigChanged}
+          />
+        </div>
+        <div className="advanced-section">
+          <h2>Conflict resolution</h2>
+          <Row>
+            <Checkbox
+              label="Reuse recorded conflict resolutions"
+              value={
+                this.props.rerereEnabled ? CheckboxValue.On : CheckboxValue.Off
+              }
+              disabled={this.props.isLoadingGitConfig}
+              onChange={this.onRerereEnabledChanged}
+            />
+          </Row>
+          <p className="rerere-description">
+            Git records how you resolve conflicts and resolves the same
+            conflicts that way the next time they come up, such as when rebasing
+            a branch again. This only applies to this repository.
+          </p>
+        </div>
       </DialogContent>
     )
   }
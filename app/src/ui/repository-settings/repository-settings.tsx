@@ -13,7 +13,11 @@ import {
 } from '../../models/repository'
 import { Dialog, DialogError, DialogFooter } from '../dialog'
 import { NoRemote } from './no-remote'
-import { readGitIgnoreAtRoot } from '../../lib/git'
+import {
+  getSparseCheckoutPaths,
+  getTopLevelDirectories,
+  readGitIgnoreAtRoot,
+} from '../../lib/git'
 import { OkCancelButtonGroup } from '../dialog/ok-cancel-button-group'
 import { ForkSettings } from './fork-settings'
 import { ForkContributionTarget } from '../../models/workflow-preferences'
@@ -29,6 +33,23 @@ import {
   InvalidGitAuthorNameMessage,
 } from '../lib/identifier-rules'
 import { Account } from '../../models/account'
+import { defaultSigningConfig, ISigningConfig } from '../../models/signing'
+import {
+  getGlobalSigningConfig,
+  getChangedSigningConfig,
+  getLocalSigningConfig,
+  getSigningConfig,
+  removeLocalSigningConfig,
+  setSigningConfig,
+} from '../../lib/git/signing'
+import { isRerereEnabled, setRerereEnabled } from '../../lib/git/rerere'
+import { arrayEquals, structuralEquals } from '../../lib/equality'
+import { SparseCheckout } from './sparse-checkout'
+import { CommitMessageFormatSettings } from './commit-message-format'
+import {
+  defaultCommitMessageFormat,
+  ICommitMessageFormat,
+} from '../../models/commit-message-format'
 import { Octicon } from '../octicons'
 import * as OcticonSymbol from '../octicons/octicons.generated'
 
@@ -45,6 +66,8 @@ export enum RepositorySettingsTab {
   Remote = 0,
   IgnoredFiles,
   GitConfig,
+  CommitMessageFormat,
+  SparseCheckout,
   ForkSettings,
 }
 
@@ -63,9 +86,20 @@ interface IRepositorySettingsState {
   readonly initialGitConfigLocation: GitConfigLocation
   readonly initialCommitterName: string | null
   readonly initialCommitterEmail: string | null
+  readonly signingConfig: ISigningConfig
+  readonly globalSigningConfig: ISigningConfig
+  readonly initialSigningConfig: ISigningConfig
+  readonly rerereEnabled: boolean
+  readonly initialRerereEnabled: boolean
   readonly errors?: ReadonlyArray<JSX.Element | string>
   readonly forkContributionTarget: ForkContributionTarget
+  readonly commitMessageFormat: ICommitMessageFormat
   readonly isLoadingGitConfig: boolean
+  readonly sparseCheckoutEnabled: boolean
+  readonly sparseCheckoutPaths: ReadonlyArray<string>
+  readonly initialSparseCheckoutPaths: ReadonlyArray<string> | null
+  readonly topLevelDirectories: ReadonlyArray<string>
+  readonly isLoadingSparseCheckout: boolean
 }
 
 export class RepositorySettings extends React.Component<
@@ -83,6 +117,9 @@ export class RepositorySettings extends React.Component<
       ignoreTextHasChanged: false,
       disabled: false,
       forkContributionTarget: getForkContributionTarget(props.repository),
+      commitMessageFormat:
+        props.repository.workflowPreferences.commitMessageFormat ??
+        defaultCommitMessageFormat,
       saveDisabled: false,
       gitConfigLocation: GitConfigLocation.Global,
       committerName: '',
@@ -92,7 +129,17 @@ export class RepositorySettings extends React.Component<
       initialGitConfigLocation: GitConfigLocation.Global,
       initialCommitterName: null,
       initialCommitterEmail: null,
+      signingConfig: defaultSigningConfig,
+      globalSigningConfig: defaultSigningConfig,
+      initialSigningConfig: defaultSigningConfig,
+      rerereEnabled: false,
+      initialRerereEnabled: false,
       isLoadingGitConfig: true,
+      sparseCheckoutEnabled: false,
+      sparseCheckoutPaths: [],
+      initialSparseCheckoutPaths: null,
+      topLevelDirectories: [],
+      isLoadingSparseCheckout: true,
     }
   }
 
@@ -108,6 +155,26 @@ export class RepositorySettings extends React.Component<
       this.setState({ errors: [`Could not read root .gitignore: ${e}`] })
     }
 
+    try {
+      const [sparseCheckoutPaths, topLevelDirectories] = await Promise.all([
+        getSparseCheckoutPaths(this.props.repository),
+        getTopLevelDirectories(this.props.repository),
+      ])
+
+      this.setState({
+        sparseCheckoutEnabled: sparseCheckoutPaths !== null,
+        sparseCheckoutPaths: sparseCheckoutPaths ?? [],
+        initialSparseCheckoutPaths: sparseCheckoutPaths,
+        topLevelDirectories,
+        isLoadingSparseCheckout: false,
+      })
+    } catch (e) {
+      log.error(
+        `RepositorySettings: unable to read sparse checkout paths for ${this.props.repository.path}`,
+        e
+      )
+    }
+
     const localCommitterName = await getConfigValue(
       this.props.repository,
       'user.name',
@@ -123,8 +190,17 @@ export class RepositorySettings extends React.Component<
     const globalCommitterEmail =
       (await getGlobalConfigValue('user.email')) || ''
 
+    const localSigningConfig = await getLocalSigningConfig(
+      this.props.repository
+    )
+    const signingConfig = await getSigningConfig(this.props.repository)
+    const globalSigningConfig = await getGlobalSigningConfig()
+    const rerereEnabled = await isRerereEnabled(this.props.repository)
+
     const gitConfigLocation =
-      localCommitterName === null && localCommitterEmail === null
+      localCommitterName === null &&
+      localCommitterEmail === null &&
+      localSigningConfig === null
         ? GitConfigLocation.Global
         : GitConfigLocation.Local
 
@@ -145,6 +221,11 @@ export class RepositorySettings extends React.Component<
       initialGitConfigLocation: gitConfigLocation,
       initialCommitterName: localCommitterName,
       initialCommitterEmail: localCommitterEmail,
+      signingConfig,
+      globalSigningConfig,
+      initialSigningConfig: signingConfig,
+      rerereEnabled,
+      initialRerereEnabled: rerereEnabled,
       isLoadingGitConfig: false,
     })
   }
@@ -195,6 +276,14 @@ export class RepositorySettings extends React.Component<
               <Octicon className="icon" symbol={OcticonSymbol.gitCommit} />
               {__DARWIN__ ? 'Git Config' : 'Git config'}
             </span>
+            <span>
+              <Octicon className="icon" symbol={OcticonSymbol.checklist} />
+              {__DARWIN__ ? 'Commit Messages' : 'Commit messages'}
+            </span>
+            <span>
+              <Octicon className="icon" symbol={OcticonSymbol.fileDirectory} />
+              {__DARWIN__ ? 'Sparse Checkout' : 'Sparse checkout'}
+            </span>
             {showForkSettings && (
               <span>
                 <Octicon className="icon" symbol={OcticonSymbol.repoForked} />
@@ -240,6 +329,26 @@ export class RepositorySettings extends React.Component<
           />
         )
       }
+      case RepositorySettingsTab.CommitMessageFormat: {
+        return (
+          <CommitMessageFormatSettings
+            format={this.state.commitMessageFormat}
+            onFormatChanged={this.onCommitMessageFormatChanged}
+          />
+        )
+      }
+      case RepositorySettingsTab.SparseCheckout: {
+        return (
+          <SparseCheckout
+            isEnabled={this.state.sparseCheckoutEnabled}
+            paths={this.state.sparseCheckoutPaths}
+            topLevelDirectories={this.state.topLevelDirectories}
+            isLoading={this.state.isLoadingSparseCheckout}
+            onEnabledChanged={this.onSparseCheckoutEnabledChanged}
+            onPathsChanged={this.onSparseCheckoutPathsChanged}
+          />
+        )
+      }
       case RepositorySettingsTab.ForkSettings: {
         if (!isRepositoryWithForkedGitHubRepository(this.props.repository)) {
           return null
@@ -268,7 +377,12 @@ export class RepositorySettings extends React.Component<
             globalEmail={this.state.globalCommitterEmail}
             onNameChanged={this.onCommitterNameChanged}
             onEmailChanged={this.onCommitterEmailChanged}
+            signingConfig={this.state.signingConfig}
+            globalSigningConfig={this.state.globalSigningConfig}
+            onSigningConfigChanged={this.onSigningConfigChanged}
             isLoadingGitConfig={this.state.isLoadingGitConfig}
+            rerereEnabled={this.state.rerereEnabled}
+            onRerereEnabledChanged={this.onRerereEnabledChanged}
           />
         )
       }
@@ -328,16 +442,37 @@ export class RepositorySettings extends React.Component<
       }
     }
 
+    const { sparseCheckoutEnabled, sparseCheckoutPaths } = this.state
+    const { initialSparseCheckoutPaths } = this.state
+    if (
+      sparseCheckoutEnabled
+        ? initialSparseCheckoutPaths === null ||
+          !arrayEquals(sparseCheckoutPaths, initialSparseCheckoutPaths)
+        : initialSparseCheckoutPaths !== null
+    ) {
+      await this.props.dispatcher.setSparseCheckoutPaths(
+        this.props.repository,
+        sparseCheckoutEnabled ? sparseCheckoutPaths : null
+      )
+    }
+
+    const { workflowPreferences } = this.props.repository
+    const { forkContributionTarget, commitMessageFormat } = this.state
+
     // only update this if it will be different from what we have stored
     if (
-      this.state.forkContributionTarget !==
-      this.props.repository.workflowPreferences.forkContributionTarget
+      forkContributionTarget !== workflowPreferences.forkContributionTarget ||
+      !structuralEquals(
+        commitMessageFormat,
+        workflowPreferences.commitMessageFormat ?? defaultCommitMessageFormat
+      )
     ) {
       await this.props.dispatcher.updateRepositoryWorkflowPreferences(
         this.props.repository,
         {
-          ...this.props.repository.workflowPreferences,
-          forkContributionTarget: this.state.forkContributionTarget,
+          ...workflowPreferences,
+          forkContributionTarget,
+          commitMessageFormat,
         }
       )
     }
@@ -354,6 +489,7 @@ export class RepositorySettings extends React.Component<
       // user info in this repository.
       await removeConfigValue(this.props.repository, 'user.name')
       await removeConfigValue(this.props.repository, 'user.email')
+      await removeLocalSigningConfig(this.props.repository)
 
       shouldRefreshAuthor = true
     } else if (this.state.gitConfigLocation === GitConfigLocation.Local) {
@@ -375,6 +511,30 @@ export class RepositorySettings extends React.Component<
         )
         shouldRefreshAuthor = true
       }
+
+      // Only the settings the user changed are stored in the repository's
+      // config, the others keep following the global config.
+      await setSigningConfig(
+        this.props.repository,
+        getChangedSigningConfig(
+          this.state.initialSigningConfig,
+          this.state.signingConfig
+        )
+      )
+    }
+
+    if (this.state.rerereEnabled !== this.state.initialRerereEnabled) {
+      try {
+        await setRerereEnabled(this.props.repository, this.state.rerereEnabled)
+      } catch (e) {
+        log.error(
+          `RepositorySettings: unable to set rerere.enabled at ${this.props.repository.path}`,
+          e
+        )
+        errors.push(
+          `Failed changing whether to reuse recorded resolutions: ${e}`
+        )
+      }
     }
 
     if (shouldRefreshAuthor) {
@@ -415,6 +575,12 @@ export class RepositorySettings extends React.Component<
     })
   }
 
+  private onCommitMessageFormatChanged = (
+    commitMessageFormat: ICommitMessageFormat
+  ) => {
+    this.setState({ commitMessageFormat })
+  }
+
   private onGitConfigLocationChanged = (value: GitConfigLocation) => {
     this.setState({ gitConfigLocation: value })
   }
@@ -435,4 +601,22 @@ export class RepositorySettings extends React.Component<
   private onCommitterEmailChanged = (committerEmail: string) => {
     this.setState({ committerEmail })
   }
+
+  private onSigningConfigChanged = (signingConfig: ISigningConfig) => {
+    this.setState({ signingConfig })
+  }
+
+  private onRerereEnabledChanged = (rerereEnabled: boolean) => {
+    this.setState({ rerereEnabled })
+  }
+
+  private onSparseCheckoutEnabledChanged = (sparseCheckoutEnabled: boolean) => {
+    this.setState({ sparseCheckoutEnabled })
+  }
+
+  private onSparseCheckoutPathsChanged = (
+    sparseCheckoutPaths: ReadonlyArray<string>
+  ) => {
+    this.setState({ sparseCheckoutPaths })
+  }
 }
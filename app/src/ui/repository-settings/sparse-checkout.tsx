@@ -0,0 +1,58 @@
+import * as React from 'react'
+import { DialogContent } from '../dialog'
+import { Row } from '../lib/row'
+import { Checkbox, CheckboxValue } from '../lib/checkbox'
+import { SparseCheckoutPathPicker } from '../lib/sparse-checkout-path-picker'
+
+interface ISparseCheckoutProps {
+  /** Whether only some of the directories are checked out */
+  readonly isEnabled: boolean
+
+  /** The directories checked out when sparse checkout is enabled */
+  readonly paths: ReadonlyArray<string>
+
+  /** The directories at the root of the repository */
+  readonly topLevelDirectories: ReadonlyArray<string>
+
+  readonly isLoading: boolean
+
+  readonly onEnabledChanged: (isEnabled: boolean) => void
+  readonly onPathsChanged: (paths: ReadonlyArray<string>) => void
+}
+
+/** A view for picking which directories of the repository are checked out */
+export class SparseCheckout extends React.Component<ISparseCheckoutProps> {
+  public render() {
+    const { isEnabled, isLoading } = this.props
+
+    return (
+      <DialogContent>
+        <p>
+          Sparse checkout limits the working directory to the selected
+          directories, along with the files at the root of the repository. Other
+          files are kept in the history but aren't written to disk.
+        </p>
+        <Row>
+          <Checkbox
+            label="Only check out the selected directories"
+            value={isEnabled ? CheckboxValue.On : CheckboxValue.Off}
+            disabled={isLoading}
+            onChange={this.onEnabledChanged}
+          />
+        </Row>
+        {isEnabled && (
+          <SparseCheckoutPathPicker
+            paths={this.props.paths}
+            availableDirectories={this.props.topLevelDirectories}
+            disabled={isLoading}
+            onPathsChanged={this.props.onPathsChanged}
+          />
+        )}
+      </DialogContent>
+    )
+  }
+
+  private onEnabledChanged = (event: React.FormEvent<HTMLInputElement>) => {
+    this.props.onEnabledChanged(event.currentTarget.checked)
+  }
+}
@@ -33,6 +33,7 @@ import { dragAndDropManager } from '../lib/drag-and-drop-manager'
 import { DragType } from '../models/drag-drop'
 import { PullRequestSuggestedNextAction } from '../models/pull-request'
 import { clamp } from '../lib/clamp'
+import { HookOutputPanel } from './hooks'
 
 interface IRepositoryViewProps {
   readonly repository: Repository
@@ -48,7 +49,12 @@ interface IRepositoryViewProps {
   readonly imageDiffType: ImageDiffType
   readonly hideWhitespaceInChangesDiff: boolean
   readonly hideWhitespaceInHistoryDiff: boolean
+
+  /** Whether the history tab shows the commits of all branches */
+  readonly showAllBranchesInHistory: boolean
+
   readonly showSideBySideDiff: boolean
+  readonly showBlame: boolean
   readonly askForConfirmationOnDiscardChanges: boolean
   readonly askForConfirmationOnDiscardStash: boolean
   readonly askForConfirmationOnCheckoutCommit: boolean
@@ -301,6 +307,8 @@ export class RepositoryView extends React.Component<
         tagsToPush={tagsToPush}
         aheadBehindStore={aheadBehindStore}
         isMultiCommitOperationInProgress={mcos !== null}
+        isBisecting={this.props.state.bisectState !== null}
+        showAllBranches={this.props.showAllBranchesInHistory}
         askForConfirmationOnCheckoutCommit={
           this.props.askForConfirmationOnCheckoutCommit
         }
@@ -328,6 +336,25 @@ export class RepositoryView extends React.Component<
     this.props.dispatcher.setSidebarWidth(width)
   }
 
+  private renderHookOutput() {
+    const { hookOutput } = this.props.state
+
+    if (hookOutput === null) {
+      return null
+    }
+
+    return (
+      <HookOutputPanel
+        hookOutput={hookOutput}
+        onDismissed={this.onHookOutputDismissed}
+      />
+    )
+  }
+
+  private onHookOutputDismissed = () => {
+    this.props.dispatcher.dismissHookOutput(this.props.repository)
+  }
+
   private renderSidebar(): JSX.Element {
     return (
       <FocusContainer onFocusWithinChanged={this.onSidebarFocusWithinChanged}>
@@ -341,6 +368,7 @@ export class RepositoryView extends React.Component<
         >
           {this.renderTabs()}
           {this.renderSidebarContents()}
+          {this.renderHookOutput()}
         </Resizable>
       </FocusContainer>
     )
@@ -372,6 +400,7 @@ export class RepositoryView extends React.Component<
           selectedStashedFile={selection.selectedStashedFile}
           stashedFileDiff={selection.selectedStashedFileDiff}
           imageDiffType={this.props.imageDiffType}
+          emoji={this.props.emoji}
           fileListWidth={this.props.stashedFilesWidth}
           repository={this.props.repository}
           dispatcher={this.props.dispatcher}
@@ -382,7 +411,7 @@ export class RepositoryView extends React.Component<
           onOpenBinaryFile={this.onOpenBinaryFile}
           onOpenSubmodule={this.onOpenSubmodule}
           onChangeImageDiffType={this.onChangeImageDiffType}
-          onHideWhitespaceInDiffChanged={this.onHideWhitespaceInDiffChanged}
+          softWrap={this.props.state.diffSettings.softWrap}
           onOpenInExternalEditor={this.props.onOpenInExternalEditor}
         />
       )
@@ -391,13 +420,6 @@ export class RepositoryView extends React.Component<
     return null
   }
 
-  private onHideWhitespaceInDiffChanged = (hideWhitespaceInDiff: boolean) => {
-    return this.props.dispatcher.onHideWhitespaceInChangesDiffChanged(
-      hideWhitespaceInDiff,
-      this.props.repository
-    )
-  }
-
   private renderContentForHistory(): JSX.Element {
     const { commitSelection, commitLookup, localCommitSHAs } = this.props.state
     const { changesetData, file, diff, shas, shasInDiff, isContiguous } =
@@ -435,6 +457,8 @@ export class RepositoryView extends React.Component<
         onViewCommitOnGitHub={this.props.onViewCommitOnGitHub}
         hideWhitespaceInDiff={this.props.hideWhitespaceInHistoryDiff}
         showSideBySideDiff={this.props.showSideBySideDiff}
+        diffSettings={this.props.state.diffSettings}
+        showBlame={this.props.showBlame}
         onOpenBinaryFile={this.onOpenBinaryFile}
         onOpenSubmodule={this.onOpenSubmodule}
         onChangeImageDiffType={this.onChangeImageDiffType}
@@ -516,6 +540,8 @@ export class RepositoryView extends React.Component<
           imageDiffType={this.props.imageDiffType}
           hideWhitespaceInDiff={this.props.hideWhitespaceInChangesDiff}
           showSideBySideDiff={this.props.showSideBySideDiff}
+          diffSettings={this.props.state.diffSettings}
+          showBlame={this.props.showBlame}
           onOpenBinaryFile={this.onOpenBinaryFile}
           onOpenSubmodule={this.onOpenSubmodule}
           onChangeImageDiffType={this.onChangeImageDiffType}
@@ -524,6 +550,7 @@ export class RepositoryView extends React.Component<
           }
           onDiffOptionsOpened={this.onDiffOptionsOpened}
           onOpenInExternalEditor={this.props.onOpenInExternalEditor}
+          emoji={this.props.emoji}
         />
       )
     }
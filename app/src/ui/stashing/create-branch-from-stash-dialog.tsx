@@ -0,0 +1,92 @@
+import * as React from 'react'
+import { Dialog, DialogContent, DialogFooter } from '../dialog'
+import { OkCancelButtonGroup } from '../dialog/ok-cancel-button-group'
+import { Dispatcher } from '../dispatcher'
+import { Repository } from '../../models/repository'
+import { IStashEntry } from '../../models/stash-entry'
+import { RefNameTextBox } from '../lib/ref-name-text-box'
+import { Ref } from '../lib/ref'
+
+interface ICreateBranchFromStashProps {
+  readonly dispatcher: Dispatcher
+  readonly repository: Repository
+  readonly stash: IStashEntry
+  readonly onDismissed: () => void
+}
+
+interface ICreateBranchFromStashState {
+  readonly branchName: string
+  readonly isCreating: boolean
+}
+
+/**
+ * A dialog for creating a branch at the commit a stash was created on and
+ * restoring the stash onto it (`git stash branch`).
+ */
+export class CreateBranchFromStash extends React.Component<
+  ICreateBranchFromStashProps,
+  ICreateBranchFromStashState
+> {
+  public constructor(props: ICreateBranchFromStashProps) {
+    super(props)
+    this.state = { branchName: '', isCreating: false }
+  }
+
+  public render() {
+    const { stash } = this.props
+    const { branchName, isCreating } = this.state
+    const [baseCommit] = stash.parents
+
+    return (
+      <Dialog
+        id="create-branch-from-stash"
+        title={
+          __DARWIN__ ? 'Create Branch from Stash' : 'Create branch from stash'
+        }
+        loading={isCreating}
+        disabled={isCreating}
+        onSubmit={this.onSubmit}
+        onDismissed={this.props.onDismissed}
+      >
+        <DialogContent>
+          <p>
+            The new branch will start at the commit the stash was created on
+            {baseCommit !== undefined && (
+              <>
+                {' '}
+                (<Ref>{baseCommit.substring(0, 7)}</Ref>)
+              </>
+            )}{' '}
+            and will be checked out with the stashed changes restored.
+          </p>
+          <RefNameTextBox
+            label="Name"
+            onValueChange={this.onBranchNameChanged}
+          />
+        </DialogContent>
+        <DialogFooter>
+          <OkCancelButtonGroup
+            okButtonText={__DARWIN__ ? 'Create Branch' : 'Create branch'}
+            okButtonDisabled={branchName.length === 0}
+          />
+        </DialogFooter>
+      </Dialog>
+    )
+  }
+
+  private onBranchNameChanged = (branchName: string) => {
+    this.setState({ branchName })
+  }
+
+  private onSubmit = async () => {
+    const { dispatcher, repository, stash } = this.props
+
+    this.setState({ isCreating: true })
+    await dispatcher.createBranchFromStash(
+      repository,
+      stash,
+      this.state.branchName
+    )
+    this.props.onDismissed()
+  }
+}
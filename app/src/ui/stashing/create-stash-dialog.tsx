@@ -0,0 +1,87 @@
+import * as React from 'react'
+import { Dialog, DialogContent, DialogFooter } from '../dialog'
+import { OkCancelButtonGroup } from '../dialog/ok-cancel-button-group'
+import { Dispatcher } from '../dispatcher'
+import { Repository } from '../../models/repository'
+import { TextBox } from '../lib/text-box'
+import { Row } from '../lib/row'
+
+interface ICreateStashProps {
+  readonly dispatcher: Dispatcher
+  readonly repository: Repository
+
+  /** The number of files with changes included in the Changes list */
+  readonly selectedFileCount: number
+
+  readonly onDismissed: () => void
+}
+
+interface ICreateStashState {
+  readonly message: string
+  readonly isStashing: boolean
+}
+
+/**
+ * A dialog for stashing the changes included in the Changes list, i.e. the
+ * selected files and lines, under an optional name.
+ */
+export class CreateStash extends React.Component<
+  ICreateStashProps,
+  ICreateStashState
+> {
+  public constructor(props: ICreateStashProps) {
+    super(props)
+    this.state = { message: '', isStashing: false }
+  }
+
+  public render() {
+    const { selectedFileCount } = this.props
+    const { message, isStashing } = this.state
+    const files = selectedFileCount === 1 ? 'file' : 'files'
+
+    return (
+      <Dialog
+        id="create-stash"
+        title={__DARWIN__ ? 'Stash Selected Changes' : 'Stash selected changes'}
+        loading={isStashing}
+        disabled={isStashing}
+        onSubmit={this.onSubmit}
+        onDismissed={this.props.onDismissed}
+      >
+        <DialogContent>
+          <p>
+            The selected changes in {selectedFileCount} {files} will be stashed
+            and removed from the working directory. All other changes are left
+            in place.
+          </p>
+          <Row>
+            <TextBox
+              label="Name"
+              placeholder="Optional"
+              value={message}
+              onValueChanged={this.onMessageChanged}
+            />
+          </Row>
+        </DialogContent>
+        <DialogFooter>
+          <OkCancelButtonGroup
+            okButtonText={__DARWIN__ ? 'Stash Changes' : 'Stash changes'}
+            okButtonDisabled={selectedFileCount === 0}
+          />
+        </DialogFooter>
+      </Dialog>
+    )
+  }
+
+  private onMessageChanged = (message: string) => {
+    this.setState({ message })
+  }
+
+  private onSubmit = async () => {
+    const { dispatcher, repository } = this.props
+
+    this.setState({ isStashing: true })
+    await dispatcher.createStashFromSelection(repository, this.state.message)
+    this.props.onDismissed()
+  }
+}
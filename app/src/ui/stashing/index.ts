@@ -1 +1,4 @@
 export * from './stash-diff-viewer'
+export { CreateStash } from './create-stash-dialog'
+export { StashBrowser } from './stash-browser-dialog'
+export { CreateBranchFromStash } from './create-branch-from-stash-dialog'
@@ -0,0 +1,273 @@
+import * as React from 'react'
+import { Dialog, DialogContent, DefaultDialogFooter } from '../dialog'
+import { Dispatcher } from '../dispatcher'
+import { Repository } from '../../models/repository'
+import { IStashEntry, StashedChangesLoadStates } from '../../models/stash-entry'
+import { CommittedFileChange } from '../../models/status'
+import { PopupType } from '../../models/popup'
+import { isDesktopStashEntry } from '../../lib/git/stash'
+import { List } from '../lib/list'
+import { Button } from '../lib/button'
+import { Ref } from '../lib/ref'
+import { RelativeTime } from '../relative-time'
+import { FileList } from '../history/file-list'
+import { Loading } from '../lib/loading'
+
+/** The width available to the file paths in the list of stashed files */
+const FileListWidth = 380
+
+interface IStashBrowserProps {
+  readonly dispatcher: Dispatcher
+  readonly repository: Repository
+
+  /** All stash entries in the repository */
+  readonly stashEntries: ReadonlyArray<IStashEntry>
+
+  readonly askForConfirmationOnDiscardStash: boolean
+  readonly onDismissed: () => void
+}
+
+interface IStashBrowserState {
+  /** The SHA of the selected stash entry, if any */
+  readonly selectedStashSha: string | null
+  readonly selectedFile: CommittedFileChange | null
+  readonly isBusy: boolean
+}
+
+/**
+ * Get the text to identify a stash entry by, which is the message given when
+ * the entry was created or the description Git came up with.
+ */
+function getStashEntryTitle(entry: IStashEntry) {
+  if (isDesktopStashEntry(entry)) {
+    return __DARWIN__ ? 'Stashed Changes' : 'Stashed changes'
+  }
+
+  return entry.message.replace(/^On [^:]+: /, '')
+}
+
+/**
+ * A dialog listing all stash entries in the repository, including the ones
+ * created outside of the app, allowing them to be restored, applied,
+ * discarded or turned into a branch.
+ */
+export class StashBrowser extends React.Component<
+  IStashBrowserProps,
+  IStashBrowserState
+> {
+  public constructor(props: IStashBrowserProps) {
+    super(props)
+
+    this.state = {
+      selectedStashSha: props.stashEntries.at(0)?.stashSha ?? null,
+      selectedFile: null,
+      isBusy: false,
+    }
+  }
+
+  public componentDidMount() {
+    this.loadSelectedStashEntryFiles()
+  }
+
+  public componentDidUpdate() {
+    this.loadSelectedStashEntryFiles()
+  }
+
+  /**
+   * The selected stash entry, falling back to the most recent one when the
+   * selected entry is no longer around, i.e. after it has been restored.
+   */
+  private get selectedStashEntry() {
+    const { stashEntries } = this.props
+    const { selectedStashSha } = this.state
+
+    return (
+      stashEntries.find(e => e.stashSha === selectedStashSha) ??
+      stashEntries.at(0) ??
+      null
+    )
+  }
+
+  private loadSelectedStashEntryFiles() {
+    const entry = this.selectedStashEntry
+
+    if (
+      entry !== null &&
+      entry.files.kind === StashedChangesLoadStates.NotLoaded
+    ) {
+      this.props.dispatcher.loadStashEntryFiles(this.props.repository, entry)
+    }
+  }
+
+  public render() {
+    return (
+      <Dialog
+        id="stash-browser"
+        title={__DARWIN__ ? 'Stashed Changes' : 'Stashed changes'}
+        onSubmit={this.props.onDismissed}
+        onDismissed={this.props.onDismissed}
+      >
+        <DialogContent>{this.renderContent()}</DialogContent>
+        <DefaultDialogFooter />
+      </Dialog>
+    )
+  }
+
+  private renderContent() {
+    const { stashEntries } = this.props
+    const selectedEntry = this.selectedStashEntry
+
+    if (stashEntries.length === 0 || selectedEntry === null) {
+      return <p>There are no stashed changes in this repository.</p>
+    }
+
+    return (
+      <div className="stash-browser">
+        <div className="stash-list">
+          <List
+            rowCount={stashEntries.length}
+            rowHeight={50}
+            rowRenderer={this.renderStashEntry}
+            selectedRows={[stashEntries.indexOf(selectedEntry)]}
+            onSelectedRowChanged={this.onSelectedRowChanged}
+            getRowAriaLabel={this.getStashEntryAriaLabel}
+            invalidationProps={stashEntries}
+          />
+        </div>
+        {this.renderStashEntryDetails(selectedEntry)}
+      </div>
+    )
+  }
+
+  private renderStashEntry = (row: number) => {
+    const entry = this.props.stashEntries[row]
+
+    return (
+      <div className="stash-entry">
+        <div className="title">{getStashEntryTitle(entry)}</div>
+        <div className="description">
+          {entry.branchName.length > 0 && (
+            <span className="branch">{entry.branchName} • </span>
+          )}
+          <RelativeTime date={entry.createdAt} />
+        </div>
+      </div>
+    )
+  }
+
+  private getStashEntryAriaLabel = (row: number) => {
+    const entry = this.props.stashEntries[row]
+    return `${getStashEntryTitle(entry)} on ${entry.branchName}`
+  }
+
+  private renderStashEntryDetails(entry: IStashEntry) {
+    const { isBusy } = this.state
+
+    return (
+      <div className="stash-details">
+        <div className="stash-message">
+          <Ref>{entry.name.replace(/^refs\//, '')}</Ref> {entry.message}
+        </div>
+        <div className="stash-files">{this.renderFiles(entry)}</div>
+        <div className="stash-actions">
+          <Button onClick={this.onPop} disabled={isBusy}>
+            Restore
+          </Button>
+          <Button onClick={this.onApply} disabled={isBusy}>
+            {__DARWIN__ ? 'Apply and Keep' : 'Apply and keep'}
+          </Button>
+          <Button onClick={this.onCreateBranch} disabled={isBusy}>
+            {__DARWIN__ ? 'Create Branch…' : 'Create branch…'}
+          </Button>
+          <Button onClick={this.onDiscard} disabled={isBusy}>
+            Discard
+            {this.props.askForConfirmationOnDiscardStash ? '…' : ''}
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  private renderFiles(entry: IStashEntry) {
+    if (entry.files.kind !== StashedChangesLoadStates.Loaded) {
+      return <Loading />
+    }
+
+    return (
+      <FileList
+        files={entry.files.files}
+        selectedFile={this.state.selectedFile}
+        onSelectedFileChanged={this.onSelectedFileChanged}
+        availableWidth={FileListWidth}
+      />
+    )
+  }
+
+  private onSelectedRowChanged = (row: number) => {
+    const entry = this.props.stashEntries[row]
+    this.setState({ selectedStashSha: entry.stashSha, selectedFile: null })
+  }
+
+  private onSelectedFileChanged = (selectedFile: CommittedFileChange) => {
+    this.setState({ selectedFile })
+  }
+
+  private async withBusyState(fn: (entry: IStashEntry) => Promise<void>) {
+    const entry = this.selectedStashEntry
+
+    if (entry === null) {
+      return
+    }
+
+    this.setState({ isBusy: true })
+
+    try {
+      await fn(entry)
+    } finally {
+      this.setState({ isBusy: false })
+    }
+  }
+
+  private onPop = () =>
+    this.withBusyState(entry =>
+      this.props.dispatcher.popStash(this.props.repository, entry)
+    )
+
+  private onApply = () =>
+    this.withBusyState(entry =>
+      this.props.dispatcher.applyStash(this.props.repository, entry)
+    )
+
+  private onCreateBranch = () => {
+    const { dispatcher, repository } = this.props
+    const stash = this.selectedStashEntry
+
+    if (stash !== null) {
+      dispatcher.showPopup({
+        type: PopupType.CreateBranchFromStash,
+        repository,
+        stash,
+      })
+    }
+  }
+
+  private onDiscard = () => {
+    const { dispatcher, repository, askForConfirmationOnDiscardStash } =
+      this.props
+    const stash = this.selectedStashEntry
+
+    if (stash === null) {
+      return
+    }
+
+    if (askForConfirmationOnDiscardStash) {
+      dispatcher.showPopup({
+        type: PopupType.ConfirmDiscardStash,
+        repository,
+        stash,
+      })
+    } else {
+      this.withBusyState(entry => dispatcher.dropStash(repository, entry))
+    }
+  }
+}
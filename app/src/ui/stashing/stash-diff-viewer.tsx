@@ -22,6 +22,9 @@ interface IStashDiffViewerProps {
   readonly stashedFileDiff: IDiff | null
   readonly imageDiffType: ImageDiffType
 
+  /** Map from the emoji shortcut (e.g., :+1:) to the image's local path. */
+  readonly emoji: Map<string, string>
+
   /** width to use for the files list pane */
   readonly fileListWidth: IConstrainedValue
   readonly repository: Repository
@@ -45,8 +48,8 @@ interface IStashDiffViewerProps {
    */
   readonly onChangeImageDiffType: (type: ImageDiffType) => void
 
-  /** Called when the user changes the hide whitespace in diffs setting. */
-  readonly onHideWhitespaceInDiffChanged: (checked: boolean) => void
+  /** Whether long lines wrap instead of overflowing the diff. */
+  readonly softWrap: boolean
 
   /** Called when the user requests to open a submodule. */
   readonly onOpenSubmodule: (fullPath: string) => void
@@ -108,13 +111,12 @@ export class StashDiffViewer extends React.PureComponent<IStashDiffViewerProps>
           file={selectedStashedFile}
           diff={stashedFileDiff}
           imageDiffType={imageDiffType}
+          emoji={this.props.emoji}
           hideWhitespaceInDiff={false}
           showSideBySideDiff={this.props.showSideBySideDiff}
+          softWrap={this.props.softWrap}
           onOpenBinaryFile={onOpenBinaryFile}
           onChangeImageDiffType={onChangeImageDiffType}
-          onHideWhitespaceInDiffChanged={
-            this.props.onHideWhitespaceInDiffChanged
-          }
           onOpenSubmodule={onOpenSubmodule}
         />
       ) : null
@@ -99,8 +99,11 @@ export class BranchDropdown extends React.Component<IBranchDropdownProps> {
         currentPullRequest={this.props.currentPullRequest}
         isLoadingPullRequests={this.props.isLoadingPullRequests}
         emoji={this.props.emoji}
+        localTags={repositoryState.localTags}
+        remoteTags={repositoryState.remoteTags}
         onDeleteBranch={this.onDeleteBranch}
         onRenameBranch={this.onRenameBranch}
+        onCreateWorktree={this.onCreateWorktree}
       />
     )
   }
@@ -243,6 +246,7 @@ export class BranchDropdown extends React.Component<IBranchDropdownProps> {
       isLocal: tip.branch.type === BranchType.Local,
       onRenameBranch: this.onRenameBranch,
       onDeleteBranch: this.onDeleteBranch,
+      onCreateWorktree: this.onCreateWorktree,
     })
 
     showContextualMenu(items)
@@ -268,6 +272,20 @@ export class BranchDropdown extends React.Component<IBranchDropdownProps> {
     })
   }
 
+  private onCreateWorktree = (branchName: string) => {
+    const branch = this.getBranchWithName(branchName)
+
+    if (branch === undefined) {
+      return
+    }
+
+    this.props.dispatcher.showPopup({
+      type: PopupType.CreateWorktree,
+      repository: this.props.repository,
+      branch,
+    })
+  }
+
   private onDeleteBranch = async (branchName: string) => {
     const branch = this.getBranchWithName(branchName)
     const { dispatcher, repository } = this.props
@@ -0,0 +1,95 @@
+import * as React from 'react'
+import { Checkbox, CheckboxValue } from '../lib/checkbox'
+import { Dialog, DialogContent, DialogFooter } from '../dialog'
+import { Ref } from '../lib/ref'
+import { Repository } from '../../models/repository'
+import { OkCancelButtonGroup } from '../dialog/ok-cancel-button-group'
+import { Dispatcher } from '../dispatcher'
+
+interface IConfirmRemoveWorktreeProps {
+  readonly dispatcher: Dispatcher
+
+  /** The linked worktree to be removed */
+  readonly repository: Repository
+
+  /** The action to execute when the user cancels */
+  readonly onDismissed: () => void
+}
+
+interface IConfirmRemoveWorktreeState {
+  readonly force: boolean
+  readonly isRemovingWorktree: boolean
+}
+
+/**
+ * A dialog asking the user to confirm the removal of a linked worktree,
+ * which deletes its working directory from disk.
+ */
+export class ConfirmRemoveWorktree extends React.Component<
+  IConfirmRemoveWorktreeProps,
+  IConfirmRemoveWorktreeState
+> {
+  public constructor(props: IConfirmRemoveWorktreeProps) {
+    super(props)
+
+    this.state = {
+      force: false,
+      isRemovingWorktree: false,
+    }
+  }
+
+  private onSubmit = async () => {
+    this.setState({ isRemovingWorktree: true })
+
+    await this.props.dispatcher.removeWorktree(
+      this.props.repository,
+      this.state.force
+    )
+
+    this.props.onDismissed()
+  }
+
+  public render() {
+    const { isRemovingWorktree } = this.state
+
+    return (
+      <Dialog
+        id="confirm-remove-worktree"
+        type="warning"
+        title={__DARWIN__ ? 'Remove Worktree' : 'Remove worktree'}
+        dismissable={!isRemovingWorktree}
+        loading={isRemovingWorktree}
+        disabled={isRemovingWorktree}
+        onDismissed={this.props.onDismissed}
+        onSubmit={this.onSubmit}
+      >
+        <DialogContent>
+          <p>
+            Are you sure you want to remove this worktree? Its working directory
+            will be deleted from disk:
+            <br />
+            <Ref>{this.props.repository.path}</Ref>
+          </p>
+          <p className="description">
+            Branches and commits in the worktree are kept in the repository.
+          </p>
+
+          <div>
+            <Checkbox
+              label="Remove even if the worktree has uncommitted changes or is locked"
+              value={this.state.force ? CheckboxValue.On : CheckboxValue.Off}
+              onChange={this.onForceChanged}
+            />
+          </div>
+        </DialogContent>
+        <DialogFooter>
+          <OkCancelButtonGroup destructive={true} okButtonText="Remove" />
+        </DialogFooter>
+      </Dialog>
+    )
+  }
+
+  private onForceChanged = (event: React.FormEvent<HTMLInputElement>) => {
+    this.setState({ force: event.currentTarget.checked })
+  }
+}
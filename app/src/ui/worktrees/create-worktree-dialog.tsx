@@ -0,0 +1,176 @@
+import * as React from 'react'
+import * as Path from 'path'
+
+import { Dispatcher } from '../dispatcher'
+import { Repository } from '../../models/repository'
+import { Branch, BranchType } from '../../models/branch'
+import { Dialog, DialogContent, DialogFooter } from '../dialog'
+import { OkCancelButtonGroup } from '../dialog/ok-cancel-button-group'
+import { Row } from '../lib/row'
+import { TextBox } from '../lib/text-box'
+import { Button } from '../lib/button'
+import { Checkbox, CheckboxValue } from '../lib/checkbox'
+import { RefNameTextBox } from '../lib/ref-name-text-box'
+import { Ref } from '../lib/ref'
+import { showOpenDialog } from '../main-process-proxy'
+
+interface ICreateWorktreeProps {
+  readonly dispatcher: Dispatcher
+  readonly repository: Repository
+
+  /** The branch to create the worktree from */
+  readonly branch: Branch
+
+  /**
+   * The names of all branches which are checked out in a worktree of the
+   * repository. Git refuses to check out the same branch in two worktrees.
+   */
+  readonly checkedOutBranches: ReadonlyArray<string>
+
+  readonly onDismissed: () => void
+}
+
+interface ICreateWorktreeState {
+  readonly path: string
+  readonly createBranch: boolean
+  readonly newBranchName: string
+  readonly isCreating: boolean
+}
+
+/**
+ * Get the default location of a new worktree, which is a sibling of the main
+ * worktree named after the repository and the branch.
+ */
+function getDefaultWorktreePath(repository: Repository, branchName: string) {
+  const name = `${Path.basename(repository.path)}-${branchName}`
+  return Path.join(Path.dirname(repository.path), name.replace(/\//g, '-'))
+}
+
+/** A dialog for creating a new worktree from a branch */
+export class CreateWorktree extends React.Component<
+  ICreateWorktreeProps,
+  ICreateWorktreeState
+> {
+  public constructor(props: ICreateWorktreeProps) {
+    super(props)
+
+    const { repository, branch } = props
+
+    this.state = {
+      path: getDefaultWorktreePath(repository, branch.nameWithoutRemote),
+      createBranch: this.mustCreateBranch,
+      newBranchName:
+        branch.type === BranchType.Remote ? branch.nameWithoutRemote : '',
+      isCreating: false,
+    }
+  }
+
+  /**
+   * Remote branches can't be checked out in a worktree and neither can a
+   * branch which is already checked out in another worktree so we need to
+   * create a new branch for those.
+   */
+  private get mustCreateBranch() {
+    const { branch, checkedOutBranches } = this.props
+    return (
+      branch.type === BranchType.Remote ||
+      checkedOutBranches.includes(branch.name)
+    )
+  }
+
+  public render() {
+    const { branch } = this.props
+    const { path, createBranch, newBranchName, isCreating } = this.state
+    const disabled =
+      path.length === 0 || (createBranch && newBranchName.length === 0)
+
+    return (
+      <Dialog
+        id="create-worktree"
+        title={__DARWIN__ ? 'Create Worktree' : 'Create worktree'}
+        onDismissed={this.props.onDismissed}
+        onSubmit={this.onSubmit}
+        loading={isCreating}
+        disabled={isCreating}
+      >
+        <DialogContent>
+          <p>
+            Create a new working directory for <Ref>{branch.name}</Ref> which
+            shares its history with this repository.
+          </p>
+          <Row>
+            <TextBox
+              value={path}
+              label={__DARWIN__ ? 'Local Path' : 'Local path'}
+              placeholder="worktree path"
+              onValueChanged={this.onPathChanged}
+            />
+            <Button onClick={this.onChooseDirectory}>Choose…</Button>
+          </Row>
+          <Row>
+            <Checkbox
+              label={`Create a new branch from ${branch.name}`}
+              value={createBranch ? CheckboxValue.On : CheckboxValue.Off}
+              onChange={this.onCreateBranchChanged}
+              disabled={this.mustCreateBranch}
+            />
+          </Row>
+          {createBranch && (
+            <RefNameTextBox
+              label={__DARWIN__ ? 'Branch Name' : 'Branch name'}
+              initialValue={newBranchName}
+              onValueChange={this.onNewBranchNameChanged}
+            />
+          )}
+        </DialogContent>
+
+        <DialogFooter>
+          <OkCancelButtonGroup
+            okButtonText={__DARWIN__ ? 'Create Worktree' : 'Create worktree'}
+            okButtonDisabled={disabled}
+          />
+        </DialogFooter>
+      </Dialog>
+    )
+  }
+
+  private onPathChanged = (path: string) => {
+    this.setState({ path })
+  }
+
+  private onChooseDirectory = async () => {
+    const directory = await showOpenDialog({
+      properties: ['createDirectory', 'openDirectory'],
+    })
+
+    if (directory !== null) {
+      this.setState({ path: directory })
+    }
+  }
+
+  private onCreateBranchChanged = (
+    event: React.FormEvent<HTMLInputElement>
+  ) => {
+    this.setState({ createBranch: event.currentTarget.checked })
+  }
+
+  private onNewBranchNameChanged = (newBranchName: string) => {
+    this.setState({ newBranchName })
+  }
+
+  private onSubmit = async () => {
+    const { dispatcher, repository, branch } = this.props
+    const { path, createBranch, newBranchName } = this.state
+
+    this.setState({ isCreating: true })
+
+    await dispatcher.createWorktree(
+      repository,
+      branch,
+      path,
+      createBranch ? newBranchName : null
+    )
+
+    this.props.onDismissed()
+  }
+}
@@ -0,0 +1,2 @@
+export { CreateWorktree } from './create-worktree-dialog'
+export { ConfirmRemoveWorktree } from './confirm-remove-worktree'
@@ -16,10 +16,12 @@ export function createState<K extends keyof IChangesState>(
       diff: null,
     },
     commitMessage: DefaultCommitMessage,
+    commitMessageTemplate: null,
     showCoAuthoredBy: false,
     coAuthors: [],
     conflictState: null,
     stashEntry: null,
+    stashEntries: [],
     currentBranchProtected: false,
     currentRepoRulesInfo: new RepoRulesInfo(),
   }
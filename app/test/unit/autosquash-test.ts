@@ -0,0 +1,92 @@
+import { Commit } from '../../src/models/commit'
+import { CommitIdentity } from '../../src/models/commit-identity'
+import { InteractiveRebaseAction } from '../../src/models/interactive-rebase'
+import { getAutosquashPlan, getFixupSummary } from '../../src/lib/autosquash'
+
+describe('getAutosquashPlan', () => {
+  it('returns null when there are no fixup commits', () => {
+    expect(
+      getAutosquashPlan([buildCommit('a', 'first'), buildCommit('b', 'second')])
+    ).toBeNull()
+  })
+
+  it('moves fixup commits right after their targets', () => {
+    const first = buildCommit('a1', 'first')
+    const second = buildCommit('b2', 'second')
+    const fixup = buildCommit('c3', getFixupSummary(first))
+    const squash = buildCommit('d4', 'squash! second')
+
+    const plan = getAutosquashPlan([first, second, fixup, squash])
+
+    expect(plan).not.toBeNull()
+    expect(plan!.steps.map(s => [s.commit.summary, s.action])).toEqual([
+      ['first', InteractiveRebaseAction.Pick],
+      ['fixup! first', InteractiveRebaseAction.Fixup],
+      ['second', InteractiveRebaseAction.Pick],
+      ['squash! second', InteractiveRebaseAction.Squash],
+    ])
+    expect(plan!.fixups.map(f => f.target)).toEqual([first, second])
+  })
+
+  it('starts at the oldest target commit', () => {
+    const plan = getAutosquashPlan([
+      buildCommit('a1', 'first'),
+      buildCommit('b2', 'second'),
+      buildCommit('c3', 'third'),
+      buildCommit('d4', 'fixup! second'),
+    ])
+
+    expect(plan!.steps.map(s => s.commit.summary)).toEqual([
+      'second',
+      'fixup! second',
+      'third',
+    ])
+  })
+
+  it('matches targets by SHA and by the start of their summary', () => {
+    const first = buildCommit('abcdef1', 'first commit')
+    const second = buildCommit('1234567', 'second commit')
+
+    const plan = getAutosquashPlan([
+      first,
+      second,
+      buildCommit('c3', 'fixup! abcdef'),
+      buildCommit('d4', 'fixup! second'),
+    ])
+
+    expect(plan!.fixups.map(f => f.target)).toEqual([first, second])
+  })
+
+  it('folds fixups for fixup commits into the original target', () => {
+    const first = buildCommit('a1', 'first')
+
+    const plan = getAutosquashPlan([
+      first,
+      buildCommit('b2', 'second'),
+      buildCommit('c3', 'fixup! first'),
+      buildCommit('d4', 'fixup! fixup! first'),
+    ])
+
+    expect(plan!.fixups.map(f => f.target)).toEqual([first, first])
+    expect(plan!.steps.map(s => s.commit.sha)).toEqual(['a1', 'c3', 'd4', 'b2'])
+  })
+
+  it('leaves fixup commits without a target in place', () => {
+    const plan = getAutosquashPlan([
+      buildCommit('a1', 'first'),
+      buildCommit('b2', 'fixup! missing'),
+      buildCommit('c3', 'fixup! first'),
+    ])
+
+    expect(plan!.steps.map(s => [s.commit.sha, s.action])).toEqual([
+      ['a1', InteractiveRebaseAction.Pick],
+      ['c3', InteractiveRebaseAction.Fixup],
+      ['b2', InteractiveRebaseAction.Pick],
+    ])
+  })
+})
+
+function buildCommit(sha: string, summary: string): Commit {
+  const author = new CommitIdentity('test', 'test', new Date())
+  return new Commit(sha, sha, summary, '', author, author, [], [], [])
+}
@@ -0,0 +1,158 @@
+import {
+  addRecentCommandId,
+  getMenuCommands,
+  getRecentCommandIds,
+  partitionRecentCommands,
+  removeAccessKeyMarkers,
+} from '../../src/lib/command-palette'
+import { IMenu, IMenuItem } from '../../src/models/app-menu'
+
+function createItem(
+  id: string,
+  label: string,
+  enabled: boolean = true
+): IMenuItem {
+  return {
+    id,
+    type: 'menuItem',
+    label,
+    enabled,
+    visible: true,
+    accelerator: null,
+    accessKey: null,
+  }
+}
+
+const menu: IMenu = {
+  type: 'menu',
+  items: [
+    {
+      id: 'view',
+      type: 'submenuItem',
+      label: '&View',
+      enabled: true,
+      visible: true,
+      accessKey: 'v',
+      menu: {
+        id: 'view',
+        type: 'menu',
+        items: [
+          createItem('show-changes', '&Changes'),
+          { id: 'separator', type: 'separator', visible: true },
+          createItem('show-history', '&History', false),
+          createItem('show-command-palette', 'Co&mmand palette…'),
+        ],
+      },
+    },
+    {
+      id: 'help',
+      type: 'submenuItem',
+      label: '&Help',
+      enabled: true,
+      visible: true,
+      accessKey: 'h',
+      menu: {
+        id: 'help',
+        type: 'menu',
+        items: [
+          {
+            id: 'troubleshooting',
+            type: 'submenuItem',
+            label: 'Troubleshooting',
+            enabled: true,
+            visible: true,
+            accessKey: null,
+            menu: {
+              id: 'troubleshooting',
+              type: 'menu',
+              items: [createItem('show-logs', 'Show &logs')],
+            },
+          },
+        ],
+      },
+    },
+  ],
+}
+
+describe('command palette', () => {
+  describe('removeAccessKeyMarkers', () => {
+    it('removes the ampersands marking access keys', () => {
+      expect(removeAccessKeyMarkers('Repository &settings…')).toBe(
+        'Repository settings…'
+      )
+    })
+
+    it('keeps escaped ampersands', () => {
+      expect(removeAccessKeyMarkers('Find && replace')).toBe('Find & replace')
+    })
+  })
+
+  describe('getMenuCommands', () => {
+    it('returns the enabled items of all menus and submenus', () => {
+      const commands = getMenuCommands(menu)
+
+      expect(commands.map(c => c.item.id)).toEqual([
+        'show-changes',
+        'show-command-palette',
+        'show-logs',
+      ])
+    })
+
+    it('uses the labels without access key markers', () => {
+      const [changes, , logs] = getMenuCommands(menu)
+
+      expect(changes.title).toBe('Changes')
+      expect(changes.path).toEqual(['View'])
+      expect(logs.title).toBe('Show logs')
+      expect(logs.path).toEqual(['Help'])
+    })
+
+    it('leaves out excluded items', () => {
+      const commands = getMenuCommands(menu, ['show-command-palette'])
+      expect(commands.map(c => c.item.id)).toEqual([
+        'show-changes',
+        'show-logs',
+      ])
+    })
+  })
+
+  describe('recently used commands', () => {
+    beforeEach(() => {
+      localStorage.clear()
+    })
+
+    it('lists the most recently used command first', () => {
+      addRecentCommandId('menu:show-changes')
+      addRecentCommandId('branch:main')
+      addRecentCommandId('menu:show-changes')
+
+      expect(getRecentCommandIds()).toEqual([
+        'menu:show-changes',
+        'branch:main',
+      ])
+    })
+
+    it('only remembers the ten most recent commands', () => {
+      for (let i = 0; i < 15; i++) {
+        addRecentCommandId(`command-${i}`)
+      }
+
+      const recent = getRecentCommandIds()
+      expect(recent).toHaveLength(10)
+      expect(recent[0]).toBe('command-14')
+    })
+
+    it('partitions commands by how recently they were used', () => {
+      const commands = [{ id: 'a' }, { id: 'b' }, { id: 'c' }, { id: 'd' }]
+
+      const { recent, other } = partitionRecentCommands(commands, [
+        'c',
+        'unknown',
+        'a',
+      ])
+
+      expect(recent.map(c => c.id)).toEqual(['c', 'a'])
+      expect(other.map(c => c.id)).toEqual(['b', 'd'])
+    })
+  })
+})
@@ -0,0 +1,149 @@
+import {
+  CommitGraphLineSpan,
+  computeCommitGraph,
+} from '../../src/lib/commit-graph'
+
+/**
+ * Create a function looking up the parents of commits from a list of commits
+ * formatted as `sha parent1 parent2…`
+ */
+function parseHistory(history: ReadonlyArray<string>) {
+  const parents = new Map<string, ReadonlyArray<string>>()
+  const commitSHAs = history.map(line => {
+    const [sha, ...parentSHAs] = line.split(' ')
+    parents.set(sha, parentSHAs)
+    return sha
+  })
+
+  return {
+    commitSHAs,
+    getParentSHAs: (sha: string) => parents.get(sha) ?? [],
+  }
+}
+
+describe('computeCommitGraph', () => {
+  it('draws a linear history in a single lane', () => {
+    const { commitSHAs, getParentSHAs } = parseHistory(['c b', 'b a', 'a'])
+    const { rows } = computeCommitGraph(commitSHAs, getParentSHAs)
+
+    expect(rows.map(r => r.lane)).toEqual([0, 0, 0])
+    expect(rows.map(r => r.laneCount)).toEqual([1, 1, 1])
+    expect(rows[0].lines).toEqual([
+      { from: 0, to: 0, color: 0, span: CommitGraphLineSpan.BottomHalf },
+    ])
+    expect(rows[1].lines).toEqual([
+      { from: 0, to: 0, color: 0, span: CommitGraphLineSpan.TopHalf },
+      { from: 0, to: 0, color: 0, span: CommitGraphLineSpan.BottomHalf },
+    ])
+    expect(rows[2].lines).toEqual([
+      { from: 0, to: 0, color: 0, span: CommitGraphLineSpan.TopHalf },
+    ])
+  })
+
+  it('branches off a lane for the second parent of a merge', () => {
+    const { commitSHAs, getParentSHAs } = parseHistory([
+      'm a b',
+      'b base',
+      'a base',
+      'base',
+    ])
+    const { rows } = computeCommitGraph(commitSHAs, getParentSHAs)
+
+    expect(rows.map(r => r.lane)).toEqual([0, 1, 0, 0])
+    expect(rows[0].lines).toEqual([
+      { from: 0, to: 0, color: 0, span: CommitGraphLineSpan.BottomHalf },
+      { from: 0, to: 1, color: 1, span: CommitGraphLineSpan.BottomHalf },
+    ])
+
+    // The lane of the merged branch passes by `a` and joins at `base`
+    expect(rows[2].lines).toContainEqual({
+      from: 1,
+      to: 1,
+      color: 1,
+      span: CommitGraphLineSpan.Full,
+    })
+    expect(rows[3].lines).toEqual([
+      { from: 0, to: 0, color: 0, span: CommitGraphLineSpan.TopHalf },
+      { from: 1, to: 0, color: 1, span: CommitGraphLineSpan.TopHalf },
+    ])
+    expect(rows[3].laneCount).toBe(2)
+  })
+
+  it('gives branch tips their own lane', () => {
+    const { commitSHAs, getParentSHAs } = parseHistory([
+      'feature base',
+      'main base',
+      'base',
+    ])
+    const { rows } = computeCommitGraph(commitSHAs, getParentSHAs)
+
+    expect(rows.map(r => r.lane)).toEqual([0, 1, 0])
+    expect(rows.map(r => r.color)).toEqual([0, 1, 0])
+    expect(rows[1].lines).toContainEqual({
+      from: 1,
+      to: 1,
+      color: 1,
+      span: CommitGraphLineSpan.BottomHalf,
+    })
+
+    // Both branches join at the commit they share
+    expect(rows[2].lines).toEqual([
+      { from: 0, to: 0, color: 0, span: CommitGraphLineSpan.TopHalf },
+      { from: 1, to: 0, color: 1, span: CommitGraphLineSpan.TopHalf },
+    ])
+  })
+
+  it('reuses freed lanes', () => {
+    const { commitSHAs, getParentSHAs } = parseHistory([
+      'm2 m1 d',
+      'd c',
+      'm1 a b',
+      'b a',
+      'c a',
+      'a',
+    ])
+    const { rows } = computeCommitGraph(commitSHAs, getParentSHAs)
+
+    expect(Math.max(...rows.map(r => r.laneCount))).toBeLessThanOrEqual(3)
+  })
+
+  it('does not reserve lanes for parents listed before their children', () => {
+    const { commitSHAs, getParentSHAs } = parseHistory(['a', 'b a', 'c'])
+    const graph = computeCommitGraph(commitSHAs, getParentSHAs)
+
+    expect(graph.lanes).toEqual([])
+    expect(graph.rows.map(r => r.lane)).toEqual([0, 0, 0])
+  })
+
+  it('extends a previously computed graph', () => {
+    const history = ['d c', 'c b', 'b a', 'a']
+    const { commitSHAs, getParentSHAs } = parseHistory(history)
+
+    const getParents = jest.fn(getParentSHAs)
+    const first = computeCommitGraph(commitSHAs.slice(0, 2), getParents)
+    const firstRows = [...first.rows]
+    const extended = computeCommitGraph(commitSHAs, getParents, first)
+
+    expect(getParents).toHaveBeenCalledTimes(commitSHAs.length)
+    expect(extended.rows.slice(0, 2)).toEqual(firstRows)
+    expect(extended).toEqual(computeCommitGraph(commitSHAs, getParentSHAs))
+  })
+
+  it('recomputes a graph which has already been extended', () => {
+    const { commitSHAs, getParentSHAs } = parseHistory(['c b', 'b a', 'a'])
+    const first = computeCommitGraph(commitSHAs.slice(0, 1), getParentSHAs)
+    computeCommitGraph(commitSHAs.slice(0, 2), getParentSHAs, first)
+
+    const graph = computeCommitGraph(commitSHAs, getParentSHAs, first)
+
+    expect(graph).toEqual(computeCommitGraph(commitSHAs, getParentSHAs))
+  })
+
+  it('recomputes the graph when the commits have changed', () => {
+    const { commitSHAs, getParentSHAs } = parseHistory(['c b', 'b a', 'a'])
+    const previous = computeCommitGraph(['x', 'y'], () => [])
+    const graph = computeCommitGraph(commitSHAs, getParentSHAs, previous)
+
+    expect(graph).toEqual(computeCommitGraph(commitSHAs, getParentSHAs))
+  })
+})
@@ -0,0 +1,75 @@
+import {
+  formatCommitSummary,
+  getCommitSummaryValidationError,
+  parseCommitSummary,
+} from '../../src/lib/commit-message-format'
+import { defaultCommitMessageFormat } from '../../src/models/commit-message-format'
+
+describe('commit message format', () => {
+  describe('parseCommitSummary', () => {
+    it('parses the type, scope and breaking change marker', () => {
+      expect(parseCommitSummary('feat(parser)!: add arrays')).toEqual({
+        type: 'feat',
+        scope: 'parser',
+        breaking: true,
+        subject: 'add arrays',
+      })
+    })
+
+    it('treats summaries without a prefix as only a subject', () => {
+      expect(parseCommitSummary('Add arrays: finally')).toEqual({
+        type: '',
+        scope: '',
+        breaking: false,
+        subject: 'Add arrays: finally',
+      })
+    })
+  })
+
+  describe('formatCommitSummary', () => {
+    it('round trips parsed summaries', () => {
+      const summary = 'fix(ui): align buttons'
+      expect(formatCommitSummary(parseCommitSummary(summary))).toBe(summary)
+    })
+
+    it('leaves out the prefix when there is no type', () => {
+      expect(
+        formatCommitSummary({
+          type: '',
+          scope: 'ui',
+          breaking: true,
+          subject: 'align buttons',
+        })
+      ).toBe('align buttons')
+    })
+  })
+
+  describe('getCommitSummaryValidationError', () => {
+    const format = { ...defaultCommitMessageFormat, enabled: true }
+
+    it('accepts summaries matching the pattern', () => {
+      expect(
+        getCommitSummaryValidationError(format, 'feat(api)!: drop v1')
+      ).toBeNull()
+    })
+
+    it('requires a type', () => {
+      expect(getCommitSummaryValidationError(format, 'Drop v1')).not.toBeNull()
+    })
+
+    it('ignores the pattern when the helper is disabled', () => {
+      expect(
+        getCommitSummaryValidationError(
+          { ...format, enabled: false },
+          'Drop v1'
+        )
+      ).toBeNull()
+    })
+
+    it('ignores invalid patterns', () => {
+      expect(
+        getCommitSummaryValidationError({ ...format, pattern: '(' }, 'Drop v1')
+      ).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,176 @@
+import {
+  ConflictResolutionChoice,
+  IConflictSegment,
+  applyConflictResolutions,
+  getConflictResolutionLines,
+  parseConflictMarkers,
+} from '../../src/lib/conflict-markers'
+
+const mergeStyle = [
+  'first',
+  '<<<<<<< HEAD',
+  'ours',
+  '=======',
+  'theirs',
+  'more theirs',
+  '>>>>>>> feature',
+  'last',
+].join('\n')
+
+const diff3Style = [
+  '<<<<<<< HEAD',
+  'ours',
+  '||||||| merged common ancestors',
+  'base',
+  '=======',
+  'theirs',
+  '>>>>>>> 1234567 (Change the thing)',
+  '',
+].join('\n')
+
+function getConflicts(contents: string) {
+  return parseConflictMarkers(contents).filter(
+    (s): s is IConflictSegment => s.kind === 'conflict'
+  )
+}
+
+describe('parseConflictMarkers', () => {
+  it('parses conflicts in the merge style', () => {
+    const segments = parseConflictMarkers(mergeStyle)
+
+    expect(segments).toEqual([
+      { kind: 'merged', lines: ['first'] },
+      {
+        kind: 'conflict',
+        ours: ['ours'],
+        oursLabel: 'HEAD',
+        base: null,
+        baseLabel: null,
+        theirs: ['theirs', 'more theirs'],
+        theirsLabel: 'feature',
+        lineEnding: '\n',
+      },
+      { kind: 'merged', lines: ['last'] },
+    ])
+  })
+
+  it('parses the common ancestor of conflicts in the diff3 style', () => {
+    const [conflict] = getConflicts(diff3Style)
+
+    expect(conflict.ours).toEqual(['ours'])
+    expect(conflict.base).toEqual(['base'])
+    expect(conflict.baseLabel).toBe('merged common ancestors')
+    expect(conflict.theirs).toEqual(['theirs'])
+    expect(conflict.theirsLabel).toBe('1234567 (Change the thing)')
+  })
+
+  it('parses multiple conflicts and empty sides', () => {
+    const contents = [
+      '<<<<<<< HEAD',
+      '=======',
+      'added',
+      '>>>>>>> feature',
+      'between',
+      '<<<<<<< HEAD',
+      'removed',
+      '=======',
+      '>>>>>>> feature',
+    ].join('\n')
+
+    const conflicts = getConflicts(contents)
+
+    expect(conflicts).toHaveLength(2)
+    expect(conflicts[0].ours).toEqual([])
+    expect(conflicts[0].theirs).toEqual(['added'])
+    expect(conflicts[1].ours).toEqual(['removed'])
+    expect(conflicts[1].theirs).toEqual([])
+  })
+
+  it('keeps carriage returns within lines but not in labels', () => {
+    const contents =
+      '<<<<<<< HEAD\r\nours\r\n=======\r\ntheirs\r\n>>>>>>> x\r\n'
+    const [conflict] = getConflicts(contents)
+
+    expect(conflict.oursLabel).toBe('HEAD')
+    expect(conflict.ours).toEqual(['ours\r'])
+    expect(conflict.theirsLabel).toBe('x')
+    expect(conflict.lineEnding).toBe('\r\n')
+  })
+
+  it('leaves incomplete conflicts as they are', () => {
+    const contents = ['<<<<<<< HEAD', 'ours', '=======', 'theirs'].join('\n')
+
+    expect(parseConflictMarkers(contents)).toEqual([
+      { kind: 'merged', lines: contents.split('\n') },
+    ])
+  })
+
+  it('ignores lines which only look like markers', () => {
+    const contents = ['<<<<<<<< HEAD', '========', '>>>>>>>>'].join('\n')
+
+    expect(getConflicts(contents)).toHaveLength(0)
+  })
+})
+
+describe('getConflictResolutionLines', () => {
+  const [conflict] = getConflicts(diff3Style)
+
+  it('picks either side', () => {
+    const { Ours, Theirs, Base } = ConflictResolutionChoice
+
+    expect(getConflictResolutionLines(conflict, Ours)).toEqual(['ours'])
+    expect(getConflictResolutionLines(conflict, Theirs)).toEqual(['theirs'])
+    expect(getConflictResolutionLines(conflict, Base)).toEqual(['base'])
+  })
+
+  it('picks both sides in either order', () => {
+    const { OursThenTheirs, TheirsThenOurs } = ConflictResolutionChoice
+
+    expect(getConflictResolutionLines(conflict, OursThenTheirs)).toEqual([
+      'ours',
+      'theirs',
+    ])
+    expect(getConflictResolutionLines(conflict, TheirsThenOurs)).toEqual([
+      'theirs',
+      'ours',
+    ])
+  })
+})
+
+describe('applyConflictResolutions', () => {
+  it('replaces conflicts with their resolutions', () => {
+    const segments = parseConflictMarkers(mergeStyle)
+
+    expect(applyConflictResolutions(segments, [['resolved']])).toBe(
+      'first\nresolved\nlast'
+    )
+    expect(applyConflictResolutions(segments, [[]])).toBe('first\nlast')
+  })
+
+  it('keeps CRLF line endings', () => {
+    const contents = mergeStyle.replace(/\n/g, '\r\n') + '\r\n'
+    const segments = parseConflictMarkers(contents)
+
+    expect(applyConflictResolutions(segments, [])).toBe(contents)
+    expect(
+      applyConflictResolutions(segments, [
+        getConflictResolutionLines(
+          getConflicts(contents)[0],
+          ConflictResolutionChoice.Ours
+        ),
+      ])
+    ).toBe('first\r\nours\r\nlast\r\n')
+    expect(applyConflictResolutions(segments, [['edited', 'lines']])).toBe(
+      'first\r\nedited\r\nlines\r\nlast\r\n'
+    )
+  })
+
+  it('writes unresolved conflicts back with their markers', () => {
+    expect(applyConflictResolutions(parseConflictMarkers(mergeStyle), [])).toBe(
+      mergeStyle
+    )
+    expect(applyConflictResolutions(parseConflictMarkers(diff3Style), [])).toBe(
+      diff3Style
+    )
+  })
+})
@@ -2,10 +2,13 @@ import { GitProcess } from 'dugite'
 import {
   setupTwoCommitRepo,
   setupFixtureRepository,
+  setupEmptyRepository,
 } from '../../helpers/repositories'
 import { Repository } from '../../../src/models/repository'
 import {
+  applyPatchToIndex,
   checkPatch,
+  getDefaultDiffSelection,
   getWorkingDirectoryDiff,
   discardChangesFromSelection,
 } from '../../../src/lib/git'
@@ -18,6 +21,7 @@ import {
   AppFileStatusKind,
 } from '../../../src/models/status'
 import {
+  defaultDiffSettings,
   DiffSelection,
   DiffSelectionType,
   ITextDiff,
@@ -254,6 +258,137 @@ describe('git/apply', () => {
 `)
     })
   })
+  describe('getDefaultDiffSelection()', () => {
+    let repository: Repository
+
+    const file = new WorkingDirectoryFileChange(
+      'file.txt',
+      { kind: AppFileStatusKind.Modified },
+      DiffSelection.fromInitialSelection(DiffSelectionType.None)
+    )
+
+    async function getStagedDiff() {
+      const result = await GitProcess.exec(
+        ['diff', '--cached', '--no-color'],
+        repository.path
+      )
+      return result.stdout
+    }
+
+    /** Select every added and deleted line in the given diff */
+    function selectAllLines(diff: ITextDiff, selection: DiffSelection) {
+      let result = selection
+      for (const hunk of diff.hunks) {
+        hunk.lines.forEach((line, index) => {
+          if (line.isIncludeableLine()) {
+            result = result.withLineSelection(
+              hunk.unifiedDiffStart + index,
+              true
+            )
+          }
+        })
+      }
+      return result
+    }
+
+    beforeEach(async () => {
+      repository = await setupEmptyRepository()
+      await makeCommit(repository, {
+        entries: [
+          {
+            path: 'file.txt',
+            contents: ['one', 'two', 'three', 'four', 'five', ''].join('\n'),
+          },
+        ],
+      })
+      await FSE.writeFile(
+        Path.join(repository.path, 'file.txt'),
+        ['one', '  two', 'three', 'four', 'FIVE', ''].join('\n')
+      )
+    })
+
+    it('returns the selection as is when the diff has default settings', async () => {
+      const diff = (await getWorkingDirectoryDiff(
+        repository,
+        file
+      )) as ITextDiff
+      const selection = selectAllLines(
+        diff,
+        DiffSelection.fromInitialSelection(DiffSelectionType.None)
+      ).withLineSelection(diff.hunks[0].unifiedDiffStart + 1, false)
+
+      const result = await getDefaultDiffSelection(
+        repository,
+        file,
+        selection,
+        false,
+        defaultDiffSettings
+      )
+
+      expect(result).toBe(selection)
+    })
+
+    it('stages only the selected changes when whitespace is hidden', async () => {
+      const diff = (await getWorkingDirectoryDiff(
+        repository,
+        file,
+        true
+      )) as ITextDiff
+
+      expect(diff.text).not.toContain('+  two')
+
+      const selection = selectAllLines(
+        diff,
+        DiffSelection.fromInitialSelection(DiffSelectionType.None)
+      )
+
+      const result = await getDefaultDiffSelection(
+        repository,
+        file,
+        selection,
+        true,
+        defaultDiffSettings
+      )
+
+      await applyPatchToIndex(repository, file.withSelection(result))
+
+      const staged = await getStagedDiff()
+      expect(staged).toContain('-five')
+      expect(staged).toContain('+FIVE')
+      expect(staged).not.toContain('+  two')
+    })
+
+    it('stages only the selected changes without context lines', async () => {
+      const diffSettings = { ...defaultDiffSettings, contextLines: 0 }
+      const diff = (await getWorkingDirectoryDiff(
+        repository,
+        file,
+        false,
+        diffSettings
+      )) as ITextDiff
+
+      expect(diff.hunks).toHaveLength(2)
+
+      const selection = selectAllLines(
+        { ...diff, hunks: [diff.hunks[0]] },
+        DiffSelection.fromInitialSelection(DiffSelectionType.None)
+      )
+
+      const result = await getDefaultDiffSelection(
+        repository,
+        file,
+        selection,
+        false,
+        diffSettings
+      )
+
+      await applyPatchToIndex(repository, file.withSelection(result))
+
+      const staged = await getStagedDiff()
+      expect(staged).toContain('+  two')
+      expect(staged).not.toContain('+FIVE')
+    })
+  })
 })
 
 const noColor = (str: string) => str
@@ -0,0 +1,93 @@
+import { Repository } from '../../../src/models/repository'
+import {
+  getBisectState,
+  getCommits,
+  isBisecting,
+  markBisectCommit,
+  resetBisect,
+  startBisect,
+} from '../../../src/lib/git'
+import { setupEmptyRepository } from '../../helpers/repositories'
+import { makeCommit } from '../../helpers/repository-scaffolding'
+import { getTipOrError } from '../../helpers/git'
+
+describe('git/bisect', () => {
+  let repository: Repository
+  let shas: ReadonlyArray<string>
+
+  beforeEach(async () => {
+    repository = await setupEmptyRepository()
+
+    for (let i = 1; i <= 8; i++) {
+      await makeCommit(repository, {
+        commitMessage: `Commit ${i}`,
+        entries: [{ path: 'README.md', contents: `${i}\n` }],
+      })
+    }
+
+    // Oldest commit first
+    const commits = await getCommits(repository, 'HEAD', 100)
+    shas = commits.map(c => c.sha).reverse()
+  })
+
+  it('returns null when not bisecting', async () => {
+    expect(await isBisecting(repository)).toBe(false)
+    expect(await getBisectState(repository)).toBeNull()
+  })
+
+  it('waits for a good commit when only started with a bad commit', async () => {
+    await startBisect(repository, shas[7], null)
+
+    const state = await getBisectState(repository)
+    expect(state).not.toBeNull()
+    expect(state!.badSha).toBe(shas[7])
+    expect(state!.goodShas).toEqual([])
+    expect(state!.current).toBeNull()
+    expect(state!.firstBadCommit).toBeNull()
+  })
+
+  it('finds the first bad commit', async () => {
+    // Commit 5 (index 4) introduced the regression
+    const firstBad = shas[4]
+    await startBisect(repository, shas[7], shas[0])
+
+    let state = await getBisectState(repository)
+
+    while (state !== null && state.current !== null) {
+      const index = shas.indexOf(state.current.sha)
+      expect(state.remainingCount).toBeGreaterThan(0)
+
+      await markBisectCommit(repository, index >= 4 ? 'bad' : 'good')
+      state = await getBisectState(repository)
+    }
+
+    expect(state).not.toBeNull()
+    expect(state!.firstBadCommit?.sha).toBe(firstBad)
+    expect(state!.firstBadCommit?.summary).toBe('Commit 5')
+    expect(state!.possibleFirstBadShas).toEqual([])
+  })
+
+  it('lists the possible first bad commits when only skipped commits remain', async () => {
+    await startBisect(repository, shas[2], shas[0])
+
+    await markBisectCommit(repository, 'skip', shas[1])
+
+    const state = await getBisectState(repository)
+    expect(state).not.toBeNull()
+    expect(state!.current).toBeNull()
+    expect(state!.firstBadCommit).toBeNull()
+    expect([...state!.possibleFirstBadShas].sort()).toEqual(
+      [shas[1], shas[2]].sort()
+    )
+  })
+
+  it('restores the original HEAD when reset', async () => {
+    const tip = await getTipOrError(repository)
+    await startBisect(repository, shas[7], shas[0])
+
+    await resetBisect(repository)
+
+    expect(await isBisecting(repository)).toBe(false)
+    expect((await getTipOrError(repository)).sha).toBe(tip.sha)
+  })
+})
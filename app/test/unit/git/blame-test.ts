@@ -0,0 +1,117 @@
+import * as FSE from 'fs-extra'
+import * as Path from 'path'
+import { Repository } from '../../../src/models/repository'
+import { getBlame, parseBlamePorcelain } from '../../../src/lib/git'
+import { setupEmptyRepository } from '../../helpers/repositories'
+import { makeCommit } from '../../helpers/repository-scaffolding'
+import { getTipOrError } from '../../helpers/git'
+import { UncommittedBlameSha } from '../../../src/models/blame'
+
+describe('git/blame', () => {
+  describe('getBlame', () => {
+    let repository: Repository
+
+    beforeEach(async () => {
+      repository = await setupEmptyRepository()
+
+      await makeCommit(repository, {
+        commitMessage: 'First commit',
+        entries: [{ path: 'README.md', contents: 'one\ntwo\nthree\n' }],
+      })
+    })
+
+    it('attributes every line to the commit that introduced it', async () => {
+      const first = await getTipOrError(repository)
+
+      await makeCommit(repository, {
+        commitMessage: 'Second commit',
+        entries: [{ path: 'README.md', contents: 'one\n2\nthree\n' }],
+      })
+      const second = await getTipOrError(repository)
+
+      const blame = await getBlame(repository, 'README.md', 'HEAD')
+
+      expect(blame.lines.map(l => l.content)).toEqual(['one', '2', 'three'])
+      expect(blame.lines.map(l => l.sha)).toEqual([
+        first.sha,
+        second.sha,
+        first.sha,
+      ])
+      expect(blame.lines.map(l => l.lineNumber)).toEqual([1, 2, 3])
+
+      const secondCommit = blame.commits.get(second.sha)
+      expect(secondCommit?.summary).toBe('Second commit')
+      expect(secondCommit?.previousSha).toBe(first.sha)
+      expect(secondCommit?.author.name).toBe('Joe Bloggs')
+      expect(secondCommit?.author.email).toBe('joe.bloggs@somewhere.com')
+    })
+
+    it('blames the file at the given commit', async () => {
+      const first = await getTipOrError(repository)
+
+      await makeCommit(repository, {
+        entries: [{ path: 'README.md', contents: 'changed\n' }],
+      })
+
+      const blame = await getBlame(repository, 'README.md', first.sha)
+
+      expect(blame.lines).toHaveLength(3)
+      expect(blame.lines.every(l => l.sha === first.sha)).toBe(true)
+    })
+
+    it('attributes uncommitted lines to the uncommitted sha', async () => {
+      await FSE.writeFile(
+        Path.join(repository.path, 'README.md'),
+        'one\ntwo\nthree\nfour\n'
+      )
+
+      const blame = await getBlame(repository, 'README.md', null)
+
+      expect(blame.lines).toHaveLength(4)
+      expect(blame.lines[3].sha).toBe(UncommittedBlameSha)
+      expect(blame.lines[3].content).toBe('four')
+    })
+  })
+
+  describe('parseBlamePorcelain', () => {
+    it('parses boundary commits and reuses commit information', () => {
+      const sha = 'a'.repeat(40)
+      const output = [
+        `${sha} 1 1 2`,
+        'author Mona Lisa',
+        'author-mail <mona@example.com>',
+        'author-time 1475670580',
+        'author-tz +0200',
+        'committer Hubot',
+        'committer-mail <hubot@example.com>',
+        'committer-time 1475670590',
+        'committer-tz -0130',
+        'summary Initial commit',
+        'boundary',
+        'filename old-name.md',
+        '\tfirst line\r',
+        `${sha} 2 2`,
+        '\tsecond line',
+        '',
+      ].join('\n')
+
+      const { commits, lines } = parseBlamePorcelain(output)
+
+      expect(lines).toEqual([
+        { sha, originalLineNumber: 1, lineNumber: 1, content: 'first line' },
+        { sha, originalLineNumber: 2, lineNumber: 2, content: 'second line' },
+      ])
+
+      const commit = commits.get(sha)
+      expect(commit).toBeDefined()
+      expect(commit!.isBoundary).toBe(true)
+      expect(commit!.previousSha).toBeNull()
+      expect(commit!.filename).toBe('old-name.md')
+      expect(commit!.author.email).toBe('mona@example.com')
+      expect(commit!.author.date).toEqual(new Date(1475670580 * 1000))
+      expect(commit!.author.tzOffset).toBe(120)
+      expect(commit!.committer.name).toBe('Hubot')
+      expect(commit!.committer.tzOffset).toBe(-90)
+    })
+  })
+})
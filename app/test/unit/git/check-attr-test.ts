@@ -0,0 +1,26 @@
+import * as FSE from 'fs-extra'
+import * as Path from 'path'
+
+import { setupEmptyRepository } from '../../helpers/repositories'
+import { getLinguistLanguage } from '../../../src/lib/git'
+
+describe('git/check-attr', () => {
+  describe('getLinguistLanguage', () => {
+    it('returns null when no language is set', async () => {
+      const repo = await setupEmptyRepository()
+
+      expect(await getLinguistLanguage(repo, 'main.tf')).toBeNull()
+    })
+
+    it('returns the language set in .gitattributes', async () => {
+      const repo = await setupEmptyRepository()
+      await FSE.writeFile(
+        Path.join(repo.path, '.gitattributes'),
+        '*.tf linguist-language=Terraform\n*.txt -linguist-language\n'
+      )
+
+      expect(await getLinguistLanguage(repo, 'infra/main.tf')).toBe('Terraform')
+      expect(await getLinguistLanguage(repo, 'notes.txt')).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,58 @@
+import * as Path from 'path'
+import * as FSE from 'fs-extra'
+import { pathToFileURL } from 'url'
+import { Repository } from '../../../src/models/repository'
+import { clone, getCommits, getSparseCheckoutPaths } from '../../../src/lib/git'
+import { setupEmptyRepository } from '../../helpers/repositories'
+import { makeCommit } from '../../helpers/repository-scaffolding'
+import { mkdirSync } from '../../helpers/temp'
+
+describe('git/clone', () => {
+  let url: string
+
+  beforeEach(async () => {
+    const source = await setupEmptyRepository()
+
+    for (const directory of ['app', 'docs']) {
+      await FSE.mkdir(Path.join(source.path, directory))
+    }
+
+    await makeCommit(source, {
+      entries: [
+        { path: 'README.md', contents: 'readme\n' },
+        { path: 'app/index.ts', contents: 'app\n' },
+        { path: 'docs/index.md', contents: 'docs\n' },
+      ],
+    })
+
+    await makeCommit(source, {
+      entries: [{ path: 'README.md', contents: 'updated readme\n' }],
+    })
+
+    // Shallow and partial clones require a URL rather than a local path
+    url = pathToFileURL(source.path).toString()
+  })
+
+  it('creates a shallow clone', async () => {
+    const path = Path.join(mkdirSync('desktop-clone-'), 'shallow')
+    await clone(url, path, { account: null, depth: 1 })
+
+    const commits = await getCommits(new Repository(path, -1, null, false))
+    expect(commits).toHaveLength(1)
+  })
+
+  it('only checks out the selected directories', async () => {
+    const path = Path.join(mkdirSync('desktop-clone-'), 'sparse')
+    await clone(url, path, {
+      account: null,
+      partialClone: true,
+      sparseCheckoutPaths: ['docs'],
+    })
+
+    const repository = new Repository(path, -1, null, false)
+    expect(await getSparseCheckoutPaths(repository)).toEqual(['docs'])
+    expect(await FSE.pathExists(Path.join(path, 'README.md'))).toBe(true)
+    expect(await FSE.pathExists(Path.join(path, 'docs/index.md'))).toBe(true)
+    expect(await FSE.pathExists(Path.join(path, 'app/index.ts'))).toBe(false)
+  })
+})
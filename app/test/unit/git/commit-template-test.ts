@@ -0,0 +1,49 @@
+import * as Path from 'path'
+import * as FSE from 'fs-extra'
+import { Repository } from '../../../src/models/repository'
+import { getCommitMessageTemplate, setConfigValue } from '../../../src/lib/git'
+import { setupEmptyRepository } from '../../helpers/repositories'
+
+describe('git/commit-template', () => {
+  let repository: Repository
+
+  beforeEach(async () => {
+    repository = await setupEmptyRepository()
+  })
+
+  it('returns null when no template is configured', async () => {
+    expect(await getCommitMessageTemplate(repository)).toBeNull()
+  })
+
+  it('returns null when the template is missing', async () => {
+    await setConfigValue(repository, 'commit.template', 'missing.txt')
+    expect(await getCommitMessageTemplate(repository)).toBeNull()
+  })
+
+  it('splits the template into a summary and description', async () => {
+    await FSE.writeFile(
+      Path.join(repository.path, '.gitmessage'),
+      '# Describe the change\nfeat: \n\n# Why?\nCloses #\n\n'
+    )
+    await setConfigValue(repository, 'commit.template', '.gitmessage')
+
+    expect(await getCommitMessageTemplate(repository)).toEqual({
+      summary: 'feat:',
+      description: 'Closes #',
+    })
+  })
+
+  it('respects the configured comment character', async () => {
+    await FSE.writeFile(
+      Path.join(repository.path, '.gitmessage'),
+      '; Summary\nTicket: \n'
+    )
+    await setConfigValue(repository, 'commit.template', '.gitmessage')
+    await setConfigValue(repository, 'core.commentChar', ';')
+
+    expect(await getCommitMessageTemplate(repository)).toEqual({
+      summary: 'Ticket:',
+      description: null,
+    })
+  })
+})
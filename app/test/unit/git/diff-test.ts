@@ -14,6 +14,7 @@ import {
   DiffSelection,
   DiffType,
   ISubmoduleDiff,
+  defaultDiffSettings,
 } from '../../../src/models/diff'
 import {
   setupFixtureRepository,
@@ -27,6 +28,11 @@ import {
   getBinaryPaths,
   getBranchMergeBaseChangedFiles,
   getBranchMergeBaseDiff,
+  getFileHistory,
+  getFileRevisionsDiff,
+  getChangedFilesBetween,
+  getDiffBetween,
+  getMergeBase,
 } from '../../../src/lib/git'
 import { getStatusOrThrow } from '../../helpers/status'
 
@@ -375,6 +381,112 @@ describe('git/diff', () => {
     })
   })
 
+  describe('getWorkingDirectoryDiff/settings', () => {
+    let repo: Repository
+    let file: WorkingDirectoryFileChange
+
+    const lines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`)
+
+    beforeEach(async () => {
+      repo = await setupEmptyRepository()
+      await makeCommit(repo, {
+        entries: [{ path: 'foo', contents: [...lines, ''].join('\n') }],
+      })
+
+      file = new WorkingDirectoryFileChange(
+        'foo',
+        { kind: AppFileStatusKind.Modified },
+        DiffSelection.fromInitialSelection(DiffSelectionType.All)
+      )
+    })
+
+    it('shows the full file in a single hunk', async () => {
+      const changed = [...lines]
+      changed[1] = 'changed 2'
+      changed[18] = 'changed 19'
+      await FSE.writeFile(
+        path.join(repo.path, 'foo'),
+        [...changed, ''].join('\n')
+      )
+
+      const diff = await getWorkingDirectoryDiff(repo, file, false, {
+        ...defaultDiffSettings,
+        contextLines: null,
+      })
+
+      expect(diff.kind).toBe(DiffType.Text)
+      if (diff.kind !== DiffType.Text) {
+        return
+      }
+
+      expect(diff.hunks).toHaveLength(1)
+      expect(diff.hunks[0].header.oldLineCount).toBe(lines.length)
+    })
+
+    it('shows the given number of context lines', async () => {
+      const changed = [...lines]
+      changed[9] = 'changed 10'
+      await FSE.writeFile(
+        path.join(repo.path, 'foo'),
+        [...changed, ''].join('\n')
+      )
+
+      const diff = await getWorkingDirectoryDiff(repo, file, false, {
+        ...defaultDiffSettings,
+        contextLines: 1,
+      })
+
+      expect(diff.kind).toBe(DiffType.Text)
+      if (diff.kind !== DiffType.Text) {
+        return
+      }
+
+      expect(diff.hunks).toHaveLength(1)
+      expect(diff.hunks[0].header.oldStartLine).toBe(9)
+      expect(diff.hunks[0].header.oldLineCount).toBe(3)
+    })
+
+    it('hides blank line changes', async () => {
+      const changed = [...lines]
+      changed.splice(5, 0, '')
+      await FSE.writeFile(
+        path.join(repo.path, 'foo'),
+        [...changed, ''].join('\n')
+      )
+
+      const diff = await getWorkingDirectoryDiff(repo, file, false, {
+        ...defaultDiffSettings,
+        ignoreBlankLines: true,
+      })
+
+      expect(diff.kind).toBe(DiffType.Text)
+      if (diff.kind !== DiffType.Text) {
+        return
+      }
+
+      expect(diff.hunks).toHaveLength(0)
+    })
+
+    it('hides line ending changes', async () => {
+      await FSE.writeFile(
+        path.join(repo.path, 'foo'),
+        [...lines, ''].join('\r\n')
+      )
+
+      const diff = await getWorkingDirectoryDiff(repo, file, false, {
+        ...defaultDiffSettings,
+        ignoreLineEndings: true,
+      })
+
+      expect(diff.kind).toBe(DiffType.Text)
+      if (diff.kind !== DiffType.Text) {
+        return
+      }
+
+      expect(diff.hunks).toHaveLength(0)
+    })
+  })
+
   describe('getWorkingDirectoryDiff/unicode', () => {
     it('displays unicode characters', async () => {
       const repo = await setupEmptyRepository()
@@ -669,4 +781,83 @@ describe('git/diff', () => {
       expect(diff.text).toContain('feature')
     })
   })
+
+  describe('getFileRevisionsDiff', () => {
+    it('compares a file between two revisions across a rename', async () => {
+      const repo = await setupEmptyRepository()
+      await makeCommit(repo, {
+        commitMessage: 'add',
+        entries: [{ path: 'old.md', contents: 'one\ntwo\nthree\nfour\n' }],
+      })
+      await makeCommit(repo, {
+        commitMessage: 'rename',
+        entries: [
+          { path: 'old.md', contents: null },
+          { path: 'new.md', contents: 'one\ntwo\nthree\nfour\n' },
+        ],
+      })
+      await makeCommit(repo, {
+        commitMessage: 'edit',
+        entries: [{ path: 'new.md', contents: 'one\ntwo\nthree\nfive\n' }],
+      })
+
+      const [edit, , add] = await getFileHistory(repo, 'new.md')
+      const diff = await getFileRevisionsDiff(repo, add.file, edit.file)
+
+      expect(diff.kind).toBe(DiffType.Text)
+      if (diff.kind !== DiffType.Text) {
+        return
+      }
+
+      expect(diff.hunks).toHaveLength(1)
+      expect(diff.text).toContain('-four')
+      expect(diff.text).toContain('+five')
+    })
+  })
+
+  describe('getChangedFilesBetween', () => {
+    it('lists and diffs the files changed between two refs', async () => {
+      const repo = await setupEmptyRepository()
+      await makeCommit(repo, {
+        entries: [
+          { path: 'shared.md', contents: 'one\n' },
+          { path: 'main.md', contents: 'main\n' },
+        ],
+      })
+      await GitProcess.exec(['branch', 'feature'], repo.path)
+      await makeCommit(repo, {
+        entries: [{ path: 'main.md', contents: 'main\nmore\n' }],
+      })
+      await switchTo(repo, 'feature')
+      await makeCommit(repo, {
+        entries: [{ path: 'shared.md', contents: 'one\ntwo\n' }],
+      })
+
+      // Comparing directly includes the changes made on master
+      const direct = await getChangedFilesBetween(repo, 'master', 'feature')
+      expect(direct.files.map(f => f.path).sort()).toEqual([
+        'main.md',
+        'shared.md',
+      ])
+
+      // ...while comparing from the merge base only includes the feature's
+      const mergeBase = await getMergeBase(repo, 'master', 'feature')
+      const { files } = await getChangedFilesBetween(
+        repo,
+        mergeBase!,
+        'feature'
+      )
+      expect(files.map(f => f.path)).toEqual(['shared.md'])
+      expect(files[0].parentCommitish).toBe(mergeBase)
+      expect(files[0].commitish).toBe('feature')
+
+      const diff = await getDiffBetween(repo, files[0])
+      expect(diff.kind).toBe(DiffType.Text)
+      if (diff.kind !== DiffType.Text) {
+        return
+      }
+
+      expect(diff.text).toContain('+two')
+    })
+  })
 })
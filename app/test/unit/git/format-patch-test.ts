@@ -3,7 +3,11 @@ import {
   setupFixtureRepository,
 } from '../../helpers/repositories'
 import { Repository } from '../../../src/models/repository'
-import { formatPatch } from '../../../src/lib/git'
+import { exportPatch, formatPatch } from '../../../src/lib/git'
+import { RefComparisonMode } from '../../../src/models/ref-comparison'
+import { readFile } from 'fs/promises'
+import * as Path from 'path'
+import { mkdirSync } from '../../helpers/temp'
 import {
   cloneLocalRepository,
   makeCommit,
@@ -29,6 +33,29 @@ describe('formatPatch', () => {
       expect(patch).toBeString()
       expect(patch).not.toBeEmpty()
     })
+    it('exports the commits in a range to a file', async () => {
+      const path = Path.join(mkdirSync('desktop-export-patch-'), 'a.patch')
+      await exportPatch(repository, 'HEAD~2', 'HEAD', path)
+
+      const patch = await readFile(path, 'utf8')
+      expect(patch.match(/^From [0-9a-f]{40} /gm)).toHaveLength(2)
+      expect(patch).toContain('+dusty')
+    })
+    it('exports the difference between two commits to a file', async () => {
+      const path = Path.join(mkdirSync('desktop-export-patch-'), 'a.patch')
+      await exportPatch(
+        repository,
+        'HEAD~2',
+        'HEAD',
+        path,
+        RefComparisonMode.TwoDot
+      )
+
+      const patch = await readFile(path, 'utf8')
+      expect(patch).not.toMatch(/^From [0-9a-f]{40} /m)
+      expect(patch).toStartWith('diff --git')
+      expect(patch).toContain('+dusty')
+    })
     it('returns empty string for no range', async () => {
       const patch = await formatPatch(repository, 'HEAD', 'HEAD')
       expect(patch).toBeString()
@@ -0,0 +1,196 @@
+import * as Path from 'path'
+import * as FSE from 'fs-extra'
+import { Repository } from '../../../src/models/repository'
+import {
+  createCommit,
+  getRepositoryHooks,
+  HookError,
+  setConfigValue,
+} from '../../../src/lib/git'
+import { HookManager } from '../../../src/models/hooks'
+import { HookProgress, parseHookTraceEvent } from '../../../src/lib/progress'
+import { setupEmptyRepository } from '../../helpers/repositories'
+import { getStatusOrThrow } from '../../helpers/status'
+
+const ConfigEnvironmentVariables = [
+  'GIT_CONFIG_COUNT',
+  'GIT_CONFIG_KEY_0',
+  'GIT_CONFIG_VALUE_0',
+]
+
+async function writeHook(directory: string, name: string, script: string) {
+  await FSE.mkdirp(directory)
+  await FSE.writeFile(Path.join(directory, name), `#!/bin/sh\n${script}\n`, {
+    mode: 0o755,
+  })
+}
+
+describe('git/hooks', () => {
+  let repository: Repository
+  let hooksPath: string
+  const environment = new Map<string, string | undefined>()
+
+  beforeEach(async () => {
+    // The environment the tests run in (i.e. CI) may disable hooks by
+    // pointing core.hooksPath elsewhere through environment variables.
+    for (const name of ConfigEnvironmentVariables) {
+      environment.set(name, process.env[name])
+      delete process.env[name]
+    }
+
+    repository = await setupEmptyRepository()
+    hooksPath = Path.join(repository.path, '.git', 'hooks')
+  })
+
+  afterEach(() => {
+    for (const [name, value] of environment) {
+      if (value === undefined) {
+        delete process.env[name]
+      } else {
+        process.env[name] = value
+      }
+    }
+  })
+
+  describe('getRepositoryHooks', () => {
+    it('ignores sample and non-executable hooks', async () => {
+      await writeHook(hooksPath, 'pre-commit.sample', 'exit 0')
+      await FSE.writeFile(Path.join(hooksPath, 'commit-msg'), 'exit 0')
+
+      const hooks = await getRepositoryHooks(repository)
+      expect(hooks.hooks).toEqual([])
+      expect(hooks.manager).toBeNull()
+    })
+
+    it('detects hooks in the default hooks directory', async () => {
+      await writeHook(hooksPath, 'pre-commit', 'lefthook run pre-commit')
+      await writeHook(hooksPath, 'pre-push', 'exit 0')
+
+      const hooks = await getRepositoryHooks(repository)
+      expect(hooks.path).toBe(hooksPath)
+      expect([...hooks.hooks].sort()).toEqual(['pre-commit', 'pre-push'])
+      expect(hooks.manager).toBe(HookManager.Lefthook)
+    })
+
+    it('detects hooks configured with core.hooksPath', async () => {
+      const huskyPath = Path.join(repository.path, '.husky', '_')
+      await writeHook(huskyPath, 'pre-commit', 'exit 0')
+      await setConfigValue(repository, 'core.hooksPath', '.husky/_')
+
+      const hooks = await getRepositoryHooks(repository)
+      expect(hooks.path).toBe(huskyPath)
+      expect(hooks.hooks).toEqual(['pre-commit'])
+      expect(hooks.manager).toBe(HookManager.Husky)
+    })
+  })
+
+  describe('createCommit', () => {
+    beforeEach(async () => {
+      await FSE.writeFile(Path.join(repository.path, 'README.md'), 'Hi\n')
+    })
+
+    it('reports the hooks run and their output', async () => {
+      await writeHook(hooksPath, 'pre-commit', 'echo "checking things" >&2')
+
+      const progress = new Array<HookProgress>()
+      const { files } = (await getStatusOrThrow(repository)).workingDirectory
+      await createCommit(repository, 'Commit', files, false, false, p =>
+        progress.push(p)
+      )
+
+      expect(progress).toContainEqual({
+        kind: 'hook-started',
+        hookName: 'pre-commit',
+      })
+      expect(progress).toContainEqual({
+        kind: 'hook-output',
+        text: 'checking things',
+      })
+      expect(progress).toContainEqual({
+        kind: 'hook-finished',
+        hookName: 'pre-commit',
+        exitCode: 0,
+      })
+    })
+
+    it('throws a HookError when a hook fails', async () => {
+      await writeHook(hooksPath, 'commit-msg', 'exit 1')
+
+      const { files } = (await getStatusOrThrow(repository)).workingDirectory
+      const error = await createCommit(
+        repository,
+        'Commit',
+        files,
+        false,
+        false,
+        () => {}
+      ).catch(e => e)
+
+      expect(error).toBeInstanceOf(HookError)
+      expect(error.hookName).toBe('commit-msg')
+    })
+
+    it('does not blame hooks which succeeded for a failed commit', async () => {
+      await writeHook(hooksPath, 'pre-commit', 'exit 0')
+      await setConfigValue(repository, 'commit.gpgsign', 'true')
+      await setConfigValue(repository, 'gpg.program', 'false')
+
+      const { files } = (await getStatusOrThrow(repository)).workingDirectory
+      const error = await createCommit(
+        repository,
+        'Commit',
+        files,
+        false,
+        false,
+        () => {}
+      ).catch(e => e)
+
+      expect(error).toBeInstanceOf(Error)
+      expect(error).not.toBeInstanceOf(HookError)
+    })
+
+    it('skips hooks when not verifying', async () => {
+      await writeHook(hooksPath, 'pre-commit', 'exit 1')
+
+      const progress = new Array<HookProgress>()
+      const { files } = (await getStatusOrThrow(repository)).workingDirectory
+      await createCommit(repository, 'Commit', files, false, true, p =>
+        progress.push(p)
+      )
+
+      const status = await getStatusOrThrow(repository)
+      expect(status.workingDirectory.files).toHaveLength(0)
+      expect(progress).toEqual([])
+    })
+  })
+
+  describe('parseHookTraceEvent', () => {
+    it('parses hooks being started and processes exiting', () => {
+      expect(
+        parseHookTraceEvent(
+          '{"event":"child_start","sid":"20240101T000000.000000Z-H0-P1","child_id":0,"child_class":"hook","hook_name":"pre-commit","argv":[".git/hooks/pre-commit"]}'
+        )
+      ).toEqual({ kind: 'start', childId: 0, hookName: 'pre-commit' })
+      expect(
+        parseHookTraceEvent(
+          '{"event":"child_exit","sid":"20240101T000000.000000Z-H0-P1","child_id":0,"pid":12,"code":1}'
+        )
+      ).toEqual({ kind: 'exit', childId: 0, exitCode: 1 })
+    })
+
+    it('ignores other events and nested processes', () => {
+      expect(
+        parseHookTraceEvent(
+          '{"event":"child_start","sid":"20240101T000000.000000Z-H0-P1","child_id":0,"child_class":"?","argv":["git","gc","--auto"]}'
+        )
+      ).toBeNull()
+      expect(
+        parseHookTraceEvent(
+          '{"event":"child_start","sid":"20240101T000000.000000Z-H0-P1/20240101T000000.000001Z-H0-P2","child_id":0,"child_class":"hook","hook_name":"pre-commit"}'
+        )
+      ).toBeNull()
+      expect(parseHookTraceEvent('{"event":"version","sid":"a"}')).toBeNull()
+      expect(parseHookTraceEvent('not json')).toBeNull()
+    })
+  })
+})
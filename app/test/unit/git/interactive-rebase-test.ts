@@ -0,0 +1,197 @@
+import * as FSE from 'fs-extra'
+import * as Path from 'path'
+import {
+  continueRebase,
+  getCommit,
+  getCommits,
+  getRebaseInternalState,
+  RebaseResult,
+} from '../../../src/lib/git'
+import { interactiveRebase } from '../../../src/lib/git/interactive-rebase'
+import { getAutosquashPlan, getFixupSummary } from '../../../src/lib/autosquash'
+import { Commit } from '../../../src/models/commit'
+import {
+  IInteractiveRebaseStep,
+  InteractiveRebaseAction,
+} from '../../../src/models/interactive-rebase'
+import { Repository } from '../../../src/models/repository'
+import { setupEmptyRepositoryDefaultMain } from '../../helpers/repositories'
+import { makeCommit } from '../../helpers/repository-scaffolding'
+import { getStatusOrThrow } from '../../helpers/status'
+
+describe('git/interactive-rebase', () => {
+  let repository: Repository
+  let initialCommit: Commit
+
+  beforeEach(async () => {
+    repository = await setupEmptyRepositoryDefaultMain()
+    initialCommit = await makeSampleCommit(repository, 'initialize')
+  })
+
+  it('rewords, drops and fixes up commits in one go', async () => {
+    const first = await makeSampleCommit(repository, 'first')
+    const second = await makeSampleCommit(repository, 'second')
+    const third = await makeSampleCommit(repository, 'third')
+
+    const result = await interactiveRebase(
+      repository,
+      [
+        step(first, InteractiveRebaseAction.Reword, {
+          message: `First's new summary\n\nWith a body`,
+        }),
+        step(second, InteractiveRebaseAction.Drop),
+        step(third, InteractiveRebaseAction.Fixup),
+      ],
+      initialCommit.sha
+    )
+
+    expect(result).toBe(RebaseResult.CompletedWithoutError)
+
+    const log = await getCommits(repository, 'HEAD', 5)
+    expect(log.map(c => c.summary)).toEqual([
+      `First's new summary`,
+      'initialize',
+    ])
+    expect(log[0].body.trim()).toBe('With a body')
+
+    const files = await FSE.readdir(repository.path)
+    expect(files).toContain('third.md')
+    expect(files).not.toContain('second.md')
+  })
+
+  it('runs commands after commits', async () => {
+    const first = await makeSampleCommit(repository, 'first')
+
+    const result = await interactiveRebase(
+      repository,
+      [
+        step(first, InteractiveRebaseAction.Pick, {
+          exec: 'git log -1 --format=%s > exec-output',
+        }),
+      ],
+      initialCommit.sha
+    )
+
+    expect(result).toBe(RebaseResult.CompletedWithoutError)
+
+    const output = await FSE.readFile(
+      Path.join(repository.path, 'exec-output'),
+      'utf8'
+    )
+    expect(output.trim()).toBe('first')
+  })
+
+  it('aborts the rebase when a command fails', async () => {
+    const first = await makeSampleCommit(repository, 'first')
+    const second = await makeSampleCommit(repository, 'second')
+
+    await expect(
+      interactiveRebase(
+        repository,
+        [
+          step(first, InteractiveRebaseAction.Drop),
+          step(second, InteractiveRebaseAction.Pick, { exec: 'false' }),
+        ],
+        initialCommit.sha
+      )
+    ).rejects.toThrow(/failed/)
+
+    expect(await getRebaseInternalState(repository)).toBeNull()
+
+    const log = await getCommits(repository, 'HEAD', 5)
+    expect(log.map(c => c.summary)).toEqual(['second', 'first', 'initialize'])
+  })
+
+  it('folds fixup commits into their targets when autosquashing', async () => {
+    const first = await makeSampleCommit(repository, 'first')
+    await makeSampleCommit(repository, 'second')
+    await makeCommit(repository, {
+      commitMessage: getFixupSummary(first),
+      entries: [{ path: 'first.md', contents: '# first, fixed\n' }],
+    })
+
+    const commits = await getCommits(repository, 'HEAD', 5)
+    const plan = getAutosquashPlan([...commits].reverse())
+
+    const result = await interactiveRebase(
+      repository,
+      plan!.steps,
+      initialCommit.sha
+    )
+
+    expect(result).toBe(RebaseResult.CompletedWithoutError)
+
+    const log = await getCommits(repository, 'HEAD', 5)
+    expect(log.map(c => c.summary)).toEqual(['second', 'first', 'initialize'])
+
+    const contents = await FSE.readFile(
+      Path.join(repository.path, 'first.md'),
+      'utf8'
+    )
+    expect(contents).toBe('# first, fixed\n')
+  })
+
+  it('stops at edited commits until the rebase is continued', async () => {
+    const first = await makeSampleCommit(repository, 'first')
+    const second = await makeSampleCommit(repository, 'second')
+
+    const result = await interactiveRebase(
+      repository,
+      [
+        step(first, InteractiveRebaseAction.Edit),
+        step(second, InteractiveRebaseAction.Pick),
+      ],
+      initialCommit.sha
+    )
+
+    expect(result).toBe(RebaseResult.ConflictsEncountered)
+    expect(await getRebaseInternalState(repository)).not.toBeNull()
+
+    await FSE.writeFile(
+      Path.join(repository.path, 'first.md'),
+      '# first, edited\n'
+    )
+
+    const status = await getStatusOrThrow(repository)
+    const continueResult = await continueRebase(
+      repository,
+      status.workingDirectory.files
+    )
+
+    expect(continueResult).toBe(RebaseResult.CompletedWithoutError)
+
+    const log = await getCommits(repository, 'HEAD', 5)
+    expect(log.map(c => c.summary)).toEqual(['second', 'first', 'initialize'])
+
+    const contents = await FSE.readFile(
+      Path.join(repository.path, 'first.md'),
+      'utf8'
+    )
+    expect(contents).toBe('# first, edited\n')
+  })
+})
+
+function step(
+  commit: Commit,
+  action: InteractiveRebaseAction,
+  options: { message?: string; exec?: string } = {}
+): IInteractiveRebaseStep {
+  return {
+    commit,
+    action,
+    message: options.message ?? null,
+    exec: options.exec ?? null,
+  }
+}
+
+async function makeSampleCommit(
+  repository: Repository,
+  desc: string
+): Promise<Commit> {
+  await makeCommit(repository, {
+    commitMessage: desc,
+    entries: [{ path: desc + '.md', contents: '# ' + desc + ' \n' }],
+  })
+
+  return (await getCommit(repository, 'HEAD'))!
+}
@@ -1,8 +1,19 @@
 import { Repository } from '../../../src/models/repository'
-import { getChangedFiles, getCommits } from '../../../src/lib/git'
-import { setupFixtureRepository } from '../../helpers/repositories'
+import {
+  getChangedFiles,
+  getCommits,
+  getFileHistory,
+  searchCommits,
+} from '../../../src/lib/git'
+import {
+  setupEmptyRepository,
+  setupFixtureRepository,
+} from '../../helpers/repositories'
+import { makeCommit } from '../../helpers/repository-scaffolding'
 import { AppFileStatusKind } from '../../../src/models/status'
 import { setupLocalConfig } from '../../helpers/local-config'
+import { HistoryFilterKind } from '../../../src/models/history-filter'
+import { Commit } from '../../../src/models/commit'
 
 describe('git/log', () => {
   let repository: Repository
@@ -57,6 +68,193 @@ describe('git/log', () => {
       ])
       expect(commits[2].tags).toBeArrayOfSize(0)
     })
+
+    it('filters by message and author', async () => {
+      const commits = await getCommits(
+        repository,
+        'HEAD',
+        100,
+        0,
+        [],
+        [
+          { kind: HistoryFilterKind.Message, value: 'ATTRIBUTES' },
+          { kind: HistoryFilterKind.Author, value: 'josh abernathy' },
+        ]
+      )
+
+      expect(commits.map(c => c.summary)).toEqual(['Attributes'])
+    })
+
+    it('filters by path and content', async () => {
+      const byPath = await getCommits(
+        repository,
+        'HEAD',
+        100,
+        0,
+        [],
+        [{ kind: HistoryFilterKind.Path, value: 'README.md' }]
+      )
+      expect(byPath.map(c => c.summary)).toEqual(['No content', 'first'])
+
+      const byContent = await getCommits(
+        repository,
+        'HEAD',
+        100,
+        0,
+        [],
+        [
+          { kind: HistoryFilterKind.Path, value: '.gitattributes' },
+          { kind: HistoryFilterKind.ContentRegex, value: 'binary' },
+        ]
+      )
+      expect(byContent.map(c => c.summary)).toEqual([
+        'Remove attributes',
+        'Binary?',
+      ])
+    })
+
+    it('only ignores case when filtering by message or author', async () => {
+      const filter = (value: string) =>
+        getCommits(
+          repository,
+          'HEAD',
+          100,
+          0,
+          [],
+          [
+            { kind: HistoryFilterKind.Message, value: 'ATTRIBUTES' },
+            { kind: HistoryFilterKind.ContentRegex, value },
+          ]
+        )
+
+      const matching = await filter('binary')
+      expect(matching.map(c => c.summary)).toEqual(['Remove attributes'])
+
+      const differentCase = await filter('BINARY')
+      expect(differentCase).toEqual([])
+    })
+
+    it('matches messages literally', async () => {
+      const commits = await getCommits(
+        repository,
+        'HEAD',
+        100,
+        0,
+        [],
+        [{ kind: HistoryFilterKind.Message, value: 'binary?' }]
+      )
+
+      expect(commits.map(c => c.summary)).toEqual(['Binary?'])
+    })
+
+    it('filters by date', async () => {
+      const commits = await getCommits(
+        repository,
+        'HEAD',
+        100,
+        0,
+        [],
+        [{ kind: HistoryFilterKind.Until, value: '2016-07-26' }]
+      )
+
+      expect(commits.map(c => c.summary)).toEqual(['first'])
+    })
+  })
+
+  describe('searchCommits', () => {
+    it('reports all matching commits', async () => {
+      const found = new Array<Commit>()
+      const search = searchCommits(
+        repository,
+        'HEAD',
+        [{ kind: HistoryFilterKind.Message, value: 'attributes' }],
+        100,
+        [],
+        commits => found.push(...commits)
+      )
+      await search.done
+
+      expect(found.map(c => c.summary)).toEqual([
+        'Remove attributes',
+        'Attributes',
+      ])
+      expect(found).toEqual(
+        (await getCommits(repository, 'HEAD', 100)).filter(c =>
+          c.summary.toLowerCase().includes('attributes')
+        )
+      )
+    })
+
+    it('rejects when git fails', async () => {
+      const search = searchCommits(
+        repository,
+        'does-not-exist',
+        [],
+        100,
+        [],
+        () => {}
+      )
+      await expect(search.done).rejects.toThrow()
+    })
+  })
+
+  describe('getFileHistory', () => {
+    it('follows the file across renames', async () => {
+      const repo = await setupEmptyRepository()
+      const contents = 'one\ntwo\nthree\nfour\n'
+
+      await makeCommit(repo, {
+        commitMessage: 'add',
+        entries: [{ path: 'old.md', contents }],
+      })
+      await makeCommit(repo, {
+        commitMessage: 'rename',
+        entries: [
+          { path: 'old.md', contents: null },
+          { path: 'new.md', contents },
+        ],
+      })
+      await makeCommit(repo, {
+        commitMessage: 'unrelated',
+        entries: [{ path: 'other.md', contents: 'other' }],
+      })
+      await makeCommit(repo, {
+        commitMessage: 'edit',
+        entries: [{ path: 'new.md', contents: `${contents}five\n` }],
+      })
+
+      const entries = await getFileHistory(repo, 'new.md')
+
+      expect(entries.map(e => e.commit.summary)).toEqual([
+        'edit',
+        'rename',
+        'add',
+      ])
+      expect(entries.map(e => e.file.path)).toEqual([
+        'new.md',
+        'new.md',
+        'old.md',
+      ])
+      expect(entries.map(e => e.file.commitish)).toEqual(
+        entries.map(e => e.commit.sha)
+      )
+      expect(entries[0].file.status.kind).toBe(AppFileStatusKind.Modified)
+      expect(entries[1].file.status).toEqual({
+        kind: AppFileStatusKind.Renamed,
+        oldPath: 'old.md',
+      })
+      expect(entries[2].file.status.kind).toBe(AppFileStatusKind.New)
+    })
+
+    it('starts from the given revision', async () => {
+      const entries = await getFileHistory(repository, 'README.md', 'HEAD~1')
+      expect(entries.map(e => e.commit.summary)).toEqual(['first'])
+    })
+
+    it('returns an empty history for an unborn HEAD', async () => {
+      const repo = await setupEmptyRepository()
+      expect(await getFileHistory(repo, 'README.md')).toEqual([])
+    })
   })
 
   describe('getChangedFiles', () => {
@@ -2,6 +2,7 @@ import {
   abortMerge,
   getMergeBase,
   getBranches,
+  isAncestor,
   merge,
   MergeResult,
 } from '../../../src/lib/git'
@@ -114,6 +115,29 @@ describe('git/merge', () => {
       expect(ref).toBeNull()
     })
   })
+  describe('isAncestor', () => {
+    let repository: Repository
+    beforeEach(async () => {
+      const path = await setupFixtureRepository('merge-base-test')
+      repository = new Repository(path, -1, null, false)
+    })
+
+    it('returns true when the commit is reachable', async () => {
+      const mergeBase = 'df0d73dc92ff496c6a61f10843d527b7461703f4'
+      expect(await isAncestor(repository, mergeBase, 'master')).toBe(true)
+      expect(await isAncestor(repository, mergeBase, 'dev')).toBe(true)
+    })
+
+    it('returns false when the commit is not reachable', async () => {
+      expect(await isAncestor(repository, 'dev', 'master')).toBe(false)
+    })
+
+    it('returns false when a ref cannot be found', async () => {
+      expect(
+        await isAncestor(repository, 'origin/some-unknown-branch', 'master')
+      ).toBe(false)
+    })
+  })
   describe('abortMerge', () => {
     let repository: Repository
     const subject = () => abortMerge(repository)
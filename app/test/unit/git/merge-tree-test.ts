@@ -0,0 +1,193 @@
+import {
+  predictCherryPickConflicts,
+  predictMergeConflicts,
+  predictSquashConflicts,
+} from '../../../src/lib/git/merge-tree'
+import {
+  getCommits,
+  getCommitsInRange,
+  revRange,
+  sortCommitsByHistory,
+} from '../../../src/lib/git'
+import { Repository } from '../../../src/models/repository'
+import { setupEmptyRepository } from '../../helpers/repositories'
+import {
+  createBranch,
+  makeCommit,
+  switchTo,
+} from '../../helpers/repository-scaffolding'
+
+describe('git/merge-tree', () => {
+  let repository: Repository
+
+  // Creates a repository where `master` and `feature` both change `conflict`
+  // since they diverged, with `feature` making its change in its second
+  // commit and changing `clean` in its first and third.
+  beforeEach(async () => {
+    repository = await setupEmptyRepository()
+
+    await makeCommit(repository, {
+      entries: [
+        { path: 'conflict', contents: 'base\n' },
+        { path: 'clean', contents: 'base\n' },
+      ],
+    })
+    await createBranch(repository, 'feature', 'master')
+
+    await makeCommit(repository, {
+      entries: [{ path: 'conflict', contents: 'master\n' }],
+    })
+
+    await switchTo(repository, 'feature')
+    await makeCommit(repository, {
+      entries: [{ path: 'clean', contents: 'feature\n' }],
+      commitMessage: 'Change clean',
+    })
+    await makeCommit(repository, {
+      entries: [{ path: 'conflict', contents: 'feature\n' }],
+      commitMessage: 'Change conflict',
+    })
+    await makeCommit(repository, {
+      entries: [{ path: 'clean', contents: 'feature again\n' }],
+      commitMessage: 'Change clean again',
+    })
+  })
+
+  describe('predictMergeConflicts', () => {
+    it('lists the conflicted files and the commits changing them', async () => {
+      const prediction = await predictMergeConflicts(
+        repository,
+        'master',
+        'feature'
+      )
+
+      expect(prediction).not.toBeNull()
+      expect(prediction!.conflictedFiles).toEqual(['conflict'])
+      expect(prediction!.commits).toHaveLength(1)
+      expect(prediction!.commits[0].commit.summary).toBe('Change conflict')
+      expect(prediction!.commits[0].conflictedFiles).toEqual(['conflict'])
+    })
+
+    it('predicts no conflicts for a clean merge', async () => {
+      const prediction = await predictMergeConflicts(
+        repository,
+        'feature~2',
+        'feature'
+      )
+
+      expect(prediction).toEqual({ conflictedFiles: [], commits: [] })
+    })
+  })
+
+  describe('predictCherryPickConflicts', () => {
+    it('lists the commits which conflict', async () => {
+      const commits = await getCommitsInRange(
+        repository,
+        revRange('master', 'feature')
+      )
+
+      const prediction = await predictCherryPickConflicts(
+        repository,
+        commits ?? [],
+        'master'
+      )
+
+      expect(prediction).not.toBeNull()
+      expect(prediction!.conflictedFiles).toEqual(['conflict'])
+      expect(prediction!.commits.map(c => c.commit.summary)).toEqual([
+        'Change conflict',
+      ])
+    })
+
+    it('applies commits on top of the earlier ones', async () => {
+      // Applying the last commit alone on top of the merge base would
+      // conflict as it depends on the first commit.
+      const commits = await getCommitsInRange(
+        repository,
+        revRange('feature~3', 'feature')
+      )
+
+      const prediction = await predictCherryPickConflicts(
+        repository,
+        (commits ?? []).filter(c => c.summary !== 'Change conflict'),
+        'feature~3'
+      )
+
+      expect(prediction).toEqual({ conflictedFiles: [], commits: [] })
+    })
+
+    it('applies dependent commits given newest first in history order', async () => {
+      const commits = await getCommitsInRange(
+        repository,
+        revRange('feature~3', 'feature')
+      )
+      const newestFirst = (commits ?? [])
+        .filter(c => c.summary !== 'Change conflict')
+        .reverse()
+
+      const sorted = await sortCommitsByHistory(repository, newestFirst)
+      expect(sorted.map(c => c.summary)).toEqual([
+        'Change clean',
+        'Change clean again',
+      ])
+
+      const prediction = await predictCherryPickConflicts(
+        repository,
+        sorted,
+        'feature~3'
+      )
+
+      expect(prediction).toEqual({ conflictedFiles: [], commits: [] })
+    })
+
+    it('stops once aborted', async () => {
+      const commits = await getCommitsInRange(
+        repository,
+        revRange('master', 'feature')
+      )
+      const controller = new AbortController()
+      controller.abort()
+
+      const prediction = await predictCherryPickConflicts(
+        repository,
+        commits ?? [],
+        'master',
+        controller.signal
+      )
+
+      expect(prediction).toBeNull()
+    })
+  })
+
+  describe('predictSquashConflicts', () => {
+    it('replays the commits with the squashed ones moved', async () => {
+      const [cleanAgain, , clean, base] = await getCommits(
+        repository,
+        'feature',
+        4
+      )
+
+      const prediction = await predictSquashConflicts(
+        repository,
+        [cleanAgain],
+        clean,
+        base.sha
+      )
+
+      expect(prediction).toEqual({ conflictedFiles: [], commits: [] })
+    })
+
+    it("can't predict squashing the root commit", async () => {
+      const [clean, base] = await getCommits(repository, 'feature~2', 2)
+
+      const prediction = await predictSquashConflicts(
+        repository,
+        [clean],
+        base,
+        null
+      )
+
+      expect(prediction).toBeNull()
+    })
+  })
+})
@@ -6,6 +6,7 @@ import {
   checkoutBranch,
   renameBranch,
   getBranchCheckouts,
+  getReflogEntries,
 } from '../../../src/lib/git'
 import { setupFixtureRepository } from '../../helpers/repositories'
 import { GitProcess } from 'dugite'
@@ -109,4 +110,52 @@ describe('git/reflog', () => {
       expect(branches.size).toBe(0)
     })
   })
+  describe('getReflogEntries', () => {
+    it('lists the entries of the HEAD reflog, newest first', async () => {
+      await createAndCheckout(repository, 'branch-1')
+
+      const entries = await getReflogEntries(repository)
+      const [latest] = entries
+
+      expect(latest.selector).toBe('HEAD@{0}')
+      expect(latest.action).toBe('checkout')
+      expect(latest.description).toContain('to branch-1')
+      expect(latest.sha).toHaveLength(40)
+      expect(latest.date).toBeInstanceOf(Date)
+      expect(entries[1].selector).toBe('HEAD@{1}')
+    })
+
+    it('includes commits which were reset away', async () => {
+      const head = await GitProcess.exec(['rev-parse', 'HEAD'], repository.path)
+      const sha = head.stdout.trim()
+
+      await GitProcess.exec(['reset', '--hard', 'HEAD~1'], repository.path)
+
+      const entries = await getReflogEntries(repository)
+
+      expect(entries[0].action).toBe('reset')
+      expect(entries[0].description).toBe('moving to HEAD~1')
+      expect(entries[1].sha).toBe(sha)
+    })
+
+    it('lists the entries of a branch reflog', async () => {
+      await createAndCheckout(repository, 'branch-1')
+      await GitProcess.exec(
+        ['commit', '--allow-empty', '-m', 'Empty commit'],
+        repository.path
+      )
+
+      const entries = await getReflogEntries(repository, 'refs/heads/branch-1')
+
+      expect(entries).toHaveLength(2)
+      expect(entries[0].action).toBe('commit')
+      expect(entries[0].summary).toBe('Empty commit')
+      expect(entries[0].selector).toMatch(/branch-1@\{0\}$/)
+    })
+
+    it('returns empty when the ref has no reflog', async () => {
+      const entries = await getReflogEntries(repository, 'refs/heads/nope')
+      expect(entries).toEqual([])
+    })
+  })
 })
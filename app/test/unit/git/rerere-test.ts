@@ -0,0 +1,178 @@
+import * as FSE from 'fs-extra'
+import * as Path from 'path'
+import { GitProcess } from 'dugite'
+import {
+  forgetRecordedResolution,
+  getRecordedResolutionPaths,
+  getRerereStatus,
+  isRerereEnabled,
+  setRerereEnabled,
+} from '../../../src/lib/git/rerere'
+import { getStatus } from '../../../src/lib/git'
+import { Repository } from '../../../src/models/repository'
+import {
+  ConflictsWithMarkers,
+  isConflictWithMarkers,
+  isConflictedFileStatus,
+} from '../../../src/models/status'
+import { setupEmptyRepository } from '../../helpers/repositories'
+import {
+  createBranch,
+  makeCommit,
+  switchTo,
+} from '../../helpers/repository-scaffolding'
+
+async function getConflictedStatus(repository: Repository, path: string) {
+  const status = await getStatus(repository)
+  const file = status?.workingDirectory.files.find(f => f.path === path)
+
+  const fileStatus = file?.status
+  expect(fileStatus).toBeDefined()
+  expect(
+    isConflictedFileStatus(fileStatus!) && isConflictWithMarkers(fileStatus)
+  ).toBe(true)
+
+  return fileStatus as ConflictsWithMarkers
+}
+
+describe('git/rerere', () => {
+  let repository: Repository
+
+  // Creates a repository where merging `feature` into `master` conflicts in
+  // `foo`, with rerere enabled.
+  beforeEach(async () => {
+    repository = await setupEmptyRepository()
+    await setRerereEnabled(repository, true)
+
+    await makeCommit(repository, {
+      entries: [{ path: 'foo', contents: 'base\n' }],
+    })
+    await createBranch(repository, 'feature', 'master')
+
+    await makeCommit(repository, {
+      entries: [{ path: 'foo', contents: 'master\n' }],
+    })
+
+    await switchTo(repository, 'feature')
+    await makeCommit(repository, {
+      entries: [{ path: 'foo', contents: 'feature\n' }],
+    })
+
+    await switchTo(repository, 'master')
+  })
+
+  it('can be turned on and off', async () => {
+    expect(await isRerereEnabled(repository)).toBe(true)
+
+    await setRerereEnabled(repository, false)
+
+    expect(await isRerereEnabled(repository)).toBe(false)
+    expect(await getRerereStatus(repository)).toBeNull()
+  })
+
+  it('is enabled when not configured but resolutions have been recorded', async () => {
+    const rerereCache = Path.join(repository.path, '.git', 'rr-cache')
+    await GitProcess.exec(
+      ['config', '--unset', 'rerere.enabled'],
+      repository.path
+    )
+    await FSE.remove(rerereCache)
+
+    expect(await isRerereEnabled(repository)).toBe(false)
+
+    await FSE.mkdirp(rerereCache)
+
+    expect(await isRerereEnabled(repository)).toBe(true)
+  })
+
+  describe('when a conflict has been resolved before', () => {
+    const filePath = () => Path.join(repository.path, 'foo')
+
+    beforeEach(async () => {
+      await GitProcess.exec(['merge', 'feature'], repository.path)
+      await FSE.writeFile(filePath(), 'resolved\n')
+      await GitProcess.exec(['commit', '-a', '--no-edit'], repository.path)
+
+      await GitProcess.exec(['reset', '--hard', 'HEAD~1'], repository.path)
+      await GitProcess.exec(['merge', 'feature'], repository.path)
+    })
+
+    it('reports the file as resolved using the recorded resolution', async () => {
+      const status = await getConflictedStatus(repository, 'foo')
+
+      expect(status.conflictMarkerCount).toBe(0)
+      expect(status.usedRecordedResolution).toBe(true)
+      expect(await FSE.readFile(filePath(), 'utf8')).toBe('resolved\n')
+    })
+
+    it('lists the file as resolved using a recorded resolution', async () => {
+      expect(await getRecordedResolutionPaths(repository)).toEqual(
+        new Set(['foo'])
+      )
+    })
+
+    it('restores the conflict markers when the resolution is forgotten', async () => {
+      await forgetRecordedResolution(repository, 'foo')
+
+      const status = await getConflictedStatus(repository, 'foo')
+
+      expect(status.conflictMarkerCount).toBeGreaterThan(0)
+      expect(status.usedRecordedResolution).toBeUndefined()
+      expect(await getRerereStatus(repository)).toEqual(new Set(['foo']))
+    })
+  })
+
+  describe('when Git stages the files it resolves', () => {
+    beforeEach(async () => {
+      await GitProcess.exec(
+        ['config', 'rerere.autoUpdate', 'true'],
+        repository.path
+      )
+
+      await GitProcess.exec(['merge', 'feature'], repository.path)
+      await FSE.writeFile(Path.join(repository.path, 'foo'), 'resolved\n')
+      await GitProcess.exec(['commit', '-a', '--no-edit'], repository.path)
+
+      await GitProcess.exec(['reset', '--hard', 'HEAD~1'], repository.path)
+      await GitProcess.exec(['merge', 'feature'], repository.path)
+    })
+
+    it('reports the staged file as resolved using the recorded resolution', async () => {
+      const status = await getConflictedStatus(repository, 'foo')
+
+      expect(status.conflictMarkerCount).toBe(0)
+      expect(status.usedRecordedResolution).toBe(true)
+    })
+
+    it('restores the conflict markers when the resolution is forgotten', async () => {
+      await forgetRecordedResolution(repository, 'foo')
+
+      const status = await getConflictedStatus(repository, 'foo')
+
+      expect(status.conflictMarkerCount).toBeGreaterThan(0)
+      expect(status.usedRecordedResolution).toBeUndefined()
+    })
+  })
+
+  it("doesn't report conflicts from before rerere was enabled", async () => {
+    await setRerereEnabled(repository, false)
+    await GitProcess.exec(['merge', 'feature'], repository.path)
+    await setRerereEnabled(repository, true)
+
+    const status = await getConflictedStatus(repository, 'foo')
+
+    expect(status.conflictMarkerCount).toBeGreaterThan(0)
+    expect(status.usedRecordedResolution).toBeUndefined()
+    expect(await getRecordedResolutionPaths(repository)).toEqual(new Set())
+  })
+
+  it("doesn't report conflicts resolved by the user", async () => {
+    await GitProcess.exec(['merge', 'feature'], repository.path)
+    await FSE.writeFile(Path.join(repository.path, 'foo'), 'resolved\n')
+
+    const status = await getConflictedStatus(repository, 'foo')
+
+    expect(status.conflictMarkerCount).toBe(0)
+    expect(status.usedRecordedResolution).toBeUndefined()
+  })
+})
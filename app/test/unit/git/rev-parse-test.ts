@@ -3,7 +3,10 @@ import * as FSE from 'fs-extra'
 import * as os from 'os'
 
 import { Repository } from '../../../src/models/repository'
-import { getRepositoryType } from '../../../src/lib/git/rev-parse'
+import {
+  getRepositoryType,
+  resolveCommitish,
+} from '../../../src/lib/git/rev-parse'
 import { git } from '../../../src/lib/git/core'
 import {
   setupFixtureRepository,
@@ -140,4 +143,24 @@ directory=`
       process.env['HOME'] = previousHomeValue
     })
   })
+
+  describe('resolveCommitish', () => {
+    it('resolves branches, tags and abbreviated SHAs', async () => {
+      const { stdout } = await GitProcess.exec(
+        ['rev-parse', 'HEAD'],
+        repository.path
+      )
+      const sha = stdout.trim()
+      await GitProcess.exec(['tag', '-a', '-m', 'tag', 'v1'], repository.path)
+
+      expect(await resolveCommitish(repository, 'master')).toBe(sha)
+      expect(await resolveCommitish(repository, 'v1')).toBe(sha)
+      expect(await resolveCommitish(repository, sha.substring(0, 7))).toBe(sha)
+    })
+
+    it('returns null for refs which do not exist', async () => {
+      expect(await resolveCommitish(repository, 'does-not-exist')).toBeNull()
+      expect(await resolveCommitish(repository, '--all')).toBeNull()
+    })
+  })
 })
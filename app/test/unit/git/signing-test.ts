@@ -0,0 +1,212 @@
+import * as Path from 'path'
+import * as FSE from 'fs-extra'
+import { execFile } from 'child_process'
+import { promisify } from 'util'
+import { Repository } from '../../../src/models/repository'
+import {
+  createTag,
+  getChangedSigningConfig,
+  getCommitSignatureStatuses,
+  getLocalSigningConfig,
+  getSigningConfig,
+  getTags,
+  getTagSigningArgs,
+  removeLocalSigningConfig,
+  setConfigValue,
+  setSigningConfig,
+} from '../../../src/lib/git'
+import { CommitSignatureStatus } from '../../../src/models/commit'
+import { SigningFormat } from '../../../src/models/signing'
+import { setupEmptyRepository } from '../../helpers/repositories'
+import { makeCommit } from '../../helpers/repository-scaffolding'
+import { createTempDirectory } from '../../helpers/temp'
+import { GitProcess } from 'dugite'
+
+describe('git/signing', () => {
+  let repository: Repository
+
+  beforeEach(async () => {
+    repository = await setupEmptyRepository()
+  })
+
+  describe('getLocalSigningConfig', () => {
+    it('returns null when the repository has no signing config', async () => {
+      expect(await getLocalSigningConfig(repository)).toBeNull()
+    })
+
+    it('returns the values stored by setSigningConfig', async () => {
+      const config = {
+        signCommits: true,
+        signTags: false,
+        format: SigningFormat.SSH,
+        signingKey: '~/.ssh/id_ed25519.pub',
+      }
+
+      await setSigningConfig(repository, config)
+
+      expect(await getLocalSigningConfig(repository)).toEqual(config)
+    })
+
+    it('returns null once the config has been removed', async () => {
+      await setSigningConfig(repository, {
+        signCommits: true,
+        signTags: true,
+        format: SigningFormat.OpenPGP,
+        signingKey: '',
+      })
+
+      await removeLocalSigningConfig(repository)
+
+      expect(await getLocalSigningConfig(repository)).toBeNull()
+    })
+
+    it('only stores the settings which are given', async () => {
+      await setConfigValue(repository, 'tag.gpgsign', 'true')
+
+      await setSigningConfig(repository, { signCommits: true })
+
+      const values = await GitProcess.exec(
+        ['config', '--local', '--get-regexp', '^(commit|tag|gpg|user)\\.'],
+        repository.path
+      )
+      expect(values.stdout).toContain('commit.gpgsign true')
+      expect(values.stdout).toContain('tag.gpgsign true')
+      expect(values.stdout).not.toContain('gpg.format')
+    })
+
+    it('treats boolean keys without a value as true', async () => {
+      const configPath = Path.join(repository.path, '.git', 'config')
+      await FSE.appendFile(configPath, '[commit]\n\tgpgsign\n')
+
+      const config = await getSigningConfig(repository)
+      expect(config.signCommits).toBe(true)
+    })
+  })
+
+  describe('getChangedSigningConfig', () => {
+    it('returns the settings which differ', () => {
+      const config = {
+        signCommits: false,
+        signTags: false,
+        format: SigningFormat.OpenPGP,
+        signingKey: '',
+      }
+
+      expect(getChangedSigningConfig(config, config)).toEqual({})
+      expect(
+        getChangedSigningConfig(config, {
+          ...config,
+          signCommits: true,
+          signingKey: 'ABCD1234',
+        })
+      ).toEqual({ signCommits: true, signingKey: 'ABCD1234' })
+    })
+  })
+
+  describe('tag signing args', () => {
+    it('are empty when signing is disabled', async () => {
+      await setConfigValue(repository, 'tag.gpgsign', 'false')
+
+      expect(await getTagSigningArgs(repository)).toEqual([])
+    })
+
+    it('include the signing key when one is configured', async () => {
+      await setSigningConfig(repository, {
+        signCommits: true,
+        signTags: true,
+        format: SigningFormat.OpenPGP,
+        signingKey: 'ABCD1234',
+      })
+
+      expect(await getTagSigningArgs(repository)).toEqual([
+        '--local-user',
+        'ABCD1234',
+      ])
+    })
+  })
+
+  describe('signed commits', () => {
+    beforeEach(async () => {
+      const keyDirectory = await createTempDirectory('signing-key')
+      const keyPath = Path.join(keyDirectory, 'id_ed25519')
+      await promisify(execFile)('ssh-keygen', [
+        '-t',
+        'ed25519',
+        '-N',
+        '',
+        '-q',
+        '-f',
+        keyPath,
+      ])
+
+      const publicKey = await FSE.readFile(`${keyPath}.pub`, 'utf8')
+      const allowedSignersPath = Path.join(keyDirectory, 'allowed_signers')
+      await FSE.writeFile(allowedSignersPath, `* ${publicKey}`)
+
+      await setConfigValue(
+        repository,
+        'gpg.ssh.allowedSignersFile',
+        allowedSignersPath
+      )
+
+      await setSigningConfig(repository, {
+        signCommits: true,
+        signTags: true,
+        format: SigningFormat.SSH,
+        signingKey: `${keyPath}.pub`,
+      })
+    })
+
+    it('reports commits signed with a trusted key as good', async () => {
+      await makeCommit(repository, {
+        commitMessage: 'Signed',
+        entries: [{ path: 'README.md', contents: 'hello\n' }],
+      })
+
+      const statuses = await getCommitSignatureStatuses(repository, ['HEAD'])
+      expect([...statuses.values()]).toEqual([CommitSignatureStatus.Good])
+    })
+
+    it('reports unsigned commits as not signed', async () => {
+      await setConfigValue(repository, 'commit.gpgsign', 'false')
+
+      await makeCommit(repository, {
+        commitMessage: 'Not signed',
+        entries: [{ path: 'README.md', contents: 'hello\n' }],
+      })
+
+      const statuses = await getCommitSignatureStatuses(repository, ['HEAD'])
+      expect([...statuses.values()]).toEqual([CommitSignatureStatus.None])
+    })
+
+    it('signs tags', async () => {
+      await makeCommit(repository, {
+        commitMessage: 'Signed',
+        entries: [{ path: 'README.md', contents: 'hello\n' }],
+      })
+
+      await createTag(repository, 'v1.0', 'HEAD')
+
+      const result = await GitProcess.exec(
+        ['tag', '-v', 'v1.0'],
+        repository.path
+      )
+      expect(result.exitCode).toBe(0)
+    })
+
+    it('signs tags on request when tag signing is disabled', async () => {
+      await setConfigValue(repository, 'tag.gpgsign', 'false')
+      await makeCommit(repository, {
+        commitMessage: 'Signed',
+        entries: [{ path: 'README.md', contents: 'hello\n' }],
+      })
+
+      await createTag(repository, 'v1.0', 'HEAD', 'Signed tag', true)
+      await createTag(repository, 'v1.1', 'HEAD', 'Unsigned tag', false)
+
+      const tags = await getTags(repository)
+      expect(tags.find(t => t.name === 'v1.0')?.signed).toBe(true)
+      expect(tags.find(t => t.name === 'v1.1')?.signed).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,76 @@
+import * as Path from 'path'
+import * as FSE from 'fs-extra'
+import { Repository } from '../../../src/models/repository'
+import {
+  disableSparseCheckout,
+  getSparseCheckoutPaths,
+  getTopLevelDirectories,
+  setSparseCheckoutPaths,
+} from '../../../src/lib/git'
+import { setupEmptyRepository } from '../../helpers/repositories'
+import { makeCommit } from '../../helpers/repository-scaffolding'
+
+describe('git/sparse-checkout', () => {
+  let repository: Repository
+
+  beforeEach(async () => {
+    repository = await setupEmptyRepository()
+
+    for (const directory of ['app', 'docs', 'script']) {
+      await FSE.mkdir(Path.join(repository.path, directory))
+    }
+
+    await makeCommit(repository, {
+      entries: [
+        { path: 'README.md', contents: 'readme\n' },
+        { path: 'app/index.ts', contents: 'app\n' },
+        { path: 'docs/index.md', contents: 'docs\n' },
+        { path: 'script/build.sh', contents: 'build\n' },
+      ],
+    })
+  })
+
+  const exists = (path: string) =>
+    FSE.pathExists(Path.join(repository.path, path))
+
+  it('returns null when sparse checkout is not enabled', async () => {
+    expect(await getSparseCheckoutPaths(repository)).toBeNull()
+  })
+
+  it('only checks out the selected directories', async () => {
+    await setSparseCheckoutPaths(repository, null, ['app', 'docs'])
+
+    expect(await getSparseCheckoutPaths(repository)).toEqual(['app', 'docs'])
+    expect(await exists('README.md')).toBe(true)
+    expect(await exists('app/index.ts')).toBe(true)
+    expect(await exists('docs/index.md')).toBe(true)
+    expect(await exists('script/build.sh')).toBe(false)
+  })
+
+  it('checks out all files once disabled', async () => {
+    await setSparseCheckoutPaths(repository, null, [])
+    expect(await getSparseCheckoutPaths(repository)).toEqual([])
+    expect(await exists('app/index.ts')).toBe(false)
+
+    await disableSparseCheckout(repository, null)
+
+    expect(await getSparseCheckoutPaths(repository)).toBeNull()
+    expect(await exists('app/index.ts')).toBe(true)
+    expect(await exists('script/build.sh')).toBe(true)
+  })
+
+  it('lists the top-level directories regardless of sparse checkout', async () => {
+    await setSparseCheckoutPaths(repository, null, ['app'])
+
+    expect(await getTopLevelDirectories(repository)).toEqual([
+      'app',
+      'docs',
+      'script',
+    ])
+  })
+
+  it('returns no directories for an unborn repository', async () => {
+    const emptyRepository = await setupEmptyRepository()
+    expect(await getTopLevelDirectories(emptyRepository)).toEqual([])
+  })
+})
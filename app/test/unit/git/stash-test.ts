@@ -10,9 +10,19 @@ import {
   dropDesktopStashEntry,
   popStashEntry,
   getStashes,
+  isDesktopStashEntry,
+  createStashEntry,
+  applyStashEntry,
+  dropStashEntry,
+  createBranchFromStashEntry,
 } from '../../../src/lib/git/stash'
+import { getBranches } from '../../../src/lib/git'
+import { DiffSelection, DiffSelectionType } from '../../../src/models/diff'
 import { getStatusOrThrow } from '../../helpers/status'
-import { AppFileStatusKind } from '../../../src/models/status'
+import {
+  AppFileStatusKind,
+  WorkingDirectoryFileChange,
+} from '../../../src/models/status'
 import {
   IStashEntry,
   StashedChangesLoadStates,
@@ -57,6 +67,22 @@ describe('git/stash', () => {
       expect(entries[0].branchName).toBe('master')
       expect(entries[0].name).toBe('refs/stash@{0}')
     })
+
+    it('returns all stash entries along with their messages', async () => {
+      await generateTestStashEntry(repository, 'master', false)
+      await generateTestStashEntry(repository, 'master', true)
+
+      const { entries } = await getStashes(repository)
+      expect(entries).toHaveLength(2)
+
+      expect(entries[0].message).toBe('On master: !!GitHub_Desktop<master>')
+      expect(isDesktopStashEntry(entries[0])).toBe(true)
+
+      expect(entries[1].name).toBe('refs/stash@{1}')
+      expect(entries[1].branchName).toBe('master')
+      expect(entries[1].message).toBe('On master: Should get filtered')
+      expect(isDesktopStashEntry(entries[1])).toBe(false)
+    })
   })
 
   describe('createDesktopStashEntry', () => {
@@ -194,6 +220,8 @@ describe('git/stash', () => {
       const doesNotExist: IStashEntry = {
         name: 'refs/stash@{0}',
         branchName: 'master',
+        message: 'On master: !!GitHub_Desktop<master>',
+        createdAt: new Date(),
         stashSha: 'xyz',
         tree: 'xyz',
         parents: ['abc'],
@@ -214,6 +242,8 @@ describe('git/stash', () => {
       const doesNotExist: IStashEntry = {
         name: 'refs/stash@{4}',
         branchName: 'master',
+        message: 'On master: !!GitHub_Desktop<master>',
+        createdAt: new Date(),
         stashSha: 'xyz',
         tree: 'xyz',
         parents: ['abc'],
@@ -313,6 +343,128 @@ describe('git/stash', () => {
   })
 })
 
+describe('git/stash partial', () => {
+  let repository: Repository
+  let readme: string
+
+  beforeEach(async () => {
+    repository = await setupEmptyRepository()
+    readme = path.join(repository.path, 'README.md')
+    await FSE.writeFile(readme, 'a\nb\nc\nd\ne\nf\ng\nh\ni\nj\n')
+    await GitProcess.exec(['add', 'README.md'], repository.path)
+    await GitProcess.exec(['commit', '-m', 'initial commit'], repository.path)
+  })
+
+  describe('createStashEntry', () => {
+    it('stashes the selected files only', async () => {
+      await FSE.appendFile(readme, 'k\n')
+      await FSE.writeFile(path.join(repository.path, 'new.md'), 'new\n')
+
+      const { files } = (await getStatusOrThrow(repository)).workingDirectory
+      const newFile = files.find(f => f.path === 'new.md')!
+
+      expect(await createStashEntry(repository, 'New file', [newFile])).toBe(
+        true
+      )
+
+      const status = await getStatusOrThrow(repository)
+      expect(status.workingDirectory.files.map(f => f.path)).toEqual([
+        'README.md',
+      ])
+
+      const { entries } = await getStashes(repository)
+      expect(entries).toHaveLength(1)
+      expect(entries[0].message).toBe('On master: New file')
+    })
+
+    it('stashes the selected lines only', async () => {
+      await FSE.writeFile(readme, 'A\nb\nc\nd\ne\nf\ng\nh\ni\nJ\n')
+
+      // Select the changes to the first line, which are the lines right after
+      // the header of the first hunk.
+      const selection = DiffSelection.fromInitialSelection(
+        DiffSelectionType.None
+      ).withRangeSelection(1, 2, true)
+      const file = new WorkingDirectoryFileChange(
+        'README.md',
+        { kind: AppFileStatusKind.Modified },
+        selection
+      )
+
+      await createStashEntry(repository, '', [file])
+
+      expect(await FSE.readFile(readme, 'utf8')).toBe(
+        'a\nb\nc\nd\ne\nf\ng\nh\ni\nJ\n'
+      )
+
+      const { stdout } = await GitProcess.exec(
+        ['stash', 'show', '-p', 'stash@{0}'],
+        repository.path
+      )
+      expect(stdout).toContain('+A')
+      expect(stdout).not.toContain('+J')
+    })
+
+    it('allows for multiple entries per branch', async () => {
+      for (const name of ['First', 'Second']) {
+        await FSE.appendFile(readme, `${name}\n`)
+        const { files } = (await getStatusOrThrow(repository)).workingDirectory
+        await createStashEntry(repository, name, files)
+      }
+
+      const { entries } = await getStashes(repository)
+      expect(entries.map(e => e.message)).toEqual([
+        'On master: Second',
+        'On master: First',
+      ])
+    })
+  })
+
+  describe('applyStashEntry', () => {
+    it('restores the changes and keeps the entry', async () => {
+      await generateTestStashEntry(repository, 'master', false)
+      const [entry] = (await getStashes(repository)).entries
+
+      await applyStashEntry(repository, entry.stashSha)
+
+      const status = await getStatusOrThrow(repository)
+      expect(status.workingDirectory.files).toHaveLength(1)
+      expect((await getStashes(repository)).entries).toHaveLength(1)
+    })
+  })
+
+  describe('dropStashEntry', () => {
+    it('removes entries not created by Desktop', async () => {
+      await generateTestStashEntry(repository, 'master', false)
+      await generateTestStashEntry(repository, 'master', false)
+      const [, entry] = (await getStashes(repository)).entries
+
+      await dropStashEntry(repository, entry.stashSha)
+
+      const { entries } = await getStashes(repository)
+      expect(entries.map(e => e.stashSha)).not.toContain(entry.stashSha)
+      expect(entries).toHaveLength(1)
+    })
+  })
+
+  describe('createBranchFromStashEntry', () => {
+    it('checks out a new branch with the changes restored', async () => {
+      await generateTestStashEntry(repository, 'master', false)
+      const [entry] = (await getStashes(repository)).entries
+
+      await createBranchFromStashEntry(repository, 'from-stash', entry.stashSha)
+
+      const branches = await getBranches(repository, 'refs/heads/from-stash')
+      expect(branches).toHaveLength(1)
+
+      const status = await getStatusOrThrow(repository)
+      expect(status.currentBranch).toBe('from-stash')
+      expect(status.workingDirectory.files).toHaveLength(1)
+      expect((await getStashes(repository)).entries).toHaveLength(0)
+    })
+  })
+})
+
 /**
  * Creates a stash entry using `git stash push` to allow for simulating
  * entries created via the CLI and Desktop
@@ -14,6 +14,11 @@ import {
   checkoutBranch,
   deleteTag,
   getBranches,
+  getTags,
+  getRemoteTags,
+  pushTag,
+  deleteRemoteTag,
+  getPreviousTag,
 } from '../../../src/lib/git'
 import {
   setupFixtureRepository,
@@ -25,6 +30,7 @@ import { IRemote } from '../../../src/models/remote'
 import { findDefaultRemote } from '../../../src/lib/stores/helpers/find-default-remote'
 import { getStatusOrThrow } from '../../helpers/status'
 import { assertNonNullable } from '../../../src/lib/fatal-error'
+import { GitProcess } from 'dugite'
 
 describe('git/tag', () => {
   let repository: Repository
@@ -83,6 +89,106 @@ describe('git/tag', () => {
         /already exists/i
       )
     })
+
+    it('creates a tag with the given message', async () => {
+      await createTag(repository, 'v1.0', 'HEAD', 'The first release')
+
+      const result = await GitProcess.exec(
+        ['tag', '-l', '--format=%(contents)', 'v1.0'],
+        repository.path
+      )
+      expect(result.stdout.trim()).toBe('The first release')
+    })
+  })
+
+  describe('getTags', () => {
+    it('returns an empty array when the repository has no tags', async () => {
+      expect(await getTags(repository)).toEqual([])
+    })
+
+    it('returns annotated tags with their message and tagger', async () => {
+      const commit = await getCommit(repository, 'HEAD')
+      await createTag(repository, 'v1.0', 'HEAD', 'Subject\n\nBody')
+
+      const [tag] = await getTags(repository)
+      expect(tag.name).toBe('v1.0')
+      expect(tag.target).toBe(commit!.sha)
+      expect(tag.annotated).toBe(true)
+      expect(tag.signed).toBe(false)
+      expect(tag.message).toBe('Subject\n\nBody')
+      expect(tag.tagger).not.toBeNull()
+    })
+
+    it('returns lightweight tags without a tagger', async () => {
+      const commit = await getCommit(repository, 'HEAD')
+      await GitProcess.exec(['tag', 'lightweight'], repository.path)
+
+      const [tag] = await getTags(repository)
+      expect(tag.name).toBe('lightweight')
+      expect(tag.target).toBe(commit!.sha)
+      expect(tag.annotated).toBe(false)
+      expect(tag.message).toBe('')
+      expect(tag.tagger).toBeNull()
+      expect(tag.date).toEqual(commit!.committer.date)
+    })
+  })
+
+  describe('getPreviousTag', () => {
+    it('returns the most recent tag before the given tag', async () => {
+      await createTag(repository, 'v1.0', 'HEAD~2')
+      await createTag(repository, 'v1.1', 'HEAD~1')
+      await createTag(repository, 'v2.0', 'HEAD')
+
+      expect(await getPreviousTag(repository, 'v2.0')).toBe('v1.1')
+      expect(await getPreviousTag(repository, 'v1.1')).toBe('v1.0')
+    })
+
+    it('returns null for the first tag', async () => {
+      await createTag(repository, 'v1.0', 'HEAD')
+
+      expect(await getPreviousTag(repository, 'v1.0')).toBeNull()
+    })
+  })
+
+  describe('remote tags', () => {
+    let remoteRepository: Repository
+    let originRemote: IRemote
+
+    beforeEach(async () => {
+      const path = await setupFixtureRepository('test-repo-with-tags')
+      remoteRepository = new Repository(path, -1, null, false)
+      repository = await setupLocalForkOfRepository(remoteRepository)
+
+      const remotes = await getRemotes(repository)
+      originRemote = findDefaultRemote(remotes)!
+    })
+
+    it('lists the tags of the remote', async () => {
+      const remoteTags = await getRemoteTags(repository, account, originRemote)
+
+      expect(remoteTags).toEqual(await getAllTags(remoteRepository))
+    })
+
+    it('pushes a single tag', async () => {
+      await createTag(repository, 'my-new-tag', 'HEAD')
+      await createTag(repository, 'another-tag', 'HEAD')
+
+      await pushTag(repository, account, originRemote, 'my-new-tag')
+
+      const remoteTags = await getAllTags(remoteRepository)
+      expect(remoteTags.has('my-new-tag')).toBe(true)
+      expect(remoteTags.has('another-tag')).toBe(false)
+    })
+
+    it('deletes a single tag from the remote only', async () => {
+      await createTag(repository, 'my-new-tag', 'HEAD')
+      await pushTag(repository, account, originRemote, 'my-new-tag')
+
+      await deleteRemoteTag(repository, account, originRemote, 'my-new-tag')
+
+      expect((await getAllTags(remoteRepository)).has('my-new-tag')).toBe(false)
+      expect((await getAllTags(repository)).has('my-new-tag')).toBe(true)
+    })
   })
 
   describe('deleteTag', () => {
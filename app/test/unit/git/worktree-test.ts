@@ -0,0 +1,155 @@
+import * as FSE from 'fs-extra'
+import * as Path from 'path'
+import { Repository } from '../../../src/models/repository'
+import {
+  addWorktree,
+  listWorktrees,
+  lockWorktree,
+  parseWorktreeListPorcelain,
+  pruneWorktrees,
+  removeWorktree,
+  unlockWorktree,
+} from '../../../src/lib/git'
+import { setupEmptyRepository } from '../../helpers/repositories'
+import { makeCommit } from '../../helpers/repository-scaffolding'
+import { getTipOrError } from '../../helpers/git'
+import { createTempDirectory } from '../../helpers/temp'
+
+describe('git/worktree', () => {
+  describe('parseWorktreeListPorcelain', () => {
+    it('parses main and linked worktrees', () => {
+      const output = [
+        'worktree /repos/main',
+        'HEAD 1234567890123456789012345678901234567890',
+        'branch refs/heads/main',
+        '',
+        'worktree /repos/feature',
+        'HEAD abcdefabcdefabcdefabcdefabcdefabcdefabcd',
+        'branch refs/heads/feature/thing',
+        'locked on a removable drive',
+        '',
+        'worktree /repos/gone',
+        'HEAD abcdefabcdefabcdefabcdefabcdefabcdefabcd',
+        'detached',
+        'locked',
+        'prunable gitdir file points to non-existent location',
+        '',
+      ].join('\n')
+
+      const [main, feature, gone] = parseWorktreeListPorcelain(output)
+
+      expect(main.path).toBe('/repos/main')
+      expect(main.head).toBe('1234567890123456789012345678901234567890')
+      expect(main.branch).toBe('main')
+      expect(main.isMain).toBe(true)
+      expect(main.isLocked).toBe(false)
+
+      expect(feature.branch).toBe('feature/thing')
+      expect(feature.isMain).toBe(false)
+      expect(feature.isLocked).toBe(true)
+      expect(feature.lockReason).toBe('on a removable drive')
+
+      expect(gone.branch).toBeNull()
+      expect(gone.isDetached).toBe(true)
+      expect(gone.isLocked).toBe(true)
+      expect(gone.lockReason).toBeNull()
+      expect(gone.isPrunable).toBe(true)
+    })
+
+    it('parses bare repositories', () => {
+      const [main] = parseWorktreeListPorcelain('worktree /repos/bare\nbare\n')
+
+      expect(main.isBare).toBe(true)
+      expect(main.head).toBe('')
+      expect(main.branch).toBeNull()
+    })
+  })
+
+  describe('worktree operations', () => {
+    let repository: Repository
+    let worktreePath: string
+
+    beforeEach(async () => {
+      repository = await setupEmptyRepository()
+
+      await makeCommit(repository, {
+        commitMessage: 'First commit',
+        entries: [{ path: 'README.md', contents: 'Hello world\n' }],
+      })
+
+      const parent = await createTempDirectory('desktop-worktree-')
+      worktreePath = Path.join(await FSE.realpath(parent), 'linked')
+    })
+
+    it('lists only the main worktree by default', async () => {
+      const worktrees = await listWorktrees(repository)
+
+      expect(worktrees).toHaveLength(1)
+      expect(worktrees[0].isMain).toBe(true)
+      expect(await FSE.realpath(worktrees[0].path)).toBe(
+        await FSE.realpath(repository.path)
+      )
+    })
+
+    it('adds a worktree with a new branch', async () => {
+      const tip = await getTipOrError(repository)
+
+      await addWorktree(repository, worktreePath, 'HEAD', 'feature')
+
+      const worktrees = await listWorktrees(repository)
+      expect(worktrees).toHaveLength(2)
+
+      const linked = worktrees[1]
+      expect(linked.path).toBe(worktreePath)
+      expect(linked.branch).toBe('feature')
+      expect(linked.head).toBe(tip.sha)
+      expect(linked.isMain).toBe(false)
+      expect(await FSE.pathExists(Path.join(worktreePath, 'README.md'))).toBe(
+        true
+      )
+
+      // Linked worktrees see the same list of worktrees
+      const fromLinked = await listWorktrees(
+        new Repository(worktreePath, -1, null, false)
+      )
+      expect(fromLinked.map(w => w.path)).toEqual(worktrees.map(w => w.path))
+    })
+
+    it('locks and unlocks worktrees', async () => {
+      await addWorktree(repository, worktreePath, 'HEAD', 'feature')
+
+      await lockWorktree(repository, worktreePath, 'on a removable drive')
+      let [, linked] = await listWorktrees(repository)
+      expect(linked.isLocked).toBe(true)
+      expect(linked.lockReason).toBe('on a removable drive')
+
+      await unlockWorktree(repository, worktreePath)
+      ;[, linked] = await listWorktrees(repository)
+      expect(linked.isLocked).toBe(false)
+    })
+
+    it('removes worktrees', async () => {
+      await addWorktree(repository, worktreePath, 'HEAD', 'feature')
+      await FSE.writeFile(Path.join(worktreePath, 'README.md'), 'Changed\n')
+
+      await expect(removeWorktree(repository, worktreePath)).rejects.toThrow()
+
+      await removeWorktree(repository, worktreePath, true)
+
+      expect(await listWorktrees(repository)).toHaveLength(1)
+      expect(await FSE.pathExists(worktreePath)).toBe(false)
+    })
+
+    it('prunes worktrees whose directory has been deleted', async () => {
+      await addWorktree(repository, worktreePath, 'HEAD', 'feature')
+      await FSE.remove(worktreePath)
+
+      const [, linked] = await listWorktrees(repository)
+      expect(linked.isPrunable).toBe(true)
+
+      await pruneWorktrees(repository)
+
+      expect(await listWorktrees(repository)).toHaveLength(1)
+    })
+  })
+})
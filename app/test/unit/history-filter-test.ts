@@ -0,0 +1,68 @@
+import {
+  getHistoryFilterLabel,
+  HistoryFilterKind,
+  parseHistoryFilters,
+} from '../../src/models/history-filter'
+
+describe('parseHistoryFilters', () => {
+  it('combines unqualified terms into a message filter', () => {
+    expect(parseHistoryFilters('fix the  bug')).toEqual([
+      { kind: HistoryFilterKind.Message, value: 'fix the bug' },
+    ])
+  })
+
+  it('parses qualified terms', () => {
+    expect(
+      parseHistoryFilters(
+        'author:jane path:app/src since:2023-01-01 before:yesterday content:foo regex:ba+r'
+      )
+    ).toEqual([
+      { kind: HistoryFilterKind.Author, value: 'jane' },
+      { kind: HistoryFilterKind.Path, value: 'app/src' },
+      { kind: HistoryFilterKind.Since, value: '2023-01-01' },
+      { kind: HistoryFilterKind.Until, value: 'yesterday' },
+      { kind: HistoryFilterKind.Content, value: 'foo' },
+      { kind: HistoryFilterKind.ContentRegex, value: 'ba+r' },
+    ])
+  })
+
+  it('supports quoted values', () => {
+    expect(
+      parseHistoryFilters(
+        'until:"2 weeks ago" "exact phrase" AUTHOR:"Jane Doe"'
+      )
+    ).toEqual([
+      { kind: HistoryFilterKind.Until, value: '2 weeks ago' },
+      { kind: HistoryFilterKind.Message, value: 'exact phrase' },
+      { kind: HistoryFilterKind.Author, value: 'Jane Doe' },
+    ])
+  })
+
+  it('treats unknown qualifiers as part of the message', () => {
+    expect(parseHistoryFilters('fix: crash on startup')).toEqual([
+      { kind: HistoryFilterKind.Message, value: 'fix: crash on startup' },
+    ])
+  })
+
+  it('ignores qualifiers without a value', () => {
+    expect(parseHistoryFilters('author: ')).toEqual([])
+    expect(parseHistoryFilters('   ')).toEqual([])
+  })
+})
+
+describe('getHistoryFilterLabel', () => {
+  it('labels filters by their kind', () => {
+    expect(
+      getHistoryFilterLabel({ kind: HistoryFilterKind.Message, value: 'foo' })
+    ).toBe('foo')
+    expect(
+      getHistoryFilterLabel({ kind: HistoryFilterKind.Author, value: 'jane' })
+    ).toBe('author: jane')
+    expect(
+      getHistoryFilterLabel({
+        kind: HistoryFilterKind.ContentRegex,
+        value: 'a+',
+      })
+    ).toBe('regex: a+')
+  })
+})
@@ -0,0 +1,110 @@
+import { Commit } from '../../src/models/commit'
+import { CommitIdentity } from '../../src/models/commit-identity'
+import {
+  IInteractiveRebaseStep,
+  InteractiveRebaseAction,
+} from '../../src/models/interactive-rebase'
+import {
+  getInteractiveRebasePreview,
+  validateInteractiveRebase,
+} from '../../src/lib/interactive-rebase'
+
+describe('interactive rebase', () => {
+  describe('getInteractiveRebasePreview', () => {
+    it('leaves out dropped commits', () => {
+      const preview = getInteractiveRebasePreview([
+        buildStep('first', InteractiveRebaseAction.Pick),
+        buildStep('second', InteractiveRebaseAction.Drop),
+        buildStep('third', InteractiveRebaseAction.Pick),
+      ])
+
+      expect(preview.map(c => c.summary)).toEqual(['first', 'third'])
+    })
+
+    it('melds squashed and fixed up commits into the previous one', () => {
+      const preview = getInteractiveRebasePreview([
+        buildStep('first', InteractiveRebaseAction.Pick),
+        buildStep('second', InteractiveRebaseAction.Squash),
+        buildStep('third', InteractiveRebaseAction.Drop),
+        buildStep('fourth', InteractiveRebaseAction.Fixup, null, 'make'),
+      ])
+
+      expect(preview).toHaveLength(1)
+      expect(preview[0].summary).toBe('first')
+      expect(preview[0].commits.map(c => c.summary)).toEqual([
+        'first',
+        'second',
+        'fourth',
+      ])
+      expect(preview[0].execs).toEqual(['make'])
+    })
+
+    it('uses the first line of the new message of reworded commits', () => {
+      const preview = getInteractiveRebasePreview([
+        buildStep('first', InteractiveRebaseAction.Reword, 'New\n\nBody'),
+        buildStep('second', InteractiveRebaseAction.Edit),
+      ])
+
+      expect(preview.map(c => c.summary)).toEqual(['New', 'second'])
+      expect(preview.map(c => c.stopsToEdit)).toEqual([false, true])
+    })
+  })
+
+  describe('validateInteractiveRebase', () => {
+    it('accepts picking every commit', () => {
+      expect(
+        validateInteractiveRebase([
+          buildStep('first', InteractiveRebaseAction.Pick),
+          buildStep('second', InteractiveRebaseAction.Pick),
+        ])
+      ).toBeNull()
+    })
+
+    it('requires a commit to be kept', () => {
+      expect(
+        validateInteractiveRebase([
+          buildStep('first', InteractiveRebaseAction.Drop),
+        ])
+      ).not.toBeNull()
+    })
+
+    it('rejects melding the first kept commit', () => {
+      expect(
+        validateInteractiveRebase([
+          buildStep('first', InteractiveRebaseAction.Drop),
+          buildStep('second', InteractiveRebaseAction.Fixup),
+        ])
+      ).not.toBeNull()
+    })
+
+    it('requires a message when rewording a commit', () => {
+      expect(
+        validateInteractiveRebase([
+          buildStep('first', InteractiveRebaseAction.Reword, '  '),
+        ])
+      ).not.toBeNull()
+    })
+  })
+})
+
+function buildStep(
+  summary: string,
+  action: InteractiveRebaseAction,
+  message: string | null = null,
+  exec: string | null = null
+): IInteractiveRebaseStep {
+  const author = new CommitIdentity('test', 'test', new Date())
+  const commit = new Commit(
+    summary,
+    summary,
+    summary,
+    '',
+    author,
+    author,
+    [],
+    [],
+    []
+  )
+
+  return { commit, action, message, exec }
+}
@@ -0,0 +1,67 @@
+import {
+  formatLanguageMappings,
+  getMappedLanguage,
+  parseLanguageMappings,
+  setLanguageMappings,
+} from '../../src/lib/highlighter/language-mappings'
+import { isHighlighterGrammar } from '../../src/lib/highlighter/user-grammars'
+import { builtInGrammars } from '../../src/highlighter/grammars'
+
+describe('highlighter language mappings', () => {
+  describe('parseLanguageMappings', () => {
+    it('parses one mapping per line', () => {
+      const mappings = parseLanguageMappings(
+        '.tf = Terraform\n*.KTS=Kotlin\n\nJenkinsfile = Groovy\nnot a mapping'
+      )
+
+      expect([...mappings]).toEqual([
+        ['.tf', 'Terraform'],
+        ['.kts', 'Kotlin'],
+        ['jenkinsfile', 'Groovy'],
+      ])
+    })
+
+    it('round trips formatted mappings', () => {
+      const mappings = new Map([
+        ['.tf', 'Terraform'],
+        ['jenkinsfile', 'Groovy'],
+      ])
+
+      expect(parseLanguageMappings(formatLanguageMappings(mappings))).toEqual(
+        mappings
+      )
+    })
+  })
+
+  describe('getMappedLanguage', () => {
+    afterEach(() => localStorage.clear())
+
+    it('prefers file names over extensions', () => {
+      setLanguageMappings(
+        new Map([
+          ['.txt', 'Markdown'],
+          ['cmakelists.txt', 'CMake'],
+        ])
+      )
+
+      expect(getMappedLanguage('CMakeLists.txt', '.txt')).toBe('CMake')
+      expect(getMappedLanguage('notes.TXT', '.TXT')).toBe('Markdown')
+      expect(getMappedLanguage('main.rs', '.rs')).toBeNull()
+    })
+  })
+
+  describe('isHighlighterGrammar', () => {
+    it('accepts the built-in grammars', () => {
+      expect(builtInGrammars.every(isHighlighterGrammar)).toBe(true)
+    })
+
+    it('rejects grammars without a start state', () => {
+      expect(
+        isHighlighterGrammar({
+          name: 'Broken',
+          states: { comment: [{ regex: '#.*', token: 'comment' }] },
+        })
+      ).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,78 @@
+import { DiffParser } from '../../src/lib/diff-parser'
+import { DiffLineType } from '../../src/models/diff'
+import { getMovedLines } from '../../src/ui/diff/moved-lines'
+
+function getMovedLineTexts(diffText: string) {
+  const diff = new DiffParser().parse(diffText)
+  const movedLines = getMovedLines(diff.hunks)
+
+  return diff.hunks
+    .flatMap(h => h.lines)
+    .filter(l => movedLines.has(l))
+    .map(l => l.text)
+}
+
+describe('getMovedLines', () => {
+  it('detects a block moved within the file', () => {
+    const diffText = `diff --git a/file.ts b/file.ts
+index 1111111..2222222 100644
+--- a/file.ts
++++ b/file.ts
+@@ -1,6 +1,6 @@
+-function moved() {
+-  return computeSomething()
+-}
+ function unchanged() {
+   return 1
+ }
++function moved() {
++  return computeSomething()
++}
+`
+    expect(getMovedLineTexts(diffText)).toEqual([
+      '-function moved() {',
+      '-  return computeSomething()',
+      '-}',
+      '+function moved() {',
+      '+  return computeSomething()',
+      '+}',
+    ])
+  })
+
+  it('ignores short blocks appearing elsewhere', () => {
+    const diffText = `diff --git a/file.ts b/file.ts
+index 1111111..2222222 100644
+--- a/file.ts
++++ b/file.ts
+@@ -1,4 +1,4 @@
+-}
+ const a = 1
+ const b = 2
++}
+`
+    expect(getMovedLineTexts(diffText)).toEqual([])
+  })
+
+  it('does not report genuine additions and deletions as moved', () => {
+    const diffText = `diff --git a/file.ts b/file.ts
+index 1111111..2222222 100644
+--- a/file.ts
++++ b/file.ts
+@@ -1,3 +1,3 @@
+ function example() {
+-  return computeSomething()
++  return computeSomethingElse()
+ }
+`
+    const diff = new DiffParser().parse(diffText)
+    const movedLines = getMovedLines(diff.hunks)
+    const changedLines = diff.hunks
+      .flatMap(h => h.lines)
+      .filter(
+        l => l.type === DiffLineType.Add || l.type === DiffLineType.Delete
+      )
+
+    expect(changedLines).toHaveLength(2)
+    expect(movedLines.size).toBe(0)
+  })
+})
@@ -5,6 +5,7 @@ import {
 import { Repository, ILocalRepositoryState } from '../../src/models/repository'
 import { CloningRepository } from '../../src/models/cloning-repository'
 import { gitHubRepoFixture } from '../helpers/github-repo-builder'
+import { IWorktree } from '../../src/models/worktree'
 
 describe('repository list grouping', () => {
   const repositories: Array<Repository | CloningRepository> = [
@@ -149,4 +150,74 @@ describe('repository list grouping', () => {
     expect(grouped[2].items[1].text[0]).toBe('enterprise-repo')
     expect(grouped[2].items[1].needsDisambiguation).toBe(true)
   })
+
+  describe('worktrees', () => {
+    const worktree = (path: string, branch: string, isMain: boolean) => ({
+      path,
+      head: '1234567890123456789012345678901234567890',
+      branch,
+      isMain,
+      isBare: false,
+      isDetached: false,
+      isLocked: false,
+      lockReason: null,
+      isPrunable: false,
+    })
+
+    const worktrees: ReadonlyArray<IWorktree> = [
+      worktree('/repos/app', 'main', true),
+      worktree('/repos/app-feature', 'feature', false),
+    ]
+
+    const gitHubRepository = gitHubRepoFixture({ owner: 'me', name: 'app' })
+    const main = new Repository('/repos/app', 1, gitHubRepository, false)
+    const linked = new Repository(
+      '/repos/app-feature',
+      2,
+      gitHubRepository,
+      false
+    )
+    const other = new Repository(
+      '/repos/another',
+      3,
+      gitHubRepoFixture({ owner: 'me', name: 'another' }),
+      false
+    )
+
+    const worktreesLookup = new Map([
+      [main.id, worktrees],
+      [linked.id, worktrees],
+      [other.id, [worktree('/repos/another', 'main', true)]],
+    ])
+
+    it('lists linked worktrees below their main repository', () => {
+      const grouped = groupRepositories(
+        [linked, other, main],
+        cache,
+        worktreesLookup
+      )
+      expect(grouped).toHaveLength(1)
+
+      const items = grouped[0].items
+      expect(items.map(i => i.repository.id)).toEqual([3, 1, 2])
+
+      expect(items[1].linkedWorktree).toBeNull()
+      expect(items[1].isNestedWorktree).toBe(false)
+
+      expect(items[2].text[0]).toBe('app-feature')
+      expect(items[2].linkedWorktree?.branch).toBe('feature')
+      expect(items[2].isNestedWorktree).toBe(true)
+    })
+
+    it('lists linked worktrees on their own when the main repository is missing', () => {
+      const grouped = groupRepositories([linked, other], cache, worktreesLookup)
+      expect(grouped).toHaveLength(1)
+
+      const items = grouped[0].items
+      expect(items.map(i => i.repository.id)).toEqual([3, 2])
+      expect(items[1].text[0]).toBe('app-feature')
+      expect(items[1].linkedWorktree).not.toBeNull()
+      expect(items[1].isNestedWorktree).toBe(false)
+    })
+  })
 })
@@ -0,0 +1,150 @@
+import { getRichDiffFormat, RichDiffFormat } from '../../src/ui/diff/rich-diffs'
+import {
+  getMarkdownBlocks,
+  markChangedMarkdownBlocks,
+} from '../../src/ui/diff/rich-diffs/markdown-blocks'
+import {
+  getNotebookCellChanges,
+  NotebookCellChangeType,
+  parseNotebook,
+} from '../../src/ui/diff/rich-diffs/notebook'
+
+function notebook(cells: ReadonlyArray<Record<string, unknown>>) {
+  return JSON.stringify({ nbformat: 4, nbformat_minor: 5, cells })
+}
+
+describe('rich diffs', () => {
+  describe('getRichDiffFormat', () => {
+    it('recognizes Markdown, SVG and notebook files', () => {
+      expect(getRichDiffFormat('README.md')).toBe(RichDiffFormat.Markdown)
+      expect(getRichDiffFormat('docs/guide.MARKDOWN')).toBe(
+        RichDiffFormat.Markdown
+      )
+      expect(getRichDiffFormat('logo.svg')).toBe(RichDiffFormat.SVG)
+      expect(getRichDiffFormat('analysis.ipynb')).toBe(RichDiffFormat.Notebook)
+    })
+
+    it('returns null for other files', () => {
+      expect(getRichDiffFormat('index.ts')).toBeNull()
+    })
+  })
+
+  describe('getMarkdownBlocks', () => {
+    it('splits a document on blank lines', () => {
+      expect(
+        getMarkdownBlocks('# Title\n\nFirst\nparagraph\n\n\n- item')
+      ).toEqual(['# Title', 'First\nparagraph', '- item'])
+    })
+
+    it('keeps fenced code blocks with blank lines together', () => {
+      const markdown = 'Intro\n\n```js\nconst a = 1\n\nconst b = 2\n```\n\nEnd'
+      expect(getMarkdownBlocks(markdown)).toEqual([
+        'Intro',
+        '```js\nconst a = 1\n\nconst b = 2\n```',
+        'End',
+      ])
+    })
+  })
+
+  describe('markChangedMarkdownBlocks', () => {
+    it('marks removed and added blocks', () => {
+      const { before, after } = markChangedMarkdownBlocks(
+        '# Title\n\nOld text\n\nFooter',
+        '# Title\n\nNew text\n\nFooter'
+      )
+
+      expect(before).toBe(
+        '# Title\n\n<div class="markdown-diff-block removed">\n\nOld text\n\n</div>\n\nFooter'
+      )
+      expect(after).toBe(
+        '# Title\n\n<div class="markdown-diff-block added">\n\nNew text\n\n</div>\n\nFooter'
+      )
+    })
+
+    it('keeps the missing version of added files null', () => {
+      const { before, after } = markChangedMarkdownBlocks(null, 'Text')
+
+      expect(before).toBeNull()
+      expect(after).toBe(
+        '<div class="markdown-diff-block added">\n\nText\n\n</div>'
+      )
+    })
+  })
+
+  describe('parseNotebook', () => {
+    it('parses the source and outputs of cells', () => {
+      const cells = parseNotebook(
+        notebook([
+          { cell_type: 'markdown', source: ['# Title\n', 'Text'] },
+          {
+            cell_type: 'code',
+            source: 'print(1)',
+            outputs: [
+              { output_type: 'stream', name: 'stdout', text: ['1\n'] },
+              {
+                output_type: 'display_data',
+                data: { 'image/png': 'iVBO\nRw0K', 'text/plain': '<Figure>' },
+              },
+              {
+                output_type: 'error',
+                ename: 'ValueError',
+                evalue: 'bad',
+                traceback: ['\u001b[0;31mValueError\u001b[0m: bad'],
+              },
+            ],
+          },
+        ])
+      )
+
+      expect(cells).toHaveLength(2)
+      expect(cells[0].source).toBe('# Title\nText')
+      expect(cells[1].outputText).toBe('1\n\n<Figure>\nValueError: bad')
+      expect(cells[1].outputImages).toEqual([
+        { mediaType: 'image/png', data: 'iVBORw0K' },
+      ])
+    })
+
+    it('throws for files which are not notebooks', () => {
+      expect(() => parseNotebook('{}')).toThrow()
+    })
+  })
+
+  describe('getNotebookCellChanges', () => {
+    const cell = (source: string, id: string | null = null) => ({
+      id,
+      cellType: 'code',
+      source,
+      outputText: '',
+      outputImages: [],
+    })
+
+    it('pairs removed and added cells as modified', () => {
+      const changes = getNotebookCellChanges(
+        [cell('a = 1'), cell('b = 2'), cell('c = 3')],
+        [cell('a = 1'), cell('b = 3'), cell('c = 3'), cell('d = 4')]
+      )
+
+      expect(changes.map(c => c.type)).toEqual([
+        NotebookCellChangeType.Unchanged,
+        NotebookCellChangeType.Modified,
+        NotebookCellChangeType.Unchanged,
+        NotebookCellChangeType.Added,
+      ])
+      expect(changes[1].before?.source).toBe('b = 2')
+      expect(changes[1].after?.source).toBe('b = 3')
+    })
+
+    it('matches cells by id when they have one', () => {
+      const changes = getNotebookCellChanges(
+        [cell('a = 1', 'a'), cell('b = 2', 'b')],
+        [cell('a = 2', 'a'), cell('c = 3', 'c')]
+      )
+
+      expect(changes.map(c => c.type)).toEqual([
+        NotebookCellChangeType.Modified,
+        NotebookCellChangeType.Removed,
+        NotebookCellChangeType.Added,
+      ])
+    })
+  })
+})
@@ -0,0 +1,170 @@
+import { getStructuredDiffProvider } from '../../src/lib/structured-diff'
+import { getKeyPathDiff } from '../../src/lib/structured-diff/key-paths'
+import {
+  getLockfileDiff,
+  parseNpmLockfile,
+  parseYarnLockfile,
+} from '../../src/lib/structured-diff/lockfiles'
+import {
+  KeyPathChangeType,
+  PackageChangeType,
+} from '../../src/models/structured-diff'
+
+describe('structured diff', () => {
+  describe('getStructuredDiffProvider', () => {
+    it('prefers lockfile providers over generic formats', () => {
+      expect(getStructuredDiffProvider('app/package-lock.json')?.name).toBe(
+        'npm lockfile'
+      )
+      expect(getStructuredDiffProvider('yarn.lock')?.name).toBe('Yarn lockfile')
+      expect(getStructuredDiffProvider('package.json')?.name).toBe('JSON')
+      expect(getStructuredDiffProvider('tsconfig.JSON')?.name).toBe('JSON')
+      expect(getStructuredDiffProvider('.github/ci.YML')?.name).toBe('YAML')
+    })
+
+    it('returns null for other files', () => {
+      expect(getStructuredDiffProvider('README.md')).toBeNull()
+    })
+  })
+
+  describe('getKeyPathDiff', () => {
+    it('lists added, modified and removed values', () => {
+      const diff = getKeyPathDiff(
+        { name: 'app', scripts: { build: 'tsc', lint: 'eslint' }, files: [] },
+        { name: 'app', scripts: { build: 'tsc -b', 'test:unit': 'jest' } }
+      )
+
+      expect(diff.changes).toEqual([
+        {
+          type: KeyPathChangeType.Modified,
+          path: 'scripts.build',
+          oldValue: '"tsc"',
+          newValue: '"tsc -b"',
+        },
+        {
+          type: KeyPathChangeType.Added,
+          path: 'scripts["test:unit"]',
+          oldValue: null,
+          newValue: '"jest"',
+        },
+        {
+          type: KeyPathChangeType.Removed,
+          path: 'scripts.lint',
+          oldValue: '"eslint"',
+          newValue: null,
+        },
+        {
+          type: KeyPathChangeType.Removed,
+          path: 'files',
+          oldValue: '[]',
+          newValue: null,
+        },
+      ])
+    })
+
+    it('uses indices for array items', () => {
+      const diff = getKeyPathDiff({ list: [1, 2] }, { list: [1, 3] })
+      expect(diff.changes.map(c => c.path)).toEqual(['list[1]'])
+    })
+
+    it('treats every value of an added document as added', () => {
+      const diff = getKeyPathDiff(undefined, { a: 1, b: { c: true } })
+      expect(diff.changes.map(c => [c.type, c.path])).toEqual([
+        [KeyPathChangeType.Added, 'a'],
+        [KeyPathChangeType.Added, 'b.c'],
+      ])
+    })
+  })
+
+  describe('lockfiles', () => {
+    it('parses npm lockfiles with a packages section', () => {
+      const packages = parseNpmLockfile(
+        JSON.stringify({
+          lockfileVersion: 2,
+          packages: {
+            '': { name: 'app', version: '1.0.0' },
+            'packages/lib': { name: 'lib', version: '0.1.0' },
+            'node_modules/lib': { resolved: 'packages/lib', link: true },
+            'node_modules/lodash': { version: '4.17.21' },
+            'node_modules/@babel/core': { version: '7.20.0' },
+            'node_modules/a/node_modules/lodash': { version: '3.10.1' },
+          },
+        })
+      )
+
+      expect([...packages.keys()]).toEqual(['lodash', '@babel/core'])
+      expect([...packages.get('lodash')!]).toEqual(['4.17.21', '3.10.1'])
+    })
+
+    it('parses npm lockfiles with nested dependencies', () => {
+      const packages = parseNpmLockfile(
+        JSON.stringify({
+          lockfileVersion: 1,
+          dependencies: {
+            a: {
+              version: '1.0.0',
+              dependencies: { b: { version: '2.0.0' } },
+            },
+          },
+        })
+      )
+
+      expect([...packages.keys()]).toEqual(['a', 'b'])
+    })
+
+    it('parses yarn lockfiles', () => {
+      const v1 = `# THIS IS AN AUTOGENERATED FILE.
+
+"@babel/core@^7.0.0", "@babel/core@^7.1.0":
+  version "7.20.0"
+  resolved "https://registry.yarnpkg.com/@babel/core/-/core-7.20.0.tgz"
+  dependencies:
+    debug "^4.1.0"
+
+debug@^4.1.0:
+  version "4.3.4"
+`
+      const berry = `__metadata:
+  version: 6
+
+"debug@npm:^4.1.0":
+  version: 4.3.4
+  resolution: "debug@npm:4.3.4"
+`
+      expect(
+        [...parseYarnLockfile(v1)].map(([name, v]) => [name, [...v]])
+      ).toEqual([
+        ['@babel/core', ['7.20.0']],
+        ['debug', ['4.3.4']],
+      ])
+      expect([...parseYarnLockfile(berry).keys()]).toEqual(['debug'])
+    })
+
+    it('classifies package changes', () => {
+      const diff = getLockfileDiff(
+        new Map([
+          ['removed', new Set(['1.0.0'])],
+          ['upgraded', new Set(['1.0.0'])],
+          ['downgraded', new Set(['2.0.0'])],
+          ['changed', new Set(['1.0.0'])],
+          ['unchanged', new Set(['1.0.0', '2.0.0'])],
+        ]),
+        new Map([
+          ['added', new Set(['1.0.0'])],
+          ['upgraded', new Set(['1.2.0'])],
+          ['downgraded', new Set(['1.9.0'])],
+          ['changed', new Set(['1.0.0', '2.0.0'])],
+          ['unchanged', new Set(['2.0.0', '1.0.0'])],
+        ])
+      )
+
+      expect(diff.changes.map(c => [c.name, c.type])).toEqual([
+        ['added', PackageChangeType.Added],
+        ['changed', PackageChangeType.Changed],
+        ['downgraded', PackageChangeType.Downgraded],
+        ['removed', PackageChangeType.Removed],
+        ['upgraded', PackageChangeType.Upgraded],
+      ])
+    })
+  })
+})
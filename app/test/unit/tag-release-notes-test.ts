@@ -0,0 +1,59 @@
+import { Commit } from '../../src/models/commit'
+import { CommitIdentity } from '../../src/models/commit-identity'
+import { generateTagReleaseNotes } from '../../src/lib/tag-release-notes'
+
+function buildTestCommit(
+  shortSha: string,
+  summary: string,
+  parentSHAs: ReadonlyArray<string> = ['parent']
+) {
+  const author = new CommitIdentity('test', 'test', new Date())
+  return new Commit(
+    shortSha,
+    shortSha,
+    summary,
+    '',
+    author,
+    author,
+    parentSHAs,
+    [],
+    []
+  )
+}
+
+describe('generateTagReleaseNotes', () => {
+  it('lists the commits since the previous tag', () => {
+    const commits = [
+      buildTestCommit('abc1234', 'Fix the thing'),
+      buildTestCommit('def5678', 'Add the thing'),
+    ]
+
+    expect(generateTagReleaseNotes(commits, 'v1.0', 'v1.1')).toBe(
+      [
+        "## What's changed",
+        '',
+        '- Fix the thing (abc1234)',
+        '- Add the thing (def5678)',
+        '',
+        '**Full changelog**: v1.0...v1.1',
+      ].join('\n')
+    )
+  })
+
+  it('leaves out merge commits', () => {
+    const commits = [
+      buildTestCommit('abc1234', 'Merge branch feature', ['a', 'b']),
+      buildTestCommit('def5678', 'Add the thing'),
+    ]
+
+    expect(generateTagReleaseNotes(commits, null, 'v1.0')).toBe(
+      ["## What's changed", '', '- Add the thing (def5678)'].join('\n')
+    )
+  })
+
+  it('notes when there are no changes', () => {
+    expect(generateTagReleaseNotes([], 'v1.0', 'v1.0.1')).toContain(
+      'No changes.'
+    )
+  })
+})
@@ -0,0 +1,75 @@
+import {
+  getWordDiffRanges,
+  tokenizeForWordDiff,
+} from '../../src/ui/diff/word-diff'
+
+/** Get the text covered by the given ranges */
+function changedText(
+  line: string,
+  ranges: ReadonlyArray<{ location: number; length: number }>
+) {
+  return ranges.map(r => line.substr(r.location, r.length))
+}
+
+describe('word diff', () => {
+  describe('tokenizeForWordDiff', () => {
+    it('splits lines into words, whitespace and punctuation', () => {
+      expect(tokenizeForWordDiff('const foo = bar(1)')).toEqual([
+        'const',
+        ' ',
+        'foo',
+        ' ',
+        '=',
+        ' ',
+        'bar',
+        '(',
+        '1',
+        ')',
+      ])
+    })
+  })
+
+  describe('getWordDiffRanges', () => {
+    it('returns no ranges for identical lines', () => {
+      const { before, after } = getWordDiffRanges('foo bar', 'foo bar')
+      expect(before).toEqual([])
+      expect(after).toEqual([])
+    })
+
+    it('highlights a single changed word', () => {
+      const before = 'const value = getValue(a, b)'
+      const after = 'const value = computeValue(a, b)'
+      const ranges = getWordDiffRanges(before, after)
+
+      expect(changedText(before, ranges.before)).toEqual(['getValue'])
+      expect(changedText(after, ranges.after)).toEqual(['computeValue'])
+    })
+
+    it('highlights multiple separate changes', () => {
+      const before = 'foo(one, two, three)'
+      const after = 'bar(one, 2, three)'
+      const ranges = getWordDiffRanges(before, after)
+
+      expect(changedText(before, ranges.before)).toEqual(['foo', 'two'])
+      expect(changedText(after, ranges.after)).toEqual(['bar', '2'])
+    })
+
+    it('merges changes only separated by whitespace', () => {
+      const before = 'a quick brown fox'
+      const after = 'a slow red fox'
+      const ranges = getWordDiffRanges(before, after)
+
+      expect(changedText(before, ranges.before)).toEqual(['quick brown'])
+      expect(changedText(after, ranges.after)).toEqual(['slow red'])
+    })
+
+    it('highlights inserted words only in the new line', () => {
+      const before = 'return value'
+      const after = 'return await value'
+      const ranges = getWordDiffRanges(before, after)
+
+      expect(ranges.before).toEqual([])
+      expect(changedText(after, ranges.after)).toEqual(['await '])
+    })
+  })
+})
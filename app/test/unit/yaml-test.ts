@@ -0,0 +1,296 @@
+import { parseYaml } from '../../src/lib/structured-diff/yaml'
+
+describe('parseYaml', () => {
+  it('parses nested mappings and sequences', () => {
+    const yaml = `
+name: CI
+on:
+  push:
+    branches: [main, 'release/*']
+jobs:
+  build:
+    runs-on: ubuntu-latest
+    steps:
+      - uses: actions/checkout@v3
+      - name: Test
+        run: yarn test
+`
+    expect(parseYaml(yaml)).toEqual({
+      name: 'CI',
+      on: { push: { branches: ['main', 'release/*'] } },
+      jobs: {
+        build: {
+          'runs-on': 'ubuntu-latest',
+          steps: [
+            { uses: 'actions/checkout@v3' },
+            { name: 'Test', run: 'yarn test' },
+          ],
+        },
+      },
+    })
+  })
+
+  it('allows sequences at the same indentation as their key', () => {
+    const yaml = `
+items:
+- one
+- two
+other: three
+`
+    expect(parseYaml(yaml)).toEqual({ items: ['one', 'two'], other: 'three' })
+  })
+
+  it('resolves scalar types', () => {
+    const yaml = `
+number: 42
+float: 1.5
+yes: true
+nothing: ~
+empty:
+string: "42"
+single: 'it''s'
+`
+    expect(parseYaml(yaml)).toEqual({
+      number: 42,
+      float: 1.5,
+      yes: true,
+      nothing: null,
+      empty: null,
+      string: '42',
+      single: "it's",
+    })
+  })
+
+  it('ignores comments', () => {
+    const yaml = `
+# A comment
+key: value # trailing comment
+url: http://example.com/#anchor
+quoted: "# not a comment"
+`
+    expect(parseYaml(yaml)).toEqual({
+      key: 'value',
+      url: 'http://example.com/#anchor',
+      quoted: '# not a comment',
+    })
+  })
+
+  it('parses literal and folded block scalars', () => {
+    const yaml = `
+literal: |
+  line one
+  line two
+folded: >-
+  folded
+  text
+after: done
+`
+    expect(parseYaml(yaml)).toEqual({
+      literal: 'line one\nline two\n',
+      folded: 'folded text',
+      after: 'done',
+    })
+  })
+
+  it('resolves aliases to anchored values', () => {
+    const yaml = `
+defaults: &defaults
+  adapter: postgres
+development:
+  database: *defaults
+`
+    expect(parseYaml(yaml)).toEqual({
+      defaults: { adapter: 'postgres' },
+      development: { database: { adapter: 'postgres' } },
+    })
+  })
+
+  it('returns multiple documents as an array', () => {
+    const yaml = `---
+a: 1
+---
+b: 2
+`
+    expect(parseYaml(yaml)).toEqual([{ a: 1 }, { b: 2 }])
+  })
+
+  it('resolves merge keys', () => {
+    const yaml = `
+base: &base
+  image: node
+  env: production
+web:
+  <<: *base
+  env: development
+worker:
+  <<: [{ cpus: 2 }, *base]
+  cpus: 4
+`
+    expect(parseYaml(yaml)).toEqual({
+      base: { image: 'node', env: 'production' },
+      web: { image: 'node', env: 'development' },
+      worker: { image: 'node', env: 'production', cpus: 4 },
+    })
+  })
+
+  it('anchors nodes nested under sequence items', () => {
+    const yaml = `
+- &first
+  name: one
+- *first
+`
+    expect(parseYaml(yaml)).toEqual([{ name: 'one' }, { name: 'one' }])
+  })
+
+  it('parses flow collections spanning several lines', () => {
+    const yaml = `{
+  "name": "desktop",
+  "tags": [
+    "git",
+    "electron"
+  ]
+}
+`
+    expect(parseYaml(yaml)).toEqual({
+      name: 'desktop',
+      tags: ['git', 'electron'],
+    })
+  })
+
+  it('unescapes double-quoted scalars', () => {
+    const yaml = String.raw`
+tab: "a\tb"
+hex: "\x41é\U0001F600"
+yaml: "\e\_\N"
+escaped: "say \"hi\" # not a comment"
+`
+    expect(parseYaml(yaml)).toEqual({
+      tab: 'a\tb',
+      hex: 'Aé\u{1F600}',
+      yaml: '\x1b\xa0\x85',
+      escaped: 'say "hi" # not a comment',
+    })
+  })
+
+  it('only treats quotes at the start of a scalar as quoting it', () => {
+    const yaml = `
+title: It's a "plain" scalar # with a comment
+`
+    expect(parseYaml(yaml)).toEqual({
+      title: `It's a "plain" scalar`,
+    })
+  })
+
+  it('resolves infinity and not-a-number', () => {
+    expect(parseYaml('[.inf, -.Inf, .NaN]')).toEqual([Infinity, -Infinity, NaN])
+  })
+
+  it('defines __proto__ keys as properties', () => {
+    const value = parseYaml('__proto__:\n  polluted: true\n')
+
+    expect(Object.getPrototypeOf(value)).toBe(Object.prototype)
+    expect(Object.keys(value as object)).toEqual(['__proto__'])
+  })
+
+  describe('specification examples', () => {
+    it('parses mappings of sequences (example 2.3)', () => {
+      const yaml = `
+american:
+  - Boston Red Sox
+  - Detroit Tigers
+national:
+  - New York Mets
+  - Chicago Cubs
+`
+      expect(parseYaml(yaml)).toEqual({
+        american: ['Boston Red Sox', 'Detroit Tigers'],
+        national: ['New York Mets', 'Chicago Cubs'],
+      })
+    })
+
+    it('parses sequences of mappings (example 2.4)', () => {
+      const yaml = `
+-
+  name: Mark McGwire
+  hr:   65
+  avg:  0.278
+-
+  name: Sammy Sosa
+  hr:   63
+  avg:  0.288
+`
+      expect(parseYaml(yaml)).toEqual([
+        { name: 'Mark McGwire', hr: 65, avg: 0.278 },
+        { name: 'Sammy Sosa', hr: 63, avg: 0.288 },
+      ])
+    })
+
+    it('parses in-line nested mappings (example 2.6)', () => {
+      const yaml = `
+Mark McGwire: {hr: 65, avg: 0.278}
+Sammy Sosa: {
+    hr: 63,
+    avg: 0.288
+  }
+`
+      expect(parseYaml(yaml)).toEqual({
+        'Mark McGwire': { hr: 65, avg: 0.278 },
+        'Sammy Sosa': { hr: 63, avg: 0.288 },
+      })
+    })
+
+    it('parses compact nested mappings (example 2.12)', () => {
+      const yaml = `
+---
+# Products purchased
+- item    : Super Hoop
+  quantity: 1
+- item    : Basketball
+  quantity: 4
+`
+      expect(parseYaml(yaml)).toEqual([
+        { item: 'Super Hoop', quantity: 1 },
+        { item: 'Basketball', quantity: 4 },
+      ])
+    })
+
+    it('parses quoted scalars (example 2.17)', () => {
+      const yaml = String.raw`
+unicode: "Sosa did fine.☺"
+control: "\b1998\t1999\t2000\n"
+hex esc: "\x0d\x0a is \r\n"
+
+single: '"Howdy!" he cried.'
+quoted: ' # Not a ''comment''.'
+tie-fighter: '|\-*-/|'
+`
+      expect(parseYaml(yaml)).toEqual({
+        unicode: 'Sosa did fine.☺',
+        control: '\b1998\t1999\t2000\n',
+        'hex esc': '\r\n is \r\n',
+        single: '"Howdy!" he cried.',
+        quoted: " # Not a 'comment'.",
+        'tie-fighter': '|\\-*-/|',
+      })
+    })
+
+    it('parses multi-line flow scalars (example 2.18)', () => {
+      const yaml = String.raw`
+plain:
+  This unquoted scalar
+  spans many lines.
+
+quoted: "So does this
+  quoted scalar.\n"
+`
+      expect(parseYaml(yaml)).toEqual({
+        plain: 'This unquoted scalar spans many lines.',
+        quoted: 'So does this quoted scalar.\n',
+      })
+    })
+  })
+
+  it('throws on content it cannot parse', () => {
+    expect(() => parseYaml('key: value\n  - item\nother')).toThrow()
+  })
+})